@@ -0,0 +1,254 @@
+/**
+ * Chat Session Routes Tests
+ * Rename/pin/archive, search, export and branch handlers under
+ * /api/v1/chat/sessions
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const mockSupabase = { from: vi.fn() }
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn(() => ({})),
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  createRouteHandlerClient: vi.fn(() => Promise.resolve(mockSupabase)),
+}))
+
+vi.mock('@/lib/rbac/with-permission', () => ({
+  withPermission: () => (handler: (...args: unknown[]) => unknown) => handler,
+}))
+
+vi.mock('@/lib/security', () => ({
+  withRateLimit: vi.fn(() => null),
+  withCsrfProtection: vi.fn(() => null),
+}))
+
+vi.mock('@/lib/chat/context', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/chat/context')>()),
+  updateSession: vi.fn(),
+  branchSession: vi.fn(),
+  searchChatMessages: vi.fn(),
+}))
+
+import { PATCH } from '@/app/api/v1/chat/sessions/[sessionId]/route'
+import { POST as BRANCH } from '@/app/api/v1/chat/sessions/[sessionId]/branch/route'
+import { GET as EXPORT } from '@/app/api/v1/chat/sessions/[sessionId]/export/route'
+import { GET as SEARCH } from '@/app/api/v1/chat/sessions/search/route'
+import { updateSession, branchSession, searchChatMessages } from '@/lib/chat/context'
+
+const SESSION_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+const SESSION_URL = `http://localhost/api/v1/chat/sessions/${SESSION_ID}`
+
+const SESSION = {
+  id: SESSION_ID,
+  agency_id: 'agency-1',
+  user_id: 'user-1',
+  title: 'Refund policy',
+  context: null,
+  is_active: true,
+  is_pinned: false,
+  archived_at: null,
+  parent_session_id: null,
+  branched_from_message_id: null,
+  last_message_at: '2026-10-02T09:01:00.000Z',
+  created_at: '2026-10-02T09:00:00.000Z',
+}
+
+function makeRequest(url: string, body?: unknown) {
+  return {
+    url,
+    user: { id: 'user-1', agencyId: 'agency-1' },
+    json: vi.fn(async () => body),
+  } as any
+}
+
+const params = { params: Promise.resolve({ sessionId: SESSION_ID }) }
+
+// Chainable query resolving to the next queued result
+function query(results: Array<{ data: unknown; error: unknown }>) {
+  const chain: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'order', 'limit']) {
+    chain[method] = () => chain
+  }
+  chain.single = async () => results.shift()
+  chain.then = (resolve: (value: unknown) => void) => resolve(results.shift())
+  return chain
+}
+
+describe('Chat Session Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('PATCH /api/v1/chat/sessions/[sessionId]', () => {
+    it('renames, pins and archives the user\'s session', async () => {
+      vi.mocked(updateSession).mockResolvedValue({ ...SESSION, title: 'Refunds', is_pinned: true })
+
+      const response = await PATCH(
+        makeRequest(SESSION_URL, {
+          title: 'Refunds',
+          is_pinned: true,
+          archived: false,
+        }),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.title).toBe('Refunds')
+      expect(updateSession).toHaveBeenCalledWith(mockSupabase, 'agency-1', 'user-1', SESSION_ID, {
+        title: 'Refunds',
+        isPinned: true,
+        archived: false,
+      })
+    })
+
+    it('rejects invalid fields', async () => {
+      const response = await PATCH(
+        makeRequest(SESSION_URL, { is_pinned: 'yes' }),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(updateSession).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 for a session the user does not own', async () => {
+      vi.mocked(updateSession).mockResolvedValue(null)
+
+      const response = await PATCH(
+        makeRequest(SESSION_URL, { archived: true }),
+        params
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('GET /api/v1/chat/sessions/search', () => {
+    it('searches the user\'s messages', async () => {
+      vi.mocked(searchChatMessages).mockResolvedValue([])
+
+      const response = await SEARCH(makeRequest('http://localhost/api/v1/chat/sessions/search?q=refund&limit=5'))
+
+      expect(response.status).toBe(200)
+      expect(searchChatMessages).toHaveBeenCalledWith(mockSupabase, 'agency-1', 'user-1', 'refund', 5)
+    })
+
+    it('requires a query of at least two characters', async () => {
+      const response = await SEARCH(makeRequest('http://localhost/api/v1/chat/sessions/search?q=r'))
+
+      expect(response.status).toBe(400)
+      expect(searchChatMessages).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/v1/chat/sessions/[sessionId]/export', () => {
+    const messages = [
+      {
+        id: 'msg-1',
+        session_id: SESSION.id,
+        agency_id: 'agency-1',
+        role: 'user',
+        content: 'What is our refund policy?',
+        route_used: null,
+        citations: null,
+        tokens_used: null,
+        created_at: '2026-10-02T09:00:00.000Z',
+      },
+    ]
+
+    it('downloads the session as markdown', async () => {
+      mockSupabase.from
+        .mockReturnValueOnce(query([{ data: SESSION, error: null }]))
+        .mockReturnValueOnce(query([{ data: messages, error: null }]))
+
+      const response = await EXPORT(
+        makeRequest(`${SESSION_URL}/export`),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="chat-a1b2c3d4.md"')
+      expect(await response.text()).toContain('What is our refund policy?')
+    })
+
+    it('downloads the session as JSON', async () => {
+      mockSupabase.from
+        .mockReturnValueOnce(query([{ data: SESSION, error: null }]))
+        .mockReturnValueOnce(query([{ data: messages, error: null }]))
+
+      const response = await EXPORT(
+        makeRequest(`${SESSION_URL}/export?format=json`),
+        params
+      )
+
+      expect(response.headers.get('Content-Type')).toContain('application/json')
+      expect(JSON.parse(await response.text()).messages).toHaveLength(1)
+    })
+
+    it('returns 404 for a session the user does not own', async () => {
+      mockSupabase.from.mockReturnValueOnce(query([{ data: null, error: { code: 'PGRST116' } }]))
+
+      const response = await EXPORT(
+        makeRequest(`${SESSION_URL}/export`),
+        params
+      )
+
+      expect(response.status).toBe(404)
+    })
+
+    it('rejects unknown formats', async () => {
+      const response = await EXPORT(
+        makeRequest(`${SESSION_URL}/export?format=pdf`),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/v1/chat/sessions/[sessionId]/branch', () => {
+    it('branches the session from a message', async () => {
+      vi.mocked(branchSession).mockResolvedValue({ ...SESSION, id: 'branch-1', parent_session_id: SESSION.id })
+
+      const response = await BRANCH(
+        makeRequest(`${SESSION_URL}/branch`, { messageId: 'msg-1' }),
+        params
+      )
+
+      expect(response.status).toBe(201)
+      expect((await response.json()).data.id).toBe('branch-1')
+      expect(branchSession).toHaveBeenCalledWith(mockSupabase, {
+        agencyId: 'agency-1',
+        userId: 'user-1',
+        sessionId: SESSION_ID,
+        messageId: 'msg-1',
+        title: undefined,
+      })
+    })
+
+    it('requires a message id', async () => {
+      const response = await BRANCH(
+        makeRequest(`${SESSION_URL}/branch`, {}),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(branchSession).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 when the session or message is missing', async () => {
+      vi.mocked(branchSession).mockResolvedValue(null)
+
+      const response = await BRANCH(
+        makeRequest(`${SESSION_URL}/branch`, { messageId: 'msg-9' }),
+        params
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
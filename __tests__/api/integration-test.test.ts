@@ -0,0 +1,114 @@
+/**
+ * Integration Test Route Tests
+ * POST /api/v1/integrations/[id]/test - disconnect workflows fire only when a
+ * connection goes from healthy to failing
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const mockSupabase = { from: vi.fn() }
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn(() => ({})),
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  createRouteHandlerClient: vi.fn(() => Promise.resolve(mockSupabase)),
+}))
+
+vi.mock('@/lib/rbac/with-permission', () => ({
+  withPermission: () => (handler: (...args: unknown[]) => unknown) => handler,
+}))
+
+vi.mock('@/lib/security', () => ({
+  withRateLimit: vi.fn(() => null),
+  withCsrfProtection: vi.fn(() => null),
+}))
+
+vi.mock('@/lib/workflows/event-router', () => ({
+  dispatchWorkflowEvent: vi.fn(() => Promise.resolve()),
+}))
+
+import { POST } from '@/app/api/v1/integrations/[id]/test/route'
+import { dispatchWorkflowEvent } from '@/lib/workflows/event-router'
+
+const params = { params: Promise.resolve({ id: 'int-1' }) }
+
+function makeRequest() {
+  return {
+    url: 'http://localhost/api/v1/integrations/int-1/test',
+    user: { id: 'user-1', agencyId: 'agency-1' },
+  } as any
+}
+
+function mockIntegration(config: Record<string, unknown>) {
+  const updates: unknown[] = []
+  const integration = {
+    id: 'int-1',
+    provider: 'slack',
+    is_connected: true,
+    access_token: 'xoxb-token',
+    config,
+  }
+  mockSupabase.from.mockImplementation(() => {
+    const chain: Record<string, unknown> = {}
+    chain.select = () => chain
+    chain.eq = () => chain
+    chain.single = async () => ({ data: integration, error: null })
+    chain.update = (values: unknown) => {
+      updates.push(values)
+      return chain
+    }
+    chain.then = (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+    return chain
+  })
+  return updates
+}
+
+function mockSlackResponse(body: Record<string, unknown>) {
+  vi.stubGlobal('fetch', vi.fn(async () => ({ json: async () => body })))
+}
+
+describe('POST /api/v1/integrations/[id]/test', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('fires integration_disconnected when a healthy integration fails', async () => {
+    const updates = mockIntegration({ health_status: 'healthy' })
+    mockSlackResponse({ ok: false, error: 'token_revoked' })
+
+    const response = await POST(makeRequest(), params)
+
+    expect((await response.json()).data.status).toBe('unhealthy')
+    expect(dispatchWorkflowEvent).toHaveBeenCalledWith(mockSupabase, 'agency-1', 'user-1', {
+      type: 'integration_disconnected',
+      data: { integrationId: 'int-1', provider: 'slack', status: 'error', error: 'token_revoked' },
+    })
+    expect(updates).toEqual([{ config: { health_status: 'unhealthy' } }])
+  })
+
+  it('does not fire again when an already failing integration is retested', async () => {
+    mockIntegration({ health_status: 'unhealthy' })
+    mockSlackResponse({ ok: false, error: 'token_revoked' })
+
+    await POST(makeRequest(), params)
+
+    expect(dispatchWorkflowEvent).not.toHaveBeenCalled()
+  })
+
+  it('records recovery so the next failure fires again', async () => {
+    const updates = mockIntegration({ health_status: 'unhealthy' })
+    mockSlackResponse({ ok: true, team: 'Acme', user: 'bot' })
+
+    await POST(makeRequest(), params)
+
+    expect(dispatchWorkflowEvent).not.toHaveBeenCalled()
+    expect(updates).toEqual([
+      { last_sync_at: expect.any(String), config: { health_status: 'healthy' } },
+    ])
+  })
+})
@@ -25,6 +25,7 @@ describe('action-registry', () => {
       expect(ACTION_TYPES.update_client).toBeDefined()
       expect(ACTION_TYPES.create_alert).toBeDefined()
       expect(ACTION_TYPES.create_slack_channel).toBeDefined()
+      expect(ACTION_TYPES.call_webhook).toBeDefined()
     })
 
     it('should have correct metadata structure', () => {
@@ -44,6 +45,7 @@ describe('action-registry', () => {
       expect(ACTION_TYPES.draft_communication.category).toBe('communication')
       expect(ACTION_TYPES.create_slack_channel.category).toBe('communication')
       expect(ACTION_TYPES.update_client.category).toBe('data')
+      expect(ACTION_TYPES.call_webhook.category).toBe('data')
       expect(ACTION_TYPES.create_alert.category).toBe('alert')
     })
 
@@ -58,7 +60,7 @@ describe('action-registry', () => {
   describe('getActionTypes', () => {
     it('should return all action types', () => {
       const types = getActionTypes()
-      expect(types.length).toBe(7)
+      expect(types.length).toBe(8)
     })
 
     it('should return array of ActionTypeMetadata', () => {
@@ -86,7 +88,7 @@ describe('action-registry', () => {
 
     it('should filter data actions', () => {
       const data = getActionTypesByCategory('data')
-      expect(data.length).toBe(1)
+      expect(data.length).toBe(2)
       expect(data[0].type).toBe('update_client')
     })
 
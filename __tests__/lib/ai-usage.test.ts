@@ -0,0 +1,160 @@
+/**
+ * AI Usage Metering Tests
+ *
+ * Covers budget states against month-to-date usage, the metered provider's
+ * ledger writes and hard stop, and aggregation of the settings usage report.
+ */
+import { describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createChainableMock } from '../helpers/mock-supabase'
+import {
+  collectLLMStream,
+  getAIBudgetStatus,
+  getAIUsageReport,
+  getMeteredLLMProvider,
+  usageMonthStart,
+} from '@/lib/llm'
+
+const NOW = new Date('2026-10-18T12:00:00Z')
+
+function fakeSupabase(options: {
+  aiConfig?: unknown
+  totals?: { agency_tokens: number; user_tokens: number }
+  rows?: unknown[]
+  rpcError?: { message: string }
+} = {}) {
+  const inserts: Array<Record<string, unknown>> = []
+  const client = {
+    from: vi.fn((table: string) => {
+      if (table === 'ai_usage') {
+        return {
+          insert: vi.fn(async (row: Record<string, unknown>) => {
+            inserts.push(row)
+            return { error: null }
+          }),
+        }
+      }
+      return createChainableMock({ data: { ai_config: options.aiConfig ?? null }, error: null })
+    }),
+    rpc: vi.fn(async (name: string) => {
+      if (options.rpcError) return { data: null, error: options.rpcError }
+      return name === 'ai_usage_totals'
+        ? { data: [options.totals ?? { agency_tokens: 0, user_tokens: 0 }], error: null }
+        : { data: options.rows ?? [], error: null }
+    }),
+  }
+  return { supabase: client as unknown as SupabaseClient, client, inserts }
+}
+
+describe('getAIBudgetStatus', () => {
+  it('skips the lookup when no budget is set', async () => {
+    const { supabase, client } = fakeSupabase()
+
+    expect(await getAIBudgetStatus(supabase, 'agency-1', 'user-1', { assistant_name: 'Diii' })).toEqual({ state: 'ok', budgets: [] })
+    expect(client.rpc).not.toHaveBeenCalled()
+  })
+
+  it('warns from 80% and stops at 100% of either budget', async () => {
+    const config = { monthly_token_budget: 100000, user_monthly_token_budget: 10000 }
+
+    const ok = fakeSupabase({ totals: { agency_tokens: 50000, user_tokens: 7000 } })
+    expect((await getAIBudgetStatus(ok.supabase, 'agency-1', 'user-1', config, NOW)).state).toBe('ok')
+    expect(ok.client.rpc).toHaveBeenCalledWith('ai_usage_totals', {
+      p_agency_id: 'agency-1',
+      p_user_id: 'user-1',
+      p_since: '2026-10-01T00:00:00.000Z',
+    })
+
+    const warning = await getAIBudgetStatus(fakeSupabase({ totals: { agency_tokens: 85000, user_tokens: 1000 } }).supabase, 'agency-1', 'user-1', config, NOW)
+    expect(warning.state).toBe('warning')
+    expect(warning.message).toContain("agency's monthly AI budget is 85% used")
+
+    const exceeded = await getAIBudgetStatus(fakeSupabase({ totals: { agency_tokens: 85000, user_tokens: 10000 } }).supabase, 'agency-1', 'user-1', config, NOW)
+    expect(exceeded.state).toBe('exceeded')
+    expect(exceeded.message).toMatch(/^Your monthly AI budget of 10,000 tokens has been reached/)
+  })
+
+  it('ignores the user budget for calls without a user', async () => {
+    const { supabase } = fakeSupabase({ totals: { agency_tokens: 0, user_tokens: 0 } })
+
+    const status = await getAIBudgetStatus(supabase, 'agency-1', null, { user_monthly_token_budget: 5000 })
+
+    expect(status).toEqual({ state: 'ok', budgets: [] })
+  })
+
+  it('fails open when the ledger lookup fails', async () => {
+    const { supabase } = fakeSupabase({ rpcError: { message: 'relation "ai_usage" does not exist' } })
+
+    expect((await getAIBudgetStatus(supabase, 'agency-1', 'user-1', { monthly_token_budget: 1000 })).state).toBe('ok')
+  })
+})
+
+describe('getMeteredLLMProvider', () => {
+  const scope = { agencyId: 'agency-1', userId: 'user-1', feature: 'workflow_draft' as const }
+
+  it('records generated and streamed calls under the scope', async () => {
+    const { supabase, inserts } = fakeSupabase({ aiConfig: { provider: 'mock' } })
+    const { provider, budget } = await getMeteredLLMProvider(supabase, scope)
+
+    const generated = await provider.generate({ messages: 'Draft a check-in email' })
+    await collectLLMStream(await provider.stream({ messages: 'Draft a follow-up' }))
+
+    expect(budget.state).toBe('ok')
+    expect(inserts).toHaveLength(2)
+    expect(inserts[0]).toMatchObject({
+      agency_id: 'agency-1',
+      user_id: 'user-1',
+      feature: 'workflow_draft',
+      provider: 'mock',
+      model: 'mock-1',
+      requests: 1,
+      total_tokens: generated.usage?.totalTokens,
+    })
+    expect(inserts[0].total_tokens).toBeGreaterThan(0)
+  })
+
+  it('refuses to create a provider once the budget is used up', async () => {
+    const { supabase, inserts } = fakeSupabase({
+      aiConfig: { provider: 'mock', monthly_token_budget: 20000 },
+      totals: { agency_tokens: 20000, user_tokens: 0 },
+    })
+
+    await expect(getMeteredLLMProvider(supabase, scope)).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' })
+    expect(inserts).toHaveLength(0)
+  })
+})
+
+describe('getAIUsageReport', () => {
+  it('totals usage by feature, user and day', async () => {
+    const { supabase } = fakeSupabase({
+      rows: [
+        { day: '2026-10-02', feature: 'chat', user_id: 'user-1', requests: 4, tokens: 1200 },
+        { day: '2026-10-02', feature: 'workflow_draft', user_id: null, requests: 30, tokens: 9000 },
+        { day: '2026-10-01', feature: 'chat', user_id: 'user-2', requests: 1, tokens: 300 },
+      ],
+    })
+
+    const report = await getAIUsageReport(supabase, 'agency-1', { monthly_token_budget: 50000 }, NOW)
+
+    expect(report).toEqual({
+      since: usageMonthStart(NOW).toISOString(),
+      resetsAt: '2026-11-01T00:00:00.000Z',
+      tokens: 10500,
+      requests: 35,
+      byFeature: {
+        chat: { tokens: 1500, requests: 5 },
+        workflow_draft: { tokens: 9000, requests: 30 },
+      },
+      byUser: [
+        { userId: null, tokens: 9000, requests: 30 },
+        { userId: 'user-1', tokens: 1200, requests: 4 },
+        { userId: 'user-2', tokens: 300, requests: 1 },
+      ],
+      daily: [
+        { date: '2026-10-01', tokens: 300 },
+        { date: '2026-10-02', tokens: 10200 },
+      ],
+      limits: { agency: 50000, user: null },
+    })
+  })
+})
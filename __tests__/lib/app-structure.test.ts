@@ -106,6 +106,21 @@ describe('App Structure', () => {
       expect(prompt).toContain('client-456');
     });
 
+    it('should describe the entities on screen and active filters', () => {
+      const context = buildAppContext('tickets', {
+        entities: [
+          { type: 'ticket', id: 'ticket-1', name: '#42 Pixel not firing', details: ['Status: new'] },
+        ],
+        filters: { status: 'new' },
+      });
+      const prompt = generateAppContextPrompt(context);
+
+      expect(prompt).toContain('**ticket: #42 Pixel not firing** (ID: ticket-1)');
+      expect(prompt).toContain('- Status: new');
+      expect(prompt).toContain('"this ticket"');
+      expect(prompt).toContain('Active filters: status = new');
+    });
+
     it('should include recent alerts when present', () => {
       const context = buildAppContext('dashboard', {
         recentAlerts: [
@@ -130,6 +145,12 @@ describe('App Structure', () => {
       expect(page?.id).toBe('clientDetail');
     });
 
+    it('should map command center view paths to their pages', () => {
+      expect(getPageByPath('/knowledge')?.id).toBe('knowledgeBase');
+      expect(getPageByPath('/client')?.id).toBe('clientDetail');
+      expect(getPageByPath('/tickets')?.id).toBe('tickets');
+    });
+
     it('should return null for unknown paths', () => {
       const page = getPageByPath('/unknown/path/here');
       expect(page).toBeNull();
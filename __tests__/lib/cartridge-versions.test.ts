@@ -0,0 +1,282 @@
+/**
+ * Cartridge Versions Tests
+ *
+ * Verifies snapshots, diffs, version recording, rollback and preview overlays.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  snapshotCartridge,
+  diffLines,
+  diffCartridgeSnapshots,
+  recordCartridgeVersion,
+  rollbackCartridge,
+  applyCartridgeVersion,
+  type CartridgeVersion,
+} from '@/lib/cartridges/versions';
+import type { CartridgeContext } from '@/lib/chat/context/cartridge-loader';
+
+const brandV1: CartridgeVersion = {
+  id: 'version-1',
+  agency_id: 'agency-1',
+  cartridge_type: 'brand',
+  cartridge_id: 'brand-1',
+  version_number: 1,
+  snapshot: { name: 'Acme', brand_voice: 'Warm and direct', core_values: ['Trust'] },
+  change_summary: 'Initial version',
+  created_by: 'user-1',
+  created_at: '2026-10-01T10:00:00.000Z',
+};
+
+// Records calls per table; every query resolves to the table's result
+function createMockSupabase(results: Record<string, { data: unknown; error: unknown }>) {
+  const calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+  const supabase = {
+    from: (table: string) => {
+      const result = results[table] ?? { data: null, error: null };
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'insert', 'update', 'eq', 'lt', 'order', 'limit']) {
+        chain[method] = (...args: unknown[]) => {
+          calls.push({ table, method, args });
+          return chain;
+        };
+      }
+      chain.single = async () => result;
+      chain.maybeSingle = async () => result;
+      chain.then = (resolve: (value: unknown) => void) => resolve(result);
+      return chain;
+    },
+  } as any;
+  return { supabase, calls };
+}
+
+describe('Cartridge Versions', () => {
+  describe('snapshotCartridge', () => {
+    it('keeps only versioned fields', () => {
+      const snapshot = snapshotCartridge('brand', {
+        id: 'brand-1',
+        agency_id: 'agency-1',
+        name: 'Acme',
+        brand_voice: 'Warm',
+        logo_url: 'logos/acme.png',
+        updated_at: '2026-10-01T10:00:00.000Z',
+      });
+
+      expect(snapshot).toEqual({ name: 'Acme', brand_voice: 'Warm' });
+    });
+  });
+
+  describe('diffLines', () => {
+    it('marks added, removed and unchanged lines', () => {
+      expect(diffLines('Be warm\nBe brief', 'Be warm\nBe thorough\nCite sources')).toEqual([
+        { type: 'unchanged', text: 'Be warm' },
+        { type: 'removed', text: 'Be brief' },
+        { type: 'added', text: 'Be thorough' },
+        { type: 'added', text: 'Cite sources' },
+      ]);
+    });
+  });
+
+  describe('diffCartridgeSnapshots', () => {
+    it('reports changed, added and removed fields', () => {
+      const changes = diffCartridgeSnapshots(
+        { name: 'Acme', brand_voice: 'Warm', industry: 'Retail', brand_colors: { primary: '#000' } },
+        { name: 'Acme', brand_voice: 'Formal', core_values: ['Trust'], brand_colors: { primary: '#000' } }
+      );
+
+      expect(changes.map((c) => [c.field, c.kind])).toEqual([
+        ['brand_voice', 'changed'],
+        ['industry', 'removed'],
+        ['core_values', 'added'],
+      ]);
+      expect(changes[0].lines).toEqual([
+        { type: 'removed', text: 'Warm' },
+        { type: 'added', text: 'Formal' },
+      ]);
+      expect(changes[2].lines).toBeUndefined();
+    });
+
+    it('ignores key order in structured fields', () => {
+      expect(
+        diffCartridgeSnapshots(
+          { brand_colors: { primary: '#000', accent: '#06c' } },
+          { brand_colors: { accent: '#06c', primary: '#000' } }
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('recordCartridgeVersion', () => {
+    it('records the next version with the changed fields', async () => {
+      const { supabase, calls } = createMockSupabase({
+        cartridge_version: { data: brandV1, error: null },
+      });
+
+      await recordCartridgeVersion(supabase, {
+        agencyId: 'agency-1',
+        type: 'brand',
+        cartridgeId: 'brand-1',
+        data: { ...brandV1.snapshot, brand_voice: 'Formal', updated_at: 'now' },
+        createdBy: 'user-2',
+      });
+
+      const insert = calls.find((c) => c.method === 'insert');
+      expect(insert?.args[0]).toEqual({
+        agency_id: 'agency-1',
+        cartridge_type: 'brand',
+        cartridge_id: 'brand-1',
+        version_number: 2,
+        snapshot: { name: 'Acme', brand_voice: 'Formal', core_values: ['Trust'] },
+        change_summary: 'Changed brand voice',
+        created_by: 'user-2',
+      });
+    });
+
+    it('skips saves that change nothing', async () => {
+      const { supabase, calls } = createMockSupabase({
+        cartridge_version: { data: brandV1, error: null },
+      });
+
+      const version = await recordCartridgeVersion(supabase, {
+        agencyId: 'agency-1',
+        type: 'brand',
+        cartridgeId: 'brand-1',
+        data: { ...brandV1.snapshot, updated_at: 'now' },
+        createdBy: 'user-2',
+      });
+
+      expect(version).toBe(brandV1);
+      expect(calls.some((c) => c.method === 'insert')).toBe(false);
+    });
+
+    it('takes the next version number when a concurrent save claimed it', async () => {
+      const brandV2 = {
+        ...brandV1,
+        id: 'version-2',
+        version_number: 2,
+        snapshot: { ...brandV1.snapshot, name: 'Acme Co' },
+      };
+      const latest = [brandV1, brandV2];
+      const inserts = [
+        { data: null, error: { code: '23505', message: 'duplicate key value' } },
+        { data: { ...brandV2, id: 'version-3', version_number: 3 }, error: null },
+      ];
+      const inserted: Array<Record<string, unknown>> = [];
+      const supabase = {
+        from: () => {
+          const chain: Record<string, unknown> = {};
+          for (const method of ['select', 'eq', 'order', 'limit']) {
+            chain[method] = () => chain;
+          }
+          chain.insert = (row: Record<string, unknown>) => {
+            inserted.push(row);
+            return chain;
+          };
+          chain.maybeSingle = async () => ({ data: latest.shift(), error: null });
+          chain.single = async () => inserts.shift();
+          return chain;
+        },
+      } as any;
+
+      const version = await recordCartridgeVersion(supabase, {
+        agencyId: 'agency-1',
+        type: 'brand',
+        cartridgeId: 'brand-1',
+        data: { ...brandV1.snapshot, brand_voice: 'Formal' },
+        createdBy: 'user-2',
+      });
+
+      expect(version?.version_number).toBe(3);
+      expect(inserted.map((row) => row.version_number)).toEqual([2, 3]);
+      expect(inserted[1].change_summary).toBe('Changed name, brand voice');
+    });
+
+    it('returns null instead of throwing when history is unavailable', async () => {
+      const { supabase } = createMockSupabase({
+        cartridge_version: { data: null, error: { message: 'relation does not exist' } },
+      });
+
+      await expect(
+        recordCartridgeVersion(supabase, {
+          agencyId: 'agency-1',
+          type: 'brand',
+          cartridgeId: 'brand-1',
+          data: brandV1.snapshot,
+          createdBy: 'user-1',
+        })
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('rollbackCartridge', () => {
+    it('does not restore another user\'s voice settings', async () => {
+      const { supabase, calls } = createMockSupabase({
+        cartridge_version: {
+          data: { ...brandV1, cartridge_type: 'voice', cartridge_id: 'user-1', snapshot: {} },
+          error: null,
+        },
+      });
+
+      const result = await rollbackCartridge(supabase, {
+        agencyId: 'agency-1',
+        userId: 'user-2',
+        versionId: 'version-1',
+      });
+
+      expect(result).toBeNull();
+      expect(calls.some((c) => c.method === 'update')).toBe(false);
+    });
+
+    it('returns null when the cartridge no longer exists', async () => {
+      const { supabase, calls } = createMockSupabase({
+        cartridge_version: { data: brandV1, error: null },
+        brand_cartridge: { data: [], error: null },
+      });
+
+      const result = await rollbackCartridge(supabase, {
+        agencyId: 'agency-1',
+        userId: 'user-1',
+        versionId: 'version-1',
+      });
+
+      expect(result).toBeNull();
+      const update = calls.find((c) => c.table === 'brand_cartridge' && c.method === 'update');
+      expect(update?.args[0]).toMatchObject(brandV1.snapshot);
+    });
+  });
+
+  describe('applyCartridgeVersion', () => {
+    const context: CartridgeContext = {
+      brand: { id: 'brand-1', agency_id: 'agency-1', name: 'Acme', brand_voice: 'Formal', industry: 'Retail' },
+      instructions: [
+        { id: 'instr-1', agency_id: 'agency-1', name: 'Tone', instructions: 'Be brief' },
+        { id: 'instr-2', agency_id: 'agency-1', name: 'Sign-off', instructions: 'Sign as the team' },
+      ],
+    };
+
+    it('overlays a brand version on the current context', () => {
+      const previewed = applyCartridgeVersion(context, brandV1);
+
+      expect(previewed.brand).toMatchObject({ brand_voice: 'Warm and direct', industry: 'Retail', id: 'brand-1' });
+      expect(context.brand?.brand_voice).toBe('Formal');
+    });
+
+    it('replaces or drops an instruction set', () => {
+      const replaced = applyCartridgeVersion(context, {
+        ...brandV1,
+        cartridge_type: 'instruction',
+        cartridge_id: 'instr-1',
+        snapshot: { name: 'Tone', instructions: 'Be thorough' },
+      });
+      const deactivated = applyCartridgeVersion(context, {
+        ...brandV1,
+        cartridge_type: 'instruction',
+        cartridge_id: 'instr-1',
+        snapshot: { name: 'Tone', is_active: false },
+      });
+
+      expect(replaced.instructions?.map((i) => i.instructions)).toEqual(['Sign as the team', 'Be thorough']);
+      expect(deactivated.instructions?.map((i) => i.id)).toEqual(['instr-2']);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Chat Eval Tests
+ *
+ * Covers the eval harness (scoring, confusion matrix, recorded responses) and
+ * replays the recorded golden set, so a prompt edit that changes routing or
+ * function selection fails here instead of in production.
+ */
+import { describe, it, expect, vi } from 'vitest'
+import { MockProvider, type LLMFunctionCall, type LLMRequest } from '@/lib/llm'
+import {
+  runChatEval,
+  formatEvalReport,
+  replayModel,
+  recordingModel,
+  EVAL_ROUTES,
+  type EvalRecordings,
+  type GoldenSet,
+} from '@/lib/chat/eval'
+import { hgcFunctions } from '@/lib/chat/functions'
+import goldenSetJson from '@/lib/chat/eval/golden-set.json'
+import recordingsJson from '@/lib/chat/eval/recordings.json'
+
+const goldenSet = goldenSetJson as GoldenSet
+const recordings = recordingsJson as EvalRecordings
+
+const promptText = (request: LLMRequest) => JSON.stringify(request.messages)
+
+// Scripted model: routes by keyword, and calls the named function for dashboard queries
+function scriptedModel(script: Array<{ match: string; route: string; call?: LLMFunctionCall }>) {
+  return new MockProvider({
+    respond: vi.fn((request: LLMRequest) => {
+      const text = promptText(request)
+      const line = script.find((s) => text.includes(s.match))
+      if (request.functions) {
+        return { functionCalls: line?.call ? [line.call] : [] }
+      }
+      return JSON.stringify({ route: line?.route ?? 'casual', confidence: 0.9 })
+    }),
+  })
+}
+
+const smallSet: GoldenSet = {
+  version: 1,
+  thresholds: { routing: 0.9, functionSelection: 0.9 },
+  cases: [
+    { id: 'greeting', query: 'Hey there', route: 'casual' },
+    { id: 'inbox', query: 'Show my recent emails', route: 'dashboard', function: { name: 'get_emails' } },
+    {
+      id: 'client-emails',
+      query: 'Emails from Acme Corp',
+      route: 'dashboard',
+      function: { name: 'get_client_emails', args: { client_name: 'acme corp' } },
+    },
+  ],
+}
+
+describe('runChatEval', () => {
+  it('scores routing and function selection and builds the confusion matrix', async () => {
+    const provider = scriptedModel([
+      { match: 'Hey there', route: 'casual' },
+      { match: 'Show my recent emails', route: 'dashboard', call: { name: 'get_emails', args: {} } },
+      // The regression this guards against: client emails routed to rag and answered with get_clients
+      { match: 'Emails from Acme Corp', route: 'rag', call: { name: 'get_clients', args: { search: 'Acme' } } },
+    ])
+
+    const report = await runChatEval(smallSet, { provider })
+
+    expect(report.routing).toEqual({ correct: 2, total: 3, accuracy: 2 / 3 })
+    expect(report.functionSelection).toEqual({ correct: 1, total: 2, accuracy: 0.5 })
+    expect(report.confusion.dashboard).toMatchObject({ dashboard: 1, rag: 1 })
+    expect(report.confusion.casual.casual).toBe(1)
+    expect(report.failures.map((f) => f.id)).toEqual(['client-emails'])
+    expect(formatEvalReport(report)).toContain(
+      '- client-emails "Emails from Acme Corp": route rag, expected dashboard; called get_clients({"search":"Acme"}), expected get_client_emails({"client_name":"acme corp"})'
+    )
+  })
+
+  it('reports cases without a matching recording instead of scoring them', async () => {
+    const report = await runChatEval(smallSet, {
+      provider: replayModel({ version: 1, recordedAt: null, responses: {} }),
+    })
+
+    expect(report.unrecorded).toEqual(['greeting', 'inbox', 'client-emails'])
+    expect(report.routing.total).toBe(0)
+    expect(report.failures).toEqual([])
+  })
+
+  it('replays what was recorded from the live model', async () => {
+    const live = scriptedModel([
+      { match: 'Hey there', route: 'casual' },
+      { match: 'Show my recent emails', route: 'dashboard', call: { name: 'get_emails', args: {} } },
+      { match: 'Emails from Acme Corp', route: 'dashboard', call: { name: 'get_client_emails', args: { client_name: 'Acme Corp' } } },
+    ])
+    const recorded: EvalRecordings = { version: 1, recordedAt: null, responses: {} }
+    const model = recordingModel(live, recorded)
+
+    const liveReport = await runChatEval(smallSet, { provider: model.provider, onCase: model.setCase })
+    const replayReport = await runChatEval(smallSet, { provider: replayModel(recorded) })
+
+    expect(Object.values(recorded.responses).map((r) => r.caseId)).toContain('client-emails')
+    expect(replayReport.unrecorded).toEqual([])
+    expect(replayReport.routing).toEqual(liveReport.routing)
+    expect(replayReport.functionSelection).toEqual({ correct: 2, total: 2, accuracy: 1 })
+  })
+})
+
+describe('golden set', () => {
+  it('only expects routes and functions that exist', () => {
+    const functionNames = hgcFunctions.map((fn) => fn.name)
+    const ids = new Set<string>()
+
+    for (const goldenCase of goldenSet.cases) {
+      expect(ids.has(goldenCase.id)).toBe(false)
+      ids.add(goldenCase.id)
+      expect(EVAL_ROUTES).toContain(goldenCase.route)
+      if (goldenCase.function) {
+        expect(functionNames).toContain(goldenCase.function.name)
+      }
+    }
+  })
+
+  // `npm run eval:chat` rewrites the recordings from the live API. Recordings
+  // with recordedAt null were written offline with each case's expected answer,
+  // so they pin the exact prompts and declarations sent for every case
+  it('meets the accuracy thresholds on the recorded responses', async () => {
+    const report = await runChatEval(goldenSet, { provider: replayModel(recordings) })
+    const summary = formatEvalReport(report)
+
+    // A prompt or declaration edit invalidates its recordings: re-record and review the report
+    expect(report.unrecorded, `Re-record with npm run eval:chat\n${summary}`).toEqual([])
+    expect(report.routing.accuracy, summary).toBeGreaterThanOrEqual(goldenSet.thresholds.routing)
+    expect(report.functionSelection.accuracy, summary).toBeGreaterThanOrEqual(goldenSet.thresholds.functionSelection)
+  })
+})
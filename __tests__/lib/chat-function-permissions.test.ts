@@ -0,0 +1,96 @@
+/**
+ * Chat Function Permission Tests
+ *
+ * Covers the RBAC check every chat function goes through before it runs:
+ * the role permission it declares, the member's client assignments for calls
+ * that name a client, and the errors handed back to the model on denial.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+vi.mock('@/lib/rbac/permission-service', () => ({
+  permissionService: {
+    getUserPermissions: vi.fn(),
+    checkPermission: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/rbac/client-access', () => ({
+  enforceClientAccess: vi.fn(),
+  getAccessibleClientIds: vi.fn(),
+  verifyClientAccess: vi.fn(),
+}))
+
+vi.mock('@/lib/rbac/audit-service', () => ({
+  auditService: {
+    logPermissionCheck: vi.fn(),
+    logClientAccess: vi.fn(),
+  },
+}))
+
+import { permissionService } from '@/lib/rbac/permission-service'
+import { enforceClientAccess } from '@/lib/rbac/client-access'
+import { auditService } from '@/lib/rbac/audit-service'
+import { assertFunctionPermission } from '@/lib/chat/functions/permissions'
+import { executors, hgcFunctions, previewers } from '@/lib/chat/functions'
+
+const supabase = {} as SupabaseClient
+const context = { agencyId: 'agency-1', userId: 'member-1', supabase }
+const ticketsWrite = { resource: 'tickets', action: 'write' } as const
+
+describe('hgcFunctions', () => {
+  it('declares every executor with a permission, and previews every mutating function', () => {
+    expect(hgcFunctions.map((fn) => fn.name).sort()).toEqual(Object.keys(executors).sort())
+    for (const fn of hgcFunctions) {
+      expect(fn.permission === null || typeof fn.permission.resource === 'string').toBe(true)
+      expect(fn.mutating).toBe(fn.name in previewers)
+    }
+  })
+})
+
+describe('assertFunctionPermission', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(permissionService.getUserPermissions).mockResolvedValue([])
+    vi.mocked(permissionService.checkPermission).mockReturnValue(true)
+    vi.mocked(enforceClientAccess).mockResolvedValue(true)
+  })
+
+  it('denies functions the role lacks and audits the denial', async () => {
+    vi.mocked(permissionService.checkPermission).mockReturnValue(false)
+
+    await expect(assertFunctionPermission('create_ticket', ticketsWrite, context, {})).rejects.toMatchObject({
+      code: 'PERMISSION_DENIED',
+      message: expect.stringContaining('tickets:write'),
+    })
+    expect(permissionService.checkPermission).toHaveBeenCalledWith([], 'tickets', 'write')
+    expect(auditService.logPermissionCheck).toHaveBeenCalledWith(
+      expect.objectContaining({ result: 'denied', metadata: { source: 'chat', function: 'create_ticket' } }),
+      supabase
+    )
+  })
+
+  it('checks the named client at the level the function needs', async () => {
+    vi.mocked(enforceClientAccess).mockResolvedValue(false)
+
+    await expect(
+      assertFunctionPermission('create_ticket', ticketsWrite, context, { client_id: 'client-9' })
+    ).rejects.toMatchObject({ code: 'CLIENT_ACCESS_DENIED' })
+    expect(enforceClientAccess).toHaveBeenCalledWith('member-1', 'agency-1', 'client-9', 'write', supabase)
+    expect(auditService.logClientAccess).toHaveBeenCalled()
+  })
+
+  it('allows permitted calls', async () => {
+    await expect(
+      assertFunctionPermission('get_tickets', { resource: 'tickets', action: 'read' }, context, { client_id: 'client-1' })
+    ).resolves.toBeUndefined()
+    expect(enforceClientAccess).toHaveBeenCalledWith('member-1', 'agency-1', 'client-1', 'read', supabase)
+  })
+
+  it('skips functions without a permission and standalone mode', async () => {
+    await assertFunctionPermission('navigate_to', null, context, {})
+    await assertFunctionPermission('get_tickets', { resource: 'tickets', action: 'read' }, { agencyId: 'a', userId: 'u' }, {})
+
+    expect(permissionService.getUserPermissions).not.toHaveBeenCalled()
+  })
+})
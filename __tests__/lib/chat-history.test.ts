@@ -12,9 +12,16 @@ import {
   addMessage,
   getSessionMessages,
   formatMessagesForContext,
+  updateSession,
+  deriveSessionTitle,
+  generateSessionTitle,
+  branchSession,
+  exportSessionAsMarkdown,
+  exportSessionAsJSON,
   type ChatSession,
   type ChatMessage,
 } from '@/lib/chat/context/chat-history';
+import { MockProvider } from '@/lib/llm';
 
 // Create mock Supabase client
 function createMockSupabase(mockData: {
@@ -110,6 +117,10 @@ describe('Chat History Service', () => {
         title: 'Existing Chat',
         context: null,
         is_active: true,
+        is_pinned: false,
+        archived_at: null,
+        parent_session_id: null,
+        branched_from_message_id: null,
         last_message_at: new Date().toISOString(),
         created_at: new Date().toISOString(),
       };
@@ -135,6 +146,10 @@ describe('Chat History Service', () => {
         title: 'New Chat',
         context: null,
         is_active: true,
+        is_pinned: false,
+        archived_at: null,
+        parent_session_id: null,
+        branched_from_message_id: null,
         last_message_at: null,
         created_at: new Date().toISOString(),
       };
@@ -163,6 +178,10 @@ describe('Chat History Service', () => {
         title: 'Test Session',
         context: null,
         is_active: true,
+        is_pinned: false,
+        archived_at: null,
+        parent_session_id: null,
+        branched_from_message_id: null,
         last_message_at: null,
         created_at: new Date().toISOString(),
       };
@@ -188,6 +207,53 @@ describe('Chat History Service', () => {
     });
   });
 
+  describe('getRecentSessions', () => {
+    beforeEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should return the user\'s sessions', async () => {
+      const session: ChatSession = {
+        id: 'session-recent',
+        agency_id: 'agency-1',
+        user_id: 'user-1',
+        title: 'Recent Chat',
+        context: null,
+        is_active: true,
+        is_pinned: false,
+        archived_at: null,
+        parent_session_id: null,
+        branched_from_message_id: null,
+        last_message_at: new Date().toISOString(),
+        created_at: new Date().toISOString(),
+      };
+
+      const mockSupabase = createMockSupabase({
+        sessions: [session],
+      });
+
+      const sessions = await getRecentSessions(mockSupabase, 'agency-1', 'user-1', 5);
+
+      expect(sessions.map((s) => s.id)).toEqual(['session-recent']);
+    });
+
+    it('should return an empty list when the query fails', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const chain = {
+        select: () => chain,
+        eq: () => chain,
+        order: () => chain,
+        limit: async () => ({ data: null, error: { message: 'connection refused' } }),
+      };
+      const mockSupabase = { from: () => chain } as any;
+
+      const sessions = await getRecentSessions(mockSupabase, 'agency-1', 'user-1');
+
+      expect(sessions).toEqual([]);
+      expect(warn).toHaveBeenCalled();
+    });
+  });
+
   describe('addMessage', () => {
     it('should add message to session', async () => {
       const message: ChatMessage = {
@@ -321,4 +387,161 @@ describe('Chat History Service', () => {
       expect(formatted.length).toBeLessThan(longContent.length + 200);
     });
   });
+
+  describe('session management', () => {
+    const session: ChatSession = {
+      id: 'session-1',
+      agency_id: 'agency-1',
+      user_id: 'user-1',
+      title: 'Refund policy',
+      context: null,
+      is_active: true,
+      is_pinned: false,
+      archived_at: null,
+      parent_session_id: null,
+      branched_from_message_id: null,
+      last_message_at: '2026-10-02T09:01:00.000Z',
+      created_at: '2026-10-02T09:00:00.000Z',
+    };
+
+    const history: ChatMessage[] = [
+      {
+        id: 'msg-1',
+        session_id: 'session-1',
+        agency_id: 'agency-1',
+        role: 'user',
+        content: 'What is our refund policy?',
+        route_used: null,
+        citations: null,
+        tokens_used: null,
+        created_at: '2026-10-02T09:00:00.000Z',
+      },
+      {
+        id: 'msg-2',
+        session_id: 'session-1',
+        agency_id: 'agency-1',
+        role: 'assistant',
+        content: 'Refunds are issued within 30 days [1].',
+        route_used: 'rag',
+        citations: [{ index: 1, title: 'Refund SOP', source: 'rag', snippet: 'Refunds within\n30 days' }],
+        tokens_used: null,
+        created_at: '2026-10-02T09:00:01.000Z',
+      },
+    ];
+
+    // Chainable query that records filters and resolves to `result`
+    function query(
+      result: { data: unknown; error: unknown },
+      calls: Array<[string, unknown[]]>,
+      list: { data: unknown; error: unknown } = result
+    ) {
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'lte', 'order', 'limit', 'update', 'delete']) {
+        chain[method] = (...args: unknown[]) => {
+          calls.push([method, args]);
+          return chain;
+        };
+      }
+      chain.single = async () => result;
+      chain.then = (resolve: (value: unknown) => void) => resolve(list);
+      return chain;
+    }
+
+    it('archives a session and closes it', async () => {
+      const calls: Array<[string, unknown[]]> = [];
+      const supabase = {
+        from: () => query({ data: { ...session, archived_at: 'now' }, error: null }, calls),
+      } as any;
+
+      const result = await updateSession(supabase, 'agency-1', 'user-1', 'session-1', { archived: true, title: '  Refunds  ' });
+
+      expect(result?.archived_at).toBe('now');
+      const [, [changes]] = calls.find(([method]) => method === 'update')!;
+      expect(changes).toMatchObject({ title: 'Refunds', is_active: false, archived_at: expect.any(String) });
+      expect(calls).toContainEqual(['eq', ['user_id', 'user-1']]);
+    });
+
+    it('returns null when the session is not the user\'s', async () => {
+      const supabase = { from: () => query({ data: null, error: { code: 'PGRST116' } }, []) } as any;
+
+      expect(await updateSession(supabase, 'agency-1', 'user-2', 'session-1', { isPinned: true })).toBeNull();
+    });
+
+    it('derives titles from the first line of the message', () => {
+      expect(deriveSessionTitle('  What is our refund policy?\nAlso, who approves them?')).toBe('What is our refund policy');
+      const long = deriveSessionTitle('word '.repeat(40));
+      expect(long.length).toBeLessThanOrEqual(80);
+      expect(long).toMatch(/^(word )+word…$/);
+      expect(deriveSessionTitle('   ')).toBe('New Chat');
+    });
+
+    it('generates a title with the model, falling back to the message', async () => {
+      const titled = new MockProvider({ respond: () => '"Refund Policy Overview."' });
+      const failing = new MockProvider({ respond: () => { throw new Error('rate limited'); } });
+
+      expect(await generateSessionTitle(titled, 'What is our refund policy?', 'Refunds are issued within 30 days.')).toBe('Refund Policy Overview');
+      expect(await generateSessionTitle(failing, 'What is our refund policy?', '')).toBe('What is our refund policy');
+    });
+
+    it('branches a session by copying messages up to the branch point', async () => {
+      const inserts: Array<{ table: string; rows: unknown }> = [];
+      const calls: Array<[string, unknown[]]> = [];
+      const supabase = {
+        from: (table: string) => {
+          const read = table === 'chat_session'
+            ? query({ data: session, error: null }, calls)
+            : query({ data: history[1], error: null }, calls, { data: history, error: null });
+          return {
+            ...read,
+            insert: (rows: unknown) => {
+              inserts.push({ table, rows });
+              return query({ data: { ...session, id: 'branch-1', parent_session_id: 'session-1' }, error: null }, calls);
+            },
+          };
+        },
+      } as any;
+
+      const branch = await branchSession(supabase, {
+        agencyId: 'agency-1',
+        userId: 'user-1',
+        sessionId: 'session-1',
+        messageId: 'msg-2',
+      });
+
+      expect(branch?.id).toBe('branch-1');
+      expect(calls).toContainEqual(['lte', ['created_at', '2026-10-02T09:00:01.000Z']]);
+      expect(inserts[0]).toMatchObject({
+        table: 'chat_session',
+        rows: { title: 'Refund policy (branch)', parent_session_id: 'session-1', branched_from_message_id: 'msg-2', is_active: true },
+      });
+      expect(inserts[1].table).toBe('chat_message');
+      expect(inserts[1].rows).toEqual([
+        expect.objectContaining({ session_id: 'branch-1', content: 'What is our refund policy?', created_at: '2026-10-02T09:00:00.000Z' }),
+        expect.objectContaining({ session_id: 'branch-1', route_used: 'rag', citations: history[1].citations }),
+      ]);
+    });
+
+    it('exports Markdown with each answer\'s sources', () => {
+      const markdown = exportSessionAsMarkdown(session, history);
+
+      expect(markdown).toContain('# Refund policy');
+      expect(markdown).toContain('## You · 2026-10-02T09:00:00.000Z\n\nWhat is our refund policy?');
+      expect(markdown).toContain('Refunds are issued within 30 days [1].\n\n**Sources**\n\n1. Refund SOP — Refunds within 30 days');
+    });
+
+    it('exports JSON with routes and citations', () => {
+      const exported = JSON.parse(exportSessionAsJSON(session, history));
+
+      expect(exported.session).toMatchObject({ id: 'session-1', title: 'Refund policy', parent_session_id: null });
+      expect(exported.messages[0]).toEqual({
+        id: 'msg-1',
+        role: 'user',
+        content: 'What is our refund policy?',
+        route: null,
+        citations: [],
+        created_at: '2026-10-02T09:00:00.000Z',
+      });
+      expect(exported.messages[1].citations).toEqual(history[1].citations);
+    });
+  });
 });
@@ -0,0 +1,141 @@
+/**
+ * Chat Pending Action Tests
+ *
+ * Covers storing previews of mutating chat functions and confirming or
+ * cancelling them: the stored arguments are applied once, by their owner,
+ * before they expire.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createChainableMock } from '../helpers/mock-supabase'
+
+vi.mock('@/lib/chat/functions', () => ({
+  executeFunction: vi.fn(),
+  previewFunction: vi.fn(),
+}))
+
+import { executeFunction, previewFunction } from '@/lib/chat/functions'
+import { proposePendingAction, resolvePendingAction } from '@/lib/chat/pending-actions'
+import { ChatError } from '@/lib/chat/types'
+
+type MockData = { data: unknown; error: unknown }
+
+// Each .from() call answers with the next result, in the order the module queries
+function supabaseReturning(...results: MockData[]) {
+  const queue = [...results]
+  const from = vi.fn(() => createChainableMock(queue.shift()))
+  return { client: { from } as unknown as SupabaseClient, from }
+}
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'action-1',
+  agency_id: 'agency-1',
+  user_id: 'user-1',
+  function_name: 'update_client',
+  args: { client_id: 'client-7', stage: 'Live' },
+  summary: 'Update Acme Corp',
+  target: { type: 'client', id: 'client-7', name: 'Acme Corp' },
+  changes: [{ field: 'stage', label: 'Stage', from: 'Audit', to: 'Live' }],
+  status: 'pending',
+  result: null,
+  error: null,
+  expires_at: new Date(Date.now() + 60_000).toISOString(),
+  resolved_at: null,
+  created_at: '2026-10-18T00:00:00.000Z',
+  ...overrides,
+})
+
+const resolve = (client: SupabaseClient, decision: 'confirm' | 'cancel') =>
+  resolvePendingAction(client, { id: 'action-1', agencyId: 'agency-1', userId: 'user-1', decision })
+
+describe('proposePendingAction', () => {
+  beforeEach(() => {
+    vi.mocked(previewFunction).mockReset()
+  })
+
+  it('stores the preview with the resolved arguments', async () => {
+    vi.mocked(previewFunction).mockResolvedValue({
+      summary: 'Update Acme Corp',
+      target: { type: 'client', id: 'client-7', name: 'Acme Corp' },
+      changes: [{ field: 'stage', label: 'Stage', from: 'Audit', to: 'Live' }],
+      args: { client_id: 'client-7', stage: 'Live' },
+    })
+    const insert = createChainableMock({ data: row(), error: null })
+    const client = { from: vi.fn(() => insert) } as unknown as SupabaseClient
+
+    const action = await proposePendingAction(
+      { agencyId: 'agency-1', userId: 'user-1', supabase: client },
+      'update_client',
+      { client_name: 'Acme', stage: 'Live' }
+    )
+
+    expect(insert.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ function_name: 'update_client', args: { client_id: 'client-7', stage: 'Live' } })
+    )
+    expect(action).toMatchObject({ id: 'action-1', status: 'pending', summary: 'Update Acme Corp' })
+  })
+})
+
+describe('resolvePendingAction', () => {
+  beforeEach(() => {
+    vi.mocked(executeFunction).mockReset()
+  })
+
+  it('applies the stored arguments as the confirming user', async () => {
+    vi.mocked(executeFunction).mockResolvedValue({ success: true, message: 'Updated Acme Corp: stage' })
+    const { client } = supabaseReturning(
+      { data: row(), error: null },
+      { data: row({ status: 'confirmed' }), error: null },
+      { data: row({ status: 'executed' }), error: null }
+    )
+
+    const action = await resolve(client, 'confirm')
+
+    expect(executeFunction).toHaveBeenCalledWith(
+      'update_client',
+      { agencyId: 'agency-1', userId: 'user-1', supabase: client },
+      { client_id: 'client-7', stage: 'Live' }
+    )
+    expect(action).toMatchObject({ status: 'executed', message: 'Updated Acme Corp: stage' })
+  })
+
+  it('cancels without running the function', async () => {
+    const { client } = supabaseReturning(
+      { data: row(), error: null },
+      { data: row({ status: 'cancelled' }), error: null }
+    )
+
+    const action = await resolve(client, 'cancel')
+
+    expect(executeFunction).not.toHaveBeenCalled()
+    expect(action).toMatchObject({ status: 'cancelled', message: 'Cancelled' })
+  })
+
+  it('records executor errors as a failed action', async () => {
+    vi.mocked(executeFunction).mockResolvedValue({ error: 'You do not have access to this client' })
+    const { client } = supabaseReturning(
+      { data: row(), error: null },
+      { data: row({ status: 'confirmed' }), error: null },
+      { data: row({ status: 'failed', error: 'You do not have access to this client' }), error: null }
+    )
+
+    const action = await resolve(client, 'confirm')
+
+    expect(action).toMatchObject({ status: 'failed', message: 'You do not have access to this client' })
+  })
+
+  it.each([
+    ['unknown actions', [{ data: null, error: { message: 'No rows' } }], 'NOT_FOUND'],
+    ['resolved actions', [{ data: row({ status: 'executed' }), error: null }], 'ALREADY_RESOLVED'],
+    ['expired actions', [{ data: row({ expires_at: '2026-01-01T00:00:00.000Z' }), error: null }], 'EXPIRED'],
+    ['actions claimed by another request', [{ data: row(), error: null }, { data: null, error: null }], 'ALREADY_RESOLVED'],
+  ])('refuses %s', async (_label, results, code) => {
+    const { client } = supabaseReturning(...(results as MockData[]))
+
+    const error = await resolve(client, 'confirm').catch((e) => e)
+
+    expect(error).toBeInstanceOf(ChatError)
+    expect(error.code).toBe(code)
+    expect(executeFunction).not.toHaveBeenCalled()
+  })
+})
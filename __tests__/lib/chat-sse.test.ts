@@ -0,0 +1,73 @@
+/**
+ * Chat SSE Protocol Tests
+ *
+ * Covers encoding stream events, parsing frames split across network chunks,
+ * and the event stream used by POST /api/v1/chat.
+ */
+import { describe, it, expect } from 'vitest'
+import { createChatEventStream, createChatStreamParser, encodeChatStreamEvent } from '@/lib/chat/sse'
+import type { ChatStreamEvent } from '@/lib/chat/types'
+
+const events: ChatStreamEvent[] = [
+  { type: 'route', route: 'rag', routeConfidence: 0.9, sessionId: 'session-1' },
+  { type: 'text_delta', delta: 'Our refund policy\n\nallows ' },
+  { type: 'citation', citation: { index: 1, title: 'Refunds.pdf', source: 'rag' } },
+  { type: 'text_delta', delta: '30 days.' },
+]
+
+describe('encodeChatStreamEvent', () => {
+  it('writes one data frame per event', () => {
+    expect(encodeChatStreamEvent({ type: 'text_delta', delta: 'Hi' })).toBe(
+      'data: {"type":"text_delta","delta":"Hi"}\n\n'
+    )
+  })
+})
+
+describe('createChatStreamParser', () => {
+  it('parses frames split at arbitrary points', () => {
+    const raw = events.map(encodeChatStreamEvent).join('')
+    const parse = createChatStreamParser()
+
+    const parsed: ChatStreamEvent[] = []
+    for (let i = 0; i < raw.length; i += 7) {
+      parsed.push(...parse(raw.slice(i, i + 7)))
+    }
+
+    expect(parsed).toEqual(events)
+  })
+
+  it('holds back an incomplete frame', () => {
+    const parse = createChatStreamParser()
+    const frame = encodeChatStreamEvent({ type: 'text_delta', delta: 'Hi' })
+
+    expect(parse(frame.slice(0, -1))).toEqual([])
+    expect(parse('\n')).toEqual([{ type: 'text_delta', delta: 'Hi' }])
+  })
+
+  it('skips malformed frames', () => {
+    const parse = createChatStreamParser()
+    expect(parse('data: {oops\n\n: keep-alive\n\ndata: {"type":"error","error":"x"}\n\n')).toEqual([
+      { type: 'error', error: 'x' },
+    ])
+  })
+})
+
+describe('createChatEventStream', () => {
+  it('streams emitted events until closed', async () => {
+    const stream = createChatEventStream()
+    const body = new Response(stream.readable).text()
+
+    events.forEach(stream.emit)
+    stream.close()
+
+    expect(createChatStreamParser()(await body)).toEqual(events)
+  })
+
+  it('drops events after the reader cancels', async () => {
+    const stream = createChatEventStream()
+    await stream.readable.cancel()
+
+    expect(() => stream.emit({ type: 'text_delta', delta: 'late' })).not.toThrow()
+    stream.close()
+  })
+})
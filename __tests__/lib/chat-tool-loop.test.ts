@@ -0,0 +1,213 @@
+/**
+ * Chat Tool Loop Tests
+ *
+ * Covers chaining function calls across model turns, parallel calls,
+ * feeding results and errors back as function responses, and the step,
+ * function call and token limits, and proposing mutating calls for
+ * confirmation instead of running them.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MockProvider, type LLMMessage, type LLMPart, type LLMRequest } from '@/lib/llm'
+
+vi.mock('@/lib/chat/functions', () => ({
+  hgcFunctions: [{ name: 'get_tickets', description: 'Get tickets', parameters: { type: 'object', properties: {} } }],
+  executeFunction: vi.fn(),
+  isMutatingFunction: vi.fn(() => false),
+}))
+
+vi.mock('@/lib/chat/pending-actions', () => ({
+  proposePendingAction: vi.fn(),
+}))
+
+import { executeFunction, isMutatingFunction } from '@/lib/chat/functions'
+import { proposePendingAction } from '@/lib/chat/pending-actions'
+import { runToolLoop } from '@/lib/chat/tool-loop'
+import type { ChatStreamEvent, PendingAction } from '@/lib/chat/types'
+
+const call = (id: string, name: string, args: Record<string, unknown> = {}): LLMPart => ({
+  functionCall: { id, name, args },
+})
+
+// Scripted model turns, streamed by the mock provider
+function setup(...turns: Array<{ parts: LLMPart[]; tokens?: number }>) {
+  const respond = vi.fn()
+  for (const { parts, tokens = 100 } of turns) {
+    respond.mockReturnValueOnce({
+      text: parts.map((p) => ('text' in p ? p.text : '')).join(''),
+      functionCalls: parts.flatMap((p) => ('functionCall' in p ? [p.functionCall] : [])),
+      parts,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: tokens },
+    })
+  }
+  const provider = new MockProvider({ respond })
+  const events: ChatStreamEvent[] = []
+  const functionCallsLog: Array<{ name: string; result: unknown }> = []
+  const pendingActions: PendingAction[] = []
+  const run = (limits?: Parameters<typeof runToolLoop>[0]['limits']) =>
+    runToolLoop({
+      stream: (request) => provider.stream(request),
+      prompt: 'User: find the critical ticket and assign it to Sam',
+      temperature: 0,
+      context: { agencyId: 'agency-1', userId: 'user-1' },
+      functionCallsLog,
+      pendingActions,
+      emit: (event) => events.push(event),
+      limits,
+    })
+  const request = (index: number) => respond.mock.calls[index][0] as LLMRequest
+  const messages = (index: number) => request(index).messages as LLMMessage[]
+  const responseTo = (index: number, partIndex: number) => {
+    const part = messages(index)[2].parts[partIndex]
+    return 'functionResponse' in part ? part.functionResponse : undefined
+  }
+  return { respond, events, functionCallsLog, pendingActions, run, request, messages, responseTo }
+}
+
+describe('runToolLoop', () => {
+  beforeEach(() => {
+    vi.mocked(executeFunction).mockReset()
+    vi.mocked(isMutatingFunction).mockReturnValue(false)
+  })
+
+  it('chains calls across turns and feeds results back as function responses', async () => {
+    vi.mocked(executeFunction)
+      .mockResolvedValueOnce([{ id: 't-1', priority: 'critical' }])
+      .mockResolvedValueOnce({ assigned: true })
+    const { events, functionCallsLog, run, messages } = setup(
+      { parts: [call('c1', 'get_tickets', { priority: 'critical' })] },
+      { parts: [call('c2', 'assign_ticket', { ticket_id: 't-1', assignee_name: 'Sam' })] },
+      { parts: [{ text: 'Assigned ticket t-1 to Sam.' }] }
+    )
+
+    const result = await run()
+
+    expect(result).toEqual({ text: 'Assigned ticket t-1 to Sam.', steps: 3, totalTokens: 300, stopReason: 'completed' })
+    expect(functionCallsLog).toEqual([
+      { name: 'get_tickets', result: [{ id: 't-1', priority: 'critical' }] },
+      { name: 'assign_ticket', result: { assigned: true } },
+    ])
+
+    const secondRequest = messages(1)
+    expect(secondRequest.map((m) => m.role)).toEqual(['user', 'model', 'user'])
+    expect(secondRequest[2].parts).toEqual([
+      { functionResponse: { id: 'c1', name: 'get_tickets', response: { output: [{ id: 't-1', priority: 'critical' }] } } },
+    ])
+
+    expect(events.filter((e) => e.type !== 'text_delta').map((e) => e.type)).toEqual([
+      'function_call_start',
+      'function_call_end',
+      'function_call_start',
+      'function_call_end',
+    ])
+  })
+
+  it('runs parallel calls together and answers each one', async () => {
+    vi.mocked(executeFunction).mockImplementation(async (name) => ({ from: name }))
+    const { functionCallsLog, run, responseTo } = setup(
+      { parts: [call('a', 'get_clients'), call('b', 'get_alerts')] },
+      { parts: [{ text: 'Done' }] }
+    )
+
+    await run()
+
+    expect(functionCallsLog.map((f) => f.name).sort()).toEqual(['get_alerts', 'get_clients'])
+    expect([responseTo(1, 0)?.id, responseTo(1, 1)?.id]).toEqual(['a', 'b'])
+  })
+
+  it('returns executor errors to the model instead of aborting', async () => {
+    vi.mocked(executeFunction).mockRejectedValueOnce(new Error('Ticket not found'))
+    const { events, functionCallsLog, run, responseTo } = setup(
+      { parts: [call('c1', 'assign_ticket', { ticket_number: 99 })] },
+      { parts: [{ text: 'I could not find ticket 99.' }] }
+    )
+
+    const result = await run()
+
+    expect(result.text).toBe('I could not find ticket 99.')
+    expect(functionCallsLog).toEqual([{ name: 'assign_ticket', result: { error: 'Ticket not found' } }])
+    expect(responseTo(1, 0)?.response).toEqual({ error: 'Ticket not found' })
+    expect(events).toContainEqual({
+      type: 'function_call_end',
+      id: 'c1',
+      name: 'assign_ticket',
+      success: false,
+      error: 'Ticket not found',
+    })
+  })
+
+  it('disables function calling for a final answer at the step limit', async () => {
+    vi.mocked(executeFunction).mockResolvedValue([])
+    const { respond, run, request, messages } = setup(
+      { parts: [call('c1', 'get_tickets')] },
+      { parts: [{ text: 'Here is what I found so far.' }] }
+    )
+
+    const result = await run({ maxSteps: 2 })
+
+    expect(result.stopReason).toBe('step_limit')
+    expect(respond).toHaveBeenCalledTimes(2)
+    expect(request(0).functionCalling).toBe('auto')
+    expect(request(1).functionCalling).toBe('none')
+    expect(messages(1)[2].parts.at(-1)).toEqual({ text: expect.stringMatching(/Do not call any more functions/) })
+  })
+
+  it('stops calling tools once the token budget is spent', async () => {
+    vi.mocked(executeFunction).mockResolvedValue([])
+    const { run, request } = setup(
+      { parts: [call('c1', 'get_tickets')], tokens: 5000 },
+      { parts: [{ text: 'Summary' }], tokens: 200 }
+    )
+
+    const result = await run({ maxTotalTokens: 4000 })
+
+    expect(result).toMatchObject({ stopReason: 'token_budget', totalTokens: 5200 })
+    expect(request(1).functionCalling).toBe('none')
+  })
+
+  it('answers calls beyond the function call limit without running them', async () => {
+    vi.mocked(executeFunction).mockResolvedValue([])
+    const { functionCallsLog, run, responseTo } = setup(
+      { parts: [call('a', 'get_clients'), call('b', 'get_alerts'), call('c', 'get_tickets')] },
+      { parts: [{ text: 'Partial answer' }] }
+    )
+
+    const result = await run({ maxFunctionCalls: 2 })
+
+    expect(result.stopReason).toBe('call_limit')
+    expect(executeFunction).toHaveBeenCalledTimes(2)
+    expect(functionCallsLog).toHaveLength(2)
+    expect(responseTo(1, 2)?.response).toEqual({ error: 'Function call limit reached for this request' })
+  })
+
+  it('proposes mutating calls for confirmation instead of running them', async () => {
+    const action: PendingAction = {
+      id: 'action-1',
+      functionName: 'update_client',
+      summary: 'Update Acme Corp',
+      target: { type: 'client', id: 'client-7', name: 'Acme Corp' },
+      changes: [{ field: 'stage', label: 'Stage', from: 'Audit', to: 'Live' }],
+      status: 'pending',
+      expiresAt: '2026-10-18T00:15:00.000Z',
+    }
+    vi.mocked(isMutatingFunction).mockImplementation((name) => name === 'update_client')
+    vi.mocked(proposePendingAction).mockResolvedValueOnce(action)
+    const { events, pendingActions, run, responseTo } = setup(
+      { parts: [call('c1', 'update_client', { client_name: 'Acme', stage: 'Live' })] },
+      { parts: [{ text: 'Please confirm moving Acme Corp to Live.' }] }
+    )
+
+    await run()
+
+    expect(executeFunction).not.toHaveBeenCalled()
+    expect(proposePendingAction).toHaveBeenCalledWith(
+      { agencyId: 'agency-1', userId: 'user-1' },
+      'update_client',
+      { client_name: 'Acme', stage: 'Live' }
+    )
+    expect(pendingActions).toEqual([action])
+    expect(events).toContainEqual({ type: 'pending_action', action })
+    expect(responseTo(1, 0)?.response).toMatchObject({
+      output: { status: 'awaiting_confirmation', changes: action.changes },
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Chat View Context Tests
+ *
+ * Covers validating the view context the chat panel sends and loading
+ * summaries of the selected entities, within the user's client access.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createChainableMock, createMockSupabase } from '../helpers/mock-supabase'
+
+vi.mock('@/lib/rbac/client-access', () => ({
+  verifyClientAccess: vi.fn(),
+}))
+
+import { verifyClientAccess } from '@/lib/rbac/client-access'
+import { parseViewContext, loadViewEntities } from '@/lib/chat/context/view-context'
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111'
+const WORKFLOW_ID = '22222222-2222-4222-8222-222222222222'
+
+describe('parseViewContext', () => {
+  it('keeps the route, UUID selections and string filters', () => {
+    expect(parseViewContext({
+      route: '/clients',
+      clientId: CLIENT_ID,
+      workflowId: 'tpl-onboarding',
+      filters: { stage: 'Live', health: null, tier: 'A'.repeat(500) },
+      extra: 'ignored',
+    })).toEqual({ route: '/clients', clientId: CLIENT_ID, filters: { stage: 'Live' } })
+  })
+
+  it('rejects missing or malformed routes', () => {
+    expect(parseViewContext(undefined)).toBeUndefined()
+    expect(parseViewContext({ clientId: CLIENT_ID })).toBeUndefined()
+    expect(parseViewContext({ route: 'tickets' })).toBeUndefined()
+  })
+})
+
+describe('loadViewEntities', () => {
+  beforeEach(() => {
+    vi.mocked(verifyClientAccess).mockReset()
+  })
+
+  it('summarizes the selected client when the user can read it', async () => {
+    vi.mocked(verifyClientAccess).mockResolvedValue(true)
+    const supabase = createMockSupabase({
+      client: {
+        data: { id: CLIENT_ID, name: 'Acme Corp', stage: 'Live', health_status: 'red', days_in_stage: 12, contact_name: 'Jo' },
+        error: null,
+      },
+    }) as unknown as SupabaseClient
+
+    const entities = await loadViewEntities(supabase, 'agency-1', 'user-1', { route: '/client', clientId: CLIENT_ID })
+
+    expect(entities).toEqual([
+      expect.objectContaining({
+        type: 'client',
+        name: 'Acme Corp',
+        details: expect.arrayContaining(['Stage: Live (12 days)', 'Health: red']),
+      }),
+    ])
+  })
+
+  it('leaves out clients the member is not assigned to', async () => {
+    vi.mocked(verifyClientAccess).mockResolvedValue(false)
+    const supabase = createMockSupabase() as unknown as SupabaseClient
+
+    const entities = await loadViewEntities(supabase, 'agency-1', 'member-1', { route: '/client', clientId: CLIENT_ID })
+
+    expect(entities).toEqual([])
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+
+  it('includes recent failed runs for the selected workflow', async () => {
+    const workflow = createChainableMock({
+      data: { id: WORKFLOW_ID, name: 'Welcome sequence', is_active: true, run_count: 5, success_count: 3, last_run_at: null },
+      error: null,
+    })
+    const runs = createChainableMock({
+      data: [{ started_at: '2026-10-17T09:00:00Z', error_message: 'Slack channel not found' }],
+      error: null,
+    })
+    runs.order.mockReturnValue(runs)
+    const from = vi.fn((table: string) => (table === 'workflow' ? workflow : runs))
+
+    const [entity] = await loadViewEntities({ from } as unknown as SupabaseClient, 'agency-1', 'user-1', {
+      route: '/automations',
+      workflowId: WORKFLOW_ID,
+    })
+
+    expect(runs.eq).toHaveBeenCalledWith('status', 'failed')
+    expect(entity.details).toContain('Failed run (2026-10-17T09:00:00Z): Slack channel not found')
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * Document Search Tests
+ *
+ * Verifies highlighting, rank fusion, facets and text extraction for the
+ * knowledge base's hybrid search, and that a search degrades to keyword
+ * results when semantic retrieval fails.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  RRF_K,
+  highlightTerms,
+  highlightPassage,
+  mergeSearchHits,
+  buildSearchFacets,
+  resolveSemanticMatches,
+  hybridDocumentSearch,
+  type DocumentSearchRow,
+  type KeywordMatch,
+} from '@/lib/rag/hybrid-search';
+import { extractDocumentText, MAX_EXTRACTED_TEXT_CHARS } from '@/lib/rag/text-extraction';
+
+function row(id: string, overrides: Partial<DocumentSearchRow> = {}): DocumentSearchRow {
+  return {
+    id,
+    title: `Doc ${id}`,
+    file_name: `${id}.pdf`,
+    mime_type: 'application/pdf',
+    category: 'support',
+    client_id: null,
+    uploaded_by: 'user-1',
+    created_at: '2026-10-01T10:00:00.000Z',
+    gemini_document_name: `fileSearchStores/store-1/documents/${id}`,
+    ...overrides,
+  };
+}
+
+function keyword(documentId: string, snippet: string | null = null): KeywordMatch {
+  return { document_id: documentId, rank: 0.5, title_highlight: `Doc ${documentId}`, snippet };
+}
+
+// Serves document rows matching .in(column, values); records filter calls
+function createMockSupabase(documents: DocumentSearchRow[], keywordMatches: KeywordMatch[]) {
+  const calls: Array<{ method: string; args: unknown[] }> = [];
+  const supabase = {
+    from: () => {
+      let rows = documents;
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'gte', 'lt']) {
+        chain[method] = (...args: unknown[]) => {
+          calls.push({ method, args });
+          return chain;
+        };
+      }
+      chain.in = (column: keyof DocumentSearchRow, values: string[]) => {
+        rows = rows.filter((r) => values.includes(r[column] as string));
+        return chain;
+      };
+      chain.then = (resolve: (value: unknown) => void) => resolve({ data: rows, error: null });
+      return chain;
+    },
+    rpc: vi.fn(async () => ({ data: keywordMatches, error: null })),
+  } as any;
+  return { supabase, calls };
+}
+
+describe('Document Search', () => {
+  describe('highlightTerms', () => {
+    it('marks query words and the words they prefix, ignoring operators', () => {
+      expect(highlightTerms('Install the tracking pixel, then track events', 'track -pixel OR')).toBe(
+        'Install the **tracking** **pixel**, then **track** events'
+      );
+    });
+
+    it('escapes regex characters in the query', () => {
+      expect(highlightTerms('Costs $100 (approx)', 'approx)')).toBe('Costs $100 (**approx**)');
+    });
+  });
+
+  describe('highlightPassage', () => {
+    it('excerpts long passages around the first match', () => {
+      const text = `${'lorem '.repeat(100)}the refund policy applies ${'ipsum '.repeat(100)}`;
+      const excerpt = highlightPassage(text, 'refund', 120);
+
+      expect(excerpt.startsWith('…')).toBe(true);
+      expect(excerpt.endsWith('…')).toBe(true);
+      expect(excerpt).toContain('**refund**');
+    });
+  });
+
+  describe('mergeSearchHits', () => {
+    it('ranks documents found by both searches first', () => {
+      const rows = new Map(['a', 'b', 'c'].map((id) => [id, row(id)]));
+      const hits = mergeSearchHits(
+        [keyword('a', '**refund** window'), keyword('b')],
+        [{ documentId: 'c', text: 'Refunds take 5 days' }, { documentId: 'b', text: 'Refund requests go to support' }],
+        rows,
+        'refund'
+      );
+
+      expect(hits.map((h) => h.documentId)).toEqual(['b', 'a', 'c']);
+      expect(hits[0].matchedBy).toEqual(['keyword', 'semantic']);
+      expect(hits[0].score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 2));
+      expect(hits[1].passages).toEqual([{ text: '**refund** window', source: 'keyword' }]);
+      expect(hits[2].passages).toEqual([{ text: '**Refunds** take 5 days', source: 'semantic' }]);
+    });
+
+    it('drops matches without a row and repeated passages', () => {
+      const hits = mergeSearchHits(
+        [keyword('gone')],
+        [{ documentId: 'a', text: 'Same passage' }, { documentId: 'a', text: 'Same passage' }],
+        new Map([['a', row('a')]]),
+        'passage'
+      );
+
+      expect(hits.map((h) => h.documentId)).toEqual(['a']);
+      expect(hits[0].passages).toHaveLength(1);
+    });
+  });
+
+  describe('buildSearchFacets', () => {
+    it('counts hits per category, client and uploader', () => {
+      const rows = new Map([
+        ['a', row('a', { category: 'tech', client_id: 'client-1' })],
+        ['b', row('b', { category: 'tech' })],
+        ['c', row('c', { uploaded_by: 'user-2' })],
+      ]);
+      const facets = buildSearchFacets(mergeSearchHits([keyword('a'), keyword('b'), keyword('c')], [], rows, 'doc'));
+
+      expect(facets.category).toEqual([{ value: 'tech', count: 2 }, { value: 'support', count: 1 }]);
+      expect(facets.clientId).toEqual([{ value: 'client-1', count: 1 }]);
+      expect(facets.uploadedBy).toEqual([{ value: 'user-1', count: 2 }, { value: 'user-2', count: 1 }]);
+    });
+  });
+
+  describe('resolveSemanticMatches', () => {
+    it('prefers the store document name and falls back to the title', () => {
+      const rows = [row('a', { title: 'Onboarding' }), row('b', { title: 'Onboarding' })];
+      const matches = resolveSemanticMatches(
+        [
+          { documentId: 'fileSearchStores/store-1/documents/b', documentName: 'Onboarding', text: 'one', confidence: 0.8 },
+          { documentId: 'unknown', documentName: 'Onboarding', text: 'two', confidence: 0.8 },
+          { documentId: 'unknown', documentName: 'Elsewhere', text: 'three', confidence: 0.8 },
+        ],
+        rows
+      );
+
+      expect(matches).toEqual([{ documentId: 'b', text: 'one' }, { documentId: 'a', text: 'two' }]);
+    });
+  });
+
+  describe('hybridDocumentSearch', () => {
+    it('passes filters to both lookups and fuses the results', async () => {
+      const { supabase, calls } = createMockSupabase(
+        [row('a', { title: 'Refund policy' }), row('b', { title: 'Support playbook' })],
+        [keyword('a', 'Our **refund** policy')]
+      );
+      const retrieveSemantic = vi.fn(async () => [
+        { documentId: 'unknown', documentName: 'Support playbook', text: 'Issue refunds within 30 days', confidence: 0.8 },
+      ]);
+
+      const result = await hybridDocumentSearch(supabase, {
+        agencyId: 'agency-1',
+        query: 'refund',
+        filters: { category: 'support', from: '2026-01-01T00:00:00.000Z' },
+        retrieveSemantic,
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('search_documents', expect.objectContaining({
+        p_agency_id: 'agency-1',
+        p_query: 'refund',
+        p_category: 'support',
+        p_from: '2026-01-01T00:00:00.000Z',
+      }));
+      expect(calls).toContainEqual({ method: 'eq', args: ['category', 'support'] });
+      expect(calls).toContainEqual({ method: 'gte', args: ['created_at', '2026-01-01T00:00:00.000Z'] });
+      expect(result.semantic).toBe(true);
+      expect(result.hits.map((h) => [h.documentId, h.matchedBy])).toEqual([
+        ['a', ['keyword']],
+        ['b', ['semantic']],
+      ]);
+      expect(result.facets.category).toEqual([{ value: 'support', count: 2 }]);
+    });
+
+    it('returns keyword results when semantic retrieval fails', async () => {
+      const { supabase } = createMockSupabase([row('a')], [keyword('a')]);
+
+      const result = await hybridDocumentSearch(supabase, {
+        agencyId: 'agency-1',
+        query: 'doc',
+        retrieveSemantic: vi.fn(async () => {
+          throw new Error('Circuit breaker open');
+        }),
+      });
+
+      expect(result.semantic).toBe(false);
+      expect(result.hits.map((h) => h.documentId)).toEqual(['a']);
+    });
+  });
+
+  describe('extractDocumentText', () => {
+    it('decodes text formats locally and strips HTML', async () => {
+      const extractBinary = vi.fn();
+      const text = await extractDocumentText(
+        Buffer.from('<html><style>p{}</style><p>Hello &amp;  welcome</p></html>'),
+        'text/html',
+        extractBinary
+      );
+
+      expect(text).toBe('Hello & welcome');
+      expect(extractBinary).not.toHaveBeenCalled();
+    });
+
+    it('uses the extractor for binary formats and caps the length', async () => {
+      const text = await extractDocumentText(Buffer.from('%PDF'), 'application/pdf', async () => 'x'.repeat(MAX_EXTRACTED_TEXT_CHARS + 10));
+
+      expect(text).toHaveLength(MAX_EXTRACTED_TEXT_CHARS);
+      expect(await extractDocumentText(Buffer.from('%PDF'), 'application/pdf')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Document Versions Tests
+ *
+ * Verifies version uploads, restores, text diffs and re-indexing that
+ * replaces the previous version in the File Search Store.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockService } = vi.hoisted(() => ({
+  mockService: {
+    replaceDocument: vi.fn(),
+    extractText: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/gemini/file-search-store-service', () => ({
+  getFileSearchStoreService: () => mockService,
+}));
+
+vi.mock('@/lib/gemini/store-provisioner', () => ({
+  getOrCreateAgencyStore: vi.fn(async () => ({ storeName: 'fileSearchStores/store-1', storeId: 'store-row-1' })),
+}));
+
+import {
+  MAX_DIFF_LINES,
+  diffDocumentVersions,
+  uploadDocumentVersion,
+  restoreDocumentVersion,
+  reindexDocument,
+} from '@/lib/rag/document-versions';
+
+const DOCUMENT = {
+  id: 'doc-1',
+  title: 'Refund SOP',
+  category: 'process',
+  client_id: 'client-1',
+  current_version: 2,
+  storage_path: 'agency-1/process/1-sop-v2.txt',
+  mime_type: 'text/plain',
+  gemini_document_name: 'fileSearchStores/store-1/documents/old',
+  extracted_text: null as string | null,
+};
+
+// Records calls per table; each query resolves to the next queued result for its table
+function createMockSupabase(results: Record<string, Array<{ data: unknown; error: unknown }>>) {
+  const calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+  const storage = {
+    upload: vi.fn(async () => ({ error: null })),
+    remove: vi.fn(async () => ({ error: null })),
+    download: vi.fn(async () => ({ data: new Blob(['stored file']), error: null })),
+  };
+  const supabase = {
+    from: (table: string) => {
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'insert', 'update', 'delete', 'eq', 'lt', 'order', 'limit']) {
+        chain[method] = (...args: unknown[]) => {
+          calls.push({ table, method, args });
+          return chain;
+        };
+      }
+      const next = () => results[table]?.shift() ?? { data: null, error: null };
+      chain.single = async () => next();
+      chain.maybeSingle = async () => next();
+      chain.then = (resolve: (value: unknown) => void) => resolve(next());
+      return chain;
+    },
+    storage: { from: () => storage },
+  } as any;
+  return { supabase, calls, storage };
+}
+
+describe('Document Versions', () => {
+  beforeEach(() => {
+    mockService.replaceDocument.mockReset();
+    mockService.extractText.mockReset();
+  });
+
+  describe('diffDocumentVersions', () => {
+    it('diffs extracted text line by line', () => {
+      const diff = diffDocumentVersions({ extracted_text: 'Step 1\nStep 2' }, { extracted_text: 'Step 1\nStep 2b' });
+
+      expect(diff).toEqual({
+        available: true,
+        lines: [
+          { type: 'unchanged', text: 'Step 1' },
+          { type: 'removed', text: 'Step 2' },
+          { type: 'added', text: 'Step 2b' },
+        ],
+      });
+    });
+
+    it('is unavailable without text or for very long texts', () => {
+      expect(diffDocumentVersions({ extracted_text: null }, { extracted_text: 'New' })).toEqual({
+        available: false,
+        reason: 'no_text',
+      });
+      expect(diffDocumentVersions(null, { extracted_text: 'line\n'.repeat(MAX_DIFF_LINES + 1) })).toEqual({
+        available: false,
+        reason: 'too_large',
+      });
+    });
+  });
+
+  describe('uploadDocumentVersion', () => {
+    it('stores the file, adds the next version and makes it current', async () => {
+      const { supabase, calls, storage } = createMockSupabase({
+        document: [{ data: DOCUMENT, error: null }, { data: null, error: null }],
+        document_version: [{ data: { id: 'v3', version_number: 3 }, error: null }],
+      });
+
+      const version = await uploadDocumentVersion(supabase, {
+        agencyId: 'agency-1',
+        userId: 'user-1',
+        documentId: 'doc-1',
+        file: { buffer: Buffer.from('Step 1\r\nStep 2'), fileName: 'sop-v3.txt', mimeType: 'text/plain' },
+        changeNote: ' Clarified step 2 ',
+      });
+
+      expect(version).toMatchObject({ id: 'v3', version_number: 3 });
+      expect(storage.upload).toHaveBeenCalledWith(
+        expect.stringMatching(/^agency-1\/process\/\d+-sop-v3\.txt$/),
+        expect.any(Buffer),
+        expect.objectContaining({ contentType: 'text/plain' })
+      );
+      expect(calls.find((c) => c.table === 'document_version' && c.method === 'insert')?.args[0]).toMatchObject({
+        document_id: 'doc-1',
+        version_number: 3,
+        file_name: 'sop-v3.txt',
+        extracted_text: 'Step 1\nStep 2',
+        change_note: 'Clarified step 2',
+        created_by: 'user-1',
+      });
+      expect(calls.find((c) => c.table === 'document' && c.method === 'update')?.args[0]).toMatchObject({
+        file_name: 'sop-v3.txt',
+        current_version: 3,
+        index_status: 'indexing',
+      });
+    });
+
+    it('removes the stored file when the version cannot be recorded', async () => {
+      const { supabase, storage } = createMockSupabase({
+        document: [{ data: DOCUMENT, error: null }],
+        document_version: [{ data: null, error: { message: 'duplicate key value' } }],
+      });
+
+      await expect(
+        uploadDocumentVersion(supabase, {
+          agencyId: 'agency-1',
+          userId: 'user-1',
+          documentId: 'doc-1',
+          file: { buffer: Buffer.from('%PDF'), fileName: 'sop.pdf', mimeType: 'application/pdf' },
+        })
+      ).rejects.toThrow('duplicate key value');
+      expect(storage.remove).toHaveBeenCalledWith([expect.stringContaining('sop.pdf')]);
+    });
+
+    it('returns null for a missing document', async () => {
+      const { supabase, storage } = createMockSupabase({ document: [{ data: null, error: null }] });
+
+      const version = await uploadDocumentVersion(supabase, {
+        agencyId: 'agency-1',
+        userId: 'user-1',
+        documentId: 'missing',
+        file: { buffer: Buffer.from('x'), fileName: 'x.txt', mimeType: 'text/plain' },
+      });
+
+      expect(version).toBeNull();
+      expect(storage.upload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreDocumentVersion', () => {
+    it('records the restore as a new version pointing at the old file', async () => {
+      const restored = {
+        id: 'v1',
+        version_number: 1,
+        storage_path: 'agency-1/process/0-sop.txt',
+        file_name: 'sop.txt',
+        file_size: 12,
+        mime_type: 'text/plain',
+        extracted_text: 'Step 1',
+      };
+      const { supabase, calls } = createMockSupabase({
+        document: [{ data: DOCUMENT, error: null }, { data: null, error: null }],
+        document_version: [{ data: restored, error: null }, { data: { id: 'v3', version_number: 3 }, error: null }],
+      });
+
+      const result = await restoreDocumentVersion(supabase, {
+        agencyId: 'agency-1',
+        userId: 'user-1',
+        documentId: 'doc-1',
+        versionId: 'v1',
+      });
+
+      expect(result?.restored.version_number).toBe(1);
+      expect(calls.find((c) => c.table === 'document_version' && c.method === 'insert')?.args[0]).toMatchObject({
+        version_number: 3,
+        storage_path: 'agency-1/process/0-sop.txt',
+        extracted_text: 'Step 1',
+        change_note: 'Restored version 1',
+      });
+    });
+  });
+
+  describe('reindexDocument', () => {
+    it('replaces the previous store document and saves the extracted text', async () => {
+      mockService.replaceDocument.mockResolvedValue({ documentName: 'fileSearchStores/store-1/documents/new', status: 'active' });
+      const { supabase, calls } = createMockSupabase({ document: [{ data: DOCUMENT, error: null }] });
+
+      const status = await reindexDocument(supabase, 'agency-1', 'doc-1', Buffer.from('Step 1\nStep 2'));
+
+      expect(status).toBe('indexed');
+      expect(mockService.replaceDocument).toHaveBeenCalledWith(
+        'fileSearchStores/store-1',
+        'fileSearchStores/store-1/documents/old',
+        expect.any(Blob),
+        expect.objectContaining({ displayName: 'Refund SOP', scope: 'client', clientId: 'client-1', category: 'process' })
+      );
+      expect(calls.find((c) => c.table === 'document' && c.method === 'update')?.args[0]).toMatchObject({
+        gemini_document_name: 'fileSearchStores/store-1/documents/new',
+        extracted_text: 'Step 1\nStep 2',
+        index_status: 'indexed',
+      });
+      expect(calls.find((c) => c.table === 'document_version' && c.method === 'update')?.args[0]).toEqual({
+        extracted_text: 'Step 1\nStep 2',
+      });
+    });
+
+    it('downloads the current file when none is passed and marks failures', async () => {
+      mockService.replaceDocument.mockResolvedValue({ documentName: '', status: 'failed', errorMessage: 'Circuit breaker open' });
+      const { supabase, calls, storage } = createMockSupabase({ document: [{ data: DOCUMENT, error: null }] });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const status = await reindexDocument(supabase, 'agency-1', 'doc-1');
+
+      expect(status).toBe('failed');
+      expect(storage.download).toHaveBeenCalledWith('agency-1/process/1-sop-v2.txt');
+      expect(calls.find((c) => c.table === 'document' && c.method === 'update')?.args[0]).toMatchObject({
+        index_status: 'failed',
+      });
+    });
+  });
+});
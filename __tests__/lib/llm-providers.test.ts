@@ -0,0 +1,224 @@
+/**
+ * LLM Provider Tests
+ *
+ * Covers provider selection from agency ai_config and the environment, the
+ * deterministic mock provider, the OpenAI-compatible adapter's request
+ * mapping and streamed tool-call parsing, and Gemini's function schemas.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  collectLLMStream,
+  createLLMProvider,
+  resolveLLMConfig,
+  LLMError,
+  MockProvider,
+  OpenAICompatibleProvider,
+} from '@/lib/llm'
+import { toGeminiSchema } from '@/lib/llm/providers/gemini'
+import { hgcFunctions } from '@/lib/chat/functions'
+
+describe('provider selection', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_PROVIDER', '')
+    vi.stubEnv('GOOGLE_AI_API_KEY', '')
+    vi.stubEnv('OPENAI_API_KEY', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses the agency ai_config, then LLM_PROVIDER, then Gemini', () => {
+    expect(resolveLLMConfig({ provider: 'openai', model: ' gpt-4o ' })).toEqual({ provider: 'openai', model: 'gpt-4o' })
+    expect(resolveLLMConfig({ assistant_name: 'Diii' })).toEqual({ provider: 'gemini', model: undefined })
+
+    vi.stubEnv('LLM_PROVIDER', 'mock')
+    expect(resolveLLMConfig(null).provider).toBe('mock')
+    expect(resolveLLMConfig({ provider: 'unknown' }).provider).toBe('mock')
+  })
+
+  it('throws NOT_CONFIGURED when the provider has no API key', () => {
+    expect(() => createLLMProvider({ provider: 'gemini' })).toThrow(LLMError)
+    expect(() => createLLMProvider({ provider: 'openai' })).toThrow(/OPENAI_API_KEY/)
+    expect(createLLMProvider({ provider: 'mock', model: 'mock-2' })).toMatchObject({ name: 'mock', model: 'mock-2' })
+  })
+})
+
+describe('MockProvider', () => {
+  it('answers the same request the same way, streamed or not', async () => {
+    const provider = new MockProvider()
+    const request = { system: 'Be brief', messages: 'What changed this week?' }
+
+    const first = await provider.generate(request)
+    const deltas: string[] = []
+    const streamed = await collectLLMStream(await provider.stream(request), (delta) => deltas.push(delta))
+
+    expect(first.text).toBe('[mock] What changed this week?')
+    expect(streamed).toEqual(first)
+    expect(deltas.length).toBeGreaterThan(1)
+    expect(deltas.join('')).toBe(first.text)
+  })
+
+  it('returns scripted function calls and JSON', async () => {
+    const provider = new MockProvider({
+      respond: (request) =>
+        request.functions
+          ? { functionCalls: [{ name: 'get_clients', args: { search: 'Acme' } }] }
+          : '```json\n[{"content":"Prefers email"}]\n```',
+    })
+
+    const calls = await provider.generate({ messages: 'Find Acme', functions: [{ name: 'get_clients', description: '' }] })
+    const json = await provider.generateJSON<Array<{ content: string }>>({ messages: 'Summarize' })
+
+    expect(calls.functionCalls).toEqual([{ name: 'get_clients', args: { search: 'Acme' } }])
+    expect(calls.parts).toEqual([{ functionCall: { name: 'get_clients', args: { search: 'Acme' } } }])
+    expect(json).toEqual([{ content: 'Prefers email' }])
+  })
+
+  it('embeds texts with shared words closer together', async () => {
+    const [a, b, c] = await new MockProvider().embed(['refund policy for clients', 'client refund policy', 'weekly standup'])
+    const cosine = (x: number[], y: number[]) => x.reduce((sum, v, i) => sum + v * y[i], 0)
+
+    expect(await new MockProvider().embed(['refund policy for clients'])).toEqual([a])
+    expect(cosine(a, b)).toBeGreaterThan(cosine(a, c))
+  })
+})
+
+describe('toGeminiSchema', () => {
+  it('converts JSON Schema function parameters to Gemini schemas', () => {
+    expect(
+      toGeminiSchema({
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          stage: { type: 'string', description: 'Lifecycle stage', enum: ['Lead', 'Live'] },
+          limit: { type: 'integer', minimum: 1, maximum: 50 },
+          tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+          due: { type: ['string', 'null'], format: 'date' },
+        },
+        required: ['stage'],
+      })
+    ).toEqual({
+      type: 'OBJECT',
+      properties: {
+        stage: { type: 'STRING', description: 'Lifecycle stage', enum: ['Lead', 'Live'] },
+        limit: { type: 'INTEGER', minimum: 1, maximum: 50 },
+        tags: { type: 'ARRAY', items: { type: 'STRING' }, maxItems: '5' },
+        due: { type: 'STRING', format: 'date', nullable: true },
+      },
+      required: ['stage'],
+    })
+  })
+
+  it('gives every chat function an object schema', () => {
+    for (const fn of hgcFunctions) {
+      expect(toGeminiSchema(fn.parameters).type).toBe('OBJECT')
+    }
+  })
+})
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function sseResponse(chunks: object[]) {
+    const body = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n'
+    const bytes = new TextEncoder().encode(body)
+    // Split mid-line to exercise buffering across reads
+    return new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 40))
+        controller.enqueue(bytes.slice(40))
+        controller.close()
+      },
+    }))
+  }
+
+  it('streams text and assembles tool calls from fragments', async () => {
+    fetchMock.mockResolvedValueOnce(sseResponse([
+      { choices: [{ delta: { content: 'Looking ' } }] },
+      { choices: [{ delta: { content: 'that up.' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_tickets', arguments: '{"prio' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'rity":"high"}' } }] } }] },
+      { choices: [], usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 } },
+    ]))
+    const provider = new OpenAICompatibleProvider({ apiKey: 'sk-test', baseUrl: 'https://llm.example.com/v1/' })
+
+    const deltas: string[] = []
+    const response = await collectLLMStream(
+      await provider.stream({
+        system: 'You are helpful',
+        messages: 'High priority tickets?',
+        temperature: 0.2,
+        functions: [{ name: 'get_tickets', description: 'Get tickets', parameters: { type: 'object' } }],
+      }),
+      (delta) => deltas.push(delta)
+    )
+
+    expect(deltas).toEqual(['Looking ', 'that up.'])
+    expect(response).toMatchObject({
+      text: 'Looking that up.',
+      functionCalls: [{ id: 'call_1', name: 'get_tickets', args: { priority: 'high' } }],
+      usage: { inputTokens: 50, outputTokens: 10, totalTokens: 60 },
+    })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://llm.example.com/v1/chat/completions')
+    expect(init.headers.Authorization).toBe('Bearer sk-test')
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'gpt-4o-mini',
+      temperature: 0.2,
+      stream: true,
+      tool_choice: 'auto',
+      tools: [{ type: 'function', function: { name: 'get_tickets' } }],
+      messages: [
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: 'High priority tickets?' },
+      ],
+    })
+  })
+
+  it('pairs function responses with the calls they answer', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'Two tickets.' } }] }))
+    const provider = new OpenAICompatibleProvider({ apiKey: 'sk-test' })
+
+    await provider.generate({
+      messages: [
+        { role: 'user', parts: [{ text: 'Tickets?' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'get_tickets', args: {} } }] },
+        { role: 'user', parts: [{ functionResponse: { name: 'get_tickets', response: { output: [1, 2] } } }] },
+      ],
+      functionCalling: 'none',
+      functions: [{ name: 'get_tickets', description: 'Get tickets' }],
+    })
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.tool_choice).toBe('none')
+    expect(body.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1_0', type: 'function', function: { name: 'get_tickets', arguments: '{}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_1_0', content: '{"output":[1,2]}' },
+    ])
+  })
+
+  it('raises API errors with the status', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('rate limited', { status: 429 }))
+    const provider = new OpenAICompatibleProvider({ apiKey: 'sk-test' })
+
+    await expect(provider.generate({ messages: 'Hi' })).rejects.toMatchObject({
+      code: 'API_ERROR',
+      message: expect.stringContaining('429'),
+    })
+  })
+})
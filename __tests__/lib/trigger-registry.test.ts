@@ -36,7 +36,7 @@ describe('trigger-registry', () => {
   describe('getTriggerTypes', () => {
     it('should return all trigger types', () => {
       const types = getTriggerTypes()
-      expect(types).toHaveLength(6)
+      expect(types).toHaveLength(10)
     })
 
     it('should return array of TriggerTypeMetadata', () => {
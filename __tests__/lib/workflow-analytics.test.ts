@@ -0,0 +1,167 @@
+/**
+ * Workflow Analytics Tests
+ *
+ * Covers date range parsing, per-workflow metrics computed from runs
+ * (zero-filled days, success rate over finished runs, failure reasons) and
+ * the agency-wide rollup, read past the 1000-row response limit.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  parseAnalyticsRange,
+  computeWorkflowAnalytics,
+  computeAgencyAnalytics,
+  getAgencyWorkflowAnalytics,
+} from '@/lib/workflows/analytics'
+
+const range = { startDate: '2026-10-01T00:00:00.000Z', endDate: '2026-10-03T23:59:59.999Z' }
+
+const run = (
+  workflowId: string,
+  status: 'running' | 'completed' | 'failed',
+  startedAt: string,
+  durationMs: number | null,
+  errorMessage: string | null = null
+) => ({
+  workflow_id: workflowId,
+  status,
+  started_at: startedAt,
+  completed_at: durationMs === null ? null : new Date(new Date(startedAt).getTime() + durationMs).toISOString(),
+  error_message: errorMessage,
+})
+
+const runs = [
+  run('wf-a', 'completed', '2026-10-01T09:00:00.000Z', 1000),
+  run('wf-a', 'failed', '2026-10-01T10:00:00.000Z', 3000, 'HTTP 503'),
+  run('wf-a', 'failed', '2026-10-03T10:00:00.000Z', 2000, 'HTTP 503'),
+  run('wf-b', 'failed', '2026-10-03T11:00:00.000Z', 2000, 'Client not found'),
+  run('wf-b', 'running', '2026-10-03T12:00:00.000Z', null),
+]
+
+describe('parseAnalyticsRange', () => {
+  const now = new Date('2026-10-13T12:00:00.000Z')
+
+  it('defaults to the last 30 days', () => {
+    expect(parseAnalyticsRange(null, null, now).data).toEqual({
+      startDate: '2026-09-13T12:00:00.000Z',
+      endDate: '2026-10-13T12:00:00.000Z',
+    })
+  })
+
+  it('covers whole days for bare dates', () => {
+    expect(parseAnalyticsRange('2026-10-01', '2026-10-03', now).data).toEqual(range)
+  })
+
+  it.each([
+    ['yesterday', null, 'Invalid start date "yesterday"'],
+    ['2026-10-05', '2026-10-01', 'Start date must be before end date'],
+    ['2024-01-01', '2026-10-01', 'Date range cannot exceed 366 days'],
+  ])('rejects start=%s end=%s', (start, end, message) => {
+    expect(parseAnalyticsRange(start, end, now)).toEqual({ data: null, error: message })
+  })
+})
+
+describe('computeWorkflowAnalytics', () => {
+  it('fills every day in the range and counts successes', () => {
+    const analytics = computeWorkflowAnalytics(runs, range)
+
+    expect(analytics.runsByDay).toEqual([
+      { date: '2026-10-01', count: 2, successes: 1 },
+      { date: '2026-10-02', count: 0, successes: 0 },
+      { date: '2026-10-03', count: 3, successes: 0 },
+    ])
+  })
+
+  it('leaves running runs out of the success rate and average duration', () => {
+    const analytics = computeWorkflowAnalytics(runs, range)
+
+    expect(analytics.totalRuns).toBe(5)
+    expect(analytics.successRate).toBe(25)
+    expect(analytics.averageDurationMs).toBe(2000)
+  })
+
+  it('ranks failure reasons by count', () => {
+    expect(computeWorkflowAnalytics(runs, range).topFailureReasons).toEqual([
+      { reason: 'HTTP 503', count: 2 },
+      { reason: 'Client not found', count: 1 },
+    ])
+  })
+
+  it('returns zeros when nothing ran', () => {
+    const analytics = computeWorkflowAnalytics([], range)
+    expect(analytics).toMatchObject({ totalRuns: 0, successRate: 0, averageDurationMs: 0, topFailureReasons: [] })
+    expect(analytics.runsByDay).toHaveLength(3)
+  })
+})
+
+describe('computeAgencyAnalytics', () => {
+  it('summarises each workflow, busiest first, including unused ones', () => {
+    const analytics = computeAgencyAnalytics(
+      runs,
+      [
+        { id: 'wf-idle', name: 'Idle', is_active: false },
+        { id: 'wf-b', name: 'Onboarding', is_active: true },
+        { id: 'wf-a', name: 'Renewals', is_active: true },
+      ],
+      range
+    )
+
+    expect(analytics.totalRuns).toBe(5)
+    expect(analytics.workflows).toEqual([
+      {
+        workflowId: 'wf-a',
+        name: 'Renewals',
+        isActive: true,
+        totalRuns: 3,
+        failedRuns: 2,
+        successRate: expect.closeTo(33.33, 2),
+        lastRunAt: '2026-10-03T10:00:00.000Z',
+      },
+      {
+        workflowId: 'wf-b',
+        name: 'Onboarding',
+        isActive: true,
+        totalRuns: 2,
+        failedRuns: 1,
+        successRate: 0,
+        lastRunAt: '2026-10-03T12:00:00.000Z',
+      },
+      {
+        workflowId: 'wf-idle',
+        name: 'Idle',
+        isActive: false,
+        totalRuns: 0,
+        failedRuns: 0,
+        successRate: 0,
+        lastRunAt: null,
+      },
+    ])
+  })
+})
+
+describe('getAgencyWorkflowAnalytics', () => {
+  it('pages through every run in the range', async () => {
+    const runs = Array.from({ length: 1005 }, () => run('wf-a', 'completed', '2026-10-02T10:00:00.000Z', 1000))
+    const ranges: Array<[number, number]> = []
+    const supabase = {
+      from: (table: string) => {
+        const chain: Record<string, unknown> = {}
+        for (const method of ['select', 'eq', 'gte', 'lte', 'order']) {
+          chain[method] = () => chain
+        }
+        chain.range = async (from: number, to: number) => {
+          ranges.push([from, to])
+          return { data: runs.slice(from, to + 1), error: null }
+        }
+        chain.then = (resolve: (value: unknown) => void) =>
+          resolve({ data: table === 'workflow' ? [{ id: 'wf-a', name: 'Renewals', is_active: true }] : [], error: null })
+        return chain
+      },
+    } as any
+
+    const { data } = await getAgencyWorkflowAnalytics(supabase, 'agency-1', range)
+
+    expect(ranges).toEqual([[0, 999], [1000, 1999]])
+    expect(data?.totalRuns).toBe(1005)
+    expect(data?.workflows[0].totalRuns).toBe(1005)
+  })
+})
@@ -0,0 +1,289 @@
+/**
+ * Workflow Engine — Approval Inbox Tests
+ *
+ * Verifies that actions marked requiresApproval persist an approval record and
+ * park the run, and that approving / rejecting / expiring carries the run forward.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockSupabase } from '../helpers/mock-supabase'
+import type { ActionResult, WorkflowAction, WorkflowExecutionContext } from '@/types/workflow'
+
+vi.mock('@/lib/workflows/workflow-queries', () => ({
+  getWorkflow: vi.fn(),
+  getWorkflowRun: vi.fn(),
+  createWorkflowRun: vi.fn(),
+  updateWorkflowRun: vi.fn().mockResolvedValue({ data: null, error: null }),
+  completeWorkflowRun: vi.fn().mockResolvedValue({ error: null }),
+}))
+
+vi.mock('@/lib/workflows/approvals', () => ({
+  createWorkflowApproval: vi.fn(),
+  getWorkflowApproval: vi.fn(),
+  decideWorkflowApproval: vi.fn(),
+  expirePendingApprovals: vi.fn(),
+}))
+
+vi.mock('@/lib/integrations/slack-channel-service', () => ({
+  createSlackChannelForClient: vi.fn(),
+}))
+
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import {
+  approveWorkflowAction,
+  rejectWorkflowAction,
+  expireWorkflowApprovals,
+} from '@/lib/workflows/approval-service'
+import {
+  getWorkflow,
+  getWorkflowRun,
+  createWorkflowRun,
+  updateWorkflowRun,
+  completeWorkflowRun,
+} from '@/lib/workflows/workflow-queries'
+import {
+  createWorkflowApproval,
+  getWorkflowApproval,
+  decideWorkflowApproval,
+  expirePendingApprovals,
+} from '@/lib/workflows/approvals'
+
+const alertAction: WorkflowAction = {
+  id: 'a1',
+  type: 'create_alert',
+  name: 'Flag account',
+  config: { title: 'Follow up with {{trigger.source}}', type: 'inactivity', severity: 'low' },
+}
+
+const draftAction: WorkflowAction = {
+  id: 'a2',
+  type: 'draft_communication',
+  name: 'Draft check-in email',
+  requiresApproval: true,
+  config: { platform: 'gmail', template: 'Hi from {{trigger.source}}', tone: 'friendly' },
+}
+
+const notifyAction: WorkflowAction = {
+  id: 'a3',
+  type: 'create_alert',
+  name: 'Confirm sent',
+  config: { title: 'Email approved', type: 'inactivity', severity: 'low' },
+}
+
+const actions = [alertAction, draftAction, notifyAction]
+
+const workflowRow = {
+  id: 'wf-1',
+  agency_id: 'agency-1',
+  name: 'Client check-in',
+  is_active: true,
+  triggers: [],
+  actions,
+}
+
+const runRow = { id: 'run-1', started_at: '2026-10-02T09:00:00.000Z' }
+
+const context: WorkflowExecutionContext = {
+  workflowId: 'wf-1',
+  runId: 'run-1',
+  agencyId: 'agency-1',
+  userId: 'user-1',
+  triggerData: { manual: true, source: 'Ops' },
+  variables: {},
+}
+
+const priorResults = [
+  { actionId: 'a1', actionType: 'create_alert' as const, status: 'completed' as const, executedAt: '' },
+]
+
+const approvalRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'approval-1',
+  agency_id: 'agency-1',
+  workflow_id: 'wf-1',
+  workflow_run_id: 'run-1',
+  action_id: 'a2',
+  action_index: 1,
+  action_type: 'draft_communication',
+  action_name: 'Draft check-in email',
+  action_config: { platform: 'gmail', template: 'Hi from Ops', draft: 'Hi team, quick check-in.' },
+  status: 'approved',
+  expires_at: '2026-10-05T09:00:00.000Z',
+  context,
+  prior_results: priorResults,
+  ...overrides,
+})
+
+describe('WorkflowEngine approvals', () => {
+  let supabase: ReturnType<typeof createMockSupabase>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    delete process.env.GOOGLE_AI_API_KEY
+    supabase = createMockSupabase({ alert: { data: { id: 'alert-1' }, error: null } })
+    vi.mocked(createWorkflowRun).mockResolvedValue({ data: runRow, error: null } as never)
+    vi.mocked(getWorkflowRun).mockResolvedValue({ data: runRow, error: null } as never)
+    vi.mocked(getWorkflow).mockResolvedValue({ data: workflowRow, error: null } as never)
+    vi.mocked(createWorkflowApproval).mockResolvedValue({
+      data: approvalRow({ status: 'pending' }),
+      error: null,
+    } as never)
+  })
+
+  it('records an approval with the resolved config and parks the run', async () => {
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    const result = await engine.executeWorkflow('wf-1', { manual: true, source: 'Ops' })
+
+    expect(result.status).toBe('pending_approval')
+    expect(result.actionResults.map((r) => r.status)).toEqual(['completed', 'pending_approval'])
+    expect(result.actionResults[1].result).toMatchObject({ approvalId: 'approval-1' })
+
+    const args = vi.mocked(createWorkflowApproval).mock.calls[0][1]
+    expect(args.actionIndex).toBe(1)
+    expect(args.priorResults).toHaveLength(1)
+    expect(args.actionConfig).toMatchObject({
+      template: 'Hi from Ops',
+      // Gemini is unavailable in tests, so the draft falls back to the resolved template
+      draft: 'Hi from Ops',
+    })
+
+    expect(updateWorkflowRun).toHaveBeenCalled()
+    expect(completeWorkflowRun).not.toHaveBeenCalled()
+  })
+
+  it('fails the action when the approval cannot be recorded', async () => {
+    vi.mocked(createWorkflowApproval).mockResolvedValue({ data: null, error: new Error('db down') })
+
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    const result = await engine.executeWorkflow('wf-1', { manual: true })
+
+    expect(result.status).toBe('partial_failure')
+    expect(result.actionResults[1].error).toContain('db down')
+  })
+
+  describe('approveWorkflowAction', () => {
+    it('resumes the run with the approved draft and finishes the chain', async () => {
+      vi.mocked(decideWorkflowApproval).mockResolvedValue({ data: approvalRow(), error: null } as never)
+
+      const { run, failure } = await approveWorkflowAction(
+        supabase as never, 'approval-1', 'agency-1', 'manager-1'
+      )
+
+      expect(failure).toBeUndefined()
+      expect(run?.status).toBe('completed')
+      expect(run?.actionResults.map((r) => r.actionId)).toEqual(['a1', 'a2', 'a3'])
+      expect(run?.actionResults[1].result).toMatchObject({
+        draft: 'Hi team, quick check-in.',
+        approved: true,
+      })
+      expect(createWorkflowApproval).not.toHaveBeenCalled()
+      expect(completeWorkflowRun).toHaveBeenCalledWith(
+        supabase, 'run-1', 'agency-1', 'wf-1', true, run?.actionResults, undefined
+      )
+    })
+
+    it('runs the approved config even when the data changed before resuming', async () => {
+      const escalateAction: WorkflowAction = {
+        id: 'a4',
+        type: 'create_alert',
+        name: 'Escalate',
+        requiresApproval: true,
+        // Edited after the approval was requested
+        config: { title: 'Escalate {{trigger.source}} now', type: 'inactivity', severity: 'high' },
+      }
+      vi.mocked(getWorkflow).mockResolvedValue({
+        data: { ...workflowRow, actions: [alertAction, escalateAction] },
+        error: null,
+      } as never)
+      vi.mocked(decideWorkflowApproval).mockResolvedValue({
+        data: approvalRow({
+          action_id: 'a4',
+          action_type: 'create_alert',
+          action_name: 'Escalate',
+          action_config: { title: 'Escalate Ops', type: 'inactivity', severity: 'low' },
+          context: { ...context, triggerData: { manual: true, source: 'Finance' } },
+        }),
+        error: null,
+      } as never)
+
+      const { run } = await approveWorkflowAction(supabase as never, 'approval-1', 'agency-1', 'manager-1')
+
+      expect(run?.status).toBe('completed')
+      expect(run?.actionResults[1]).toMatchObject({
+        actionId: 'a4',
+        result: { title: 'Escalate Ops', severity: 'low' },
+        resolvedConfig: { title: 'Escalate Ops', severity: 'low' },
+      })
+      const alertInserts = vi.mocked(supabase.from).mock.calls
+        .map(([table], i) => (table === 'alert' ? vi.mocked(supabase.from).mock.results[i].value.insert.mock.calls : []))
+        .flat()
+      expect(alertInserts).toEqual([[expect.objectContaining({ title: 'Escalate Ops', severity: 'low' })]])
+    })
+
+    it('reports an approval that was already decided', async () => {
+      vi.mocked(decideWorkflowApproval).mockResolvedValue({ data: null, error: null })
+      vi.mocked(getWorkflowApproval).mockResolvedValue({
+        data: approvalRow({ status: 'rejected' }),
+        error: null,
+      } as never)
+
+      const { failure } = await approveWorkflowAction(
+        supabase as never, 'approval-1', 'agency-1', 'manager-1'
+      )
+
+      expect(failure).toBe('already_decided')
+      expect(completeWorkflowRun).not.toHaveBeenCalled()
+    })
+
+    it('expires an overdue approval instead of approving it', async () => {
+      const overdue = approvalRow({ status: 'pending', expires_at: '2026-01-01T00:00:00.000Z' })
+      vi.mocked(decideWorkflowApproval).mockResolvedValue({ data: null, error: null })
+      vi.mocked(getWorkflowApproval).mockResolvedValue({ data: overdue, error: null } as never)
+      vi.mocked(expirePendingApprovals).mockResolvedValue({
+        data: [{ ...overdue, status: 'expired' }],
+        error: null,
+      } as never)
+
+      const { failure } = await approveWorkflowAction(
+        supabase as never, 'approval-1', 'agency-1', 'manager-1'
+      )
+
+      expect(failure).toBe('expired')
+      expect(expirePendingApprovals).toHaveBeenCalledWith(supabase, { agencyId: 'agency-1' })
+      expect(completeWorkflowRun).toHaveBeenCalledWith(
+        supabase, 'run-1', 'agency-1', 'wf-1', false, expect.any(Array), '1 action(s) failed'
+      )
+    })
+  })
+
+  it('rejecting skips the action and completes the run without the rest of the chain', async () => {
+    vi.mocked(decideWorkflowApproval).mockResolvedValue({
+      data: approvalRow({ status: 'rejected', rejection_reason: 'Wrong tone' }),
+      error: null,
+    } as never)
+
+    const { run } = await rejectWorkflowAction(
+      supabase as never, 'approval-1', 'agency-1', 'manager-1', 'Wrong tone'
+    )
+
+    expect(run?.status).toBe('completed')
+    expect(run?.actionResults.map((r) => [r.actionId, r.status])).toEqual([
+      ['a1', 'completed'],
+      ['a2', 'skipped'],
+    ])
+    expect(run?.actionResults[1].result).toMatchObject({ rejectionReason: 'Wrong tone' })
+  })
+
+  it('expiry sweep fails the runs of expired approvals', async () => {
+    vi.mocked(expirePendingApprovals).mockResolvedValue({
+      data: [approvalRow({ status: 'expired' })],
+      error: null,
+    } as never)
+
+    const { expired, errors } = await expireWorkflowApprovals(supabase as never)
+
+    expect(expired).toBe(1)
+    expect(errors).toEqual([])
+    const results = vi.mocked(completeWorkflowRun).mock.calls[0][5] as ActionResult[]
+    expect(results[1]).toMatchObject({ actionId: 'a2', status: 'failed' })
+    expect(results[1].error).toContain('expired')
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Workflow Engine — Condition Groups & Branching Tests
+ *
+ * Verifies nested and/or condition groups on actions, if/else branch steps,
+ * resuming a run that was parked inside a branch, and branch validation.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockSupabase } from '../helpers/mock-supabase'
+import type {
+  BranchStep,
+  ConditionGroup,
+  WorkflowAction,
+  WorkflowExecutionContext,
+  WorkflowStep,
+} from '@/types/workflow'
+
+vi.mock('@/lib/workflows/workflow-queries', () => ({
+  getWorkflow: vi.fn(),
+  getWorkflowRun: vi.fn(),
+  createWorkflowRun: vi.fn(),
+  updateWorkflowRun: vi.fn().mockResolvedValue({ data: null, error: null }),
+  completeWorkflowRun: vi.fn().mockResolvedValue({ error: null }),
+}))
+
+vi.mock('@/lib/workflows/scheduled-steps', () => ({
+  enqueueScheduledStep: vi.fn().mockResolvedValue({
+    data: { id: 'step-1', run_at: '2026-10-03T10:00:00.000Z' },
+    error: null,
+  }),
+}))
+
+vi.mock('@/lib/integrations/slack-channel-service', () => ({
+  createSlackChannelForClient: vi.fn(),
+}))
+
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import { validateWorkflowStep, flattenWorkflowSteps } from '@/lib/workflows/action-registry'
+import { getWorkflow, getWorkflowRun, createWorkflowRun } from '@/lib/workflows/workflow-queries'
+import { enqueueScheduledStep } from '@/lib/workflows/scheduled-steps'
+
+const alert = (id: string, overrides: Partial<WorkflowAction> = {}): WorkflowAction => ({
+  id,
+  type: 'create_alert',
+  name: `Alert ${id}`,
+  config: { title: id, type: 'risk_detected', severity: 'high' },
+  ...overrides,
+} as WorkflowAction)
+
+const healthIs = (value: string): ConditionGroup => ({
+  logic: 'and',
+  conditions: [{ field: 'trigger.health', operator: 'equals', value }],
+})
+
+const healthBranch = (redActions: WorkflowAction[] = [alert('escalate')]): BranchStep => ({
+  id: 'branch-1',
+  type: 'branch',
+  name: 'By health',
+  branches: [
+    { id: 'red', name: 'Red', condition: healthIs('red'), actions: redActions },
+    { id: 'yellow', name: 'Yellow', condition: healthIs('yellow'), actions: [alert('check-in')] },
+  ],
+  elseActions: [alert('log-green')],
+})
+
+const runRow = { id: 'run-1', started_at: '2026-10-03T09:00:00.000Z' }
+
+describe('WorkflowEngine branching', () => {
+  let supabase: ReturnType<typeof createMockSupabase>
+
+  const runWith = async (steps: WorkflowStep[], triggerData: Record<string, unknown>) => {
+    vi.mocked(getWorkflow).mockResolvedValue({
+      data: { id: 'wf-1', agency_id: 'agency-1', is_active: true, triggers: [], actions: steps },
+      error: null,
+    } as never)
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    return engine.executeWorkflow('wf-1', triggerData)
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    supabase = createMockSupabase({ alert: { data: { id: 'alert-1' }, error: null } })
+    vi.mocked(createWorkflowRun).mockResolvedValue({ data: runRow, error: null } as never)
+    vi.mocked(getWorkflowRun).mockResolvedValue({ data: runRow, error: null } as never)
+  })
+
+  describe('condition groups', () => {
+    const nested: ConditionGroup = {
+      logic: 'or',
+      conditions: [
+        { field: 'trigger.priority', operator: 'equals', value: 'critical' },
+        {
+          logic: 'and',
+          conditions: [
+            { field: 'trigger.priority', operator: 'equals', value: 'high' },
+            { field: 'trigger.hours', operator: 'greater_than', value: 24 },
+          ],
+        },
+      ],
+    }
+
+    it.each([
+      [{ priority: 'critical' }, 'completed'],
+      [{ priority: 'high', hours: 30 }, 'completed'],
+      [{ priority: 'high', hours: 2 }, 'skipped'],
+      [{ priority: 'low', hours: 30 }, 'skipped'],
+    ])('evaluates nested and/or groups for %o', async (triggerData, expected) => {
+      const result = await runWith([alert('a1', { condition: nested })], triggerData)
+      expect(result.actionResults[0].status).toBe(expected)
+    })
+
+    it('still accepts a single comparison', async () => {
+      const condition = { field: 'trigger.priority', operator: 'equals', value: 'low' } as const
+      const result = await runWith([alert('a1', { condition })], { priority: 'high' })
+      expect(result.actionResults[0].status).toBe('skipped')
+    })
+  })
+
+  describe('branch steps', () => {
+    it.each([
+      ['red', 'red', 'escalate'],
+      ['yellow', 'yellow', 'check-in'],
+      ['green', 'else', 'log-green'],
+    ])('routes %s health down the matching path', async (health, branchId, actionId) => {
+      const result = await runWith([healthBranch(), alert('after')], { health })
+
+      expect(result.status).toBe('completed')
+      expect(result.actionResults.map((r) => r.actionId)).toEqual(['branch-1', actionId, 'after'])
+      expect(result.actionResults[0]).toMatchObject({ actionType: 'branch', result: { branchId } })
+    })
+
+    it('continues with the next step when nothing matches and there is no else path', async () => {
+      const step = { ...healthBranch(), elseActions: [] }
+      const result = await runWith([step, alert('after')], { health: 'green' })
+
+      expect(result.actionResults.map((r) => r.actionId)).toEqual(['branch-1', 'after'])
+      expect(result.actionResults[0].result).toMatchObject({ branchId: null })
+    })
+
+    it('parks a delayed action inside a branch and resumes on the same path', async () => {
+      const steps = [healthBranch([alert('escalate', { delayMinutes: 30 }), alert('notify')]), alert('after')]
+      const parked = await runWith(steps, { health: 'red' })
+
+      expect(parked.status).toBe('running')
+      const enqueued = vi.mocked(enqueueScheduledStep).mock.calls[0][1]
+      expect(enqueued.actionId).toBe('escalate')
+      expect(enqueued.actionIndex).toBe(1)
+
+      const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+      const resumed = await engine.resumeWorkflowRun({
+        context: enqueued.context as WorkflowExecutionContext,
+        actionId: enqueued.actionId,
+        actionIndex: enqueued.actionIndex,
+        priorResults: enqueued.priorResults,
+      })
+
+      expect(resumed.status).toBe('completed')
+      expect(resumed.actionResults.map((r) => r.actionId)).toEqual([
+        'branch-1', 'escalate', 'notify', 'after',
+      ])
+    })
+  })
+
+  describe('validateWorkflowStep', () => {
+    it('accepts a well-formed branch', () => {
+      expect(validateWorkflowStep(healthBranch())).toEqual({ valid: true, errors: [] })
+    })
+
+    it('rejects empty paths, incomplete conditions and nested branches', () => {
+      const step: BranchStep = {
+        ...healthBranch(),
+        branches: [
+          {
+            id: 'red',
+            name: 'Red',
+            condition: { logic: 'and', conditions: [{ field: 'client.healthStatus', operator: 'equals' }] },
+            actions: [],
+          },
+        ],
+        elseActions: [healthBranch() as unknown as WorkflowAction],
+      }
+
+      const { valid, errors } = validateWorkflowStep(step)
+      expect(valid).toBe(false)
+      expect(errors).toEqual([
+        'By health → Red: Condition on client.healthStatus requires a value',
+        'By health → Red: add at least one action',
+        'By health → Otherwise: branches cannot be nested',
+      ])
+    })
+
+    it('flattens branch actions for counting', () => {
+      expect(flattenWorkflowSteps([healthBranch(), alert('after')]).map((a) => a.id)).toEqual([
+        'escalate', 'check-in', 'log-green', 'after',
+      ])
+    })
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Workflow Bundle Tests
+ *
+ * Covers bundle creation, parsing and validation of untrusted bundles, and
+ * collecting and remapping the agency-specific values workflows reference.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  WORKFLOW_BUNDLE_FORMAT,
+  createWorkflowBundle,
+  parseWorkflowBundle,
+  collectWorkflowReferences,
+  remapWorkflowReferences,
+  resolveBundleReferences,
+} from '@/lib/workflows/bundles'
+import type { WorkflowBundleEntry } from '@/types/workflow'
+
+const onboarding: WorkflowBundleEntry = {
+  name: 'Onboarding handoff',
+  description: 'Open a ticket when a client reaches Onboarding',
+  triggers: [{ id: 't1', type: 'stage_change', name: 'To Onboarding', config: { toStage: 'Onboarding' } }],
+  actions: [
+    {
+      id: 'a1',
+      type: 'create_ticket',
+      name: 'Kickoff ticket',
+      config: {
+        title: 'Kickoff for {{client.name}}',
+        description: 'Schedule the kickoff call',
+        priority: 'medium',
+        category: 'general',
+        assigneeId: 'user-1',
+      },
+    },
+    {
+      id: 'a2',
+      type: 'send_notification',
+      name: 'Tell the team',
+      config: { channel: 'slack', recipients: ['C123', 'C456'], message: '{{client.name}} is onboarding' },
+    },
+  ],
+}
+
+// Answers each table with the given rows, filtered by `in` like PostgREST
+function createMockSupabase(rows: { stages: string[]; users: string[]; channels: string[] }) {
+  return {
+    from: (table: string) => {
+      const chain: Record<string, unknown> = {}
+      chain.select = () => chain
+      chain.eq = () => chain
+      chain.single = async () => ({ data: { pipeline_stages: rows.stages }, error: null })
+      chain.in = async (_column: string, values: string[]) => ({
+        data: table === 'user'
+          ? rows.users.filter((id) => values.includes(id)).map((id) => ({ id }))
+          : rows.channels.filter((id) => values.includes(id)).map((id) => ({ slack_channel_id: id })),
+        error: null,
+      })
+      return chain
+    },
+  } as any
+}
+
+const bundleOf = (...workflows: unknown[]) => ({
+  format: WORKFLOW_BUNDLE_FORMAT,
+  version: 1,
+  exportedAt: '2026-10-14T00:00:00.000Z',
+  sourceAgencyId: 'agency-a',
+  workflows,
+})
+
+describe('collectWorkflowReferences', () => {
+  it('lists each stage, assignee and Slack channel once', () => {
+    expect(collectWorkflowReferences([onboarding, onboarding])).toEqual([
+      { kind: 'stage', value: 'Onboarding' },
+      { kind: 'user', value: 'user-1' },
+      { kind: 'slack_channel', value: 'C123' },
+      { kind: 'slack_channel', value: 'C456' },
+    ])
+  })
+})
+
+describe('remapWorkflowReferences', () => {
+  it('replaces mapped values and drops references mapped to null', () => {
+    const remapped = remapWorkflowReferences(onboarding, {
+      stage: { Onboarding: 'Kickoff' },
+      user: { 'user-1': null },
+      slack_channel: { C123: 'C999' },
+    })
+
+    expect(remapped.triggers[0].config).toEqual({ toStage: 'Kickoff' })
+    expect(remapped.actions[0].type === 'create_ticket' && remapped.actions[0].config.assigneeId).toBeUndefined()
+    expect(remapped.actions[1].type === 'send_notification' && remapped.actions[1].config.recipients).toEqual([
+      'C999',
+      'C456',
+    ])
+  })
+
+  it('does not modify the original workflow', () => {
+    remapWorkflowReferences(onboarding, { stage: { Onboarding: 'Kickoff' } })
+    expect(onboarding.triggers[0].config).toEqual({ toStage: 'Onboarding' })
+  })
+})
+
+describe('createWorkflowBundle', () => {
+  it('labels references that have a display name', () => {
+    const bundle = createWorkflowBundle([onboarding], 'agency-a', { 'user-1': 'Ada Lovelace' })
+
+    expect(bundle).toMatchObject({ format: WORKFLOW_BUNDLE_FORMAT, version: 1, sourceAgencyId: 'agency-a' })
+    expect(bundle.references).toContainEqual({ kind: 'user', value: 'user-1', label: 'Ada Lovelace' })
+    expect(bundle.references).toContainEqual({ kind: 'stage', value: 'Onboarding' })
+  })
+})
+
+describe('parseWorkflowBundle', () => {
+  it('accepts an exported bundle', () => {
+    const { data, errors } = parseWorkflowBundle(JSON.parse(JSON.stringify(createWorkflowBundle([onboarding], 'agency-a'))))
+
+    expect(errors).toEqual([])
+    expect(data?.workflows).toEqual([onboarding])
+  })
+
+  it.each([
+    [null, 'Not a workflow bundle'],
+    [{ ...bundleOf(onboarding), format: 'something-else' }, 'Not a workflow bundle'],
+    [{ ...bundleOf(onboarding), version: 2 }, 'Bundle version 2 is newer than this app supports (1)'],
+    [{ ...bundleOf(onboarding), version: '1' }, 'Bundle version is missing or invalid'],
+    [bundleOf(), 'Bundle contains no workflows'],
+  ])('rejects %j', (input, message) => {
+    expect(parseWorkflowBundle(input)).toEqual({ data: null, errors: [message] })
+  })
+
+  it('reports invalid workflows by name', () => {
+    const { data, errors } = parseWorkflowBundle(
+      bundleOf(onboarding, { ...onboarding, name: 'No actions', actions: [] }, { name: 'Broken', triggers: 'x' })
+    )
+
+    expect(data).toBeNull()
+    expect(errors).toEqual([
+      'Workflow "No actions": At least one action is required',
+      'Workflow "Broken": malformed workflow definition',
+    ])
+  })
+
+  it('recomputes references instead of trusting the bundle, keeping labels', () => {
+    const { data } = parseWorkflowBundle({
+      ...bundleOf(onboarding),
+      references: [
+        { kind: 'user', value: 'user-1', label: 'Ada Lovelace' },
+        { kind: 'user', value: 'user-not-used', label: 'Someone else' },
+      ],
+    })
+
+    expect(data?.references).toEqual([
+      { kind: 'stage', value: 'Onboarding' },
+      { kind: 'user', value: 'user-1', label: 'Ada Lovelace' },
+      { kind: 'slack_channel', value: 'C123' },
+      { kind: 'slack_channel', value: 'C456' },
+    ])
+  })
+})
+
+describe('resolveBundleReferences', () => {
+  it('keeps references that exist in the target agency and returns the rest as unresolved', async () => {
+    const { data: bundle } = parseWorkflowBundle(bundleOf(onboarding))
+    const supabase = createMockSupabase({ stages: ['Onboarding'], users: ['user-1'], channels: ['C123'] })
+
+    const { data } = await resolveBundleReferences(supabase, 'agency-b', bundle!)
+
+    expect(data?.mapping).toEqual({
+      stage: { Onboarding: 'Onboarding' },
+      user: { 'user-1': 'user-1' },
+      slack_channel: { C123: 'C123' },
+    })
+    expect(data?.unresolved).toEqual([{ kind: 'slack_channel', value: 'C456' }])
+  })
+
+  it('checks references even when the bundle claims to come from the target agency', async () => {
+    const { data: bundle } = parseWorkflowBundle({ ...bundleOf(onboarding), sourceAgencyId: 'agency-b' })
+    const supabase = createMockSupabase({ stages: ['Live'], users: [], channels: [] })
+
+    const { data } = await resolveBundleReferences(supabase, 'agency-b', bundle!)
+
+    expect(data?.mapping).toEqual({})
+    expect(data?.unresolved.map((ref) => ref.value)).toEqual(['Onboarding', 'user-1', 'C123', 'C456'])
+  })
+
+  it('rejects assignees mapped to users outside the agency', async () => {
+    const { data: bundle } = parseWorkflowBundle(bundleOf(onboarding))
+    const supabase = createMockSupabase({ stages: ['Onboarding'], users: [], channels: ['C123', 'C456'] })
+
+    const { data } = await resolveBundleReferences(supabase, 'agency-b', bundle!, { user: { 'user-1': 'user-other' } })
+
+    expect(data?.invalid).toEqual(['Assignee "user-1" is mapped to a user outside this agency'])
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Workflow Cron Tests
+ *
+ * Covers cron parsing (names, ranges, steps, lists), next-run calculation in
+ * the trigger's timezone including DST changes, and catch-up planning for
+ * scheduled triggers.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  parseCron,
+  validateCronExpression,
+  getNextCronRun,
+  getNextCronRuns,
+} from '@/lib/workflows/cron'
+import { planTriggerOccurrences } from '@/lib/workflows/trigger-schedules'
+import { validateTriggerConfig } from '@/lib/workflows/trigger-registry'
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString())
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-17/4 */10 1 *')
+    expect(schedule.minutes).toEqual([0, 30])
+    expect(schedule.hours).toEqual([9, 13, 17])
+    expect(schedule.daysOfMonth).toEqual([1, 11, 21, 31])
+    expect(schedule.months).toEqual([1])
+  })
+
+  it('accepts named months and days in any case, and 7 for Sunday', () => {
+    const schedule = parseCron('0 9 * jan,Jun-AUG mon-fri,7')
+    expect(schedule.months).toEqual([1, 6, 7, 8])
+    expect(schedule.daysOfWeek).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('treats N/step as a range starting at N', () => {
+    expect(parseCron('5/20 * * * *').minutes).toEqual([5, 25, 45])
+  })
+
+  it.each([
+    ['0 9 * *', 'must have 5 fields'],
+    ['60 9 * * *', 'minute value 60 is out of range'],
+    ['0 9 * * FUNDAY', 'Invalid day of week value "FUNDAY"'],
+    ['0 17-9 * * *', 'start is after end'],
+    ['*/0 * * * *', 'Invalid minute step'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message)
+  })
+})
+
+describe('getNextCronRun', () => {
+  it('computes runs in the trigger timezone', () => {
+    // 9 AM New York (EDT, UTC-4) on weekdays; 2026-10-02 is a Friday
+    const runs = getNextCronRuns('0 9 * * MON-FRI', 'America/New_York', 3, new Date('2026-10-02T12:00:00Z'))
+    expect(iso(runs)).toEqual([
+      '2026-10-02T13:00:00.000Z',
+      '2026-10-05T13:00:00.000Z',
+      '2026-10-06T13:00:00.000Z',
+    ])
+  })
+
+  it('is strictly after the given time', () => {
+    const next = getNextCronRun('0 9 * * *', 'UTC', new Date('2026-10-02T09:00:00Z'))
+    expect(next?.toISOString()).toBe('2026-10-03T09:00:00.000Z')
+  })
+
+  it('keeps local wall time across a DST change', () => {
+    // US clocks fall back on 2026-11-01
+    const runs = getNextCronRuns('0 9 * * *', 'America/New_York', 2, new Date('2026-10-31T12:00:00Z'))
+    expect(iso(runs)).toEqual(['2026-10-31T13:00:00.000Z', '2026-11-01T14:00:00.000Z'])
+  })
+
+  it('moves a time skipped by spring-forward to after the jump', () => {
+    // 02:30 does not exist in New York on 2026-03-08
+    const next = getNextCronRun('30 2 8 3 *', 'America/New_York', new Date('2026-03-01T00:00:00Z'))
+    expect(next?.toISOString()).toBe('2026-03-08T07:30:00.000Z')
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday
+    const runs = getNextCronRuns('0 0 13 * FRI', 'UTC', 3, new Date('2026-11-01T00:00:00Z'))
+    expect(iso(runs)).toEqual([
+      '2026-11-06T00:00:00.000Z',
+      '2026-11-13T00:00:00.000Z',
+      '2026-11-20T00:00:00.000Z',
+    ])
+  })
+
+  it('finds leap days and reports schedules that never run', () => {
+    expect(getNextCronRun('0 0 29 2 *', 'UTC', new Date('2026-10-01T00:00:00Z'))?.toISOString())
+      .toBe('2028-02-29T00:00:00.000Z')
+    expect(getNextCronRun('0 0 31 2 *', 'UTC', new Date('2026-10-01T00:00:00Z'))).toBeNull()
+  })
+})
+
+describe('validateCronExpression', () => {
+  it('checks the expression and timezone', () => {
+    expect(validateCronExpression('0 9 * * MON', 'Europe/London')).toBeNull()
+    expect(validateCronExpression('0 9 * * MON', 'Mars/Olympus')).toBe('Unknown timezone "Mars/Olympus"')
+    expect(validateCronExpression('0 0 30 2 *')).toBe('Cron expression never matches a real date')
+  })
+
+  it('is applied to scheduled triggers', () => {
+    const { valid, errors } = validateTriggerConfig({
+      id: 't1',
+      type: 'scheduled',
+      name: 'Scheduled',
+      config: { schedule: '0 25 * * *', timezone: 'UTC' },
+    })
+    expect(valid).toBe(false)
+    expect(errors).toEqual(['Invalid schedule: hour value 25 is out of range (0-23)'])
+  })
+})
+
+describe('planTriggerOccurrences', () => {
+  const now = new Date('2026-10-05T09:20:00Z')
+
+  it('fires each occurrence since next_run_at once and advances past now', () => {
+    const plan = planTriggerOccurrences('*/15 * * * *', 'UTC', new Date('2026-10-05T09:00:00Z'), now)
+    expect(iso(plan.due)).toEqual(['2026-10-05T09:00:00.000Z', '2026-10-05T09:15:00.000Z'])
+    expect(plan.skipped).toBe(false)
+    expect(plan.nextRunAt?.toISOString()).toBe('2026-10-05T09:30:00.000Z')
+  })
+
+  it('skips occurrences older than the catch-up window', () => {
+    const plan = planTriggerOccurrences('0 * * * *', 'UTC', new Date('2026-10-01T09:00:00Z'), now)
+    expect(iso(plan.due)).toEqual(['2026-10-05T09:00:00.000Z'])
+    expect(plan.skipped).toBe(true)
+    expect(plan.nextRunAt?.toISOString()).toBe('2026-10-05T10:00:00.000Z')
+  })
+})
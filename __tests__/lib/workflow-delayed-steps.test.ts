@@ -0,0 +1,189 @@
+/**
+ * Workflow Engine — Delayed Step Queue Tests
+ *
+ * Verifies that delayed actions are parked in the step queue instead of being
+ * dropped, and that resuming a parked step finishes the original run.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockSupabase } from '../helpers/mock-supabase'
+import type { WorkflowAction, WorkflowExecutionContext } from '@/types/workflow'
+
+vi.mock('@/lib/workflows/workflow-queries', () => ({
+  getWorkflow: vi.fn(),
+  getWorkflowRun: vi.fn(),
+  createWorkflowRun: vi.fn(),
+  updateWorkflowRun: vi.fn().mockResolvedValue({ data: null, error: null }),
+  completeWorkflowRun: vi.fn().mockResolvedValue({ error: null }),
+}))
+
+vi.mock('@/lib/workflows/scheduled-steps', () => ({
+  enqueueScheduledStep: vi.fn(),
+}))
+
+vi.mock('@/lib/integrations/slack-channel-service', () => ({
+  createSlackChannelForClient: vi.fn(),
+}))
+
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import {
+  getWorkflow,
+  getWorkflowRun,
+  createWorkflowRun,
+  updateWorkflowRun,
+  completeWorkflowRun,
+} from '@/lib/workflows/workflow-queries'
+import { enqueueScheduledStep } from '@/lib/workflows/scheduled-steps'
+
+const alertAction = (id: string, delayMinutes = 0): WorkflowAction => ({
+  id,
+  type: 'create_alert',
+  name: `Alert ${id}`,
+  delayMinutes,
+  config: { title: 'Follow up', type: 'inactivity', severity: 'low' },
+})
+
+const actions = [alertAction('a1'), alertAction('a2', 60), alertAction('a3')]
+
+const workflowRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'wf-1',
+  agency_id: 'agency-1',
+  name: 'Kickoff follow-up',
+  is_active: true,
+  triggers: [],
+  actions,
+  ...overrides,
+})
+
+const runRow = { id: 'run-1', started_at: '2026-10-01T09:00:00.000Z' }
+
+describe('WorkflowEngine delayed steps', () => {
+  let supabase: ReturnType<typeof createMockSupabase>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    supabase = createMockSupabase({ alert: { data: { id: 'alert-1' }, error: null } })
+    vi.mocked(createWorkflowRun).mockResolvedValue({ data: runRow, error: null } as never)
+    vi.mocked(getWorkflowRun).mockResolvedValue({ data: runRow, error: null } as never)
+    vi.mocked(getWorkflow).mockResolvedValue({ data: workflowRow(), error: null } as never)
+    vi.mocked(enqueueScheduledStep).mockResolvedValue({
+      data: { id: 'step-1', run_at: '2026-10-01T10:00:00.000Z' },
+      error: null,
+    } as never)
+  })
+
+  it('parks the chain at the first delayed action and keeps the run open', async () => {
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    const result = await engine.executeWorkflow('wf-1', { manual: true })
+
+    expect(result.status).toBe('running')
+    expect(result.actionResults.map((r) => r.status)).toEqual(['completed', 'scheduled'])
+    expect(result.actionResults[1].result).toMatchObject({ scheduledStepId: 'step-1', delayMinutes: 60 })
+
+    const enqueueArgs = vi.mocked(enqueueScheduledStep).mock.calls[0][1]
+    expect(enqueueArgs.actionId).toBe('a2')
+    expect(enqueueArgs.actionIndex).toBe(1)
+    expect(enqueueArgs.priorResults).toHaveLength(1)
+    expect(enqueueArgs.context.runId).toBe('run-1')
+
+    expect(updateWorkflowRun).toHaveBeenCalled()
+    expect(completeWorkflowRun).not.toHaveBeenCalled()
+  })
+
+  it('fails the delayed action when it cannot be queued', async () => {
+    vi.mocked(enqueueScheduledStep).mockResolvedValue({ data: null, error: new Error('db down') })
+
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    const result = await engine.executeWorkflow('wf-1', { manual: true })
+
+    expect(result.status).toBe('partial_failure')
+    expect(result.actionResults[1].error).toContain('db down')
+    expect(completeWorkflowRun).toHaveBeenCalled()
+  })
+
+  describe('resumeWorkflowRun', () => {
+    const context: WorkflowExecutionContext = {
+      workflowId: 'wf-1',
+      runId: 'run-1',
+      agencyId: 'agency-1',
+      userId: 'user-1',
+      triggerData: { manual: true },
+      variables: {},
+    }
+    const priorResults = [
+      { actionId: 'a1', actionType: 'create_alert' as const, status: 'completed' as const, executedAt: '' },
+    ]
+
+    it('runs the delayed action and the rest of the chain, then completes the run', async () => {
+      const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+      const result = await engine.resumeWorkflowRun({
+        context,
+        actionId: 'a2',
+        actionIndex: 1,
+        priorResults,
+      })
+
+      expect(result.status).toBe('completed')
+      expect(result.actionResults.map((r) => r.actionId)).toEqual(['a1', 'a2', 'a3'])
+      expect(enqueueScheduledStep).not.toHaveBeenCalled()
+      expect(completeWorkflowRun).toHaveBeenCalledWith(
+        supabase, 'run-1', 'agency-1', 'wf-1', true, result.actionResults, undefined
+      )
+    })
+
+    it('locates the action by ID when the workflow was reordered', async () => {
+      vi.mocked(getWorkflow).mockResolvedValue({
+        data: workflowRow({ actions: [alertAction('a2', 60), alertAction('a1'), alertAction('a3')] }),
+        error: null,
+      } as never)
+
+      const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+      const result = await engine.resumeWorkflowRun({
+        context,
+        actionId: 'a2',
+        actionIndex: 1,
+        priorResults,
+      })
+
+      expect(result.actionResults.map((r) => r.actionId)).toEqual(['a1', 'a2', 'a1', 'a3'])
+    })
+
+    it('fails the run when the workflow was disabled while waiting', async () => {
+      vi.mocked(getWorkflow).mockResolvedValue({
+        data: workflowRow({ is_active: false }),
+        error: null,
+      } as never)
+
+      const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+      const result = await engine.resumeWorkflowRun({
+        context,
+        actionId: 'a2',
+        actionIndex: 1,
+        priorResults,
+      })
+
+      expect(result.status).toBe('failed')
+      expect(result.error).toContain('disabled')
+      expect(completeWorkflowRun).toHaveBeenCalledWith(
+        supabase, 'run-1', 'agency-1', 'wf-1', false, priorResults, expect.stringContaining('disabled')
+      )
+    })
+
+    it('fails the run when the delayed action was removed', async () => {
+      vi.mocked(getWorkflow).mockResolvedValue({
+        data: workflowRow({ actions: [alertAction('a1')] }),
+        error: null,
+      } as never)
+
+      const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+      const result = await engine.resumeWorkflowRun({
+        context,
+        actionId: 'a2',
+        actionIndex: 1,
+        priorResults,
+      })
+
+      expect(result.status).toBe('failed')
+      expect(result.error).toContain('removed')
+    })
+  })
+})
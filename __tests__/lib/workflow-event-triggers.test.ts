@@ -0,0 +1,170 @@
+/**
+ * Workflow Event Router — Event Trigger Tests
+ *
+ * Covers trigger matching for ticket status changes, onboarding submissions,
+ * alerts and integration disconnects, plus validation of the new trigger types.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { WorkflowTrigger } from '@/types/workflow'
+
+const executeWorkflow = vi.fn()
+
+vi.mock('@/lib/workflows/workflow-queries', () => ({
+  getActiveWorkflowsByTriggerType: vi.fn(),
+}))
+
+vi.mock('@/lib/workflows/execution-engine', () => ({
+  WorkflowEngine: vi.fn().mockImplementation(function () {
+    return { executeWorkflow }
+  }),
+}))
+
+import { dispatchWorkflowEvent, type WorkflowEvent } from '@/lib/workflows/event-router'
+import { getActiveWorkflowsByTriggerType } from '@/lib/workflows/workflow-queries'
+import { validateTriggerConfig, getTriggerTypes } from '@/lib/workflows/trigger-registry'
+
+// No recent runs, so the dedup and rate-limit checks always pass
+function createRunHistoryMock() {
+  const query: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'gte', 'limit', 'contains']) {
+    query[method] = vi.fn(() => query)
+  }
+  query.then = (resolve: (value: unknown) => void) => resolve({ data: [], count: 0, error: null })
+  return { from: vi.fn(() => query) }
+}
+
+function workflowWith(id: string, trigger: Omit<WorkflowTrigger, 'id' | 'name'>) {
+  return { id, name: id, triggers: [{ id: `${id}-trigger`, name: 'Trigger', ...trigger }] }
+}
+
+async function dispatch(workflows: ReturnType<typeof workflowWith>[], event: WorkflowEvent) {
+  vi.mocked(getActiveWorkflowsByTriggerType).mockResolvedValue({ data: workflows, error: null } as never)
+  const supabase = createRunHistoryMock()
+  const result = await dispatchWorkflowEvent(supabase as never, 'agency-1', 'user-1', event)
+  return { result, ran: executeWorkflow.mock.calls.map(([workflowId]) => workflowId) }
+}
+
+describe('dispatchWorkflowEvent trigger matching', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    executeWorkflow.mockResolvedValue({ status: 'completed' })
+  })
+
+  it('matches ticket status changes on from and to status', async () => {
+    const { ran } = await dispatch(
+      [
+        workflowWith('any', { type: 'ticket_status_changed', config: {} }),
+        workflowWith('resolved', { type: 'ticket_status_changed', config: { toStatus: 'resolved' } }),
+        workflowWith('reopened', {
+          type: 'ticket_status_changed',
+          config: { fromStatus: 'resolved', toStatus: 'in_progress' },
+        }),
+      ],
+      {
+        type: 'ticket_status_changed',
+        data: { ticketId: 'ticket-1', fromStatus: 'in_progress', toStatus: 'resolved' },
+      }
+    )
+
+    expect(ran).toEqual(['any', 'resolved'])
+  })
+
+  it('filters onboarding submissions by journey', async () => {
+    const { ran } = await dispatch(
+      [
+        workflowWith('journey-a', { type: 'onboarding_submitted', config: { journeyId: 'journey-a' } }),
+        workflowWith('journey-b', { type: 'onboarding_submitted', config: { journeyId: 'journey-b' } }),
+      ],
+      { type: 'onboarding_submitted', data: { instanceId: 'instance-1', journeyId: 'journey-a' } }
+    )
+
+    expect(ran).toEqual(['journey-a'])
+  })
+
+  it('filters alerts by type and severity and never re-triggers the source workflow', async () => {
+    const { ran, result } = await dispatch(
+      [
+        workflowWith('source', { type: 'alert_created', config: {} }),
+        workflowWith('critical-only', { type: 'alert_created', config: { severities: ['critical'] } }),
+        workflowWith('risk-high', {
+          type: 'alert_created',
+          config: { types: ['risk_detected'], severities: ['high', 'critical'] },
+        }),
+        workflowWith('kpi', { type: 'alert_created', config: { types: ['kpi_drop'] } }),
+      ],
+      {
+        type: 'alert_created',
+        data: { alertId: 'alert-1', alertType: 'risk_detected', severity: 'high', sourceWorkflowId: 'source' },
+      }
+    )
+
+    expect(ran).toEqual(['risk-high'])
+    expect(result.dispatched).toBe(1)
+  })
+
+  it('stops alert workflows from triggering each other past one hop', async () => {
+    const workflows = [
+      workflowWith('a', { type: 'alert_created', config: {} }),
+      workflowWith('b', { type: 'alert_created', config: {} }),
+    ]
+
+    const firstHop = await dispatch(workflows, {
+      type: 'alert_created',
+      data: { alertId: 'alert-1', alertType: 'risk_detected', severity: 'high', sourceWorkflowId: 'a', workflowDepth: 1 },
+    })
+    expect(firstHop.ran).toEqual(['b'])
+
+    executeWorkflow.mockClear()
+    const secondHop = await dispatch(workflows, {
+      type: 'alert_created',
+      data: { alertId: 'alert-2', alertType: 'risk_detected', severity: 'high', sourceWorkflowId: 'b', workflowDepth: 2 },
+    })
+
+    expect(secondHop.ran).toEqual([])
+  })
+
+  it('filters integration disconnects by provider', async () => {
+    const { ran } = await dispatch(
+      [
+        workflowWith('slack', { type: 'integration_disconnected', config: { providers: ['slack'] } }),
+        workflowWith('ads', { type: 'integration_disconnected', config: { providers: ['google_ads', 'meta_ads'] } }),
+        workflowWith('any', { type: 'integration_disconnected', config: {} }),
+      ],
+      {
+        type: 'integration_disconnected',
+        data: { integrationId: 'integration-1', provider: 'meta_ads', status: 'error' },
+      }
+    )
+
+    expect(ran).toEqual(['ads', 'any'])
+  })
+})
+
+describe('new trigger types', () => {
+  it('are registered as event triggers', () => {
+    const eventTypes = getTriggerTypes()
+      .filter((t) => t.category === 'event')
+      .map((t) => t.type)
+
+    expect(eventTypes).toEqual(
+      expect.arrayContaining([
+        'ticket_status_changed',
+        'onboarding_submitted',
+        'alert_created',
+        'integration_disconnected',
+      ])
+    )
+  })
+
+  it('rejects a ticket status trigger that never changes status', () => {
+    const { valid, errors } = validateTriggerConfig({
+      id: 't1',
+      type: 'ticket_status_changed',
+      name: 'Status changed',
+      config: { fromStatus: 'resolved', toStatus: 'resolved' },
+    })
+
+    expect(valid).toBe(false)
+    expect(errors).toEqual(['Ticket status trigger requires different from and to statuses'])
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * Workflow Run Retry Tests
+ *
+ * Covers retrying a failed or partially failed run from its first failed action: carried-over
+ * results, the link to the original run, replayed branch decisions, the
+ * recorded resolved config, and runs that cannot be retried.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockSupabase } from '../helpers/mock-supabase'
+import type { ActionResult, WorkflowAction, WorkflowStep } from '@/types/workflow'
+
+vi.mock('@/lib/workflows/workflow-queries', async (importOriginal) => ({
+  isRetryableRunStatus: (await importOriginal<typeof import('@/lib/workflows/workflow-queries')>()).isRetryableRunStatus,
+  getWorkflow: vi.fn(),
+  getWorkflowRun: vi.fn(),
+  createWorkflowRun: vi.fn(),
+  updateWorkflowRun: vi.fn().mockResolvedValue({ data: null, error: null }),
+  completeWorkflowRun: vi.fn().mockResolvedValue({ error: null }),
+}))
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn().mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+  return { default: { lookup }, lookup }
+})
+
+vi.mock('@/lib/workflows/webhooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/workflows/webhooks')>()),
+  getWebhookSecret: vi.fn().mockResolvedValue({ data: 'whsec_test', error: null }),
+}))
+
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import {
+  getWorkflow,
+  getWorkflowRun,
+  createWorkflowRun,
+  completeWorkflowRun,
+} from '@/lib/workflows/workflow-queries'
+
+const hook = (id: string): WorkflowAction => ({
+  id,
+  type: 'call_webhook',
+  name: id,
+  config: { url: `https://hooks.example.com/${id}/{{client.name}}`, maxRetries: 0 },
+} as WorkflowAction)
+
+const completed = (actionId: string, extra: Partial<ActionResult> = {}): ActionResult => ({
+  actionId,
+  actionType: 'call_webhook',
+  status: 'completed',
+  executedAt: '2026-10-13T09:00:00.000Z',
+  ...extra,
+})
+
+const failed = (actionId: string): ActionResult => ({
+  actionId,
+  actionType: 'call_webhook',
+  status: 'failed',
+  error: 'HTTP 503',
+  executedAt: '2026-10-13T09:00:01.000Z',
+})
+
+function setup(actions: WorkflowStep[], executedActions: ActionResult[], run: Record<string, unknown> = {}) {
+  vi.mocked(getWorkflow).mockResolvedValue({
+    data: { id: 'wf-1', agency_id: 'agency-1', is_active: true, triggers: [], actions },
+    error: null,
+  } as never)
+  vi.mocked(getWorkflowRun).mockResolvedValue({
+    data: {
+      id: 'run-1',
+      workflow_id: 'wf-1',
+      status: 'failed',
+      trigger_data: { reason: 'renewal' },
+      client_id: 'client-1',
+      executed_actions: executedActions,
+      ...run,
+    },
+    error: null,
+  } as never)
+
+  const called: string[] = []
+  vi.mocked(fetch).mockImplementation(async (input) => {
+    called.push(String(input))
+    return new Response('{}', { status: 200 })
+  })
+
+  const supabase = createMockSupabase({
+    client: { data: { id: 'client-1', name: 'Acme', stage: 'Live', health_status: 'green' }, error: null },
+  })
+  const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+  return { engine, called }
+}
+
+describe('WorkflowEngine.retryWorkflowRun', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(createWorkflowRun).mockResolvedValue({
+      data: { id: 'run-2', started_at: '2026-10-13T10:00:00.000Z' },
+      error: null,
+    } as never)
+  })
+
+  it('re-executes from the first failed action in a run linked to the original', async () => {
+    const { engine, called } = setup(
+      [hook('first'), hook('second'), hook('third')],
+      [completed('first', { result: { status: 200 } }), failed('second')]
+    )
+
+    const result = await engine.retryWorkflowRun('run-1')
+
+    expect(createWorkflowRun).toHaveBeenCalledWith(expect.anything(), 'agency-1', {
+      workflowId: 'wf-1',
+      triggerData: { reason: 'renewal' },
+      clientId: 'client-1',
+      retryOfRunId: 'run-1',
+    })
+    expect(called).toEqual(['https://hooks.example.com/second/Acme', 'https://hooks.example.com/third/Acme'])
+    expect(result).toMatchObject({ runId: 'run-2', status: 'completed', retryOfRunId: 'run-1' })
+    expect(result.actionResults.map((r) => [r.actionId, r.status, r.carriedOver ?? false])).toEqual([
+      ['first', 'completed', true],
+      ['second', 'completed', false],
+      ['third', 'completed', false],
+    ])
+    expect(completeWorkflowRun).toHaveBeenCalledWith(
+      expect.anything(), 'run-2', 'agency-1', 'wf-1', true, result.actionResults, undefined
+    )
+  })
+
+  it('retries a partially failed run without re-running completed actions', async () => {
+    const { engine, called } = setup(
+      [hook('first'), { ...hook('second'), continueOnFailure: true }, hook('third'), hook('fourth')],
+      [completed('first'), failed('second'), completed('third'), failed('fourth')],
+      { status: 'partial_failure' }
+    )
+
+    const result = await engine.retryWorkflowRun('run-1')
+
+    expect(called).toEqual(['https://hooks.example.com/second/Acme', 'https://hooks.example.com/fourth/Acme'])
+    expect(result).toMatchObject({ runId: 'run-2', status: 'completed', retryOfRunId: 'run-1' })
+    expect(result.actionResults.map((r) => [r.actionId, r.status, r.carriedOver ?? false])).toEqual([
+      ['first', 'completed', true],
+      ['second', 'completed', false],
+      ['third', 'completed', true],
+      ['fourth', 'completed', false],
+    ])
+  })
+
+  it('records the resolved config of each executed action', async () => {
+    const { engine } = setup([hook('only')], [failed('only')])
+
+    const result = await engine.retryWorkflowRun('run-1')
+
+    expect(result.actionResults[0].resolvedConfig).toMatchObject({
+      url: 'https://hooks.example.com/only/Acme',
+    })
+  })
+
+  it('replays the branch path the original run took', async () => {
+    const { engine, called } = setup(
+      [
+        {
+          id: 'stage-check',
+          type: 'branch',
+          name: 'Stage check',
+          branches: [
+            {
+              id: 'onboarding',
+              name: 'Onboarding',
+              // No longer true for the client, so re-evaluating would take the else path
+              condition: { logic: 'and', conditions: [{ field: 'client.stage', operator: 'equals', value: 'Onboarding' }] },
+              actions: [hook('welcome')],
+            },
+          ],
+          elseActions: [hook('check-in')],
+        },
+      ],
+      [
+        completed('stage-check', { actionType: 'branch', result: { branchId: 'onboarding', branchName: 'Onboarding' } }),
+        failed('welcome'),
+      ]
+    )
+
+    const result = await engine.retryWorkflowRun('run-1')
+
+    expect(called).toEqual(['https://hooks.example.com/welcome/Acme'])
+    expect(result.status).toBe('completed')
+  })
+
+  it('rejects runs that cannot be retried', async () => {
+    const { engine } = setup([hook('first')], [completed('first')], { status: 'completed' })
+    await expect(engine.retryWorkflowRun('run-1')).rejects.toThrow('Only failed or partially failed runs can be retried')
+
+    setup([hook('first')], [], { error_message: 'Client not found or query failed' })
+    await expect(engine.retryWorkflowRun('run-1')).rejects.toThrow('Run has no failed action to retry')
+
+    setup([hook('first')], [failed('deleted-step')])
+    await expect(engine.retryWorkflowRun('run-1')).rejects.toThrow('Failed action was removed from the workflow')
+
+    expect(createWorkflowRun).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Workflow Engine — Dry Run Tests
+ *
+ * Verifies that simulating a workflow evaluates conditions, branches and
+ * variables against a real client snapshot without writing anything.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockSupabase } from '../helpers/mock-supabase'
+import type { WorkflowStep } from '@/types/workflow'
+
+vi.mock('@/lib/workflows/workflow-queries', () => ({
+  getWorkflow: vi.fn(),
+  getWorkflowRun: vi.fn(),
+  createWorkflowRun: vi.fn(),
+  updateWorkflowRun: vi.fn(),
+  completeWorkflowRun: vi.fn(),
+}))
+
+vi.mock('@/lib/workflows/scheduled-steps', () => ({
+  enqueueScheduledStep: vi.fn(),
+}))
+
+vi.mock('@/lib/workflows/approvals', () => ({
+  createWorkflowApproval: vi.fn(),
+}))
+
+vi.mock('@/lib/integrations/slack-channel-service', () => ({
+  createSlackChannelForClient: vi.fn(),
+}))
+
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import {
+  getWorkflow,
+  createWorkflowRun,
+  updateWorkflowRun,
+  completeWorkflowRun,
+} from '@/lib/workflows/workflow-queries'
+import { enqueueScheduledStep } from '@/lib/workflows/scheduled-steps'
+import { createWorkflowApproval } from '@/lib/workflows/approvals'
+
+const clientRow = {
+  id: 'client-1',
+  name: 'Acme Co',
+  stage: 'Live',
+  health_status: 'red',
+  contact_email: 'ops@acme.test',
+  contact_name: 'Dana',
+  notes: null,
+  days_in_stage: 12,
+  tags: ['vip'],
+  total_spend: 5000,
+}
+
+const steps: WorkflowStep[] = [
+  {
+    id: 'task-1',
+    type: 'create_task',
+    name: 'Follow up',
+    delayMinutes: 60,
+    config: { title: 'Call {{client.name}} about {{trigger.reason}}', priority: 'high' },
+  },
+  {
+    id: 'alert-1',
+    type: 'create_alert',
+    name: 'Only for green clients',
+    condition: { field: 'client.healthStatus', operator: 'equals', value: 'green' },
+    config: { title: 'All good', type: 'risk_detected', severity: 'low' },
+  },
+  {
+    id: 'branch-1',
+    type: 'branch',
+    name: 'By health',
+    branches: [
+      {
+        id: 'red',
+        name: 'Red',
+        condition: { logic: 'and', conditions: [{ field: 'client.healthStatus', operator: 'equals', value: 'red' }] },
+        actions: [
+          {
+            id: 'email-1',
+            type: 'draft_communication',
+            name: 'Check-in email',
+            requiresApproval: true,
+            config: { platform: 'gmail', template: 'Hi {{client.contactName}}', tone: 'friendly' },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'slack-1',
+    type: 'create_slack_channel',
+    name: 'War room',
+    config: { channelName: 'acme-{{trigger.reason}}' },
+  },
+]
+
+describe('WorkflowEngine dry run', () => {
+  let supabase: ReturnType<typeof createMockSupabase>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    supabase = createMockSupabase({ client: { data: clientRow, error: null } })
+    vi.mocked(getWorkflow).mockResolvedValue({
+      data: { id: 'wf-1', agency_id: 'agency-1', is_active: false, triggers: [], actions: steps },
+      error: null,
+    } as never)
+  })
+
+  const simulate = () => {
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    return engine.executeWorkflow('wf-1', { reason: 'churn-risk' }, 'client-1', { dryRun: true })
+  }
+
+  it('reports each action with its resolved config and outcome', async () => {
+    const result = await simulate()
+
+    expect(result.dryRun).toBe(true)
+    expect(result.status).toBe('completed')
+    expect(result.actionResults.map((r) => [r.actionId, r.status])).toEqual([
+      ['task-1', 'completed'],
+      ['alert-1', 'skipped'],
+      ['branch-1', 'completed'],
+      ['email-1', 'pending_approval'],
+      ['slack-1', 'completed'],
+    ])
+    expect(result.actionResults[0].result).toMatchObject({
+      dryRun: true,
+      delayMinutes: 60,
+      resolvedConfig: { title: 'Call Acme Co about churn-risk', priority: 'high' },
+    })
+    expect(result.actionResults[3].result?.resolvedConfig).toMatchObject({ template: 'Hi Dana' })
+    expect(result.actionResults[4].result?.resolvedConfig).toEqual({ channelName: 'acme-churn-risk' })
+  })
+
+  it('never records a run or writes records', async () => {
+    await simulate()
+
+    expect(createWorkflowRun).not.toHaveBeenCalled()
+    expect(updateWorkflowRun).not.toHaveBeenCalled()
+    expect(completeWorkflowRun).not.toHaveBeenCalled()
+    expect(enqueueScheduledStep).not.toHaveBeenCalled()
+    expect(createWorkflowApproval).not.toHaveBeenCalled()
+    expect(supabase.from.mock.calls.map(([table]) => table)).toEqual(['client'])
+  })
+
+  it('fails without writing when the client cannot be loaded', async () => {
+    supabase = createMockSupabase({ client: { data: null, error: { message: 'not found' } } })
+
+    const result = await simulate()
+
+    expect(result.status).toBe('failed')
+    expect(result.error).toBe('Client not found or query failed')
+    expect(completeWorkflowRun).not.toHaveBeenCalled()
+  })
+
+  it('still refuses to run a disabled workflow for real', async () => {
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    await expect(engine.executeWorkflow('wf-1', {}, 'client-1')).rejects.toThrow('Workflow is disabled')
+  })
+})
@@ -0,0 +1,329 @@
+/**
+ * Workflow Webhooks Tests
+ *
+ * Runs the call_webhook action and its delivery loop against an in-process
+ * HTTP receiver: request signing, retries with backoff, stored responses and
+ * URL safety checks, including the addresses a host resolves to.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createHmac } from 'crypto'
+import { lookup } from 'dns/promises'
+import { createMockSupabase } from '../helpers/mock-supabase'
+import type { WorkflowAction } from '@/types/workflow'
+
+vi.mock('@/lib/workflows/workflow-queries', () => ({
+  getWorkflow: vi.fn(),
+  getWorkflowRun: vi.fn(),
+  createWorkflowRun: vi.fn(),
+  updateWorkflowRun: vi.fn().mockResolvedValue({ data: null, error: null }),
+  completeWorkflowRun: vi.fn().mockResolvedValue({ error: null }),
+}))
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn().mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+  return { default: { lookup }, lookup }
+})
+
+vi.mock('@/lib/workflows/webhooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/workflows/webhooks')>()),
+  getWebhookSecret: vi.fn(),
+}))
+
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import { getWorkflow, createWorkflowRun } from '@/lib/workflows/workflow-queries'
+import {
+  deliverWebhook,
+  getWebhookSecret,
+  validateWebhookTarget,
+  validateWebhookUrl,
+} from '@/lib/workflows/webhooks'
+import { validateActionConfig } from '@/lib/workflows/action-registry'
+
+const SECRET = 'whsec_test'
+
+interface ReceivedRequest {
+  url: string
+  method: string
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Stand-in for a receiving server: records each request and answers with the
+ * next queued reply (the last one repeats). A reply of 'network-error' fails
+ * the connection instead.
+ */
+function createReceiver(replies: Array<{ status: number; body?: unknown; headers?: Record<string, string> } | 'network-error'>) {
+  const received: ReceivedRequest[] = []
+
+  vi.mocked(fetch).mockImplementation(async (input, init) => {
+    received.push({
+      url: String(input),
+      method: init?.method || 'GET',
+      headers: Object.fromEntries(new Headers(init?.headers).entries()),
+      body: typeof init?.body === 'string' ? init.body : '',
+    })
+
+    const reply = replies[Math.min(received.length - 1, replies.length - 1)]
+    if (reply === 'network-error') throw new TypeError('fetch failed')
+
+    const body = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body ?? {})
+    return new Response(body, { status: reply.status, headers: reply.headers })
+  })
+
+  return received
+}
+
+const expectedSignature = (request: ReceivedRequest) =>
+  'sha256=' +
+  createHmac('sha256', SECRET)
+    .update(`${request.headers['x-webhook-timestamp']}.${request.body}`)
+    .digest('hex')
+
+describe('deliverWebhook', () => {
+  const send = (options: Parameters<typeof deliverWebhook>[1] = {}) =>
+    deliverWebhook(
+      {
+        url: 'https://billing.example.com/hooks/workflow',
+        method: 'POST',
+        headers: { 'X-Source': 'workflows' },
+        body: JSON.stringify({ event: 'test' }),
+        secret: SECRET,
+      },
+      { baseDelayMs: 1, ...options }
+    )
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('signs the timestamp and body with the agency secret', async () => {
+    const received = createReceiver([{ status: 200, body: { received: true } }])
+
+    const delivery = await send()
+
+    expect(delivery).toMatchObject({ ok: true, status: 200, attempts: 1, response: { received: true } })
+    const [request] = received
+    expect(request.method).toBe('POST')
+    expect(request.headers['content-type']).toBe('application/json')
+    expect(request.headers['x-source']).toBe('workflows')
+    expect(request.headers['x-webhook-delivery']).toBe(delivery.deliveryId)
+    expect(request.headers['x-webhook-signature']).toBe(expectedSignature(request))
+  })
+
+  it('retries 5xx, 429 and network errors with the same delivery ID', async () => {
+    const received = createReceiver([
+      { status: 503 },
+      'network-error',
+      { status: 429 },
+      { status: 202, body: 'queued' },
+    ])
+
+    const delivery = await send()
+
+    expect(delivery).toMatchObject({ ok: true, status: 202, attempts: 4, response: 'queued' })
+    expect(new Set(received.map((r) => r.headers['x-webhook-delivery']))).toEqual(new Set([delivery.deliveryId]))
+    received.forEach((request) => {
+      expect(request.headers['x-webhook-signature']).toBe(expectedSignature(request))
+    })
+  })
+
+  it('gives up after the configured retries', async () => {
+    const received = createReceiver([{ status: 500, body: { error: 'down' } }])
+
+    const delivery = await send({ maxRetries: 2 })
+
+    expect(received).toHaveLength(3)
+    expect(delivery).toMatchObject({ ok: false, status: 500, attempts: 3, error: 'HTTP 500', response: { error: 'down' } })
+  })
+
+  it('does not retry other client errors', async () => {
+    const received = createReceiver([{ status: 400, body: { error: 'bad payload' } }])
+
+    const delivery = await send()
+
+    expect(received).toHaveLength(1)
+    expect(delivery).toMatchObject({ ok: false, status: 400, attempts: 1, error: 'HTTP 400' })
+  })
+
+  it('does not follow redirects', async () => {
+    const received = createReceiver([{ status: 302, headers: { Location: 'http://169.254.169.254/latest' } }])
+
+    const delivery = await send()
+
+    expect(received).toHaveLength(1)
+    expect(vi.mocked(fetch).mock.calls[0][1]).toMatchObject({ redirect: 'manual' })
+    expect(delivery).toMatchObject({ ok: false, status: 302, attempts: 1, error: 'HTTP 302: redirects are not followed' })
+  })
+
+  it('stops retrying when the delivery budget runs out', async () => {
+    const received = createReceiver([{ status: 503 }])
+
+    const delivery = await send({ maxRetries: 5, baseDelayMs: 100, budgetMs: 250 })
+
+    // Backoff 100ms then 200ms: the third attempt would start past the budget
+    expect(received).toHaveLength(2)
+    expect(delivery).toMatchObject({ ok: false, attempts: 2, error: 'HTTP 503' })
+  })
+
+  it('does not call a host that resolves to a private address', async () => {
+    const received = createReceiver([{ status: 200 }])
+    vi.mocked(lookup).mockResolvedValueOnce([{ address: '10.0.0.8', family: 4 }] as never)
+
+    const delivery = await send()
+
+    expect(received).toHaveLength(0)
+    expect(delivery).toMatchObject({
+      ok: false,
+      attempts: 0,
+      error: 'Webhook host "billing.example.com" resolves to an address that is not allowed',
+    })
+  })
+})
+
+describe('validateWebhookUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('only allows http and https', () => {
+    expect(validateWebhookUrl('https://hooks.zapier.com/hooks/catch/1/abc')).toBeNull()
+    expect(validateWebhookUrl('ftp://example.com/file')).toBe('Webhook URL must use http or https')
+    expect(validateWebhookUrl('not a url')).toBe('Invalid webhook URL "not a url"')
+  })
+
+  it('blocks private and metadata hosts in every environment', () => {
+    expect(validateWebhookUrl('http://localhost:4000/hook')).toBe('Webhook host "localhost" is not allowed')
+    expect(validateWebhookUrl('http://169.254.169.254/latest')).toBe('Webhook host "169.254.169.254" is not allowed')
+    expect(validateWebhookUrl('http://10.0.0.5/hook')).toBe('Webhook host "10.0.0.5" is not allowed')
+    expect(validateWebhookUrl('http://100.64.0.1/hook')).toBe('Webhook host "100.64.0.1" is not allowed')
+    expect(validateWebhookUrl('http://[fd00::1]/hook')).toBe('Webhook host "[fd00::1]" is not allowed')
+    expect(validateWebhookUrl('http://[::ffff:a9fe:a9fe]/hook')).toBe('Webhook host "[::ffff:a9fe:a9fe]" is not allowed')
+    expect(validateWebhookUrl('https://hooks.example.com/hook')).toBeNull()
+  })
+
+  it('allows hosts listed in WORKFLOW_WEBHOOK_ALLOWED_HOSTS', () => {
+    vi.stubEnv('WORKFLOW_WEBHOOK_ALLOWED_HOSTS', 'localhost, 10.0.0.5')
+
+    expect(validateWebhookUrl('http://localhost:4000/hook')).toBeNull()
+    expect(validateWebhookUrl('http://10.0.0.5/hook')).toBeNull()
+    expect(validateWebhookUrl('http://10.0.0.6/hook')).toBe('Webhook host "10.0.0.6" is not allowed')
+  })
+})
+
+describe('validateWebhookTarget', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('checks every address the host resolves to', async () => {
+    expect(await validateWebhookTarget('https://hooks.example.com/hook')).toBeNull()
+
+    for (const address of ['169.254.169.254', '100.64.12.1', '::ffff:10.0.0.1', 'fd12:3456::1']) {
+      vi.mocked(lookup).mockResolvedValueOnce([
+        { address: '93.184.216.34', family: 4 },
+        { address, family: address.includes(':') ? 6 : 4 },
+      ] as never)
+      expect(await validateWebhookTarget('https://hooks.example.com/hook')).toBe(
+        'Webhook host "hooks.example.com" resolves to an address that is not allowed'
+      )
+    }
+  })
+
+  it('rejects hosts that do not resolve unless allow-listed', async () => {
+    vi.mocked(lookup).mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+    expect(await validateWebhookTarget('https://missing.example.com/hook')).toBe(
+      'Could not resolve webhook host "missing.example.com"'
+    )
+
+    vi.stubEnv('WORKFLOW_WEBHOOK_ALLOWED_HOSTS', 'receiver.internal')
+    expect(await validateWebhookTarget('http://receiver.internal/hook')).toBeNull()
+  })
+})
+
+describe('call_webhook action', () => {
+  const webhook = (config: Record<string, unknown>): WorkflowAction => ({
+    id: 'hook-1',
+    type: 'call_webhook',
+    name: 'Notify billing',
+    config: { url: 'https://billing.example.com/clients/{{client.name}}', maxRetries: 0, ...config },
+  } as WorkflowAction)
+
+  const run = async (action: WorkflowAction) => {
+    vi.mocked(getWorkflow).mockResolvedValue({
+      data: { id: 'wf-1', agency_id: 'agency-1', is_active: true, triggers: [], actions: [action] },
+      error: null,
+    } as never)
+    const supabase = createMockSupabase({
+      client: { data: { id: 'client-1', name: 'Acme', stage: 'Live', health_status: 'green' }, error: null },
+    })
+    const engine = new WorkflowEngine(supabase as never, 'agency-1', 'user-1')
+    return engine.executeWorkflow('wf-1', { reason: 'renewal' }, 'client-1')
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(createWorkflowRun).mockResolvedValue({
+      data: { id: 'run-1', started_at: '2026-10-12T09:00:00.000Z' },
+      error: null,
+    } as never)
+    vi.mocked(getWebhookSecret).mockResolvedValue({ data: SECRET, error: null })
+  })
+
+  it('sends the templated body and stores the response on the result', async () => {
+    const received = createReceiver([{ status: 201, body: { invoiceId: 'inv_1' } }])
+
+    const result = await run(
+      webhook({
+        method: 'PUT',
+        headers: { 'X-Reason': '{{trigger.reason}}' },
+        body: { client: '{{client.name}}', tags: ['{{trigger.reason}}'] },
+      })
+    )
+
+    expect(result.status).toBe('completed')
+    expect(received[0]).toMatchObject({
+      url: 'https://billing.example.com/clients/Acme',
+      method: 'PUT',
+      body: JSON.stringify({ client: 'Acme', tags: ['renewal'] }),
+    })
+    expect(received[0].headers['x-reason']).toBe('renewal')
+    expect(received[0].headers['x-webhook-signature']).toBe(expectedSignature(received[0]))
+    expect(result.actionResults[0].result).toMatchObject({
+      status: 201,
+      attempts: 1,
+      response: { invoiceId: 'inv_1' },
+    })
+  })
+
+  it('sends the trigger and client by default and fails the action on error', async () => {
+    const received = createReceiver([{ status: 404 }])
+
+    const result = await run(webhook({}))
+
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      event: 'workflow.action',
+      workflowId: 'wf-1',
+      runId: 'run-1',
+      trigger: { reason: 'renewal' },
+      client: { id: 'client-1', name: 'Acme' },
+    })
+    expect(result.status).toBe('failed')
+    expect(result.actionResults[0].error).toBe(
+      'Webhook POST https://billing.example.com/clients/Acme failed after 1 attempt(s): HTTP 404'
+    )
+  })
+
+  it('validates the action config', () => {
+    expect(validateActionConfig(webhook({})).valid).toBe(true)
+    expect(validateActionConfig(webhook({ url: '{{trigger.callbackUrl}}' })).valid).toBe(true)
+    expect(
+      validateActionConfig(webhook({ url: 'mailto:ops@example.com', method: 'TRACE', maxRetries: 9, body: [] })).errors
+    ).toEqual([
+      'Webhook URL must start with http:// or https://',
+      'Webhook method must be one of: POST, PUT, PATCH, GET, DELETE',
+      'Webhook body must be a JSON object',
+      'Webhook retries must be between 0 and 5',
+    ])
+  })
+})
@@ -0,0 +1,497 @@
+/**
+ * Memory Backend Contract Tests
+ *
+ * Runs the same add/search/list/update/delete/history suite through
+ * Mem0Service against both backends:
+ * - mem0: the diiiploy-gateway client, with fetch answering as the gateway
+ * - postgres: createPostgresMem0Client over an in-memory Supabase fake
+ *
+ * Followed by behaviour specific to the Postgres backend (expiry, embeddings).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  Mem0Service,
+  createMem0Service,
+  initializeMem0Service,
+  resetMem0Service,
+} from '@/lib/memory/mem0-service';
+import { createPostgresMem0Client, parseMemoryFilters } from '@/lib/memory/postgres-memory-client';
+
+type Row = Record<string, any>;
+
+// Share of the query's words found in the content, as a 0-1 score
+function wordOverlap(query: string, content: string): number {
+  const words = query.toLowerCase().split(/\W+/).filter(Boolean);
+  const text = content.toLowerCase();
+  return words.length ? words.filter((w) => text.includes(w)).length / words.length : 0;
+}
+
+function metadataMatches(metadata: Row | undefined, expected: Row | undefined): boolean {
+  return Object.entries(expected || {}).every(([key, value]) => metadata?.[key] === value);
+}
+
+// ── mem0 gateway fake ────────────────────────────────────────────────────────
+
+function createGatewayFetch() {
+  const memories: Row[] = [];
+  const history: Row[] = [];
+  let counter = 0;
+
+  const find = (memoryId: string) => {
+    const memory = memories.find((m) => m.id === memoryId);
+    if (!memory) throw new Error(`Memory ${memoryId} not found`);
+    return memory;
+  };
+  const inScope = (m: Row, args: Row) =>
+    (!args.userId || m.user_id === args.userId) &&
+    (!args.appId || m.app_id === args.appId) &&
+    (!args.runId || m.run_id === args.runId);
+
+  const tools: Record<string, (args: Row) => unknown> = {
+    mem0_add: (args) => {
+      const memory = {
+        id: `mem-${++counter}`,
+        memory: args.content,
+        user_id: args.userId,
+        app_id: args.appId,
+        run_id: args.runId,
+        metadata: args.metadata || {},
+        created_at: new Date(Date.UTC(2026, 9, 1, 0, 0, counter)).toISOString(),
+      };
+      memories.push(memory);
+      history.push({ id: `h-${counter}-add`, memory_id: memory.id, new_memory: memory.memory, event: 'ADD' });
+      return [{ id: memory.id, status: 'ok' }];
+    },
+    mem0_search: (args) => {
+      const conditions: Row[] = args.filters?.AND || [];
+      const results = memories
+        .filter((m) => inScope(m, args))
+        .filter((m) =>
+          conditions.every(
+            (c) =>
+              (!c.app_id || m.app_id === c.app_id) &&
+              (!c.user_id || m.user_id === c.user_id) &&
+              metadataMatches(m.metadata, c.metadata)
+          )
+        )
+        .map((m) => ({ ...m, score: wordOverlap(args.query, m.memory) }))
+        .filter((m) => m.score > 0)
+        .sort((a, b) => b.score - a.score);
+      return { results };
+    },
+    mem0_get: (args) => find(args.memoryId),
+    mem0_list: (args) => {
+      const conditions: Row[] = args.filters?.AND || [];
+      const scoped = memories
+        .filter((m) => inScope(m, args))
+        .filter((m) => conditions.every((c) => metadataMatches(m.metadata, c.metadata)))
+        .reverse();
+      const start = ((args.page || 1) - 1) * (args.pageSize || 50);
+      return { results: scoped.slice(start, start + (args.pageSize || 50)), count: scoped.length };
+    },
+    mem0_update: (args) => {
+      const memory = find(args.memoryId);
+      if (args.content !== undefined) {
+        history.push({ id: `h-${++counter}`, memory_id: memory.id, old_memory: memory.memory, new_memory: args.content, event: 'UPDATE' });
+        memory.memory = args.content;
+      }
+      if (args.metadata) memory.metadata = args.metadata;
+      return { id: memory.id, memory: memory.memory };
+    },
+    mem0_delete: (args) => {
+      const memory = find(args.memoryId);
+      memories.splice(memories.indexOf(memory), 1);
+      history.push({ id: `h-${++counter}`, memory_id: memory.id, old_memory: memory.memory, event: 'DELETE' });
+      return { success: true, deleted: memory.id };
+    },
+    mem0_delete_all: (args) => {
+      for (const memory of memories.filter((m) => inScope(m, args))) {
+        memories.splice(memories.indexOf(memory), 1);
+      }
+      return { success: true };
+    },
+    mem0_history: (args) => history.filter((h) => h.memory_id === args.memoryId),
+  };
+
+  return async (_url: string, init: { body: string }) => {
+    const { params } = JSON.parse(init.body);
+    let result;
+    try {
+      result = { content: [{ type: 'text', text: JSON.stringify(tools[params.name](params.arguments)) }] };
+    } catch (error) {
+      result = { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+    }
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result }), { status: 200 });
+  };
+}
+
+// ── Supabase fake ────────────────────────────────────────────────────────────
+
+function cosine(a: number[], b: number[]): number {
+  const dot = a.reduce((sum, x, i) => sum + x * b[i], 0);
+  return dot / (Math.hypot(...a) * Math.hypot(...b));
+}
+
+// Supports the queries the Postgres client makes, with the RPCs in JS
+function createFakeSupabase() {
+  const tables: Record<string, Row[]> = { memory: [], memory_history: [] };
+  let clock = Date.UTC(2026, 9, 1);
+  const timestamp = () => new Date((clock += 1000)).toISOString();
+  const today = new Date().toISOString().split('T')[0];
+  const isLive = (row: Row) => row.expires_on === null || row.expires_on > today;
+
+  const defaults = (table: string): Row => table === 'memory'
+    ? { metadata: {}, categories: [], embedding: null, expires_on: null, agent_id: null, run_id: null }
+    : {};
+
+  function from(table: string) {
+    let op = 'select';
+    let payload: any;
+    let count = false;
+    let order: { column: string; ascending: boolean } | null = null;
+    let range: [number, number] | null = null;
+    const filters: Array<(row: Row) => boolean> = [];
+
+    function execute() {
+      const rows = tables[table];
+      if (op === 'insert') {
+        const inserted = [payload].flat().map((row: Row) => {
+          const created = timestamp();
+          return { id: crypto.randomUUID(), ...defaults(table), created_at: created, updated_at: created, ...row };
+        });
+        rows.push(...inserted);
+        return { data: inserted, error: null };
+      }
+
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (op === 'update') {
+        matched.forEach((row) => Object.assign(row, payload));
+        return { data: matched, error: null };
+      }
+      if (op === 'delete') {
+        tables[table] = rows.filter((row) => !matched.includes(row));
+        return { data: matched, error: null };
+      }
+
+      if (order) {
+        const { column, ascending } = order;
+        matched.sort((a, b) => (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1));
+      }
+      // Copies, like rows read over the wire
+      const data = (range ? matched.slice(range[0], range[1] + 1) : matched).map((row) => ({ ...row }));
+      return { data, error: null, count: count ? matched.length : null };
+    }
+
+    const builder: any = {
+      select: (_columns?: string, options?: { count?: string }) => {
+        count = options?.count === 'exact';
+        return builder;
+      },
+      insert: (rows: unknown) => ((op = 'insert'), (payload = rows), builder),
+      update: (values: unknown) => ((op = 'update'), (payload = values), builder),
+      delete: () => ((op = 'delete'), builder),
+      eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), builder),
+      contains: (column: string, value: Row) => (filters.push((row) => metadataMatches(row[column], value)), builder),
+      // Only the "col.is.null,col.gt.value" form the client uses
+      or: (expression: string) => {
+        const conditions = expression.split(',').map((part) => {
+          const [column, operator, ...rest] = part.split('.');
+          const value = rest.join('.');
+          return (row: Row) => (operator === 'is' ? row[column] === null : row[column] !== null && row[column] > value);
+        });
+        filters.push((row) => conditions.some((c) => c(row)));
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => ((order = { column, ...options }), builder),
+      range: (start: number, end: number) => ((range = [start, end]), builder),
+      single: async () => {
+        const { data, error } = execute();
+        return { data: data[0] ?? null, error };
+      },
+      maybeSingle: async () => {
+        const { data, error } = execute();
+        return { data: data[0] ?? null, error };
+      },
+      then: (resolve: (value: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(execute()).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  async function rpc(name: string, args: Row = {}) {
+    const live = tables.memory.filter(isLive);
+    if (name === 'memory_entities') {
+      const users = [...new Set(live.map((m) => m.user_id))];
+      return { data: users.map((id) => ({ type: 'user', id, count: live.filter((m) => m.user_id === id).length })), error: null };
+    }
+
+    const data = live
+      .filter((m) =>
+        (!args.p_app_id || m.app_id === args.p_app_id) &&
+        (!args.p_user_id || m.user_id === args.p_user_id) &&
+        (!args.p_run_id || m.run_id === args.p_run_id) &&
+        metadataMatches(m.metadata, args.p_metadata)
+      )
+      .map((m) => {
+        const lexical = wordOverlap(args.p_query, m.content);
+        const similarity = args.p_query_embedding && m.embedding ? cosine(m.embedding, args.p_query_embedding) : null;
+        return { ...m, lexical, similarity, score: similarity === null ? lexical : 0.3 * lexical + 0.7 * similarity };
+      })
+      .filter((m) => m.lexical > 0 || m.similarity !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, args.p_limit);
+    return { data, error: null };
+  }
+
+  return { supabase: { from, rpc } as any, tables };
+}
+
+// ── Shared contract ──────────────────────────────────────────────────────────
+
+const backends: Array<[string, () => Mem0Service]> = [
+  ['mem0', () => {
+    vi.stubGlobal('fetch', createGatewayFetch());
+    return initializeMem0Service();
+  }],
+  ['postgres', () => createMem0Service(createPostgresMem0Client(createFakeSupabase().supabase))],
+];
+
+describe.each(backends)('Memory backend contract: %s', (_name, createService) => {
+  let mem0: Mem0Service;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    resetMem0Service();
+    mem0 = createService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    resetMem0Service();
+  });
+
+  it('adds memories and lists them newest first with their metadata', async () => {
+    await mem0.addMemory({ content: 'Prefers weekly reports', agencyId: 'agency-1', userId: 'user-1', type: 'preference', importance: 'high' });
+    await mem0.addMemory({ content: 'Launch moved to March', agencyId: 'agency-1', userId: 'user-1', clientId: 'client-1', type: 'decision' });
+
+    const list = await mem0.listMemories('agency-1', 'user-1');
+
+    expect(list.total).toBe(2);
+    expect(list.memories.map((m) => m.content)).toEqual(['Launch moved to March', 'Prefers weekly reports']);
+    expect(list.memories[0].metadata).toMatchObject({ type: 'decision', clientId: 'client-1' });
+    expect(list.memories[1].metadata).toMatchObject({ type: 'preference', importance: 'high' });
+  });
+
+  it('filters the list in the backend, so the total counts matching memories', async () => {
+    for (let i = 1; i <= 3; i++) {
+      await mem0.addMemory({ content: `Acme decision ${i}`, agencyId: 'agency-1', userId: 'user-1', clientId: 'acme', type: 'decision', importance: 'high' });
+    }
+    await mem0.addMemory({ content: 'Acme task', agencyId: 'agency-1', userId: 'user-1', clientId: 'acme', type: 'task', importance: 'high' });
+    await mem0.addMemory({ content: 'Globex decision', agencyId: 'agency-1', userId: 'user-1', clientId: 'globex', type: 'decision', importance: 'high' });
+
+    const firstPage = await mem0.listMemories('agency-1', 'user-1', 1, 2, { types: ['decision'], clientId: 'acme', importance: 'high' });
+    const secondPage = await mem0.listMemories('agency-1', 'user-1', 2, 2, { types: ['decision'], clientId: 'acme', importance: 'high' });
+
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.memories.map((m) => m.content)).toEqual(['Acme decision 3', 'Acme decision 2']);
+    expect(secondPage.memories.map((m) => m.content)).toEqual(['Acme decision 1']);
+  });
+
+  it('keeps agencies and users apart', async () => {
+    await mem0.addMemory({ content: 'Agency one secret', agencyId: 'agency-1', userId: 'user-1', type: 'insight' });
+    await mem0.addMemory({ content: 'Agency two secret', agencyId: 'agency-2', userId: 'user-1', type: 'insight' });
+    await mem0.addMemory({ content: 'Colleague secret', agencyId: 'agency-1', userId: 'user-2', type: 'insight' });
+
+    const list = await mem0.listMemories('agency-1', 'user-1');
+    const search = await mem0.searchMemories({ query: 'secret', agencyId: 'agency-1', userId: 'user-1' });
+
+    expect(list.memories.map((m) => m.content)).toEqual(['Agency one secret']);
+    expect(search.memories.map((m) => m.content)).toEqual(['Agency one secret']);
+  });
+
+  it('searches by query, best match first, with client filtering', async () => {
+    await mem0.addMemory({ content: 'Budget approved for Q3 ads', agencyId: 'agency-1', userId: 'user-1', clientId: 'client-1', type: 'decision' });
+    await mem0.addMemory({ content: 'Q3 ads budget paused', agencyId: 'agency-1', userId: 'user-1', clientId: 'client-2', type: 'decision' });
+    await mem0.addMemory({ content: 'Prefers email updates', agencyId: 'agency-1', userId: 'user-1', type: 'preference' });
+
+    const all = await mem0.searchMemories({ query: 'ads budget approved', agencyId: 'agency-1', userId: 'user-1' });
+    const client = await mem0.searchMemories({ query: 'ads budget', agencyId: 'agency-1', userId: 'user-1', clientId: 'client-2' });
+
+    expect(all.memories.map((m) => m.content)).toEqual(['Budget approved for Q3 ads', 'Q3 ads budget paused']);
+    expect(all.memories[0].score).toBeGreaterThan(all.memories[1].score!);
+    expect(client.memories.map((m) => m.content)).toEqual(['Q3 ads budget paused']);
+  });
+
+  it('gets a memory by id, or null when it does not exist', async () => {
+    const added = await mem0.addMemory({ content: 'Kickoff on Monday', agencyId: 'agency-1', userId: 'user-1', type: 'task' });
+
+    expect(await mem0.getMemory(added.id)).toMatchObject({ id: added.id, content: 'Kickoff on Monday' });
+    expect(await mem0.getMemory('missing')).toBeNull();
+  });
+
+  it('updates content and records created and updated history', async () => {
+    const added = await mem0.addMemory({ content: 'Prefers Slack', agencyId: 'agency-1', userId: 'user-1', type: 'preference' });
+
+    const updated = await mem0.updateMemory(added.id, 'Prefers email');
+    const list = await mem0.listMemories('agency-1', 'user-1');
+    const history = await mem0.getMemoryHistory(added.id);
+
+    expect(updated?.content).toBe('Prefers email');
+    expect(list.memories.map((m) => m.content)).toEqual(['Prefers email']);
+    expect(history.map((h) => [h.event, h.oldContent, h.newContent])).toEqual([
+      ['created', '', 'Prefers Slack'],
+      ['updated', 'Prefers Slack', 'Prefers email'],
+    ]);
+  });
+
+  it('pins and re-ranks a memory, keeping its content and source', async () => {
+    const added = await mem0.addMemory({
+      content: 'Acme renews in May',
+      agencyId: 'agency-1',
+      userId: 'user-1',
+      sessionId: 'session-1',
+      sourceMessageId: 'message-1',
+      type: 'task',
+    });
+
+    const updated = await mem0.updateMemoryAttributes(added, { pinned: true, importance: 'high' });
+    const stored = await mem0.getMemory(added.id);
+
+    expect(updated?.metadata).toMatchObject({ pinned: true, importance: 'high' });
+    expect(stored).toMatchObject({
+      content: 'Acme renews in May',
+      metadata: { type: 'task', pinned: true, importance: 'high', sessionId: 'session-1', sourceMessageId: 'message-1' },
+    });
+  });
+
+  it('deletes a memory and keeps its history', async () => {
+    const added = await mem0.addMemory({ content: 'Temporary note', agencyId: 'agency-1', userId: 'user-1', type: 'insight' });
+
+    expect(await mem0.deleteMemory(added.id)).toBe(true);
+    expect(await mem0.deleteMemory(added.id)).toBe(false);
+    expect((await mem0.listMemories('agency-1', 'user-1')).memories).toEqual([]);
+    expect((await mem0.getMemoryHistory(added.id)).map((h) => h.event)).toEqual(['created', 'deleted']);
+  });
+
+  it('clears one user\'s memories without touching others', async () => {
+    await mem0.addMemory({ content: 'Mine', agencyId: 'agency-1', userId: 'user-1', type: 'insight' });
+    await mem0.addMemory({ content: 'Theirs', agencyId: 'agency-1', userId: 'user-2', type: 'insight' });
+
+    expect(await mem0.clearMemories('agency-1', 'user-1')).toBe(true);
+    expect((await mem0.listMemories('agency-1', 'user-1')).memories).toEqual([]);
+    expect((await mem0.listMemories('agency-1', 'user-2')).memories.map((m) => m.content)).toEqual(['Theirs']);
+  });
+});
+
+// ── Postgres backend ─────────────────────────────────────────────────────────
+
+describe('Postgres memory client', () => {
+  it('hides memories from their expiration date on', async () => {
+    const { supabase } = createFakeSupabase();
+    const client = createPostgresMem0Client(supabase);
+    const expired = await client.addMemory({ content: 'Old sprint goal', userId: 'user-1', appId: 'agency-1', expirationDate: '2020-01-01' });
+    await client.addMemory({ content: 'Current sprint goal', userId: 'user-1', appId: 'agency-1', expirationDate: '2999-01-01' });
+
+    const list = await client.listMemories({ userId: 'user-1', appId: 'agency-1' });
+    const search = await client.searchMemories({ query: 'sprint goal', userId: 'user-1', appId: 'agency-1' });
+
+    expect(list.results.map((m) => m.memory)).toEqual(['Current sprint goal']);
+    expect(search.map((m) => m.memory)).toEqual(['Current sprint goal']);
+    await expect(client.getMemory({ memoryId: expired.id })).rejects.toThrow('Memory not found');
+  });
+
+  it('drops the expiry of pinned memories and restarts it when unpinned', async () => {
+    const { supabase, tables } = createFakeSupabase();
+    const mem0 = createMem0Service(createPostgresMem0Client(supabase));
+    const added = await mem0.addMemory({ content: 'Send the deck', agencyId: 'agency-1', userId: 'user-1', type: 'task' });
+    expect(tables.memory[0].expires_on).not.toBeNull();
+
+    const pinned = await mem0.updateMemoryAttributes(added, { pinned: true });
+    expect(tables.memory[0].expires_on).toBeNull();
+
+    const unpinned = await mem0.updateMemoryAttributes(pinned!, { pinned: false });
+    expect(tables.memory[0].expires_on).not.toBeNull();
+    expect(unpinned?.expiresAt).toEqual(new Date(tables.memory[0].expires_on));
+    expect((await mem0.listMemories('agency-1', 'user-1')).memories[0].expiresAt).toEqual(new Date(tables.memory[0].expires_on));
+    expect(tables.memory[0].metadata.pinned).toBeUndefined();
+    expect((await mem0.getMemoryHistory(added.id)).map((h) => h.event)).toEqual(['created']);
+    resetMem0Service();
+  });
+
+  it('keeps a backdated memory\'s creation and expiry dates', async () => {
+    const { supabase, tables } = createFakeSupabase();
+    const mem0 = createMem0Service(createPostgresMem0Client(supabase));
+
+    const added = await mem0.addMemory({
+      content: 'Send the deck',
+      agencyId: 'agency-1',
+      userId: 'user-1',
+      type: 'task',
+      infer: false,
+      createdAt: new Date('2026-10-01T09:30:00.000Z'),
+      expiresAt: new Date('2026-10-15T09:30:00.000Z'),
+    });
+
+    expect(tables.memory[0]).toMatchObject({ created_at: '2026-10-01T09:30:00.000Z', expires_on: '2026-10-15' });
+    expect(added.createdAt).toEqual(new Date('2026-10-01T09:30:00.000Z'));
+    resetMem0Service();
+  });
+
+  it('stores a transcript when only messages are given', async () => {
+    const { supabase, tables } = createFakeSupabase();
+    const client = createPostgresMem0Client(supabase);
+
+    await client.addMemory({
+      messages: [{ role: 'user', content: 'We use HubSpot' }, { role: 'assistant', content: 'Noted' }],
+      userId: 'user-1',
+      appId: 'agency-1',
+    });
+
+    expect(tables.memory[0].content).toBe('user: We use HubSpot\nassistant: Noted');
+  });
+
+  it('ranks by embedding similarity when embeddings are configured', async () => {
+    const { supabase } = createFakeSupabase();
+    const vectors: Record<string, number[]> = {
+      'Client churned over pricing': [1, 0],
+      'Team offsite in June': [0, 1],
+      'why did they leave': [0.9, 0.1],
+    };
+    const embed = vi.fn(async (texts: string[]) => texts.map((t) => vectors[t]));
+    const client = createPostgresMem0Client(supabase, { embed });
+    await client.addMemory({ content: 'Client churned over pricing', userId: 'user-1', appId: 'agency-1' });
+    await client.addMemory({ content: 'Team offsite in June', userId: 'user-1', appId: 'agency-1' });
+
+    const results = await client.searchMemories({ query: 'why did they leave', userId: 'user-1', appId: 'agency-1' });
+
+    expect(results[0].memory).toBe('Client churned over pricing');
+    expect(embed).toHaveBeenCalledWith(['why did they leave'], 'agency-1');
+  });
+
+  it('falls back to lexical search when embedding fails', async () => {
+    const { supabase, tables } = createFakeSupabase();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = createPostgresMem0Client(supabase, { embed: async () => { throw new Error('offline'); } });
+
+    await client.addMemory({ content: 'Renewal due in May', userId: 'user-1', appId: 'agency-1' });
+    const results = await client.searchMemories({ query: 'renewal', userId: 'user-1', appId: 'agency-1' });
+
+    expect(tables.memory[0].embedding).toBeNull();
+    expect(results.map((m) => m.memory)).toEqual(['Renewal due in May']);
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to delete all memories without a scope', async () => {
+    const client = createPostgresMem0Client(createFakeSupabase().supabase);
+
+    await expect(client.deleteAllMemories({})).rejects.toThrow('requires');
+  });
+
+  it('reads scope and metadata from Mem0 filters', () => {
+    expect(
+      parseMemoryFilters({ AND: [{ app_id: 'agency-1' }, { user_id: 'user-1' }, { metadata: { clientId: 'client-1' } }] })
+    ).toEqual({ scope: { appId: 'agency-1', userId: 'user-1' }, metadata: { clientId: 'client-1' } });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Memory Filter Tests
+ *
+ * Verifies the memory manager's type, client, importance and pinned filters.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { filterMemories } from '@/lib/memory/mem0-service';
+import type { Memory, MemoryMetadata } from '@/lib/memory/types';
+
+function memory(id: string, metadata: Partial<MemoryMetadata> = {}): Memory {
+  return {
+    id,
+    content: id,
+    metadata: { agencyId: 'agency-1', userId: 'user-1', type: 'insight', ...metadata },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+const memories = [
+  memory('acme-decision', { type: 'decision', clientId: 'acme', importance: 'high', pinned: true }),
+  memory('acme-task', { type: 'task', clientId: 'acme', importance: 'low' }),
+  memory('globex-decision', { type: 'decision', clientId: 'globex' }),
+  memory('unranked'),
+];
+
+const ids = (result: Memory[]) => result.map((m) => m.id);
+
+describe('filterMemories', () => {
+  it('returns everything without filters', () => {
+    expect(filterMemories(memories, {})).toHaveLength(4);
+  });
+
+  it('filters by type and client together', () => {
+    expect(ids(filterMemories(memories, { types: ['decision'], clientId: 'acme' }))).toEqual(['acme-decision']);
+    expect(ids(filterMemories(memories, { types: ['decision', 'task'] }))).toEqual([
+      'acme-decision',
+      'acme-task',
+      'globex-decision',
+    ]);
+  });
+
+  it('treats missing importance as medium', () => {
+    expect(ids(filterMemories(memories, { importance: 'medium' }))).toEqual(['globex-decision', 'unranked']);
+  });
+
+  it('filters pinned and unpinned memories', () => {
+    expect(ids(filterMemories(memories, { pinned: true }))).toEqual(['acme-decision']);
+    expect(filterMemories(memories, { pinned: false })).toHaveLength(3);
+  });
+});
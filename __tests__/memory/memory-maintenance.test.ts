@@ -0,0 +1,250 @@
+/**
+ * Memory Maintenance Tests
+ *
+ * Verifies expiry, duplicate merging and recall-based promotion planning,
+ * and that a maintenance run applies the plan and writes its report.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  planMemoryMaintenance,
+  consolidateMemories,
+  isMemoryExpired,
+  runMemoryMaintenance,
+} from '@/lib/memory/memory-maintenance';
+import type { Memory, MemoryMetadata } from '@/lib/memory/types';
+
+const NOW = new Date('2026-10-23T04:00:00.000Z');
+const DAY = 86400000;
+
+function memory(id: string, content: string, daysOld: number, metadata: Partial<MemoryMetadata> = {}): Memory {
+  const createdAt = new Date(NOW.getTime() - daysOld * DAY);
+  return {
+    id,
+    content,
+    metadata: { agencyId: 'agency-1', userId: 'user-1', type: 'insight', importance: 'medium', ...metadata },
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+// Records calls per table; every query resolves to the table's result
+function createMockSupabase(results: Record<string, { data: unknown; error: unknown }>) {
+  const calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+  const supabase = {
+    from: (table: string) => {
+      const result = results[table] ?? { data: null, error: null };
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'insert', 'upsert', 'delete', 'eq', 'in']) {
+        chain[method] = (...args: unknown[]) => {
+          calls.push({ table, method, args });
+          return chain;
+        };
+      }
+      chain.then = (resolve: (value: unknown) => void) => resolve(result);
+      return chain;
+    },
+    rpc: vi.fn(async () => ({ data: null, error: null })),
+  } as any;
+  return { supabase, calls };
+}
+
+describe('Memory Maintenance', () => {
+  describe('isMemoryExpired', () => {
+    it('applies EXPIRATION_DAYS per type', () => {
+      expect(isMemoryExpired(memory('m1', 'Send deck', 15, { type: 'task' }), NOW)).toBe(true);
+      expect(isMemoryExpired(memory('m2', 'Send deck', 13, { type: 'task' }), NOW)).toBe(false);
+      expect(isMemoryExpired(memory('m3', 'Prefers email', 400, { type: 'preference' }), NOW)).toBe(false);
+    });
+
+    it('goes by the stored expiration date when there is one', () => {
+      const unpinned = { ...memory('m1', 'Send deck', 60, { type: 'task' }), expiresAt: new Date(NOW.getTime() + 14 * DAY) };
+      const expired = { ...memory('m2', 'Send deck', 2, { type: 'task' }), expiresAt: new Date(NOW.getTime() - DAY) };
+
+      expect(isMemoryExpired(unpinned, NOW)).toBe(false);
+      expect(isMemoryExpired(expired, NOW)).toBe(true);
+    });
+  });
+
+  describe('planMemoryMaintenance', () => {
+    it('archives or deletes expired memories by type', () => {
+      const plan = planMemoryMaintenance(
+        [
+          memory('task', 'Send the Q1 deck', 60, { type: 'task' }),
+          memory('chat', 'Discussed Q1 launch', 45, { type: 'conversation' }),
+          memory('fresh', 'Send the Q4 deck', 2, { type: 'task' }),
+        ],
+        new Map(),
+        NOW
+      );
+
+      expect(plan.expired.map((e) => [e.memory.id, e.action])).toEqual([
+        ['task', 'delete'],
+        ['chat', 'archive'],
+      ]);
+      expect(plan.merges).toEqual([]);
+    });
+
+    it('never expires or merges pinned memories', () => {
+      const plan = planMemoryMaintenance(
+        [
+          memory('pinned-task', 'Send the Q1 deck', 60, { type: 'task', pinned: true }),
+          memory('pinned', 'Acme prefers email', 3, { pinned: true }),
+          memory('copy', 'Acme prefers email', 1),
+        ],
+        new Map(),
+        NOW
+      );
+
+      expect(plan.expired).toEqual([]);
+      expect(plan.merges).toEqual([]);
+    });
+
+    it('merges near-duplicates of the same client and type only', () => {
+      const plan = planMemoryMaintenance(
+        [
+          memory('old', 'Acme prefers weekly status reports by email', 20, { clientId: 'acme', entities: ['reports'] }),
+          memory('new', 'Acme prefers weekly status reports by email.', 1, { clientId: 'acme', importance: 'high', entities: ['email'] }),
+          memory('other-client', 'Acme prefers weekly status reports by email', 5, { clientId: 'globex' }),
+          memory('other-type', 'Acme prefers weekly status reports by email', 5, { clientId: 'acme', type: 'decision' }),
+        ],
+        new Map(),
+        NOW
+      );
+
+      expect(plan.merges).toHaveLength(1);
+      expect(plan.merges[0].sources.map((m) => m.id)).toEqual(['new', 'old']);
+      expect(plan.merges[0].replacement).toMatchObject({
+        content: 'Acme prefers weekly status reports by email.',
+        clientId: 'acme',
+        importance: 'high',
+        entities: ['email', 'reports'],
+        infer: false,
+      });
+    });
+
+    it('promotes memories recalled often enough', () => {
+      const plan = planMemoryMaintenance(
+        [
+          memory('recalled', 'Budget is capped at 10k', 10),
+          memory('rare', 'Uses Asana for tasks', 10),
+          memory('already-high', 'Never contact on Fridays', 10, { importance: 'high' }),
+        ],
+        new Map([['recalled', 3], ['rare', 1], ['already-high', 9]]),
+        NOW
+      );
+
+      expect(plan.promotions.map((p) => [p.memory.id, p.recallCount])).toEqual([['recalled', 3]]);
+    });
+
+    it('promotes a merge when the group\'s recalls add up', () => {
+      const plan = planMemoryMaintenance(
+        [memory('a', 'Launch date is March 3', 4), memory('b', 'Launch date is March 3', 2)],
+        new Map([['a', 2], ['b', 1]]),
+        NOW
+      );
+
+      expect(plan.merges[0]).toMatchObject({ recallCount: 3, replacement: { importance: 'high' } });
+    });
+  });
+
+  describe('consolidateMemories', () => {
+    it('keeps the newest wording and the first topic found', () => {
+      const replacement = consolidateMemories([
+        memory('a', 'Kickoff moved to Monday', 3, { topic: 'kickoff', importance: 'low' }),
+        memory('b', 'Kickoff moved to Monday morning', 1),
+      ]);
+
+      expect(replacement).toMatchObject({ content: 'Kickoff moved to Monday morning', topic: 'kickoff', importance: 'medium' });
+    });
+
+    it('keeps the oldest memory\'s creation and expiry dates', () => {
+      const oldest = memory('a', 'Send the deck by Friday', 10, { type: 'task' });
+      const replacement = consolidateMemories([memory('b', 'Send the deck by Friday', 1, { type: 'task' }), oldest]);
+
+      expect(replacement.createdAt).toEqual(oldest.createdAt);
+      expect(replacement.expiresAt).toEqual(new Date(NOW.getTime() + 4 * DAY));
+    });
+  });
+
+  describe('runMemoryMaintenance', () => {
+    it('archives before deleting, replaces merged memories and saves a report', async () => {
+      const { supabase, calls } = createMockSupabase({
+        user: { data: [{ id: 'user-1' }], error: null },
+        memory_recall: { data: [], error: null },
+      });
+      const mem0 = {
+        listMemories: vi.fn(async () => ({
+          memories: [
+            memory('chat', 'Discussed Q1 launch', 45, { type: 'conversation' }),
+            memory('dup-1', 'Prefers Slack for updates', 3),
+            memory('dup-2', 'Prefers Slack for updates', 1),
+          ],
+        })),
+        addMemory: vi.fn(async () => ({ id: 'merged' })),
+        deleteMemory: vi.fn(async () => true),
+      } as any;
+
+      const report = await runMemoryMaintenance(supabase, mem0, 'agency-1', NOW);
+
+      expect(calls.find((c) => c.table === 'memory_archive' && c.method === 'insert')?.args[0]).toEqual([
+        expect.objectContaining({ agency_id: 'agency-1', user_id: 'user-1', memory_id: 'chat', content: 'Discussed Q1 launch' }),
+      ]);
+      expect(mem0.addMemory).toHaveBeenCalledWith(expect.objectContaining({ content: 'Prefers Slack for updates', infer: false }));
+      expect(mem0.deleteMemory.mock.calls.map((c: unknown[]) => c[0])).toEqual(['chat', 'dup-2', 'dup-1']);
+      expect(report).toMatchObject({
+        usersScanned: 1,
+        memoriesScanned: 3,
+        expiredArchived: 1,
+        expiredDeleted: 0,
+        duplicatesMerged: 2,
+        consolidated: 1,
+        errors: [],
+      });
+      expect(calls.find((c) => c.table === 'memory_maintenance_report' && c.method === 'insert')?.args[0]).toMatchObject({
+        agency_id: 'agency-1',
+        expired_archived: 1,
+        duplicates_merged: 2,
+      });
+    });
+
+    it('promotes a memory in place, keeping its id and expiry', async () => {
+      const recalled = memory('recalled', 'Budget is capped at 10k', 10, { type: 'task' });
+      const { supabase } = createMockSupabase({
+        user: { data: [{ id: 'user-1' }], error: null },
+        memory_recall: { data: [{ memory_id: 'recalled', recall_count: 3 }], error: null },
+      });
+      const mem0 = {
+        listMemories: vi.fn(async () => ({ memories: [recalled] })),
+        updateMemoryAttributes: vi.fn(async (m: Memory) => m),
+        addMemory: vi.fn(),
+        deleteMemory: vi.fn(),
+      } as any;
+
+      const report = await runMemoryMaintenance(supabase, mem0, 'agency-1', NOW);
+
+      expect(mem0.updateMemoryAttributes).toHaveBeenCalledWith(recalled, { importance: 'high' });
+      expect(mem0.addMemory).not.toHaveBeenCalled();
+      expect(mem0.deleteMemory).not.toHaveBeenCalled();
+      expect(report.promoted).toBe(1);
+    });
+
+    it('keeps expired memories when archiving fails', async () => {
+      const { supabase } = createMockSupabase({
+        user: { data: [{ id: 'user-1' }], error: null },
+        memory_recall: { data: [], error: null },
+        memory_archive: { data: null, error: { message: 'relation does not exist' } },
+      });
+      const mem0 = {
+        listMemories: vi.fn(async () => ({ memories: [memory('chat', 'Discussed Q1 launch', 45, { type: 'conversation' })] })),
+        deleteMemory: vi.fn(async () => true),
+      } as any;
+
+      const report = await runMemoryMaintenance(supabase, mem0, 'agency-1', NOW);
+
+      expect(mem0.deleteMemory).not.toHaveBeenCalled();
+      expect(report.expiredArchived).toBe(0);
+      expect(report.errors[0]).toContain('failed to archive');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Cron: Memory Maintenance
+ * GET /api/cron/memory-maintenance
+ *
+ * Triggered by Vercel cron daily.
+ * For every agency: enforces EXPIRATION_DAYS (archive or delete per type),
+ * merges near-duplicate memories and promotes frequently recalled ones.
+ * Each agency's run is saved to memory_maintenance_report.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { initializeMem0Service } from '@/lib/memory/mem0-service'
+import { runMemoryMaintenance, type MemoryMaintenanceReport } from '@/lib/memory/memory-maintenance'
+
+const CRON_SECRET = process.env.CRON_SECRET || ''
+
+export async function GET(request: NextRequest) {
+  // Verify Vercel cron secret
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+
+  const results: MemoryMaintenanceReport[] = []
+
+  try {
+    const { data: agencies, error } = await supabase.from('agency').select('id')
+
+    if (error || !agencies?.length) {
+      return NextResponse.json({
+        checked: 0,
+        message: error ? `Agency query failed: ${error.message}` : 'No agencies',
+        timestamp: new Date().toISOString(),
+      })
+    }
+
+    const mem0 = initializeMem0Service()
+
+    // Agencies run one at a time to keep load on the memory backend steady
+    for (const agency of agencies) {
+      const report = await runMemoryMaintenance(supabase, mem0, agency.id)
+      if (report.errors.length) {
+        console.error('[cron/memory-maintenance]', { agencyId: agency.id, errors: report.errors })
+      }
+      results.push(report)
+    }
+
+    return NextResponse.json({
+      checked: results.length,
+      expired: results.reduce((sum, r) => sum + r.expiredDeleted + r.expiredArchived, 0),
+      merged: results.reduce((sum, r) => sum + r.duplicatesMerged, 0),
+      promoted: results.reduce((sum, r) => sum + r.promoted, 0),
+      results,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (err) {
+    console.error('[cron/memory-maintenance] Fatal error:', err instanceof Error ? err.message : err)
+    return NextResponse.json({
+      error: 'Memory maintenance failed',
+      message: err instanceof Error ? err.message : 'Unknown error',
+      partial_results: results,
+    }, { status: 500 })
+  }
+}
@@ -5,17 +5,33 @@
  * Triggered by Vercel cron every 15 minutes.
  * Handles two trigger types that can't be event-driven:
  * 1. Inactivity triggers — scans for clients with no recent activity
- * 2. Scheduled triggers — checks cron expressions against current time
+ * 2. Scheduled triggers — fires every cron occurrence that has come due since
+ *    the previous tick, tracked per trigger in workflow_trigger_schedule
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
-import type { WorkflowTrigger, InactivityTrigger, ScheduledTrigger } from '@/types/workflow'
+import type {
+  WorkflowTrigger,
+  InactivityTrigger,
+  ScheduledTrigger,
+  WorkflowTriggerSchedule,
+} from '@/types/workflow'
 import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import { getNextCronRun } from '@/lib/workflows/cron'
+import {
+  getTriggerSchedules,
+  saveTriggerSchedule,
+  claimTriggerOccurrences,
+  planTriggerOccurrences,
+} from '@/lib/workflows/trigger-schedules'
 
 const CRON_SECRET = process.env.CRON_SECRET || ''
 
+// Matches the vercel.json schedule for this route
+const TICK_INTERVAL_MS = 15 * 60 * 1000
+
 export async function GET(request: NextRequest) {
   // Verify Vercel cron secret
   const authHeader = request.headers.get('authorization')
@@ -65,6 +81,26 @@ export async function GET(request: NextRequest) {
       byAgency.set(wf.agency_id, list)
     }
 
+    // Load next-run state for every scheduled trigger in one query
+    const now = new Date()
+    const scheduledWorkflowIds = [...byAgency.values()]
+      .flat()
+      .filter((wf) => (wf.triggers as unknown as WorkflowTrigger[]).some((t) => t.type === 'scheduled'))
+      .map((wf) => wf.id)
+
+    const { data: scheduleRows, error: scheduleError } = await getTriggerSchedules(
+      supabase,
+      scheduledWorkflowIds
+    )
+
+    if (scheduleError) {
+      console.error('[WorkflowScheduler] Trigger schedule query failed:', scheduleError.message)
+    }
+
+    const scheduleStates = new Map(
+      (scheduleRows || []).map((row) => [`${row.workflow_id}:${row.trigger_id}`, row])
+    )
+
     // Process each agency
     for (const [agencyId, agencyWorkflows] of byAgency) {
       const agencyResult = {
@@ -93,11 +129,14 @@ export async function GET(request: NextRequest) {
                 agencyId,
                 agencyResult
               )
-            } else if (trigger.type === 'scheduled') {
+            } else if (trigger.type === 'scheduled' && !scheduleError) {
               await processScheduledTrigger(
+                supabase,
                 engine,
                 workflow,
                 trigger as ScheduledTrigger,
+                scheduleStates.get(`${workflow.id}:${trigger.id}`),
+                now,
                 agencyResult
               )
             }
@@ -231,140 +270,88 @@ async function processInactivityTrigger(
 }
 
 /**
- * Process scheduled trigger: check if cron expression matches current 15-min window.
+ * Process scheduled trigger: fire each occurrence that has come due since the
+ * trigger's stored next_run_at, then advance it to the next occurrence.
  */
 async function processScheduledTrigger(
+  supabase: ReturnType<typeof createClient<Database>>,
   engine: WorkflowEngine,
   workflow: Database['public']['Tables']['workflow']['Row'],
   trigger: ScheduledTrigger,
+  state: WorkflowTriggerSchedule | undefined,
+  now: Date,
   result: { scheduledChecks: number; dispatched: number; errors: string[] }
 ) {
   result.scheduledChecks++
 
-  const { schedule, timezone } = trigger.config
-
-  // Check if the cron expression matches the current 15-minute window
-  if (!matchesCronWindow(schedule, timezone)) {
-    return
-  }
-
-  engine
-    .executeWorkflow(workflow.id, {
-      type: 'scheduled',
+  const { schedule } = trigger.config
+  const timezone = trigger.config.timezone || 'UTC'
+
+  // (Re)seed new or edited triggers. Counting from when the workflow was saved
+  // (but no earlier than the previous tick) keeps an occurrence that fell
+  // between the save and this tick from being lost.
+  if (!state || state.schedule !== schedule || state.timezone !== timezone) {
+    const savedAt = new Date(workflow.updated_at).getTime()
+    const seedFrom = new Date(Math.max(
+      Number.isNaN(savedAt) ? 0 : savedAt,
+      now.getTime() - TICK_INTERVAL_MS
+    ))
+
+    const { data, error } = await saveTriggerSchedule(supabase, {
+      agencyId: workflow.agency_id,
+      workflowId: workflow.id,
+      triggerId: trigger.id,
       schedule,
-      triggeredAt: new Date().toISOString(),
-    })
-    .catch((err) => {
-      console.error('[WorkflowScheduler]', {
-        action: 'scheduled_dispatch',
-        workflowId: workflow.id,
-        error: err instanceof Error ? err.message : String(err),
-      })
+      timezone,
+      nextRunAt: getNextCronRun(schedule, timezone, seedFrom),
     })
 
-  result.dispatched++
-}
+    if (error || !data) {
+      throw new Error(`Failed to save trigger schedule: ${error?.message || 'unknown error'}`)
+    }
+    state = data
+  }
 
-// Simple cron matching for the current 15-minute window.
-// Supports: minute, hour, day-of-month, month, day-of-week.
-// Uses timezone from trigger config.
-function matchesCronWindow(cronExpression: string, timezone: string): boolean {
-  try {
-    const parts = cronExpression.trim().split(/\s+/)
-    if (parts.length !== 5) return false
+  if (!state.next_run_at || new Date(state.next_run_at) > now) {
+    return
+  }
 
-    const [minutePart, hourPart, dayOfMonthPart, monthPart, dayOfWeekPart] = parts
+  const plan = planTriggerOccurrences(schedule, timezone, new Date(state.next_run_at), now)
 
-    // Get current time in the specified timezone
-    const now = new Date()
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: timezone || 'UTC',
-      hour: 'numeric',
-      minute: 'numeric',
-      day: 'numeric',
-      month: 'numeric',
-      weekday: 'short',
-      hour12: false,
-    })
-    const formatted = formatter.formatToParts(now)
-
-    const currentMinute = parseInt(formatted.find((p) => p.type === 'minute')?.value || '0', 10)
-    const currentHour = parseInt(formatted.find((p) => p.type === 'hour')?.value || '0', 10)
-    const currentDay = parseInt(formatted.find((p) => p.type === 'day')?.value || '1', 10)
-    const currentMonth = parseInt(formatted.find((p) => p.type === 'month')?.value || '1', 10)
-    const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
-    const currentDow = dayNames.indexOf(
-      formatted.find((p) => p.type === 'weekday')?.value || 'Sun'
-    )
+  const claimed = await claimTriggerOccurrences(supabase, state, {
+    lastFiredAt: plan.due.length ? plan.due[plan.due.length - 1] : null,
+    nextRunAt: plan.nextRunAt,
+  })
 
-    // Check each field — within the 15-min window for minutes
-    if (!matchesCronField(minutePart, currentMinute, 0, 59, 15)) return false
-    if (!matchesCronField(hourPart, currentHour, 0, 23)) return false
-    if (!matchesCronField(dayOfMonthPart, currentDay, 1, 31)) return false
-    if (!matchesCronField(monthPart, currentMonth, 1, 12)) return false
-    if (!matchesCronField(dayOfWeekPart, currentDow, 0, 6)) return false
+  // Another tick already fired these occurrences
+  if (!claimed) return
 
-    return true
-  } catch (err) {
-    console.warn('[WorkflowScheduler] Invalid cron expression:', cronExpression, err)
-    return false
+  if (plan.skipped) {
+    console.warn('[WorkflowScheduler]', {
+      action: 'scheduled_catch_up',
+      workflowId: workflow.id,
+      triggerId: trigger.id,
+      warning: 'Skipped occurrences older than the catch-up window',
+    })
   }
-}
 
-// Match a single cron field against a value.
-// Supports: *, step (star/N), N, N-M, comma-separated values.
-// windowMinutes: for minute field, accept if value is within windowMinutes of target.
-function matchesCronField(
-  field: string,
-  value: number,
-  min: number,
-  max: number,
-  windowMinutes?: number
-): boolean {
-  if (field === '*') return true
-
-  // Handle step: */N
-  if (field.startsWith('*/')) {
-    const step = parseInt(field.slice(2), 10)
-    if (isNaN(step) || step <= 0) return false
-    // For minute field with window, check if any step value falls in window
-    if (windowMinutes) {
-      for (let v = min; v <= max; v += step) {
-        if (Math.abs(v - value) < windowMinutes) return true
-      }
-      return false
-    }
-    return value % step === 0
-  }
+  for (const occurrence of plan.due) {
+    engine
+      .executeWorkflow(workflow.id, {
+        type: 'scheduled',
+        schedule,
+        timezone,
+        scheduledFor: occurrence.toISOString(),
+        triggeredAt: now.toISOString(),
+      })
+      .catch((err) => {
+        console.error('[WorkflowScheduler]', {
+          action: 'scheduled_dispatch',
+          workflowId: workflow.id,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      })
 
-  // Handle comma-separated
-  const values = field.split(',')
-  for (const part of values) {
-    // Handle range: N-M
-    if (part.includes('-')) {
-      const [startStr, endStr] = part.split('-')
-      const start = parseInt(startStr, 10)
-      const end = parseInt(endStr, 10)
-      if (!isNaN(start) && !isNaN(end)) {
-        if (windowMinutes) {
-          for (let v = start; v <= end; v++) {
-            if (Math.abs(v - value) < windowMinutes) return true
-          }
-        } else if (value >= start && value <= end) {
-          return true
-        }
-      }
-    } else {
-      const target = parseInt(part, 10)
-      if (!isNaN(target)) {
-        if (windowMinutes) {
-          if (Math.abs(target - value) < windowMinutes) return true
-        } else if (target === value) {
-          return true
-        }
-      }
-    }
+    result.dispatched++
   }
-
-  return false
 }
@@ -0,0 +1,126 @@
+/**
+ * Cron: Workflow Delayed Steps
+ * GET /api/cron/workflow-steps
+ *
+ * Triggered by Vercel cron every 5 minutes.
+ * Picks up delayed workflow actions whose run_at has passed and resumes
+ * their chain with the execution context captured when they were parked.
+ * Also expires approval requests nobody acted on and fails their runs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { ActionResult, WorkflowExecutionContext } from '@/types/workflow'
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+import { completeWorkflowRun } from '@/lib/workflows/workflow-queries'
+import {
+  getDueScheduledSteps,
+  claimScheduledStep,
+  completeScheduledStep,
+  failScheduledStep,
+  releaseStaleScheduledSteps,
+} from '@/lib/workflows/scheduled-steps'
+import { expireWorkflowApprovals } from '@/lib/workflows/approval-service'
+
+const CRON_SECRET = process.env.CRON_SECRET || ''
+
+export async function GET(request: NextRequest) {
+  // Verify Vercel cron secret
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+
+  const summary = {
+    due: 0,
+    resumed: 0,
+    retried: 0,
+    failed: 0,
+    released: 0,
+    approvalsExpired: 0,
+    errors: [] as string[],
+  }
+
+  try {
+    const { count: released } = await releaseStaleScheduledSteps(supabase)
+    summary.released = released
+
+    const { data: steps, error } = await getDueScheduledSteps(supabase)
+    if (error) throw error
+
+    summary.due = steps?.length ?? 0
+
+    for (const step of steps ?? []) {
+      // Another tick may have claimed this step between the query and now
+      const claimed = await claimScheduledStep(supabase, step)
+      if (!claimed) continue
+
+      const context = claimed.context as unknown as WorkflowExecutionContext
+      const priorResults = claimed.prior_results as unknown as ActionResult[]
+
+      try {
+        const engine = new WorkflowEngine(supabase, claimed.agency_id, context.userId)
+        await engine.resumeWorkflowRun({
+          context,
+          actionId: claimed.action_id,
+          actionIndex: claimed.action_index,
+          priorResults,
+        })
+
+        await completeScheduledStep(supabase, claimed.id)
+        summary.resumed++
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : 'Unknown error'
+        const { exhausted } = await failScheduledStep(supabase, claimed, msg)
+
+        if (exhausted) {
+          // Give up on the run so it doesn't sit in 'running' forever
+          await completeWorkflowRun(
+            supabase,
+            claimed.workflow_run_id,
+            claimed.agency_id,
+            claimed.workflow_id,
+            false,
+            priorResults,
+            `Delayed action failed after ${claimed.attempts} attempts: ${msg}`
+          )
+          summary.failed++
+        } else {
+          summary.retried++
+        }
+
+        summary.errors.push(`Step ${claimed.id}: ${msg}`)
+        console.error('[WorkflowSteps]', {
+          action: 'resume_step',
+          stepId: claimed.id,
+          workflowId: claimed.workflow_id,
+          runId: claimed.workflow_run_id,
+          attempts: claimed.attempts,
+          error: msg,
+        })
+      }
+    }
+
+    const { expired, errors: expiryErrors } = await expireWorkflowApprovals(supabase)
+    summary.approvalsExpired = expired
+    summary.errors.push(...expiryErrors)
+
+    return NextResponse.json({
+      ...summary,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (err) {
+    console.error('[WorkflowSteps] Fatal error:', err instanceof Error ? err.message : err)
+    return NextResponse.json({
+      error: 'Step processing failed',
+      message: err instanceof Error ? err.message : 'Unknown error',
+      partial_results: summary,
+    }, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import type { Database } from '@/types/database'
+import { dispatchWorkflowEvent } from '@/lib/workflows/event-router'
 
 // Public endpoint - no auth required, validated by link token
 // POST /api/public/onboarding/[token]/submit - Submit intake form responses
@@ -40,7 +42,7 @@ export async function POST(
 
     // Create Supabase client with service role for public access
     const cookieStore = await cookies()
-    const supabase = createServerClient(
+    const supabase = createServerClient<Database>(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!,
       {
@@ -55,7 +57,7 @@ export async function POST(
     // Find onboarding instance by token
     const { data: instance, error: instanceError } = await supabase
       .from('onboarding_instance')
-      .select('id, agency_id, status, journey_id')
+      .select('id, agency_id, client_id, status, journey_id, triggered_by')
       .eq('link_token', token)
       .single()
 
@@ -124,6 +126,21 @@ export async function POST(
       .update({ status: 'in_progress' })
       .eq('id', instance.id)
 
+    // Dispatch workflow event — fire-and-forget. There is no signed-in user on
+    // this public endpoint, so runs are attributed to whoever sent the link.
+    dispatchWorkflowEvent(supabase, instance.agency_id, instance.triggered_by, {
+      type: 'onboarding_submitted',
+      data: {
+        instanceId: instance.id,
+        journeyId: instance.journey_id,
+        responseCount: responses.length,
+        clientId: instance.client_id,
+      },
+      clientId: instance.client_id,
+    }).catch((err) => {
+      console.error('[onboarding/submit] Workflow dispatch error:', err)
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Intake form submitted successfully',
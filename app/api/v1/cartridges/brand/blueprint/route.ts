@@ -6,6 +6,8 @@ import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { checkAIBudget, geminiUsage, LLMError, recordAIUsage } from '@/lib/llm'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 // Initialize Gemini
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || '')
@@ -20,6 +22,16 @@ export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
 
       const supabase = await createRouteHandlerClient(cookies)
       const agencyId = request.user.agencyId
+
+      // Refuse once the agency's monthly AI budget is used up
+      try {
+        await checkAIBudget(supabase, agencyId, request.user.id)
+      } catch (error) {
+        if (error instanceof LLMError && error.code === 'BUDGET_EXCEEDED') {
+          return createErrorResponse(429, error.message)
+        }
+        throw error
+      }
       const body = await request.json()
       const { coreMessaging } = body
 
@@ -72,6 +84,15 @@ Respond ONLY with valid JSON, no markdown or explanations.`
       const response = await result.response
       const text = response.text()
 
+      await recordAIUsage(supabase, {
+        agencyId,
+        userId: request.user.id,
+        feature: 'brand_blueprint',
+        provider: 'gemini',
+        model: 'gemini-2.0-flash-exp',
+        usage: geminiUsage(response.usageMetadata),
+      })
+
       // Parse the generated blueprint
       let blueprint
       try {
@@ -100,6 +121,17 @@ Respond ONLY with valid JSON, no markdown or explanations.`
         // Still return the blueprint even if save fails
       }
 
+      if (brand) {
+        await recordCartridgeVersion(supabase, {
+          agencyId,
+          type: 'brand',
+          cartridgeId: brand.id,
+          data: brand,
+          createdBy: request.user.id,
+          summary: 'Generated brand blueprint',
+        })
+      }
+
       return NextResponse.json({
         blueprint,
         brand: brand || null
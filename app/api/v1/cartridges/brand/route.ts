@@ -5,6 +5,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 // Default brand cartridge structure
 const DEFAULT_BRAND = {
@@ -163,6 +164,14 @@ export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
         result = data
       }
 
+      await recordCartridgeVersion(supabase, {
+        agencyId,
+        type: 'brand',
+        cartridgeId: result.id,
+        data: result,
+        createdBy: request.user.id,
+      })
+
       return NextResponse.json(result)
     } catch (error) {
       console.error('[Brand POST] Unexpected error:', error)
@@ -201,6 +210,14 @@ export const PATCH = withPermission({ resource: 'cartridges', action: 'write' })
         return createErrorResponse(500, 'Failed to update brand')
       }
 
+      await recordCartridgeVersion(supabase, {
+        agencyId,
+        type: 'brand',
+        cartridgeId: data.id,
+        data,
+        createdBy: request.user.id,
+      })
+
       return NextResponse.json({ brand: data })
     } catch (error) {
       console.error('[Brand PATCH] Unexpected error:', error)
@@ -6,6 +6,8 @@ import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { checkAIBudget, geminiUsage, LLMError, recordAIUsage } from '@/lib/llm'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 // Initialize Gemini
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || '')
@@ -35,6 +37,16 @@ export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
       const supabase = await createRouteHandlerClient(cookies)
       const agencyId = request.user.agencyId
 
+      // Refuse once the agency's monthly AI budget is used up
+      try {
+        await checkAIBudget(supabase, agencyId, request.user.id)
+      } catch (error) {
+        if (error instanceof LLMError && error.code === 'BUDGET_EXCEEDED') {
+          return createErrorResponse(429, error.message)
+        }
+        throw error
+      }
+
       // Get instruction cartridge (uses instruction_cartridge table)
       const { data: cartridge, error: fetchError } = await supabase
         .from('instruction_cartridge')
@@ -136,6 +148,15 @@ Respond ONLY with valid JSON, no markdown or explanations.`
       const response = await result.response
       const text = response.text()
 
+      await recordAIUsage(supabase, {
+        agencyId,
+        userId: request.user.id,
+        feature: 'instruction_processing',
+        provider: 'gemini',
+        model: 'gemini-2.0-flash-exp',
+        usage: geminiUsage(response.usageMetadata),
+      })
+
       // Parse the extracted knowledge
       let extractedKnowledge
       try {
@@ -167,6 +188,17 @@ Respond ONLY with valid JSON, no markdown or explanations.`
         console.error('[Instructions Process] Update error:', updateError)
       }
 
+      if (updatedCartridge) {
+        await recordCartridgeVersion(supabase, {
+          agencyId,
+          type: 'instruction',
+          cartridgeId: updatedCartridge.id,
+          data: updatedCartridge,
+          createdBy: request.user.id,
+          summary: 'Processed training documents',
+        })
+      }
+
       return NextResponse.json({
         process_status: 'completed',
         extracted_knowledge: extractedKnowledge,
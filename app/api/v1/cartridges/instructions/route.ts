@@ -5,6 +5,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 // Sanitize HTML to prevent XSS
 function sanitizeHtml(text: string): string {
@@ -97,6 +98,14 @@ export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
         return createErrorResponse(500, 'Failed to create instruction cartridge')
       }
 
+      await recordCartridgeVersion(supabase, {
+        agencyId,
+        type: 'instruction',
+        cartridgeId: data.id,
+        data,
+        createdBy: request.user.id,
+      })
+
       return NextResponse.json({
         id: data.id,
         name: data.name,
@@ -151,6 +160,14 @@ export const PATCH = withPermission({ resource: 'cartridges', action: 'write' })
         return createErrorResponse(500, 'Failed to update instruction cartridge')
       }
 
+      await recordCartridgeVersion(supabase, {
+        agencyId,
+        type: 'instruction',
+        cartridgeId: data.id,
+        data,
+        createdBy: request.user.id,
+      })
+
       return NextResponse.json({ cartridge: data })
     } catch (error) {
       console.error('[Instructions PATCH] Unexpected error:', error)
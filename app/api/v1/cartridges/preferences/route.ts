@@ -3,6 +3,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 /**
  * GET /api/v1/cartridges/preferences
@@ -129,6 +130,14 @@ export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
         result = data
       }
 
+      await recordCartridgeVersion(supabase, {
+        agencyId,
+        type: 'preferences',
+        cartridgeId: result.id,
+        data: result,
+        createdBy: request.user.id,
+      })
+
       return NextResponse.json(result, { status: statusCode })
     } catch (error) {
       if (error instanceof SyntaxError) {
@@ -6,6 +6,8 @@ import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { checkAIBudget, geminiUsage, LLMError, recordAIUsage } from '@/lib/llm'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 // Initialize Gemini
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || '')
@@ -21,6 +23,16 @@ export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
       const supabase = await createRouteHandlerClient(cookies)
       const agencyId = request.user.agencyId
 
+      // Refuse once the agency's monthly AI budget is used up
+      try {
+        await checkAIBudget(supabase, agencyId, request.user.id)
+      } catch (error) {
+        if (error instanceof LLMError && error.code === 'BUDGET_EXCEEDED') {
+          return createErrorResponse(429, error.message)
+        }
+        throw error
+      }
+
       // Get style cartridge (uses style_cartridge table)
       const { data: cartridge, error: fetchError } = await supabase
         .from('style_cartridge')
@@ -117,6 +129,15 @@ Respond ONLY with valid JSON, no markdown or explanations.`
       const response = await result.response
       const text = response.text()
 
+      await recordAIUsage(supabase, {
+        agencyId,
+        userId: request.user.id,
+        feature: 'style_analysis',
+        provider: 'gemini',
+        model: 'gemini-2.0-flash-exp',
+        usage: geminiUsage(response.usageMetadata),
+      })
+
       // Parse the analysis
       let learnedStyle
       try {
@@ -148,6 +169,17 @@ Respond ONLY with valid JSON, no markdown or explanations.`
         // Still return the analysis
       }
 
+      if (updatedCartridge) {
+        await recordCartridgeVersion(supabase, {
+          agencyId,
+          type: 'style',
+          cartridgeId: updatedCartridge.id,
+          data: updatedCartridge,
+          createdBy: request.user.id,
+          summary: 'Analyzed writing style',
+        })
+      }
+
       return NextResponse.json({
         analysis_status: 'completed',
         learned_style: learnedStyle,
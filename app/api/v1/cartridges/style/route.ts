@@ -5,6 +5,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 // GET /api/v1/cartridges/style - Fetch agency's style cartridge
 export const GET = withPermission({ resource: 'cartridges', action: 'read' })(
@@ -149,6 +150,14 @@ export const PATCH = withPermission({ resource: 'cartridges', action: 'write' })
         return createErrorResponse(500, 'Failed to update style cartridge')
       }
 
+      await recordCartridgeVersion(supabase, {
+        agencyId,
+        type: 'style',
+        cartridgeId: data.id,
+        data,
+        createdBy: request.user.id,
+      })
+
       return NextResponse.json({ style: data })
     } catch (error) {
       console.error('[Style PATCH] Unexpected error:', error)
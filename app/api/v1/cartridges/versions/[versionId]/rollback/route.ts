@@ -0,0 +1,53 @@
+// app/api/v1/cartridges/versions/[versionId]/rollback/route.ts
+// Restore a cartridge to an earlier version - recorded as a new version
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
+import { rollbackCartridge } from '@/lib/cartridges'
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+interface RouteParams {
+  params: Promise<{ versionId: string }>
+}
+
+// POST /api/v1/cartridges/versions/[versionId]/rollback - Roll the cartridge back to this version
+export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
+  async (request: AuthenticatedRequest, context: RouteParams) => {
+    try {
+      const rateLimitResponse = withRateLimit(request, { maxRequests: 10, windowMs: 60000 })
+      if (rateLimitResponse) return rateLimitResponse
+
+      const csrfError = withCsrfProtection(request)
+      if (csrfError) return csrfError
+
+      const { versionId } = await context.params
+      if (!UUID_REGEX.test(versionId)) {
+        return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+
+      const result = await rollbackCartridge(supabase, {
+        agencyId: request.user.agencyId,
+        userId: request.user.id,
+        versionId,
+      })
+
+      if (!result) {
+        return NextResponse.json({ error: 'Version or cartridge not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({
+        version: result.version,
+        message: `Rolled back to version ${result.restored.version_number}`,
+      })
+    } catch (error) {
+      console.error('[Cartridge Rollback] Unexpected error:', error)
+      return createErrorResponse(500, 'Failed to roll back cartridge')
+    }
+  }
+)
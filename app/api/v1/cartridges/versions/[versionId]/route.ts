@@ -0,0 +1,78 @@
+// app/api/v1/cartridges/versions/[versionId]/route.ts
+// Single cartridge version with its diff - uses cartridge_version table
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit, createErrorResponse } from '@/lib/security'
+import { diffCartridgeSnapshots, getCartridgeVersion, type CartridgeVersion } from '@/lib/cartridges'
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+interface RouteParams {
+  params: Promise<{ versionId: string }>
+}
+
+// GET /api/v1/cartridges/versions/[versionId]?compareTo= - Fetch a version and what changed
+// Compares against the previous version unless compareTo names another version of the same cartridge
+export const GET = withPermission({ resource: 'cartridges', action: 'read' })(
+  async (request: AuthenticatedRequest, context: RouteParams) => {
+    try {
+      const rateLimitResponse = withRateLimit(request, { maxRequests: 100, windowMs: 60000 })
+      if (rateLimitResponse) return rateLimitResponse
+
+      const { versionId } = await context.params
+      const compareToId = new URL(request.url).searchParams.get('compareTo')
+
+      if (!UUID_REGEX.test(versionId) || (compareToId && !UUID_REGEX.test(compareToId))) {
+        return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+      const userId = request.user.id
+
+      const version = await getCartridgeVersion(supabase, agencyId, userId, versionId)
+      if (!version) {
+        return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+      }
+
+      let compareTo: CartridgeVersion | null = null
+      if (compareToId) {
+        compareTo = await getCartridgeVersion(supabase, agencyId, userId, compareToId)
+        if (
+          !compareTo ||
+          compareTo.cartridge_type !== version.cartridge_type ||
+          compareTo.cartridge_id !== version.cartridge_id
+        ) {
+          return NextResponse.json({ error: 'Comparison version not found' }, { status: 404 })
+        }
+      } else if (version.version_number > 1) {
+        const { data, error } = await supabase
+          .from('cartridge_version')
+          .select('*')
+          .eq('agency_id', agencyId)
+          .eq('cartridge_type', version.cartridge_type)
+          .eq('cartridge_id', version.cartridge_id)
+          .lt('version_number', version.version_number)
+          .order('version_number', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+
+        if (error) {
+          console.error('[Cartridge Version GET] Previous version error:', error)
+          return createErrorResponse(500, 'Failed to fetch previous version')
+        }
+        compareTo = (data as CartridgeVersion | null) ?? null
+      }
+
+      const changes = diffCartridgeSnapshots(compareTo?.snapshot ?? {}, version.snapshot)
+
+      return NextResponse.json({ version, compareTo, changes })
+    } catch (error) {
+      console.error('[Cartridge Version GET] Unexpected error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
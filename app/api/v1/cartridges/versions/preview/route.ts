@@ -0,0 +1,112 @@
+// app/api/v1/cartridges/versions/preview/route.ts
+// A/B preview - run one sample prompt through two cartridge versions
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
+import {
+  loadCartridgeContext,
+  generateCartridgeContextPrompt,
+  type CartridgeContext,
+} from '@/lib/chat/context'
+import { applyCartridgeVersion, getCartridgeVersion, type CartridgeVersion } from '@/lib/cartridges'
+import { getMeteredLLMProvider, LLMError, type LLMProvider } from '@/lib/llm'
+
+const MAX_PROMPT_LENGTH = 2000
+
+// Shared by both sides so only the cartridge differs between them
+function buildPreviewSystemPrompt(context: CartridgeContext): string {
+  const cartridgePrompt = generateCartridgeContextPrompt(context)
+  return `You are an AI assistant for AudienceOS Command Center. You help agency teams with client communication and account management.
+${cartridgePrompt || 'Respond in a professional tone.'}`
+}
+
+// POST /api/v1/cartridges/versions/preview - Compare two versions on the same sample prompt
+// Body: { prompt: string, versionIds: [string, string] } - each id may be 'current'
+export const POST = withPermission({ resource: 'cartridges', action: 'write' })(
+  async (request: AuthenticatedRequest) => {
+    try {
+      const rateLimitResponse = withRateLimit(request, { maxRequests: 10, windowMs: 60000 })
+      if (rateLimitResponse) return rateLimitResponse
+
+      const csrfError = withCsrfProtection(request)
+      if (csrfError) return csrfError
+
+      const body = await request.json()
+      const { prompt, versionIds } = body as { prompt?: unknown; versionIds?: unknown }
+
+      if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+        return createErrorResponse(400, `prompt must be 1-${MAX_PROMPT_LENGTH} characters`)
+      }
+      if (
+        !Array.isArray(versionIds) ||
+        versionIds.length !== 2 ||
+        !versionIds.every((id) => typeof id === 'string' && id)
+      ) {
+        return createErrorResponse(400, 'versionIds must name two versions')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+      const userId = request.user.id
+
+      const versions: Array<CartridgeVersion | null> = []
+      for (const id of versionIds as string[]) {
+        if (id === 'current') {
+          versions.push(null)
+          continue
+        }
+        const version = await getCartridgeVersion(supabase, agencyId, userId, id)
+        if (!version) {
+          return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+        }
+        if (version.cartridge_type === 'preferences') {
+          return createErrorResponse(400, 'Preferences cartridges are not used in chat, so they cannot be previewed')
+        }
+        versions.push(version)
+      }
+
+      let provider: LLMProvider
+      let budgetWarning: string | undefined
+      try {
+        const metered = await getMeteredLLMProvider(supabase, { agencyId, userId, feature: 'cartridge_preview' })
+        provider = metered.provider
+        budgetWarning = metered.budget.message
+      } catch (error) {
+        if (error instanceof LLMError && error.code === 'BUDGET_EXCEEDED') {
+          return NextResponse.json({ error: error.message, code: error.code }, { status: 429 })
+        }
+        throw error
+      }
+
+      const current = await loadCartridgeContext(supabase, agencyId, userId)
+
+      const results = await Promise.all(
+        versions.map(async (version) => {
+          const context = version ? applyCartridgeVersion(current, version) : current
+          const response = await provider.generate({
+            system: buildPreviewSystemPrompt(context),
+            messages: prompt,
+            temperature: 0.7,
+            maxOutputTokens: 1024,
+          })
+          return {
+            versionId: version?.id ?? 'current',
+            versionNumber: version?.version_number ?? null,
+            text: response.text,
+          }
+        })
+      )
+
+      return NextResponse.json({ results, budgetWarning })
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createErrorResponse(400, 'Invalid JSON in request body')
+      }
+
+      console.error('[Cartridge Preview] Unexpected error:', error)
+      return createErrorResponse(500, 'Failed to generate preview')
+    }
+  }
+)
@@ -0,0 +1,47 @@
+// app/api/v1/cartridges/versions/route.ts
+// Cartridge version history - uses cartridge_version table
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit, createErrorResponse } from '@/lib/security'
+import {
+  CARTRIDGE_VERSION_TYPES,
+  isCartridgeVersionType,
+  listCartridgeVersions,
+} from '@/lib/cartridges'
+
+// GET /api/v1/cartridges/versions?type=brand&cartridgeId= - List a cartridge's versions, newest first
+// Voice versions are personal: cartridgeId defaults to, and must be, the current user
+export const GET = withPermission({ resource: 'cartridges', action: 'read' })(
+  async (request: AuthenticatedRequest) => {
+    try {
+      const rateLimitResponse = withRateLimit(request, { maxRequests: 100, windowMs: 60000 })
+      if (rateLimitResponse) return rateLimitResponse
+
+      const { searchParams } = new URL(request.url)
+      const type = searchParams.get('type')
+      const userId = request.user.id
+
+      if (!isCartridgeVersionType(type)) {
+        return createErrorResponse(400, `Invalid type. Must be one of: ${CARTRIDGE_VERSION_TYPES.join(', ')}`)
+      }
+
+      const cartridgeId = searchParams.get('cartridgeId') || (type === 'voice' ? userId : null)
+      if (!cartridgeId) {
+        return createErrorResponse(400, 'cartridgeId is required')
+      }
+      if (type === 'voice' && cartridgeId !== userId) {
+        return createErrorResponse(403, 'You can only view your own voice history')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const versions = await listCartridgeVersions(supabase, request.user.agencyId, type, cartridgeId)
+
+      return NextResponse.json({ versions })
+    } catch (error) {
+      console.error('[Cartridge Versions GET] Unexpected error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
@@ -0,0 +1,75 @@
+/**
+ * Chat Pending Action API
+ * POST /api/v1/chat/actions/{id} - Confirm or cancel a change proposed by the
+ * chat assistant (create_client, update_client, create_ticket, assign_ticket)
+ *
+ * Body: { decision: 'confirm' | 'cancel' }
+ *
+ * Confirming applies exactly the change shown in the preview. Only the user
+ * who asked for it can resolve it, and only once.
+ *
+ * RBAC: Requires ai-features:write permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, withCsrfProtection, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { resolvePendingAction, type PendingActionDecision } from '@/lib/chat/pending-actions'
+import { ChatError } from '@/lib/chat/types'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  ALREADY_RESOLVED: 409,
+  EXPIRED: 410,
+}
+
+export const POST = withPermission({ resource: 'ai-features', action: 'write' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 30, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    const { id } = await params
+
+    try {
+      if (!isValidUUID(id)) {
+        return createErrorResponse(400, 'Invalid action ID')
+      }
+
+      let body: { decision?: unknown }
+      try {
+        body = await request.json()
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON body')
+      }
+
+      if (body.decision !== 'confirm' && body.decision !== 'cancel') {
+        return createErrorResponse(400, 'Decision must be one of: confirm, cancel')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const action = await resolvePendingAction(supabase, {
+        id,
+        agencyId: request.user.agencyId,
+        userId: request.user.id,
+        decision: body.decision as PendingActionDecision,
+      })
+
+      return NextResponse.json({ data: action })
+    } catch (error) {
+      if (error instanceof ChatError && ERROR_STATUS[error.code]) {
+        return createErrorResponse(ERROR_STATUS[error.code], error.message)
+      }
+      console.error('POST /api/v1/chat/actions/[id] error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { GoogleGenAI } from '@google/genai';
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission';
 import { createRouteHandlerClient } from '@/lib/supabase';
 import { checkRateLimitDistributed } from '@/lib/security';
@@ -8,15 +7,15 @@ import {
   loadCartridgeContext,
   generateCartridgeContextPrompt,
 } from '@/lib/chat/context';
+import { getMeteredLLMProvider, LLMError, type LLMProvider } from '@/lib/llm';
 
-const GEMINI_MODEL = 'gemini-3-flash-preview';
 const DRAFT_RATE_LIMIT = { maxRequests: 10, windowMs: 60000 };
 
 /**
- * Retry wrapper for Gemini API calls.
+ * Retry wrapper for LLM API calls.
  * Preview models have restrictive rate limits — retry once after 1s on failure.
  */
-async function callGeminiWithRetry<T>(
+async function callLLMWithRetry<T>(
   fn: () => Promise<T>,
   label: string
 ): Promise<T> {
@@ -67,18 +66,32 @@ export const POST = withPermission({ resource: 'ai-features', action: 'write' })
         );
       }
 
-      // Get API key
-      const apiKey = process.env.GOOGLE_AI_API_KEY;
-      if (!apiKey) {
-        console.error('[GenerateReply] GOOGLE_AI_API_KEY not configured');
-        return NextResponse.json(
-          { error: 'AI service not configured' },
-          { status: 500 }
-        );
+      // Resolve the agency's LLM provider, metered against its monthly AI budgets
+      const supabase = await createRouteHandlerClient(cookies);
+      let provider: LLMProvider;
+      let budgetWarning: string | undefined;
+      try {
+        const metered = await getMeteredLLMProvider(supabase, { agencyId, userId, feature: 'draft_reply' });
+        provider = metered.provider;
+        budgetWarning = metered.budget.message;
+      } catch (error) {
+        if (error instanceof LLMError && error.code === 'BUDGET_EXCEEDED') {
+          return NextResponse.json(
+            { error: error.message, code: error.code },
+            { status: 429 }
+          );
+        }
+        if (error instanceof LLMError && error.code === 'NOT_CONFIGURED') {
+          console.error(`[GenerateReply] ${error.message}`);
+          return NextResponse.json(
+            { error: 'AI service not configured' },
+            { status: 500 }
+          );
+        }
+        throw error;
       }
 
       // Load voice settings + cartridge context for this user
-      const supabase = await createRouteHandlerClient(cookies);
       const cartridgeContext = await loadCartridgeContext(supabase, agencyId, userId);
 
       // Build voice-aware system prompt
@@ -94,20 +107,19 @@ Generate a reply to the following message. The reply should be ready to send —
         ? `Subject: ${subject}\n\nMessage: ${original_message}`
         : `Message: ${original_message}`;
 
-      // Call Gemini
-      const genai = new GoogleGenAI({ apiKey });
-      const response = await callGeminiWithRetry(
-        () => genai.models.generateContent({
-          model: GEMINI_MODEL,
-          contents: `${systemPrompt}\n\nPlease draft a reply to:\n${userPrompt}`,
-          config: { temperature: 0.7, maxOutputTokens: 1024 },
+      // Call the model
+      const response = await callLLMWithRetry(
+        () => provider.generate({
+          messages: `${systemPrompt}\n\nPlease draft a reply to:\n${userPrompt}`,
+          temperature: 0.7,
+          maxOutputTokens: 1024,
         }),
         'generate-reply'
       );
 
-      const draft = response.text || '';
+      const draft = response.text;
 
-      return NextResponse.json({ data: { draft } });
+      return NextResponse.json({ data: { draft, budgetWarning } });
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : 'Unknown error';
       console.error('[GenerateReply] Error:', errMsg);
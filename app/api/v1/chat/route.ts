@@ -1,8 +1,6 @@
 import { NextResponse, after } from 'next/server';
 import { cookies } from 'next/headers';
-import { GoogleGenAI } from '@google/genai';
 import { getSmartRouter } from '@/lib/chat/router';
-import { executeFunction, hgcFunctions } from '@/lib/chat/functions';
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission';
 import { createRouteHandlerClient } from '@/lib/supabase';
 import { getGeminiRAG } from '@/lib/rag';
@@ -14,28 +12,51 @@ import { chatLogger } from '@/lib/logger';
 import {
   buildAppContext,
   generateAppContextPrompt,
+  getPageByPath,
+  parseViewContext,
+  loadViewEntities,
   loadCartridgeContext,
   generateCartridgeContextPrompt,
   getOrCreateSession,
   addMessage,
   getSessionMessages,
+  updateSessionTitle,
+  deriveSessionTitle,
+  generateSessionTitle,
   formatMessagesForContext,
 } from '@/lib/chat/context';
-import type { Citation } from '@/lib/chat/types';
+import { CHAT_STREAM_HEADERS, createChatEventStream, type ChatStreamEmitter } from '@/lib/chat/sse';
+import { runToolLoop } from '@/lib/chat/tool-loop';
+import { FUNCTION_CALLING_GUIDELINES } from '@/lib/chat/functions';
+import type {
+  ChatResponseMessage,
+  ChatViewContext,
+  Citation,
+  PendingAction,
+  RouteType,
+  SuggestedMemory,
+} from '@/lib/chat/types';
+import {
+  collectLLMStream,
+  createLLMProvider,
+  getMeteredLLMProvider,
+  recordAIUsage,
+  LLMError,
+  type LLMGrounding,
+  type LLMProvider,
+  type LLMRequest,
+} from '@/lib/llm';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 // Rate limit config for chat: 10 requests per minute per user
 const CHAT_RATE_LIMIT = { maxRequests: 10, windowMs: 60000 };
 
-// CRITICAL: Gemini 3 ONLY per project requirements
-const GEMINI_MODEL = 'gemini-3-flash-preview';
-
 /**
- * Retry wrapper for Gemini API calls.
+ * Retry wrapper for LLM API calls.
  * Preview models have restrictive rate limits — retry once after 1s on failure.
  * Only adds latency on the failure path; successful calls are unaffected.
  */
-async function callGeminiWithRetry<T>(
+async function callLLMWithRetry<T>(
   fn: () => Promise<T>,
   label: string
 ): Promise<T> {
@@ -59,7 +80,8 @@ async function buildSystemPrompt(
   userId: string,
   sessionId: string | undefined,
   route: string,
-  clientId?: string
+  clientId?: string,
+  viewContext?: ChatViewContext
 ): Promise<{ prompt: string; temperature: number }> {
   const parts: string[] = [];
 
@@ -115,12 +137,7 @@ You help agency teams manage their clients, view performance data, and navigate
 This query was classified as: ${route}
 
 IMPORTANT CAPABILITIES:
-- You have access to synced Gmail emails and Slack messages. When users ask about emails, messages, inbox, or communications, use your tools to retrieve and summarize them immediately. Do NOT say you don't have access — you do.
-- When users mention a client name, always check if they exist in the system first using get_clients or get_client_details. Never say "if they are a client" — look them up.
-- When asked to summarize emails or messages, call the appropriate function right away. Do not ask for confirmation — just do it.
-- "emails" and "messages" refer to synced Gmail/Slack data in the system. Always treat email requests as requests for synced data.
-- Use get_emails for general inbox queries (e.g., "show my recent emails", "check my inbox").
-- Use get_client_emails when the user mentions BOTH emails AND a client name (e.g., "emails from Acme", "gmails from Test Client", "summarize emails from [name]"). NEVER use get_clients or get_client_details for email requests — always use get_client_emails.`);
+${FUNCTION_CALLING_GUIDELINES}`);
 
   // Memory capability — applies to ALL routes so the LLM acknowledges store requests
   // even if routed to casual. Combined with shouldStoreMemory() expansion, this ensures
@@ -129,9 +146,13 @@ IMPORTANT CAPABILITIES:
 When users ask you to remember, note, or keep track of something, acknowledge it naturally.
 If you're asked to remember a preference, decision, or fact about a client, confirm you've noted it.`);
 
-  // 1. App structure awareness (always include)
-  // Note: currentPage could be passed from frontend in request body for better context
-  const appContext = buildAppContext('dashboard'); // Default to dashboard view
+  // 1. App structure awareness (always include), with whatever the user has open
+  const currentPage = viewContext ? getPageByPath(viewContext.route) : null;
+  const entities = viewContext ? await loadViewEntities(supabase, agencyId, userId, viewContext) : [];
+  const appContext = buildAppContext(currentPage?.id ?? 'dashboard', {
+    entities,
+    filters: viewContext?.filters,
+  });
   const appPrompt = generateAppContextPrompt(appContext);
   parts.push(appPrompt);
 
@@ -200,7 +221,8 @@ Example: "Google Ads typically has higher CTR [1] than Meta Ads in search campai
  * Chat API v1 - AudienceOS Chat
  *
  * Ported from Holy Grail Chat (HGC) with adaptations for AudienceOS.
- * Uses SmartRouter for intent classification and Gemini for responses.
+ * Uses SmartRouter for intent classification and the agency's LLM provider
+ * (lib/llm) for responses.
  *
  * RBAC: Requires ai-features:write permission
  */
@@ -237,7 +259,11 @@ export const POST = withPermission({ resource: 'ai-features', action: 'write' })
 
     // 1. Parse request body
     const body = await request.json();
-    const { message, sessionId, stream = false, clientId, documentContext } = body;
+    const { message, sessionId, stream = false, documentContext } = body;
+
+    // View context: current route and selected entities. Older clients only send clientId.
+    const viewContext = parseViewContext(body.viewContext);
+    const clientId: string | undefined = viewContext ? viewContext.clientId : body.clientId;
 
     // Validate documentContext shape if present
     const validDocContext = documentContext && typeof documentContext.id === 'string' && typeof documentContext.title === 'string'
@@ -251,79 +277,75 @@ export const POST = withPermission({ resource: 'ai-features', action: 'write' })
       );
     }
 
-    // 2. Get API key
-    const apiKey = process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-      console.error('[Chat API] GOOGLE_AI_API_KEY not configured');
-      return NextResponse.json(
-        { error: 'Chat service not configured' },
-        { status: 500 }
-      );
-    }
-
-    // 3. Create Supabase client early (needed for context loading and all routes)
+    // 2. Create Supabase client early (needed for provider selection, context loading and all routes)
     const supabase = await createRouteHandlerClient(cookies);
 
-    // 4. Classify query with SmartRouter
-    let route = 'casual';
-    let routeConfidence = 1.0;
+    // 3. Resolve the agency's LLM provider (agency.ai_config, then LLM_PROVIDER, then Gemini),
+    // metered against its monthly AI budgets
+    let provider: LLMProvider;
+    let budgetWarning: string | undefined;
     try {
-      const router = getSmartRouter();
-      const classification = await router.classifyQuery(message);
-      route = classification.route;
-      routeConfidence = classification.confidence;
-      chatLogger.debug({ route, routeConfidence }, 'Route classification');
-    } catch (routerError) {
-      console.warn('[Chat API] Router failed, using casual route:', routerError);
+      const metered = await getMeteredLLMProvider(supabase, { agencyId, userId, feature: 'chat' });
+      provider = metered.provider;
+      budgetWarning = metered.budget.message;
+    } catch (error) {
+      if (error instanceof LLMError && error.code === 'BUDGET_EXCEEDED') {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 429 }
+        );
+      }
+      if (error instanceof LLMError && error.code === 'NOT_CONFIGURED') {
+        console.error(`[Chat API] ${error.message}`);
+        return NextResponse.json(
+          { error: 'Chat service not configured' },
+          { status: 500 }
+        );
+      }
+      throw error;
     }
 
-    // 4b. Force RAG route when document context is attached
-    if (validDocContext?.id) {
-      route = 'rag';
-      routeConfidence = 1.0;
-    }
+    const startedAt = Date.now();
+    const responseSessionId = sessionId || `session-${Date.now()}`;
 
-    // 5. Build rich system prompt with all context layers (including client-scoped memories)
-    const { prompt: systemPrompt, temperature: configuredTemperature } = await buildSystemPrompt(supabase, agencyId, userId, sessionId, route, clientId);
-
-    // 6. Handle based on route
-    let responseContent: string;
-    let functionCalls: Array<{ name: string; result: unknown }> = [];
-    let citations: Citation[] = [];
-
-    if (route === 'dashboard') {
-      // Use function calling for dashboard queries
-      responseContent = await handleDashboardRoute(apiKey, message, agencyId, userId, functionCalls, supabase, systemPrompt, configuredTemperature);
-    } else if (route === 'rag') {
-      // Use RAG for document search queries
-      responseContent = await handleRAGRoute(apiKey, message, agencyId, citations, supabase, configuredTemperature, validDocContext?.title);
-    } else if (route === 'memory') {
-      // Use Memory for recall queries
-      responseContent = await handleMemoryRoute(apiKey, message, agencyId, userId, configuredTemperature, clientId);
-    } else {
-      // Use basic Gemini response for other routes (may include web grounding citations)
-      responseContent = await handleCasualRoute(apiKey, message, systemPrompt, citations, configuredTemperature);
-    }
+    // 4. Set up the event sink: SSE frames when streaming, discarded for JSON
+    const eventStream = stream === true ? createChatEventStream() : null;
+    const emit: ChatStreamEmitter = eventStream ? eventStream.emit : () => {};
 
-    // 6b. Detect if this exchange contains a high-value memory (decision/preference/task)
-    const memoryInjector = getMemoryInjector();
-    const memoryDetection = memoryInjector.shouldStoreMemory(message, responseContent);
+    const turn = generateChatTurn({
+      provider,
+      supabase,
+      agencyId,
+      userId,
+      message,
+      sessionId,
+      responseSessionId,
+      clientId,
+      viewContext,
+      documentContext: validDocContext,
+      budgetWarning,
+    }, emit);
 
-    // 6c. Schedule background work with after() — guarantees completion on Vercel
+    // 5. Schedule background work with after() — guarantees completion on Vercel
     // Unlike fire-and-forget promises, after() keeps the serverless function alive
     // until all callbacks finish, preventing silent data loss.
     after(async () => {
+      const completed = await turn.catch(() => null);
+      if (!completed) return;
+      const { response, storeConversation } = completed;
+
       // Persist chat messages to database
+      let persisted: PersistedTurn | null = null;
       try {
-        await persistChatMessages(supabase, agencyId, userId, sessionId, message, responseContent);
+        persisted = await persistChatMessages(supabase, provider, agencyId, userId, sessionId, message, response);
       } catch (err) {
         console.warn('[Chat API] Chat persistence failed (non-blocking):', err);
       }
 
       // Store conversation in memory (only when no suggestion is shown)
-      if (!memoryDetection.should) {
+      if (storeConversation) {
         try {
-          await storeConversationMemory(agencyId, userId, sessionId, message, responseContent, route, clientId);
+          await storeConversationMemory(agencyId, userId, persisted, message, response.content, response.route, clientId);
         } catch (err) {
           console.warn('[Chat API] Memory storage failed (non-blocking):', err);
         }
@@ -338,7 +360,8 @@ export const POST = withPermission({ resource: 'ai-features', action: 'write' })
               role: m.role as 'user' | 'assistant',
               content: m.content,
             }));
-            await summarizeConversation(formatted, agencyId, userId, sessionId, clientId);
+            const { provider: summaryProvider } = await getMeteredLLMProvider(supabase, { agencyId, userId, feature: 'memory_summary' });
+            await summarizeConversation(formatted, agencyId, userId, sessionId, clientId, summaryProvider);
           }
         } catch (err) {
           console.warn('[Chat API] Summarization failed (non-blocking):', err);
@@ -346,101 +369,32 @@ export const POST = withPermission({ resource: 'ai-features', action: 'write' })
       }
     });
 
-    // Build suggested memory for the client (if detected)
-    // Skip suggestion when dashboard route already stored via store_memory function call
-    // to prevent duplicates (dashboard stores with infer:true, suggestion stores with infer:false)
-    const dashboardAlreadyStored = functionCalls.some(f => f.name === 'store_memory');
-    const suggestedMemory = (memoryDetection.should && !dashboardAlreadyStored) ? {
-      content: extractMemoryContent(message, responseContent, memoryDetection.type),
-      type: memoryDetection.type,
-      importance: memoryDetection.importance,
-      topic: route,
-    } : undefined;
-
-    // 5. Return response (streaming or JSON)
-    if (stream === true) {
-      // PHASE 1: SSE Streaming Support (backwards compatible)
-      const encoder = new TextEncoder();
-
-      const readable = new ReadableStream({
-        async start(controller) {
-          try {
-            // Send initial metadata
-            const metadata = JSON.stringify({
-              type: 'metadata',
-              route,
-              routeConfidence,
-              sessionId: sessionId || `session-${Date.now()}`,
-            });
-            controller.enqueue(encoder.encode(`data: ${metadata}\n\n`));
-
-            // Stream content in chunks (simulate streaming for now - Phase 2 will add real streaming)
-            const chunkSize = 50;
-            for (let i = 0; i < responseContent.length; i += chunkSize) {
-              const chunk = responseContent.slice(i, i + chunkSize);
-              const chunkData = JSON.stringify({
-                type: 'content',
-                content: chunk,
-              });
-              controller.enqueue(encoder.encode(`data: ${chunkData}\n\n`));
-
-              // Small delay to simulate streaming
-              await new Promise(resolve => setTimeout(resolve, 20));
-            }
-
-            // Send completion
-            const completeData = JSON.stringify({
-              type: 'complete',
-              message: {
-                id: `msg-${Date.now()}`,
-                role: 'assistant',
-                content: responseContent,
-                timestamp: new Date().toISOString(),
-                route,
-                routeConfidence,
-                functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
-                citations: citations.length > 0 ? citations : [],
-                suggestedMemory,
-              },
-            });
-            controller.enqueue(encoder.encode(`data: ${completeData}\n\n`));
-            controller.close();
-          } catch (error) {
-            const errorData = JSON.stringify({
-              type: 'error',
-              error: error instanceof Error ? error.message : 'Streaming failed',
-            });
-            controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-            controller.close();
-          }
-        },
-      });
-
-      return new NextResponse(readable, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
-      });
-    } else {
-      // Existing JSON response (Phase 1 backwards compatibility)
-      return NextResponse.json({
-        message: {
-          id: `msg-${Date.now()}`,
-          role: 'assistant',
-          content: responseContent,
-          timestamp: new Date().toISOString(),
-          route,
-          routeConfidence,
-          functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
-          citations: citations.length > 0 ? citations : [],
-          suggestedMemory,
-        },
-        sessionId: sessionId || `session-${Date.now()}`,
-      });
+    // 6. Return response (streaming or JSON)
+    if (eventStream) {
+      turn
+        .then(
+          ({ response }) => emit({
+            type: 'metadata',
+            message: response,
+            sessionId: responseSessionId,
+            latencyMs: Date.now() - startedAt,
+          }),
+          (error) => emit({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Streaming failed',
+          })
+        )
+        .finally(eventStream.close);
+
+      return new NextResponse(eventStream.readable, { headers: CHAT_STREAM_HEADERS });
     }
 
+    const { response } = await turn;
+    return NextResponse.json({
+      message: response,
+      sessionId: responseSessionId,
+    });
+
   } catch (error) {
     console.error('[Chat API] Error:', error);
     return NextResponse.json(
@@ -451,6 +405,122 @@ export const POST = withPermission({ resource: 'ai-features', action: 'write' })
   }
 );
 
+interface ChatTurnParams {
+  provider: LLMProvider;
+  supabase: SupabaseClient;
+  agencyId: string;
+  userId: string;
+  message: string;
+  sessionId: string | undefined;
+  responseSessionId: string;
+  clientId?: string;
+  viewContext?: ChatViewContext;
+  documentContext?: { id: string; title: string };
+  budgetWarning?: string;
+}
+
+/**
+ * Classify the message, run its route and build the assistant message.
+ * Progress is reported through `emit` as it happens: the route, text as
+ * the model generates it, function calls and citations.
+ */
+async function generateChatTurn(
+  params: ChatTurnParams,
+  emit: ChatStreamEmitter
+): Promise<{ response: ChatResponseMessage; storeConversation: boolean }> {
+  const { provider, supabase, agencyId, userId, message, sessionId, clientId, viewContext, documentContext } = params;
+
+  // Classify query with SmartRouter
+  let route: RouteType = 'casual';
+  let routeConfidence = 1.0;
+  try {
+    const router = getSmartRouter(provider);
+    const classification = await router.classifyQuery(message);
+    route = classification.route;
+    routeConfidence = classification.confidence;
+    chatLogger.debug({ route, routeConfidence }, 'Route classification');
+  } catch (routerError) {
+    console.warn('[Chat API] Router failed, using casual route:', routerError);
+  }
+
+  // Force RAG route when document context is attached
+  if (documentContext?.id) {
+    route = 'rag';
+    routeConfidence = 1.0;
+  }
+
+  emit({ type: 'route', route, routeConfidence, sessionId: params.responseSessionId });
+
+  // Build rich system prompt with all context layers (including client-scoped memories)
+  const { prompt: systemPrompt, temperature: configuredTemperature } = await buildSystemPrompt(supabase, agencyId, userId, sessionId, route, clientId, viewContext);
+
+  // Track whether any text reached the client; canned replies are sent as one delta
+  let streamedText = false;
+  const emitTracked: ChatStreamEmitter = (event) => {
+    if (event.type === 'text_delta') streamedText = true;
+    emit(event);
+  };
+
+  // Handle based on route
+  let responseContent: string;
+  const functionCalls: Array<{ name: string; result: unknown }> = [];
+  const pendingActions: PendingAction[] = [];
+  const citations: Citation[] = [];
+
+  if (route === 'dashboard') {
+    // Use function calling for dashboard queries
+    responseContent = await handleDashboardRoute(provider, message, agencyId, userId, functionCalls, pendingActions, supabase, systemPrompt, emitTracked, configuredTemperature);
+  } else if (route === 'rag') {
+    // Use RAG for document search queries
+    responseContent = await handleRAGRoute(message, agencyId, userId, citations, supabase, emitTracked, configuredTemperature, documentContext?.title);
+  } else if (route === 'memory') {
+    // Use Memory for recall queries
+    responseContent = await handleMemoryRoute(provider, message, agencyId, userId, emitTracked, configuredTemperature, clientId);
+  } else {
+    // Use a basic model response for other routes (may include web grounding citations)
+    responseContent = await handleCasualRoute(provider, message, systemPrompt, citations, emitTracked, configuredTemperature);
+  }
+
+  if (!streamedText) {
+    emit({ type: 'text_delta', delta: responseContent });
+  }
+  for (const citation of citations) {
+    emit({ type: 'citation', citation });
+  }
+
+  // Detect if this exchange contains a high-value memory (decision/preference/task)
+  const memoryInjector = getMemoryInjector();
+  const memoryDetection = memoryInjector.shouldStoreMemory(message, responseContent);
+
+  // Build suggested memory for the client (if detected)
+  // Skip suggestion when dashboard route already stored via store_memory function call
+  // to prevent duplicates (dashboard stores with infer:true, suggestion stores with infer:false)
+  const dashboardAlreadyStored = functionCalls.some(f => f.name === 'store_memory');
+  const suggestedMemory: SuggestedMemory | undefined = (memoryDetection.should && !dashboardAlreadyStored) ? {
+    content: extractMemoryContent(message, responseContent, memoryDetection.type),
+    type: memoryDetection.type as SuggestedMemory['type'],
+    importance: memoryDetection.importance as SuggestedMemory['importance'],
+    topic: route,
+  } : undefined;
+
+  return {
+    response: {
+      id: `msg-${Date.now()}`,
+      role: 'assistant',
+      content: responseContent,
+      timestamp: new Date().toISOString(),
+      route,
+      routeConfidence,
+      functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+      citations,
+      suggestedMemory,
+      pendingActions: pendingActions.length > 0 ? pendingActions : undefined,
+      budgetWarning: params.budgetWarning,
+    },
+    storeConversation: !memoryDetection.should,
+  };
+}
+
 /**
  * Extract clean memory content from user message.
  * For "remember that X prefers Y" → "X prefers Y"
@@ -509,108 +579,70 @@ function extractMemoryContent(userMessage: string, assistantResponse: string, ty
  * Handle dashboard route with function calling
  * FIXED 2026-01-15: Now accepts supabase client to enable real database queries
  * UPDATED 2026-01-20: Now accepts systemPrompt for rich context
+ * Runs a multi-step tool loop (lib/chat/tool-loop.ts) so requests can chain calls
+ * Mutating calls come back as pendingActions for the user to confirm
  */
 async function handleDashboardRoute(
-  apiKey: string,
+  provider: LLMProvider,
   message: string,
   agencyId: string | undefined,
   userId: string | undefined,
   functionCallsLog: Array<{ name: string; result: unknown }>,
+  pendingActions: PendingAction[],
   supabase: SupabaseClient,
   systemPrompt: string,
+  emit: ChatStreamEmitter,
   temperature: number = 0
 ): Promise<string> {
-  const genai = new GoogleGenAI({ apiKey });
-
-  // Create function declarations for Gemini
-  // Using type assertion because HGC function schemas are compatible but TypeScript is strict
-  const functionDeclarations = hgcFunctions.map(fn => ({
-    name: fn.name,
-    description: fn.description,
-    parameters: fn.parameters,
-  })) as unknown as Array<{name: string; description: string; parameters?: object}>;
-
-  // First call: Let Gemini decide which function to call (with full context)
-  let response;
+  // Let the model chain function calls until it can answer (bounded by the loop's limits)
+  let result;
   try {
-    response = await callGeminiWithRetry(
-      () => genai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: `${systemPrompt}\n\nUser: ${message}`,
-        config: {
-          temperature,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          tools: [{ functionDeclarations }] as any,
-        },
-      }),
-      'Dashboard route'
-    );
+    result = await runToolLoop({
+      stream: (request) => callLLMWithRetry(() => provider.stream(request), 'Dashboard route'),
+      prompt: `${systemPrompt}
+
+When you have the data you need, give a helpful, natural language summary of it. If the data is empty or shows zero results, tell the user clearly. Do NOT offer to do something you were already asked to do — just present the results. When a function returns status "awaiting_confirmation", briefly describe the proposed change and ask the user to confirm it below.
+
+User: ${message}`,
+      temperature,
+      context: {
+        agencyId: agencyId || 'demo-agency',
+        userId: userId || 'demo-user',
+        supabase,  // CRITICAL FIX: Pass supabase client to enable real database queries
+      },
+      functionCallsLog,
+      pendingActions,
+      emit,
+    });
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
-    console.error('[Chat API] Dashboard route Gemini error (after retry):', errMsg);
+    console.error(`[Chat API] Dashboard route ${provider.name} error (after retry):`, errMsg);
+    if (functionCallsLog.length > 0) {
+      return `I tried to get that information but encountered an error. Please try again.`;
+    }
     return `I'm having trouble processing that request right now. Please try again in a moment. (Error: ${errMsg})`;
   }
 
-  // Check if Gemini wants to call a function
-  const candidate = response.candidates?.[0];
-  const parts = candidate?.content?.parts || [];
-
-  for (const part of parts) {
-    if (part.functionCall) {
-      const functionName = part.functionCall.name;
-      const args = part.functionCall.args;
-
-      if (!functionName) {
-        console.warn('[Chat API] Function call without name, skipping');
-        continue;
-      }
-
-      chatLogger.debug({ functionName, hasArgs: !!args }, 'Function call');
+  chatLogger.debug(
+    { steps: result.steps, functionCalls: functionCallsLog.map(f => f.name), totalTokens: result.totalTokens, stopReason: result.stopReason },
+    'Tool loop complete'
+  );
 
-      // Execute the function with Supabase client for real DB queries
-      try {
-        const result = await executeFunction(functionName, {
-          agencyId: agencyId || 'demo-agency',
-          userId: userId || 'demo-user',
-          supabase,  // CRITICAL FIX: Pass supabase client to enable real database queries
-        }, args || {});
-
-        functionCallsLog.push({ name: functionName, result });
-
-        // Second call: Let Gemini interpret the result (with system context for consistency)
-        const interpretResponse = await genai.models.generateContent({
-          model: GEMINI_MODEL,
-          contents: `${systemPrompt}
-
-User asked: "${message}"
-
-Function ${functionName} was called and returned:
-${JSON.stringify(result, null, 2)}
-
-Provide a helpful, natural language summary of this data. If the data is empty or shows zero results, tell the user clearly. Do NOT ask the user for confirmation or offer to do something you were already asked to do — just present the results.`,
-          config: { temperature: Math.max(temperature, 0.7) },
-        });
-
-        const interpretedText = interpretResponse.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (interpretedText) {
-          return interpretedText;
-        }
+  if (result.text) {
+    return result.text;
+  }
 
-        // Smart fallback: format result as readable text instead of raw JSON
-        return formatFallbackResult(functionName, result);
-      } catch (execError) {
-        console.error(`[Chat API] Function execution failed:`, execError);
-        return `I tried to get that information but encountered an error. Please try again.`;
-      }
-    }
+  // Smart fallback: format the last result as readable text instead of raw JSON
+  const lastCall = functionCallsLog[functionCallsLog.length - 1];
+  if (lastCall) {
+    return formatFallbackResult(lastCall.name, lastCall.result);
   }
 
-  // No function call, return text response
-  return parts[0]?.text || "I can help you with client information, alerts, and navigation. What would you like to know?";
+  return "I can help you with client information, alerts, and navigation. What would you like to know?";
 }
 
 /**
- * Format function result as readable text when Gemini interpretation fails.
+ * Format function result as readable text when the model's interpretation fails.
  * Prevents raw JSON from being shown to users.
  */
 function formatFallbackResult(functionName: string, result: unknown): string {
@@ -663,16 +695,29 @@ function formatFallbackResult(functionName: string, result: unknown): string {
  * Primary path: Uses persistent File Search Store with `fileSearch` tool
  * Fallback: If no store exists for agency, falls back to old GeminiRAG service
  * (backward-compat for agencies that haven't uploaded since migration)
+ *
+ * Documents live in Gemini's Files/File Search APIs, so this route uses the
+ * Gemini key whichever provider the agency has selected for chat, and records
+ * its own usage rather than going through the metered provider.
  */
 async function handleRAGRoute(
-  apiKey: string,
   message: string,
   agencyId: string | undefined,
+  userId: string | undefined,
   citations: Citation[],
   supabase: SupabaseClient,
+  emit: ChatStreamEmitter,
   temperature: number = 0.7,
   documentTitle?: string
 ): Promise<string> {
+  const onText = (delta: string) => emit({ type: 'text_delta', delta });
+
+  const apiKey = process.env.GOOGLE_AI_API_KEY;
+  if (!apiKey) {
+    console.error('[Chat API] RAG route needs GOOGLE_AI_API_KEY');
+    return "Knowledge base search isn't available right now. Please ask your administrator to configure the Gemini integration.";
+  }
+
   try {
     const effectiveAgencyId = agencyId || 'demo-agency';
 
@@ -697,9 +742,14 @@ async function handleRAGRoute(
           agencyId: effectiveAgencyId,
           useForTrainingOnly: true,
           temperature,
+          onText,
         }
       );
 
+      if (agencyId) {
+        await recordAIUsage(supabase, { agencyId, userId, feature: 'rag', provider: 'gemini', model: result.model, usage: result.usage });
+      }
+
       // Add RAG citations (url omitted — documentId is a Gemini file ID, not a navigable URL)
       for (const ragCitation of result.citations) {
         const citation: Citation = {
@@ -752,8 +802,13 @@ async function handleRAGRoute(
       maxDocuments: 5,
       minConfidence: 0.5,
       allowedGeminiFileNames,
+      onText,
     });
 
+    if (agencyId) {
+      await recordAIUsage(supabase, { agencyId, userId, feature: 'rag', provider: 'gemini', model: result.model, usage: result.usage });
+    }
+
     for (const ragCitation of result.citations) {
       const citation: Citation = {
         index: citations.length + 1,
@@ -779,16 +834,16 @@ async function handleRAGRoute(
  * ADDED 2026-01-15: Ported from HGC for memory/recall queries
  */
 async function handleMemoryRoute(
-  apiKey: string,
+  provider: LLMProvider,
   message: string,
   agencyId: string | undefined,
   userId: string | undefined,
+  emit: ChatStreamEmitter,
   temperature: number = 0.7,
   clientId?: string
 ): Promise<string> {
   try {
     const memoryInjector = getMemoryInjector();
-    const genai = new GoogleGenAI({ apiKey });
 
     // Detect STORE intent — "remember that...", "please remember...", "keep in mind..."
     // These are storage requests, not recall queries. The suggestion system handles actual storage.
@@ -823,7 +878,7 @@ async function handleMemoryRoute(
         .map((m, i) => `[${i + 1}] ${m.content}`)
         .join('\n');
 
-      // Ask Gemini to synthesize a response from memories
+      // Ask the model to synthesize a response from memories
       const memoryPrompt = `The user is asking about a previous conversation. Based on these memories from our past conversations:
 
 ${memoryContext}
@@ -832,15 +887,11 @@ User question: "${message}"
 
 Provide a helpful response that references our previous discussions. Be conversational and helpful.`;
 
-      const memoryResult = await genai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: memoryPrompt,
-        config: { temperature },
-      });
+      const memoryStream = await provider.stream({ messages: memoryPrompt, temperature });
+      const memoryResult = await collectLLMStream(memoryStream, delta => emit({ type: 'text_delta', delta }));
 
       chatLogger.debug({ memoryCount: memoryInjection.memories.length }, 'Memory search complete');
-      return memoryResult.candidates?.[0]?.content?.parts?.[0]?.text ||
-        "I couldn't recall that specific conversation.";
+      return memoryResult.text || "I couldn't recall that specific conversation.";
     } else {
       return "I don't have any memories of us discussing that topic. Would you like to tell me about it so I can remember for next time?";
     }
@@ -851,56 +902,48 @@ Provide a helpful response that references our previous discussions. Be conversa
 }
 
 /**
- * Handle casual/web routes with basic Gemini response
+ * Handle casual/web routes with a basic model response
  * Extracts citations from grounding metadata when available
  * UPDATED 2026-01-20: Now accepts rich systemPrompt with all context layers
  */
 async function handleCasualRoute(
-  apiKey: string,
+  provider: LLMProvider,
   message: string,
   systemPrompt: string,
   citations: Citation[],
+  emit: ChatStreamEmitter,
   temperature: number = 0.7
 ): Promise<string> {
-  const genai = new GoogleGenAI({ apiKey });
-
-  // Build request config with rich system prompt
-  const requestConfig: any = {
-    model: GEMINI_MODEL,
-    contents: `${systemPrompt}\n\nBe concise and helpful.\n\nUser: ${message}`,
-    config: { temperature },
+  const onText = (delta: string) => emit({ type: 'text_delta', delta });
+
+  // Build request with rich system prompt
+  const request: LLMRequest = {
+    messages: `${systemPrompt}\n\nBe concise and helpful.\n\nUser: ${message}`,
+    temperature,
+    // Enable web search grounding for web queries (provides citations) where the provider supports it
+    // Note: route detection is already handled in systemPrompt
+    webSearch: systemPrompt.includes('classified as: web'),
   };
 
-  // Enable Google Search grounding for web queries (provides citations)
-  // Note: route detection is already handled in systemPrompt
-  if (systemPrompt.includes('classified as: web')) {
-    requestConfig.config.tools = [{
-      googleSearch: {},
-    }];
-  }
-
   let response;
   try {
-    response = await callGeminiWithRetry(
-      () => genai.models.generateContent(requestConfig),
-      'Casual route'
-    );
+    const responseStream = await callLLMWithRetry(() => provider.stream(request), 'Casual route');
+    response = await collectLLMStream(responseStream, onText);
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
-    console.error('[Chat API] Casual route Gemini error (after retry):', errMsg);
+    console.error(`[Chat API] Casual route ${provider.name} error (after retry):`, errMsg);
     return `I'm having trouble connecting to the AI service right now. Please try again in a moment. (Error: ${errMsg})`;
   }
 
-  // Extract citations from grounding metadata if available
-  const candidate = response.candidates?.[0];
-  if (candidate?.groundingMetadata?.groundingChunks) {
-    for (const groundingChunk of candidate.groundingMetadata.groundingChunks) {
-      const web = groundingChunk.web;
-      if (web?.uri && web?.title) {
+  // Extract citations from grounding sources if available
+  const grounding = response.grounding;
+  if (grounding) {
+    for (const source of grounding.sources) {
+      if (source.url && source.title) {
         const citation: Citation = {
           index: citations.length + 1,
-          title: web.title,
-          url: web.uri,
+          title: source.title,
+          url: source.url,
           source: 'web',
         };
         // Avoid duplicates
@@ -911,23 +954,22 @@ async function handleCasualRoute(
     }
   }
 
-  // Get response text — retry with explicit prompt if Gemini returns empty
-  let responseText = candidate?.content?.parts?.[0]?.text || "";
+  // Get response text — retry with explicit prompt if the model returns empty
+  let responseText = response.text;
 
   if (!responseText.trim()) {
-    console.warn('[Chat API] Casual route: Gemini returned empty text, retrying with minimal prompt');
+    console.warn('[Chat API] Casual route: model returned empty text, retrying with minimal prompt');
     try {
       // Retry with MINIMAL prompt — the full systemPrompt can overwhelm preview models
       // and trigger empty responses. Strip down to just the user's message.
-      const retryResponse = await callGeminiWithRetry(
-        () => genai.models.generateContent({
-          model: GEMINI_MODEL,
-          contents: `You are a helpful AI assistant for a marketing agency. Respond naturally and helpfully.\n\nUser: ${message}`,
-          config: { temperature: temperature + 0.1 },
+      const retryStream = await callLLMWithRetry(
+        () => provider.stream({
+          messages: `You are a helpful AI assistant for a marketing agency. Respond naturally and helpfully.\n\nUser: ${message}`,
+          temperature: temperature + 0.1,
         }),
         'Casual route retry'
       );
-      responseText = retryResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      responseText = (await collectLLMStream(retryStream, onText)).text;
     } catch (retryErr) {
       console.error('[Chat API] Casual route retry also failed:', retryErr);
     }
@@ -947,41 +989,36 @@ async function handleCasualRoute(
     responseText = responseText.replace(/\[\d+\.\d+(?:,\s*\d+\.\d+)*\]/g, '');
   }
 
-  // Insert inline citation markers based on groundingSupports
+  // Insert inline citation markers based on grounding supports
   // This is what HGC does - Gemini doesn't add [1][2] markers automatically
-  if (candidate?.groundingMetadata?.groundingSupports && citations.length > 0) {
-    const supports = candidate.groundingMetadata.groundingSupports;
-    responseText = insertInlineCitations(responseText, supports, citations);
+  if (grounding?.supports.length && citations.length > 0) {
+    responseText = insertInlineCitations(responseText, grounding.supports, citations);
   }
 
   return responseText;
 }
 
 /**
- * Insert [1][2][3] citation markers into text based on groundingSupports
+ * Insert [1][2][3] citation markers into text based on grounding supports
  * FIXED: Insert after word boundaries to avoid breaking words mid-sentence
  * Ported from HGC citation-extractor.ts
  */
 function insertInlineCitations(
   text: string,
-  supports: Array<{
-    segment?: { startIndex?: number; endIndex?: number; text?: string };
-    groundingChunkIndices?: number[];
-    confidenceScores?: number[];
-  }>,
+  supports: LLMGrounding['supports'],
   citations: Citation[]
 ): string {
   // Sort supports by end index (descending) to insert from end to beginning
   // This prevents index shifts as we insert markers
   const sortedSupports = [...supports]
-    .filter((s) => s.segment?.endIndex !== undefined)
-    .sort((a, b) => (b.segment?.endIndex || 0) - (a.segment?.endIndex || 0));
+    .filter((s) => s.endIndex !== undefined)
+    .sort((a, b) => (b.endIndex || 0) - (a.endIndex || 0));
 
   let result = text;
 
   for (const support of sortedSupports) {
-    let endIndex = support.segment?.endIndex;
-    const chunkIndices = support.groundingChunkIndices || [];
+    const endIndex = support.endIndex;
+    const chunkIndices = support.sourceIndices;
 
     if (endIndex !== undefined && chunkIndices.length > 0) {
       // Get citation markers for this segment (e.g., "[1][2]")
@@ -1018,6 +1055,14 @@ function insertInlineCitations(
   return result;
 }
 
+/**
+ * Where a persisted turn landed, recorded on memories learned from it
+ */
+interface PersistedTurn {
+  sessionId: string;
+  userMessageId: string;
+}
+
 /**
  * Persist chat messages to database for history
  * Fire-and-forget: should not block the chat response
@@ -1025,53 +1070,67 @@ function insertInlineCitations(
  */
 async function persistChatMessages(
   supabase: SupabaseClient,
+  provider: LLMProvider,
   agencyId: string,
   userId: string,
   sessionId: string | undefined,
   userMessage: string,
-  assistantResponse: string
-): Promise<void> {
+  assistantResponse: ChatResponseMessage
+): Promise<PersistedTurn | null> {
   try {
     // Get or create session (if sessionId provided, function will find/reuse it)
     const session = await getOrCreateSession(supabase, {
       userId,
       agencyId,
-      title: userMessage.substring(0, 100), // Use first message as title
+      sessionId,
+      title: deriveSessionTitle(userMessage),
     });
+    const isFirstExchange = !session.last_message_at;
 
     // Add user message
-    await addMessage(supabase, {
+    const userMessageRow = await addMessage(supabase, {
       sessionId: session.id,
       agencyId,
       role: 'user',
       content: userMessage,
     });
 
-    // Add assistant response
+    // Add assistant response, keeping citations for export
     await addMessage(supabase, {
       sessionId: session.id,
       agencyId,
       role: 'assistant',
-      content: assistantResponse,
+      content: assistantResponse.content,
+      routeUsed: assistantResponse.route,
+      citations: assistantResponse.citations.length > 0 ? assistantResponse.citations : undefined,
     });
 
+    // Replace the placeholder title with one summarizing the first exchange
+    if (isFirstExchange) {
+      const title = await generateSessionTitle(provider, userMessage, assistantResponse.content);
+      await updateSessionTitle(supabase, session.id, title);
+    }
+
     chatLogger.debug({ sessionId: session.id }, 'Messages persisted');
+    return { sessionId: session.id, userMessageId: userMessageRow.id };
   } catch (error) {
     // Don't throw - persistence is non-critical
     console.warn('[Chat API] Chat persistence error:', error);
+    return null;
   }
 }
 
 /**
  * Store conversation in memory for cross-session recall
  * Fire-and-forget: should not block the chat response
- * Uses native entity scoping: app_id=agencyId, user_id=userId, run_id=sessionId
+ * Uses native entity scoping: app_id=agencyId, user_id=userId
  * Sends full user+assistant message pair for better mem0 inference
+ * `source` is the persisted turn, so the memory manager can link back to it
  */
 async function storeConversationMemory(
   agencyId: string,
   userId: string,
-  sessionId: string | undefined,
+  source: PersistedTurn | null,
   userMessage: string,
   assistantResponse: string,
   route: string,
@@ -1105,6 +1164,8 @@ async function storeConversationMemory(
       agencyId,
       userId,
       clientId,
+      sessionId: source?.sessionId,
+      sourceMessageId: source?.userMessageId,
       type: 'conversation',
       topic: route,
       importance: route === 'memory' ? 'high' : 'medium',
@@ -1123,11 +1184,18 @@ async function storeConversationMemory(
  */
 export const GET = withPermission({ resource: 'analytics', action: 'read' })(
   async () => {
-  const hasApiKey = !!process.env.GOOGLE_AI_API_KEY;
+  // Checks the deployment default; agencies may select another provider
+  let provider: string | null = null;
+  try {
+    provider = createLLMProvider().name;
+  } catch {
+    // Default provider's API key is missing
+  }
 
   return NextResponse.json({
-    status: hasApiKey ? 'ready' : 'misconfigured',
-    hasApiKey,
+    status: provider ? 'ready' : 'misconfigured',
+    hasApiKey: !!provider,
+    provider,
     timestamp: new Date().toISOString(),
   });
   }
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit, withCsrfProtection } from '@/lib/security'
+import { branchSession } from '@/lib/chat/context'
+
+/**
+ * POST /api/v1/chat/sessions/[sessionId]/branch
+ *
+ * Start a new session from an earlier message in one of the current user's
+ * sessions. The conversation up to that message is copied, and the branch
+ * becomes the session new chat messages continue.
+ * Body: { messageId: string, title?: string }
+ */
+export const POST = withPermission({ resource: 'ai-features', action: 'write' })(
+  async (
+    request: AuthenticatedRequest,
+    { params }: { params: Promise<{ sessionId: string }> }
+  ) => {
+    const rateLimitResponse = withRateLimit(request)
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    try {
+      const { sessionId } = await params
+      const supabase = await createRouteHandlerClient(cookies)
+      const { agencyId, id: userId } = request.user
+
+      const body = await request.json().catch(() => ({}))
+      const { messageId, title } = body as { messageId?: unknown; title?: unknown }
+
+      if (typeof messageId !== 'string' || !messageId) {
+        return NextResponse.json(
+          { error: 'messageId is required', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        )
+      }
+      if (title !== undefined && (typeof title !== 'string' || title.length > 200)) {
+        return NextResponse.json(
+          { error: 'Title must be a string of at most 200 characters', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        )
+      }
+
+      const branch = await branchSession(supabase, {
+        agencyId,
+        userId,
+        sessionId,
+        messageId,
+        title: title as string | undefined,
+      })
+
+      if (!branch) {
+        return NextResponse.json(
+          { error: 'Session or message not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({ data: branch }, { status: 201 })
+    } catch (error) {
+      console.error('[ChatBranch] Unexpected error:', error)
+      return NextResponse.json(
+        { error: 'Failed to branch chat session', code: 'BRANCH_FAILED' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit } from '@/lib/security'
+import {
+  exportSessionAsJSON,
+  exportSessionAsMarkdown,
+  type ChatMessage,
+  type ChatSession,
+} from '@/lib/chat/context'
+
+// Longer sessions are exported up to this many messages
+const EXPORT_MESSAGE_LIMIT = 1000
+
+/**
+ * GET /api/v1/chat/sessions/[sessionId]/export?format=markdown|json
+ *
+ * Download one of the current user's sessions with its citations.
+ */
+export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
+  async (
+    request: AuthenticatedRequest,
+    { params }: { params: Promise<{ sessionId: string }> }
+  ) => {
+    const rateLimitResponse = withRateLimit(request)
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const { sessionId } = await params
+      const supabase = await createRouteHandlerClient(cookies)
+      const { agencyId, id: userId } = request.user
+
+      const { searchParams } = new URL(request.url)
+      const format = searchParams.get('format') || 'markdown'
+      if (format !== 'markdown' && format !== 'json') {
+        return NextResponse.json(
+          { error: 'Format must be markdown or json', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        )
+      }
+
+      // Verify session belongs to this user
+      const { data: session, error: sessionError } = await supabase
+        .from('chat_session')
+        .select('*')
+        .eq('id', sessionId)
+        .eq('agency_id', agencyId)
+        .eq('user_id', userId)
+        .single()
+
+      if (sessionError || !session) {
+        return NextResponse.json(
+          { error: 'Session not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      const { data: messages, error } = await supabase
+        .from('chat_message')
+        .select('*')
+        .eq('session_id', sessionId)
+        .eq('agency_id', agencyId)
+        .order('created_at', { ascending: true })
+        .limit(EXPORT_MESSAGE_LIMIT)
+
+      if (error) {
+        console.error('[ChatExport] Failed to fetch messages:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch messages', code: 'FETCH_FAILED' },
+          { status: 500 }
+        )
+      }
+
+      const rows = (messages || []) as unknown as ChatMessage[]
+      const body = format === 'json'
+        ? exportSessionAsJSON(session as ChatSession, rows)
+        : exportSessionAsMarkdown(session as ChatSession, rows)
+      const filename = `chat-${sessionId.slice(0, 8)}.${format === 'json' ? 'json' : 'md'}`
+
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    } catch (error) {
+      console.error('[ChatExport] Unexpected error:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  }
+)
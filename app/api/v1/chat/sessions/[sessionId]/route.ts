@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit, withCsrfProtection } from '@/lib/security'
+import { updateSession, type SessionUpdate } from '@/lib/chat/context'
+
+/**
+ * PATCH /api/v1/chat/sessions/[sessionId]
+ *
+ * Rename, pin or archive one of the current user's sessions.
+ * Body: { title?: string, is_pinned?: boolean, archived?: boolean }
+ */
+export const PATCH = withPermission({ resource: 'ai-features', action: 'write' })(
+  async (
+    request: AuthenticatedRequest,
+    { params }: { params: Promise<{ sessionId: string }> }
+  ) => {
+    const rateLimitResponse = withRateLimit(request)
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    try {
+      const { sessionId } = await params
+      const supabase = await createRouteHandlerClient(cookies)
+      const { agencyId, id: userId } = request.user
+
+      const body = await request.json().catch(() => null)
+      if (!body || typeof body !== 'object') {
+        return NextResponse.json(
+          { error: 'Invalid JSON body', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        )
+      }
+
+      const { title, is_pinned, archived } = body as Record<string, unknown>
+      const update: SessionUpdate = {}
+
+      if (title !== undefined) {
+        if (typeof title !== 'string' || !title.trim() || title.length > 200) {
+          return NextResponse.json(
+            { error: 'Title must be 1-200 characters', code: 'VALIDATION_ERROR' },
+            { status: 400 }
+          )
+        }
+        update.title = title
+      }
+      if (is_pinned !== undefined) {
+        if (typeof is_pinned !== 'boolean') {
+          return NextResponse.json(
+            { error: 'is_pinned must be a boolean', code: 'VALIDATION_ERROR' },
+            { status: 400 }
+          )
+        }
+        update.isPinned = is_pinned
+      }
+      if (archived !== undefined) {
+        if (typeof archived !== 'boolean') {
+          return NextResponse.json(
+            { error: 'archived must be a boolean', code: 'VALIDATION_ERROR' },
+            { status: 400 }
+          )
+        }
+        update.archived = archived
+      }
+
+      if (Object.keys(update).length === 0) {
+        return NextResponse.json(
+          { error: 'No valid fields to update', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        )
+      }
+
+      const session = await updateSession(supabase, agencyId, userId, sessionId, update)
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Session not found', code: 'NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({ data: session })
+    } catch (error) {
+      console.error('[ChatSessions] Unexpected error:', error)
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      )
+    }
+  }
+)
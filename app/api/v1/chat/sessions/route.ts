@@ -8,7 +8,8 @@ import { withRateLimit } from '@/lib/security'
  * GET /api/v1/chat/sessions
  *
  * List chat sessions for the current user (user-scoped).
- * Returns sessions ordered by most recent activity.
+ * Returns pinned sessions first, then by most recent activity.
+ * Archived sessions are only listed with `?archived=true`.
  */
 export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
   async (request: AuthenticatedRequest) => {
@@ -22,13 +23,19 @@ export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
       const { searchParams } = new URL(request.url)
       const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50)
       const offset = parseInt(searchParams.get('offset') || '0')
+      const archived = searchParams.get('archived') === 'true'
 
-      // Fetch sessions for this user, ordered by most recent activity
-      const { data: sessions, error, count } = await supabase
+      // Fetch sessions for this user, pinned first, then by most recent activity
+      let query = supabase
         .from('chat_session')
         .select('*', { count: 'exact' })
         .eq('agency_id', agencyId)
         .eq('user_id', userId)
+
+      query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null)
+
+      const { data: sessions, error, count } = await query
+        .order('is_pinned', { ascending: false })
         .order('last_message_at', { ascending: false, nullsFirst: false })
         .range(offset, offset + limit - 1)
 
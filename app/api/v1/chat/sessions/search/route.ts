@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { withRateLimit } from '@/lib/security'
+import { searchChatMessages } from '@/lib/chat/context'
+
+/**
+ * GET /api/v1/chat/sessions/search?q=
+ *
+ * Full-text search across the current user's chat messages in their agency.
+ * Supports web-style queries: quoted phrases, OR, and -excluded words.
+ */
+export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
+  async (request: AuthenticatedRequest) => {
+    const rateLimitResponse = withRateLimit(request)
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = (searchParams.get('q') || '').trim()
+      const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50)
+
+      if (query.length < 2 || query.length > 200) {
+        return NextResponse.json(
+          { error: 'Search query must be 2-200 characters', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        )
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const { agencyId, id: userId } = request.user
+
+      const results = await searchChatMessages(supabase, agencyId, userId, query, limit)
+
+      return NextResponse.json({ data: results })
+    } catch (error) {
+      console.error('[ChatSearch] Unexpected error:', error)
+      return NextResponse.json(
+        { error: 'Failed to search chat history', code: 'SEARCH_FAILED' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,58 @@
+/**
+ * POST /api/v1/documents/[id]/versions/[versionId]/restore
+ * Make an older version current again. Recorded as a new version, then
+ * re-indexed in the background.
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { reindexDocument, restoreDocumentVersion } from '@/lib/rag/document-versions'
+import { apiLogger } from '@/lib/logger'
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+export const POST = withPermission({ resource: 'knowledge-base', action: 'write' })(
+  async (
+    request: AuthenticatedRequest,
+    { params }: { params: Promise<{ id: string; versionId: string }> }
+  ) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 10, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    try {
+      const { id, versionId } = await params
+      if (!UUID_REGEX.test(versionId)) {
+        return createErrorResponse(400, 'Invalid ID format')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const { agencyId, id: userId } = request.user
+
+      const result = await restoreDocumentVersion(supabase, { agencyId, userId, documentId: id, versionId })
+      if (!result) {
+        return createErrorResponse(404, 'Document or version not found')
+      }
+
+      // Fire-and-forget: index the restored file in place of the current one
+      ;(async () => {
+        const status = await reindexDocument(supabase, agencyId, id)
+        apiLogger.info({ documentId: id, version: result.version.version_number, status }, 'Restored document version indexed')
+      })()
+
+      return NextResponse.json({
+        version: result.version,
+        message: `Restored version ${result.restored.version_number}`,
+      })
+    } catch (error) {
+      console.error('Document version restore error:', error)
+      return createErrorResponse(500, 'Failed to restore version')
+    }
+  }
+)
@@ -0,0 +1,71 @@
+/**
+ * GET /api/v1/documents/[id]/versions/[versionId]?compareTo=
+ * A document version and a text diff from the previous version, or from
+ * compareTo (another version of the same document). The diff is unavailable
+ * for versions without extracted text.
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import {
+  diffDocumentVersions,
+  getDocumentVersion,
+  getPreviousDocumentVersion,
+  type DocumentVersion,
+} from '@/lib/rag/document-versions'
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+export const GET = withPermission({ resource: 'knowledge-base', action: 'read' })(
+  async (
+    request: AuthenticatedRequest,
+    { params }: { params: Promise<{ id: string; versionId: string }> }
+  ) => {
+    const rateLimitResponse = withRateLimit(request)
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const { id, versionId } = await params
+      const compareToId = new URL(request.url).searchParams.get('compareTo')
+
+      if (!UUID_REGEX.test(versionId) || (compareToId && !UUID_REGEX.test(compareToId))) {
+        return createErrorResponse(400, 'Invalid ID format')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const version = await getDocumentVersion(supabase, agencyId, id, versionId, true)
+      if (!version) {
+        return createErrorResponse(404, 'Version not found')
+      }
+
+      let compareTo: DocumentVersion | null
+      if (compareToId) {
+        compareTo = await getDocumentVersion(supabase, agencyId, id, compareToId, true)
+        if (!compareTo) {
+          return createErrorResponse(404, 'Comparison version not found')
+        }
+      } else {
+        compareTo = await getPreviousDocumentVersion(supabase, agencyId, id, version.version_number)
+      }
+
+      const diff = diffDocumentVersions(compareTo, version)
+
+      // Full texts can be large; the diff carries what the client needs
+      const { extracted_text: _text, ...versionInfo } = version
+      const compareToInfo = compareTo
+        ? (({ extracted_text: _compareText, ...rest }) => rest)(compareTo)
+        : null
+
+      return NextResponse.json({ version: versionInfo, compareTo: compareToInfo, diff })
+    } catch (error) {
+      console.error('Document version GET error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
@@ -0,0 +1,129 @@
+/**
+ * Document Versions API
+ * GET /api/v1/documents/[id]/versions - List versions, newest first
+ * POST /api/v1/documents/[id]/versions - Upload a new version (multipart: file, change_note)
+ *
+ * A new version becomes the document's current file and is re-indexed in the
+ * File Search Store in the background, replacing the previous version's chunks.
+ *
+ * RBAC: Requires knowledge-base:read (GET) or knowledge-base:write (POST)
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { listDocumentVersions, reindexDocument, uploadDocumentVersion } from '@/lib/rag/document-versions'
+import { apiLogger } from '@/lib/logger'
+
+// Same limits as first uploads
+const VALID_MIME_TYPES = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain']
+const MAX_FILE_SIZE = 50 * 1024 * 1024
+const MAX_CHANGE_NOTE_LENGTH = 500
+
+/**
+ * GET /api/v1/documents/[id]/versions
+ * List a document's versions with their authors
+ */
+export const GET = withPermission({ resource: 'knowledge-base', action: 'read' })(
+  async (
+    request: AuthenticatedRequest,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    const rateLimitResponse = withRateLimit(request)
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const { id } = await params
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { data: document, error } = await supabase
+        .from('document')
+        .select('id, current_version')
+        .eq('id', id)
+        .eq('agency_id', agencyId)
+        .eq('is_active', true)
+        .single()
+
+      if (error || !document) {
+        return createErrorResponse(404, 'Document not found')
+      }
+
+      const versions = await listDocumentVersions(supabase, agencyId, id)
+
+      return NextResponse.json({ versions, currentVersion: document.current_version })
+    } catch (error) {
+      console.error('Document versions GET error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
+
+/**
+ * POST /api/v1/documents/[id]/versions
+ * Upload a revised file as the document's new version
+ */
+export const POST = withPermission({ resource: 'knowledge-base', action: 'write' })(
+  async (
+    request: AuthenticatedRequest,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 30, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    try {
+      const { id } = await params
+      const supabase = await createRouteHandlerClient(cookies)
+      const { agencyId, id: userId } = request.user
+
+      const formData = await request.formData()
+      const file = formData.get('file') as File | null
+      const changeNote = formData.get('change_note') as string | null
+
+      if (!file) {
+        return createErrorResponse(400, 'File is required')
+      }
+
+      if (!VALID_MIME_TYPES.includes(file.type)) {
+        return createErrorResponse(400, 'Invalid file type. Only PDF, DOC, DOCX, and TXT are allowed')
+      }
+
+      if (file.size > MAX_FILE_SIZE) {
+        return createErrorResponse(400, 'File size exceeds 50MB limit')
+      }
+
+      if (changeNote && changeNote.length > MAX_CHANGE_NOTE_LENGTH) {
+        return createErrorResponse(400, `Change note too long (max ${MAX_CHANGE_NOTE_LENGTH} characters)`)
+      }
+
+      const buffer = Buffer.from(await file.arrayBuffer())
+      const version = await uploadDocumentVersion(supabase, {
+        agencyId,
+        userId,
+        documentId: id,
+        file: { buffer, fileName: file.name, mimeType: file.type },
+        changeNote: changeNote || undefined,
+      })
+
+      if (!version) {
+        return createErrorResponse(404, 'Document not found')
+      }
+
+      // Fire-and-forget: re-index and drop the previous version's chunks
+      ;(async () => {
+        const status = await reindexDocument(supabase, agencyId, id, buffer)
+        apiLogger.info({ documentId: id, version: version.version_number, status }, 'Document version indexed')
+      })()
+
+      return NextResponse.json({ version }, { status: 201 })
+    } catch (error) {
+      console.error('Document versions POST error:', error)
+      return createErrorResponse(500, 'Failed to upload new version')
+    }
+  }
+)
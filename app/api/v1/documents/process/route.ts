@@ -7,6 +7,7 @@ import { withRateLimit, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { getFileSearchStoreService } from '@/lib/gemini/file-search-store-service'
 import { getOrCreateAgencyStore } from '@/lib/gemini/store-provisioner'
+import { extractDocumentText } from '@/lib/rag/text-extraction'
 import type { IndexStatus } from '@/types/database'
 
 /**
@@ -108,8 +109,10 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'write'
         const { storeName, storeId } = await getOrCreateAgencyStore(supabase, agencyId)
 
         const service = getFileSearchStoreService()
-        const uploadResult = await service.uploadDocument(
+        // Replacing drops chunks left by an earlier attempt or version
+        const uploadResult = await service.replaceDocument(
           storeName,
+          doc.gemini_document_name,
           new Blob([buffer], { type: doc.mime_type }),
           {
             displayName: doc.title,
@@ -128,12 +131,23 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'write'
 
         const finalStatus: IndexStatus = uploadResult.status === 'active' ? 'indexed' : 'indexing'
 
+        // Text for keyword search; the document is still searchable by title without it
+        let extractedText: string | null = null
+        try {
+          extractedText = await extractDocumentText(buffer, doc.mime_type, (data, mimeType) =>
+            service.extractText(data, mimeType)
+          )
+        } catch (extractError) {
+          console.warn(`Failed to extract text from document ${doc.id}:`, extractError)
+        }
+
         // Update document with File Search Store references
         const { error: finalUpdateError } = await (supabase as any)
           .from('document')
           .update({
             gemini_document_name: uploadResult.documentName || null,
             file_search_store_id: storeId,
+            extracted_text: extractedText,
             index_status: finalStatus,
             updated_at: new Date().toISOString()
           })
@@ -160,6 +174,14 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'write'
           continue
         }
 
+        if (extractedText !== null) {
+          await supabase
+            .from('document_version')
+            .update({ extracted_text: extractedText })
+            .eq('document_id', doc.id)
+            .eq('version_number', doc.current_version)
+        }
+
         results.processed++
         results.details.push({
           id: doc.id,
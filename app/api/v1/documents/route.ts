@@ -5,8 +5,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient, getAuthenticatedUser } from '@/lib/supabase'
 import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
-import { getFileSearchStoreService } from '@/lib/gemini/file-search-store-service'
-import { getOrCreateAgencyStore } from '@/lib/gemini/store-provisioner'
+import { recordInitialDocumentVersion, reindexDocument } from '@/lib/rag/document-versions'
 import { apiLogger } from '@/lib/logger'
 import type { DocumentCategory, IndexStatus } from '@/types/database'
 
@@ -193,59 +192,18 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'write'
       return createErrorResponse(500, 'Failed to save document record')
     }
 
+    await recordInitialDocumentVersion(supabase, document)
+
     // Auto-upload to Gemini File Search Store for persistent RAG indexing
     // Fire-and-forget: don't block the response, retry via /process if it fails
     const documentId = document.id
-    const scope: 'global' | 'client' = clientId ? 'client' : 'global'
 
     ;(async () => {
-      try {
-        // Get or create the agency's File Search Store
-        const { storeName, storeId } = await getOrCreateAgencyStore(supabase, agencyId)
-
-        // Upload to File Search Store with custom metadata
-        const service = getFileSearchStoreService()
-        const result = await service.uploadDocument(
-          storeName,
-          new Blob([buffer], { type: file.type }),
-          {
-            displayName: title.trim(),
-            mimeType: file.type,
-            agencyId,
-            scope,
-            clientId: clientId || undefined,
-            category: category as string,
-            useForTraining: true,
-          }
-        )
-
-        if (result.status === 'failed') {
-          throw new Error(result.errorMessage || 'Upload to File Search Store failed')
-        }
-
-        // Update document record with File Search Store references
-        await (supabase as any)
-          .from('document')
-          .update({
-            gemini_document_name: result.documentName || null,
-            file_search_store_id: storeId,
-            index_status: (result.status === 'active' ? 'indexed' : 'indexing') as IndexStatus,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', documentId)
-
-        apiLogger.info({ documentId, documentName: result.documentName }, 'Document indexed in File Search Store')
-      } catch (geminiError) {
-        apiLogger.error({ documentId, err: geminiError }, 'File Search Store indexing failed')
-
-        // Mark as failed so it can be retried via /process endpoint
-        await supabase
-          .from('document')
-          .update({
-            index_status: 'failed' as IndexStatus,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', documentId)
+      const status = await reindexDocument(supabase, agencyId, documentId, buffer)
+      if (status === 'failed') {
+        apiLogger.error({ documentId }, 'File Search Store indexing failed')
+      } else {
+        apiLogger.info({ documentId, status }, 'Document indexed in File Search Store')
       }
     })()
 
@@ -4,6 +4,16 @@ import { createRouteHandlerClient } from '@/lib/supabase'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { getFileSearchStoreService } from '@/lib/gemini/file-search-store-service'
+import {
+  hybridDocumentSearch,
+  type DocumentSearchFacets,
+  type DocumentSearchFilters,
+  type DocumentSearchHit,
+  type SemanticRetriever,
+} from '@/lib/rag/hybrid-search'
+import type { DocumentCategory } from '@/types/database'
+
+const VALID_CATEGORIES: DocumentCategory[] = ['installation', 'tech', 'support', 'process', 'client_specific']
 
 interface SearchResult {
   answer: string
@@ -22,6 +32,80 @@ interface SearchResult {
   timestamp: string
 }
 
+interface HybridSearchResponse {
+  mode: 'hybrid'
+  query: string
+  hits: DocumentSearchHit[]
+  facets: DocumentSearchFacets & {
+    /** Display names for the client and uploader facet values */
+    labels: { clients: Record<string, string>; uploaders: Record<string, string> }
+  }
+  total: number
+  /** False when only keyword results are included */
+  semantic: boolean
+  timestamp: string
+}
+
+/**
+ * Read optional filters from the request body. Returns an error message for
+ * invalid values instead of silently widening the search.
+ */
+function parseSearchFilters(body: Record<string, unknown>): { filters: DocumentSearchFilters } | { error: string } {
+  const filters: DocumentSearchFilters = {}
+
+  if (body.category) {
+    if (!VALID_CATEGORIES.includes(body.category as DocumentCategory)) {
+      return { error: `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}` }
+    }
+    filters.category = body.category as DocumentCategory
+  }
+  if (body.client_id) {
+    if (typeof body.client_id !== 'string') return { error: 'client_id must be a string' }
+    filters.clientId = body.client_id
+  }
+  if (body.uploaded_by) {
+    if (typeof body.uploaded_by !== 'string') return { error: 'uploaded_by must be a string' }
+    filters.uploadedBy = body.uploaded_by
+  }
+  for (const key of ['from', 'to'] as const) {
+    const value = body[key]
+    if (!value) continue
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      return { error: `${key} must be an ISO date` }
+    }
+    filters[key] = new Date(value).toISOString()
+  }
+
+  return { filters }
+}
+
+/** Client names and uploader names for the ids in the facets */
+async function loadFacetLabels(
+  supabase: Awaited<ReturnType<typeof createRouteHandlerClient>>,
+  agencyId: string,
+  facets: DocumentSearchFacets
+): Promise<HybridSearchResponse['facets']['labels']> {
+  const clientIds = facets.clientId.map((bucket) => bucket.value)
+  const userIds = facets.uploadedBy.map((bucket) => bucket.value)
+
+  const [{ data: clients }, { data: users }] = await Promise.all([
+    clientIds.length > 0
+      ? supabase.from('client').select('id, name').eq('agency_id', agencyId).in('id', clientIds)
+      : Promise.resolve({ data: [] as Array<{ id: string; name: string }> }),
+    userIds.length > 0
+      ? supabase.from('user').select('id, first_name, last_name, email').eq('agency_id', agencyId).in('id', userIds)
+      : Promise.resolve({ data: [] as Array<{ id: string; first_name: string | null; last_name: string | null; email: string }> }),
+  ])
+
+  const labels: HybridSearchResponse['facets']['labels'] = { clients: {}, uploaders: {} }
+  for (const client of clients || []) labels.clients[client.id] = client.name
+  for (const user of users || []) {
+    const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ')
+    labels.uploaders[user.id] = fullName || user.email
+  }
+  return labels
+}
+
 /**
  * POST /api/v1/documents/search
  * Search across indexed documents using Gemini File Search Store
@@ -29,6 +113,11 @@ interface SearchResult {
  * Instead of manually passing file references to generateContent,
  * this now uses the `fileSearch` tool for true semantic search with
  * auto-chunking, embeddings, and citation grounding.
+ *
+ * With `mode: 'hybrid'`, returns ranked document hits instead of an answer:
+ * full-text matches over titles and extracted text fused with semantic
+ * passages, with highlighted snippets and facets. Optional filters:
+ * category, client_id, uploaded_by, from and to (upload date).
  */
 export const POST = withPermission({ resource: 'knowledge-base', action: 'read' })(
   async (request: AuthenticatedRequest) => {
@@ -41,7 +130,7 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'read'
 
     // Parse request body
     const body = await request.json()
-    const { query, client_id } = body
+    const { query, mode = 'answer' } = body
 
     // Validate query
     if (!query || typeof query !== 'string' || query.trim().length === 0) {
@@ -52,6 +141,16 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'read'
       return createErrorResponse(400, 'Search query too long (max 500 characters)')
     }
 
+    if (mode !== 'answer' && mode !== 'hybrid') {
+      return createErrorResponse(400, "mode must be 'answer' or 'hybrid'")
+    }
+
+    const parsed = parseSearchFilters(body)
+    if ('error' in parsed) {
+      return createErrorResponse(400, parsed.error)
+    }
+    const { filters } = parsed
+
     // Look up the agency's File Search Store
     const { data: store } = await (supabase as any)
       .from('file_search_store')
@@ -60,6 +159,36 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'read'
       .eq('is_active', true)
       .single()
 
+    if (mode === 'hybrid') {
+      const service = getFileSearchStoreService()
+      const retrieveSemantic: SemanticRetriever | undefined = store?.store_name
+        ? (q) => service.retrievePassages(store.store_name, q, {
+            agencyId,
+            clientId: filters.clientId,
+            category: filters.category,
+            useForTrainingOnly: true,
+          })
+        : undefined
+
+      const { hits, facets, semantic } = await hybridDocumentSearch(supabase, {
+        agencyId,
+        query: query.trim(),
+        filters,
+        retrieveSemantic,
+      })
+
+      const result: HybridSearchResponse = {
+        mode: 'hybrid',
+        query: query.trim(),
+        hits,
+        facets: { ...facets, labels: await loadFacetLabels(supabase, agencyId, facets) },
+        total: hits.length,
+        semantic,
+        timestamp: new Date().toISOString(),
+      }
+      return NextResponse.json(result)
+    }
+
     if (!store?.store_name) {
       return NextResponse.json({
         answer: "No knowledge base has been set up yet. Upload documents first — the search index will be created automatically.",
@@ -100,7 +229,8 @@ export const POST = withPermission({ resource: 'knowledge-base', action: 'read'
       query.trim(),
       {
         agencyId,
-        clientId: client_id || undefined,
+        clientId: filters.clientId,
+        category: filters.category,
         useForTrainingOnly: true,
       }
     )
@@ -12,6 +12,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withRateLimit, withCsrfProtection, isValidUUID, createErrorResponse, withTimeout } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { dispatchWorkflowEvent } from '@/lib/workflows/event-router'
 import { decryptToken, deserializeEncryptedToken } from '@/lib/crypto'
 import type { IntegrationProvider } from '@/types/database'
 
@@ -183,6 +184,18 @@ export const PATCH = withPermission({ resource: 'integrations', action: 'manage'
         return createErrorResponse(400, 'No valid fields to update')
       }
 
+      // Remember whether this update disconnects a live integration
+      let wasConnected = false
+      if (updates.is_connected === false) {
+        const { data: existing } = await supabase
+          .from('integration')
+          .select('is_connected')
+          .eq('id', id)
+          .eq('agency_id', agencyId) // Multi-tenant isolation (SEC-007)
+          .single()
+        wasConnected = existing?.is_connected === true
+      }
+
       const { data: integration, error } = await supabase
         .from('integration')
         .update(updates)
@@ -199,6 +212,20 @@ export const PATCH = withPermission({ resource: 'integrations', action: 'manage'
         return createErrorResponse(404, 'Integration not found')
       }
 
+      if (wasConnected) {
+        // Dispatch workflow event — fire-and-forget
+        dispatchWorkflowEvent(supabase, agencyId, request.user.id, {
+          type: 'integration_disconnected',
+          data: {
+            integrationId: integration.id,
+            provider: integration.provider,
+            status: 'disconnected',
+          },
+        }).catch((err) => {
+          console.error('[integrations/route] Workflow dispatch error:', err)
+        })
+      }
+
       // Return without exposing tokens
       const { access_token: _at, refresh_token: _rt, ...safeIntegration } = integration
 
@@ -10,7 +10,8 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withCsrfProtection } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
-import type { IntegrationProvider } from '@/types/database'
+import { dispatchWorkflowEvent } from '@/lib/workflows/event-router'
+import type { IntegrationProvider, Json } from '@/types/database'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -90,13 +91,39 @@ export const POST = withPermission({ resource: 'integrations', action: 'manage'
       )
     }
 
-    // Update last sync time on success
+    // The last check's result is kept in config so disconnect workflows fire
+    // once, when a connection goes from healthy to failing, not on every retest
+    const wasHealthy = integrationConfig.health_status !== 'unhealthy'
+    const checkedConfig = { ...integrationConfig, health_status: result.status }
+
     if (result.status === 'healthy') {
+      // Update last sync time on success
+      await supabase
+        .from('integration')
+        .update({ last_sync_at: new Date().toISOString(), config: checkedConfig as Json })
+        .eq('id', id)
+        .eq('agency_id', agencyId) // Multi-tenant isolation (SEC-007)
+    } else {
       await supabase
         .from('integration')
-        .update({ last_sync_at: new Date().toISOString() })
+        .update({ config: checkedConfig as Json })
         .eq('id', id)
         .eq('agency_id', agencyId) // Multi-tenant isolation (SEC-007)
+
+      // A connected integration failing its health check is treated as disconnected
+      if (wasHealthy) {
+        dispatchWorkflowEvent(supabase, agencyId, request.user.id, {
+          type: 'integration_disconnected',
+          data: {
+            integrationId: integration.id,
+            provider: integration.provider,
+            status: 'error',
+            error: result.error,
+          },
+        }).catch((err) => {
+          console.error('[integrations/test] Workflow dispatch error:', err)
+        })
+      }
     }
 
       return NextResponse.json({ data: result })
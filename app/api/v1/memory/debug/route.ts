@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission';
-import { initializeMem0Service } from '@/lib/memory/mem0-service';
+import { initializeMem0Service, getMemoryBackend } from '@/lib/memory/mem0-service';
 
 /**
  * GET /api/v1/memory/debug
@@ -28,6 +28,7 @@ export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
       };
 
       diagnostics.env = {
+        MEMORY_BACKEND: getMemoryBackend(),
         DIIIPLOY_GATEWAY_URL: process.env.DIIIPLOY_GATEWAY_URL || '(NOT SET — using default)',
         DIIIPLOY_GATEWAY_API_KEY: process.env.DIIIPLOY_GATEWAY_API_KEY
           ? `${process.env.DIIIPLOY_GATEWAY_API_KEY.substring(0, 8)}...`
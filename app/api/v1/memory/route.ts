@@ -1,7 +1,88 @@
 import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@/lib/supabase';
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission';
 import { withCsrfProtection } from '@/lib/security';
-import { initializeMem0Service } from '@/lib/memory/mem0-service';
+import { initializeMem0Service, filterMemories, type Mem0Service } from '@/lib/memory/mem0-service';
+import type { Memory, MemoryListFilters, MemoryType } from '@/lib/memory/types';
+import { EXPIRATION_DAYS } from '@/lib/memory/types';
+
+const IMPORTANCE_LEVELS = ['low', 'medium', 'high'] as const;
+
+// Filters the backend can't match (several types, medium importance, unpinned)
+// are applied in the app, over at most this many of the backend's matches
+const MAX_FILTERED_MEMORIES = 500;
+const FILTER_PAGE_SIZE = 100;
+const MAX_BULK_DELETE = 100;
+
+function parseFilters(searchParams: URLSearchParams): MemoryListFilters {
+  const filters: MemoryListFilters = {};
+  const types = (searchParams.get('type') || '')
+    .split(',')
+    .filter((type): type is MemoryType => type in EXPIRATION_DAYS);
+  if (types.length) filters.types = types;
+
+  const clientId = searchParams.get('clientId');
+  if (clientId) filters.clientId = clientId;
+
+  const importance = searchParams.get('importance');
+  if (IMPORTANCE_LEVELS.includes(importance as (typeof IMPORTANCE_LEVELS)[number])) {
+    filters.importance = importance as MemoryListFilters['importance'];
+  }
+
+  const pinned = searchParams.get('pinned');
+  if (pinned === 'true' || pinned === 'false') filters.pinned = pinned === 'true';
+  return filters;
+}
+
+/**
+ * Every memory matching the filters, unless the backend has more than
+ * MAX_FILTERED_MEMORIES candidates; then `truncated` is set and the list is partial.
+ */
+async function listFilteredMemories(
+  mem0: Mem0Service,
+  agencyId: string,
+  userId: string,
+  filters: MemoryListFilters
+): Promise<{ memories: Memory[]; truncated: boolean }> {
+  const memories: Memory[] = [];
+  for (let page = 1; page * FILTER_PAGE_SIZE <= MAX_FILTERED_MEMORIES; page++) {
+    const result = await mem0.listMemories(agencyId, userId, page, FILTER_PAGE_SIZE, filters);
+    memories.push(...result.memories);
+    if (page * FILTER_PAGE_SIZE >= result.total) return { memories, truncated: false };
+  }
+  return { memories, truncated: true };
+}
+
+/**
+ * Titles of the chat sessions memories were learned from, for linking back.
+ * Sessions that no longer exist (or never were persisted) are left out.
+ */
+async function loadSourceSessions(memories: Memory[], userId: string): Promise<Record<string, string>> {
+  const sessionIds = [...new Set(memories.map((m) => m.metadata.sessionId).filter((id): id is string => !!id))];
+  if (sessionIds.length === 0) return {};
+
+  const supabase = await createRouteHandlerClient(cookies);
+  const { data, error } = await supabase
+    .from('chat_session')
+    .select('id, title')
+    .eq('user_id', userId)
+    .in('id', sessionIds);
+
+  if (error) {
+    console.warn('[Memory API] Failed to load source sessions:', error.message);
+    return {};
+  }
+  return Object.fromEntries((data || []).map((session) => [session.id, session.title || 'Untitled chat']));
+}
+
+/**
+ * The memory, if it exists and belongs to the requesting user
+ */
+async function getOwnedMemory(mem0: Mem0Service, memoryId: string, userId: string): Promise<Memory | null> {
+  const memory = await mem0.getMemory(memoryId);
+  return memory && memory.metadata.userId === userId ? memory : null;
+}
 
 /**
  * GET /api/v1/memory
@@ -11,6 +92,12 @@ import { initializeMem0Service } from '@/lib/memory/mem0-service';
  *   - page (default: 1)
  *   - pageSize (default: 50)
  *   - search (optional search query)
+ *   - type (optional, comma-separated memory types)
+ *   - clientId, importance, pinned (optional filters)
+ *
+ * The response includes `sessions`: titles of the chat sessions the
+ * memories came from, keyed by session id. Filtered lists set `truncated`
+ * when only part of the matches could be scanned; `total` is then a lower bound.
  */
 export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
   async (request: AuthenticatedRequest) => {
@@ -22,6 +109,8 @@ export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
       const page = parseInt(url.searchParams.get('page') || '1', 10);
       const pageSize = parseInt(url.searchParams.get('pageSize') || '50', 10);
       const search = url.searchParams.get('search');
+      const filters = parseFilters(url.searchParams);
+      const hasFilters = Object.keys(filters).length > 0;
 
       console.log('[Memory API] GET request:', {
         agencyId: agencyId?.substring(0, 8) + '...',
@@ -42,8 +131,11 @@ export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
           query: search,
           agencyId,
           userId,
+          clientId: filters.clientId,
+          types: filters.types,
           limit: pageSize,
         });
+        result.memories = filterMemories(result.memories, filters);
         console.log('[Memory API] Search result:', {
           memoriesCount: result.memories.length,
           totalFound: result.totalFound,
@@ -51,10 +143,24 @@ export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
         });
         return NextResponse.json({
           memories: result.memories,
-          total: result.totalFound,
+          total: hasFilters ? result.memories.length : result.totalFound,
           page: 1,
           pageSize,
           searchTimeMs: result.searchTimeMs,
+          sessions: await loadSourceSessions(result.memories, userId),
+        });
+      }
+
+      if (hasFilters) {
+        const { memories: matching, truncated } = await listFilteredMemories(mem0, agencyId, userId, filters);
+        const memories = matching.slice((page - 1) * pageSize, page * pageSize);
+        return NextResponse.json({
+          memories,
+          page,
+          pageSize,
+          total: matching.length,
+          truncated,
+          sessions: await loadSourceSessions(memories, userId),
         });
       }
 
@@ -66,7 +172,7 @@ export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
         total: result.total,
         page: result.page,
       });
-      return NextResponse.json(result);
+      return NextResponse.json({ ...result, sessions: await loadSourceSessions(result.memories, userId) });
     } catch (error) {
       console.error('[Memory API] GET error:', error);
       console.error('[Memory API] GET error stack:', error instanceof Error ? error.stack : 'no stack');
@@ -90,7 +196,7 @@ export const GET = withPermission({ resource: 'ai-features', action: 'read' })(
  */
 export const POST = withPermission({ resource: 'ai-features', action: 'write' })(
   async (request: AuthenticatedRequest) => {
-    const csrfError = withCsrfProtection(request as any);
+    const csrfError = withCsrfProtection(request);
     if (csrfError) return csrfError;
 
     try {
@@ -132,16 +238,17 @@ export const POST = withPermission({ resource: 'ai-features', action: 'write' })
 
 /**
  * DELETE /api/v1/memory
- * Delete a specific memory or all memories
+ * Delete a specific memory, several memories or all memories
  *
  * Body:
  *   - memoryId (string) — delete a single memory
+ *   - memoryIds (string[]) — bulk delete, up to 100
  *   - deleteAll (boolean) — delete all memories for the user
  */
 export const DELETE = withPermission({ resource: 'ai-features', action: 'write' })(
   async (request: AuthenticatedRequest) => {
     // CSRF protection for destructive action
-    const csrfError = withCsrfProtection(request as any);
+    const csrfError = withCsrfProtection(request);
     if (csrfError) return csrfError;
 
     try {
@@ -156,13 +263,38 @@ export const DELETE = withPermission({ resource: 'ai-features', action: 'write'
         return NextResponse.json({ success, action: 'delete_all' });
       }
 
+      if (Array.isArray(body.memoryIds)) {
+        const memoryIds = body.memoryIds.filter((id: unknown): id is string => typeof id === 'string');
+        if (memoryIds.length === 0 || memoryIds.length > MAX_BULK_DELETE) {
+          return NextResponse.json(
+            { error: `memoryIds must list 1 to ${MAX_BULK_DELETE} memories` },
+            { status: 400 }
+          );
+        }
+
+        const deleted: string[] = [];
+        const failed: string[] = [];
+        for (const memoryId of memoryIds) {
+          const owned = await getOwnedMemory(mem0, memoryId, userId);
+          if (owned && (await mem0.deleteMemory(memoryId))) {
+            deleted.push(memoryId);
+          } else {
+            failed.push(memoryId);
+          }
+        }
+        return NextResponse.json({ success: failed.length === 0, action: 'delete_many', deleted, failed });
+      }
+
       if (body.memoryId) {
+        if (!(await getOwnedMemory(mem0, body.memoryId, userId))) {
+          return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+        }
         const success = await mem0.deleteMemory(body.memoryId);
         return NextResponse.json({ success, action: 'delete', memoryId: body.memoryId });
       }
 
       return NextResponse.json(
-        { error: 'memoryId or deleteAll is required' },
+        { error: 'memoryId, memoryIds or deleteAll is required' },
         { status: 400 }
       );
     } catch (error) {
@@ -186,7 +318,7 @@ export const DELETE = withPermission({ resource: 'ai-features', action: 'write'
 export const PUT = withPermission({ resource: 'ai-features', action: 'write' })(
   async (request: AuthenticatedRequest) => {
     // CSRF protection for mutation
-    const csrfError = withCsrfProtection(request as any);
+    const csrfError = withCsrfProtection(request);
     if (csrfError) return csrfError;
 
     try {
@@ -200,7 +332,12 @@ export const PUT = withPermission({ resource: 'ai-features', action: 'write' })(
       }
 
       const mem0 = initializeMem0Service();
-      const updated = await mem0.updateMemory(body.memoryId, body.content);
+      const existing = await getOwnedMemory(mem0, body.memoryId, request.user.id);
+      if (!existing) {
+        return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+      }
+
+      const updated = await mem0.updateMemory(body.memoryId, body.content, existing.metadata);
 
       if (!updated) {
         return NextResponse.json(
@@ -219,3 +356,52 @@ export const PUT = withPermission({ resource: 'ai-features', action: 'write' })(
     }
   }
 );
+
+/**
+ * PATCH /api/v1/memory
+ * Pin a memory or change its importance. Pinned memories never expire.
+ *
+ * Body:
+ *   - memoryId (string) — the memory to change
+ *   - pinned (boolean, optional)
+ *   - importance (string, optional) — high, medium, low
+ */
+export const PATCH = withPermission({ resource: 'ai-features', action: 'write' })(
+  async (request: AuthenticatedRequest) => {
+    const csrfError = withCsrfProtection(request);
+    if (csrfError) return csrfError;
+
+    try {
+      const body = await request.json();
+      const changes: { pinned?: boolean; importance?: 'low' | 'medium' | 'high' } = {};
+      if (typeof body.pinned === 'boolean') changes.pinned = body.pinned;
+      if (IMPORTANCE_LEVELS.includes(body.importance)) changes.importance = body.importance;
+
+      if (!body.memoryId || Object.keys(changes).length === 0) {
+        return NextResponse.json(
+          { error: 'memoryId and pinned or importance are required' },
+          { status: 400 }
+        );
+      }
+
+      const mem0 = initializeMem0Service();
+      const existing = await getOwnedMemory(mem0, body.memoryId, request.user.id);
+      if (!existing) {
+        return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+      }
+
+      const updated = await mem0.updateMemoryAttributes(existing, changes);
+      if (!updated) {
+        return NextResponse.json({ error: 'Failed to update memory' }, { status: 500 });
+      }
+
+      return NextResponse.json({ success: true, memory: updated });
+    } catch (error) {
+      console.error('[Memory API] PATCH error:', error);
+      return NextResponse.json(
+        { error: 'Failed to update memory' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -4,7 +4,9 @@
  * Fetches SEO intelligence from DataForSEO directly for client onboarding.
  * Returns domain metrics and competitors for display in the onboarding modal.
  *
- * Cost: ~$0.02 per enrichment (domain metrics + competitors call)
+ * Cost: ~$0.02 per enrichment (domain metrics + competitors call). Each
+ * enrichment counts as a request in the agency's AI usage ledger and is
+ * refused once its monthly AI budget is used up.
  */
 
 import { cookies } from 'next/headers'
@@ -12,6 +14,7 @@ import { NextResponse } from 'next/server'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { enrichDomainSEO, validateDomain } from '@/lib/services/seo-enrichment'
+import { checkAIBudget, LLMError, recordAIUsage } from '@/lib/llm'
 
 interface SEOEnrichmentRequest {
   domain: string
@@ -44,9 +47,31 @@ export const POST = withPermission({ resource: 'clients', action: 'write' })(
       })
     }
 
+    const supabase = await createRouteHandlerClient(cookies)
+    const agencyId = request.user.agencyId
+    try {
+      await checkAIBudget(supabase, agencyId, request.user.id)
+    } catch (error) {
+      if (error instanceof LLMError && error.code === 'BUDGET_EXCEEDED') {
+        return NextResponse.json(
+          { success: false, domain: validation.domain, summary: null, competitors: [], fetched_at: new Date().toISOString(), error: error.message },
+          { status: 429 }
+        )
+      }
+      throw error
+    }
+
     // Call DataForSEO directly via service
     const result = await enrichDomainSEO(validation.domain)
 
+    // DataForSEO bills per call rather than per token
+    await recordAIUsage(supabase, {
+      agencyId,
+      userId: request.user.id,
+      feature: 'seo_enrichment',
+      provider: 'dataforseo',
+    })
+
     return NextResponse.json(result, { status: result.success ? 200 : 500 })
   } catch (error) {
     console.error('SEO enrichment error:', error)
@@ -11,6 +11,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient, createServiceRoleClient } from '@/lib/supabase'
 import { withRateLimit, withCsrfProtection, sanitizeString, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { isLLMProviderName, LLM_PROVIDERS } from '@/lib/llm'
 
 // ============================================================================
 // GET /api/v1/settings/agency
@@ -192,6 +193,10 @@ export const PATCH = withPermission({ resource: 'settings', action: 'write' })(
           response_length,
           enabled_features,
           token_limit,
+          provider,
+          model,
+          monthly_token_budget,
+          user_monthly_token_budget,
         } = ai_config as Record<string, unknown>
 
         // Validate assistant_name
@@ -263,6 +268,37 @@ export const PATCH = withPermission({ resource: 'settings', action: 'write' })(
             'Token limit must be a number between 1000 and 1000000'
           )
         }
+
+        // Validate LLM provider selection (lib/llm)
+        if (provider !== undefined && !isLLMProviderName(provider)) {
+          return createErrorResponse(
+            400,
+            `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`
+          )
+        }
+        if (
+          model !== undefined &&
+          (typeof model !== 'string' || model.length > 100)
+        ) {
+          return createErrorResponse(400, 'Model must be a string of at most 100 characters')
+        }
+
+        // Validate monthly AI budgets (lib/llm/usage); null removes a budget
+        for (const [label, budget] of [
+          ['Monthly token budget', monthly_token_budget],
+          ['Per-user monthly token budget', user_monthly_token_budget],
+        ] as const) {
+          if (
+            budget !== undefined &&
+            budget !== null &&
+            (typeof budget !== 'number' || !Number.isInteger(budget) || budget < 1000 || budget > 10000000000)
+          ) {
+            return createErrorResponse(
+              400,
+              `${label} must be a whole number between 1000 and 10000000000`
+            )
+          }
+        }
       }
 
       updates.ai_config = ai_config
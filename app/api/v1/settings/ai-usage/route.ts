@@ -0,0 +1,79 @@
+/**
+ * AI Usage Report API
+ * GET /api/v1/settings/ai-usage - Month-to-date AI token usage against the agency's budgets
+ *
+ * RBAC Protection: settings:read
+ */
+
+import { NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { withRateLimit, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { AI_USAGE_FEATURE_LABELS, getAIUsageReport, loadAgencyAIConfig, type AIUsageFeature } from '@/lib/llm'
+import type { TokenUsageStats } from '@/types/settings'
+
+// Users listed individually in the report; the rest are left out
+const TOP_USERS = 10
+
+export const GET = withPermission({ resource: 'settings', action: 'read' })(
+  async (request: AuthenticatedRequest) => {
+  // Rate limit: 100 requests per minute
+  const rateLimitResponse = withRateLimit(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { agencyId } = request.user
+
+    // Service role client: the user's agency membership is already verified
+    const serviceClient = createServiceRoleClient()
+    if (!serviceClient) {
+      return createErrorResponse(500, 'Service configuration error')
+    }
+
+    const aiConfig = await loadAgencyAIConfig(serviceClient, agencyId)
+    const report = await getAIUsageReport(serviceClient, agencyId, aiConfig)
+
+    const topUsers = report.byUser.slice(0, TOP_USERS)
+    const userIds = topUsers.map((u) => u.userId).filter((id): id is string => id !== null)
+    const names = new Map<string, string>()
+    if (userIds.length > 0) {
+      const { data: users } = await serviceClient
+        .from('user')
+        .select('id, first_name, last_name, email')
+        .eq('agency_id', agencyId)
+        .in('id', userIds)
+      for (const user of users || []) {
+        const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ')
+        names.set(user.id, fullName || user.email)
+      }
+    }
+
+    const limit = report.limits.agency ?? 0
+    const usage: TokenUsageStats = {
+      current_usage: report.tokens,
+      limit,
+      percent_used: limit > 0 ? (report.tokens / limit) * 100 : 0,
+      usage_by_feature: Object.fromEntries(
+        Object.entries(report.byFeature).map(([feature, totals]) => [
+          AI_USAGE_FEATURE_LABELS[feature as AIUsageFeature] ?? feature,
+          totals.tokens,
+        ])
+      ),
+      daily_usage: report.daily,
+      requests: report.requests,
+      user_limit: report.limits.user,
+      usage_by_user: topUsers.map((u) => ({
+        user_id: u.userId,
+        name: u.userId ? names.get(u.userId) || 'Former user' : 'Automations',
+        tokens: u.tokens,
+        requests: u.requests,
+      })),
+      resets_at: report.resetsAt,
+    }
+
+    return NextResponse.json({ data: usage })
+  } catch (err) {
+    console.error('[Settings/AIUsage] Error:', err)
+    return createErrorResponse(500, 'Failed to load AI usage')
+  }
+})
@@ -9,6 +9,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withRateLimit, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { recordCartridgeVersion } from '@/lib/cartridges'
 
 // ============================================================================
 // GET /api/v1/settings/users/[id]/preferences
@@ -315,6 +316,18 @@ export const PATCH = withPermission({ resource: 'users', action: 'read' })(
         return createErrorResponse(500, 'Failed to update preferences')
       }
 
+      // Voice settings are the user's voice cartridge, so each save is versioned
+      const voice = (ai as { voice?: unknown } | undefined)?.voice
+      if (voice && typeof voice === 'object') {
+        await recordCartridgeVersion(supabase, {
+          agencyId,
+          type: 'voice',
+          cartridgeId: userId,
+          data: updatedPreferences.ai.voice,
+          createdBy: user.id,
+        })
+      }
+
       return NextResponse.json(
         { preferences: updatedPreferences },
         { status: 200 }
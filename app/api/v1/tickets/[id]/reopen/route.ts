@@ -3,6 +3,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withRateLimit, withCsrfProtection, isValidUUID, isValidTicketNumber, sanitizeString, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { dispatchWorkflowEvent } from '@/lib/workflows/event-router'
 
 // POST /api/v1/tickets/[id]/reopen - Reopen a resolved ticket
 export const POST = withPermission({ resource: 'tickets', action: 'write' })(
@@ -101,6 +102,23 @@ export const POST = withPermission({ resource: 'tickets', action: 'write' })(
       return createErrorResponse(500, 'Failed to reopen ticket')
     }
 
+    // Dispatch workflow event — fire-and-forget
+    dispatchWorkflowEvent(supabase, agencyId, userId, {
+      type: 'ticket_status_changed',
+      data: {
+        ticketId: ticket.id,
+        title: ticket.title,
+        category: ticket.category,
+        priority: ticket.priority,
+        fromStatus: 'resolved',
+        toStatus: 'in_progress',
+        clientId: ticket.client_id,
+      },
+      clientId: ticket.client_id,
+    }).catch((err) => {
+      console.error('[tickets/reopen] Workflow dispatch error:', err)
+    })
+
     // Add a note about reopening if reason provided
     if (typeof reason === 'string') {
       const sanitizedReason = sanitizeString(reason).slice(0, 1000)
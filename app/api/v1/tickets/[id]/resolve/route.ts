@@ -3,6 +3,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withRateLimit, withCsrfProtection, isValidUUID, isValidTicketNumber, sanitizeString, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { dispatchWorkflowEvent } from '@/lib/workflows/event-router'
 
 // POST /api/v1/tickets/[id]/resolve - Resolve a ticket with mandatory final note
 export const POST = withPermission({ resource: 'tickets', action: 'write' })(
@@ -131,6 +132,23 @@ export const POST = withPermission({ resource: 'tickets', action: 'write' })(
       return createErrorResponse(500, 'Failed to resolve ticket')
     }
 
+    // Dispatch workflow event — fire-and-forget
+    dispatchWorkflowEvent(supabase, agencyId, userId, {
+      type: 'ticket_status_changed',
+      data: {
+        ticketId: ticket.id,
+        title: ticket.title,
+        category: ticket.category,
+        priority: ticket.priority,
+        fromStatus: currentTicket.status,
+        toStatus: 'resolved',
+        clientId: ticket.client_id,
+      },
+      clientId: ticket.client_id,
+    }).catch((err) => {
+      console.error('[tickets/resolve] Workflow dispatch error:', err)
+    })
+
     // TODO: If send_client_email is true, queue an email to the client
     // This would integrate with an email service like SendGrid or Resend
     const emailSent = false
@@ -5,6 +5,7 @@ import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withRateLimit, withCsrfProtection, isValidUUID, isValidTicketNumber, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { dispatchWorkflowEvent } from '@/lib/workflows/event-router'
 import type { TicketStatus } from '@/types/database'
 
 const VALID_STATUSES: TicketStatus[] = ['new', 'in_progress', 'waiting_client', 'resolved']
@@ -43,6 +44,7 @@ export const PATCH = withPermission({ resource: 'tickets', action: 'write' })(
 
       // User already authenticated and authorized by middleware
       const agencyId = request.user.agencyId
+      const userId = request.user.id
 
       // Resolve ticket UUID if given a number
       let ticketUUID = id
@@ -122,6 +124,23 @@ export const PATCH = withPermission({ resource: 'tickets', action: 'write' })(
       return createErrorResponse(500, 'Failed to update ticket status')
     }
 
+    // Dispatch workflow event — fire-and-forget
+    dispatchWorkflowEvent(supabase, agencyId, userId, {
+      type: 'ticket_status_changed',
+      data: {
+        ticketId: ticket.id,
+        title: ticket.title,
+        category: ticket.category,
+        priority: ticket.priority,
+        fromStatus: currentStatus,
+        toStatus: newStatus,
+        clientId: ticket.client_id,
+      },
+      clientId: ticket.client_id,
+    }).catch((err) => {
+      console.error('[tickets/status] Workflow dispatch error:', err)
+    })
+
       return NextResponse.json({
         data: ticket,
         previousStatus: currentStatus,
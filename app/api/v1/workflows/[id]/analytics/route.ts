@@ -0,0 +1,62 @@
+/**
+ * Workflow Analytics API
+ * GET /api/v1/workflows/{id}/analytics - Run totals, success rate, average duration,
+ * runs per day and top failure reasons for one workflow
+ *
+ * Query params: start, end (ISO dates; defaults to the last 30 days)
+ *
+ * RBAC: Requires automations:read permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getWorkflow, getWorkflowAnalytics, parseAnalyticsRange } from '@/lib/workflows'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export const GET = withPermission({ resource: 'automations', action: 'read' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 60, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+
+    try {
+      if (!isValidUUID(id)) {
+        return createErrorResponse(400, 'Invalid workflow ID')
+      }
+
+      const { searchParams } = new URL(request.url)
+      const { data: range, error: rangeError } = parseAnalyticsRange(
+        searchParams.get('start'),
+        searchParams.get('end')
+      )
+      if (!range) {
+        return createErrorResponse(400, rangeError || 'Invalid date range')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { data: workflow } = await getWorkflow(supabase, id, agencyId)
+      if (!workflow) {
+        return createErrorResponse(404, 'Workflow not found')
+      }
+
+      const { data, error } = await getWorkflowAnalytics(supabase, id, agencyId, range)
+      if (error || !data) {
+        return createErrorResponse(500, 'Failed to load workflow analytics')
+      }
+
+      return NextResponse.json({ data, range })
+    } catch (error) {
+      console.error('GET /api/v1/workflows/[id]/analytics error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
@@ -11,7 +11,7 @@ import { createRouteHandlerClient } from '@/lib/supabase'
 import { withRateLimit, withCsrfProtection, isValidUUID, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { getWorkflow, createWorkflow } from '@/lib/workflows'
-import type { WorkflowTrigger, WorkflowAction } from '@/types/workflow'
+import type { WorkflowTrigger, WorkflowStep } from '@/types/workflow'
 
 type RouteContext = { params: Promise<{ id: string }> }
 
@@ -45,7 +45,7 @@ export const POST = withPermission({ resource: 'automations', action: 'manage' }
         ...t,
         id: `trigger-${crypto.randomUUID().slice(0, 8)}`,
       }))
-      const actions = (source.actions as unknown as WorkflowAction[]).map(a => ({
+      const actions = (source.actions as unknown as WorkflowStep[]).map(a => ({
         ...a,
         id: `action-${crypto.randomUUID().slice(0, 8)}`,
       }))
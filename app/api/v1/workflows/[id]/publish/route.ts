@@ -0,0 +1,82 @@
+/**
+ * Publish Workflow as Template API
+ * POST /api/v1/workflows/{id}/publish - Save a snapshot of the workflow as an
+ * agency template, listed by GET /api/v1/workflows/templates
+ *
+ * Body: { name?, description?, category? } (defaults to the workflow's name and description)
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import {
+  withRateLimit,
+  withCsrfProtection,
+  isValidUUID,
+  sanitizeString,
+  createErrorResponse,
+} from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getWorkflow, publishWorkflowTemplate, WORKFLOW_TEMPLATE_CATEGORIES } from '@/lib/workflows'
+import type { WorkflowTemplateCategory } from '@/types/workflow'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export const POST = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 20, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    const { id } = await params
+
+    try {
+      if (!isValidUUID(id)) {
+        return createErrorResponse(400, 'Invalid workflow ID')
+      }
+
+      let body: { name?: unknown; description?: unknown; category?: unknown } = {}
+      try {
+        body = await request.json()
+      } catch {
+        // All fields are optional
+      }
+
+      if (
+        body.category !== undefined &&
+        !WORKFLOW_TEMPLATE_CATEGORIES.includes(body.category as WorkflowTemplateCategory)
+      ) {
+        return createErrorResponse(400, `Category must be one of: ${WORKFLOW_TEMPLATE_CATEGORIES.join(', ')}`)
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { data: workflow } = await getWorkflow(supabase, id, agencyId)
+      if (!workflow) {
+        return createErrorResponse(404, 'Workflow not found')
+      }
+
+      const { data: template, error } = await publishWorkflowTemplate(supabase, agencyId, request.user.id, workflow, {
+        name: typeof body.name === 'string' ? sanitizeString(body.name).slice(0, 200) : undefined,
+        description: typeof body.description === 'string' ? sanitizeString(body.description).slice(0, 1000) : undefined,
+        category: body.category as WorkflowTemplateCategory | undefined,
+      })
+
+      if (error || !template) {
+        return createErrorResponse(500, 'Failed to publish template')
+      }
+
+      return NextResponse.json({ data: template }, { status: 201 })
+    } catch (error) {
+      console.error('POST /api/v1/workflows/[id]/publish error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
@@ -17,9 +17,9 @@ import {
   updateWorkflow,
   deleteWorkflow,
   validateTriggerConfig,
-  validateActionConfig,
+  validateWorkflowStep,
 } from '@/lib/workflows'
-import type { WorkflowTrigger, WorkflowAction } from '@/types/workflow'
+import type { WorkflowTrigger, WorkflowStep } from '@/types/workflow'
 
 type RouteContext = { params: Promise<{ id: string }> }
 
@@ -174,8 +174,8 @@ export const PATCH = withPermission({ resource: 'automations', action: 'manage'
       }
 
       const actionErrors: string[] = []
-      for (const action of actions as WorkflowAction[]) {
-        const validation = validateActionConfig(action)
+      for (const action of actions as WorkflowStep[]) {
+        const validation = validateWorkflowStep(action)
         if (!validation.valid) {
           actionErrors.push(...validation.errors)
         }
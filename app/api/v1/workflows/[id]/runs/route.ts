@@ -9,7 +9,7 @@ import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
-import { getWorkflowRuns, getWorkflowAnalytics } from '@/lib/workflows'
+import { getWorkflowRuns, getWorkflowAnalytics, parseAnalyticsRange } from '@/lib/workflows'
 
 type RouteContext = { params: Promise<{ id: string }> }
 
@@ -51,7 +51,8 @@ export const GET = withPermission({ resource: 'automations', action: 'read' })(
       // Optionally include analytics
       let analytics = null
       if (includeAnalytics) {
-        const analyticsResult = await getWorkflowAnalytics(supabase, id, agencyId)
+        const range = parseAnalyticsRange(startDate, endDate).data ?? undefined
+        const analyticsResult = await getWorkflowAnalytics(supabase, id, agencyId, range)
         if (analyticsResult.data) {
           analytics = analyticsResult.data
         }
@@ -0,0 +1,75 @@
+/**
+ * POST /api/v1/workflows/[id]/simulate - Dry-run a workflow ("Test run")
+ *
+ * Evaluates triggers, conditions, branches and variable substitution against a
+ * real client without creating a run or writing any records. Each action result
+ * carries the resolved config and whether it would run, skip or need approval.
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, withCsrfProtection, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export const POST = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 30, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    const { id } = await params
+
+    try {
+      if (!isValidUUID(id)) {
+        return createErrorResponse(400, 'Invalid workflow ID')
+      }
+
+      let body: { triggerData?: unknown; clientId?: unknown }
+      try {
+        body = await request.json()
+      } catch {
+        body = {}
+      }
+
+      const { triggerData: sampleTrigger, clientId } = body
+
+      if (
+        sampleTrigger !== undefined &&
+        (typeof sampleTrigger !== 'object' || sampleTrigger === null || Array.isArray(sampleTrigger))
+      ) {
+        return createErrorResponse(400, 'triggerData must be an object')
+      }
+
+      if (clientId !== undefined && (typeof clientId !== 'string' || !isValidUUID(clientId))) {
+        return createErrorResponse(400, 'Invalid client ID')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+      const userId = request.user.id
+
+      const triggerData: Record<string, unknown> = {
+        manual: true,
+        triggeredBy: userId,
+        ...(sampleTrigger as Record<string, unknown> | undefined),
+      }
+
+      const engine = new WorkflowEngine(supabase, agencyId, userId)
+      const result = await engine.executeWorkflow(id, triggerData, clientId, { dryRun: true })
+
+      return NextResponse.json({ data: result })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Simulation failed'
+      console.error('[WorkflowSimulate]', { workflowId: id, error: message })
+      return createErrorResponse(500, message)
+    }
+  }
+)
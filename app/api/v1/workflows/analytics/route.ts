@@ -0,0 +1,46 @@
+/**
+ * Agency Workflow Analytics API
+ * GET /api/v1/workflows/analytics - Run metrics across every workflow in the agency,
+ * with a per-workflow breakdown (runs, failures, success rate, last run)
+ *
+ * Query params: start, end (ISO dates; defaults to the last 30 days)
+ *
+ * RBAC: Requires automations:read permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getAgencyWorkflowAnalytics, parseAnalyticsRange } from '@/lib/workflows'
+
+export const GET = withPermission({ resource: 'automations', action: 'read' })(
+  async (request: AuthenticatedRequest) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 30, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const { searchParams } = new URL(request.url)
+      const { data: range, error: rangeError } = parseAnalyticsRange(
+        searchParams.get('start'),
+        searchParams.get('end')
+      )
+      if (!range) {
+        return createErrorResponse(400, rangeError || 'Invalid date range')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const { data, error } = await getAgencyWorkflowAnalytics(supabase, request.user.agencyId, range)
+
+      if (error || !data) {
+        return createErrorResponse(500, 'Failed to load workflow analytics')
+      }
+
+      return NextResponse.json({ data, range })
+    } catch (error) {
+      console.error('GET /api/v1/workflows/analytics error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
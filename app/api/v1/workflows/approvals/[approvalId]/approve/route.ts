@@ -0,0 +1,51 @@
+/**
+ * POST /api/v1/workflows/approvals/[approvalId]/approve
+ * Approve a pending action and resume its workflow run from that action
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withCsrfProtection, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { approveWorkflowAction } from '@/lib/workflows'
+
+interface RouteParams {
+  params: Promise<{ approvalId: string }>
+}
+
+export const POST = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    const { approvalId } = await params
+
+    try {
+      if (!isValidUUID(approvalId)) {
+        return createErrorResponse(400, 'Invalid approval ID')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const { approval, run, failure, error } = await approveWorkflowAction(
+        supabase,
+        approvalId,
+        request.user.agencyId,
+        request.user.id
+      )
+
+      if (error) return createErrorResponse(500, 'Failed to approve action')
+      if (failure === 'not_found') return createErrorResponse(404, 'Approval not found')
+      if (failure === 'expired') return createErrorResponse(410, 'Approval request has expired')
+      if (failure) return createErrorResponse(409, 'Approval has already been decided')
+
+      return NextResponse.json({ data: { approval, run } })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Approval failed'
+      console.error('[WorkflowApprovals]', { action: 'approve', approvalId, error: message })
+      return createErrorResponse(500, message)
+    }
+  }
+)
@@ -0,0 +1,62 @@
+/**
+ * POST /api/v1/workflows/approvals/[approvalId]/reject
+ * Reject a pending action; its workflow run completes without running it
+ *
+ * Body: { reason?: string }
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withCsrfProtection, isValidUUID, sanitizeString, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { rejectWorkflowAction } from '@/lib/workflows'
+
+interface RouteParams {
+  params: Promise<{ approvalId: string }>
+}
+
+export const POST = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    const { approvalId } = await params
+
+    try {
+      if (!isValidUUID(approvalId)) {
+        return createErrorResponse(400, 'Invalid approval ID')
+      }
+
+      let reason: string | undefined
+      try {
+        const body = await request.json()
+        reason = sanitizeString(body.reason).slice(0, 1000) || undefined
+      } catch {
+        // Reason is optional — an empty body is fine
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const { approval, run, failure, error } = await rejectWorkflowAction(
+        supabase,
+        approvalId,
+        request.user.agencyId,
+        request.user.id,
+        reason
+      )
+
+      if (error) return createErrorResponse(500, 'Failed to reject action')
+      if (failure === 'not_found') return createErrorResponse(404, 'Approval not found')
+      if (failure === 'expired') return createErrorResponse(410, 'Approval request has expired')
+      if (failure) return createErrorResponse(409, 'Approval has already been decided')
+
+      return NextResponse.json({ data: { approval, run } })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Rejection failed'
+      console.error('[WorkflowApprovals]', { action: 'reject', approvalId, error: message })
+      return createErrorResponse(500, message)
+    }
+  }
+)
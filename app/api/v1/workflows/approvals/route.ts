@@ -0,0 +1,65 @@
+/**
+ * Workflow Approvals API
+ * GET /api/v1/workflows/approvals - Approval inbox for actions marked requiresApproval
+ *
+ * Query: status (comma-separated, default "pending"), workflow_id, limit
+ *
+ * RBAC: Requires automations:read permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getWorkflowApprovals, expireWorkflowApprovals } from '@/lib/workflows'
+import type { ApprovalStatus } from '@/types/workflow'
+
+const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'expired']
+
+export const GET = withPermission({ resource: 'automations', action: 'read' })(
+  async (request: AuthenticatedRequest) => {
+    const rateLimitResponse = withRateLimit(request)
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { searchParams } = new URL(request.url)
+      const status = (searchParams.get('status') || 'pending')
+        .split(',')
+        .filter((s): s is ApprovalStatus => APPROVAL_STATUSES.includes(s as ApprovalStatus))
+      const workflowId = searchParams.get('workflow_id') || undefined
+      const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50), 100)
+
+      if (workflowId && !isValidUUID(workflowId)) {
+        return createErrorResponse(400, 'Invalid workflow ID')
+      }
+
+      // Expire overdue requests first so the inbox never offers a dead approval
+      await expireWorkflowApprovals(supabase, { agencyId })
+
+      const { data, error, count } = await getWorkflowApprovals(supabase, agencyId, {
+        status,
+        workflowId,
+        limit,
+      })
+
+      if (error) {
+        return createErrorResponse(500, 'Failed to fetch approvals')
+      }
+
+      return NextResponse.json({
+        approvals: data,
+        pagination: {
+          total: count,
+          has_more: (data?.length ?? 0) < count,
+        },
+      })
+    } catch (error) {
+      console.error('GET /api/v1/workflows/approvals error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
@@ -0,0 +1,52 @@
+/**
+ * Workflow Export API
+ * GET /api/v1/workflows/export - Download workflows as a versioned JSON bundle
+ *
+ * Query params: ids (comma-separated workflow IDs; defaults to every workflow)
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { exportWorkflowBundle, MAX_BUNDLE_WORKFLOWS } from '@/lib/workflows'
+
+export const GET = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 10, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const { searchParams } = new URL(request.url)
+      const ids = searchParams.get('ids')?.split(',').filter(Boolean)
+
+      if (ids && !ids.every(isValidUUID)) {
+        return createErrorResponse(400, 'Invalid workflow ID')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const { data: bundle, error } = await exportWorkflowBundle(supabase, request.user.agencyId, ids)
+
+      if (error || !bundle) {
+        return createErrorResponse(500, 'Failed to export workflows')
+      }
+      if (bundle.workflows.length === 0) {
+        return createErrorResponse(404, 'No workflows to export')
+      }
+      if (bundle.workflows.length > MAX_BUNDLE_WORKFLOWS) {
+        return createErrorResponse(400, `Export at most ${MAX_BUNDLE_WORKFLOWS} workflows at a time`)
+      }
+
+      const filename = `workflows-${bundle.exportedAt.slice(0, 10)}.json`
+      return NextResponse.json(bundle, {
+        headers: { 'Content-Disposition': `attachment; filename="${filename}"` },
+      })
+    } catch (error) {
+      console.error('GET /api/v1/workflows/export error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
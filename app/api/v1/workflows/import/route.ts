@@ -0,0 +1,127 @@
+/**
+ * Workflow Import API
+ * POST /api/v1/workflows/import - Create workflows from a bundle exported by
+ * GET /api/v1/workflows/export, possibly from another agency
+ *
+ * Body: { bundle, mapping? } where mapping replaces agency-specific values:
+ *   { user: { [oldId]: newId | null }, slack_channel: {...}, stage: {...} }
+ *
+ * References that exist in this agency are kept as-is. If any cannot be
+ * matched, nothing is imported and the response is 422 with the references
+ * to map. Imported workflows start inactive.
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import {
+  parseWorkflowBundle,
+  resolveBundleReferences,
+  remapWorkflowReferences,
+  validateBundleEntry,
+  createWorkflow,
+} from '@/lib/workflows'
+import type { Workflow, WorkflowReferenceMapping } from '@/types/workflow'
+
+export const POST = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 10, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    try {
+      let body: { bundle?: unknown; mapping?: WorkflowReferenceMapping }
+      try {
+        body = await request.json()
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON body')
+      }
+
+      const { data: bundle, errors } = parseWorkflowBundle(body.bundle)
+      if (!bundle) {
+        return NextResponse.json(
+          { error: 'validation_error', message: 'Invalid workflow bundle', details: { errors } },
+          { status: 400 }
+        )
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { data: resolution, error: resolveError } = await resolveBundleReferences(
+        supabase,
+        agencyId,
+        bundle,
+        body.mapping ?? {}
+      )
+
+      if (resolveError || !resolution) {
+        return createErrorResponse(500, 'Failed to resolve workflow references')
+      }
+
+      if (resolution.invalid.length > 0) {
+        return NextResponse.json(
+          { error: 'validation_error', message: 'Invalid reference mapping', details: { errors: resolution.invalid } },
+          { status: 400 }
+        )
+      }
+
+      if (resolution.unresolved.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'unresolved_references',
+            message: 'Map these values to your agency before importing',
+            details: { references: resolution.unresolved },
+          },
+          { status: 422 }
+        )
+      }
+
+      // Remapping can empty required values (e.g. a stage mapped to null), so validate again
+      const entries = bundle.workflows.map((entry) => remapWorkflowReferences(entry, resolution.mapping))
+      const remapErrors = entries.flatMap((entry) =>
+        validateBundleEntry(entry).map((e) => `Workflow "${entry.name}": ${e}`)
+      )
+      if (remapErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'validation_error', message: 'Invalid workflows after remapping', details: { errors: remapErrors } },
+          { status: 400 }
+        )
+      }
+
+      const created: Workflow[] = []
+      for (const entry of entries) {
+        const { data: workflow, error } = await createWorkflow(supabase, agencyId, request.user.id, {
+          name: entry.name,
+          description: entry.description ?? undefined,
+          triggers: entry.triggers,
+          actions: entry.actions,
+          isActive: false,
+        })
+
+        if (error || !workflow) {
+          return NextResponse.json(
+            {
+              error: 'internal_error',
+              message: `Failed to import "${entry.name}"`,
+              details: { imported: created.map((w) => w.id) },
+            },
+            { status: 500 }
+          )
+        }
+        created.push(workflow)
+      }
+
+      return NextResponse.json({ data: created }, { status: 201 })
+    } catch (error) {
+      console.error('POST /api/v1/workflows/import error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
@@ -15,9 +15,9 @@ import {
   getWorkflows,
   createWorkflow,
   validateTriggerConfig,
-  validateActionConfig,
+  validateWorkflowStep,
 } from '@/lib/workflows'
-import type { WorkflowTrigger, WorkflowAction } from '@/types/workflow'
+import type { WorkflowTrigger, WorkflowStep } from '@/types/workflow'
 
 // ============================================================================
 // GET /api/v1/workflows
@@ -188,8 +188,8 @@ export const POST = withPermission({ resource: 'automations', action: 'manage' }
 
     // Validate actions
     const actionErrors: string[] = []
-    for (const action of actions as WorkflowAction[]) {
-      const validation = validateActionConfig(action)
+    for (const action of actions as WorkflowStep[]) {
+      const validation = validateWorkflowStep(action)
       if (!validation.valid) {
         actionErrors.push(...validation.errors)
       }
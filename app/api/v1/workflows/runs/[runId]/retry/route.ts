@@ -0,0 +1,57 @@
+/**
+ * POST /api/v1/workflows/runs/[runId]/retry
+ * Re-execute a failed or partially failed run from its first failed action. The retry is recorded
+ * as a new run linked to the original through retry_of_run_id.
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, withCsrfProtection, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getWorkflowRun, isRetryableRunStatus } from '@/lib/workflows'
+import { WorkflowEngine } from '@/lib/workflows/execution-engine'
+
+interface RouteParams {
+  params: Promise<{ runId: string }>
+}
+
+export const POST = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 10, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    const { runId } = await params
+
+    try {
+      if (!isValidUUID(runId)) {
+        return createErrorResponse(400, 'Invalid run ID')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { data: run, error } = await getWorkflowRun(supabase, runId, agencyId)
+      if (error || !run) {
+        return createErrorResponse(404, 'Workflow run not found')
+      }
+      if (!isRetryableRunStatus(run.status)) {
+        return createErrorResponse(409, 'Only failed or partially failed runs can be retried')
+      }
+
+      const engine = new WorkflowEngine(supabase, agencyId, request.user.id)
+      const result = await engine.retryWorkflowRun(runId)
+
+      return NextResponse.json({ data: result }, { status: 201 })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Retry failed'
+      console.error('[WorkflowRetry]', { runId, error: message })
+      return createErrorResponse(500, message)
+    }
+  }
+)
@@ -0,0 +1,65 @@
+/**
+ * Workflow Run Detail API
+ * GET /api/v1/workflows/runs/{runId} - One run with its trigger payload, per-action
+ * results (resolved config, output, duration) and any retries started from it
+ *
+ * RBAC: Requires automations:read permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getWorkflow, getWorkflowRun, getWorkflowRunRetries } from '@/lib/workflows'
+import type { WorkflowRunDetail, WorkflowStep } from '@/types/workflow'
+
+interface RouteParams {
+  params: Promise<{ runId: string }>
+}
+
+export const GET = withPermission({ resource: 'automations', action: 'read' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const { runId } = await params
+
+    try {
+      if (!isValidUUID(runId)) {
+        return createErrorResponse(400, 'Invalid run ID')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { data: run, error } = await getWorkflowRun(supabase, runId, agencyId)
+      if (error || !run) {
+        return createErrorResponse(404, 'Workflow run not found')
+      }
+
+      const [{ data: workflow }, { data: retries, error: retriesError }] = await Promise.all([
+        getWorkflow(supabase, run.workflow_id, agencyId),
+        getWorkflowRunRetries(supabase, run.id, agencyId),
+      ])
+
+      if (retriesError) {
+        return createErrorResponse(500, 'Failed to load workflow run')
+      }
+
+      // Action names come from the workflow's current definition; deleted
+      // workflows still show their results keyed by action ID
+      const detail: WorkflowRunDetail = {
+        ...run,
+        workflow: {
+          id: run.workflow_id,
+          name: workflow?.name ?? 'Deleted workflow',
+          actions: (workflow?.actions ?? []) as unknown as WorkflowStep[],
+        },
+        retries: retries ?? [],
+      }
+
+      return NextResponse.json({ data: detail })
+    } catch (error) {
+      console.error('GET /api/v1/workflows/runs/[runId] error:', error)
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
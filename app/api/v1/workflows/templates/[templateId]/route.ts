@@ -0,0 +1,51 @@
+/**
+ * Agency Workflow Template API
+ * DELETE /api/v1/workflows/templates/{templateId} - Remove a published template
+ *
+ * Workflows already created from the template are not affected.
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withCsrfProtection, isValidUUID, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getAgencyTemplate, deleteAgencyTemplate } from '@/lib/workflows'
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>
+}
+
+export const DELETE = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest, { params }: RouteParams) => {
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    const { templateId } = await params
+
+    try {
+      if (!isValidUUID(templateId)) {
+        return createErrorResponse(400, 'Invalid template ID')
+      }
+
+      const supabase = await createRouteHandlerClient(cookies)
+      const agencyId = request.user.agencyId
+
+      const { data: template } = await getAgencyTemplate(supabase, templateId, agencyId)
+      if (!template) {
+        return createErrorResponse(404, 'Template not found')
+      }
+
+      const { error } = await deleteAgencyTemplate(supabase, templateId, agencyId)
+      if (error) {
+        return createErrorResponse(500, 'Failed to delete template')
+      }
+
+      return NextResponse.json({ success: true })
+    } catch {
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
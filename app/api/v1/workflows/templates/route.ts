@@ -1,30 +1,47 @@
 /**
  * Workflow Templates API
  *
- * GET /api/v1/workflows/templates - List available templates
+ * GET /api/v1/workflows/templates - List built-in templates and the agency's published templates
  * POST /api/v1/workflows/templates - Create workflow from template
+ *   Body: { templateKey } for a built-in template, or { templateId } for an agency template
  */
 
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { createRouteHandlerClient } from '@/lib/supabase'
-import { withCsrfProtection, createErrorResponse } from '@/lib/security'
+import { withCsrfProtection, isValidUUID, createErrorResponse } from '@/lib/security'
 import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
 import { SEED_TEMPLATES, getTemplateKeys } from '@/lib/workflows/seed-templates'
 import { createWorkflow } from '@/lib/workflows/workflow-queries'
+import { getAgencyTemplate, getAgencyTemplates, recordTemplateUse } from '@/lib/workflows/templates'
+import type { WorkflowTemplate } from '@/types/workflow'
 
 // GET - List available templates
 export const GET = withPermission({ resource: 'automations', action: 'read' })(
-  async () => {
+  async (request: AuthenticatedRequest) => {
     const templates = getTemplateKeys().map((key) => ({
       key,
+      source: 'seed' as const,
       ...SEED_TEMPLATES[key],
       // Strip action/trigger IDs for the listing
       triggerCount: SEED_TEMPLATES[key].triggers.length,
       actionCount: SEED_TEMPLATES[key].actions.length,
     }))
 
-    return NextResponse.json({ data: templates })
+    const supabase = await createRouteHandlerClient(cookies)
+    const { data: agencyTemplates, error } = await getAgencyTemplates(supabase, request.user.agencyId)
+    if (error) {
+      return createErrorResponse(500, 'Failed to fetch templates')
+    }
+
+    const published = (agencyTemplates ?? []).map((template) => ({
+      ...template,
+      source: 'agency' as const,
+      triggerCount: template.triggers.length,
+      actionCount: template.actions.length,
+    }))
+
+    return NextResponse.json({ data: [...templates, ...published] })
   }
 )
 
@@ -40,15 +57,30 @@ export const POST = withPermission({ resource: 'automations', action: 'manage' }
       const userId = request.user.id
 
       const body = await request.json()
-      const { templateKey, slackChannelId, customName } = body as {
-        templateKey: string
+      const { templateKey, templateId, slackChannelId, customName } = body as {
+        templateKey?: string
+        templateId?: string
         slackChannelId?: string
         customName?: string
       }
 
-      const template = SEED_TEMPLATES[templateKey]
-      if (!template) {
-        return createErrorResponse(400, `Unknown template: ${templateKey}`)
+      let template: Pick<WorkflowTemplate, 'name' | 'description' | 'triggers' | 'actions'> | undefined
+      let agencyTemplate: WorkflowTemplate | null = null
+
+      if (templateId) {
+        if (!isValidUUID(templateId)) {
+          return createErrorResponse(400, 'Invalid template ID')
+        }
+        const { data } = await getAgencyTemplate(supabase, templateId, agencyId)
+        if (!data) {
+          return createErrorResponse(404, 'Template not found')
+        }
+        template = agencyTemplate = data
+      } else {
+        template = templateKey ? SEED_TEMPLATES[templateKey] : undefined
+        if (!template) {
+          return createErrorResponse(400, `Unknown template: ${templateKey}`)
+        }
       }
 
       // Deep-clone and customize the template
@@ -85,6 +117,10 @@ export const POST = withPermission({ resource: 'automations', action: 'manage' }
         return createErrorResponse(500, error?.message || 'Failed to create workflow')
       }
 
+      if (agencyTemplate) {
+        await recordTemplateUse(supabase, agencyTemplate, agencyId)
+      }
+
       return NextResponse.json({ data: workflow }, { status: 201 })
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to create from template'
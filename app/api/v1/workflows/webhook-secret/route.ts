@@ -0,0 +1,60 @@
+/**
+ * Workflow Webhook Secret API
+ * GET  /api/v1/workflows/webhook-secret - Reveal the agency's signing secret (created on first use)
+ * POST /api/v1/workflows/webhook-secret - Rotate the signing secret
+ *
+ * Receivers of call_webhook actions verify X-Webhook-Signature with this secret.
+ *
+ * RBAC: Requires automations:manage permission
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@/lib/supabase'
+import { withRateLimit, withCsrfProtection, createErrorResponse } from '@/lib/security'
+import { withPermission, type AuthenticatedRequest } from '@/lib/rbac/with-permission'
+import { getWebhookSecret, rotateWebhookSecret } from '@/lib/workflows/webhooks'
+
+export const GET = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest) => {
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 30, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    try {
+      const supabase = await createRouteHandlerClient(cookies)
+      const { data: secret, error } = await getWebhookSecret(supabase, request.user.agencyId)
+
+      if (error || !secret) {
+        return createErrorResponse(500, 'Failed to load webhook secret')
+      }
+
+      return NextResponse.json({ data: { secret } })
+    } catch {
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
+
+export const POST = withPermission({ resource: 'automations', action: 'manage' })(
+  async (request: AuthenticatedRequest) => {
+    // Rotation breaks every receiver until they are updated, so keep it rare
+    const rateLimitResponse = withRateLimit(request, { maxRequests: 5, windowMs: 60000 })
+    if (rateLimitResponse) return rateLimitResponse
+
+    const csrfError = withCsrfProtection(request)
+    if (csrfError) return csrfError
+
+    try {
+      const supabase = await createRouteHandlerClient(cookies)
+      const { data: secret, error } = await rotateWebhookSecret(supabase, request.user.agencyId)
+
+      if (error || !secret) {
+        return createErrorResponse(500, 'Failed to rotate webhook secret')
+      }
+
+      return NextResponse.json({ data: { secret } })
+    } catch {
+      return createErrorResponse(500, 'Internal server error')
+    }
+  }
+)
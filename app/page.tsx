@@ -19,6 +19,7 @@ import {
   type SortOption,
 } from "@/components/linear"
 import { usePipelineStore, type Client as StoreClient } from "@/stores/pipeline-store"
+import { useChatContextStore } from "@/stores/chat-context-store"
 import { getOwnerData, OWNER_DATA, type MinimalClient, type Stage } from "@/types/client"
 import { sortClients, type SortMode } from "@/lib/client-priority"
 import { useAuth } from "@/hooks/use-auth"
@@ -541,6 +542,19 @@ function CommandCenterContent() {
     }
   }, [filteredClients, selectedClient, activeView])
 
+  // Tell the chat what is on screen: the view, the client in focus and the list filters
+  const setChatPageContext = useChatContextStore((state) => state.setPageContext)
+  useEffect(() => {
+    const filters = activeView === "clients"
+      ? Object.fromEntries(Object.entries(clientFilters).filter(([, value]) => value)) as Record<string, string>
+      : undefined
+    setChatPageContext({
+      route: activeView === "dashboard" ? "/" : `/${activeView}`,
+      clientId: (activeView === "client" ? fullViewClientId : selectedClient?.id) ?? undefined,
+      filters,
+    })
+  }, [activeView, fullViewClientId, selectedClient?.id, clientFilters, setChatPageContext])
+
   // Transform client to detail panel format
   // Uses fresh data from the clients array (derived from store) so the panel
   // automatically reflects store updates (e.g., after assignment changes)
@@ -23,20 +23,38 @@ import {
   UserCog,
   AlertTriangle,
   Hash,
+  Webhook,
   X,
   GripVertical,
   Plus,
   Clock,
+  GitBranch,
+  Filter,
 } from 'lucide-react'
-import type { WorkflowAction, ActionType } from '@/types/workflow'
-import { ACTION_TYPES, DELAY_PRESETS, AVAILABLE_VARIABLES } from '@/lib/workflows/action-registry'
+import type {
+  WorkflowAction,
+  ActionType,
+  WorkflowStep,
+  BranchStep,
+  WorkflowBranch,
+} from '@/types/workflow'
+import {
+  ACTION_TYPES,
+  DELAY_PRESETS,
+  AVAILABLE_VARIABLES,
+  DEFAULT_WEBHOOK_RETRIES,
+  MAX_WEBHOOK_RETRIES,
+  WEBHOOK_METHODS,
+  isBranchStep,
+} from '@/lib/workflows/action-registry'
+import { ConditionGroupEditor, createEmptyGroup, toConditionGroup } from './condition-builder'
 
 interface ActionBuilderProps {
-  actions: WorkflowAction[]
-  onAdd: (action: WorkflowAction) => void
+  actions: WorkflowStep[]
+  onAdd: (action: WorkflowStep) => void
   onRemove: (actionId: string) => void
-  onUpdate: (actionId: string, updates: Partial<WorkflowAction>) => void
-  onReorder: (actions: WorkflowAction[]) => void
+  onUpdate: (actionId: string, updates: Partial<WorkflowStep>) => void
+  onReorder: (actions: WorkflowStep[]) => void
   pipelineStages?: string[]
 }
 
@@ -48,6 +66,7 @@ const ACTION_ICONS: Record<ActionType, React.ComponentType<{ className?: string
   update_client: UserCog,
   create_alert: AlertTriangle,
   create_slack_channel: Hash,
+  call_webhook: Webhook,
 }
 
 export function ActionBuilder({
@@ -61,39 +80,13 @@ export function ActionBuilder({
   const [showTypeSelector, setShowTypeSelector] = useState(false)
 
   const handleAddAction = (type: ActionType) => {
-    const newAction: WorkflowAction = {
-      id: `action-${crypto.randomUUID()}`,
-      type,
-      name: ACTION_TYPES[type].name,
-      config: getDefaultConfig(type),
-      delayMinutes: 0,
-      continueOnFailure: false,
-      requiresApproval: ACTION_TYPES[type].supportsApproval ? false : undefined,
-    } as WorkflowAction
-
-    onAdd(newAction)
+    onAdd(createAction(type))
     setShowTypeSelector(false)
   }
 
-  const getDefaultConfig = (type: ActionType): Record<string, unknown> => {
-    switch (type) {
-      case 'create_task':
-        return { title: '', priority: 'medium', assignToTriggeredUser: true }
-      case 'send_notification':
-        return { channel: 'slack', message: '', recipients: [] }
-      case 'draft_communication':
-        return { platform: 'gmail', template: '', tone: 'professional' }
-      case 'create_ticket':
-        return { title: '', category: 'general', priority: 'medium' }
-      case 'update_client':
-        return { updates: {} }
-      case 'create_alert':
-        return { title: '', type: 'risk_detected', severity: 'medium' }
-      case 'create_slack_channel':
-        return { channelName: 'client-{{client.name}}', isPrivate: false }
-      default:
-        return {}
-    }
+  const handleAddBranch = () => {
+    onAdd(createBranchStep())
+    setShowTypeSelector(false)
   }
 
   return (
@@ -113,17 +106,29 @@ export function ActionBuilder({
 
       {/* Actions List */}
       <div className="space-y-3">
-        {actions.map((action, index) => (
-          <ActionConfigCard
-            key={action.id}
-            action={action}
-            index={index}
-            onRemove={() => onRemove(action.id)}
-            onUpdate={(updates) => onUpdate(action.id, updates)}
-            pipelineStages={pipelineStages}
-            isLast={index === actions.length - 1}
-          />
-        ))}
+        {actions.map((action, index) =>
+          isBranchStep(action) ? (
+            <BranchStepCard
+              key={action.id}
+              step={action}
+              index={index}
+              onRemove={() => onRemove(action.id)}
+              onUpdate={(updates) => onUpdate(action.id, updates)}
+              pipelineStages={pipelineStages}
+              isLast={index === actions.length - 1}
+            />
+          ) : (
+            <ActionConfigCard
+              key={action.id}
+              action={action}
+              index={index}
+              onRemove={() => onRemove(action.id)}
+              onUpdate={(updates) => onUpdate(action.id, updates)}
+              pipelineStages={pipelineStages}
+              isLast={index === actions.length - 1}
+            />
+          )
+        )}
       </div>
 
       {/* Type Selector */}
@@ -157,6 +162,14 @@ export function ActionBuilder({
                 )
               })}
             </div>
+            <Button
+              variant="outline"
+              className="w-full mt-2 h-auto py-2.5 gap-2 border-amber-500/40"
+              onClick={handleAddBranch}
+            >
+              <GitBranch className="h-4 w-4 text-amber-500" />
+              <span className="text-xs font-medium">If / Else Branch</span>
+            </Button>
             {actions.length > 0 && (
               <Button
                 variant="ghost"
@@ -194,6 +207,228 @@ export function ActionBuilder({
   )
 }
 
+// ============================================================================
+// STEP FACTORIES
+// ============================================================================
+
+function getDefaultConfig(type: ActionType): Record<string, unknown> {
+  switch (type) {
+    case 'create_task':
+      return { title: '', priority: 'medium', assignToTriggeredUser: true }
+    case 'send_notification':
+      return { channel: 'slack', message: '', recipients: [] }
+    case 'draft_communication':
+      return { platform: 'gmail', template: '', tone: 'professional' }
+    case 'create_ticket':
+      return { title: '', category: 'general', priority: 'medium' }
+    case 'update_client':
+      return { updates: {} }
+    case 'create_alert':
+      return { title: '', type: 'risk_detected', severity: 'medium' }
+    case 'create_slack_channel':
+      return { channelName: 'client-{{client.name}}', isPrivate: false }
+    case 'call_webhook':
+      return { url: '', method: 'POST', maxRetries: DEFAULT_WEBHOOK_RETRIES }
+    default:
+      return {}
+  }
+}
+
+function createAction(type: ActionType): WorkflowAction {
+  return {
+    id: `action-${crypto.randomUUID()}`,
+    type,
+    name: ACTION_TYPES[type].name,
+    config: getDefaultConfig(type),
+    delayMinutes: 0,
+    continueOnFailure: false,
+    requiresApproval: ACTION_TYPES[type].supportsApproval ? false : undefined,
+  } as WorkflowAction
+}
+
+function createBranch(position: number): WorkflowBranch {
+  return {
+    id: `branch-${crypto.randomUUID()}`,
+    name: `Path ${position}`,
+    condition: createEmptyGroup(),
+    actions: [],
+  }
+}
+
+function createBranchStep(): BranchStep {
+  return {
+    id: `action-${crypto.randomUUID()}`,
+    type: 'branch',
+    name: 'If / Else',
+    branches: [createBranch(1)],
+    elseActions: [],
+  }
+}
+
+// ============================================================================
+// BRANCH STEP CARD
+// ============================================================================
+
+interface BranchStepCardProps {
+  step: BranchStep
+  index: number
+  onRemove: () => void
+  onUpdate: (updates: Partial<BranchStep>) => void
+  pipelineStages: string[]
+  isLast: boolean
+}
+
+function BranchStepCard({ step, index, onRemove, onUpdate, pipelineStages, isLast }: BranchStepCardProps) {
+  const elseActions = step.elseActions ?? []
+
+  const updateBranch = (branchId: string, updates: Partial<WorkflowBranch>) => {
+    onUpdate({
+      branches: step.branches.map((b) => (b.id === branchId ? { ...b, ...updates } : b)),
+    })
+  }
+
+  const removeBranch = (branchId: string) => {
+    onUpdate({ branches: step.branches.filter((b) => b.id !== branchId) })
+  }
+
+  return (
+    <div className="relative">
+      {!isLast && <div className="absolute left-6 top-full w-0.5 h-3 bg-border z-0" />}
+
+      <Card className="border-amber-500/30 bg-amber-500/5">
+        <CardHeader className="pb-2 pt-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+              <div className="p-1.5 rounded bg-amber-500/10">
+                <GitBranch className="h-4 w-4 text-amber-500" />
+              </div>
+              <Badge variant="outline" className="text-xs border-amber-500/50 text-amber-500">
+                {index + 1}
+              </Badge>
+              <Input
+                value={step.name}
+                onChange={(e) => onUpdate({ name: e.target.value })}
+                className="h-7 text-[11px] font-medium w-[180px]"
+              />
+            </div>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onRemove}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="pb-3 pt-0 space-y-3">
+          {step.branches.map((branch, branchIndex) => (
+            <div key={branch.id} className="space-y-2 rounded-md border border-border p-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-semibold uppercase text-amber-500">
+                    {branchIndex === 0 ? 'If' : 'Else if'}
+                  </span>
+                  <Input
+                    value={branch.name}
+                    onChange={(e) => updateBranch(branch.id, { name: e.target.value })}
+                    className="h-6 text-[11px] w-[140px]"
+                  />
+                </div>
+                {step.branches.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    onClick={() => removeBranch(branch.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              <ConditionGroupEditor
+                group={branch.condition}
+                onChange={(condition) => updateBranch(branch.id, { condition })}
+              />
+              <BranchActionList
+                actions={branch.actions}
+                onChange={(actions) => updateBranch(branch.id, { actions })}
+                pipelineStages={pipelineStages}
+              />
+            </div>
+          ))}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-[10px]"
+            onClick={() => onUpdate({ branches: [...step.branches, createBranch(step.branches.length + 1)] })}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add else-if path
+          </Button>
+
+          <div className="space-y-2 rounded-md border border-dashed border-border p-2">
+            <span className="text-[10px] font-semibold uppercase text-muted-foreground">
+              Otherwise
+            </span>
+            <BranchActionList
+              actions={elseActions}
+              onChange={(actions) => onUpdate({ elseActions: actions })}
+              pipelineStages={pipelineStages}
+              emptyLabel="No actions — continue with the next step"
+            />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+interface BranchActionListProps {
+  actions: WorkflowAction[]
+  onChange: (actions: WorkflowAction[]) => void
+  pipelineStages: string[]
+  emptyLabel?: string
+}
+
+function BranchActionList({ actions, onChange, pipelineStages, emptyLabel }: BranchActionListProps) {
+  return (
+    <div className="space-y-2 pl-3 border-l-2 border-amber-500/30">
+      {actions.length === 0 && emptyLabel && (
+        <p className="text-[10px] text-muted-foreground">{emptyLabel}</p>
+      )}
+      {actions.map((action, index) => (
+        <ActionConfigCard
+          key={action.id}
+          action={action}
+          index={index}
+          onRemove={() => onChange(actions.filter((a) => a.id !== action.id))}
+          onUpdate={(updates) =>
+            onChange(
+              actions.map((a) => (a.id === action.id ? { ...a, ...updates } : a)) as WorkflowAction[]
+            )
+          }
+          pipelineStages={pipelineStages}
+          isLast={index === actions.length - 1}
+        />
+      ))}
+      <Select value="" onValueChange={(type) => onChange([...actions, createAction(type as ActionType)])}>
+        <SelectTrigger className="h-7 text-[11px] w-[160px]">
+          <SelectValue placeholder="+ Add action" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(ACTION_TYPES).map((meta) => (
+            <SelectItem key={meta.type} value={meta.type}>
+              {meta.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+// ============================================================================
+// ACTION CONFIG CARD
+// ============================================================================
+
 // Individual action configuration card
 interface ActionConfigCardProps {
   action: WorkflowAction
@@ -458,6 +693,73 @@ function ActionConfigCard({
               </>
             )}
 
+            {/* Call Webhook Config */}
+            {action.type === 'call_webhook' && (
+              <>
+                <div className="grid grid-cols-[96px_1fr] gap-2">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Method</Label>
+                    <Select
+                      value={(action.config as { method?: string }).method || 'POST'}
+                      onValueChange={(v) => updateConfig('method', v)}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEBHOOK_METHODS.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {method}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">URL *</Label>
+                    <Input
+                      placeholder="https://hooks.example.com/{{client.name}}"
+                      value={(action.config as { url?: string }).url || ''}
+                      onChange={(e) => updateConfig('url', e.target.value)}
+                      className="h-8 text-xs font-mono"
+                    />
+                  </div>
+                </div>
+                <JsonConfigField
+                  label="Headers"
+                  placeholder={'{\n  "Authorization": "Bearer ..."\n}'}
+                  value={(action.config as { headers?: Record<string, string> }).headers}
+                  onChange={(v) => updateConfig('headers', v)}
+                />
+                <JsonConfigField
+                  label="JSON Body"
+                  placeholder={'{\n  "client": "{{client.name}}"\n}'}
+                  hint="Leave empty to send the trigger data and client details."
+                  value={(action.config as { body?: Record<string, unknown> }).body}
+                  onChange={(v) => updateConfig('body', v)}
+                />
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Retries</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={MAX_WEBHOOK_RETRIES}
+                    value={(action.config as { maxRetries?: number }).maxRetries ?? DEFAULT_WEBHOOK_RETRIES}
+                    onChange={(e) =>
+                      updateConfig(
+                        'maxRetries',
+                        Math.min(Math.max(parseInt(e.target.value) || 0, 0), MAX_WEBHOOK_RETRIES)
+                      )
+                    }
+                    className="h-8 text-xs w-20"
+                  />
+                  <p className="text-[10px] text-muted-foreground">
+                    Requests are signed with your agency&apos;s webhook secret (X-Webhook-Signature).
+                  </p>
+                </div>
+              </>
+            )}
+
             {/* Update Client Config */}
             {action.type === 'update_client' && (
               <>
@@ -561,6 +863,31 @@ function ActionConfigCard({
 
             {/* Common Options */}
             <div className="pt-2 border-t border-border space-y-2">
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`condition-${action.id}`}
+                    checked={!!action.condition}
+                    onCheckedChange={(checked) =>
+                      onUpdate({ condition: checked ? createEmptyGroup() : undefined })
+                    }
+                  />
+                  <Label
+                    htmlFor={`condition-${action.id}`}
+                    className="text-xs text-muted-foreground flex items-center gap-1"
+                  >
+                    <Filter className="h-3 w-3" />
+                    Only run when conditions match
+                  </Label>
+                </div>
+                {action.condition && (
+                  <ConditionGroupEditor
+                    group={toConditionGroup(action.condition)}
+                    onChange={(condition) => onUpdate({ condition })}
+                  />
+                )}
+              </div>
+
               <div className="flex items-center gap-3">
                 <div className="flex items-center gap-2">
                   <Clock className="h-3 w-3 text-muted-foreground" />
@@ -613,3 +940,58 @@ function ActionConfigCard({
     </div>
   )
 }
+
+// ============================================================================
+// JSON CONFIG FIELD
+// ============================================================================
+
+interface JsonConfigFieldProps {
+  label: string
+  value: Record<string, unknown> | undefined
+  onChange: (value: Record<string, unknown> | undefined) => void
+  placeholder?: string
+  hint?: string
+}
+
+// Keeps the raw text locally so half-typed JSON isn't lost; only valid objects are saved
+function JsonConfigField({ label, value, onChange, placeholder, hint }: JsonConfigFieldProps) {
+  const [text, setText] = useState(() => (value ? JSON.stringify(value, null, 2) : ''))
+  const [error, setError] = useState<string | null>(null)
+
+  const handleBlur = () => {
+    if (!text.trim()) {
+      setError(null)
+      onChange(undefined)
+      return
+    }
+    try {
+      const parsed = JSON.parse(text)
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('not an object')
+      }
+      setError(null)
+      onChange(parsed)
+    } catch {
+      setError(`${label} must be a JSON object`)
+    }
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      <Textarea
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={handleBlur}
+        rows={3}
+        className="font-mono text-[11px]"
+      />
+      {error ? (
+        <p className="text-[10px] text-destructive">{error}</p>
+      ) : (
+        hint && <p className="text-[10px] text-muted-foreground">{hint}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, ShieldCheck, Check, X, Clock } from 'lucide-react'
+import { getActionMetadata } from '@/lib/workflows/action-registry'
+import type { ActionType, WorkflowApprovalWithContext } from '@/types/workflow'
+
+interface ApprovalsInboxProps {
+  approvals: WorkflowApprovalWithContext[]
+  loading: boolean
+  onApprove: (approvalId: string) => Promise<void>
+  onReject: (approvalId: string, reason?: string) => Promise<void>
+}
+
+// Draft fields are rendered as the message body, not as config rows
+const HIDDEN_CONFIG_KEYS = new Set(['draft', 'aiGenerated'])
+
+function formatExpiry(dateStr: string) {
+  const diffMs = new Date(dateStr).getTime() - Date.now()
+  if (diffMs <= 0) return 'Expired'
+  const diffHours = Math.floor(diffMs / 3600000)
+  if (diffHours < 1) return `Expires in ${Math.max(1, Math.floor(diffMs / 60000))}m`
+  if (diffHours < 24) return `Expires in ${diffHours}h`
+  return `Expires in ${Math.floor(diffHours / 24)}d`
+}
+
+function formatConfigValue(value: unknown) {
+  if (Array.isArray(value)) return value.join(', ')
+  if (value && typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function ApprovalsInbox({ approvals, loading, onApprove, onReject }: ApprovalsInboxProps) {
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+
+  const handleApprove = async (approvalId: string) => {
+    setBusyId(approvalId)
+    await onApprove(approvalId)
+    setBusyId(null)
+  }
+
+  const handleReject = async (approvalId: string) => {
+    setBusyId(approvalId)
+    await onReject(approvalId, rejectReason.trim() || undefined)
+    setBusyId(null)
+    setRejectingId(null)
+    setRejectReason('')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (approvals.length === 0) {
+    return (
+      <div className="text-center py-6 text-[11px] text-muted-foreground">
+        Nothing waiting for approval. Actions marked &quot;Requires approval&quot; will appear here.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {approvals.map((approval) => {
+        const config = (approval.action_config ?? {}) as Record<string, unknown>
+        const metadata = getActionMetadata(approval.action_type as ActionType)
+        const draft = typeof config.draft === 'string' ? config.draft : null
+        const isBusy = busyId === approval.id
+
+        return (
+          <div
+            key={approval.id}
+            className="p-2.5 rounded-md border border-border bg-secondary/30 space-y-2"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex items-start gap-2.5 min-w-0">
+                <ShieldCheck className="h-3.5 w-3.5 text-amber-500 shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  <p className="text-[11px] font-medium text-foreground truncate">
+                    {approval.action_name}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground truncate">
+                    {approval.workflow_name || 'Unknown Workflow'}
+                    {approval.client_name && ` · ${approval.client_name}`}
+                  </p>
+                </div>
+              </div>
+              <div className="text-right shrink-0">
+                <Badge variant="outline" className="text-[9px] px-1 py-0">
+                  {metadata?.name ?? approval.action_type}
+                </Badge>
+                <p className="text-[9px] text-muted-foreground mt-0.5 flex items-center justify-end gap-1">
+                  <Clock className="h-2.5 w-2.5" />
+                  {formatExpiry(approval.expires_at)}
+                </p>
+              </div>
+            </div>
+
+            {/* Preview of what will run */}
+            {draft !== null ? (
+              <div className="rounded border border-border bg-background p-2 text-[11px] whitespace-pre-wrap max-h-48 overflow-y-auto">
+                {draft}
+              </div>
+            ) : (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-[10px]">
+                {Object.entries(config)
+                  .filter(([key, value]) => !HIDDEN_CONFIG_KEYS.has(key) && value !== undefined && value !== '')
+                  .map(([key, value]) => (
+                    <div key={key} className="contents">
+                      <dt className="text-muted-foreground">{key}</dt>
+                      <dd className="text-foreground truncate">{formatConfigValue(value)}</dd>
+                    </div>
+                  ))}
+              </dl>
+            )}
+
+            {rejectingId === approval.id ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  rows={2}
+                  className="text-[11px]"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-[10px]"
+                    onClick={() => {
+                      setRejectingId(null)
+                      setRejectReason('')
+                    }}
+                    disabled={isBusy}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    className="h-6 text-[10px]"
+                    onClick={() => handleReject(approval.id)}
+                    disabled={isBusy}
+                  >
+                    {isBusy && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    Confirm Reject
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 text-[10px]"
+                  onClick={() => setRejectingId(approval.id)}
+                  disabled={isBusy}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-6 text-[10px] bg-emerald-600 hover:bg-emerald-700"
+                  onClick={() => handleApprove(approval.id)}
+                  disabled={isBusy}
+                >
+                  {isBusy ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Check className="h-3 w-3 mr-1" />
+                  )}
+                  Approve
+                </Button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -27,6 +27,7 @@ import { useAutomationsStore } from '@/stores/automations-store'
 import { AutomationCard } from './automation-card'
 import { TriggerSelector } from './trigger-selector'
 import { ActionBuilder } from './action-builder'
+import { ApprovalsInbox } from './approvals-inbox'
 import type { Workflow, WorkflowRun } from '@/types/workflow'
 
 interface AutomationsDashboardProps {
@@ -45,6 +46,8 @@ export function AutomationsDashboard({
     error,
     runs,
     runsLoading,
+    approvals,
+    approvalsLoading,
     showBuilder,
     editingWorkflow,
     builderName,
@@ -54,6 +57,9 @@ export function AutomationsDashboard({
     isSaving,
     fetchWorkflows,
     fetchRuns,
+    fetchApprovals,
+    approveAction,
+    rejectAction,
     toggleWorkflow,
     openBuilder,
     closeBuilder,
@@ -76,7 +82,8 @@ export function AutomationsDashboard({
   useEffect(() => {
     fetchWorkflows()
     fetchRuns()
-  }, [fetchWorkflows, fetchRuns])
+    fetchApprovals()
+  }, [fetchWorkflows, fetchRuns, fetchApprovals])
 
   // Toggle workflow active state
   const handleToggle = async (id: string, isActive: boolean) => {
@@ -95,6 +102,27 @@ export function AutomationsDashboard({
     }
   }
 
+  // Approve a pending action and refresh history (the run resumes server-side)
+  const handleApprove = async (approvalId: string) => {
+    const success = await approveAction(approvalId)
+    toast(
+      success
+        ? { title: 'Action approved', description: 'The workflow has resumed.' }
+        : { title: 'Error', description: 'Failed to approve action', variant: 'destructive' }
+    )
+    if (success) fetchRuns()
+  }
+
+  const handleReject = async (approvalId: string, reason?: string) => {
+    const success = await rejectAction(approvalId, reason)
+    toast(
+      success
+        ? { title: 'Action rejected', description: 'The workflow run was stopped.' }
+        : { title: 'Error', description: 'Failed to reject action', variant: 'destructive' }
+    )
+    if (success) fetchRuns()
+  }
+
   // Open builder for editing
   const handleEdit = (workflow: Workflow) => {
     openBuilder(workflow)
@@ -225,6 +253,14 @@ export function AutomationsDashboard({
         <TabsList className="bg-muted h-7">
           <TabsTrigger value="workflows" className="text-[10px] h-6 px-2.5">Workflows</TabsTrigger>
           <TabsTrigger value="history" className="text-[10px] h-6 px-2.5">Execution History</TabsTrigger>
+          <TabsTrigger value="approvals" className="text-[10px] h-6 px-2.5">
+            Approvals
+            {approvals.length > 0 && (
+              <Badge className="ml-1.5 h-3.5 px-1 text-[9px] bg-amber-500 hover:bg-amber-500">
+                {approvals.length}
+              </Badge>
+            )}
+          </TabsTrigger>
         </TabsList>
 
         {/* Workflows Tab */}
@@ -347,6 +383,26 @@ export function AutomationsDashboard({
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Approvals Tab */}
+        <TabsContent value="approvals" className="space-y-4 mt-4">
+          <Card className="bg-card border-border shadow-sm">
+            <CardHeader className="pb-2 pt-3 px-3">
+              <CardTitle className="text-[11px] font-medium">Pending Approvals</CardTitle>
+              <CardDescription className="text-[10px]">
+                Review actions before they run. Requests expire after 72 hours.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="px-3 pb-3">
+              <ApprovalsInbox
+                approvals={approvals}
+                loading={approvalsLoading}
+                onApprove={handleApprove}
+                onReject={handleReject}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Workflow Builder Sheet */}
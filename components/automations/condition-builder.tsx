@@ -0,0 +1,208 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, X, Layers } from 'lucide-react'
+import type {
+  ActionCondition,
+  ConditionGroup,
+  ConditionOperator,
+  ConditionFieldPath,
+} from '@/types/workflow'
+import {
+  CONDITION_FIELDS,
+  CONDITION_OPERATORS,
+  MAX_CONDITION_DEPTH,
+  isConditionGroup,
+} from '@/lib/workflows/action-registry'
+import { cn } from '@/lib/utils'
+
+export function createEmptyCondition(): ActionCondition {
+  return { field: 'client.healthStatus', operator: 'equals', value: '' }
+}
+
+export function createEmptyGroup(): ConditionGroup {
+  return { logic: 'and', conditions: [createEmptyCondition()] }
+}
+
+/**
+ * Normalize an action's condition for editing — older workflows store a
+ * single comparison rather than a group
+ */
+export function toConditionGroup(condition?: ActionCondition | ConditionGroup): ConditionGroup {
+  if (!condition) return createEmptyGroup()
+  return isConditionGroup(condition) ? condition : { logic: 'and', conditions: [condition] }
+}
+
+// Numeric-looking input is stored as a number so greater_than/less_than compare correctly
+function parseConditionValue(raw: string): string | number | boolean {
+  if (raw === 'true') return true
+  if (raw === 'false') return false
+  if (/^-?\d+(\.\d+)?$/.test(raw.trim())) return Number(raw)
+  return raw
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup
+  onChange: (group: ConditionGroup) => void
+  onRemove?: () => void
+  depth?: number
+}
+
+export function ConditionGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  depth = 1,
+}: ConditionGroupEditorProps) {
+  const updateChild = (index: number, child: ActionCondition | ConditionGroup) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map((c, i) => (i === index ? child : c)),
+    })
+  }
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div
+      className={cn(
+        'space-y-2 rounded-md border p-2',
+        depth === 1 ? 'border-amber-500/30 bg-amber-500/5' : 'border-border bg-background'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+          <span>Match</span>
+          <Select
+            value={group.logic}
+            onValueChange={(v) => onChange({ ...group, logic: v as ConditionGroup['logic'] })}
+          >
+            <SelectTrigger className="h-6 w-[70px] text-[10px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="and">all</SelectItem>
+              <SelectItem value="or">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of the following</span>
+        </div>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="h-5 w-5" onClick={onRemove}>
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) =>
+        isConditionGroup(child) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={child}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={group.conditions.length > 1 ? () => removeChild(index) : undefined}
+          />
+        )
+      )}
+
+      <div className="flex gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-[10px]"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, createEmptyCondition()] })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_CONDITION_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-[10px]"
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, createEmptyGroup()] })}
+          >
+            <Layers className="h-3 w-3 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ConditionRowProps {
+  condition: ActionCondition
+  onChange: (condition: ActionCondition) => void
+  onRemove?: () => void
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+  const operator = CONDITION_OPERATORS.find((o) => o.value === condition.operator)
+  const listId = 'workflow-condition-fields'
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Input
+        list={listId}
+        value={condition.field}
+        onChange={(e) => onChange({ ...condition, field: e.target.value as ConditionFieldPath })}
+        placeholder="client.healthStatus"
+        className="h-7 text-[11px] font-mono flex-1 min-w-0"
+      />
+      <datalist id={listId}>
+        {CONDITION_FIELDS.map((f) => (
+          <option key={f.path} value={f.path}>
+            {f.label}
+          </option>
+        ))}
+      </datalist>
+      <Select
+        value={condition.operator}
+        onValueChange={(v) => onChange({ ...condition, operator: v as ConditionOperator })}
+      >
+        <SelectTrigger className="h-7 w-[120px] text-[11px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CONDITION_OPERATORS.map((o) => (
+            <SelectItem key={o.value} value={o.value}>
+              {o.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {operator?.needsValue !== false && (
+        <Input
+          value={condition.value === undefined ? '' : String(condition.value)}
+          onChange={(e) => onChange({ ...condition, value: parseConditionValue(e.target.value) })}
+          placeholder="value"
+          className="h-7 text-[11px] w-[100px]"
+        />
+      )}
+      {onRemove && (
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={onRemove}>
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, Upload } from 'lucide-react'
+import { fetchWithCsrf } from '@/lib/csrf'
+import type {
+  Workflow,
+  WorkflowReference,
+  WorkflowReferenceKind,
+  WorkflowReferenceMapping,
+} from '@/types/workflow'
+
+interface ImportWorkflowsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: (workflows: Workflow[]) => void
+}
+
+const referenceLabels: Record<WorkflowReferenceKind, { label: string; placeholder: string }> = {
+  user: { label: 'Assignee', placeholder: 'User ID in this agency' },
+  slack_channel: { label: 'Slack channel', placeholder: 'Channel ID' },
+  stage: { label: 'Pipeline stage', placeholder: 'Stage name' },
+}
+
+const referenceKey = (ref: WorkflowReference) => `${ref.kind}:${ref.value}`
+
+export function ImportWorkflowsDialog({ open, onOpenChange, onImported }: ImportWorkflowsDialogProps) {
+  const [bundleText, setBundleText] = useState('')
+  const [unresolved, setUnresolved] = useState<WorkflowReference[]>([])
+  const [mappedValues, setMappedValues] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<string[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setBundleText('')
+    setUnresolved([])
+    setMappedValues({})
+    setErrors([])
+  }, [open])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setBundleText(await file.text())
+    setUnresolved([])
+    setMappedValues({})
+    setErrors([])
+  }
+
+  const handleImport = async () => {
+    let bundle: unknown
+    try {
+      bundle = JSON.parse(bundleText)
+    } catch {
+      setErrors(['The bundle is not valid JSON'])
+      return
+    }
+
+    // Blank inputs remove the reference from the imported workflows
+    const mapping: WorkflowReferenceMapping = {}
+    for (const ref of unresolved) {
+      const value = mappedValues[referenceKey(ref)]?.trim()
+      mapping[ref.kind] = { ...mapping[ref.kind], [ref.value]: value || null }
+    }
+
+    setIsImporting(true)
+    setErrors([])
+    try {
+      const response = await fetchWithCsrf('/api/v1/workflows/import', {
+        method: 'POST',
+        body: JSON.stringify({ bundle, mapping }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (response.status === 422 && body.error === 'unresolved_references') {
+        setUnresolved(body.details.references)
+        setErrors(['Some values in this bundle do not exist in your agency. Map them below, then import again.'])
+        return
+      }
+      if (!response.ok) {
+        setErrors(body.details?.errors ?? [body.message || body.error || 'Failed to import workflows'])
+        return
+      }
+
+      onImported(body.data)
+      onOpenChange(false)
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to import workflows'])
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import automations</DialogTitle>
+          <DialogDescription>
+            Load a bundle exported from AudienceOS. Imported automations start paused so you can review them first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Bundle file</Label>
+            <Input
+              type="file"
+              accept="application/json,.json"
+              className="h-8 text-xs"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Or paste the bundle JSON</Label>
+            <Textarea
+              value={bundleText}
+              onChange={(e) => {
+                setBundleText(e.target.value)
+                setUnresolved([])
+              }}
+              rows={6}
+              className="font-mono text-[11px]"
+            />
+          </div>
+
+          {unresolved.length > 0 && (
+            <div className="space-y-2 border-t border-border pt-3 max-h-[240px] overflow-y-auto">
+              <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Map to your agency</p>
+              {unresolved.map((ref) => (
+                <div key={referenceKey(ref)} className="grid grid-cols-2 gap-2 items-center">
+                  <div className="min-w-0">
+                    <p className="text-[10px] text-muted-foreground">{referenceLabels[ref.kind].label}</p>
+                    <p className="text-[11px] text-foreground truncate">{ref.label || ref.value}</p>
+                  </div>
+                  <Input
+                    value={mappedValues[referenceKey(ref)] ?? ''}
+                    onChange={(e) => setMappedValues({ ...mappedValues, [referenceKey(ref)]: e.target.value })}
+                    placeholder={`${referenceLabels[ref.kind].placeholder} (blank to remove)`}
+                    className="h-7 text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="space-y-0.5">
+              {errors.map((error) => (
+                <p key={error} className="text-[11px] text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              className="h-7 text-xs"
+              onClick={handleImport}
+              disabled={isImporting || !bundleText.trim()}
+            >
+              {isImporting ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <Upload className="h-3 w-3 mr-1" />
+              )}
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
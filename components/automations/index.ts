@@ -7,3 +7,8 @@ export { AutomationsDashboard } from './automations-dashboard'
 export { AutomationCard } from './automation-card'
 export { TriggerSelector } from './trigger-selector'
 export { ActionBuilder } from './action-builder'
+export { ApprovalsInbox } from './approvals-inbox'
+export { TestRunDialog } from './test-run-dialog'
+export { RunHistoryDialog } from './run-history-dialog'
+export { WorkflowAnalyticsDialog } from './workflow-analytics-dialog'
+export { ImportWorkflowsDialog } from './import-workflows-dialog'
@@ -0,0 +1,353 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react'
+import { fetchWithCsrf } from '@/lib/csrf'
+import { flattenWorkflowSteps, isBranchStep } from '@/lib/workflows/action-registry'
+import { cn } from '@/lib/utils'
+import type {
+  ActionResult,
+  ActionResultStatus,
+  Workflow,
+  WorkflowRun,
+  WorkflowRunDetail,
+} from '@/types/workflow'
+
+interface RunHistoryDialogProps {
+  workflow: Workflow | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const runStatusStyles: Record<WorkflowRun['status'], string> = {
+  running: 'border-blue-500/50 text-blue-600 bg-blue-500/10',
+  completed: 'border-emerald-500/50 text-emerald-600 bg-emerald-500/10',
+  failed: 'border-red-500/50 text-red-600 bg-red-500/10',
+}
+
+const actionStatusStyles: Partial<Record<ActionResultStatus, string>> = {
+  completed: 'border-emerald-500/50 text-emerald-600 bg-emerald-500/10',
+  failed: 'border-red-500/50 text-red-600 bg-red-500/10',
+  skipped: 'border-slate-500/50 text-slate-600',
+  scheduled: 'border-blue-500/50 text-blue-600 bg-blue-500/10',
+  pending_approval: 'border-amber-500/50 text-amber-600 bg-amber-500/10',
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`
+}
+
+function runDuration(run: WorkflowRun): string | null {
+  if (!run.completed_at) return null
+  return formatDuration(new Date(run.completed_at).getTime() - new Date(run.started_at).getTime())
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="space-y-0.5">
+      <p className="text-[9px] uppercase tracking-wide text-muted-foreground">{label}</p>
+      <pre className="text-[10px] bg-background border border-border rounded p-1.5 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+function TimelineEntry({ result, name }: { result: ActionResult; name: string }) {
+  const isBranch = result.actionType === 'branch'
+  const branchName = result.result?.branchName
+
+  return (
+    <div className="relative pl-4">
+      <span
+        className={cn(
+          'absolute left-0 top-2 h-2 w-2 rounded-full',
+          result.status === 'failed' ? 'bg-red-500'
+            : result.status === 'completed' ? 'bg-emerald-500'
+            : 'bg-slate-400'
+        )}
+      />
+      <div className="p-2 rounded-md border border-border bg-secondary/30 space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[11px] font-medium text-foreground truncate">{name}</span>
+          <div className="flex items-center gap-1.5 shrink-0">
+            {typeof result.durationMs === 'number' && (
+              <span className="text-[9px] text-muted-foreground">{formatDuration(result.durationMs)}</span>
+            )}
+            {result.carriedOver && (
+              <Badge variant="outline" className="text-[9px] px-1 py-0">From original run</Badge>
+            )}
+            <Badge variant="outline" className={cn('text-[9px] px-1 py-0', actionStatusStyles[result.status])}>
+              {result.status.replace('_', ' ')}
+            </Badge>
+          </div>
+        </div>
+        <p className="text-[9px] text-muted-foreground">{formatTimestamp(result.executedAt)}</p>
+        {isBranch ? (
+          <p className="text-[10px] text-muted-foreground">
+            {typeof branchName === 'string' ? `Took path: ${branchName}` : 'No path matched'}
+          </p>
+        ) : (
+          <>
+            {result.error && <p className="text-[10px] text-destructive">{result.error}</p>}
+            {result.resolvedConfig && <JsonBlock label="Resolved config" value={result.resolvedConfig} />}
+            {result.result && <JsonBlock label="Result" value={result.result} />}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function RunHistoryDialog({ workflow, open, onOpenChange }: RunHistoryDialogProps) {
+  const [runs, setRuns] = useState<WorkflowRun[]>([])
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false)
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<WorkflowRunDetail | null>(null)
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false)
+  const [isRetrying, setIsRetrying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRuns = useCallback(async () => {
+    if (!workflow) return
+    setIsLoadingRuns(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/v1/workflows/${workflow.id}/runs?limit=25`, { credentials: 'include' })
+      if (!response.ok) throw new Error('Failed to load run history')
+      const { items } = await response.json()
+      setRuns(items || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load run history')
+    } finally {
+      setIsLoadingRuns(false)
+    }
+  }, [workflow])
+
+  useEffect(() => {
+    if (open) fetchRuns()
+  }, [open, fetchRuns])
+
+  // Start from the run list whenever a different workflow is opened
+  useEffect(() => {
+    setSelectedRunId(null)
+    setDetail(null)
+  }, [workflow?.id])
+
+  useEffect(() => {
+    if (!selectedRunId) return
+    let cancelled = false
+
+    const loadDetail = async () => {
+      setIsLoadingDetail(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/v1/workflows/runs/${selectedRunId}`, { credentials: 'include' })
+        if (!response.ok) throw new Error('Failed to load run')
+        const { data } = await response.json()
+        if (!cancelled) setDetail(data)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load run')
+      } finally {
+        if (!cancelled) setIsLoadingDetail(false)
+      }
+    }
+
+    loadDetail()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedRunId])
+
+  // Names for every step, including actions nested in branch paths
+  const stepNames = useMemo(() => {
+    const steps = detail?.workflow.actions ?? []
+    const names = new Map<string, string>()
+    steps.filter(isBranchStep).forEach((step) => names.set(step.id, step.name))
+    flattenWorkflowSteps(steps).forEach((action) => names.set(action.id, action.name))
+    return names
+  }, [detail])
+
+  const handleRetry = async () => {
+    if (!detail) return
+    setIsRetrying(true)
+    setError(null)
+    try {
+      const response = await fetchWithCsrf(`/api/v1/workflows/runs/${detail.id}/retry`, { method: 'POST' })
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}))
+        throw new Error(err.error || 'Failed to retry run')
+      }
+      const { data } = await response.json()
+      await fetchRuns()
+      setSelectedRunId(data.runId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry run')
+    } finally {
+      setIsRetrying(false)
+    }
+  }
+
+  const actionResults = (detail?.executed_actions ?? []) as unknown as ActionResult[]
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Run history</DialogTitle>
+          <DialogDescription>
+            Recent runs of {workflow?.name || 'this workflow'}, with every action&apos;s config, result and timing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-[11px] text-destructive">{error}</p>}
+
+        {!selectedRunId ? (
+          <div className="space-y-1 max-h-[420px] overflow-y-auto">
+            {isLoadingRuns ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : runs.length === 0 ? (
+              <p className="text-[11px] text-muted-foreground py-6 text-center">No runs yet</p>
+            ) : (
+              runs.map((run) => (
+                <button
+                  key={run.id}
+                  type="button"
+                  onClick={() => setSelectedRunId(run.id)}
+                  className="w-full flex items-center justify-between gap-2 p-2 rounded-md border border-border hover:bg-secondary/50 text-left"
+                >
+                  <div className="min-w-0">
+                    <p className="text-[11px] text-foreground">{formatTimestamp(run.started_at)}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {run.retry_of_run_id ? 'Retry · ' : ''}
+                      {run.error_message || runDuration(run) || 'In progress'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <Badge variant="outline" className={cn('text-[9px] px-1 py-0', runStatusStyles[run.status])}>
+                      {run.status}
+                    </Badge>
+                    <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 text-[10px] px-2"
+                onClick={() => {
+                  setSelectedRunId(null)
+                  setDetail(null)
+                }}
+              >
+                <ChevronLeft className="h-3 w-3 mr-1" />
+                All runs
+              </Button>
+              {detail?.status === 'failed' && (
+                <Button size="sm" className="h-6 text-[10px] px-2" onClick={handleRetry} disabled={isRetrying}>
+                  {isRetrying ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                  )}
+                  {isRetrying ? 'Retrying...' : 'Retry from failure'}
+                </Button>
+              )}
+            </div>
+
+            {isLoadingDetail || !detail ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-3 max-h-[420px] overflow-y-auto">
+                <div className="flex flex-wrap items-center gap-2 text-[10px] text-muted-foreground">
+                  <Badge variant="outline" className={cn('text-[9px] px-1 py-0', runStatusStyles[detail.status])}>
+                    {detail.status}
+                  </Badge>
+                  <span>Started {formatTimestamp(detail.started_at)}</span>
+                  {runDuration(detail) && <span>Took {runDuration(detail)}</span>}
+                  {detail.retry_of_run_id && (
+                    <button
+                      type="button"
+                      className="underline hover:text-foreground"
+                      onClick={() => setSelectedRunId(detail.retry_of_run_id)}
+                    >
+                      Retry of earlier run
+                    </button>
+                  )}
+                </div>
+
+                {detail.error_message && <p className="text-[11px] text-destructive">{detail.error_message}</p>}
+
+                <JsonBlock label="Trigger payload" value={detail.trigger_data} />
+
+                <div className="space-y-1.5">
+                  <p className="text-[9px] uppercase tracking-wide text-muted-foreground">Actions</p>
+                  {actionResults.length === 0 ? (
+                    <p className="text-[11px] text-muted-foreground">No actions ran</p>
+                  ) : (
+                    actionResults.map((result, index) => (
+                      <TimelineEntry
+                        key={`${result.actionId}-${index}`}
+                        result={result}
+                        name={stepNames.get(result.actionId) || result.actionId}
+                      />
+                    ))
+                  )}
+                </div>
+
+                {detail.retries.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-[9px] uppercase tracking-wide text-muted-foreground">Retries</p>
+                    {detail.retries.map((retry) => (
+                      <button
+                        key={retry.id}
+                        type="button"
+                        onClick={() => setSelectedRunId(retry.id)}
+                        className="w-full flex items-center justify-between p-1.5 rounded border border-border hover:bg-secondary/50 text-[10px]"
+                      >
+                        <span>{formatTimestamp(retry.started_at)}</span>
+                        <Badge variant="outline" className={cn('text-[9px] px-1 py-0', runStatusStyles[retry.status])}>
+                          {retry.status}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
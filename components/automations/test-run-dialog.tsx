@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, FlaskConical, Clock } from 'lucide-react'
+import { fetchWithCsrf } from '@/lib/csrf'
+import { usePipelineStore } from '@/stores/pipeline-store'
+import { flattenWorkflowSteps, formatDelay, isBranchStep } from '@/lib/workflows/action-registry'
+import { cn } from '@/lib/utils'
+import type {
+  ActionResult,
+  ActionResultStatus,
+  Workflow,
+  WorkflowExecutionResult,
+  WorkflowStep,
+} from '@/types/workflow'
+
+interface TestRunDialogProps {
+  workflow: Workflow | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const NO_CLIENT = 'none'
+const DEFAULT_PAYLOAD = '{\n  "manual": true\n}'
+
+const outcomeLabels: Partial<Record<ActionResultStatus, { label: string; className: string }>> = {
+  completed: { label: 'Would run', className: 'border-emerald-500/50 text-emerald-600 bg-emerald-500/10' },
+  skipped: { label: 'Would skip', className: 'border-slate-500/50 text-slate-600' },
+  pending_approval: { label: 'Needs approval', className: 'border-amber-500/50 text-amber-600 bg-amber-500/10' },
+  failed: { label: 'Failed', className: 'border-red-500/50 text-red-600 bg-red-500/10' },
+}
+
+function describeResult(result: ActionResult): string | null {
+  if (result.actionType === 'branch') {
+    const branchName = result.result?.branchName
+    return typeof branchName === 'string' ? `Took path: ${branchName}` : 'No path matched'
+  }
+  if (result.status === 'skipped') return 'Condition not met'
+  return result.error ?? null
+}
+
+export function TestRunDialog({ workflow, open, onOpenChange }: TestRunDialogProps) {
+  const { clients, fetchClients } = usePipelineStore()
+  const [clientId, setClientId] = useState(NO_CLIENT)
+  const [payload, setPayload] = useState(DEFAULT_PAYLOAD)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<WorkflowExecutionResult | null>(null)
+
+  useEffect(() => {
+    if (open && clients.length === 0) {
+      fetchClients()
+    }
+  }, [open, clients.length, fetchClients])
+
+  // Reset the report whenever a different workflow is tested
+  useEffect(() => {
+    setReport(null)
+    setError(null)
+  }, [workflow?.id])
+
+  // Names for every step, including actions nested in branch paths
+  const stepNames = useMemo(() => {
+    const steps = (workflow?.actions as unknown as WorkflowStep[]) || []
+    const names = new Map<string, string>()
+    steps.filter(isBranchStep).forEach((step) => names.set(step.id, step.name))
+    flattenWorkflowSteps(steps).forEach((action) => names.set(action.id, action.name))
+    return names
+  }, [workflow])
+
+  const handleRun = async () => {
+    if (!workflow) return
+    setError(null)
+
+    let triggerData: Record<string, unknown>
+    try {
+      const parsed = JSON.parse(payload || '{}')
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('not an object')
+      }
+      triggerData = parsed
+    } catch {
+      setError('Trigger payload must be a JSON object')
+      return
+    }
+
+    setIsRunning(true)
+    try {
+      const response = await fetchWithCsrf(`/api/v1/workflows/${workflow.id}/simulate`, {
+        method: 'POST',
+        body: JSON.stringify({
+          triggerData,
+          clientId: clientId === NO_CLIENT ? undefined : clientId,
+        }),
+      })
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}))
+        throw new Error(err.error || 'Failed to run simulation')
+      }
+      const { data } = await response.json()
+      setReport(data)
+    } catch (err) {
+      setReport(null)
+      setError(err instanceof Error ? err.message : 'Failed to run simulation')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Test run</DialogTitle>
+          <DialogDescription>
+            Simulate {workflow?.name || 'this workflow'} against a client. Nothing is created or sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Select a client" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CLIENT}>No client</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Trigger payload</Label>
+            <Textarea
+              value={payload}
+              onChange={(e) => setPayload(e.target.value)}
+              rows={4}
+              className="font-mono text-[11px]"
+            />
+          </div>
+
+          {error && <p className="text-[11px] text-destructive">{error}</p>}
+
+          <div className="flex justify-end">
+            <Button size="sm" className="h-7 text-xs" onClick={handleRun} disabled={isRunning || !workflow}>
+              {isRunning ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <FlaskConical className="h-3 w-3 mr-1" />
+              )}
+              {isRunning ? 'Simulating...' : 'Run simulation'}
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-2 border-t border-border pt-3 max-h-[320px] overflow-y-auto">
+              {report.error && report.actionResults.length === 0 ? (
+                <p className="text-[11px] text-muted-foreground">{report.error}</p>
+              ) : (
+                report.actionResults.map((result, index) => {
+                  const outcome = outcomeLabels[result.status]
+                  const resolvedConfig = result.result?.resolvedConfig as Record<string, unknown> | undefined
+                  const delayMinutes = result.result?.delayMinutes
+                  const detail = describeResult(result)
+
+                  return (
+                    <div
+                      key={`${result.actionId}-${index}`}
+                      className="p-2 rounded-md border border-border bg-secondary/30 space-y-1.5"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-[11px] font-medium text-foreground truncate">
+                          {stepNames.get(result.actionId) || result.actionId}
+                        </span>
+                        <div className="flex items-center gap-1.5 shrink-0">
+                          {typeof delayMinutes === 'number' && (
+                            <span className="text-[9px] text-muted-foreground flex items-center gap-0.5">
+                              <Clock className="h-2.5 w-2.5" />
+                              after {formatDelay(delayMinutes)}
+                            </span>
+                          )}
+                          <Badge variant="outline" className={cn('text-[9px] px-1 py-0', outcome?.className)}>
+                            {outcome?.label ?? result.status}
+                          </Badge>
+                        </div>
+                      </div>
+                      {detail && <p className="text-[10px] text-muted-foreground">{detail}</p>}
+                      {resolvedConfig && (
+                        <pre className="text-[10px] bg-background border border-border rounded p-1.5 whitespace-pre-wrap break-all">
+                          {JSON.stringify(resolvedConfig, null, 2)}
+                        </pre>
+                      )}
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
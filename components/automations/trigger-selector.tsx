@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -20,6 +20,10 @@ import {
   MessageSquare,
   Ticket,
   Calendar,
+  RefreshCw,
+  ClipboardCheck,
+  AlertTriangle,
+  Unplug,
   X,
 } from 'lucide-react'
 import type { WorkflowTrigger, TriggerType } from '@/types/workflow'
@@ -28,6 +32,7 @@ import {
   COMMON_SCHEDULES,
   AVAILABLE_TIMEZONES,
 } from '@/lib/workflows/trigger-registry'
+import { getNextCronRuns, validateCronExpression } from '@/lib/workflows/cron'
 
 interface TriggerSelectorProps {
   triggers: WorkflowTrigger[]
@@ -38,6 +43,8 @@ interface TriggerSelectorProps {
   maxTriggers?: number
 }
 
+const CUSTOM_SCHEDULE = 'custom'
+
 const TRIGGER_ICONS: Record<TriggerType, React.ComponentType<{ className?: string }>> = {
   stage_change: ArrowRightCircle,
   inactivity: Clock,
@@ -45,8 +52,33 @@ const TRIGGER_ICONS: Record<TriggerType, React.ComponentType<{ className?: strin
   new_message: MessageSquare,
   ticket_created: Ticket,
   scheduled: Calendar,
+  ticket_status_changed: RefreshCw,
+  onboarding_submitted: ClipboardCheck,
+  alert_created: AlertTriangle,
+  integration_disconnected: Unplug,
 }
 
+const TICKET_STATUSES = [
+  { value: 'new', label: 'New' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'waiting_client', label: 'Waiting on Client' },
+  { value: 'resolved', label: 'Resolved' },
+]
+
+const ALERT_SEVERITIES = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+]
+
+const INTEGRATION_PROVIDERS = [
+  { value: 'slack', label: 'Slack' },
+  { value: 'gmail', label: 'Gmail' },
+  { value: 'google_ads', label: 'Google Ads' },
+  { value: 'meta_ads', label: 'Meta Ads' },
+]
+
 export function TriggerSelector({
   triggers,
   onAdd,
@@ -83,6 +115,12 @@ export function TriggerSelector({
         return {}
       case 'scheduled':
         return { schedule: '0 9 * * 1-5', timezone: 'America/New_York' }
+      case 'ticket_status_changed':
+        return { toStatus: 'resolved' }
+      case 'onboarding_submitted':
+      case 'alert_created':
+      case 'integration_disconnected':
+        return {}
       default:
         return {}
     }
@@ -173,6 +211,9 @@ function TriggerConfigCard({
     onUpdate({ ...trigger.config, [key]: value })
   }
 
+  const schedule = (trigger.config as { schedule?: string }).schedule ?? '0 9 * * 1-5'
+  const timezone = (trigger.config as { timezone?: string }).timezone || 'America/New_York'
+
   return (
     <Card className="border-blue-500/30 bg-blue-500/5">
       <CardHeader className="pb-2 pt-3">
@@ -321,14 +362,108 @@ function TriggerConfigCard({
             </div>
           )}
 
+          {/* Ticket Status Config */}
+          {trigger.type === 'ticket_status_changed' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1.5">
+                <Label className="text-xs">From Status</Label>
+                <Select
+                  value={(trigger.config as { fromStatus?: string }).fromStatus || 'any'}
+                  onValueChange={(v) => updateConfig('fromStatus', v === 'any' ? undefined : v)}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any status</SelectItem>
+                    {TICKET_STATUSES.map((status) => (
+                      <SelectItem key={status.value} value={status.value}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">To Status</Label>
+                <Select
+                  value={(trigger.config as { toStatus?: string }).toStatus || 'any'}
+                  onValueChange={(v) => updateConfig('toStatus', v === 'any' ? undefined : v)}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any status</SelectItem>
+                    {TICKET_STATUSES.map((status) => (
+                      <SelectItem key={status.value} value={status.value}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {/* Alert Created Config */}
+          {trigger.type === 'alert_created' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Severity</Label>
+              <Select
+                value={(trigger.config as { severities?: string[] }).severities?.[0] || 'any'}
+                onValueChange={(v) => updateConfig('severities', v === 'any' ? undefined : [v])}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any severity</SelectItem>
+                  {ALERT_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity.value} value={severity.value}>
+                      {severity.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Integration Disconnected Config */}
+          {trigger.type === 'integration_disconnected' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Provider</Label>
+              <Select
+                value={(trigger.config as { providers?: string[] }).providers?.[0] || 'any'}
+                onValueChange={(v) => updateConfig('providers', v === 'any' ? undefined : [v])}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any provider</SelectItem>
+                  {INTEGRATION_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider.value} value={provider.value}>
+                      {provider.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Scheduled Config */}
           {trigger.type === 'scheduled' && (
             <>
               <div className="space-y-1.5">
                 <Label className="text-xs">Schedule *</Label>
                 <Select
-                  value={(trigger.config as { schedule?: string }).schedule || '0 9 * * 1-5'}
-                  onValueChange={(v) => updateConfig('schedule', v)}
+                  value={
+                    COMMON_SCHEDULES.some((s) => s.cron === schedule) ? schedule : CUSTOM_SCHEDULE
+                  }
+                  onValueChange={(v) => {
+                    if (v !== CUSTOM_SCHEDULE) updateConfig('schedule', v)
+                  }}
                 >
                   <SelectTrigger className="h-8 text-xs">
                     <SelectValue />
@@ -339,13 +474,20 @@ function TriggerConfigCard({
                         {s.label}
                       </SelectItem>
                     ))}
+                    <SelectItem value={CUSTOM_SCHEDULE}>Custom</SelectItem>
                   </SelectContent>
                 </Select>
+                <Input
+                  value={schedule}
+                  onChange={(e) => updateConfig('schedule', e.target.value)}
+                  placeholder="30 8 * * MON-FRI"
+                  className="h-8 text-xs font-mono"
+                />
               </div>
               <div className="space-y-1.5">
                 <Label className="text-xs">Timezone *</Label>
                 <Select
-                  value={(trigger.config as { timezone?: string }).timezone || 'America/New_York'}
+                  value={timezone}
                   onValueChange={(v) => updateConfig('timezone', v)}
                 >
                   <SelectTrigger className="h-8 text-xs">
@@ -360,6 +502,7 @@ function TriggerConfigCard({
                   </SelectContent>
                 </Select>
               </div>
+              <SchedulePreview schedule={schedule} timezone={timezone} />
             </>
           )}
         </div>
@@ -367,3 +510,35 @@ function TriggerConfigCard({
     </Card>
   )
 }
+
+function SchedulePreview({ schedule, timezone }: { schedule: string; timezone: string }) {
+  const preview = useMemo(() => {
+    const error = validateCronExpression(schedule, timezone)
+    if (error) return { error, runs: [] as string[] }
+
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+    return { error: null, runs: getNextCronRuns(schedule, timezone, 5).map((d) => formatter.format(d)) }
+  }, [schedule, timezone])
+
+  if (preview.error) {
+    return <p className="text-[10px] text-destructive">{preview.error}</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Next runs</Label>
+      <ul className="text-[10px] text-muted-foreground space-y-0.5">
+        {preview.runs.map((run) => (
+          <li key={run}>{run}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
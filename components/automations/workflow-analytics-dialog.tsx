@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { TimeSeriesChart, type TimeSeriesSeries } from '@/components/dashboard/time-series-chart'
+import { cn } from '@/lib/utils'
+import type { TimePeriod } from '@/types/dashboard'
+import type { AgencyWorkflowAnalytics, Workflow, WorkflowAnalytics } from '@/types/workflow'
+
+interface WorkflowAnalyticsDialogProps {
+  /** The workflow to chart, or null for the agency-wide rollup */
+  workflow: Workflow | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const runSeries: TimeSeriesSeries[] = [
+  { key: 'runs', label: 'Runs', color: 'oklch(0.65 0.15 250)' },
+  { key: 'successes', label: 'Successful', color: 'oklch(0.72 0.17 162)' },
+]
+
+// Below this success rate (with enough runs to judge) an automation is flagged as flaky
+const FLAKY_SUCCESS_RATE = 80
+const FLAKY_MIN_RUNS = 3
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  return `${(ms / 60_000).toFixed(1)}m`
+}
+
+function periodStart(period: TimePeriod): string {
+  const start = new Date()
+  start.setUTCDate(start.getUTCDate() - (period - 1))
+  return start.toISOString().slice(0, 10)
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-2 rounded-md border border-border bg-secondary/30">
+      <p className="text-[10px] text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium text-foreground">{value}</p>
+    </div>
+  )
+}
+
+export function WorkflowAnalyticsDialog({ workflow, open, onOpenChange }: WorkflowAnalyticsDialogProps) {
+  const [period, setPeriod] = useState<TimePeriod>(30)
+  const [analytics, setAnalytics] = useState<WorkflowAnalytics | AgencyWorkflowAnalytics | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const workflowId = workflow?.id
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const path = workflowId ? `/api/v1/workflows/${workflowId}/analytics` : '/api/v1/workflows/analytics'
+        const response = await fetch(`${path}?start=${periodStart(period)}`, { credentials: 'include' })
+        if (!response.ok) throw new Error('Failed to load analytics')
+        const { data } = await response.json()
+        if (!cancelled) setAnalytics(data)
+      } catch (err) {
+        if (!cancelled) {
+          setAnalytics(null)
+          setError(err instanceof Error ? err.message : 'Failed to load analytics')
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [open, workflowId, period])
+
+  const chartData = analytics?.runsByDay.map((day) => ({
+    date: day.date,
+    runs: day.count,
+    successes: day.successes,
+  })) ?? null
+
+  const workflows = analytics && 'workflows' in analytics ? analytics.workflows : null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>{workflow ? 'Analytics' : 'Automation analytics'}</DialogTitle>
+          <DialogDescription>
+            {workflow
+              ? `How often ${workflow.name} runs and how reliably it succeeds.`
+              : 'Run volume and reliability across every automation in your agency.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-[11px] text-destructive">{error}</p>
+        ) : (
+          <div className="space-y-3 max-h-[70vh] overflow-y-auto">
+            {analytics && (
+              <div className="grid grid-cols-3 gap-2">
+                <Stat label="Runs" value={String(analytics.totalRuns)} />
+                <Stat label="Success rate" value={`${Math.round(analytics.successRate)}%`} />
+                <Stat label="Avg duration" value={formatDuration(analytics.averageDurationMs)} />
+              </div>
+            )}
+
+            <TimeSeriesChart
+              data={chartData}
+              isLoading={isLoading}
+              selectedPeriod={period}
+              onPeriodChange={setPeriod}
+              title="Runs per day"
+              description="All runs vs. runs that completed without failures"
+              series={runSeries}
+            />
+
+            {analytics && analytics.topFailureReasons.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Top failure reasons</p>
+                {analytics.topFailureReasons.map(({ reason, count }) => (
+                  <div key={reason} className="flex items-center justify-between gap-2 text-[11px]">
+                    <span className="truncate text-foreground">{reason}</span>
+                    <span className="text-muted-foreground shrink-0">{count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {workflows && workflows.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">By automation</p>
+                {workflows.map((summary) => {
+                  const flaky = summary.totalRuns >= FLAKY_MIN_RUNS && summary.successRate < FLAKY_SUCCESS_RATE
+                  return (
+                    <div
+                      key={summary.workflowId}
+                      className="flex items-center justify-between gap-2 p-1.5 rounded border border-border text-[11px]"
+                    >
+                      <div className="flex items-center gap-1.5 min-w-0">
+                        <span className={cn('truncate', !summary.isActive && 'text-muted-foreground')}>
+                          {summary.name}
+                        </span>
+                        {flaky && (
+                          <Badge variant="outline" className="text-[9px] px-1 py-0 border-red-500/50 text-red-600 bg-red-500/10">
+                            Flaky
+                          </Badge>
+                        )}
+                        {summary.totalRuns === 0 && (
+                          <Badge variant="outline" className="text-[9px] px-1 py-0">Unused</Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0 text-muted-foreground">
+                        <span>{summary.totalRuns} runs</span>
+                        <span>{summary.failedRuns} failed</span>
+                        <span className="w-10 text-right">
+                          {summary.totalRuns > 0 ? `${Math.round(summary.successRate)}%` : '—'}
+                        </span>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
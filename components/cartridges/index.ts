@@ -6,6 +6,8 @@ export { CartridgesPage } from "./cartridges-page"
 // Active tab
 export { VoiceTab } from "./tabs/voice-tab"
 
+export { CartridgeVersionHistory } from "./version-history"
+
 // Future feature: Style, Preferences, Instructions, Brand tabs — ported from RevOS, to be wired up later
 // export { StyleTab } from "./tabs/style-tab"
 // export { PreferencesTab } from "./tabs/preferences-tab"
@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState, useEffect } from "react"
+import React, { useState, useEffect, useCallback } from "react"
 import { useToast } from "@/hooks/use-toast"
 import { fetchWithCsrf } from "@/lib/csrf"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/alert-dialog"
 import { Check, Edit, Trash2, Loader2, Zap, FileText, Building2 } from "lucide-react"
 import { type BrandCartridge } from "@/types/cartridges"
+import { CartridgeVersionHistory } from "../version-history"
 
 export function BrandTab() {
   const { toast } = useToast()
@@ -33,36 +34,37 @@ export function BrandTab() {
   const [showDeleteModal, setShowDeleteModal] = useState(false)
   const [isLoadingCartridge, setIsLoadingCartridge] = useState(true)
 
-  // Load existing brand cartridge on mount
-  useEffect(() => {
-    const loadCartridge = async () => {
-      try {
-        const response = await fetch('/api/v1/cartridges/brand', { credentials: 'include' })
-        if (response.ok) {
-          const result = await response.json()
-          const brand = result.brand || result.data || null
-          if (brand) {
-            setBrandCartridge(brand)
-            setFormData({
-              name: brand.name || '',
-              companyName: brand.companyName || brand.company_name || '',
-              companyDescription: brand.companyDescription || brand.company_description || '',
-              companyTagline: brand.companyTagline || brand.company_tagline || '',
-              industry: brand.industry || '',
-              targetAudience: brand.targetAudience || brand.target_audience || '',
-              coreMessaging: brand.coreMessaging || brand.core_messaging || '',
-            })
-          }
+  // Load existing brand cartridge on mount (and after a version is restored)
+  const loadCartridge = useCallback(async () => {
+    try {
+      const response = await fetch('/api/v1/cartridges/brand', { credentials: 'include' })
+      if (response.ok) {
+        const result = await response.json()
+        const brand = result.brand || result.data || null
+        if (brand) {
+          setBrandCartridge(brand)
+          setFormData({
+            name: brand.name || '',
+            companyName: brand.companyName || brand.company_name || '',
+            companyDescription: brand.companyDescription || brand.company_description || '',
+            companyTagline: brand.companyTagline || brand.company_tagline || '',
+            industry: brand.industry || '',
+            targetAudience: brand.targetAudience || brand.target_audience || '',
+            coreMessaging: brand.coreMessaging || brand.core_messaging || '',
+          })
         }
-      } catch (error) {
-        console.error('[BrandTab] Failed to load cartridge:', error)
-      } finally {
-        setIsLoadingCartridge(false)
       }
+    } catch (error) {
+      console.error('[BrandTab] Failed to load cartridge:', error)
+    } finally {
+      setIsLoadingCartridge(false)
     }
-    loadCartridge()
   }, [])
 
+  useEffect(() => {
+    loadCartridge()
+  }, [loadCartridge])
+
   const [formData, setFormData] = useState({
     name: "",
     companyName: "",
@@ -525,6 +527,15 @@ Example format:
         </Card>
       )}
 
+      {brandCartridge?.id && (
+        <CartridgeVersionHistory
+          type="brand"
+          cartridgeId={brandCartridge.id}
+          refreshKey={brandCartridge}
+          onRestored={loadCartridge}
+        />
+      )}
+
       {/* Info Card */}
       <Card className="border-blue-200 bg-blue-50/50 dark:bg-blue-900/10">
         <CardHeader>
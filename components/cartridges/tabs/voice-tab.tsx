@@ -37,6 +37,7 @@ import { Mic, X, Check, Loader2, RotateCcw } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { createClient } from "@/lib/supabase"
 import { type VoiceParams, getDefaultVoiceParams } from "@/types/cartridges"
+import { CartridgeVersionHistory } from "../version-history"
 
 export function VoiceTab() {
   const { toast } = useToast()
@@ -47,6 +48,7 @@ export function VoiceTab() {
   const [userId, setUserId] = useState<string | null>(null)
   const [hasChanges, setHasChanges] = useState(false)
   const [showResetDialog, setShowResetDialog] = useState(false)
+  const [savedAt, setSavedAt] = useState(0)
   const savedParamsRef = useRef<VoiceParams | null>(null)
   const saveAbortRef = useRef<AbortController | null>(null)
 
@@ -175,6 +177,7 @@ export function VoiceTab() {
 
       savedParamsRef.current = params
       setHasChanges(false)
+      setSavedAt(Date.now())
       return true
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') return false
@@ -492,7 +495,7 @@ export function VoiceTab() {
                   <AlertDialogTitle>Reset to default settings?</AlertDialogTitle>
                   <AlertDialogDescription>
                     This will restore all voice settings to their default values. Your current
-                    customizations will be lost. This action cannot be undone.
+                    customizations stay in the version history, so you can restore them later.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -506,6 +509,15 @@ export function VoiceTab() {
           </div>
         </CardContent>
       </Card>
+
+      {userId && (
+        <CartridgeVersionHistory
+          type="voice"
+          cartridgeId={userId}
+          refreshKey={savedAt}
+          onRestored={() => loadVoiceSettings(userId)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,379 @@
+"use client"
+
+import React, { useState, useEffect, useCallback } from "react"
+import { useToast } from "@/hooks/use-toast"
+import { fetchWithCsrf } from "@/lib/csrf"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { History, Loader2, RotateCcw, Play } from "lucide-react"
+import type {
+  CartridgeFieldChange,
+  CartridgeVersion,
+  CartridgeVersionType,
+} from "@/lib/cartridges"
+import { cn } from "@/lib/utils"
+
+interface CartridgeVersionHistoryProps {
+  type: CartridgeVersionType
+  /** Defaults to the current user for voice */
+  cartridgeId?: string | null
+  /** Change to reload the history after a save */
+  refreshKey?: unknown
+  /** Called after a rollback so the tab can reload the cartridge */
+  onRestored?: () => void
+}
+
+interface PreviewResult {
+  versionId: string
+  versionNumber: number | null
+  text: string
+}
+
+function authorName(version: CartridgeVersion): string {
+  if (!version.author) return version.created_by ? "Unknown user" : "System"
+  return `${version.author.first_name} ${version.author.last_name}`.trim()
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)"
+  if (typeof value === "string") return value
+  return JSON.stringify(value, null, 2)
+}
+
+function FieldChange({ change }: { change: CartridgeFieldChange }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{change.field.replace(/_/g, " ")}</span>
+        <Badge variant="outline" className="text-xs">{change.kind}</Badge>
+      </div>
+      {change.lines ? (
+        <pre className="text-xs rounded-md border bg-muted/40 p-2 whitespace-pre-wrap overflow-x-auto">
+          {change.lines.map((line, i) => (
+            <div
+              key={i}
+              className={cn(
+                line.type === "added" && "bg-green-500/10 text-green-700 dark:text-green-400",
+                line.type === "removed" && "bg-red-500/10 text-red-700 dark:text-red-400 line-through"
+              )}
+            >
+              {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <pre className="text-xs rounded-md border bg-red-500/5 p-2 whitespace-pre-wrap overflow-x-auto">
+            {formatValue(change.before)}
+          </pre>
+          <pre className="text-xs rounded-md border bg-green-500/5 p-2 whitespace-pre-wrap overflow-x-auto">
+            {formatValue(change.after)}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function CartridgeVersionHistory({ type, cartridgeId, refreshKey, onRestored }: CartridgeVersionHistoryProps) {
+  const { toast } = useToast()
+  const [versions, setVersions] = useState<CartridgeVersion[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [changes, setChanges] = useState<CartridgeFieldChange[] | null>(null)
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false)
+  const [restoreTarget, setRestoreTarget] = useState<CartridgeVersion | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [previewPrompt, setPreviewPrompt] = useState("")
+  const [previewIds, setPreviewIds] = useState<[string, string]>(["current", "current"])
+  const [previewResults, setPreviewResults] = useState<PreviewResult[] | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  const loadVersions = useCallback(async () => {
+    if (type !== "voice" && !cartridgeId) {
+      setIsLoading(false)
+      return
+    }
+    try {
+      const params = new URLSearchParams({ type })
+      if (cartridgeId) params.set("cartridgeId", cartridgeId)
+      const response = await fetch(`/api/v1/cartridges/versions?${params}`, { credentials: "include" })
+      if (!response.ok) throw new Error("Failed to load version history")
+
+      const data = await response.json()
+      const loaded: CartridgeVersion[] = data.versions || []
+      setVersions(loaded)
+      if (loaded.length > 1) {
+        setPreviewIds((prev) => (prev[1] === "current" ? ["current", loaded[1].id] : prev))
+      }
+    } catch (error) {
+      console.error("[VersionHistory] Failed to load versions:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [type, cartridgeId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions, refreshKey])
+
+  const selectVersion = async (version: CartridgeVersion) => {
+    if (selectedId === version.id) {
+      setSelectedId(null)
+      setChanges(null)
+      return
+    }
+    setSelectedId(version.id)
+    setChanges(null)
+    setIsLoadingDiff(true)
+    try {
+      const response = await fetch(`/api/v1/cartridges/versions/${version.id}`, { credentials: "include" })
+      if (!response.ok) throw new Error("Failed to load changes")
+      const data = await response.json()
+      setChanges(data.changes || [])
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Failed to load changes"
+      toast({ title: "Error", description: msg, variant: "destructive" })
+    } finally {
+      setIsLoadingDiff(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return
+    setIsRestoring(true)
+    try {
+      const response = await fetchWithCsrf(`/api/v1/cartridges/versions/${restoreTarget.id}/rollback`, {
+        method: "POST",
+      })
+      if (!response.ok) {
+        const errData = await response.json().catch(() => ({}))
+        throw new Error(errData.error || "Failed to restore version")
+      }
+
+      const data = await response.json()
+      toast({ title: "Version restored", description: data.message })
+      setRestoreTarget(null)
+      setSelectedId(null)
+      setChanges(null)
+      await loadVersions()
+      onRestored?.()
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Failed to restore version"
+      toast({ title: "Error", description: msg, variant: "destructive" })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    setIsPreviewing(true)
+    setPreviewResults(null)
+    try {
+      const response = await fetchWithCsrf("/api/v1/cartridges/versions/preview", {
+        method: "POST",
+        body: JSON.stringify({ prompt: previewPrompt, versionIds: previewIds }),
+      })
+      if (!response.ok) {
+        const errData = await response.json().catch(() => ({}))
+        throw new Error(errData.error || "Failed to run preview")
+      }
+
+      const data = await response.json()
+      setPreviewResults(data.results || [])
+      if (data.budgetWarning) {
+        toast({ title: "AI budget", description: data.budgetWarning })
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Failed to run preview"
+      toast({ title: "Error", description: msg, variant: "destructive" })
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const versionLabel = (id: string) => {
+    if (id === "current") return "Current"
+    const version = versions.find((v) => v.id === id)
+    return version ? `Version ${version.version_number}` : "Version"
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          Every save is kept with its author. Select a version to see what changed, or restore it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions yet. Saving creates the first one.</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version, index) => (
+              <div key={version.id} className="rounded-md border">
+                <div className="flex items-center gap-3 p-3">
+                  <button
+                    type="button"
+                    onClick={() => selectVersion(version)}
+                    className="flex flex-1 items-center gap-3 text-left min-w-0"
+                  >
+                    <Badge variant={index === 0 ? "default" : "secondary"}>v{version.version_number}</Badge>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{version.change_summary || "Saved"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {authorName(version)} · {new Date(version.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </button>
+                  {index === 0 ? (
+                    <Badge variant="outline">Current</Badge>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => setRestoreTarget(version)}>
+                      <RotateCcw className="mr-2 h-3 w-3" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                {selectedId === version.id && (
+                  <div className="border-t p-3 space-y-3">
+                    {isLoadingDiff ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : changes && changes.length > 0 ? (
+                      changes.map((change) => <FieldChange key={change.field} change={change} />)
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No changes from the previous version.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* A/B preview: same prompt through two versions */}
+        {type !== "preferences" && versions.length > 1 && (
+          <div className="space-y-3 border-t pt-4">
+            <div>
+              <Label>Preview</Label>
+              <p className="text-xs text-muted-foreground">
+                Run a sample prompt through two versions to compare the assistant&apos;s output.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {[0, 1].map((side) => (
+                <Select
+                  key={side}
+                  value={previewIds[side]}
+                  onValueChange={(value) =>
+                    setPreviewIds((prev) => (side === 0 ? [value, prev[1]] : [prev[0], value]))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Current</SelectItem>
+                    {versions.slice(1).map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        Version {version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+            <Textarea
+              value={previewPrompt}
+              onChange={(e) => setPreviewPrompt(e.target.value)}
+              placeholder="e.g. Write a short update to a client about a delayed campaign launch"
+              rows={3}
+              maxLength={2000}
+            />
+            <Button onClick={handlePreview} disabled={isPreviewing || !previewPrompt.trim()}>
+              {isPreviewing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating...
+                </>
+              ) : (
+                <>
+                  <Play className="mr-2 h-4 w-4" />
+                  Run Preview
+                </>
+              )}
+            </Button>
+            {previewResults && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {previewResults.map((result, i) => (
+                  <div key={i} className="rounded-md border p-3 space-y-2">
+                    <Badge variant="secondary">{versionLabel(previewIds[i])}</Badge>
+                    <p className="text-sm whitespace-pre-wrap">{result.text}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoreTarget?.version_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The assistant will use this version from now on. The current version stays in the
+              history, so you can switch back at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore} disabled={isRestoring}>
+              {isRestoring ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Restoring...
+                </>
+              ) : (
+                "Restore"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -32,12 +32,17 @@ import {
   CheckCircle2,
   ChevronDown,
   FileText,
+  ShieldAlert,
+  XCircle,
 } from "lucide-react"
+import { toast } from "sonner"
 import { cn } from "@/lib/utils"
 import { fetchWithCsrf } from "@/lib/csrf"
 import { useStreamingText } from "./use-streaming-text"
 import { TypingCursor } from "./typing-cursor"
-import type { ChatMessage as ChatMessageType, RouteType, Citation, SessionContext, SuggestedMemory, DocumentContext } from "@/lib/chat/types"
+import { createChatStreamParser } from "@/lib/chat/sse"
+import { useChatContextStore } from "@/stores/chat-context-store"
+import type { ChatMessage as ChatMessageType, ChatResponseMessage, RouteType, Citation, SessionContext, SuggestedMemory, DocumentContext, PendingAction } from "@/lib/chat/types"
 
 // Panel dimensions
 const PANEL_WIDTH = "85%"
@@ -99,6 +104,7 @@ export function ChatInterface({
   const [messages, setMessages] = useState<ChatMessageType[]>([])
   const [inputValue, setInputValue] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  const [activeFunctionCall, setActiveFunctionCall] = useState<string | null>(null)
   const [sessionId] = useState(() => crypto.randomUUID()) // Generate session ID once
 
   // File upload state
@@ -113,6 +119,9 @@ export function ChatInterface({
   // Memory suggestion — loading state for the confirm API call
   const [confirmingSuggestion, setConfirmingSuggestion] = useState<string | null>(null)
 
+  // Pending action — ID of the proposed change being confirmed or cancelled
+  const [resolvingAction, setResolvingAction] = useState<string | null>(null)
+
   // Document context — set when user clicks "Send to AI" on a document
   const [documentContext, setDocumentContext] = useState<DocumentContext | null>(null)
 
@@ -303,7 +312,7 @@ export function ChatInterface({
     e.target.style.height = Math.min(e.target.scrollHeight, 120) + "px"
   }
 
-  // Core chat function with SSE streaming support (Phase 2)
+  // Core chat function with SSE streaming support
   const sendChatMessage = async (messageContent: string) => {
     const userMessage: ChatMessageType = {
       id: crypto.randomUUID(),
@@ -317,6 +326,10 @@ export function ChatInterface({
     setIsLoading(true)
     streaming.reset()
 
+    // What the user has open, so "this ticket" needs no name. Pages using the
+    // legacy setChatContext can still supply the client.
+    const { viewContext } = useChatContextStore.getState()
+
     try {
       const response = await fetch("/api/v1/chat", {
         method: "POST",
@@ -328,12 +341,15 @@ export function ChatInterface({
           agencyId,
           userId,
           stream: true, // Enable SSE streaming
+          viewContext: { ...viewContext, clientId: viewContext.clientId ?? context?.clientId },
           ...(documentContext && { documentContext: { id: documentContext.id, title: documentContext.title } }),
         }),
       })
 
       if (!response.ok) {
-        throw new Error(`API error: ${response.status}`)
+        // Budget refusals carry a message meant for the user
+        const body = response.status === 429 ? await response.json().catch(() => ({})) : {}
+        throw new Error(body.code === "BUDGET_EXCEEDED" ? body.error : `API error: ${response.status}`)
       }
 
       // Check if response is SSE stream
@@ -363,9 +379,11 @@ export function ChatInterface({
           citations: messageData.citations || [],
           suggestions: messageData.suggestions,
           suggestedMemory: messageData.suggestedMemory,
+          pendingActions: messageData.pendingActions,
         }
 
         setMessages((prev) => [...prev, assistantMessage])
+        if (messageData.budgetWarning) toast.warning(messageData.budgetWarning)
       }
     } catch (error) {
       console.error("Chat error:", error)
@@ -382,7 +400,7 @@ export function ChatInterface({
     }
   }
 
-  // SSE stream handler (Phase 2)
+  // SSE stream handler — see ChatStreamEvent in lib/chat/types for the protocol
   const handleStreamingResponse = async (response: Response) => {
     const reader = response.body?.getReader()
     if (!reader) {
@@ -390,80 +408,82 @@ export function ChatInterface({
     }
 
     const decoder = new TextDecoder()
-    let buffer = ''
+    const parseEvents = createChatStreamParser()
     let streamedContent = ''
-    let metadata: { route?: RouteType; sessionId?: string } = {}
+    let route: RouteType | undefined
+    const citations: Citation[] = []
+    const pendingActions: PendingAction[] = []
+    let finalMessage: ChatResponseMessage | null = null
 
     try {
-      while (true) {
+      while (!finalMessage) {
         const { done, value } = await reader.read()
 
         if (done) {
           break
         }
 
-        // Decode chunk and add to buffer
-        buffer += decoder.decode(value, { stream: true })
-
-        // Process complete SSE events (format: "data: {...}\n\n")
-        const events = buffer.split('\n\n')
-        buffer = events.pop() || '' // Keep incomplete event in buffer
-
-        for (const event of events) {
-          if (!event.startsWith('data: ')) continue
-
-          const data = event.slice(6) // Remove "data: " prefix
-
-          try {
-            const parsed = JSON.parse(data)
-
-            switch (parsed.type) {
-              case 'metadata':
-                // Store metadata for final message
-                metadata.route = parsed.route
-                metadata.sessionId = parsed.sessionId
-                break
-
-              case 'content':
-                // Accumulate content and trigger streaming display
-                streamedContent += parsed.content
-                streaming.processChunk({ type: 'content', content: parsed.content })
-                break
-
-              case 'complete': {
-                // Final message with citations and memory suggestions
-                const messageData = parsed.message
-
-                const assistantMessage: ChatMessageType = {
-                  id: messageData.id || crypto.randomUUID(),
-                  role: "assistant",
-                  content: messageData.content || streamedContent,
-                  timestamp: messageData.timestamp ? new Date(messageData.timestamp) : new Date(),
-                  route: messageData.route || metadata.route,
-                  citations: messageData.citations || [],
-                  suggestions: messageData.suggestions,
-                  suggestedMemory: messageData.suggestedMemory,
-                }
-
-                setMessages((prev) => [...prev, assistantMessage])
-                break
-              }
+        for (const event of parseEvents(decoder.decode(value, { stream: true }))) {
+          switch (event.type) {
+            case 'route':
+              route = event.route
+              break
+
+            case 'text_delta':
+              // Accumulate content and trigger streaming display
+              streamedContent += event.delta
+              streaming.processChunk({ type: 'content', content: event.delta })
+              break
+
+            case 'function_call_start':
+              setActiveFunctionCall(event.name)
+              break
 
-              case 'error':
-                throw new Error(parsed.error || 'Streaming error')
+            case 'function_call_end':
+              setActiveFunctionCall(null)
+              break
 
-              default:
-                // Unknown event type - ignore silently
-                break
-            }
-          } catch {
-            // Failed to parse SSE event - skip malformed data
+            case 'pending_action':
+              pendingActions.push(event.action)
+              break
+
+            case 'citation':
+              citations.push(event.citation)
+              break
+
+            case 'metadata':
+              finalMessage = event.message
+              break
+
+            case 'error':
+              throw new Error(event.error || 'Streaming error')
           }
         }
       }
     } finally {
+      setActiveFunctionCall(null)
       reader.releaseLock()
     }
+
+    if (!finalMessage && !streamedContent) {
+      throw new Error('The response ended unexpectedly')
+    }
+
+    // The final frame is authoritative (e.g. inline citation markers); fall back
+    // to what was streamed if the connection dropped before it arrived
+    const assistantMessage: ChatMessageType = {
+      id: finalMessage?.id || crypto.randomUUID(),
+      role: "assistant",
+      content: finalMessage?.content || streamedContent,
+      timestamp: finalMessage ? new Date(finalMessage.timestamp) : new Date(),
+      route: finalMessage?.route || route,
+      citations: finalMessage?.citations || citations,
+      suggestedMemory: finalMessage?.suggestedMemory,
+      pendingActions: finalMessage?.pendingActions || (pendingActions.length > 0 ? pendingActions : undefined),
+    }
+
+    setMessages((prev) => [...prev, assistantMessage])
+    if (finalMessage?.budgetWarning) toast.warning(finalMessage.budgetWarning)
   }
 
   // File upload handlers - ported from Holy Grail Chat
@@ -707,6 +727,51 @@ export function ChatInterface({
     clearSuggestedMemory(messageId)
   }
 
+  // Pending action handlers
+  // Nothing is written until the user confirms; the card then shows the outcome.
+  // The updated status is saved with the message, so resolved cards stay resolved.
+  const updatePendingAction = (messageId: string, action: PendingAction) => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === messageId
+          ? { ...m, pendingActions: m.pendingActions?.map((a) => (a.id === action.id ? action : a)) }
+          : m
+      )
+    )
+  }
+
+  const handleResolvePendingAction = async (
+    messageId: string,
+    action: PendingAction,
+    decision: "confirm" | "cancel"
+  ) => {
+    setResolvingAction(action.id)
+    try {
+      const response = await fetchWithCsrf(`/api/v1/chat/actions/${action.id}`, {
+        method: "POST",
+        body: JSON.stringify({ decision }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        // Expired or already resolved elsewhere: close the card with the reason
+        updatePendingAction(messageId, {
+          ...action,
+          status: response.status === 409 || response.status === 410 ? "cancelled" : action.status,
+          message: body.message || body.error || "Failed to apply change",
+        })
+        return
+      }
+
+      updatePendingAction(messageId, body.data)
+    } catch (err) {
+      console.error("[Chat] Pending action error:", err)
+      updatePendingAction(messageId, { ...action, message: "Failed to apply change. Please try again." })
+    } finally {
+      setResolvingAction(null)
+    }
+  }
+
   // CSS Keyframes for slide animations
   useEffect(() => {
     const styleId = "cc-chat-animations"
@@ -924,6 +989,82 @@ export function ChatInterface({
                     </div>
                   )}
 
+                  {/* Pending Action Cards */}
+                  {msg.role === "assistant" &&
+                    msg.pendingActions?.map((action) => (
+                      <div
+                        key={action.id}
+                        className="max-w-[85%] w-full mt-2 px-3 py-2 rounded-lg bg-blue-500/10 border border-blue-500/20 text-xs space-y-2"
+                      >
+                        <div className="flex items-center gap-2">
+                          <ShieldAlert className="h-3.5 w-3.5 text-blue-400 shrink-0" />
+                          <span className="font-medium text-gray-900 dark:text-gray-100 flex-1 truncate">
+                            {action.summary}
+                          </span>
+                        </div>
+                        {action.target && (
+                          <p className="text-[11px] text-gray-600 dark:text-gray-400">
+                            {action.target.type === "client" ? "Client" : "Ticket"}: {action.target.name}
+                          </p>
+                        )}
+                        <div className="space-y-0.5">
+                          {action.changes.map((change) => (
+                            <div key={change.field} className="flex items-baseline gap-2 text-[11px]">
+                              <span className="text-gray-500 dark:text-gray-400 w-24 shrink-0">{change.label}</span>
+                              {change.from !== null && (
+                                <>
+                                  <span className="line-through text-gray-500 truncate">{change.from}</span>
+                                  <span className="text-gray-500">→</span>
+                                </>
+                              )}
+                              <span className="text-gray-900 dark:text-gray-100 truncate">{change.to ?? "—"}</span>
+                            </div>
+                          ))}
+                        </div>
+                        {action.status === "pending" ? (
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => handleResolvePendingAction(msg.id, action, "confirm")}
+                              disabled={resolvingAction === action.id}
+                              className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 transition-colors disabled:opacity-50 cursor-pointer"
+                            >
+                              {resolvingAction === action.id ? (
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                              ) : (
+                                <CheckCircle2 className="h-3 w-3" />
+                              )}
+                              Confirm
+                            </button>
+                            <button
+                              onClick={() => handleResolvePendingAction(msg.id, action, "cancel")}
+                              disabled={resolvingAction === action.id}
+                              className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-white/10 text-gray-400 transition-colors disabled:opacity-50 cursor-pointer"
+                            >
+                              <X className="h-3 w-3" />
+                              Cancel
+                            </button>
+                            {action.message && (
+                              <span className="text-[11px] text-destructive truncate">{action.message}</span>
+                            )}
+                          </div>
+                        ) : (
+                          <p
+                            className={cn(
+                              "flex items-center gap-1 text-[11px]",
+                              action.status === "executed" ? "text-emerald-500" : "text-gray-500"
+                            )}
+                          >
+                            {action.status === "executed" ? (
+                              <CheckCircle2 className="h-3 w-3" />
+                            ) : (
+                              <XCircle className="h-3 w-3" />
+                            )}
+                            {action.message || (action.status === "executed" ? "Done" : "Cancelled")}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+
                   {/* Memory Suggestion Bar */}
                   {msg.role === "assistant" &&
                     msg.suggestedMemory && (
@@ -988,7 +1129,9 @@ export function ChatInterface({
                   <div className="p-2 rounded-lg bg-white/60 dark:bg-slate-800/80 backdrop-blur-sm border border-white/40 dark:border-slate-700">
                     <Loader2 className="h-4 w-4 animate-spin" />
                   </div>
-                  <span className="text-sm">Thinking...</span>
+                  <span className="text-sm">
+                    {activeFunctionCall ? `Running ${activeFunctionCall.replace(/_/g, " ")}...` : "Thinking..."}
+                  </span>
                 </div>
               )}
 
@@ -247,6 +247,9 @@ export function CommunicationsHub({ clientId: _clientId, className }: Communicat
         }
 
         const { data } = await response.json()
+        if (data.budgetWarning) {
+          toast({ title: 'AI budget nearly used', description: data.budgetWarning })
+        }
         return data.draft || ''
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to generate draft'
@@ -17,14 +17,28 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { cn } from "@/lib/utils"
 import type { TrendDataPoint, TimePeriod } from "@/types/dashboard"
 
+export interface TimeSeriesSeries {
+  key: string
+  label: string
+  color: string
+}
+
 interface TimeSeriesChartProps {
-  data: TrendDataPoint[] | null
+  data: TrendDataPoint[] | { date: string }[] | null
   isLoading?: boolean
   selectedPeriod: TimePeriod
   onPeriodChange: (period: TimePeriod) => void
   className?: string
+  title?: string
+  description?: string
+  series?: TimeSeriesSeries[]
 }
 
+const defaultSeries: TimeSeriesSeries[] = [
+  { key: "newClients", label: "New Clients", color: "oklch(0.65 0.15 250)" },
+  { key: "completedInstalls", label: "Completed Installs", color: "oklch(0.72 0.17 162)" },
+]
+
 const periodOptions: { value: TimePeriod; label: string }[] = [
   { value: 7, label: "7 Days" },
   { value: 30, label: "30 Days" },
@@ -37,11 +51,16 @@ export function TimeSeriesChart({
   selectedPeriod,
   onPeriodChange,
   className,
+  title = "New Clients vs. Completed Installs",
+  description = "Performance over time",
+  series = defaultSeries,
 }: TimeSeriesChartProps) {
   if (isLoading || !data) {
     return <TimeSeriesChartSkeleton />
   }
 
+  const labelFor = (key: string) => series.find((s) => s.key === key)?.label ?? key
+
   // Format data for display
   const formattedData = data.map((point) => ({
     ...point,
@@ -52,8 +71,8 @@ export function TimeSeriesChart({
     <Card className={cn("bg-card border-border", className)}>
       <CardHeader className="flex flex-row items-center justify-between pb-2">
         <div>
-          <CardTitle className="text-foreground">New Clients vs. Completed Installs</CardTitle>
-          <CardDescription>Performance over time</CardDescription>
+          <CardTitle className="text-foreground">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
         </div>
         <div
           className="flex gap-1"
@@ -75,21 +94,19 @@ export function TimeSeriesChart({
         </div>
       </CardHeader>
       <CardContent>
-        <div className="h-[300px]" role="img" aria-label="Trend chart showing new clients and completed installs">
+        <div className="h-[300px]" role="img" aria-label={`Trend chart showing ${series.map((s) => s.label.toLowerCase()).join(" and ")}`}>
           <ResponsiveContainer width="100%" height="100%">
             <AreaChart
               data={formattedData}
               margin={{ top: 10, right: 10, left: -10, bottom: 0 }}
             >
               <defs>
-                <linearGradient id="colorNewClients" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="oklch(0.65 0.15 250)" stopOpacity={0.3} />
-                  <stop offset="95%" stopColor="oklch(0.65 0.15 250)" stopOpacity={0} />
-                </linearGradient>
-                <linearGradient id="colorCompletedInstalls" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="oklch(0.72 0.17 162)" stopOpacity={0.3} />
-                  <stop offset="95%" stopColor="oklch(0.72 0.17 162)" stopOpacity={0} />
-                </linearGradient>
+                {series.map(({ key, color }) => (
+                  <linearGradient key={key} id={`color-${key}`} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={color} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={color} stopOpacity={0} />
+                  </linearGradient>
+                ))}
               </defs>
               <CartesianGrid strokeDasharray="3 3" stroke="#333" />
               <XAxis
@@ -115,37 +132,26 @@ export function TimeSeriesChart({
                 }}
                 labelStyle={{ color: "#999" }}
                 labelFormatter={(label) => `Date: ${label}`}
-                formatter={(value: number, name: string) => [
-                  value,
-                  name === "newClients" ? "New Clients" : "Completed Installs",
-                ]}
+                formatter={(value: number, name: string) => [value, labelFor(name)]}
               />
               <Legend
                 wrapperStyle={{ paddingTop: "20px" }}
                 formatter={(value) => (
-                  <span style={{ color: "#999" }}>
-                    {value === "newClients" ? "New Clients" : "Completed Installs"}
-                  </span>
+                  <span style={{ color: "#999" }}>{labelFor(value)}</span>
                 )}
               />
-              <Area
-                type="monotone"
-                dataKey="newClients"
-                name="newClients"
-                stroke="oklch(0.65 0.15 250)"
-                fillOpacity={1}
-                fill="url(#colorNewClients)"
-                strokeWidth={2}
-              />
-              <Area
-                type="monotone"
-                dataKey="completedInstalls"
-                name="completedInstalls"
-                stroke="oklch(0.72 0.17 162)"
-                fillOpacity={1}
-                fill="url(#colorCompletedInstalls)"
-                strokeWidth={2}
-              />
+              {series.map(({ key, color }) => (
+                <Area
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={key}
+                  stroke={color}
+                  fillOpacity={1}
+                  fill={`url(#color-${key})`}
+                  strokeWidth={2}
+                />
+              ))}
             </AreaChart>
           </ResponsiveContainer>
         </div>
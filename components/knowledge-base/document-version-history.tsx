@@ -0,0 +1,342 @@
+"use client"
+
+import React, { useState, useEffect, useCallback, useRef } from "react"
+import { useToast } from "@/hooks/use-toast"
+import { fetchWithCsrf, getCsrfToken } from "@/lib/csrf"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { History, Loader2, RotateCcw, Upload } from "lucide-react"
+import { formatFileSize } from "@/types/knowledge-base"
+import type { DiffLine } from "@/lib/cartridges"
+import type { DocumentVersion, DocumentVersionDiff } from "@/lib/rag/document-versions"
+import { cn } from "@/lib/utils"
+
+const ACCEPTED_FILE_TYPES = ".pdf,.doc,.docx,.txt"
+
+interface DocumentVersionHistoryProps {
+  documentId: string | null
+  documentName?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called after an upload or restore so the list can reload the document */
+  onChanged?: () => void
+}
+
+function authorName(version: DocumentVersion): string {
+  if (!version.author) return version.created_by ? "Unknown user" : "System"
+  return `${version.author.first_name} ${version.author.last_name}`.trim()
+}
+
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  const changed = lines.filter((line) => line.type !== "unchanged").length
+  if (changed === 0) {
+    return <p className="text-sm text-muted-foreground">The text is unchanged from the previous version.</p>
+  }
+
+  return (
+    <pre className="text-xs rounded-md border bg-muted/40 p-2 whitespace-pre-wrap overflow-x-auto max-h-[320px] overflow-y-auto">
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            line.type === "added" && "bg-green-500/10 text-green-700 dark:text-green-400",
+            line.type === "removed" && "bg-red-500/10 text-red-700 dark:text-red-400 line-through"
+          )}
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+export function DocumentVersionHistory({
+  documentId,
+  documentName,
+  open,
+  onOpenChange,
+  onChanged,
+}: DocumentVersionHistoryProps) {
+  const { toast } = useToast()
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<DocumentVersionDiff | null>(null)
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false)
+  const [restoreTarget, setRestoreTarget] = useState<DocumentVersion | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [changeNote, setChangeNote] = useState("")
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadVersions = useCallback(async () => {
+    if (!documentId) return
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/v1/documents/${documentId}/versions`, { credentials: "include" })
+      if (!response.ok) throw new Error("Failed to load version history")
+
+      const data = await response.json()
+      setVersions(data.versions || [])
+      setCurrentVersion(data.currentVersion ?? null)
+    } catch (error) {
+      console.error("[DocumentVersionHistory] Failed to load versions:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    if (open) {
+      setSelectedId(null)
+      setDiff(null)
+      loadVersions()
+    }
+  }, [open, loadVersions])
+
+  const selectVersion = async (version: DocumentVersion) => {
+    if (selectedId === version.id) {
+      setSelectedId(null)
+      setDiff(null)
+      return
+    }
+    setSelectedId(version.id)
+    setDiff(null)
+    setIsLoadingDiff(true)
+    try {
+      const response = await fetch(`/api/v1/documents/${documentId}/versions/${version.id}`, { credentials: "include" })
+      if (!response.ok) throw new Error("Failed to load changes")
+      const data = await response.json()
+      setDiff(data.diff)
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Failed to load changes"
+      toast({ title: "Error", description: msg, variant: "destructive" })
+    } finally {
+      setIsLoadingDiff(false)
+    }
+  }
+
+  const handleUpload = async () => {
+    if (!documentId || !file) return
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      if (changeNote.trim()) formData.append("change_note", changeNote.trim())
+
+      // FormData sets its own multipart Content-Type, so fetchWithCsrf can't be used
+      const csrfToken = getCsrfToken()
+      const headers: Record<string, string> = {}
+      if (csrfToken) headers["X-CSRF-Token"] = csrfToken
+
+      const response = await fetch(`/api/v1/documents/${documentId}/versions`, {
+        method: "POST",
+        body: formData,
+        headers,
+        credentials: "include",
+      })
+      if (!response.ok) {
+        const errData = await response.json().catch(() => ({}))
+        throw new Error(errData.error || "Failed to upload new version")
+      }
+
+      const data = await response.json()
+      toast({
+        title: "New version uploaded",
+        description: `Version ${data.version.version_number} is being indexed.`,
+      })
+      setFile(null)
+      setChangeNote("")
+      if (fileInputRef.current) fileInputRef.current.value = ""
+      await loadVersions()
+      onChanged?.()
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Failed to upload new version"
+      toast({ title: "Error", description: msg, variant: "destructive" })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!documentId || !restoreTarget) return
+    setIsRestoring(true)
+    try {
+      const response = await fetchWithCsrf(
+        `/api/v1/documents/${documentId}/versions/${restoreTarget.id}/restore`,
+        { method: "POST" }
+      )
+      if (!response.ok) {
+        const errData = await response.json().catch(() => ({}))
+        throw new Error(errData.error || "Failed to restore version")
+      }
+
+      const data = await response.json()
+      toast({ title: "Version restored", description: data.message })
+      setRestoreTarget(null)
+      setSelectedId(null)
+      setDiff(null)
+      await loadVersions()
+      onChanged?.()
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Failed to restore version"
+      toast({ title: "Error", description: msg, variant: "destructive" })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            {documentName ? `${documentName}. ` : ""}
+            Upload a revised file to add a version. Views, stars and client scoping are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Upload a new version */}
+        <div className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="text-xs"
+              disabled={isUploading}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="What changed? (optional)"
+              maxLength={500}
+              className="text-sm"
+              disabled={isUploading}
+            />
+            <Button onClick={handleUpload} disabled={!file || isUploading} size="sm">
+              {isUploading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Upload
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions recorded for this document yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version) => {
+              const isCurrent = version.version_number === currentVersion
+              return (
+                <div key={version.id} className="rounded-md border">
+                  <div className="flex items-center gap-3 p-3">
+                    <button
+                      type="button"
+                      onClick={() => selectVersion(version)}
+                      className="flex flex-1 items-center gap-3 text-left min-w-0"
+                    >
+                      <Badge variant={isCurrent ? "default" : "secondary"}>v{version.version_number}</Badge>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {version.change_note || version.file_name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {authorName(version)} · {new Date(version.created_at).toLocaleString()} ·{" "}
+                          {formatFileSize(version.file_size)}
+                        </p>
+                      </div>
+                    </button>
+                    {isCurrent ? (
+                      <Badge variant="outline">Current</Badge>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => setRestoreTarget(version)}>
+                        <RotateCcw className="mr-2 h-3 w-3" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  {selectedId === version.id && (
+                    <div className="border-t p-3">
+                      {isLoadingDiff || !diff ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      ) : diff.available ? (
+                        <DiffView lines={diff.lines} />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {diff.reason === "too_large"
+                            ? "This document is too long to compare line by line."
+                            : "No text comparison is available for this version yet. Text is extracted when the version is indexed."}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <AlertDialog open={!!restoreTarget} onOpenChange={(isOpen) => !isOpen && setRestoreTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restore version {restoreTarget?.version_number}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This file becomes the current version and is re-indexed for search and the
+                assistant. The current version stays in the history.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRestore} disabled={isRestoring}>
+                {isRestoring ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Restoring...
+                  </>
+                ) : (
+                  "Restore"
+                )}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  )
+}
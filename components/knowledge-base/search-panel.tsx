@@ -1,12 +1,20 @@
 "use client"
 
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'motion/react'
-import { useDocumentSearch } from '@/hooks/use-document-search'
+import { useDocumentSearch, useHybridDocumentSearch } from '@/hooks/use-document-search'
+import { usePipelineStore } from '@/stores/pipeline-store'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Search,
   Loader2,
@@ -16,34 +24,129 @@ import {
   X,
   CheckCircle,
   Quote,
+  Sparkles,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 interface SearchPanelProps {
   className?: string
+  /** Called when a result is clicked, with the document id */
+  onOpenDocument?: (documentId: string) => void
 }
 
-export function SearchPanel({ className }: SearchPanelProps) {
+const CATEGORY_OPTIONS = [
+  { value: 'installation', label: 'Installation' },
+  { value: 'tech', label: 'Technical' },
+  { value: 'support', label: 'Support' },
+  { value: 'process', label: 'Process' },
+  { value: 'client_specific', label: 'Client-Specific' },
+]
+
+const CATEGORY_LABELS: Record<string, string> = Object.fromEntries(
+  CATEGORY_OPTIONS.map((option) => [option.value, option.label])
+)
+
+const DATE_RANGES = [
+  { value: 'any', label: 'Any time' },
+  { value: '7', label: 'Past week' },
+  { value: '30', label: 'Past 30 days' },
+  { value: '90', label: 'Past 90 days' },
+  { value: '365', label: 'Past year' },
+]
+
+/** Render text with **highlighted** terms */
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split('**').map((part, idx) =>
+        idx % 2 === 1 ? (
+          <mark key={idx} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={idx}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
+
+export function SearchPanel({ className, onOpenDocument }: SearchPanelProps) {
   const [query, setQuery] = useState('')
-  const { isSearching, results, error, searchDocuments, clearResults } = useDocumentSearch()
+  const [submittedQuery, setSubmittedQuery] = useState('')
+  const [category, setCategory] = useState('all')
+  const [clientId, setClientId] = useState('all')
+  const [uploadedBy, setUploadedBy] = useState('all')
+  const [dateRange, setDateRange] = useState('any')
+
+  const { clients, fetchClients } = usePipelineStore()
+  const { isSearching, results, error, search, clearResults } = useHybridDocumentSearch()
+  const {
+    isSearching: isAnswering,
+    results: answer,
+    error: answerError,
+    searchDocuments,
+    clearResults: clearAnswer,
+  } = useDocumentSearch()
+
+  useEffect(() => {
+    if (clients.length === 0) fetchClients()
+  }, [clients.length, fetchClients])
+
+  const buildFilters = () => ({
+    category: category !== 'all' ? category : undefined,
+    client_id: clientId !== 'all' ? clientId : undefined,
+    uploaded_by: uploadedBy !== 'all' ? uploadedBy : undefined,
+    from: dateRange !== 'any'
+      ? new Date(Date.now() - Number(dateRange) * 24 * 60 * 60 * 1000).toISOString()
+      : undefined,
+  })
+
+  const runSearch = async (q: string) => {
+    clearAnswer()
+    try {
+      await search(q, buildFilters())
+    } catch (error) {
+      console.error('Search failed:', error)
+    }
+  }
+
+  // Re-run the current search when a filter changes
+  useEffect(() => {
+    if (submittedQuery) runSearch(submittedQuery)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [category, clientId, uploadedBy, dateRange])
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
 
     if (!query.trim()) return
 
+    setSubmittedQuery(query.trim())
+    await runSearch(query.trim())
+  }
+
+  const handleAskAI = async () => {
+    if (!submittedQuery) return
+
+    const { category: cat, client_id } = buildFilters()
     try {
-      await searchDocuments(query.trim())
+      await searchDocuments(submittedQuery, { category: cat, client_id })
     } catch (error) {
-      console.error('Search failed:', error)
+      console.error('Answer failed:', error)
     }
   }
 
   const handleClear = () => {
     setQuery('')
+    setSubmittedQuery('')
     clearResults()
+    clearAnswer()
   }
 
+  const labels = results?.facets.labels
+  const clientName = (id: string) => labels?.clients[id] ?? clients.find((c) => c.id === id)?.name ?? 'Client'
+
   return (
     <div className={cn("space-y-4", className)}>
       {/* Search Form */}
@@ -52,7 +155,7 @@ export function SearchPanel({ className }: SearchPanelProps) {
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
             type="text"
-            placeholder="Ask a question about your documents..."
+            placeholder="Search your documents..."
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             className="pl-10 pr-10"
@@ -71,6 +174,65 @@ export function SearchPanel({ className }: SearchPanelProps) {
           )}
         </div>
 
+        {/* Filters */}
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {CATEGORY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={clientId} onValueChange={setClientId}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Client" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All clients</SelectItem>
+              {clients.map((client) => (
+                <SelectItem key={client.id} value={client.id}>
+                  {client.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={uploadedBy} onValueChange={setUploadedBy}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Uploaded by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              {/* Uploaders come from the last results' facets */}
+              {uploadedBy !== 'all' && !labels?.uploaders[uploadedBy] && (
+                <SelectItem value={uploadedBy}>Selected uploader</SelectItem>
+              )}
+              {Object.entries(labels?.uploaders ?? {}).map(([id, name]) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={dateRange} onValueChange={setDateRange}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Uploaded" />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map((range) => (
+                <SelectItem key={range.value} value={range.value}>
+                  {range.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <Button
           type="submit"
           disabled={isSearching || !query.trim()}
@@ -131,91 +293,132 @@ export function SearchPanel({ className }: SearchPanelProps) {
             {/* Results Header */}
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <CheckCircle className="w-4 h-4 text-green-600" />
-              <span>Search Results</span>
+              <span>
+                {results.total} {results.total === 1 ? 'document' : 'documents'}
+              </span>
+              {!results.semantic && (
+                <Badge variant="outline" className="text-[10px] h-4 px-1.5">
+                  Keyword matches only
+                </Badge>
+              )}
               <div className="flex items-center gap-1 ml-auto text-xs">
                 <Clock className="w-3 h-3" />
                 <span>{new Date(results.timestamp).toLocaleTimeString()}</span>
               </div>
             </div>
 
-            {/* Query */}
-            <div className="p-3 bg-secondary/50 rounded-md">
-              <div className="text-xs text-muted-foreground mb-1">Your question:</div>
-              <div className="text-sm font-medium">{results.query}</div>
-            </div>
-
-            {/* Answer */}
-            <div className="p-4 bg-card border border-border rounded-lg">
-              <div className="flex items-center gap-2 mb-3">
-                <MessageCircle className="w-4 h-4 text-primary" />
-                <span className="text-sm font-medium">Answer</span>
-              </div>
-              <div className="text-sm whitespace-pre-wrap leading-relaxed">
-                {results.answer}
+            {/* Category facets */}
+            {results.facets.category.length > 1 && (
+              <div className="flex items-center gap-1.5 flex-wrap">
+                {results.facets.category.map((bucket) => (
+                  <Badge
+                    key={bucket.value}
+                    variant="outline"
+                    className="text-xs cursor-pointer hover:bg-secondary"
+                    onClick={() => setCategory(bucket.value)}
+                  >
+                    {CATEGORY_LABELS[bucket.value] ?? bucket.value}
+                    <span className="ml-1 opacity-60">{bucket.count}</span>
+                  </Badge>
+                ))}
               </div>
-            </div>
+            )}
 
-            {/* Citations from File Search Store */}
-            {results.citations && results.citations.length > 0 && (
-              <div className="space-y-2">
-                <Separator />
-                <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                  <Quote className="w-3 h-3" />
-                  <span>Sources ({results.citations.length})</span>
-                  {results.isGrounded && (
-                    <Badge variant="secondary" className="text-[10px] h-4 px-1.5">
-                      Grounded
-                    </Badge>
-                  )}
-                </div>
-                <div className="space-y-2">
-                  {results.citations.map((citation, idx) => (
-                    <div
-                      key={idx}
-                      className="p-2.5 bg-secondary/30 border border-border/50 rounded-md"
-                    >
-                      <div className="flex items-center gap-1.5 mb-1">
-                        <FileText className="w-3 h-3 text-primary flex-shrink-0" />
-                        <span className="text-xs font-medium truncate">
-                          {citation.documentName}
-                        </span>
-                      </div>
-                      {citation.snippet && (
-                        <p className="text-xs text-muted-foreground leading-relaxed line-clamp-3">
-                          {citation.snippet}
-                        </p>
-                      )}
+            {/* Ask AI */}
+            {results.total > 0 && (
+              answer ? (
+                <div className="p-4 bg-card border border-border rounded-lg">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Sparkles className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">AI Summary</span>
+                    {answer.isGrounded && (
+                      <Badge variant="secondary" className="text-[10px] h-4 px-1.5">
+                        Grounded
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-sm whitespace-pre-wrap leading-relaxed">
+                    {answer.answer}
+                  </div>
+                  {answer.citations.length > 0 && (
+                    <div className="flex items-center gap-1.5 flex-wrap mt-3 text-xs text-muted-foreground">
+                      <Quote className="w-3 h-3" />
+                      {[...new Set(answer.citations.map((c) => c.documentName))].map((name) => (
+                        <Badge key={name} variant="outline" className="text-xs">
+                          <span className="truncate max-w-[140px]">{name}</span>
+                        </Badge>
+                      ))}
                     </div>
-                  ))}
+                  )}
                 </div>
-              </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleAskAI}
+                  disabled={isAnswering}
+                >
+                  {isAnswering ? (
+                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  ) : (
+                    <Sparkles className="w-4 h-4 mr-2" />
+                  )}
+                  Ask AI about these results
+                </Button>
+              )
+            )}
+            {answerError && (
+              <p className="text-xs text-destructive">{answerError}</p>
             )}
 
-            {/* Documents Searched */}
-            {results.documentsSearched.length > 0 && (
-              <div className="space-y-2">
-                <Separator />
-                <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                  <FileText className="w-3 h-3" />
-                  <span>Documents searched ({results.documentsSearched.length})</span>
-                </div>
-                <div className="flex items-center gap-2 flex-wrap">
-                  {results.documentsSearched.map((doc) => (
-                    <Badge
-                      key={doc.id}
-                      variant="outline"
-                      className="text-xs"
-                      title={doc.title}
-                    >
-                      <span className="truncate max-w-[120px]">
-                        {doc.title}
-                      </span>
-                      <span className="ml-1 opacity-60">
-                        ({doc.category})
-                      </span>
-                    </Badge>
+            {results.total > 0 && <Separator />}
+
+            {/* Hits */}
+            <div className="space-y-2">
+              {results.hits.map((hit) => (
+                <button
+                  key={hit.documentId}
+                  type="button"
+                  onClick={() => onOpenDocument?.(hit.documentId)}
+                  className={cn(
+                    "w-full text-left p-2.5 bg-secondary/30 border border-border/50 rounded-md",
+                    onOpenDocument && "hover:bg-secondary/60 transition-colors"
+                  )}
+                >
+                  <div className="flex items-center gap-1.5 mb-1">
+                    <FileText className="w-3 h-3 text-primary flex-shrink-0" />
+                    <span className="text-sm font-medium truncate">
+                      <Highlighted text={hit.titleHighlight} />
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1.5 flex-wrap mb-1.5 text-[11px] text-muted-foreground">
+                    <span>{CATEGORY_LABELS[hit.category] ?? hit.category}</span>
+                    {hit.clientId && <span>· {clientName(hit.clientId)}</span>}
+                    <span>· {new Date(hit.createdAt).toLocaleDateString()}</span>
+                    {labels?.uploaders[hit.uploadedBy] && <span>· {labels.uploaders[hit.uploadedBy]}</span>}
+                    <span className="ml-auto flex gap-1">
+                      {hit.matchedBy.map((source) => (
+                        <Badge key={source} variant="secondary" className="text-[10px] h-4 px-1.5 capitalize">
+                          {source}
+                        </Badge>
+                      ))}
+                    </span>
+                  </div>
+                  {hit.passages.map((passage, idx) => (
+                    <p key={idx} className="text-xs text-muted-foreground leading-relaxed line-clamp-3 mt-1">
+                      <Highlighted text={passage.text} />
+                    </p>
                   ))}
-                </div>
+                </button>
+              ))}
+            </div>
+
+            {results.total === 0 && (
+              <div className="text-center py-6 text-muted-foreground">
+                <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm font-medium">No matching documents</p>
+                <p className="text-xs mt-1">Try other words or fewer filters.</p>
               </div>
             )}
           </motion.div>
@@ -228,11 +431,11 @@ export function SearchPanel({ className }: SearchPanelProps) {
           <Search className="w-12 h-12 mx-auto mb-3 opacity-20" />
           <p className="text-sm font-medium mb-1">Search Your Knowledge Base</p>
           <p className="text-xs">
-            Ask questions about your uploaded documents.<br />
-            The AI will search through indexed files to find answers.
+            Find documents by keyword or meaning.<br />
+            Ask AI to summarize what the results say.
           </p>
         </div>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -75,6 +75,7 @@ interface DocumentPreviewPanelProps {
   onShare?: () => void
   onDelete?: () => void
   onToggleTraining?: () => void
+  onVersionHistory?: () => void
   onClientChange?: (clientId: string | null) => Promise<boolean>
   clients?: ClientOption[]
   isDownloading?: boolean
@@ -90,6 +91,7 @@ export function DocumentPreviewPanel({
   onShare,
   onDelete,
   onToggleTraining,
+  onVersionHistory,
   onClientChange,
   clients,
   isDownloading,
@@ -171,7 +173,7 @@ export function DocumentPreviewPanel({
                 Move to folder
               </DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuItem>
+              <DropdownMenuItem onClick={onVersionHistory} disabled={!onVersionHistory}>
                 <History className="w-4 h-4 mr-2" />
                 Version history
               </DropdownMenuItem>
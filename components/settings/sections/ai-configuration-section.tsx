@@ -16,12 +16,12 @@ import type { TokenUsageStats } from "@/types/settings"
 // Default token usage
 const DEFAULT_TOKEN_USAGE: TokenUsageStats = {
   current_usage: 0,
-  limit: 50000,
+  limit: 0,
   percent_used: 0,
   usage_by_feature: {
     "Chat Assistant": 0,
     "Draft Replies": 0,
-    "Alert Analysis": 0,
+    "Workflow Drafts": 0,
     "Document RAG": 0,
   },
   daily_usage: [],
@@ -55,6 +55,19 @@ const AI_FEATURES = [
   },
 ]
 
+// LLM providers an agency can select (lib/llm); "default" leaves it to the deployment
+const LLM_PROVIDER_OPTIONS = [
+  { id: "default", name: "Platform default", modelPlaceholder: "Provider default" },
+  { id: "gemini", name: "Google Gemini", modelPlaceholder: "gemini-3-flash-preview" },
+  { id: "openai", name: "OpenAI-compatible", modelPlaceholder: "gpt-4o-mini" },
+  { id: "mock", name: "Mock (testing)", modelPlaceholder: "mock-1" },
+]
+
+// Empty budget inputs mean no budget
+function parseBudget(value: string): number | undefined {
+  return value.trim() ? Number(value) : undefined
+}
+
 export function AIConfigurationSection() {
   const { toast } = useToast()
   const {
@@ -69,6 +82,11 @@ export function AIConfigurationSection() {
   const [responseTone, setResponseTone] = useState<"professional" | "casual" | "technical">("professional")
   const [responseLength, setResponseLength] = useState<"brief" | "detailed" | "comprehensive">("detailed")
   const [enabledFeatures, setEnabledFeatures] = useState<string[]>(AI_FEATURES.map((f) => f.id))
+  const [provider, setProvider] = useState("default")
+  const [model, setModel] = useState("")
+  const [tokenLimit, setTokenLimit] = useState(50000)
+  const [monthlyBudget, setMonthlyBudget] = useState("")
+  const [userMonthlyBudget, setUserMonthlyBudget] = useState("")
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -79,9 +97,10 @@ export function AIConfigurationSection() {
         setIsLoading(true)
         setError(null)
 
-        const response = await fetch('/api/v1/settings/agency', {
-          credentials: 'include',
-        })
+        const [response, usageResponse] = await Promise.all([
+          fetch('/api/v1/settings/agency', { credentials: 'include' }),
+          fetch('/api/v1/settings/ai-usage', { credentials: 'include' }),
+        ])
         if (!response.ok) {
           throw new Error('Failed to load settings')
         }
@@ -94,15 +113,19 @@ export function AIConfigurationSection() {
         setResponseTone(config.response_tone || 'professional')
         setResponseLength(config.response_length || 'detailed')
         setEnabledFeatures(config.enabled_features || AI_FEATURES.map(f => f.id))
+        setProvider(config.provider || 'default')
+        setModel(config.model || '')
+        setTokenLimit(config.token_limit || 50000)
+        setMonthlyBudget(config.monthly_token_budget ? String(config.monthly_token_budget) : '')
+        setUserMonthlyBudget(config.user_monthly_token_budget ? String(config.user_monthly_token_budget) : '')
 
-        // Set token usage
-        setTokenUsage({
-          current_usage: 0,
-          limit: config.token_limit || 50000,
-          usage_by_feature: {},
-          daily_usage: [],
-          percent_used: 0,
-        })
+        // Month-to-date usage from the ledger; settings still load without it
+        if (usageResponse.ok) {
+          const { data: usage } = await usageResponse.json()
+          setTokenUsage(usage)
+        } else {
+          setTokenUsage(DEFAULT_TOKEN_USAGE)
+        }
       } catch (err) {
         console.error('[AIConfigurationSection] Error loading AI config:', err)
         setError('Failed to load AI configuration')
@@ -135,7 +158,11 @@ export function AIConfigurationSection() {
             response_tone: responseTone,
             response_length: responseLength,
             enabled_features: enabledFeatures,
-            token_limit: tokenUsage?.limit || 50000,
+            token_limit: tokenLimit,
+            provider: provider === 'default' ? undefined : provider,
+            model: model.trim() || undefined,
+            monthly_token_budget: parseBudget(monthlyBudget),
+            user_monthly_token_budget: parseBudget(userMonthlyBudget),
           },
         }),
       })
@@ -146,6 +173,15 @@ export function AIConfigurationSection() {
       }
 
       setHasUnsavedChanges(false)
+      const budget = parseBudget(monthlyBudget) ?? 0
+      if (tokenUsage) {
+        setTokenUsage({
+          ...tokenUsage,
+          limit: budget,
+          percent_used: budget > 0 ? (tokenUsage.current_usage / budget) * 100 : 0,
+          user_limit: parseBudget(userMonthlyBudget) ?? null,
+        })
+      }
       toast({
         title: "AI settings saved",
         description: "Your AI configuration has been updated.",
@@ -165,6 +201,10 @@ export function AIConfigurationSection() {
   }
 
   const usagePercent = tokenUsage?.percent_used || 0
+  const hasBudget = (tokenUsage?.limit || 0) > 0
+  const resetsAt = tokenUsage?.resets_at
+    ? new Date(tokenUsage.resets_at).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" })
+    : null
 
   // Loading skeleton
   if (isLoading) {
@@ -202,9 +242,11 @@ export function AIConfigurationSection() {
         <CardHeader className="pb-2 pt-3 px-3">
           <CardTitle className="text-[11px] font-medium flex items-center justify-between">
             <span>Token Usage This Month</span>
-            <span className="text-[10px] font-normal text-muted-foreground">
-              Resets Jan 1
-            </span>
+            {resetsAt && (
+              <span className="text-[10px] font-normal text-muted-foreground">
+                Resets {resetsAt}
+              </span>
+            )}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3 px-3 pb-3">
@@ -212,19 +254,24 @@ export function AIConfigurationSection() {
           <div className="space-y-1.5">
             <div className="flex justify-between text-[10px]">
               <span className="text-muted-foreground">
-                {tokenUsage?.current_usage.toLocaleString()} / {tokenUsage?.limit.toLocaleString()} tokens
-              </span>
-              <span
-                className={
-                  usagePercent > 90
-                    ? "text-red-600 dark:text-red-500 font-medium"
-                    : usagePercent > 75
-                      ? "text-amber-600 dark:text-amber-500"
-                      : "text-emerald-600 dark:text-emerald-500"
-                }
-              >
-                {usagePercent.toFixed(1)}% used
+                {hasBudget
+                  ? `${tokenUsage?.current_usage.toLocaleString()} / ${tokenUsage?.limit.toLocaleString()} tokens`
+                  : `${(tokenUsage?.current_usage || 0).toLocaleString()} tokens · no budget set`}
+                {tokenUsage?.requests !== undefined && ` · ${tokenUsage.requests.toLocaleString()} requests`}
               </span>
+              {hasBudget && (
+                <span
+                  className={
+                    usagePercent > 90
+                      ? "text-red-600 dark:text-red-500 font-medium"
+                      : usagePercent > 75
+                        ? "text-amber-600 dark:text-amber-500"
+                        : "text-emerald-600 dark:text-emerald-500"
+                  }
+                >
+                  {usagePercent.toFixed(1)}% used
+                </span>
+              )}
             </div>
             <div className="h-1.5 bg-muted rounded-full overflow-hidden">
               <div
@@ -249,6 +296,61 @@ export function AIConfigurationSection() {
               </div>
             ))}
           </div>
+
+          {/* Top Users */}
+          {tokenUsage?.usage_by_user && tokenUsage.usage_by_user.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-[10px] font-medium">Top Users</p>
+              {tokenUsage.usage_by_user.map((user) => (
+                <div key={user.user_id ?? "automations"} className="flex items-center justify-between text-[10px]">
+                  <span>{user.name}</span>
+                  <span className="text-muted-foreground">
+                    {user.tokens.toLocaleString()} tokens
+                    {tokenUsage.user_limit && user.user_id
+                      ? ` (${((user.tokens / tokenUsage.user_limit) * 100).toFixed(0)}%)`
+                      : ""}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Monthly Budgets */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="monthly-token-budget" className="text-[10px]">Agency Monthly Budget</Label>
+              <Input
+                id="monthly-token-budget"
+                type="number"
+                min={1000}
+                value={monthlyBudget}
+                onChange={(e) => {
+                  setMonthlyBudget(e.target.value)
+                  setHasUnsavedChanges(true)
+                }}
+                placeholder="No limit"
+                className="bg-secondary border-border h-7 text-[11px]"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="user-monthly-token-budget" className="text-[10px]">Per-User Monthly Budget</Label>
+              <Input
+                id="user-monthly-token-budget"
+                type="number"
+                min={1000}
+                value={userMonthlyBudget}
+                onChange={(e) => {
+                  setUserMonthlyBudget(e.target.value)
+                  setHasUnsavedChanges(true)
+                }}
+                placeholder="No limit"
+                className="bg-secondary border-border h-7 text-[11px]"
+              />
+            </div>
+          </div>
+          <p className="text-[9px] text-muted-foreground">
+            In tokens. AI features warn at 80% of a budget and stop at 100% until the month resets.
+          </p>
         </CardContent>
       </Card>
 
@@ -319,6 +421,48 @@ export function AIConfigurationSection() {
               </Select>
             </div>
           </div>
+
+          {/* Model Provider */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-[10px]">Model Provider</Label>
+              <Select
+                value={provider}
+                onValueChange={(value) => {
+                  setProvider(value)
+                  setHasUnsavedChanges(true)
+                }}
+              >
+                <SelectTrigger className="bg-secondary border-border h-7 text-[11px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LLM_PROVIDER_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id} className="text-[11px]">
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="ai-model" className="text-[10px]">Model</Label>
+              <Input
+                id="ai-model"
+                value={model}
+                onChange={(e) => {
+                  setModel(e.target.value)
+                  setHasUnsavedChanges(true)
+                }}
+                placeholder={LLM_PROVIDER_OPTIONS.find((option) => option.id === provider)?.modelPlaceholder}
+                className="bg-secondary border-border h-7 text-[11px]"
+              />
+            </div>
+          </div>
+          <p className="text-[9px] text-muted-foreground">
+            Used for chat, drafts and summaries. Document search always uses Gemini.
+          </p>
         </CardContent>
       </Card>
 
@@ -0,0 +1,555 @@
+"use client"
+
+/**
+ * MemoryManagerSection - Settings > AI Memory
+ *
+ * Lets users review and correct what the assistant remembers:
+ * - Filter by type, client and importance (and pinned only)
+ * - Edit a memory's wording inline, change its importance
+ * - Pin a memory so it never expires or gets merged by maintenance
+ * - Select and delete memories in bulk
+ * - Open the chat message a memory was learned from
+ */
+
+import React, { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import {
+  Brain,
+  Search,
+  Trash2,
+  Pencil,
+  Pin,
+  PinOff,
+  Loader2,
+  MessageSquare,
+  RefreshCw,
+  AlertTriangle,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { usePipelineStore } from "@/stores/pipeline-store"
+import { cn } from "@/lib/utils"
+import { fetchWithCsrf } from "@/lib/csrf"
+import type { MemoryMetadata, MemoryType } from "@/lib/memory/types"
+
+type Importance = NonNullable<MemoryMetadata["importance"]>
+
+interface MemoryItem {
+  id: string
+  content: string
+  metadata: Partial<MemoryMetadata>
+  score?: number
+  createdAt?: string
+}
+
+const PAGE_SIZE = 50
+
+const MEMORY_TYPES: MemoryType[] = ["conversation", "decision", "preference", "project", "insight", "task"]
+const IMPORTANCE_LEVELS: Importance[] = ["high", "medium", "low"]
+
+const TYPE_COLORS: Record<string, string> = {
+  conversation: "bg-blue-500/10 text-blue-500",
+  decision: "bg-green-500/10 text-green-500",
+  preference: "bg-amber-500/10 text-amber-500",
+  project: "bg-purple-500/10 text-purple-500",
+  insight: "bg-orange-500/10 text-orange-500",
+  task: "bg-red-500/10 text-red-500",
+}
+
+/** Deep link to the chat message a memory came from */
+function sourceHref(memory: MemoryItem): string {
+  const params = new URLSearchParams({ session: memory.metadata.sessionId! })
+  if (memory.metadata.sourceMessageId) params.set("message", memory.metadata.sourceMessageId)
+  return `/intelligence?${params}`
+}
+
+export function MemoryManagerSection() {
+  const { toast } = useToast()
+  const { clients, fetchClients } = usePipelineStore()
+
+  const [memories, setMemories] = useState<MemoryItem[]>([])
+  const [sessions, setSessions] = useState<Record<string, string>>({})
+  const [total, setTotal] = useState(0)
+  // Set when the server could only scan part of the matches for the filters
+  const [truncated, setTruncated] = useState(false)
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [search, setSearch] = useState("")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  const [typeFilter, setTypeFilter] = useState("all")
+  const [clientFilter, setClientFilter] = useState("all")
+  const [importanceFilter, setImportanceFilter] = useState("all")
+  const [pinnedOnly, setPinnedOnly] = useState(false)
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [confirmBulkDelete, setConfirmBulkDelete] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editValue, setEditValue] = useState("")
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [bulkDeleting, setBulkDeleting] = useState(false)
+
+  const clientNames = Object.fromEntries(clients.map((c) => [c.id, c.name]))
+
+  useEffect(() => {
+    if (clients.length === 0) fetchClients()
+  }, [clients.length, fetchClients])
+
+  // Debounce search input
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(search.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [search])
+
+  // Any filter change starts over from the first page
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const fetchMemories = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) })
+      if (debouncedSearch) params.set("search", debouncedSearch)
+      if (typeFilter !== "all") params.set("type", typeFilter)
+      if (clientFilter !== "all") params.set("clientId", clientFilter)
+      if (importanceFilter !== "all") params.set("importance", importanceFilter)
+      if (pinnedOnly) params.set("pinned", "true")
+
+      const response = await fetch(`/api/v1/memory?${params}`, { credentials: "include" })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+      const data = await response.json()
+      setMemories(data.memories || [])
+      setSessions(data.sessions || {})
+      setTotal(data.total || data.memories?.length || 0)
+      setTruncated(data.truncated === true)
+      setSelectedIds(new Set())
+      setConfirmBulkDelete(false)
+    } catch (err) {
+      console.error("[MemoryManager] Fetch error:", err)
+      setError("Failed to load memories")
+      setMemories([])
+    } finally {
+      setLoading(false)
+    }
+  }, [page, debouncedSearch, typeFilter, clientFilter, importanceFilter, pinnedOnly])
+
+  useEffect(() => {
+    fetchMemories()
+  }, [fetchMemories])
+
+  const replaceMemory = (updated: MemoryItem) => {
+    setMemories((prev) => prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)))
+  }
+
+  const handleSaveEdit = async (memory: MemoryItem) => {
+    const content = editValue.trim()
+    if (!content || content === memory.content) {
+      setEditingId(null)
+      return
+    }
+
+    setBusyId(memory.id)
+    try {
+      const response = await fetchWithCsrf("/api/v1/memory", {
+        method: "PUT",
+        body: JSON.stringify({ memoryId: memory.id, content }),
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      replaceMemory({ ...memory, content })
+      setEditingId(null)
+    } catch (err) {
+      console.error("[MemoryManager] Update error:", err)
+      toast({ title: "Error", description: "Failed to update memory", variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleAttributeChange = async (
+    memory: MemoryItem,
+    changes: { pinned?: boolean; importance?: Importance }
+  ) => {
+    setBusyId(memory.id)
+    try {
+      const response = await fetchWithCsrf("/api/v1/memory", {
+        method: "PATCH",
+        body: JSON.stringify({ memoryId: memory.id, ...changes }),
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      replaceMemory({ ...memory, metadata: { ...memory.metadata, ...changes } })
+    } catch (err) {
+      console.error("[MemoryManager] Update error:", err)
+      toast({ title: "Error", description: "Failed to update memory", variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleBulkDelete = async () => {
+    setBulkDeleting(true)
+    try {
+      const response = await fetchWithCsrf("/api/v1/memory", {
+        method: "DELETE",
+        body: JSON.stringify({ memoryIds: [...selectedIds] }),
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+      const result: { deleted: string[]; failed: string[] } = await response.json()
+      setMemories((prev) => prev.filter((m) => !result.deleted.includes(m.id)))
+      setTotal((prev) => prev - result.deleted.length)
+      setSelectedIds(new Set(result.failed))
+      setConfirmBulkDelete(false)
+
+      if (result.failed.length > 0) {
+        toast({
+          title: "Some memories were not deleted",
+          description: `${result.failed.length} of ${result.failed.length + result.deleted.length} could not be deleted`,
+          variant: "destructive",
+        })
+      } else {
+        toast({ title: "Memories deleted", description: `Deleted ${result.deleted.length} memories` })
+      }
+    } catch (err) {
+      console.error("[MemoryManager] Bulk delete error:", err)
+      toast({ title: "Error", description: "Failed to delete memories", variant: "destructive" })
+    } finally {
+      setBulkDeleting(false)
+    }
+  }
+
+  const toggleSelected = (memoryId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(memoryId)
+      } else {
+        next.delete(memoryId)
+      }
+      return next
+    })
+  }
+
+  const allSelected = memories.length > 0 && memories.every((m) => selectedIds.has(m.id))
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2">AI Memory</h2>
+        <p className="text-gray-600 dark:text-slate-400">
+          Review and correct what the assistant remembers about you and your clients
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search memories..."
+            className="pl-8 h-8 text-sm"
+          />
+        </div>
+        <Select value={typeFilter} onValueChange={withPageReset(setTypeFilter)}>
+          <SelectTrigger className="h-8 w-[140px] text-sm">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {MEMORY_TYPES.map((type) => (
+              <SelectItem key={type} value={type} className="capitalize">
+                {type}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={clientFilter} onValueChange={withPageReset(setClientFilter)}>
+          <SelectTrigger className="h-8 w-[160px] text-sm">
+            <SelectValue placeholder="Client" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All clients</SelectItem>
+            {clients.map((client) => (
+              <SelectItem key={client.id} value={client.id}>
+                {client.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={importanceFilter} onValueChange={withPageReset(setImportanceFilter)}>
+          <SelectTrigger className="h-8 w-[140px] text-sm">
+            <SelectValue placeholder="Importance" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any importance</SelectItem>
+            {IMPORTANCE_LEVELS.map((level) => (
+              <SelectItem key={level} value={level} className="capitalize">
+                {level}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-1.5 text-sm text-muted-foreground cursor-pointer">
+          <Checkbox checked={pinnedOnly} onCheckedChange={(checked) => withPageReset(setPinnedOnly)(checked === true)} />
+          Pinned only
+        </label>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={fetchMemories} disabled={loading}>
+          <RefreshCw className={cn("h-3.5 w-3.5", loading && "animate-spin")} />
+        </Button>
+      </div>
+
+      {/* Bulk actions */}
+      {memories.length > 0 && (
+        <div className="flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) =>
+                setSelectedIds(checked === true ? new Set(memories.map((m) => m.id)) : new Set())
+              }
+            />
+            <span className="text-muted-foreground">
+              {selectedIds.size > 0
+                ? `${selectedIds.size} selected`
+                : truncated
+                  ? `${total}+ memories (narrow the filters to see all)`
+                  : `${total} memories`}
+            </span>
+          </label>
+          {selectedIds.size > 0 && !confirmBulkDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-muted-foreground hover:text-destructive"
+              onClick={() => setConfirmBulkDelete(true)}
+            >
+              <Trash2 className="w-3 h-3 mr-1.5" />
+              Delete selected
+            </Button>
+          )}
+          {confirmBulkDelete && (
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-destructive/5 border border-destructive/20 rounded-lg">
+              <AlertTriangle className="w-3.5 h-3.5 text-destructive shrink-0" />
+              <span className="text-xs text-muted-foreground">
+                Permanently delete {selectedIds.size} memories?
+              </span>
+              <Button
+                variant="destructive"
+                size="sm"
+                className="h-6 text-[11px]"
+                onClick={handleBulkDelete}
+                disabled={bulkDeleting}
+              >
+                {bulkDeleting && <Loader2 className="w-3 h-3 animate-spin mr-1" />}
+                Delete
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 text-[11px]"
+                onClick={() => setConfirmBulkDelete(false)}
+              >
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-sm text-red-500">{error}</div>
+      )}
+
+      {/* Loading state */}
+      {loading && memories.length === 0 && !error && (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!loading && !error && memories.length === 0 && (
+        <div className="border border-gray-200 dark:border-slate-700 rounded-lg p-8 text-center">
+          <Brain className="w-8 h-8 mx-auto mb-2 text-muted-foreground opacity-50" />
+          <p className="text-sm font-medium mb-1">No memories found</p>
+          <p className="text-xs text-muted-foreground">
+            Memories are created as you chat with the assistant. Try clearing the filters.
+          </p>
+        </div>
+      )}
+
+      {/* Memory list */}
+      {memories.length > 0 && (
+        <div className="space-y-2">
+          {memories.map((memory) => {
+            const type = memory.metadata.type || "conversation"
+            const importance = memory.metadata.importance || "medium"
+            const sessionTitle = memory.metadata.sessionId ? sessions[memory.metadata.sessionId] : undefined
+            const clientName = memory.metadata.clientId ? clientNames[memory.metadata.clientId] : undefined
+            const isEditing = editingId === memory.id
+            const isBusy = busyId === memory.id
+
+            return (
+              <div
+                key={memory.id}
+                className={cn(
+                  "group flex items-start gap-3 p-3 border border-gray-200 dark:border-slate-700 rounded-lg transition-colors",
+                  selectedIds.has(memory.id) && "border-primary/40 bg-primary/5"
+                )}
+              >
+                <Checkbox
+                  className="mt-1"
+                  checked={selectedIds.has(memory.id)}
+                  onCheckedChange={(checked) => toggleSelected(memory.id, checked === true)}
+                />
+
+                <div className="flex-1 min-w-0">
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        autoFocus
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Escape") setEditingId(null)
+                        }}
+                        className="text-sm min-h-[60px]"
+                      />
+                      <div className="flex items-center gap-2">
+                        <Button size="sm" className="h-7 text-xs" onClick={() => handleSaveEdit(memory)} disabled={isBusy}>
+                          {isBusy && <Loader2 className="w-3 h-3 animate-spin mr-1" />}
+                          Save
+                        </Button>
+                        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm leading-relaxed">{memory.content}</p>
+                  )}
+
+                  <div className="flex items-center flex-wrap gap-2 mt-1.5">
+                    <Badge variant="secondary" className={cn("text-[10px] capitalize", TYPE_COLORS[type] || "bg-secondary")}>
+                      {type}
+                    </Badge>
+                    {memory.metadata.pinned && (
+                      <Badge variant="secondary" className="text-[10px] gap-1 bg-primary/10 text-primary">
+                        <Pin className="w-2.5 h-2.5" />
+                        Pinned
+                      </Badge>
+                    )}
+                    {clientName && <span className="text-[10px] text-muted-foreground">{clientName}</span>}
+                    {memory.createdAt && (
+                      <span className="text-[10px] text-muted-foreground">
+                        {new Date(memory.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                      </span>
+                    )}
+                    {sessionTitle && (
+                      <Link
+                        href={sourceHref(memory)}
+                        className="flex items-center gap-1 text-[10px] text-primary hover:underline truncate max-w-[240px]"
+                        title="Open the chat this memory came from"
+                      >
+                        <MessageSquare className="w-3 h-3 shrink-0" />
+                        <span className="truncate">{sessionTitle}</span>
+                      </Link>
+                    )}
+                  </div>
+                </div>
+
+                {/* Actions */}
+                <div className="flex items-center gap-0.5 shrink-0">
+                  <Select
+                    value={importance}
+                    onValueChange={(value) => handleAttributeChange(memory, { importance: value as Importance })}
+                    disabled={isBusy}
+                  >
+                    <SelectTrigger className="h-7 w-[90px] text-xs capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMPORTANCE_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level} className="capitalize">
+                          {level}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title={memory.metadata.pinned ? "Unpin" : "Pin (never expires)"}
+                    onClick={() => handleAttributeChange(memory, { pinned: !memory.metadata.pinned })}
+                    disabled={isBusy}
+                  >
+                    {memory.metadata.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Edit"
+                    onClick={() => {
+                      setEditingId(memory.id)
+                      setEditValue(memory.content)
+                    }}
+                    disabled={isBusy || isEditing}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Pagination (search returns a single page of best matches) */}
+      {!debouncedSearch && pageCount > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="h-7" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount || loading}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
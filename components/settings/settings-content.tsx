@@ -9,6 +9,7 @@ import { PipelineSection } from "./sections/pipeline-section"
 import { AuditLogSection } from "./sections/audit-log-section"
 import { DisplayPreferencesSection } from "./sections/display-preferences-section"
 import { PersonalAISection } from "./sections/personal-ai-section"
+import { MemoryManagerSection } from "./sections/memory-manager-section"
 // Note: Security section removed - Sign Out is now a direct button in the sidebar
 
 export function SettingsContent() {
@@ -27,6 +28,8 @@ export function SettingsContent() {
       return <NotificationsSection />
     case "display_preferences":
       return <DisplayPreferencesSection />
+    case "memory":
+      return <MemoryManagerSection />
     case "pipeline":
       return <PipelineSection />
     case "audit_log":
@@ -31,6 +31,7 @@ const accountItems: Array<{
   { id: "personal_preferences", label: "AI Preferences" },
   { id: "notifications", label: "Notifications" },
   { id: "display_preferences", label: "Display" },
+  { id: "memory", label: "AI Memory" },
 ]
 
 interface SettingsLayoutProps {
@@ -6,7 +6,9 @@ import { useSlideTransition } from "@/hooks/use-slide-transition"
 import { toastSuccess, toastError, toastInfo } from "@/lib/toast-helpers"
 import { fetchWithCsrf } from "@/lib/csrf"
 import { useAutomationsStore } from "@/stores/automations-store"
-import type { Workflow, WorkflowTrigger, WorkflowAction } from "@/types/workflow"
+import { useChatContextStore } from "@/stores/chat-context-store"
+import type { Workflow, WorkflowTrigger, WorkflowStep, BranchStep, WorkflowTemplate } from "@/types/workflow"
+import { isBranchStep } from "@/lib/workflows/action-registry"
 import { cn } from "@/lib/utils"
 import { ListHeader } from "@/components/linear"
 import {
@@ -30,6 +32,15 @@ import {
   Copy,
   X,
   Loader2,
+  ShieldCheck,
+  GitBranch,
+  FlaskConical,
+  Webhook,
+  History,
+  BarChart3,
+  Download,
+  Upload,
+  BookmarkPlus,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -58,6 +69,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
+import { ApprovalsInbox } from "@/components/automations/approvals-inbox"
+import { TestRunDialog } from "@/components/automations/test-run-dialog"
+import { RunHistoryDialog } from "@/components/automations/run-history-dialog"
+import { WorkflowAnalyticsDialog } from "@/components/automations/workflow-analytics-dialog"
+import { ImportWorkflowsDialog } from "@/components/automations/import-workflows-dialog"
 
 // Icons for integrations
 function SlackIcon({ className }: { className?: string }) {
@@ -114,6 +130,9 @@ interface AutomationStep {
   icon: React.ReactNode
 }
 
+// Published agency template as listed by GET /api/v1/workflows/templates
+type AgencyTemplateListing = WorkflowTemplate & { source: "agency"; triggerCount: number; actionCount: number }
+
 // Mock automation templates
 const automationTemplates: AutomationTemplate[] = [
   {
@@ -238,15 +257,22 @@ const stepTypeColors: Record<string, string> = {
   condition: "bg-amber-500 text-white",
 }
 
+// One-line summary of a branch step for the read-only condition view
+function describeBranchStep(step: BranchStep): string {
+  const paths = step.branches.map((b) => `${b.name} (${b.actions.length})`)
+  if (step.elseActions?.length) paths.push(`Otherwise (${step.elseActions.length})`)
+  return paths.join(" · ")
+}
+
 // Convert a real Workflow from API into the UI's AutomationTemplate format
 function workflowToTemplate(workflow: Workflow): AutomationTemplate {
   const triggers = (workflow.triggers as unknown as WorkflowTrigger[]) || []
-  const actions = (workflow.actions as unknown as WorkflowAction[]) || []
+  const actions = (workflow.actions as unknown as WorkflowStep[]) || []
 
   // Determine category from triggers
   let category: AutomationTemplate["category"] = "monitoring"
-  if (triggers.some((t) => t.type === "stage_change")) category = "onboarding"
-  else if (triggers.some((t) => t.type === "ticket_created")) category = "triage"
+  if (triggers.some((t) => t.type === "stage_change" || t.type === "onboarding_submitted")) category = "onboarding"
+  else if (triggers.some((t) => t.type === "ticket_created" || t.type === "ticket_status_changed")) category = "triage"
   else if (triggers.some((t) => t.type === "scheduled")) category = "communication"
 
   // Build steps from triggers + actions
@@ -262,6 +288,17 @@ function workflowToTemplate(workflow: Workflow): AutomationTemplate {
     })
   })
   actions.forEach((action, i) => {
+    if (isBranchStep(action)) {
+      steps.push({
+        id: action.id,
+        order: triggers.length + i + 1,
+        name: action.name,
+        type: "condition",
+        config: { condition: describeBranchStep(action) },
+        icon: <GitBranch className="h-3.5 w-3.5" />,
+      })
+      return
+    }
     const iconMap: Record<string, React.ReactNode> = {
       create_task: <CheckCircle2 className="h-3.5 w-3.5" />,
       send_notification: (action.config as { channel?: string })?.channel === "email"
@@ -272,6 +309,7 @@ function workflowToTemplate(workflow: Workflow): AutomationTemplate {
       update_client: <Users className="h-3.5 w-3.5" />,
       create_alert: <Bell className="h-3.5 w-3.5" />,
       create_slack_channel: <SlackIcon className="h-3.5 w-3.5" />,
+      call_webhook: <Webhook className="h-3.5 w-3.5" />,
     }
     steps.push({
       id: action.id || `a-${i}`,
@@ -315,19 +353,47 @@ function workflowToTemplate(workflow: Workflow): AutomationTemplate {
 }
 
 export function AutomationsHub() {
-  const { workflows, isLoading, fetchWorkflows, toggleWorkflow, deleteWorkflow } = useAutomationsStore()
+  const {
+    workflows,
+    isLoading,
+    fetchWorkflows,
+    toggleWorkflow,
+    deleteWorkflow,
+    approvals,
+    approvalsLoading,
+    fetchApprovals,
+    approveAction,
+    rejectAction,
+  } = useAutomationsStore()
   const [isRunning, setIsRunning] = useState<string | null>(null)
   const [isCreatingTemplate, setIsCreatingTemplate] = useState(false)
   const [showTemplateDialog, setShowTemplateDialog] = useState(false)
+  const [showApprovalsDialog, setShowApprovalsDialog] = useState(false)
+  const [showTestRunDialog, setShowTestRunDialog] = useState(false)
+  const [showRunHistoryDialog, setShowRunHistoryDialog] = useState(false)
+  const [showAnalyticsDialog, setShowAnalyticsDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [agencyTemplates, setAgencyTemplates] = useState<AgencyTemplateListing[]>([])
+  const [isExporting, setIsExporting] = useState(false)
+  const [isPublishing, setIsPublishing] = useState(false)
   const [editedStepName, setEditedStepName] = useState("")
   const [editedStepConfig, setEditedStepConfig] = useState<StepConfig>({})
 
   // Fetch real workflows on mount
   useEffect(() => {
     fetchWorkflows()
-  }, [fetchWorkflows])
+    fetchApprovals()
+  }, [fetchWorkflows, fetchApprovals])
 
   const [selectedAutomation, setSelectedAutomation] = useState<AutomationTemplate | null>(null)
+
+  // Let the chat answer questions about the open automation
+  const setChatSelection = useChatContextStore((state) => state.setSelection)
+  useEffect(() => {
+    setChatSelection({ workflowId: selectedAutomation?.id })
+    return () => setChatSelection({ workflowId: undefined })
+  }, [selectedAutomation?.id, setChatSelection])
+
   const [selectedStep, setSelectedStep] = useState<AutomationStep | null>(null)
   const [activeFilter, setActiveFilter] = useState<FilterTab>("all")
   const [searchQuery, setSearchQuery] = useState("")
@@ -393,6 +459,58 @@ export function AutomationsHub() {
     }
   }
 
+  const handleExport = async () => {
+    if (!selectedAutomation) return
+    setIsExporting(true)
+
+    try {
+      const response = await fetch(`/api/v1/workflows/export?ids=${selectedAutomation.id}`, { credentials: "include" })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Server returned ${response.status}`)
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `${selectedAutomation.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.workflow.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toastError("Failed to export automation", {
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handlePublishTemplate = async () => {
+    if (!selectedAutomation) return
+    setIsPublishing(true)
+
+    try {
+      const response = await fetchWithCsrf(`/api/v1/workflows/${selectedAutomation.id}/publish`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Server returned ${response.status}`)
+      }
+
+      toastSuccess("Published as template", {
+        description: `${selectedAutomation.name} is now available under New Automation`,
+      })
+    } catch (error) {
+      toastError("Failed to publish template", {
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+      })
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
   const handleConfirmDelete = async () => {
     if (!selectedAutomation) return
     setIsDeleting(true)
@@ -423,10 +541,10 @@ export function AutomationsHub() {
     setShowDeleteModal(true)
   }
 
-  const handleTestStep = async () => {
+  const handleTestStep = () => {
     if (!selectedAutomation) return
-    // Test by executing the full workflow (there's no per-step test API)
-    await handleRunNow(selectedAutomation)
+    // Test with a dry run of the full workflow (there's no per-step test API)
+    setShowTestRunDialog(true)
   }
 
   const handleSaveStep = async () => {
@@ -476,6 +594,14 @@ export function AutomationsHub() {
               case "ticket_created":
                 freshConfig.priorities = cleanConfig.priorities || ["critical", "high"]
                 break
+              case "ticket_status_changed":
+                freshConfig.toStatus = cleanConfig.toStatus || "resolved"
+                break
+              case "onboarding_submitted":
+              case "alert_created":
+              case "integration_disconnected":
+                // Matches every event of this type until filters are added in the builder
+                break
               default:
                 // For unknown types, pass through whatever config was set
                 Object.assign(freshConfig, cleanConfig)
@@ -491,8 +617,11 @@ export function AutomationsHub() {
         const idx = actions.findIndex((a) => a.id === selectedStep.id)
         if (idx >= 0) {
           actions[idx].name = editedStepName
-          const existingConfig = (actions[idx].config || {}) as Record<string, unknown>
-          actions[idx].config = { ...existingConfig, ...cleanConfig }
+          // Branch paths are edited in the workflow builder; only the name is editable here
+          if (actions[idx].type !== "branch") {
+            const existingConfig = (actions[idx].config || {}) as Record<string, unknown>
+            actions[idx].config = { ...existingConfig, ...cleanConfig }
+          }
         }
       }
 
@@ -617,7 +746,13 @@ export function AutomationsHub() {
         const err = await response.json().catch(() => ({}))
         throw new Error(err.error || "Failed to execute")
       }
-      toastSuccess("Workflow completed", { description: "All actions executed successfully" })
+      const { data: result } = await response.json()
+      if (result?.status === "pending_approval") {
+        toastInfo("Waiting for approval", { description: "An action in this workflow needs sign-off" })
+        fetchApprovals()
+      } else {
+        toastSuccess("Workflow completed", { description: "All actions executed successfully" })
+      }
       // Refresh data to get updated run counts
       fetchWorkflows()
     } catch (error) {
@@ -627,15 +762,34 @@ export function AutomationsHub() {
     } finally {
       setIsRunning(null)
     }
-  }, [fetchWorkflows])
+  }, [fetchWorkflows, fetchApprovals])
+
+  // Approval inbox handlers
+  const handleApprove = useCallback(async (approvalId: string) => {
+    if (await approveAction(approvalId)) {
+      toastSuccess("Action approved", { description: "The workflow has resumed" })
+      fetchWorkflows()
+    } else {
+      toastError("Failed to approve action", { description: "It may have expired or already been decided" })
+    }
+  }, [approveAction, fetchWorkflows])
+
+  const handleReject = useCallback(async (approvalId: string, reason?: string) => {
+    if (await rejectAction(approvalId, reason)) {
+      toastSuccess("Action rejected", { description: "The workflow run was stopped" })
+      fetchWorkflows()
+    } else {
+      toastError("Failed to reject action", { description: "It may have expired or already been decided" })
+    }
+  }, [rejectAction, fetchWorkflows])
 
   // Create from template handler
-  const handleCreateFromTemplate = useCallback(async (templateKey: string) => {
+  const handleCreateFromTemplate = useCallback(async (template: { templateKey: string } | { templateId: string }) => {
     setIsCreatingTemplate(true)
     try {
       const response = await fetchWithCsrf("/api/v1/workflows/templates", {
         method: "POST",
-        body: JSON.stringify({ templateKey }),
+        body: JSON.stringify(template),
       })
       if (!response.ok) {
         const err = await response.json().catch(() => ({}))
@@ -652,6 +806,34 @@ export function AutomationsHub() {
     }
   }, [fetchWorkflows])
 
+  // Load the agency's published templates whenever the picker opens
+  useEffect(() => {
+    if (!showTemplateDialog) return
+    let cancelled = false
+
+    fetch("/api/v1/workflows/templates", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then(({ data }: { data: (AgencyTemplateListing | { source: "seed" })[] }) => {
+        if (!cancelled) {
+          setAgencyTemplates(data.filter((t): t is AgencyTemplateListing => t.source === "agency"))
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setAgencyTemplates([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [showTemplateDialog])
+
+  const handleImported = useCallback((imported: Workflow[]) => {
+    toastSuccess(imported.length === 1 ? "Automation imported" : `${imported.length} automations imported`, {
+      description: "Imported automations are paused until you activate them",
+    })
+    fetchWorkflows()
+  }, [fetchWorkflows])
+
   // Calculate counts
   const counts = useMemo(() => {
     return {
@@ -834,10 +1016,27 @@ export function AutomationsHub() {
           searchPlaceholder="Search automations..."
           actions={
             !selectedAutomation && (
-              <Button size="sm" className="h-8 gap-1.5" onClick={() => setShowTemplateDialog(true)}>
-                <Plus className="h-4 w-4" />
-                New Automation
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" className="h-8 gap-1.5" onClick={() => setShowAnalyticsDialog(true)}>
+                  <BarChart3 className="h-4 w-4" />
+                  Analytics
+                </Button>
+                <Button size="sm" variant="outline" className="h-8 gap-1.5" onClick={() => setShowImportDialog(true)}>
+                  <Upload className="h-4 w-4" />
+                  Import
+                </Button>
+                <Button size="sm" variant="outline" className="h-8 gap-1.5" onClick={() => setShowApprovalsDialog(true)}>
+                  <ShieldCheck className="h-4 w-4" />
+                  Approvals
+                  {approvals.length > 0 && (
+                    <Badge className="h-4 px-1.5 text-[10px] bg-amber-500 hover:bg-amber-500">{approvals.length}</Badge>
+                  )}
+                </Button>
+                <Button size="sm" className="h-8 gap-1.5" onClick={() => setShowTemplateDialog(true)}>
+                  <Plus className="h-4 w-4" />
+                  New Automation
+                </Button>
+              </div>
             )
           }
         />
@@ -932,6 +1131,22 @@ export function AutomationsHub() {
                     )}
                     {isDuplicating ? "Duplicating..." : "Duplicate"}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleExport} disabled={isExporting}>
+                    {isExporting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    Export
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handlePublishTemplate} disabled={isPublishing}>
+                    {isPublishing ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <BookmarkPlus className="h-4 w-4 mr-2" />
+                    )}
+                    {isPublishing ? "Publishing..." : "Publish as template"}
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleDelete} className="text-destructive" disabled={isDeleting || isDuplicating}>
                     {isDeleting ? (
@@ -971,20 +1186,49 @@ export function AutomationsHub() {
                 Last: {selectedAutomation.lastRun || "Never"}
               </span>
             </div>
-            <Button
-              size="sm"
-              variant="outline"
-              className="h-6 text-[10px] px-2"
-              onClick={() => handleRunNow(selectedAutomation)}
-              disabled={isRunning === selectedAutomation.id}
-            >
-              {isRunning === selectedAutomation.id ? (
-                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-              ) : (
-                <Play className="h-3 w-3 mr-1" />
-              )}
-              {isRunning === selectedAutomation.id ? "Running..." : "Run Now"}
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 text-[10px] px-2"
+                onClick={() => setShowTestRunDialog(true)}
+              >
+                <FlaskConical className="h-3 w-3 mr-1" />
+                Test run
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 text-[10px] px-2"
+                onClick={() => setShowRunHistoryDialog(true)}
+              >
+                <History className="h-3 w-3 mr-1" />
+                History
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 text-[10px] px-2"
+                onClick={() => setShowAnalyticsDialog(true)}
+              >
+                <BarChart3 className="h-3 w-3 mr-1" />
+                Analytics
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-6 text-[10px] px-2"
+                onClick={() => handleRunNow(selectedAutomation)}
+                disabled={isRunning === selectedAutomation.id}
+              >
+                {isRunning === selectedAutomation.id ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <Play className="h-3 w-3 mr-1" />
+                )}
+                {isRunning === selectedAutomation.id ? "Running..." : "Run Now"}
+              </Button>
+            </div>
           </div>
 
           {/* Workflow Steps header */}
@@ -1225,6 +1469,47 @@ export function AutomationsHub() {
         </AlertDialog>
       )}
 
+      {/* Approval inbox dialog */}
+      <Dialog open={showApprovalsDialog} onOpenChange={setShowApprovalsDialog}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Pending Approvals</DialogTitle>
+            <DialogDescription>
+              Review workflow actions before they run. Requests expire after 72 hours.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <ApprovalsInbox
+              approvals={approvals}
+              loading={approvalsLoading}
+              onApprove={handleApprove}
+              onReject={handleReject}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Test run (dry run) dialog */}
+      <TestRunDialog
+        workflow={workflows.find((w) => w.id === selectedAutomation?.id) ?? null}
+        open={showTestRunDialog}
+        onOpenChange={setShowTestRunDialog}
+      />
+
+      {/* Run history and retry dialog */}
+      <RunHistoryDialog
+        workflow={workflows.find((w) => w.id === selectedAutomation?.id) ?? null}
+        open={showRunHistoryDialog}
+        onOpenChange={setShowRunHistoryDialog}
+      />
+
+      {/* Analytics dialog: the selected automation, or the agency rollup from the list */}
+      <WorkflowAnalyticsDialog
+        workflow={workflows.find((w) => w.id === selectedAutomation?.id) ?? null}
+        open={showAnalyticsDialog}
+        onOpenChange={setShowAnalyticsDialog}
+      />
+
       {/* Template picker dialog */}
       <Dialog open={showTemplateDialog} onOpenChange={setShowTemplateDialog}>
         <DialogContent className="sm:max-w-lg">
@@ -1246,7 +1531,7 @@ export function AutomationsHub() {
                 key={tmpl.key}
                 onClick={async () => {
                   setShowTemplateDialog(false)
-                  await handleCreateFromTemplate(tmpl.key)
+                  await handleCreateFromTemplate({ templateKey: tmpl.key })
                 }}
                 disabled={isCreatingTemplate}
                 className="w-full flex items-start gap-3 p-3 rounded-lg border border-border hover:border-primary/40 hover:bg-secondary/50 transition-colors text-left cursor-pointer disabled:opacity-50"
@@ -1260,9 +1545,39 @@ export function AutomationsHub() {
                 </div>
               </button>
             ))}
+            {agencyTemplates.length > 0 && (
+              <p className="text-[10px] uppercase tracking-wide text-muted-foreground pt-2">Your agency</p>
+            )}
+            {agencyTemplates.map((tmpl) => (
+              <button
+                key={tmpl.id}
+                onClick={async () => {
+                  setShowTemplateDialog(false)
+                  await handleCreateFromTemplate({ templateId: tmpl.id })
+                }}
+                disabled={isCreatingTemplate}
+                className="w-full flex items-start gap-3 p-3 rounded-lg border border-border hover:border-primary/40 hover:bg-secondary/50 transition-colors text-left cursor-pointer disabled:opacity-50"
+              >
+                <div className="h-8 w-8 rounded-md bg-secondary flex items-center justify-center shrink-0 mt-0.5">
+                  <Sparkles className="h-4 w-4" />
+                </div>
+                <div className="min-w-0">
+                  <span className="text-sm font-medium text-foreground block">{tmpl.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {tmpl.description || `${tmpl.actionCount} actions · used ${tmpl.popularity} times`}
+                  </span>
+                </div>
+              </button>
+            ))}
           </div>
         </DialogContent>
       </Dialog>
+
+      <ImportWorkflowsDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImported={handleImported}
+      />
     </div>
   )
 }
@@ -1442,6 +1757,9 @@ function TriggerConfig({ config, onChange }: { config: StepConfig; onChange: (ke
         onChange("schedule", scheduleValue || "0 9 * * 1")
         onChange("timezone", "America/Chicago")
         break
+      case "ticket_status_changed":
+        onChange("toStatus", (realConfig.toStatus as string) || "resolved")
+        break
     }
   }
 
@@ -1462,6 +1780,10 @@ function TriggerConfig({ config, onChange }: { config: StepConfig; onChange: (ke
               <option value="inactivity">Client inactivity</option>
               <option value="scheduled">Scheduled time</option>
               <option value="new_message">New message received</option>
+              <option value="ticket_status_changed">Ticket status changes</option>
+              <option value="onboarding_submitted">Onboarding form submitted</option>
+              <option value="alert_created">Alert created</option>
+              <option value="integration_disconnected">Integration disconnected</option>
             </select>
           </div>
           {triggerType === "stage_change" && (
@@ -1506,6 +1828,21 @@ function TriggerConfig({ config, onChange }: { config: StepConfig; onChange: (ke
               />
             </div>
           )}
+          {triggerType === "ticket_status_changed" && (
+            <div className="space-y-1.5">
+              <label className="text-xs text-muted-foreground">New status:</label>
+              <select
+                value={(realConfig.toStatus as string) || "resolved"}
+                onChange={(e) => onChange("toStatus", e.target.value)}
+                className="w-full h-9 text-sm rounded-md border border-border bg-background px-3"
+              >
+                <option value="new">New</option>
+                <option value="in_progress">In progress</option>
+                <option value="waiting_client">Waiting on client</option>
+                <option value="resolved">Resolved</option>
+              </select>
+            </div>
+          )}
           {triggerType === "ticket_created" && (
             <div className="space-y-1.5">
               <label className="text-xs text-muted-foreground">Priority filter:</label>
@@ -1,6 +1,7 @@
 "use client"
 
-import React, { useState } from "react"
+import React, { useState, useEffect } from "react"
+import { useSearchParams } from "next/navigation"
 import {
   SettingsLayout,
   SettingsContentSection,
@@ -9,7 +10,14 @@ import {
   integrationIcons,
   intelligenceSettingsGroups,
 } from "@/components/linear"
-import { useChatSessions, useChatMessages } from "@/hooks/intelligence/use-chat-history"
+import {
+  useChatSessions,
+  useChatMessages,
+  useChatSearch,
+  useUpdateChatSession,
+  useBranchChatSession,
+  chatSessionExportUrl,
+} from "@/hooks/intelligence/use-chat-history"
 import { useTrainingDocuments, useUploadTrainingDocument, useDeleteTrainingDocument } from "@/hooks/intelligence/use-training-documents"
 import { useCustomPrompts, useCreatePrompt, useUpdatePrompt, useDeletePrompt, type CustomPromptRow } from "@/hooks/intelligence/use-custom-prompts"
 import { useActivityFeed } from "@/hooks/intelligence/use-activity-feed"
@@ -50,6 +58,13 @@ import {
   Loader2,
   ChevronDown,
   ChevronRight,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Download,
+  GitBranch,
+  Search,
 } from "lucide-react"
 
 const PROMPT_CATEGORIES = [
@@ -69,14 +84,62 @@ interface IntelligenceCenterProps {
 }
 
 export function IntelligenceCenter({ onBack, initialSection = "overview" }: IntelligenceCenterProps) {
-  const [activeSection, setActiveSection] = useState(initialSection)
+  // Deep link from Settings > AI Memory: ?session=<id>&message=<id> opens that chat
+  const searchParams = useSearchParams()
+  const linkedSessionId = searchParams.get("session")
+  const linkedMessageId = searchParams.get("message")
+
+  const [activeSection, setActiveSection] = useState(linkedSessionId ? "history" : initialSection)
   const [chatFilter, setChatFilter] = useState<ChatFilterTab>("all")
-  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null)
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(linkedSessionId)
+  const [historySearch, setHistorySearch] = useState("")
+  const [showArchived, setShowArchived] = useState(false)
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
 
   // Chat History — real data from Supabase
   const roleFilter = chatFilter === "chat" ? "user" as const : chatFilter === "ai" ? "assistant" as const : undefined
-  const { data: sessionsData, isLoading: isLoadingSessions } = useChatSessions()
+  const { data: sessionsData, isLoading: isLoadingSessions } = useChatSessions(20, 0, showArchived)
   const { data: messagesData, isLoading: isLoadingMessages } = useChatMessages(expandedSessionId, roleFilter)
+  const { data: searchData, isLoading: isSearching } = useChatSearch(historySearch)
+  const updateSession = useUpdateChatSession()
+  const branchSession = useBranchChatSession()
+
+  // Bring the linked message into view once its session's messages load
+  useEffect(() => {
+    if (!linkedMessageId || !messagesData) return
+    document.getElementById(`chat-message-${linkedMessageId}`)?.scrollIntoView({ block: "center" })
+  }, [linkedMessageId, messagesData])
+  const isSearchActive = historySearch.trim().length >= 2
+
+  // Chat History handlers
+  const handleStartRename = (sessionId: string, title: string | null) => {
+    setRenamingSessionId(sessionId)
+    setRenameValue(title || "")
+  }
+
+  const handleFinishRename = () => {
+    if (renamingSessionId && renameValue.trim()) {
+      updateSession.mutate({ sessionId: renamingSessionId, title: renameValue.trim() })
+    }
+    setRenamingSessionId(null)
+  }
+
+  const handleOpenSearchResult = (sessionId: string) => {
+    setHistorySearch("")
+    setShowArchived(false)
+    setChatFilter("all")
+    setExpandedSessionId(sessionId)
+  }
+
+  const handleBranch = (sessionId: string, messageId: string) => {
+    branchSession.mutate({ sessionId, messageId }, {
+      onSuccess: ({ data }) => {
+        setShowArchived(false)
+        setExpandedSessionId(data.id)
+      },
+    })
+  }
 
   // Training Documents — real data from /api/v1/documents
   const { data: docsData, isLoading: isLoadingDocs } = useTrainingDocuments()
@@ -280,156 +343,295 @@ export function IntelligenceCenter({ onBack, initialSection = "overview" }: Inte
       )}
 
       {activeSection === "history" && (
-        <SettingsContentSection title="Chat History">
-          {/* Chat Filter Tabs */}
-          <div className="flex items-center gap-1 mb-4 p-1 bg-secondary/50 rounded-lg w-fit">
-            {[
-              { id: "all" as const, label: "All", icon: <History className="w-3.5 h-3.5" /> },
-              { id: "chat" as const, label: "Your Messages", icon: <User className="w-3.5 h-3.5" /> },
-              { id: "ai" as const, label: "AI Responses", icon: <Bot className="w-3.5 h-3.5" /> },
-            ].map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => setChatFilter(tab.id)}
-                className={cn(
-                  "flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors cursor-pointer",
-                  chatFilter === tab.id
-                    ? "bg-background text-foreground shadow-sm"
-                    : "text-muted-foreground hover:text-foreground"
-                )}
-              >
-                {tab.icon}
-                <span>{tab.label}</span>
-              </button>
-            ))}
+        <SettingsContentSection
+          title="Chat History"
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setShowArchived(!showArchived)
+                setExpandedSessionId(null)
+              }}
+              className="h-7 gap-1.5"
+            >
+              {showArchived ? <History className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+              {showArchived ? "Recent" : "Archived"}
+            </Button>
+          }
+        >
+          {/* Search */}
+          <div className="relative mb-3">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              value={historySearch}
+              onChange={(e) => setHistorySearch(e.target.value)}
+              placeholder="Search your conversations..."
+              className="pl-8 h-8 text-sm"
+            />
           </div>
 
-          {/* Loading state */}
-          {isLoadingSessions && (
-            <div className="space-y-3">
-              {[1, 2, 3].map((i) => (
-                <div key={i} className="bg-card border border-border rounded-lg overflow-hidden animate-pulse">
-                  <div className="px-4 py-3 bg-secondary/30 border-b border-border">
-                    <div className="h-4 bg-muted rounded w-1/3" />
-                  </div>
-                  <div className="p-4 space-y-2">
-                    <div className="h-3 bg-muted rounded w-3/4" />
-                    <div className="h-3 bg-muted rounded w-1/2" />
-                  </div>
+          {/* Search results */}
+          {isSearchActive && (
+            <div className="space-y-2">
+              {isSearching ? (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
                 </div>
-              ))}
+              ) : searchData?.data && searchData.data.length > 0 ? (
+                searchData.data.map((result) => (
+                  <button
+                    key={result.message_id}
+                    onClick={() => handleOpenSearchResult(result.session_id)}
+                    className="w-full text-left bg-card border border-border rounded-lg px-4 py-2.5 hover:border-primary/30 transition-colors cursor-pointer"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="text-xs font-medium truncate">{result.session_title || "Untitled Chat"}</span>
+                      <span className="text-[10px] text-muted-foreground shrink-0">
+                        {new Date(result.created_at).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      {result.role === "user" ? "You: " : "AI: "}
+                      {result.snippet.replace(/\*\*/g, "")}
+                    </p>
+                  </button>
+                ))
+              ) : (
+                <p className="text-xs text-muted-foreground text-center py-4">
+                  No messages match &ldquo;{historySearch.trim()}&rdquo;.
+                </p>
+              )}
             </div>
           )}
 
-          {/* Sessions from real data */}
-          {!isLoadingSessions && sessionsData?.data && sessionsData.data.length > 0 && (
-            <div className="space-y-3">
-              {sessionsData.data.map((session) => {
-                const isExpanded = expandedSessionId === session.id
-                const sessionDate = session.last_message_at
-                  ? new Date(session.last_message_at)
-                  : new Date(session.created_at)
-                const isToday = new Date().toDateString() === sessionDate.toDateString()
-                const timeStr = sessionDate.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
-                const dateStr = isToday ? `Today, ${timeStr}` : sessionDate.toLocaleDateString("en-US", { month: "short", day: "numeric" }) + `, ${timeStr}`
+          {!isSearchActive && (
+            <>
+              {/* Chat Filter Tabs */}
+              <div className="flex items-center gap-1 mb-4 p-1 bg-secondary/50 rounded-lg w-fit">
+                {[
+                  { id: "all" as const, label: "All", icon: <History className="w-3.5 h-3.5" /> },
+                  { id: "chat" as const, label: "Your Messages", icon: <User className="w-3.5 h-3.5" /> },
+                  { id: "ai" as const, label: "AI Responses", icon: <Bot className="w-3.5 h-3.5" /> },
+                ].map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setChatFilter(tab.id)}
+                    className={cn(
+                      "flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors cursor-pointer",
+                      chatFilter === tab.id
+                        ? "bg-background text-foreground shadow-sm"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {tab.icon}
+                    <span>{tab.label}</span>
+                  </button>
+                ))}
+              </div>
 
-                return (
-                  <div key={session.id} className="bg-card border border-border rounded-lg overflow-hidden">
-                    {/* Session Header — clickable to expand */}
-                    <button
-                      onClick={() => setExpandedSessionId(isExpanded ? null : session.id)}
-                      className="w-full px-4 py-2.5 bg-secondary/30 border-b border-border flex items-center justify-between hover:bg-secondary/50 transition-colors cursor-pointer"
-                    >
-                      <div className="flex items-center gap-2">
-                        {isExpanded ? (
-                          <ChevronDown className="w-3.5 h-3.5 text-muted-foreground" />
-                        ) : (
-                          <ChevronRight className="w-3.5 h-3.5 text-muted-foreground" />
-                        )}
-                        <span className="text-sm font-medium text-foreground">
-                          {session.title || "Untitled Chat"}
-                        </span>
-                        {session.is_active && (
-                          <Badge variant="secondary" className="text-[10px] bg-green-500/10 text-green-600">
-                            Active
-                          </Badge>
-                        )}
+              {/* Loading state */}
+              {isLoadingSessions && (
+                <div className="space-y-3">
+                  {[1, 2, 3].map((i) => (
+                    <div key={i} className="bg-card border border-border rounded-lg overflow-hidden animate-pulse">
+                      <div className="px-4 py-3 bg-secondary/30 border-b border-border">
+                        <div className="h-4 bg-muted rounded w-1/3" />
+                      </div>
+                      <div className="p-4 space-y-2">
+                        <div className="h-3 bg-muted rounded w-3/4" />
+                        <div className="h-3 bg-muted rounded w-1/2" />
                       </div>
-                      <span className="text-xs text-muted-foreground">{dateStr}</span>
-                    </button>
-
-                    {/* Expanded: Show messages */}
-                    {isExpanded && (
-                      <div className="p-4">
-                        {isLoadingMessages ? (
-                          <div className="flex items-center justify-center py-4">
-                            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
-                            <span className="ml-2 text-xs text-muted-foreground">Loading messages...</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Sessions from real data */}
+              {!isLoadingSessions && sessionsData?.data && sessionsData.data.length > 0 && (
+                <div className="space-y-3">
+                  {sessionsData.data.map((session) => {
+                    const isExpanded = expandedSessionId === session.id
+                    const sessionDate = session.last_message_at
+                      ? new Date(session.last_message_at)
+                      : new Date(session.created_at)
+                    const isToday = new Date().toDateString() === sessionDate.toDateString()
+                    const timeStr = sessionDate.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
+                    const dateStr = isToday ? `Today, ${timeStr}` : sessionDate.toLocaleDateString("en-US", { month: "short", day: "numeric" }) + `, ${timeStr}`
+
+                    return (
+                      <div key={session.id} className="bg-card border border-border rounded-lg overflow-hidden">
+                        {/* Session Header — title toggles the messages, actions on the right */}
+                        <div className="w-full px-4 py-2.5 bg-secondary/30 border-b border-border flex items-center justify-between gap-2 hover:bg-secondary/50 transition-colors">
+                          {renamingSessionId === session.id ? (
+                            <Input
+                              autoFocus
+                              value={renameValue}
+                              onChange={(e) => setRenameValue(e.target.value)}
+                              onBlur={handleFinishRename}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") handleFinishRename()
+                                if (e.key === "Escape") setRenamingSessionId(null)
+                              }}
+                              className="h-7 text-sm max-w-sm"
+                            />
+                          ) : (
+                            <button
+                              onClick={() => setExpandedSessionId(isExpanded ? null : session.id)}
+                              className="flex items-center gap-2 min-w-0 cursor-pointer"
+                            >
+                              {isExpanded ? (
+                                <ChevronDown className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                              ) : (
+                                <ChevronRight className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                              )}
+                              {session.is_pinned && <Pin className="w-3 h-3 text-primary shrink-0" />}
+                              {session.parent_session_id && <GitBranch className="w-3 h-3 text-muted-foreground shrink-0" />}
+                              <span className="text-sm font-medium text-foreground truncate">
+                                {session.title || "Untitled Chat"}
+                              </span>
+                              {session.is_active && (
+                                <Badge variant="secondary" className="text-[10px] bg-green-500/10 text-green-600">
+                                  Active
+                                </Badge>
+                              )}
+                            </button>
+                          )}
+                          <div className="flex items-center gap-0.5 shrink-0">
+                            <span className="text-xs text-muted-foreground mr-1.5">{dateStr}</span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              title={session.is_pinned ? "Unpin" : "Pin"}
+                              onClick={() => updateSession.mutate({ sessionId: session.id, is_pinned: !session.is_pinned })}
+                            >
+                              {session.is_pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              title="Rename"
+                              onClick={() => handleStartRename(session.id, session.title)}
+                            >
+                              <Edit2 className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" title="Export as Markdown" asChild>
+                              <a href={chatSessionExportUrl(session.id, "markdown")} download>
+                                <Download className="h-3 w-3" />
+                              </a>
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-6 px-1.5 text-[10px]" title="Export as JSON" asChild>
+                              <a href={chatSessionExportUrl(session.id, "json")} download>
+                                JSON
+                              </a>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              title={session.archived_at ? "Restore" : "Archive"}
+                              onClick={() => updateSession.mutate({ sessionId: session.id, archived: !session.archived_at })}
+                            >
+                              {session.archived_at ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                            </Button>
                           </div>
-                        ) : messagesData?.data && messagesData.data.length > 0 ? (
-                          <div className="space-y-3">
-                            {messagesData.data.map((message) => (
-                              <div key={message.id} className="flex gap-3">
-                                {/* Avatar */}
-                                <div
-                                  className={cn(
-                                    "w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-medium text-white shrink-0 mt-0.5",
-                                    message.role === "user" ? "bg-blue-600" : "bg-primary"
-                                  )}
-                                >
-                                  {message.role === "user" ? (
-                                    <User className="w-3.5 h-3.5" />
-                                  ) : (
-                                    <Bot className="w-3.5 h-3.5" />
-                                  )}
-                                </div>
-                                {/* Message content */}
-                                <div className="flex-1 min-w-0">
-                                  <div className="flex items-center gap-2 mb-0.5">
-                                    <span className="text-xs font-medium">
-                                      {message.role === "user" ? "You" : "AI Assistant"}
-                                    </span>
-                                    <span className="text-[10px] text-muted-foreground">
-                                      {new Date(message.created_at).toLocaleTimeString("en-US", {
-                                        hour: "numeric",
-                                        minute: "2-digit",
-                                      })}
-                                    </span>
-                                    {message.route_used && (
-                                      <Badge variant="outline" className="text-[9px] h-4 px-1">
-                                        {message.route_used}
-                                      </Badge>
+                        </div>
+
+                        {/* Expanded: Show messages */}
+                        {isExpanded && (
+                          <div className="p-4">
+                            {isLoadingMessages ? (
+                              <div className="flex items-center justify-center py-4">
+                                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                                <span className="ml-2 text-xs text-muted-foreground">Loading messages...</span>
+                              </div>
+                            ) : messagesData?.data && messagesData.data.length > 0 ? (
+                              <div className="space-y-3">
+                                {messagesData.data.map((message) => (
+                                  <div
+                                    key={message.id}
+                                    id={`chat-message-${message.id}`}
+                                    className={cn(
+                                      "group flex gap-3",
+                                      message.id === linkedMessageId && "rounded-md ring-1 ring-primary/40 bg-primary/5 p-1.5 -m-1.5"
                                     )}
+                                  >
+                                    {/* Avatar */}
+                                    <div
+                                      className={cn(
+                                        "w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-medium text-white shrink-0 mt-0.5",
+                                        message.role === "user" ? "bg-blue-600" : "bg-primary"
+                                      )}
+                                    >
+                                      {message.role === "user" ? (
+                                        <User className="w-3.5 h-3.5" />
+                                      ) : (
+                                        <Bot className="w-3.5 h-3.5" />
+                                      )}
+                                    </div>
+                                    {/* Message content */}
+                                    <div className="flex-1 min-w-0">
+                                      <div className="flex items-center gap-2 mb-0.5">
+                                        <span className="text-xs font-medium">
+                                          {message.role === "user" ? "You" : "AI Assistant"}
+                                        </span>
+                                        <span className="text-[10px] text-muted-foreground">
+                                          {new Date(message.created_at).toLocaleTimeString("en-US", {
+                                            hour: "numeric",
+                                            minute: "2-digit",
+                                          })}
+                                        </span>
+                                        {message.route_used && (
+                                          <Badge variant="outline" className="text-[9px] h-4 px-1">
+                                            {message.route_used}
+                                          </Badge>
+                                        )}
+                                        <button
+                                          onClick={() => handleBranch(session.id, message.id)}
+                                          disabled={branchSession.isPending}
+                                          className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity cursor-pointer"
+                                        >
+                                          <GitBranch className="w-3 h-3" />
+                                          Branch from here
+                                        </button>
+                                      </div>
+                                      <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+                                        {message.content}
+                                      </p>
+                                    </div>
                                   </div>
-                                  <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
-                                    {message.content}
-                                  </p>
-                                </div>
+                                ))}
                               </div>
-                            ))}
+                            ) : (
+                              <p className="text-xs text-muted-foreground text-center py-4">
+                                No messages match this filter.
+                              </p>
+                            )}
                           </div>
-                        ) : (
-                          <p className="text-xs text-muted-foreground text-center py-4">
-                            No messages match this filter.
-                          </p>
                         )}
                       </div>
-                    )}
-                  </div>
-                )
-              })}
-            </div>
-          )}
+                    )
+                  })}
+                </div>
+              )}
 
-          {/* Empty state — no sessions at all */}
-          {!isLoadingSessions && (!sessionsData?.data || sessionsData.data.length === 0) && (
-            <div className="bg-card border border-border rounded-lg p-8 text-center">
-              <History className="w-8 h-8 mx-auto mb-2 text-muted-foreground opacity-50" />
-              <p className="text-sm font-medium mb-1">No chat sessions yet</p>
-              <p className="text-xs text-muted-foreground">
-                Start a conversation with the AI assistant to see your history here.
-              </p>
-            </div>
+              {/* Empty state — no sessions at all */}
+              {!isLoadingSessions && (!sessionsData?.data || sessionsData.data.length === 0) && (
+                <div className="bg-card border border-border rounded-lg p-8 text-center">
+                  <History className="w-8 h-8 mx-auto mb-2 text-muted-foreground opacity-50" />
+                  <p className="text-sm font-medium mb-1">
+                    {showArchived ? "No archived sessions" : "No chat sessions yet"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {showArchived
+                      ? "Archived conversations appear here."
+                      : "Start a conversation with the AI assistant to see your history here."}
+                  </p>
+                </div>
+              )}
+            </>
           )}
         </SettingsContentSection>
       )}
@@ -6,6 +6,7 @@ import { useSlideTransition } from "@/hooks/use-slide-transition"
 import { useToast } from "@/hooks/use-toast"
 import { fetchWithCsrf } from "@/lib/csrf"
 import { cn } from "@/lib/utils"
+import { useChatContextStore } from "@/stores/chat-context-store"
 import {
   DocumentCard,
   type DocumentCategory,
@@ -15,6 +16,7 @@ import {
 import { DocumentPreviewPanel, type Document } from "@/components/linear/document-preview-panel"
 import { formatFileSize } from "@/types/knowledge-base"
 import { DocumentUploadModal } from "@/components/linear/document-upload-modal"
+import { DocumentVersionHistory } from "@/components/knowledge-base/document-version-history"
 import { DriveLinkModal } from "@/components/knowledge-base/drive-link-modal"
 import { ProcessingPanel } from "@/components/knowledge-base/processing-panel"
 import { SearchPanel } from "@/components/knowledge-base/search-panel"
@@ -311,6 +313,15 @@ export function KnowledgeBase() {
   const { toast } = useToast()
   const [documents, setDocuments] = useState<Document[]>(initialDocuments)
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null)
+  const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false)
+
+  // Let the chat answer questions about the open document
+  const setChatSelection = useChatContextStore((state) => state.setSelection)
+  useEffect(() => {
+    setChatSelection({ documentId: selectedDocument?.id })
+    return () => setChatSelection({ documentId: undefined })
+  }, [selectedDocument?.id, setChatSelection])
+
   const [searchQuery, setSearchQuery] = useState("")
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
   const [viewFilter, setViewFilter] = useState<ViewFilter>("all")
@@ -394,7 +405,24 @@ export function KnowledgeBase() {
     }
     fetchPreviewUrl()
     return () => { cancelled = true }
-  }, [selectedDocument?.id])
+  }, [selectedDocument?.id, selectedDocument?.previewUrl])
+
+  // After a new version or restore: reload the list and the selected document's preview
+  const handleVersionChanged = useCallback(async () => {
+    try {
+      const response = await fetch('/api/v1/documents', { credentials: 'include' })
+      if (!response.ok) return
+      const { data } = await response.json()
+      if (!data) return
+      const realDocs: Document[] = (data as Record<string, unknown>[]).map(apiDocToDocument)
+      setDocuments(prev => {
+        const realIds = new Set(realDocs.map(d => d.id))
+        const mockDocs = prev.filter(d => !realIds.has(d.id))
+        return [...realDocs, ...mockDocs]
+      })
+      setSelectedDocument(prev => (prev ? realDocs.find(d => d.id === prev.id) ?? prev : prev))
+    } catch { /* keep existing data */ }
+  }, [])
 
   // Get unique clients for filter dropdown
   const availableClients = useMemo(() => getUniqueClients(documents), [documents])
@@ -984,7 +1012,12 @@ export function KnowledgeBase() {
 
               <TabsContent value="search" className="mt-0 h-full">
                 <div className="p-4">
-                  <SearchPanel />
+                  <SearchPanel
+                    onOpenDocument={(documentId) => {
+                      const doc = documents.find((d) => d.id === documentId)
+                      if (doc) setSelectedDocument(doc)
+                    }}
+                  />
                 </div>
               </TabsContent>
 
@@ -1036,6 +1069,7 @@ export function KnowledgeBase() {
               onShare={() => handleShare(selectedDocument.id)}
               onDelete={() => handleDelete(selectedDocument.id)}
               onToggleTraining={() => handleToggleTraining(selectedDocument.id)}
+              onVersionHistory={() => setIsVersionHistoryOpen(true)}
               onClientChange={handleClientChange}
               clients={clients}
               isDownloading={isDownloading}
@@ -1045,6 +1079,15 @@ export function KnowledgeBase() {
         )}
       </AnimatePresence>
 
+      {/* Version history for the selected document */}
+      <DocumentVersionHistory
+        documentId={selectedDocument?.id ?? null}
+        documentName={selectedDocument?.name}
+        open={isVersionHistoryOpen && !!selectedDocument}
+        onOpenChange={setIsVersionHistoryOpen}
+        onChanged={handleVersionChanged}
+      />
+
       {/* Upload Modal */}
       <DocumentUploadModal
         isOpen={isUploadModalOpen}
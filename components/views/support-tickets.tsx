@@ -17,6 +17,7 @@ import {
 } from "@/components/linear"
 import { useTicketStore, type Ticket as StoreTicket } from "@/stores/ticket-store"
 import { useSettingsStore } from "@/stores/settings-store"
+import { useChatContextStore } from "@/stores/chat-context-store"
 import { Button } from "@/components/ui/button"
 import {
   Inbox,
@@ -95,6 +96,14 @@ interface FilterTabConfig {
 
 export function SupportTickets() {
   const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null)
+
+  // Let the chat answer questions about the open ticket
+  const setChatSelection = useChatContextStore((state) => state.setSelection)
+  useEffect(() => {
+    setChatSelection({ ticketId: selectedTicketId ?? undefined })
+    return () => setChatSelection({ ticketId: undefined })
+  }, [selectedTicketId, setChatSelection])
+
   const [ticketActivities, setTicketActivities] = useState<Ticket["activities"]>([])
   const [activeFilter, setActiveFilter] = useState<FilterTab>("all")
   const [searchQuery, setSearchQuery] = useState("")
@@ -1,14 +1,16 @@
 'use client'
 
-import { useQuery } from '@tanstack/react-query'
-import type { ChatSession, ChatMessage } from '@/lib/chat/context/chat-history'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchWithCsrf } from '@/lib/csrf'
+import type { ChatSession, ChatMessage, ChatSearchResult } from '@/lib/chat/context/chat-history'
 
 // Query key factory — same pattern as communicationsKeys
 export const intelligenceKeys = {
   all: ['intelligence'] as const,
-  sessions: () => [...intelligenceKeys.all, 'sessions'] as const,
+  sessions: (archived = false) => [...intelligenceKeys.all, 'sessions', { archived }] as const,
   messages: (sessionId: string, role?: string) =>
     [...intelligenceKeys.all, 'messages', sessionId, role] as const,
+  search: (query: string) => [...intelligenceKeys.all, 'search', query] as const,
 }
 
 interface SessionsResponse {
@@ -25,8 +27,9 @@ interface MessagesResponse {
 /**
  * Fetch chat sessions for the current user
  */
-async function fetchChatSessions(limit = 20, offset = 0): Promise<SessionsResponse> {
+async function fetchChatSessions(limit = 20, offset = 0, archived = false): Promise<SessionsResponse> {
   const params = new URLSearchParams({ limit: String(limit), offset: String(offset) })
+  if (archived) params.set('archived', 'true')
   const response = await fetch(`/api/v1/chat/sessions?${params}`, {
     credentials: 'include',
   })
@@ -62,12 +65,30 @@ async function fetchSessionMessages(
 }
 
 /**
- * Hook to fetch the user's chat sessions
+ * Search the user's chat messages
  */
-export function useChatSessions(limit = 20, offset = 0) {
+async function searchChatHistory(query: string): Promise<{ data: ChatSearchResult[] }> {
+  const params = new URLSearchParams({ q: query })
+  const response = await fetch(`/api/v1/chat/sessions/search?${params}`, {
+    credentials: 'include',
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Search failed' }))
+    throw new Error(error.error || 'Search failed')
+  }
+
+  return response.json()
+}
+
+/**
+ * Hook to fetch the user's chat sessions (pinned first); `archived` lists
+ * archived sessions instead
+ */
+export function useChatSessions(limit = 20, offset = 0, archived = false) {
   return useQuery({
-    queryKey: intelligenceKeys.sessions(),
-    queryFn: () => fetchChatSessions(limit, offset),
+    queryKey: intelligenceKeys.sessions(archived),
+    queryFn: () => fetchChatSessions(limit, offset, archived),
     staleTime: 30 * 1000, // 30 seconds — sessions update on new messages
     gcTime: 5 * 60 * 1000,
     refetchOnWindowFocus: false,
@@ -94,3 +115,85 @@ export function useChatMessages(
     refetchOnWindowFocus: false,
   })
 }
+
+/**
+ * Hook to search chat history; runs once the query has 2+ characters
+ */
+export function useChatSearch(query: string) {
+  const trimmed = query.trim()
+  return useQuery({
+    queryKey: intelligenceKeys.search(trimmed),
+    queryFn: () => searchChatHistory(trimmed),
+    enabled: trimmed.length >= 2,
+    staleTime: 30 * 1000,
+    gcTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  })
+}
+
+/**
+ * Hook to rename, pin or archive a session
+ */
+export function useUpdateChatSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      sessionId,
+      ...update
+    }: {
+      sessionId: string
+      title?: string
+      is_pinned?: boolean
+      archived?: boolean
+    }) => {
+      const response = await fetchWithCsrf(`/api/v1/chat/sessions/${sessionId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Update failed' }))
+        throw new Error(error.error || 'Failed to update session')
+      }
+
+      return response.json() as Promise<{ data: ChatSession }>
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...intelligenceKeys.all, 'sessions'] })
+    },
+  })
+}
+
+/**
+ * Hook to branch a new session from a message
+ */
+export function useBranchChatSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ sessionId, messageId }: { sessionId: string; messageId: string }) => {
+      const response = await fetchWithCsrf(`/api/v1/chat/sessions/${sessionId}/branch`, {
+        method: 'POST',
+        body: JSON.stringify({ messageId }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Branch failed' }))
+        throw new Error(error.error || 'Failed to branch session')
+      }
+
+      return response.json() as Promise<{ data: ChatSession }>
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...intelligenceKeys.all, 'sessions'] })
+    },
+  })
+}
+
+/**
+ * Download URL for a session export
+ */
+export function chatSessionExportUrl(sessionId: string, format: 'markdown' | 'json'): string {
+  return `/api/v1/chat/sessions/${sessionId}/export?format=${format}`
+}
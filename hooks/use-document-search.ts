@@ -1,4 +1,5 @@
 import { useState, useCallback } from 'react'
+import type { DocumentSearchFacets, DocumentSearchHit } from '@/lib/rag/hybrid-search'
 
 interface SearchCitation {
   documentName: string
@@ -21,7 +22,42 @@ interface DocumentSearchResult {
 
 interface SearchOptions {
   categories?: string[]
+  category?: string
   client_id?: string
+  uploaded_by?: string
+  /** ISO date; uploads on or after it */
+  from?: string
+  /** ISO date; uploads before it */
+  to?: string
+}
+
+export interface HybridDocumentSearchResult {
+  mode: 'hybrid'
+  query: string
+  hits: DocumentSearchHit[]
+  facets: DocumentSearchFacets & {
+    labels: { clients: Record<string, string>; uploaders: Record<string, string> }
+  }
+  total: number
+  semantic: boolean
+  timestamp: string
+}
+
+async function postSearch<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch('/api/v1/documents/search', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || `Search failed: ${response.status}`)
+  }
+
+  return response.json()
 }
 
 export function useDocumentSearch() {
@@ -41,23 +77,62 @@ export function useDocumentSearch() {
       setIsSearching(true)
       setError(null)
 
-      const response = await fetch('/api/v1/documents/search', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: query.trim(),
-          ...options
-        }),
+      const result = await postSearch<DocumentSearchResult>({
+        query: query.trim(),
+        ...options
       })
+      setResults(result)
+      return result
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || `Search failed: ${response.status}`)
-      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Search failed'
+      setError(message)
+      throw error
+    } finally {
+      setIsSearching(false)
+    }
+  }, [])
+
+  const clearResults = useCallback(() => {
+    setResults(null)
+    setError(null)
+  }, [])
 
-      const result = await response.json()
+  return {
+    isSearching,
+    results,
+    error,
+    searchDocuments,
+    clearResults,
+  }
+}
+
+/**
+ * Ranked document hits (keyword + semantic) for a query, with facets.
+ * Use useDocumentSearch for an AI answer over the same documents.
+ */
+export function useHybridDocumentSearch() {
+  const [isSearching, setIsSearching] = useState(false)
+  const [results, setResults] = useState<HybridDocumentSearchResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = useCallback(async (
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<HybridDocumentSearchResult> => {
+    if (!query || query.trim().length === 0) {
+      throw new Error('Search query is required')
+    }
+
+    try {
+      setIsSearching(true)
+      setError(null)
+
+      const result = await postSearch<HybridDocumentSearchResult>({
+        query: query.trim(),
+        mode: 'hybrid',
+        ...options
+      })
       setResults(result)
       return result
 
@@ -79,7 +154,7 @@ export function useDocumentSearch() {
     isSearching,
     results,
     error,
-    searchDocuments,
+    search,
     clearResults,
   }
 }
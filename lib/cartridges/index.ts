@@ -0,0 +1,28 @@
+/**
+ * Cartridges Module
+ *
+ * Version history, diffs, rollback and previews for training cartridges.
+ * Loading cartridges into the chat prompt lives in lib/chat/context.
+ */
+
+export {
+  CARTRIDGE_VERSION_TYPES,
+  VERSIONED_FIELDS,
+  VERSION_LIST_LIMIT,
+  isCartridgeVersionType,
+  snapshotCartridge,
+  diffLines,
+  diffCartridgeSnapshots,
+  getLatestCartridgeVersion,
+  recordCartridgeVersion,
+  listCartridgeVersions,
+  getCartridgeVersion,
+  rollbackCartridge,
+  applyCartridgeVersion,
+  type CartridgeVersionType,
+  type CartridgeVersion,
+  type RecordVersionOptions,
+  type RollbackOptions,
+  type DiffLine,
+  type CartridgeFieldChange,
+} from './versions';
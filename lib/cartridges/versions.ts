@@ -0,0 +1,490 @@
+/**
+ * Cartridge Versions
+ *
+ * Every save of a brand, style, voice, preferences or instruction cartridge
+ * records a snapshot of its versioned fields in `cartridge_version`, with the
+ * author and time. The newest version is the cartridge's current state.
+ *
+ * This enables:
+ * - An audit trail of who changed the assistant's voice and when
+ * - Field-by-field diffs between any two versions
+ * - Rollback, recorded as a new version so history is never rewritten
+ * - Previewing a sample prompt against two versions side by side
+ *
+ * Voice settings live in user.preferences.ai.voice, so voice versions are
+ * personal: their cartridge_id is the user's id.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Json } from '@/types/database';
+import {
+  invalidateCartridgeCache,
+  type BrandCartridge,
+  type CartridgeContext,
+  type InstructionCartridge,
+  type StyleCartridge,
+  type VoiceSettings,
+} from '@/lib/chat/context';
+
+export type CartridgeVersionType = 'brand' | 'style' | 'voice' | 'preferences' | 'instruction';
+
+export const CARTRIDGE_VERSION_TYPES: readonly CartridgeVersionType[] = [
+  'brand',
+  'style',
+  'voice',
+  'preferences',
+  'instruction',
+];
+
+/**
+ * Fields captured in each snapshot. Identity, storage and processing-state
+ * columns are left out: rolling them back would point at files or jobs that
+ * no longer exist. Keep in sync with the backfill in 20261021_cartridge_version.sql.
+ */
+export const VERSIONED_FIELDS: Record<CartridgeVersionType, readonly string[]> = {
+  brand: [
+    'name',
+    'company_name',
+    'company_description',
+    'company_tagline',
+    'industry',
+    'target_audience',
+    'core_values',
+    'brand_voice',
+    'brand_personality',
+    'brand_colors',
+    'social_links',
+    'core_messaging',
+    'benson_blueprint',
+  ],
+  style: ['learned_style', 'analysis_status'],
+  voice: ['tone', 'style', 'personality', 'vocabulary', 'contentPreferences'],
+  preferences: [
+    'platform',
+    'language',
+    'tone',
+    'content_length',
+    'hashtag_count',
+    'emoji_usage',
+    'call_to_action',
+    'personalization_level',
+  ],
+  instruction: ['name', 'description', 'instructions', 'extracted_knowledge', 'is_active'],
+};
+
+// Table each type is stored in; voice is stored on the user row
+const CARTRIDGE_TABLES: Record<Exclude<CartridgeVersionType, 'voice'>, string> = {
+  brand: 'brand_cartridge',
+  style: 'style_cartridge',
+  preferences: 'preferences_cartridge',
+  instruction: 'instruction_cartridge',
+};
+
+export const VERSION_LIST_LIMIT = 50;
+
+// Concurrent saves can claim the same version_number; the loser re-reads and retries
+const RECORD_VERSION_ATTEMPTS = 3;
+
+/**
+ * Cartridge version from database
+ */
+export interface CartridgeVersion {
+  id: string;
+  agency_id: string;
+  cartridge_type: CartridgeVersionType;
+  cartridge_id: string;
+  version_number: number;
+  snapshot: Record<string, unknown>;
+  change_summary: string | null;
+  created_by: string | null;
+  created_at: string;
+  author?: { first_name: string; last_name: string } | null;
+}
+
+export interface RecordVersionOptions {
+  agencyId: string;
+  type: CartridgeVersionType;
+  cartridgeId: string;
+  /** The saved row (or voice settings); only VERSIONED_FIELDS are kept */
+  data: Record<string, unknown>;
+  createdBy: string;
+  /** Defaults to a list of the changed fields */
+  summary?: string;
+}
+
+export interface RollbackOptions {
+  agencyId: string;
+  userId: string;
+  versionId: string;
+}
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface CartridgeFieldChange {
+  field: string;
+  kind: 'added' | 'removed' | 'changed';
+  before: unknown;
+  after: unknown;
+  /** Line diff for text fields */
+  lines?: DiffLine[];
+}
+
+export function isCartridgeVersionType(value: unknown): value is CartridgeVersionType {
+  return typeof value === 'string' && (CARTRIDGE_VERSION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Pick the versioned fields from a saved cartridge row
+ */
+export function snapshotCartridge(
+  type: CartridgeVersionType,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of VERSIONED_FIELDS[type]) {
+    if (data[field] !== undefined) {
+      snapshot[field] = data[field];
+    }
+  }
+  return snapshot;
+}
+
+// JSON with sorted keys, so values read back from jsonb compare equal
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function isJsonObject(value: Json | undefined): value is { [key: string]: Json | undefined } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Line diff of two texts (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = common lines between a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Field-by-field changes from one snapshot to another. Text fields also get a
+ * line diff; structured fields are compared as a whole.
+ */
+export function diffCartridgeSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): CartridgeFieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  const changes: CartridgeFieldChange[] = [];
+
+  for (const field of fields) {
+    const from = before[field];
+    const to = after[field];
+    if (stableStringify(from) === stableStringify(to)) continue;
+
+    const kind = isEmpty(from) ? 'added' : isEmpty(to) ? 'removed' : 'changed';
+    const change: CartridgeFieldChange = { field, kind, before: from ?? null, after: to ?? null };
+    if (typeof (from ?? '') === 'string' && typeof (to ?? '') === 'string') {
+      change.lines = diffLines((from as string) ?? '', (to as string) ?? '');
+    }
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+function describeChanges(changes: CartridgeFieldChange[]): string {
+  return `Changed ${changes.map((c) => c.field.replace(/_/g, ' ')).join(', ')}`;
+}
+
+/**
+ * Latest version of a cartridge, or null before its first save
+ */
+export async function getLatestCartridgeVersion(
+  supabase: SupabaseClient,
+  agencyId: string,
+  type: CartridgeVersionType,
+  cartridgeId: string
+): Promise<CartridgeVersion | null> {
+  const { data, error } = await supabase
+    .from('cartridge_version')
+    .select('*')
+    .eq('agency_id', agencyId)
+    .eq('cartridge_type', type)
+    .eq('cartridge_id', cartridgeId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load cartridge version: ${error.message}`);
+  }
+
+  return (data as CartridgeVersion | null) ?? null;
+}
+
+/**
+ * Record a version after a cartridge save. Saves that change none of the
+ * versioned fields return the latest version instead of adding a new one.
+ * Failures are logged and return null so a history outage never blocks a save.
+ */
+export async function recordCartridgeVersion(
+  supabase: SupabaseClient,
+  options: RecordVersionOptions
+): Promise<CartridgeVersion | null> {
+  const { agencyId, type, cartridgeId, createdBy } = options;
+  const snapshot = snapshotCartridge(type, options.data);
+
+  try {
+    for (let attempt = 1; attempt <= RECORD_VERSION_ATTEMPTS; attempt++) {
+      const latest = await getLatestCartridgeVersion(supabase, agencyId, type, cartridgeId);
+      const changes = latest ? diffCartridgeSnapshots(latest.snapshot, snapshot) : [];
+      if (latest && changes.length === 0) {
+        return latest;
+      }
+
+      const { data, error } = await supabase
+        .from('cartridge_version')
+        .insert({
+          agency_id: agencyId,
+          cartridge_type: type,
+          cartridge_id: cartridgeId,
+          version_number: (latest?.version_number ?? 0) + 1,
+          snapshot,
+          change_summary: options.summary ?? (latest ? describeChanges(changes) : 'Initial version'),
+          created_by: createdBy,
+        })
+        .select()
+        .single();
+
+      if (!error) {
+        return data as CartridgeVersion;
+      }
+
+      // Another save took this version number: diff against it and take the next
+      if (error.code !== '23505' || attempt === RECORD_VERSION_ATTEMPTS) {
+        console.warn('[CartridgeVersions] Failed to record version:', error.message);
+        return null;
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.warn('[CartridgeVersions] Failed to record version:', error);
+    return null;
+  }
+}
+
+/**
+ * Versions of a cartridge, newest first, with their authors
+ */
+export async function listCartridgeVersions(
+  supabase: SupabaseClient,
+  agencyId: string,
+  type: CartridgeVersionType,
+  cartridgeId: string,
+  limit = VERSION_LIST_LIMIT
+): Promise<CartridgeVersion[]> {
+  const { data, error } = await supabase
+    .from('cartridge_version')
+    .select('*, author:user!cartridge_version_created_by_fkey(first_name, last_name)')
+    .eq('agency_id', agencyId)
+    .eq('cartridge_type', type)
+    .eq('cartridge_id', cartridgeId)
+    .order('version_number', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[CartridgeVersions] Failed to list versions:', error);
+    throw new Error('Failed to list cartridge versions');
+  }
+
+  return (data || []) as CartridgeVersion[];
+}
+
+/**
+ * A single version, scoped to the agency. Voice versions are only visible to
+ * the user they belong to.
+ */
+export async function getCartridgeVersion(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  versionId: string
+): Promise<CartridgeVersion | null> {
+  const { data, error } = await supabase
+    .from('cartridge_version')
+    .select('*, author:user!cartridge_version_created_by_fkey(first_name, last_name)')
+    .eq('id', versionId)
+    .eq('agency_id', agencyId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const version = data as CartridgeVersion;
+  if (version.cartridge_type === 'voice' && version.cartridge_id !== userId) {
+    return null;
+  }
+
+  return version;
+}
+
+/**
+ * Restore a cartridge to an earlier version. The restore is saved like any
+ * other change, so it shows up in history as a new version.
+ * Returns null when the version or its cartridge no longer exists.
+ */
+export async function rollbackCartridge(
+  supabase: SupabaseClient,
+  options: RollbackOptions
+): Promise<{ version: CartridgeVersion; restored: CartridgeVersion } | null> {
+  const { agencyId, userId, versionId } = options;
+
+  const restored = await getCartridgeVersion(supabase, agencyId, userId, versionId);
+  if (!restored) {
+    return null;
+  }
+
+  const { cartridge_type: type, cartridge_id: cartridgeId, snapshot } = restored;
+
+  if (type === 'voice') {
+    const { data: user, error: userError } = await supabase
+      .from('user')
+      .select('preferences')
+      .eq('id', cartridgeId)
+      .eq('agency_id', agencyId)
+      .single();
+
+    if (userError || !user) {
+      return null;
+    }
+
+    const preferences = isJsonObject(user.preferences) ? user.preferences : {};
+    const ai = isJsonObject(preferences.ai) ? preferences.ai : {};
+    const { error } = await supabase
+      .from('user')
+      .update({ preferences: { ...preferences, ai: { ...ai, voice: snapshot as Json } } })
+      .eq('id', cartridgeId)
+      .eq('agency_id', agencyId);
+
+    if (error) {
+      console.error('[CartridgeVersions] Failed to restore voice settings:', error);
+      throw new Error('Failed to roll back cartridge');
+    }
+  } else {
+    // Only fields captured in the snapshot are restored
+    const update: Record<string, unknown> = {};
+    for (const field of VERSIONED_FIELDS[type]) {
+      if (field in snapshot) {
+        update[field] = snapshot[field];
+      }
+    }
+
+    const { data, error } = await supabase
+      .from(CARTRIDGE_TABLES[type])
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', cartridgeId)
+      .eq('agency_id', agencyId)
+      .select('id');
+
+    if (error) {
+      console.error('[CartridgeVersions] Failed to restore cartridge:', error);
+      throw new Error('Failed to roll back cartridge');
+    }
+    if (!data || data.length === 0) {
+      return null;
+    }
+  }
+
+  invalidateCartridgeCache(agencyId);
+
+  const version = await recordCartridgeVersion(supabase, {
+    agencyId,
+    type,
+    cartridgeId,
+    data: snapshot,
+    createdBy: userId,
+    summary: `Rolled back to version ${restored.version_number}`,
+  });
+  if (!version) {
+    throw new Error('Cartridge restored but the rollback was not recorded');
+  }
+
+  return { version, restored };
+}
+
+/**
+ * Cartridge context with one cartridge replaced by a version's snapshot, for
+ * previewing how that version changes the assistant's output.
+ * Preferences are not part of the chat context, so they leave it unchanged.
+ */
+export function applyCartridgeVersion(
+  context: CartridgeContext,
+  version: Pick<CartridgeVersion, 'cartridge_type' | 'cartridge_id' | 'agency_id' | 'snapshot'>
+): CartridgeContext {
+  const { cartridge_type: type, cartridge_id: id, agency_id, snapshot } = version;
+
+  switch (type) {
+    case 'brand':
+      return { ...context, brand: { ...context.brand, ...snapshot, id, agency_id } as BrandCartridge };
+    case 'style':
+      return { ...context, style: { ...context.style, ...snapshot, id, agency_id } as StyleCartridge };
+    case 'voice':
+      return { ...context, voice: snapshot as unknown as VoiceSettings };
+    case 'instruction': {
+      const instruction = { ...snapshot, id, agency_id } as InstructionCartridge;
+      const others = (context.instructions || []).filter((i) => i.id !== id);
+      return {
+        ...context,
+        instructions: instruction.is_active === false ? others : [...others, instruction],
+      };
+    }
+    default:
+      return context;
+  }
+}
@@ -171,6 +171,16 @@ export const APP_STRUCTURE: Record<string, AppPage> = {
   },
 };
 
+/**
+ * Compact summary of an entity the user has selected (see view-context.ts)
+ */
+export interface ViewEntity {
+  type: 'client' | 'ticket' | 'document' | 'workflow';
+  id: string;
+  name: string;
+  details: string[];
+}
+
 /**
  * App context for chat system prompt injection
  */
@@ -184,6 +194,8 @@ export interface AppContext {
   dealId?: string;
   userRole: string;
   recentAlerts?: Array<{ id: string; message: string; severity: string }>;
+  entities?: ViewEntity[];
+  filters?: Record<string, string>;
 }
 
 /**
@@ -198,6 +210,8 @@ export function buildAppContext(
     dealId?: string;
     userRole?: string;
     recentAlerts?: Array<{ id: string; message: string; severity: string }>;
+    entities?: ViewEntity[];
+    filters?: Record<string, string>;
   }
 ): AppContext {
   const page = APP_STRUCTURE[currentPage] || APP_STRUCTURE.dashboard;
@@ -212,6 +226,8 @@ export function buildAppContext(
     dealId: params?.dealId,
     userRole: params?.userRole || 'member',
     recentAlerts: params?.recentAlerts,
+    entities: params?.entities,
+    filters: params?.filters,
   };
 }
 
@@ -249,6 +265,21 @@ Currently viewing deal: ${context.dealId}
 `;
   }
 
+  if (context.filters && Object.keys(context.filters).length > 0) {
+    prompt += `
+Active filters: ${Object.entries(context.filters).map(([key, value]) => `${key} = ${value}`).join(', ')}
+`;
+  }
+
+  if (context.entities && context.entities.length > 0) {
+    prompt += `
+### Open on screen
+${context.entities.map(e => `**${e.type}: ${e.name}** (ID: ${e.id})\n${e.details.map(d => `- ${d}`).join('\n')}`).join('\n\n')}
+
+When the user says "this ${context.entities.map(e => e.type).join('", "this ')}" or asks about it without naming it, they mean the matching one above. Use its ID in function calls instead of asking which one.
+`;
+  }
+
   if (context.recentAlerts && context.recentAlerts.length > 0) {
     prompt += `
 Recent alerts (${context.recentAlerts.length}):
@@ -259,6 +290,16 @@ ${context.recentAlerts.slice(0, 3).map(a => `- [${a.severity.toUpperCase()}] ${a
   return prompt;
 }
 
+/**
+ * Command center view paths that differ from the page's canonical path
+ */
+const VIEW_PATH_ALIASES: Record<string, string> = {
+  '/dashboard': 'dashboard',
+  '/client': 'clientDetail',
+  '/knowledge': 'knowledgeBase',
+  '/integrations': 'integrations',
+};
+
 /**
  * Get page by path (for route matching)
  */
@@ -268,6 +309,10 @@ export function getPageByPath(path: string): AppPage | null {
     if (page.path === path) return page;
   }
 
+  if (VIEW_PATH_ALIASES[path]) {
+    return APP_STRUCTURE[VIEW_PATH_ALIASES[path]];
+  }
+
   // Pattern match for dynamic routes
   if (path.startsWith('/client/') && path.split('/').length === 3) {
     return APP_STRUCTURE.clientDetail;
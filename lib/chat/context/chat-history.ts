@@ -8,9 +8,11 @@
  * - Session continuity across refreshes
  * - Message history for context
  * - Conversation recall
+ * - Session management: titles, pinning, archiving, search, export, branching
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from '@/lib/llm';
 import type { MessageRole, RouteType, Citation, SessionContext } from '../types';
 
 /**
@@ -23,6 +25,11 @@ export interface ChatSession {
   title: string | null;
   context: SessionContext | null;
   is_active: boolean;
+  is_pinned: boolean;
+  archived_at: string | null;
+  /** Set on branches: the session and message the branch was taken from */
+  parent_session_id: string | null;
+  branched_from_message_id: string | null;
   last_message_at: string | null;
   created_at: string;
 }
@@ -48,10 +55,54 @@ export interface ChatMessage {
 export interface CreateSessionOptions {
   agencyId: string;
   userId: string;
+  /** Continue this session when it belongs to the user */
+  sessionId?: string;
   title?: string;
   context?: SessionContext;
 }
 
+/**
+ * Changes a user can make to one of their sessions
+ */
+export interface SessionUpdate {
+  title?: string;
+  isPinned?: boolean;
+  archived?: boolean;
+}
+
+/**
+ * Options for branching a session from one of its messages
+ */
+export interface BranchSessionOptions {
+  agencyId: string;
+  userId: string;
+  sessionId: string;
+  /** Last message copied into the branch */
+  messageId: string;
+  title?: string;
+}
+
+/**
+ * Message matching a chat history search
+ */
+export interface ChatSearchResult {
+  message_id: string;
+  session_id: string;
+  session_title: string | null;
+  role: MessageRole;
+  /** Matching excerpt with matched terms in **bold** */
+  snippet: string;
+  created_at: string;
+  rank: number;
+}
+
+export type SessionExportFormat = 'markdown' | 'json';
+
+const SESSION_TITLE_MAX_LENGTH = 80;
+
+// Upper bound on messages copied into a branch
+const BRANCH_MESSAGE_LIMIT = 500;
+
 /**
  * Options for adding a message
  */
@@ -72,9 +123,24 @@ export async function getOrCreateSession(
   supabase: SupabaseClient,
   options: CreateSessionOptions
 ): Promise<ChatSession> {
-  const { agencyId, userId, title, context } = options;
+  const { agencyId, userId, sessionId, title, context } = options;
+
+  // Continue the requested session (e.g. a branch) when it is the user's
+  if (sessionId) {
+    const { data: requestedSession } = await supabase
+      .from('chat_session')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('agency_id', agencyId)
+      .eq('user_id', userId)
+      .single();
+
+    if (requestedSession) {
+      return requestedSession as ChatSession;
+    }
+  }
 
-  // First, try to find an existing active session
+  // Otherwise, try to find an existing active session
   const { data: existingSession, error: findError } = await supabase
     .from('chat_session')
     .select('*')
@@ -299,6 +365,268 @@ export async function closeSession(
   }
 }
 
+/**
+ * Rename, pin or archive one of the user's sessions. Archiving also closes
+ * the session so new messages start a fresh one.
+ *
+ * @returns The updated session, or null when it is not the user's
+ */
+export async function updateSession(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  sessionId: string,
+  update: SessionUpdate
+): Promise<ChatSession | null> {
+  const changes: Record<string, unknown> = {};
+  if (update.title !== undefined) {
+    changes.title = update.title.trim().slice(0, SESSION_TITLE_MAX_LENGTH) || null;
+  }
+  if (update.isPinned !== undefined) {
+    changes.is_pinned = update.isPinned;
+  }
+  if (update.archived === true) {
+    changes.archived_at = new Date().toISOString();
+    changes.is_active = false;
+  } else if (update.archived === false) {
+    changes.archived_at = null;
+  }
+
+  const { data, error } = await supabase
+    .from('chat_session')
+    .update(changes)
+    .eq('id', sessionId)
+    .eq('agency_id', agencyId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data as ChatSession;
+}
+
+/**
+ * Title a session from the user's first message: its first line, cut at a
+ * word boundary
+ */
+export function deriveSessionTitle(userMessage: string): string {
+  const firstLine = userMessage.trim().split('\n')[0].replace(/\s+/g, ' ').replace(/[\s.?!:,;]+$/, '');
+  if (!firstLine) {
+    return 'New Chat';
+  }
+  if (firstLine.length <= SESSION_TITLE_MAX_LENGTH) {
+    return firstLine;
+  }
+
+  const cut = firstLine.slice(0, SESSION_TITLE_MAX_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > SESSION_TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Ask the model for a short title summarizing the first exchange. Falls back
+ * to deriveSessionTitle when the call fails or returns nothing usable.
+ */
+export async function generateSessionTitle(
+  provider: LLMProvider,
+  userMessage: string,
+  assistantResponse: string
+): Promise<string> {
+  try {
+    const response = await provider.generate({
+      messages: `Write a title of at most six words for this conversation. Reply with the title only, without quotes.
+
+User: ${userMessage.substring(0, 1000)}
+Assistant: ${assistantResponse.substring(0, 1000)}`,
+      temperature: 0.2,
+      maxOutputTokens: 32,
+    });
+
+    const title = response.text.trim().split('\n')[0].replace(/^["'*#\s]+|["'*\s.]+$/g, '');
+    if (title) {
+      return title.slice(0, SESSION_TITLE_MAX_LENGTH);
+    }
+  } catch (error) {
+    console.warn('[ChatHistory] Title generation failed:', error);
+  }
+
+  return deriveSessionTitle(userMessage);
+}
+
+/**
+ * Full-text search across the user's own sessions in the agency
+ */
+export async function searchChatMessages(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  query: string,
+  limit: number = 20
+): Promise<ChatSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_chat_messages', {
+    p_agency_id: agencyId,
+    p_user_id: userId,
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) {
+    console.error('[ChatHistory] Search failed:', error);
+    throw new Error('Failed to search chat history');
+  }
+
+  return (data || []) as ChatSearchResult[];
+}
+
+/**
+ * Start a new session from an earlier point in one of the user's sessions.
+ * Messages up to and including `messageId` are copied; the branch becomes the
+ * user's current session, so the conversation continues there.
+ *
+ * @returns The new session, or null when the session or message is not the user's
+ */
+export async function branchSession(
+  supabase: SupabaseClient,
+  options: BranchSessionOptions
+): Promise<ChatSession | null> {
+  const { agencyId, userId, sessionId, messageId, title } = options;
+
+  const { data: source } = await supabase
+    .from('chat_session')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('agency_id', agencyId)
+    .eq('user_id', userId)
+    .single();
+
+  if (!source) {
+    return null;
+  }
+
+  const { data: branchPoint } = await supabase
+    .from('chat_message')
+    .select('id, created_at')
+    .eq('id', messageId)
+    .eq('session_id', sessionId)
+    .single();
+
+  if (!branchPoint) {
+    return null;
+  }
+
+  const { data: history, error: historyError } = await supabase
+    .from('chat_message')
+    .select('*')
+    .eq('session_id', sessionId)
+    .lte('created_at', branchPoint.created_at)
+    .order('created_at', { ascending: true })
+    .limit(BRANCH_MESSAGE_LIMIT);
+
+  if (historyError) {
+    console.error('[ChatHistory] Failed to load messages to branch:', historyError);
+    throw new Error('Failed to branch chat session');
+  }
+
+  const now = new Date().toISOString();
+  const { data: branch, error: createError } = await supabase
+    .from('chat_session')
+    .insert({
+      agency_id: agencyId,
+      user_id: userId,
+      title: (title?.trim() || `${(source as ChatSession).title || 'Untitled Chat'} (branch)`).slice(0, SESSION_TITLE_MAX_LENGTH),
+      context: (source as ChatSession).context,
+      is_active: true,
+      parent_session_id: sessionId,
+      branched_from_message_id: messageId,
+      last_message_at: now,
+    })
+    .select()
+    .single();
+
+  if (createError || !branch) {
+    console.error('[ChatHistory] Failed to create branch:', createError);
+    throw new Error('Failed to branch chat session');
+  }
+
+  const messages = (history || []) as ChatMessage[];
+  if (messages.length > 0) {
+    // Keep the original timestamps so the branch reads in the same order
+    const { error: copyError } = await supabase.from('chat_message').insert(
+      messages.map((m) => ({
+        session_id: branch.id,
+        agency_id: agencyId,
+        role: m.role,
+        content: m.content,
+        route_used: m.route_used,
+        citations: m.citations,
+        tokens_used: m.tokens_used,
+        created_at: m.created_at,
+      }))
+    );
+
+    if (copyError) {
+      console.error('[ChatHistory] Failed to copy messages into branch:', copyError);
+      await supabase.from('chat_session').delete().eq('id', branch.id);
+      throw new Error('Failed to branch chat session');
+    }
+  }
+
+  return branch as ChatSession;
+}
+
+/**
+ * Render a session as Markdown, with each answer's citations listed under it
+ */
+export function exportSessionAsMarkdown(session: ChatSession, messages: ChatMessage[]): string {
+  const lines = [`# ${session.title || 'Untitled Chat'}`, '', `_Started ${session.created_at}_`, ''];
+
+  for (const message of messages) {
+    lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'} · ${message.created_at}`, '', message.content, '');
+
+    if (message.citations && message.citations.length > 0) {
+      lines.push('**Sources**', '');
+      for (const citation of message.citations) {
+        const title = citation.url ? `[${citation.title}](${citation.url})` : citation.title;
+        lines.push(`${citation.index}. ${title}${citation.snippet ? ` — ${citation.snippet.replace(/\s+/g, ' ')}` : ''}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a session as JSON, keeping each message's route and citations
+ */
+export function exportSessionAsJSON(session: ChatSession, messages: ChatMessage[]): string {
+  return JSON.stringify(
+    {
+      session: {
+        id: session.id,
+        title: session.title,
+        created_at: session.created_at,
+        last_message_at: session.last_message_at,
+        parent_session_id: session.parent_session_id ?? null,
+        branched_from_message_id: session.branched_from_message_id ?? null,
+      },
+      messages: messages.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        route: m.route_used,
+        citations: m.citations ?? [],
+        created_at: m.created_at,
+      })),
+    },
+    null,
+    2
+  );
+}
+
 /**
  * Format messages for context injection into system prompt
  */
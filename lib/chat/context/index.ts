@@ -12,8 +12,11 @@ export {
   getNavigablePages,
   type AppPage,
   type AppContext,
+  type ViewEntity,
 } from './app-structure';
 
+export { parseViewContext, loadViewEntities } from './view-context';
+
 export {
   loadCartridgeContext,
   generateCartridgeContextPrompt,
@@ -36,10 +39,21 @@ export {
   getRecentMessages,
   updateSessionContext,
   updateSessionTitle,
+  updateSession,
   closeSession,
+  deriveSessionTitle,
+  generateSessionTitle,
+  searchChatMessages,
+  branchSession,
+  exportSessionAsMarkdown,
+  exportSessionAsJSON,
   formatMessagesForContext,
   type ChatSession,
   type ChatMessage,
   type CreateSessionOptions,
   type AddMessageOptions,
+  type SessionUpdate,
+  type BranchSessionOptions,
+  type ChatSearchResult,
+  type SessionExportFormat,
 } from './chat-history';
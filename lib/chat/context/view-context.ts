@@ -0,0 +1,258 @@
+/**
+ * View Context Loader
+ *
+ * Turns the view context the chat panel sends with each message (current
+ * route, selected client/ticket/document/workflow, active filters) into
+ * compact entity summaries for the system prompt, so "summarize this ticket"
+ * or "why is this automation failing" work without naming the entity.
+ *
+ * Everything is scoped to the user's agency and client assignments: an
+ * entity the user cannot read is left out rather than summarized.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isValidUUID } from '@/lib/security';
+import { verifyClientAccess } from '@/lib/rbac/client-access';
+import type { ChatViewContext } from '../types';
+import type { ViewEntity } from './app-structure';
+
+const MAX_FILTERS = 10;
+const MAX_ROUTE_LENGTH = 200;
+const MAX_FILTER_LENGTH = 100;
+const DESCRIPTION_PREVIEW_LENGTH = 500;
+const NOTE_PREVIEW_LENGTH = 200;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+/**
+ * Validate a view context from a request body. Unknown fields and IDs that
+ * are not UUIDs (e.g. mock or template entries) are dropped.
+ */
+export function parseViewContext(value: unknown): ChatViewContext | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.route !== 'string' || !raw.route.startsWith('/') || raw.route.length > MAX_ROUTE_LENGTH) {
+    return undefined;
+  }
+
+  const view: ChatViewContext = { route: raw.route };
+
+  for (const key of ['clientId', 'ticketId', 'documentId', 'workflowId'] as const) {
+    if (isValidUUID(raw[key])) {
+      view[key] = raw[key] as string;
+    }
+  }
+
+  if (raw.filters && typeof raw.filters === 'object' && !Array.isArray(raw.filters)) {
+    const filters = Object.entries(raw.filters as Record<string, unknown>)
+      .filter(([key, filterValue]) =>
+        key.length <= MAX_FILTER_LENGTH &&
+        typeof filterValue === 'string' &&
+        filterValue.length > 0 &&
+        filterValue.length <= MAX_FILTER_LENGTH
+      )
+      .slice(0, MAX_FILTERS);
+
+    if (filters.length > 0) {
+      view.filters = Object.fromEntries(filters) as Record<string, string>;
+    }
+  }
+
+  return view;
+}
+
+async function canReadClient(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  clientId: string | null
+): Promise<boolean> {
+  return !clientId || verifyClientAccess(userId, agencyId, clientId, supabase);
+}
+
+async function loadClient(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  clientId: string
+): Promise<ViewEntity | null> {
+  if (!(await canReadClient(supabase, agencyId, userId, clientId))) {
+    return null;
+  }
+
+  const { data: client } = await supabase
+    .from('client')
+    .select('id, name, stage, health_status, days_in_stage, contact_name, contact_email, website_url, notes')
+    .eq('id', clientId)
+    .eq('agency_id', agencyId)
+    .single();
+
+  if (!client) {
+    return null;
+  }
+
+  const details = [
+    `Stage: ${client.stage} (${client.days_in_stage} days)`,
+    `Health: ${client.health_status}`,
+  ];
+  if (client.contact_name) {
+    details.push(`Contact: ${client.contact_name}${client.contact_email ? ` <${client.contact_email}>` : ''}`);
+  }
+  if (client.website_url) {
+    details.push(`Website: ${client.website_url}`);
+  }
+  if (client.notes) {
+    details.push(`Notes: ${truncate(client.notes, DESCRIPTION_PREVIEW_LENGTH)}`);
+  }
+
+  return { type: 'client', id: client.id, name: client.name, details };
+}
+
+async function loadTicket(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  ticketId: string
+): Promise<ViewEntity | null> {
+  const { data: ticket } = await supabase
+    .from('ticket')
+    .select(`
+      id, number, client_id, title, description, status, priority, category, due_date, created_at,
+      client:client_id(name),
+      assignee:assignee_id(first_name, last_name)
+    `)
+    .eq('id', ticketId)
+    .eq('agency_id', agencyId)
+    .single();
+
+  if (!ticket || !(await canReadClient(supabase, agencyId, userId, ticket.client_id))) {
+    return null;
+  }
+
+  const { data: notes } = await supabase
+    .from('ticket_note')
+    .select('content, is_internal, created_at')
+    .eq('ticket_id', ticketId)
+    .eq('agency_id', agencyId)
+    .order('created_at', { ascending: false })
+    .limit(3);
+
+  const client = ticket.client as unknown as { name: string } | null;
+  const assignee = ticket.assignee as unknown as { first_name: string; last_name: string } | null;
+
+  const details = [
+    `Status: ${ticket.status}, priority: ${ticket.priority}, category: ${ticket.category}`,
+    `Client: ${client?.name ?? 'Unknown'}`,
+    `Assignee: ${assignee ? `${assignee.first_name} ${assignee.last_name}`.trim() : 'Unassigned'}`,
+    `Opened: ${ticket.created_at}${ticket.due_date ? `, due ${ticket.due_date}` : ''}`,
+    `Description: ${truncate(ticket.description, DESCRIPTION_PREVIEW_LENGTH)}`,
+  ];
+  for (const note of notes ?? []) {
+    details.push(`Note (${note.created_at}${note.is_internal ? ', internal' : ''}): ${truncate(note.content, NOTE_PREVIEW_LENGTH)}`);
+  }
+
+  return { type: 'ticket', id: ticket.id, name: `#${ticket.number} ${ticket.title}`, details };
+}
+
+async function loadDocument(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  documentId: string
+): Promise<ViewEntity | null> {
+  const { data: document } = await supabase
+    .from('document')
+    .select('id, title, file_name, category, client_id, index_status, word_count, page_count, updated_at')
+    .eq('id', documentId)
+    .eq('agency_id', agencyId)
+    .eq('is_active', true)
+    .single();
+
+  if (!document || !(await canReadClient(supabase, agencyId, userId, document.client_id))) {
+    return null;
+  }
+
+  const details = [
+    `File: ${document.file_name} (${document.category})`,
+    `Search index: ${document.index_status}`,
+    `Updated: ${document.updated_at}`,
+  ];
+  if (document.word_count || document.page_count) {
+    details.push(`Length: ${document.page_count ?? '?'} pages, ${document.word_count ?? '?'} words`);
+  }
+  details.push('Use search_knowledge_base to read its content.');
+
+  return { type: 'document', id: document.id, name: document.title, details };
+}
+
+async function loadWorkflow(
+  supabase: SupabaseClient,
+  agencyId: string,
+  workflowId: string
+): Promise<ViewEntity | null> {
+  const [{ data: workflow }, { data: failedRuns }] = await Promise.all([
+    supabase
+      .from('workflow')
+      .select('id, name, description, is_active, run_count, success_count, last_run_at')
+      .eq('id', workflowId)
+      .eq('agency_id', agencyId)
+      .single(),
+    supabase
+      .from('workflow_run')
+      .select('started_at, error_message')
+      .eq('workflow_id', workflowId)
+      .eq('agency_id', agencyId)
+      .eq('status', 'failed')
+      .order('started_at', { ascending: false })
+      .limit(3),
+  ]);
+
+  if (!workflow) {
+    return null;
+  }
+
+  const details = [
+    `Status: ${workflow.is_active ? 'active' : 'inactive'}`,
+    `Runs: ${workflow.run_count} (${workflow.success_count} succeeded), last run ${workflow.last_run_at ?? 'never'}`,
+  ];
+  if (workflow.description) {
+    details.push(`Description: ${truncate(workflow.description, DESCRIPTION_PREVIEW_LENGTH)}`);
+  }
+  for (const run of failedRuns ?? []) {
+    details.push(`Failed run (${run.started_at}): ${run.error_message ? truncate(run.error_message, NOTE_PREVIEW_LENGTH) : 'no error recorded'}`);
+  }
+
+  return { type: 'workflow', id: workflow.id, name: workflow.name, details };
+}
+
+/**
+ * Load summaries of the entities selected in the view. A failed lookup only
+ * drops that entity; the chat still works without it.
+ */
+export async function loadViewEntities(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  view: ChatViewContext
+): Promise<ViewEntity[]> {
+  const loads: Array<Promise<ViewEntity | null>> = [];
+
+  if (view.clientId) loads.push(loadClient(supabase, agencyId, userId, view.clientId));
+  if (view.ticketId) loads.push(loadTicket(supabase, agencyId, userId, view.ticketId));
+  if (view.documentId) loads.push(loadDocument(supabase, agencyId, userId, view.documentId));
+  if (view.workflowId) loads.push(loadWorkflow(supabase, agencyId, view.workflowId));
+
+  const results = await Promise.all(
+    loads.map(load => load.catch(err => {
+      console.warn('[View Context] Failed to load entity:', err);
+      return null;
+    }))
+  );
+
+  return results.filter((entity): entity is ViewEntity => entity !== null);
+}
@@ -0,0 +1,231 @@
+/**
+ * Chat Eval Harness
+ *
+ * Runs the golden set (golden-set.json) through the two model decisions the
+ * chat depends on and scores them:
+ * - routing: SmartRouter.classifyQuery, exactly as the chat route calls it
+ * - function selection: the first function call the model makes for a
+ *   dashboard query, given the production function declarations and guidelines
+ *
+ * The provider is injected (see ./replay), so the same harness runs offline
+ * against recordings in Vitest and live when re-recording.
+ */
+
+import type { LLMProvider, LLMRequest } from '@/lib/llm';
+import { SmartRouter } from '../router';
+import { FUNCTION_CALLING_GUIDELINES } from '../functions';
+import { functionDeclarations } from '../tool-loop';
+import type { RouteType } from '../types';
+import { UnrecordedRequestError, withGenerate } from './replay';
+
+export const EVAL_ROUTES: RouteType[] = ['rag', 'web', 'memory', 'casual', 'dashboard'];
+
+export interface GoldenCase {
+  id: string;
+  query: string;
+  route: RouteType;
+  /** Expected first function call; `args` only lists the arguments that matter */
+  function?: { name: string; args?: Record<string, unknown> };
+}
+
+export interface GoldenSet {
+  version: number;
+  thresholds: { routing: number; functionSelection: number };
+  cases: GoldenCase[];
+}
+
+export interface EvalCaseResult {
+  id: string;
+  query: string;
+  expectedRoute: RouteType;
+  actualRoute: RouteType | null;
+  routeCorrect: boolean | null;
+  expectedFunction: GoldenCase['function'] | null;
+  actualFunction: { name: string; args: Record<string, unknown> } | null;
+  /** null when the case has no expected function or its response was not recorded */
+  functionCorrect: boolean | null;
+  unrecorded: boolean;
+}
+
+export interface EvalScore {
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+export interface EvalReport {
+  version: number;
+  routing: EvalScore;
+  functionSelection: EvalScore;
+  /** confusion[expected][actual] = number of cases */
+  confusion: Record<RouteType, Record<RouteType, number>>;
+  unrecorded: string[];
+  failures: EvalCaseResult[];
+  cases: EvalCaseResult[];
+}
+
+export interface RunChatEvalOptions {
+  provider: LLMProvider;
+  /** Called before each case, e.g. to label recordings */
+  onCase?: (caseId: string) => void;
+}
+
+/**
+ * The first request of the dashboard tool loop, without the per-agency
+ * context (cartridges, history, view) that varies between users
+ */
+export function buildFunctionSelectionRequest(query: string): LLMRequest {
+  return {
+    messages: [{
+      role: 'user',
+      parts: [{ text: `IMPORTANT CAPABILITIES:\n${FUNCTION_CALLING_GUIDELINES}\n\nUser: ${query}` }],
+    }],
+    temperature: 0,
+    functions: functionDeclarations,
+    functionCalling: 'auto',
+  };
+}
+
+function sameValue(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return expected.trim().toLowerCase() === actual.trim().toLowerCase();
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+function matchesFunction(
+  expected: NonNullable<GoldenCase['function']>,
+  actual: EvalCaseResult['actualFunction']
+): boolean {
+  if (!actual || actual.name !== expected.name) {
+    return false;
+  }
+  return Object.entries(expected.args ?? {}).every(([key, value]) => sameValue(value, actual.args[key]));
+}
+
+function score(results: Array<boolean | null>): EvalScore {
+  const scored = results.filter((r): r is boolean => r !== null);
+  const correct = scored.filter(Boolean).length;
+  return { correct, total: scored.length, accuracy: scored.length ? correct / scored.length : 0 };
+}
+
+function emptyConfusion(): Record<RouteType, Record<RouteType, number>> {
+  return Object.fromEntries(
+    EVAL_ROUTES.map(expected => [expected, Object.fromEntries(EVAL_ROUTES.map(actual => [actual, 0]))])
+  ) as Record<RouteType, Record<RouteType, number>>;
+}
+
+export async function runChatEval(goldenSet: GoldenSet, options: RunChatEvalOptions): Promise<EvalReport> {
+  // The router falls back to heuristics when the model call fails, so a
+  // missing recording has to be noticed here rather than from its result
+  let unrecorded = false;
+  const provider = withGenerate(options.provider, async (request) => {
+    try {
+      return await options.provider.generate(request);
+    } catch (error) {
+      if (error instanceof UnrecordedRequestError) {
+        unrecorded = true;
+      }
+      throw error;
+    }
+  });
+
+  const router = new SmartRouter(provider);
+  const cases: EvalCaseResult[] = [];
+
+  for (const goldenCase of goldenSet.cases) {
+    options.onCase?.(goldenCase.id);
+    unrecorded = false;
+
+    const { route } = await router.classifyQuery(goldenCase.query);
+
+    let actualFunction: EvalCaseResult['actualFunction'] = null;
+    if (goldenCase.function) {
+      try {
+        const response = await provider.generate(buildFunctionSelectionRequest(goldenCase.query));
+        const call = response.functionCalls[0];
+        actualFunction = call ? { name: call.name, args: call.args } : null;
+      } catch (error) {
+        if (!unrecorded) {
+          throw error;
+        }
+      }
+    }
+
+    cases.push({
+      id: goldenCase.id,
+      query: goldenCase.query,
+      expectedRoute: goldenCase.route,
+      actualRoute: unrecorded ? null : route,
+      routeCorrect: unrecorded ? null : route === goldenCase.route,
+      expectedFunction: goldenCase.function ?? null,
+      actualFunction,
+      functionCorrect: unrecorded || !goldenCase.function ? null : matchesFunction(goldenCase.function, actualFunction),
+      unrecorded,
+    });
+  }
+
+  const confusion = emptyConfusion();
+  for (const result of cases) {
+    if (result.actualRoute) {
+      confusion[result.expectedRoute][result.actualRoute]++;
+    }
+  }
+
+  return {
+    version: goldenSet.version,
+    routing: score(cases.map(c => c.routeCorrect)),
+    functionSelection: score(cases.map(c => c.functionCorrect)),
+    confusion,
+    unrecorded: cases.filter(c => c.unrecorded).map(c => c.id),
+    failures: cases.filter(c => c.routeCorrect === false || c.functionCorrect === false),
+    cases,
+  };
+}
+
+function percent(value: EvalScore): string {
+  return `${(value.accuracy * 100).toFixed(1)}% (${value.correct}/${value.total})`;
+}
+
+/**
+ * Plain-text report: accuracy, the routing confusion matrix and each failure
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const width = Math.max(...EVAL_ROUTES.map(r => r.length)) + 2;
+  const pad = (value: string | number) => String(value).padStart(width);
+
+  const lines = [
+    `Chat eval (golden set v${report.version})`,
+    `Routing accuracy:            ${percent(report.routing)}`,
+    `Function selection accuracy: ${percent(report.functionSelection)}`,
+    '',
+    'Routing confusion matrix (rows: expected, columns: actual)',
+    `${''.padEnd(width)}${EVAL_ROUTES.map(pad).join('')}`,
+    ...EVAL_ROUTES.map(expected =>
+      `${expected.padEnd(width)}${EVAL_ROUTES.map(actual => pad(report.confusion[expected][actual])).join('')}`
+    ),
+  ];
+
+  if (report.failures.length > 0) {
+    lines.push('', 'Failures:');
+    for (const failure of report.failures) {
+      const details: string[] = [];
+      if (failure.routeCorrect === false) {
+        details.push(`route ${failure.actualRoute}, expected ${failure.expectedRoute}`);
+      }
+      if (failure.functionCorrect === false) {
+        const actual = failure.actualFunction
+          ? `${failure.actualFunction.name}(${JSON.stringify(failure.actualFunction.args)})`
+          : 'no call';
+        details.push(`called ${actual}, expected ${failure.expectedFunction?.name}(${JSON.stringify(failure.expectedFunction?.args ?? {})})`);
+      }
+      lines.push(`- ${failure.id} "${failure.query}": ${details.join('; ')}`);
+    }
+  }
+
+  if (report.unrecorded.length > 0) {
+    lines.push('', `Unrecorded (${report.unrecorded.length}): ${report.unrecorded.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,29 @@
+/**
+ * Chat Eval Module
+ *
+ * Golden-set regression checks for SmartRouter routing and dashboard
+ * function selection, runnable offline against recorded responses.
+ */
+
+export {
+  runChatEval,
+  formatEvalReport,
+  buildFunctionSelectionRequest,
+  EVAL_ROUTES,
+  type GoldenCase,
+  type GoldenSet,
+  type EvalCaseResult,
+  type EvalScore,
+  type EvalReport,
+  type RunChatEvalOptions,
+} from './harness';
+
+export {
+  replayModel,
+  recordingModel,
+  requestKey,
+  withGenerate,
+  UnrecordedRequestError,
+  type EvalRecordings,
+  type RecordedResponse,
+} from './replay';
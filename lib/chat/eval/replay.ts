@@ -0,0 +1,102 @@
+/**
+ * Recorded model responses for the chat eval
+ *
+ * Each LLM request the harness makes is keyed by a hash of the request.
+ * `recordingModel` calls a live provider and stores the responses;
+ * `replayModel` answers from them offline, so the golden set runs in Vitest
+ * without an API key.
+ *
+ * Editing a prompt or a function declaration changes the request, so its old
+ * recording no longer matches: the case is reported as unrecorded until the
+ * golden set is re-recorded (`npm run eval:chat`).
+ */
+
+import { createHash } from 'crypto';
+import { MockProvider, type LLMFunctionCall, type LLMProvider, type LLMRequest, type LLMResponse } from '@/lib/llm';
+
+export interface RecordedResponse {
+  /** Golden case the request was made for, to keep the file readable */
+  caseId: string;
+  text?: string;
+  functionCalls?: LLMFunctionCall[];
+}
+
+export interface EvalRecordings {
+  version: number;
+  recordedAt: string | null;
+  responses: Record<string, RecordedResponse>;
+}
+
+/**
+ * Thrown by replayModel for a request with no recording
+ */
+export class UnrecordedRequestError extends Error {
+  constructor(public key: string) {
+    super(`No recorded response for request ${key}`);
+    this.name = 'UnrecordedRequestError';
+  }
+}
+
+export function requestKey(request: LLMRequest): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+}
+
+/**
+ * A provider that sends `generate` through the given function and
+ * everything else to `provider`
+ */
+export function withGenerate(
+  provider: LLMProvider,
+  generate: (request: LLMRequest) => Promise<LLMResponse>
+): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate,
+    stream: (request) => provider.stream(request),
+    embed: (texts, options) => provider.embed(texts, options),
+    generateJSON: (request) => provider.generateJSON(request),
+  };
+}
+
+/**
+ * Answer requests from recordings only
+ */
+export function replayModel(recordings: EvalRecordings): LLMProvider {
+  return new MockProvider({
+    respond: (request) => {
+      const key = requestKey(request);
+      const recorded = recordings.responses[key];
+      if (!recorded) {
+        throw new UnrecordedRequestError(key);
+      }
+      return { text: recorded.text, functionCalls: recorded.functionCalls };
+    },
+  });
+}
+
+/**
+ * Call the live provider and store each response in `recordings` under the
+ * current case (set through the returned `setCase`)
+ */
+export function recordingModel(
+  provider: LLMProvider,
+  recordings: EvalRecordings
+): { provider: LLMProvider; setCase: (caseId: string) => void } {
+  let caseId = '';
+
+  return {
+    setCase: (id) => {
+      caseId = id;
+    },
+    provider: withGenerate(provider, async (request) => {
+      const response = await provider.generate(request);
+      recordings.responses[requestKey(request)] = {
+        caseId,
+        text: response.functionCalls.length ? undefined : response.text,
+        functionCalls: response.functionCalls.length ? response.functionCalls : undefined,
+      };
+      return response;
+    }),
+  };
+}
@@ -4,9 +4,13 @@
  * Assigns a ticket to a team member by name or ID.
  * Resolves team member name to user_id via agency user lookup.
  * Can also update ticket status and priority.
+ *
+ * Mutating: chat proposes the change with previewAssignTicket and only runs
+ * assignTicket once the user confirms it.
  */
 
-import type { ExecutorContext } from './types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExecutorContext, FunctionPreview } from './types';
 import { verifyClientAccess } from '@/lib/rbac/client-access';
 
 interface AssignTicketArgs {
@@ -18,12 +22,167 @@ interface AssignTicketArgs {
   priority?: string;
 }
 
+interface TicketRecord {
+  id: string;
+  number: number;
+  title: string;
+  client_id: string | null;
+  status: string;
+  priority: string;
+  assignee_id: string | null;
+}
+
+/**
+ * Find the ticket and verify the member has access to its client
+ */
+async function findTicket(
+  supabase: SupabaseClient,
+  context: ExecutorContext,
+  args: AssignTicketArgs
+): Promise<{ ticket: TicketRecord } | { error: string }> {
+  const { agencyId, userId } = context;
+
+  let ticketQuery = supabase
+    .from('ticket')
+    .select('id, number, title, client_id, status, priority, assignee_id')
+    .eq('agency_id', agencyId);
+
+  if (args.ticket_id) {
+    ticketQuery = ticketQuery.eq('id', args.ticket_id);
+  } else if (args.ticket_number) {
+    ticketQuery = ticketQuery.eq('number', args.ticket_number);
+  } else {
+    return { error: 'Either ticket_id or ticket_number is required' };
+  }
+
+  const { data: ticket, error: ticketError } = await ticketQuery.single();
+
+  if (ticketError || !ticket) {
+    return { error: 'Ticket not found' };
+  }
+
+  // Verify member has access to this ticket's client
+  if (ticket.client_id) {
+    const hasAccess = await verifyClientAccess(userId, agencyId, ticket.client_id, supabase);
+    if (!hasAccess) {
+      return { error: 'You do not have access to this ticket' };
+    }
+  }
+
+  return { ticket };
+}
+
+/**
+ * Resolve assignee_name to a single team member in the agency
+ */
+async function resolveAssignee(
+  supabase: SupabaseClient,
+  agencyId: string,
+  args: AssignTicketArgs
+): Promise<{ assigneeId?: string; assigneeName: string | null } | { error: string }> {
+  if (args.assignee_id || !args.assignee_name) {
+    return { assigneeId: args.assignee_id, assigneeName: args.assignee_id ? args.assignee_name ?? null : null };
+  }
+
+  // Search for team member by name within the same agency
+  const { data: users } = await supabase
+    .from('user')
+    .select('id, name, email')
+    .eq('agency_id', agencyId)
+    .or(`name.ilike.%${args.assignee_name}%,email.ilike.%${args.assignee_name}%`)
+    .limit(5);
+
+  if (!users || users.length === 0) {
+    return { error: `No team member found matching "${args.assignee_name}"` };
+  }
+
+  if (users.length > 1) {
+    const matches = users.map(u => `${u.name} (${u.email})`).join(', ');
+    return { error: `Multiple matches found: ${matches}. Please be more specific.` };
+  }
+
+  return { assigneeId: users[0].id, assigneeName: users[0].name };
+}
+
+/**
+ * Resolve the ticket and assignee and diff them against the ticket's current values
+ */
+export async function previewAssignTicket(
+  context: ExecutorContext,
+  rawArgs: Record<string, unknown>
+): Promise<FunctionPreview> {
+  const args = rawArgs as unknown as AssignTicketArgs;
+  const { agencyId, supabase } = context;
+
+  if (!supabase) {
+    throw new Error('Cannot update tickets without database connection.');
+  }
+
+  const found = await findTicket(supabase, context, args);
+  if ('error' in found) {
+    throw new Error(found.error);
+  }
+  const { ticket } = found;
+
+  const assignee = await resolveAssignee(supabase, agencyId, args);
+  if ('error' in assignee) {
+    throw new Error(assignee.error);
+  }
+
+  const changes: FunctionPreview['changes'] = [];
+
+  if (assignee.assigneeId && assignee.assigneeId !== ticket.assignee_id) {
+    // Show names rather than IDs on both sides of the diff
+    const ids = [ticket.assignee_id, assignee.assigneeId].filter((id): id is string => !!id);
+    const { data: users } = await supabase
+      .from('user')
+      .select('id, name')
+      .eq('agency_id', agencyId)
+      .in('id', ids);
+    const nameOf = (id: string | null) => users?.find(u => u.id === id)?.name ?? id;
+
+    if (!users?.some(u => u.id === assignee.assigneeId)) {
+      throw new Error('Assignee is not a member of this agency');
+    }
+
+    changes.push({
+      field: 'assignee_id',
+      label: 'Assignee',
+      from: nameOf(ticket.assignee_id),
+      to: nameOf(assignee.assigneeId),
+    });
+  }
+  if (args.status && args.status !== ticket.status) {
+    changes.push({ field: 'status', label: 'Status', from: ticket.status, to: args.status });
+  }
+  if (args.priority && args.priority !== ticket.priority) {
+    changes.push({ field: 'priority', label: 'Priority', from: ticket.priority, to: args.priority });
+  }
+
+  if (changes.length === 0) {
+    throw new Error(`No changes to make: ticket #${ticket.number} already has those values`);
+  }
+
+  return {
+    summary: `Update ticket #${ticket.number} "${ticket.title}"`,
+    target: { type: 'ticket', id: ticket.id, name: `#${ticket.number} ${ticket.title}` },
+    changes,
+    args: {
+      ...args,
+      ticket_id: ticket.id,
+      ticket_number: undefined,
+      assignee_id: assignee.assigneeId,
+      assignee_name: changes.find(c => c.field === 'assignee_id')?.to ?? undefined,
+    },
+  };
+}
+
 export async function assignTicket(
   context: ExecutorContext,
   rawArgs: Record<string, unknown>
 ): Promise<Record<string, unknown>> {
   const args = rawArgs as unknown as AssignTicketArgs;
-  const { agencyId, userId, supabase } = context;
+  const { agencyId, supabase } = context;
 
   if (!supabase) {
     if (process.env.NODE_ENV === 'production') {
@@ -34,58 +193,18 @@ export async function assignTicket(
 
   try {
     // Step 1: Find the ticket
-    let ticketQuery = supabase
-      .from('ticket')
-      .select('id, number, title, client_id, status, priority, assignee_id')
-      .eq('agency_id', agencyId);
-
-    if (args.ticket_id) {
-      ticketQuery = ticketQuery.eq('id', args.ticket_id);
-    } else if (args.ticket_number) {
-      ticketQuery = ticketQuery.eq('number', args.ticket_number);
-    } else {
-      return { error: 'Either ticket_id or ticket_number is required' };
-    }
-
-    const { data: ticket, error: ticketError } = await ticketQuery.single();
-
-    if (ticketError || !ticket) {
-      return { error: 'Ticket not found' };
-    }
-
-    // Verify member has access to this ticket's client
-    if (ticket.client_id) {
-      const hasAccess = await verifyClientAccess(userId, agencyId, ticket.client_id, supabase);
-      if (!hasAccess) {
-        return { error: 'You do not have access to this ticket' };
-      }
+    const found = await findTicket(supabase, context, args);
+    if ('error' in found) {
+      return found;
     }
+    const { ticket } = found;
 
     // Step 2: Resolve assignee
-    let assigneeId = args.assignee_id;
-    let assigneeName: string | null = null;
-
-    if (!assigneeId && args.assignee_name) {
-      // Search for team member by name within the same agency
-      const { data: users } = await supabase
-        .from('user')
-        .select('id, name, email')
-        .eq('agency_id', agencyId)
-        .or(`name.ilike.%${args.assignee_name}%,email.ilike.%${args.assignee_name}%`)
-        .limit(5);
-
-      if (!users || users.length === 0) {
-        return { error: `No team member found matching "${args.assignee_name}"` };
-      }
-
-      if (users.length > 1) {
-        const matches = users.map(u => `${u.name} (${u.email})`).join(', ');
-        return { error: `Multiple matches found: ${matches}. Please be more specific.` };
-      }
-
-      assigneeId = users[0].id;
-      assigneeName = users[0].name;
+    const assignee = await resolveAssignee(supabase, agencyId, args);
+    if ('error' in assignee) {
+      return assignee;
     }
+    const { assigneeId, assigneeName } = assignee;
 
     // Step 3: Build update
     const updates: Record<string, unknown> = {
@@ -4,9 +4,12 @@
  * Handles create_client function calls from AI chat.
  * Defaults: stage='Lead', health_status='green'.
  * Scoped to agency via ExecutorContext.
+ *
+ * Mutating: chat proposes the change with previewCreateClient and only runs
+ * createClient once the user confirms it.
  */
 
-import type { ExecutorContext } from './types';
+import type { ExecutorContext, FunctionPreview } from './types';
 
 interface CreateClientArgs {
   name: string;
@@ -29,6 +32,54 @@ interface CreatedClient {
 
 const VALID_STAGES = ['Lead', 'Onboarding', 'Installation', 'Audit', 'Live', 'Needs Support', 'Off-boarding'];
 
+/**
+ * Check the name is free and list the fields the new client will get
+ */
+export async function previewCreateClient(
+  context: ExecutorContext,
+  rawArgs: Record<string, unknown>
+): Promise<FunctionPreview> {
+  const args = rawArgs as unknown as CreateClientArgs;
+  const { agencyId, supabase } = context;
+
+  if (!supabase) {
+    throw new Error('Cannot create clients without database connection.');
+  }
+
+  if (!args.name) {
+    throw new Error('Client name is required.');
+  }
+
+  const { data: existing } = await supabase
+    .from('client')
+    .select('id')
+    .eq('agency_id', agencyId)
+    .ilike('name', args.name)
+    .eq('is_active', true)
+    .limit(1);
+
+  if (existing && existing.length > 0) {
+    throw new Error(`A client named "${args.name}" already exists. Use a different name or update the existing client.`);
+  }
+
+  const stage = args.stage && VALID_STAGES.includes(args.stage) ? args.stage : 'Lead';
+  const fields: Array<[string, string, string | undefined]> = [
+    ['name', 'Name', args.name],
+    ['stage', 'Stage', stage],
+    ['contact_name', 'Contact name', args.contact_name],
+    ['contact_email', 'Contact email', args.contact_email],
+    ['notes', 'Notes', args.notes],
+  ];
+
+  return {
+    summary: `Create client "${args.name}"`,
+    changes: fields
+      .filter(([, , value]) => value)
+      .map(([field, label, value]) => ({ field, label, from: null, to: value ?? null })),
+    args: { ...args, stage },
+  };
+}
+
 /**
  * Create a new client record
  */
@@ -4,9 +4,13 @@
  * Handles create_ticket function calls from AI chat.
  * Resolves client_name to client_id when needed.
  * Scoped to agency via ExecutorContext.
+ *
+ * Mutating: chat proposes the change with previewCreateTicket and only runs
+ * createTicket once the user confirms it.
  */
 
-import type { ExecutorContext } from './types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExecutorContext, FunctionPreview } from './types';
 import { verifyClientAccess } from '@/lib/rbac/client-access';
 
 interface CreateTicketArgs {
@@ -33,28 +37,14 @@ const VALID_CATEGORIES = ['technical', 'billing', 'campaign', 'general', 'escala
 const VALID_PRIORITIES = ['low', 'medium', 'high', 'critical'];
 
 /**
- * Create a new support ticket
- * Accepts client_name as alternative to client_id (AI often passes names)
+ * Resolve client_id from client_name if needed and check the member's access
  */
-export async function createTicket(
+async function resolveTicketClient(
+  supabase: SupabaseClient,
   context: ExecutorContext,
-  rawArgs: Record<string, unknown>
-): Promise<CreatedTicket> {
-  const args = rawArgs as unknown as CreateTicketArgs;
-  const { agencyId, userId, supabase } = context;
-
-  if (!supabase) {
-    if (process.env.NODE_ENV === 'production') {
-      throw new Error('[SECURITY] Supabase client is required in production.');
-    }
-    throw new Error('Cannot create tickets without database connection.');
-  }
-
-  if (!args.title) {
-    throw new Error('Ticket title is required.');
-  }
-
-  // Resolve client_id from client_name if needed
+  args: CreateTicketArgs
+): Promise<{ clientId: string; clientName?: string }> {
+  const { agencyId, userId } = context;
   let clientId = args.client_id;
   let clientName = args.client_name;
 
@@ -85,6 +75,72 @@ export async function createTicket(
     throw new Error('You do not have access to create tickets for this client.');
   }
 
+  return { clientId, clientName };
+}
+
+/**
+ * Resolve the client and list the fields the new ticket will get
+ */
+export async function previewCreateTicket(
+  context: ExecutorContext,
+  rawArgs: Record<string, unknown>
+): Promise<FunctionPreview> {
+  const args = rawArgs as unknown as CreateTicketArgs;
+
+  const { supabase } = context;
+
+  if (!supabase) {
+    throw new Error('Cannot create tickets without database connection.');
+  }
+
+  if (!args.title) {
+    throw new Error('Ticket title is required.');
+  }
+
+  const { clientId, clientName } = await resolveTicketClient(supabase, context, args);
+  const category = args.category && VALID_CATEGORIES.includes(args.category) ? args.category : 'general';
+  const priority = args.priority && VALID_PRIORITIES.includes(args.priority) ? args.priority : 'medium';
+  const fields: Array<[string, string, string | undefined]> = [
+    ['title', 'Title', args.title.slice(0, 500)],
+    ['description', 'Description', args.description?.slice(0, 10000)],
+    ['category', 'Category', category],
+    ['priority', 'Priority', priority],
+  ];
+
+  return {
+    summary: `Create ticket for ${clientName || 'client'}`,
+    target: { type: 'client', id: clientId, name: clientName || clientId },
+    changes: fields
+      .filter(([, , value]) => value)
+      .map(([field, label, value]) => ({ field, label, from: null, to: value ?? null })),
+    args: { ...args, client_id: clientId, client_name: clientName, category, priority },
+  };
+}
+
+/**
+ * Create a new support ticket
+ * Accepts client_name as alternative to client_id (AI often passes names)
+ */
+export async function createTicket(
+  context: ExecutorContext,
+  rawArgs: Record<string, unknown>
+): Promise<CreatedTicket> {
+  const args = rawArgs as unknown as CreateTicketArgs;
+  const { agencyId, userId, supabase } = context;
+
+  if (!supabase) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('[SECURITY] Supabase client is required in production.');
+    }
+    throw new Error('Cannot create tickets without database connection.');
+  }
+
+  if (!args.title) {
+    throw new Error('Ticket title is required.');
+  }
+
+  const { clientId, clientName } = await resolveTicketClient(supabase, context, args);
+
   // Validate and default category/priority
   const category = args.category && VALID_CATEGORIES.includes(args.category) ? args.category : 'general';
   const priority = args.priority && VALID_PRIORITIES.includes(args.priority) ? args.priority : 'medium';
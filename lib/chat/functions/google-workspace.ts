@@ -13,6 +13,7 @@ import {
   isIntegrationConnected,
   type OAuthCredentials,
 } from './oauth-provider';
+import { getAccessibleClientIds } from '@/lib/rbac/client-access';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 /**
@@ -125,7 +126,7 @@ export async function getEmails(
   }
 
   // Gateway path — query synced data from user_communication table
-  return getEmailsFromSyncedData(supabase, agencyId, args);
+  return getEmailsFromSyncedData(supabase, agencyId, userId, args);
 }
 
 /**
@@ -134,10 +135,12 @@ export async function getEmails(
  *
  * Falls back to the communication table if user_communication returns empty,
  * since the communication table (client-scoped) stores matched emails too.
+ * Members only see their own inbox and emails of clients assigned to them.
  */
 async function getEmailsFromSyncedData(
   supabase: SupabaseClient,
   agencyId: string,
+  userId: string,
   args: {
     query?: string;
     maxResults?: number;
@@ -157,6 +160,7 @@ async function getEmailsFromSyncedData(
       .from('user_communication')
       .select('id, message_id, subject, content, sender_email, sender_name, is_inbound, created_at', { count: 'exact' })
       .eq('agency_id', agencyId)
+      .eq('user_id', userId)
       .eq('platform', 'gmail')
       .order('created_at', { ascending: false })
       .limit(maxResults);
@@ -167,9 +171,11 @@ async function getEmailsFromSyncedData(
 
     let { data, error, count } = await dbQuery;
 
-    // Fallback: if user_communication is empty (RLS may filter by user_id),
-    // try the communication table which is agency-scoped
+    // Fallback: if user_communication is empty, try the communication table
+    // which is agency-scoped
     if ((!data || data.length === 0) && !error) {
+      const accessibleClientIds = await getAccessibleClientIds(userId, agencyId, supabase);
+
       let commQuery = supabase
         .from('communication')
         .select('id, message_id, subject, content, sender_email, sender_name, is_inbound, received_at', { count: 'exact' })
@@ -178,6 +184,11 @@ async function getEmailsFromSyncedData(
         .order('received_at', { ascending: false })
         .limit(maxResults);
 
+      // Member-scoped: only emails of assigned clients
+      if (accessibleClientIds.length > 0) {
+        commQuery = commQuery.in('client_id', accessibleClientIds);
+      }
+
       if (query) {
         commQuery = commQuery.or(`subject.ilike.%${query}%,content.ilike.%${query}%,sender_email.ilike.%${query}%`);
       }
@@ -7,20 +7,27 @@
  * Part of: 3-System Consolidation
  */
 
-import type { ExecutorContext, FunctionExecutor } from './types';
+import type {
+  ExecutorContext,
+  FunctionExecutor,
+  FunctionPreview,
+  FunctionPreviewer,
+  HgcFunctionDeclaration,
+} from './types';
 import { getClients, getClientDetails } from './get-clients';
 import { getAlerts } from './get-alerts';
 import { getAgencyStats } from './get-agency-stats';
 import { getRecentCommunications } from './get-recent-communications';
 import { navigateTo } from './navigate-to';
 import { getTickets } from './get-tickets';
-import { createTicket } from './create-ticket';
-import { createClient } from './create-client';
+import { createTicket, previewCreateTicket } from './create-ticket';
+import { createClient, previewCreateClient } from './create-client';
 import { getClientEmails } from './get-client-emails';
-import { updateClient } from './update-client';
-import { assignTicket } from './assign-ticket';
+import { updateClient, previewUpdateClient } from './update-client';
+import { assignTicket, previewAssignTicket } from './assign-ticket';
 import { searchKnowledgeBase } from './search-knowledge-base';
 import { validateFunctionArgs } from './schemas';
+import { assertFunctionPermission } from './permissions';
 import {
   getEmails,
   getCalendarEvents,
@@ -30,7 +37,7 @@ import {
 import { initializeMem0Service } from '@/lib/memory/mem0-service';
 
 // Re-export types
-export type { ExecutorContext } from './types';
+export type { ExecutorContext, FunctionPreview, FunctionPermission, HgcFunctionDeclaration } from './types';
 export type {
   ClientSummary,
   ClientDetails,
@@ -40,12 +47,34 @@ export type {
   NavigationAction,
 } from './types';
 
+/**
+ * How to pick between functions, included in the chat system prompt.
+ * Covered by the golden set in lib/chat/eval; re-record it after editing.
+ */
+export const FUNCTION_CALLING_GUIDELINES = `- You have access to synced Gmail emails and Slack messages. When users ask about emails, messages, inbox, or communications, use your tools to retrieve and summarize them immediately. Do NOT say you don't have access — you do.
+- When users mention a client name, always check if they exist in the system first using get_clients or get_client_details. Never say "if they are a client" — look them up.
+- When asked to look something up or summarize emails or messages, call the appropriate function right away. Do not ask for confirmation — just do it.
+- Functions that change data (create_client, update_client, create_ticket, assign_ticket) are never applied directly. Calling one shows the user a preview of the change with Confirm and Cancel buttons. Call them as soon as you have the details, then tell the user to review and confirm the change. Never say a change has been made.
+- If a function returns code PERMISSION_DENIED or CLIENT_ACCESS_DENIED, tell the user they do not have access to that data or action and suggest asking an agency admin. Do not try other functions to get the same data.
+- "emails" and "messages" refer to synced Gmail/Slack data in the system. Always treat email requests as requests for synced data.
+- Use get_emails for general inbox queries (e.g., "show my recent emails", "check my inbox").
+- Use get_client_emails when the user mentions BOTH emails AND a client name (e.g., "emails from Acme", "gmails from Test Client", "summarize emails from [name]"). NEVER use get_clients or get_client_details for email requests — always use get_client_emails.`;
+
 /**
  * Function declarations for Gemini
+ *
+ * `mutating` functions write to the database. Chat never runs them straight
+ * from a model call: it proposes the change (see `previewers`) and runs it
+ * once the user confirms.
+ *
+ * `permission` is the RBAC resource and action the function needs, checked
+ * before it runs (see ./permissions). Neither field is sent to Gemini.
  */
-export const hgcFunctions = [
+export const hgcFunctions: HgcFunctionDeclaration[] = [
   {
     name: 'get_clients',
+    mutating: false,
+    permission: { resource: 'clients', action: 'read' },
     description: 'Get list of clients for the agency. Use when user asks about client health, client stages, or wants to see the client list. Do NOT use this when user asks about emails, gmails, or messages from a client — use get_client_emails instead.',
     parameters: {
       type: 'object',
@@ -73,6 +102,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_client_details',
+    mutating: false,
+    permission: { resource: 'clients', action: 'read' },
     description: 'Get detailed information about a specific client including contacts, integrations, and recent activity.',
     parameters: {
       type: 'object',
@@ -90,6 +121,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_alerts',
+    mutating: false,
+    permission: { resource: 'clients', action: 'read' },
     description: 'Get active alerts for the agency. Use when user asks about risks, warnings, or issues.',
     parameters: {
       type: 'object',
@@ -117,6 +150,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_recent_communications',
+    mutating: false,
+    permission: { resource: 'communications', action: 'read' },
     description: 'Get recent synced communications (Gmail emails, Slack messages) with a client or across all clients. Use when user asks about messages, communications, or recent activity with clients.',
     parameters: {
       type: 'object',
@@ -139,6 +174,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_agency_stats',
+    mutating: false,
+    permission: { resource: 'analytics', action: 'read' },
     description: 'Get high-level agency statistics and KPIs.',
     parameters: {
       type: 'object',
@@ -153,6 +190,8 @@ export const hgcFunctions = [
   },
   {
     name: 'navigate_to',
+    mutating: false,
+    permission: null,
     description: 'Generate a navigation action to a specific page or view. Returns a URL for the frontend to navigate to.',
     parameters: {
       type: 'object',
@@ -176,6 +215,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_tickets',
+    mutating: false,
+    permission: { resource: 'tickets', action: 'read' },
     description: 'Get support tickets. Use when user asks about tickets, tasks, support issues, or open requests.',
     parameters: {
       type: 'object',
@@ -211,6 +252,8 @@ export const hgcFunctions = [
   },
   {
     name: 'create_ticket',
+    mutating: true,
+    permission: { resource: 'tickets', action: 'write' },
     description: 'Create a new support ticket for a client. Use when user wants to file a ticket, create a task, or report an issue for a client.',
     parameters: {
       type: 'object',
@@ -247,6 +290,8 @@ export const hgcFunctions = [
   },
   {
     name: 'create_client',
+    mutating: true,
+    permission: { resource: 'clients', action: 'write' },
     description: 'Create a new client record. Use when user wants to add a new client to the system.',
     parameters: {
       type: 'object',
@@ -278,6 +323,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_client_emails',
+    mutating: false,
+    permission: { resource: 'communications', action: 'read' },
     description: 'Get synced emails for a specific client. ALWAYS use this when the user mentions both emails/gmails/messages AND a client name (e.g., "emails from Acme", "gmails from Test Client", "what has Agro Bros sent me", "summarize emails from [client]"). This is the PREFERRED function for any email query that references a specific client. Looks up client by name and returns their email history.',
     parameters: {
       type: 'object',
@@ -303,6 +350,8 @@ export const hgcFunctions = [
   },
   {
     name: 'update_client',
+    mutating: true,
+    permission: { resource: 'clients', action: 'write' },
     description: 'Update a client record. Use when user wants to change client stage, health status, contact info, or notes.',
     parameters: {
       type: 'object',
@@ -342,6 +391,8 @@ export const hgcFunctions = [
   },
   {
     name: 'assign_ticket',
+    mutating: true,
+    permission: { resource: 'tickets', action: 'write' },
     description: 'Assign a ticket to a team member, or update ticket status/priority. Use when user wants to assign, reassign, or update a ticket.',
     parameters: {
       type: 'object',
@@ -377,6 +428,8 @@ export const hgcFunctions = [
   },
   {
     name: 'search_knowledge_base',
+    mutating: false,
+    permission: { resource: 'knowledge-base', action: 'read' },
     description: 'Search the knowledge base for documents. Use when user asks about documentation, SOPs, guides, or wants to find a specific document.',
     parameters: {
       type: 'object',
@@ -404,6 +457,8 @@ export const hgcFunctions = [
   // Google Workspace functions
   {
     name: 'get_emails',
+    mutating: false,
+    permission: { resource: 'communications', action: 'read' },
     description: 'Get synced emails from the connected Gmail inbox. Use when user asks about emails, messages, inbox, or wants to see recent emails. Emails are already synced — call this immediately without checking connection first.',
     parameters: {
       type: 'object',
@@ -425,6 +480,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_calendar_events',
+    mutating: false,
+    permission: { resource: 'integrations', action: 'read' },
     description: 'Get calendar events. Use when user asks about meetings, schedule, or calendar.',
     parameters: {
       type: 'object',
@@ -446,6 +503,8 @@ export const hgcFunctions = [
   },
   {
     name: 'get_drive_files',
+    mutating: false,
+    permission: { resource: 'integrations', action: 'read' },
     description: 'Search Google Drive files. Use when user asks about documents, files, or wants to find a file.',
     parameters: {
       type: 'object',
@@ -467,6 +526,8 @@ export const hgcFunctions = [
   },
   {
     name: 'check_google_connection',
+    mutating: false,
+    permission: { resource: 'integrations', action: 'read' },
     description: 'Check which Google services are connected (Gmail, Calendar, Drive). Only use this if the user explicitly asks about connection status — do NOT call this before fetching emails.',
     parameters: {
       type: 'object',
@@ -476,6 +537,9 @@ export const hgcFunctions = [
   // Memory store function
   {
     name: 'store_memory',
+    // Only runs on an explicit "remember that..." and writes to memory, not client data
+    mutating: false,
+    permission: { resource: 'ai-features', action: 'write' },
     description: 'Remember information the user asks you to store. Use this when the user says "remember that...", "note that...", "keep in mind...", or shares a preference, decision, or important fact they want remembered.',
     parameters: {
       type: 'object',
@@ -560,9 +624,20 @@ export const executors: Record<string, FunctionExecutor> = {
   },
 };
 
+/**
+ * Previews for mutating functions: what the call would change, without writing
+ */
+export const previewers: Record<string, FunctionPreviewer> = {
+  create_ticket: previewCreateTicket,
+  create_client: previewCreateClient,
+  update_client: previewUpdateClient,
+  assign_ticket: previewAssignTicket,
+};
+
 /**
  * Execute a function by name with context and args
- * Arguments are validated against Zod schemas
+ * Arguments are validated against Zod schemas, then the function's
+ * declared permission is checked
  */
 export async function executeFunction(
   name: string,
@@ -578,6 +653,8 @@ export async function executeFunction(
   // Validate arguments against schema
   const validatedArgs = validateFunctionArgs(name, args);
 
+  await assertFunctionPermission(name, getFunctionPermission(name), context, validatedArgs);
+
   return executor(context, validatedArgs);
 }
 
@@ -587,3 +664,39 @@ export async function executeFunction(
 export function isValidFunction(name: string): boolean {
   return name in executors;
 }
+
+/**
+ * Get the RBAC permission a function declares (null if it reads no agency data)
+ */
+export function getFunctionPermission(name: string): HgcFunctionDeclaration['permission'] {
+  return hgcFunctions.find(fn => fn.name === name)?.permission ?? null;
+}
+
+/**
+ * Check if a function writes data and needs the user's confirmation
+ */
+export function isMutatingFunction(name: string): boolean {
+  return hgcFunctions.some(fn => fn.name === name && fn.mutating);
+}
+
+/**
+ * Preview a mutating function by name with context and args
+ * Arguments are validated and permission-checked as in executeFunction
+ */
+export async function previewFunction(
+  name: string,
+  context: ExecutorContext,
+  args: Record<string, unknown>
+): Promise<FunctionPreview> {
+  const previewer = previewers[name];
+
+  if (!previewer) {
+    throw new Error(`No preview available for function: ${name}`);
+  }
+
+  const validatedArgs = validateFunctionArgs(name, args);
+
+  await assertFunctionPermission(name, getFunctionPermission(name), context, validatedArgs);
+
+  return previewer(context, validatedArgs);
+}
@@ -0,0 +1,75 @@
+/**
+ * Function Permissions
+ *
+ * Enforces the RBAC permission each chat function declares in hgcFunctions,
+ * through the same permission service withPermission uses for API routes.
+ * A call that names a client (`client_id`) is also checked against the
+ * member's client assignments, at write level for mutating actions.
+ *
+ * Denials are thrown as ChatError so the tool loop can hand them to the model
+ * as explicit errors it can explain, and are written to the audit log.
+ */
+
+import { permissionService } from '@/lib/rbac/permission-service';
+import { enforceClientAccess } from '@/lib/rbac/client-access';
+import { auditService } from '@/lib/rbac/audit-service';
+import { ChatError } from '../types';
+import type { ExecutorContext, FunctionPermission } from './types';
+
+export async function assertFunctionPermission(
+  name: string,
+  permission: FunctionPermission | null,
+  context: ExecutorContext,
+  args: Record<string, unknown>
+): Promise<void> {
+  const { agencyId, userId, supabase } = context;
+
+  // Standalone mode has no users to check; executors fall back to mock data there
+  if (!permission || !supabase) {
+    return;
+  }
+
+  const { resource, action } = permission;
+  const permissions = await permissionService.getUserPermissions(userId, agencyId, supabase);
+
+  if (!permissionService.checkPermission(permissions, resource, action)) {
+    auditService.logPermissionCheck({
+      agencyId,
+      userId,
+      resource,
+      action,
+      result: 'denied',
+      reason: `Missing permission: ${resource}:${action}`,
+      metadata: { source: 'chat', function: name },
+    }, supabase);
+
+    throw new ChatError(
+      `Permission denied: ${name} requires ${resource}:${action}, which the user's role does not have.`,
+      'PERMISSION_DENIED'
+    );
+  }
+
+  const clientId = typeof args.client_id === 'string' ? args.client_id : undefined;
+  if (!clientId) {
+    return;
+  }
+
+  const clientAction = action === 'read' ? 'read' : 'write';
+  const hasClientAccess = await enforceClientAccess(userId, agencyId, clientId, clientAction, supabase);
+
+  if (!hasClientAccess) {
+    auditService.logClientAccess({
+      agencyId,
+      userId,
+      clientId,
+      action: clientAction,
+      result: 'denied',
+      metadata: { source: 'chat', function: name },
+    }, supabase);
+
+    throw new ChatError(
+      `Permission denied: the user is not assigned ${clientAction === 'write' ? 'write access to' : 'to'} this client.`,
+      'CLIENT_ACCESS_DENIED'
+    );
+  }
+}
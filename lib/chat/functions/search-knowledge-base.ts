@@ -5,9 +5,11 @@
  * Returns document titles, categories, and snippets matching the query.
  * This is complementary to the RAG route — it gives the AI direct
  * function-calling access to document metadata when in dashboard mode.
+ * Members see agency-wide documents and those of clients assigned to them.
  */
 
 import type { ExecutorContext } from './types';
+import { getAccessibleClientIds } from '@/lib/rbac/client-access';
 
 interface SearchKnowledgeBaseArgs {
   query: string;
@@ -33,7 +35,7 @@ export async function searchKnowledgeBase(
   rawArgs: Record<string, unknown>
 ): Promise<{ documents: DocumentResult[]; message: string }> {
   const args = rawArgs as unknown as SearchKnowledgeBaseArgs;
-  const { agencyId, supabase } = context;
+  const { agencyId, userId, supabase } = context;
   const limit = args.limit ?? 10;
 
   if (!supabase) {
@@ -44,6 +46,8 @@ export async function searchKnowledgeBase(
   }
 
   try {
+    const accessibleClientIds = await getAccessibleClientIds(userId, agencyId, supabase);
+
     let query = supabase
       .from('document')
       .select('id, title, file_name, category, client_id, page_count, index_status, gemini_file_id, created_at')
@@ -62,6 +66,11 @@ export async function searchKnowledgeBase(
       query = query.eq('category', args.category);
     }
 
+    // Member-scoped: hide documents of clients they are not assigned to
+    if (accessibleClientIds.length > 0) {
+      query = query.or(`client_id.is.null,client_id.in.(${accessibleClientIds.join(',')})`);
+    }
+
     // Filter by client
     if (args.client_id) {
       query = query.eq('client_id', args.client_id);
@@ -6,6 +6,8 @@
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PendingActionChange } from '../types';
+import type { PermissionAction, ResourceType } from '@/lib/rbac/types';
 
 /**
  * Context passed to all function executors
@@ -16,6 +18,32 @@ export interface ExecutorContext {
   supabase?: SupabaseClient;
 }
 
+/**
+ * RBAC permission a chat function needs, checked like withPermission on API routes
+ */
+export interface FunctionPermission {
+  resource: ResourceType;
+  action: PermissionAction;
+}
+
+/**
+ * Chat function declaration. `name`, `description` and `parameters` are sent
+ * to Gemini; `mutating` and `permission` are enforced server-side.
+ */
+export interface HgcFunctionDeclaration {
+  name: string;
+  /** Writes data: proposed for the user's confirmation instead of run directly */
+  mutating: boolean;
+  /** null for functions that read no agency data */
+  permission: FunctionPermission | null;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
 /**
  * Generic function executor type
  */
@@ -24,6 +52,26 @@ export type FunctionExecutor = (
   args: Record<string, unknown>
 ) => Promise<unknown>;
 
+/**
+ * What a mutating function would do, computed without writing anything.
+ * `args` pins names to the resolved IDs so the confirmed write applies to
+ * the record the user saw.
+ */
+export interface FunctionPreview {
+  summary: string;
+  target?: { type: 'client' | 'ticket'; id: string; name: string };
+  changes: PendingActionChange[];
+  args: Record<string, unknown>;
+}
+
+/**
+ * Preview for a mutating function; throws when the call cannot be applied
+ */
+export type FunctionPreviewer = (
+  context: ExecutorContext,
+  args: Record<string, unknown>
+) => Promise<FunctionPreview>;
+
 /**
  * Client summary
  */
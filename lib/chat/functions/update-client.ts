@@ -4,9 +4,12 @@
  * Modifies client details: stage, health_status, contact info, notes, tags.
  * Accepts client_id or client_name for lookup.
  * RBAC-checked via verifyClientAccess.
+ *
+ * Mutating: chat proposes the change with previewUpdateClient and only runs
+ * updateClient once the user confirms it.
  */
 
-import type { ExecutorContext } from './types';
+import type { ExecutorContext, FunctionPreview } from './types';
 import { verifyClientAccess } from '@/lib/rbac/client-access';
 
 interface UpdateClientArgs {
@@ -20,6 +23,81 @@ interface UpdateClientArgs {
   industry?: string;
 }
 
+const UPDATABLE_FIELDS = {
+  stage: 'Stage',
+  health_status: 'Health status',
+  contact_name: 'Contact name',
+  contact_email: 'Contact email',
+  notes: 'Notes',
+} as const;
+
+/**
+ * Resolve the client and diff the requested fields against its current values.
+ * A partial name must match exactly one client, so a misheard name cannot
+ * silently pick the wrong record.
+ */
+export async function previewUpdateClient(
+  context: ExecutorContext,
+  rawArgs: Record<string, unknown>
+): Promise<FunctionPreview> {
+  const args = rawArgs as unknown as UpdateClientArgs;
+  const { agencyId, userId, supabase } = context;
+
+  if (!supabase) {
+    throw new Error('Cannot update clients without database connection.');
+  }
+
+  let query = supabase
+    .from('client')
+    .select('id, name, stage, health_status, contact_name, contact_email, notes')
+    .eq('agency_id', agencyId)
+    .eq('is_active', true);
+
+  if (args.client_id) {
+    query = query.eq('id', args.client_id);
+  } else if (args.client_name) {
+    query = query.ilike('name', `%${args.client_name}%`);
+  } else {
+    throw new Error('Either client_id or client_name is required');
+  }
+
+  const { data: matches } = await query.limit(5);
+  const exact = matches?.find(c => c.name.toLowerCase() === args.client_name?.toLowerCase());
+  const client = exact ?? (matches?.length === 1 ? matches[0] : null);
+
+  if (!client) {
+    if (matches && matches.length > 1) {
+      throw new Error(`Multiple clients match "${args.client_name}": ${matches.map(c => c.name).join(', ')}. Please be more specific.`);
+    }
+    throw new Error(`Client "${args.client_name ?? args.client_id}" not found`);
+  }
+
+  const hasAccess = await verifyClientAccess(userId, agencyId, client.id, supabase);
+  if (!hasAccess) {
+    throw new Error('You do not have access to this client');
+  }
+
+  const changes = (Object.keys(UPDATABLE_FIELDS) as Array<keyof typeof UPDATABLE_FIELDS>)
+    .filter(field => args[field] !== undefined && args[field] !== client[field])
+    .map(field => ({
+      field,
+      label: UPDATABLE_FIELDS[field],
+      from: client[field] ?? null,
+      to: args[field] ?? null,
+    }));
+
+  if (changes.length === 0) {
+    throw new Error(`No changes to make: ${client.name} already has those values`);
+  }
+
+  return {
+    summary: `Update ${client.name}`,
+    target: { type: 'client', id: client.id, name: client.name },
+    changes,
+    args: { ...args, client_id: client.id, client_name: undefined },
+  };
+}
+
 export async function updateClient(
   context: ExecutorContext,
   rawArgs: Record<string, unknown>
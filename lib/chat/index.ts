@@ -10,3 +10,6 @@
 export * from './types';
 export * from './router';
 export * from './functions';
+export * from './sse';
+export * from './tool-loop';
+export * from './pending-actions';
@@ -0,0 +1,156 @@
+/**
+ * Pending Actions - confirmation gate for mutating chat functions
+ *
+ * The tool loop never runs a mutating function (create_client, update_client,
+ * create_ticket, assign_ticket) from a model call. It stores a proposal with
+ * the resolved target and the diff, the chat shows it as a confirm/cancel
+ * card, and the write runs only when the user confirms through
+ * POST /api/v1/chat/actions/{id}.
+ *
+ * Proposals are bound to the user who asked and expire after
+ * PENDING_ACTION_TTL_MS, so a stale preview cannot be applied later.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { executeFunction, previewFunction, type ExecutorContext } from './functions';
+import { ChatError, type PendingAction } from './types';
+import type { Database, Json } from '@/types/database';
+
+type PendingActionRow = Database['public']['Tables']['chat_pending_action']['Row'];
+
+export const PENDING_ACTION_TTL_MS = 15 * 60 * 1000;
+
+export type PendingActionDecision = 'confirm' | 'cancel';
+
+function toPendingAction(row: PendingActionRow, message?: string): PendingAction {
+  return {
+    id: row.id,
+    functionName: row.function_name,
+    summary: row.summary,
+    target: (row.target as PendingAction['target']) ?? undefined,
+    changes: row.changes as unknown as PendingAction['changes'],
+    // 'confirmed' only lasts while the write runs
+    status: row.status === 'confirmed' ? 'pending' : row.status as PendingAction['status'],
+    expiresAt: row.expires_at,
+    message: message ?? row.error ?? undefined,
+  };
+}
+
+/**
+ * Preview a mutating call and store it for the user to confirm.
+ * Throws when the preview fails (unknown client, no access, nothing to change),
+ * so the model can correct itself.
+ */
+export async function proposePendingAction(
+  context: ExecutorContext,
+  functionName: string,
+  args: Record<string, unknown>
+): Promise<PendingAction> {
+  const { supabase } = context;
+  if (!supabase) {
+    throw new Error('Cannot propose changes without database connection.');
+  }
+
+  const preview = await previewFunction(functionName, context, args);
+
+  const { data, error } = await supabase
+    .from('chat_pending_action')
+    .insert({
+      agency_id: context.agencyId,
+      user_id: context.userId,
+      function_name: functionName,
+      args: preview.args as Json,
+      summary: preview.summary,
+      target: (preview.target ?? null) as Json,
+      changes: preview.changes as unknown as Json,
+      expires_at: new Date(Date.now() + PENDING_ACTION_TTL_MS).toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save proposed change: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return toPendingAction(data as PendingActionRow);
+}
+
+/**
+ * Confirm or cancel a pending action. Confirming runs the function with the
+ * arguments stored at preview time; the row is claimed first so a double
+ * click cannot apply the change twice.
+ *
+ * Throws ChatError with code NOT_FOUND, ALREADY_RESOLVED or EXPIRED.
+ */
+export async function resolvePendingAction(
+  supabase: SupabaseClient,
+  params: { id: string; agencyId: string; userId: string; decision: PendingActionDecision }
+): Promise<PendingAction> {
+  const { id, agencyId, userId, decision } = params;
+
+  const { data: row } = await supabase
+    .from('chat_pending_action')
+    .select('*')
+    .eq('id', id)
+    .eq('agency_id', agencyId)
+    .eq('user_id', userId)
+    .single();
+
+  if (!row) {
+    throw new ChatError('Action not found', 'NOT_FOUND');
+  }
+  if (row.status !== 'pending') {
+    throw new ChatError(`This action was already ${row.status}`, 'ALREADY_RESOLVED');
+  }
+  if (decision === 'confirm' && new Date(row.expires_at).getTime() <= Date.now()) {
+    throw new ChatError('This action has expired. Ask again to get a fresh preview.', 'EXPIRED');
+  }
+
+  const { data: claimed } = await supabase
+    .from('chat_pending_action')
+    .update({
+      status: decision === 'confirm' ? 'confirmed' : 'cancelled',
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (!claimed) {
+    throw new ChatError('This action was already resolved', 'ALREADY_RESOLVED');
+  }
+  if (decision === 'cancel') {
+    return toPendingAction(claimed as PendingActionRow, 'Cancelled');
+  }
+
+  let result: unknown;
+  let failure: string | null = null;
+  try {
+    result = await executeFunction(row.function_name, { agencyId, userId, supabase }, row.args as Record<string, unknown>);
+    // Some executors report failures as { error } instead of throwing
+    const reported = (result as { error?: unknown } | null)?.error;
+    if (typeof reported === 'string') {
+      failure = reported;
+    }
+  } catch (error) {
+    failure = error instanceof Error ? error.message : 'Failed to apply change';
+  }
+
+  const { data: finished } = await supabase
+    .from('chat_pending_action')
+    .update({
+      status: failure ? 'failed' : 'executed',
+      result: failure ? null : (result as Json),
+      error: failure,
+    })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  const message = failure ?? ((result as { message?: unknown } | null)?.message as string | undefined) ?? 'Done';
+  return toPendingAction(
+    (finished ?? { ...claimed, status: failure ? 'failed' : 'executed' }) as PendingActionRow,
+    message
+  );
+}
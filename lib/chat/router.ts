@@ -1,5 +1,5 @@
 /**
- * SmartRouter - AI-powered intent classification using Gemini Flash
+ * SmartRouter - AI-powered intent classification using the agency's LLM provider
  *
  * Classifies user queries into 5 route types:
  * - rag: Document/knowledge base queries
@@ -9,12 +9,10 @@
  * - dashboard: Navigation commands
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { createLLMProvider, type LLMProvider } from '@/lib/llm';
 import type { RouteType, QueryRoute, RouterContext, SessionContext } from './types';
 
-const ROUTER_MODEL = 'gemini-3-flash-preview';
-
-const CLASSIFICATION_PROMPT = `You are a query intent classifier. Classify the user's query into exactly ONE category.
+export const CLASSIFICATION_PROMPT = `You are a query intent classifier. Classify the user's query into exactly ONE category.
 
 Categories:
 - rag: Questions about documents, policies, SOPs, internal knowledge base
@@ -76,19 +74,16 @@ const ROUTE_LATENCY: Record<RouteType, number> = {
 };
 
 export class SmartRouter {
-  private genai: GoogleGenAI;
   private fallbackRoute: RouteType = 'casual';
   private confidenceThreshold = 0.6;
 
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('SmartRouter requires GOOGLE_AI_API_KEY');
-    }
-    this.genai = new GoogleGenAI({ apiKey });
-  }
+  /**
+   * @param provider - Any LLM provider; the eval harness passes one that replays recorded responses
+   */
+  constructor(private provider: LLMProvider) {}
 
   /**
-   * Classify a query using Gemini Flash
+   * Classify a query using the LLM
    */
   async classifyQuery(
     query: string,
@@ -97,13 +92,10 @@ export class SmartRouter {
     try {
       const prompt = CLASSIFICATION_PROMPT.replace('{query}', query);
 
-      const result = await this.genai.models.generateContent({
-        model: ROUTER_MODEL,
-        contents: prompt, // Simple string format
-        config: {
-          temperature: 0,
-          maxOutputTokens: 512,
-        },
+      const result = await this.provider.generate({
+        messages: prompt, // Simple string format
+        temperature: 0,
+        maxOutputTokens: 512,
       });
 
       // Get full text response
@@ -158,7 +150,7 @@ export class SmartRouter {
   }
 
   /**
-   * Parse the JSON response from Gemini
+   * Parse the JSON response from the model
    * Falls back to heuristics if parsing fails
    */
   private parseClassificationResponse(text: string, query?: string): QueryRoute {
@@ -333,15 +325,16 @@ export class SmartRouter {
 let routerInstance: SmartRouter | null = null;
 
 /**
- * Get or create SmartRouter instance
+ * Get a SmartRouter. With a provider (e.g. the agency's), routes through it;
+ * otherwise returns the shared instance on the default provider.
+ * Throws LLMError when the default provider has no API key.
  */
-export function getSmartRouter(): SmartRouter {
+export function getSmartRouter(provider?: LLMProvider): SmartRouter {
+  if (provider) {
+    return new SmartRouter(provider);
+  }
   if (!routerInstance) {
-    const apiKey = process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_AI_API_KEY environment variable is required');
-    }
-    routerInstance = new SmartRouter(apiKey);
+    routerInstance = new SmartRouter(createLLMProvider());
   }
   return routerInstance;
 }
@@ -0,0 +1,77 @@
+/**
+ * Chat SSE Protocol
+ *
+ * Encoding and incremental parsing for the `ChatStreamEvent` frames sent by
+ * POST /api/v1/chat when `stream: true`. Each frame is a single
+ * `data: <json>\n\n` line. Shared by the route and the chat UI.
+ */
+
+import type { ChatStreamEvent } from './types';
+
+export type ChatStreamEmitter = (event: ChatStreamEvent) => void;
+
+export const CHAT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  // Disable proxy buffering (nginx) so deltas reach the browser immediately
+  'X-Accel-Buffering': 'no',
+} as const;
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Writable side of a chat SSE response. `emit` never throws or blocks: once
+ * the client disconnects, further events are dropped so the caller can finish
+ * its work (and persist the turn) regardless.
+ */
+export function createChatEventStream(): {
+  readable: ReadableStream<Uint8Array>;
+  emit: ChatStreamEmitter;
+  close: () => void;
+} {
+  const encoder = new TextEncoder();
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+
+  return {
+    readable,
+    emit: (event) => {
+      writer.write(encoder.encode(encodeChatStreamEvent(event))).catch(() => {});
+    },
+    close: () => {
+      writer.close().catch(() => {});
+    },
+  };
+}
+
+/**
+ * Create a parser for a chat SSE stream. Call it with each decoded chunk of
+ * text; it returns the events completed by that chunk and keeps any partial
+ * frame for the next call. Malformed frames are skipped.
+ */
+export function createChatStreamParser(): (text: string) => ChatStreamEvent[] {
+  let buffer = '';
+
+  return (text: string) => {
+    buffer += text;
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+
+    const events: ChatStreamEvent[] = [];
+    for (const frame of frames) {
+      if (!frame.startsWith('data: ')) continue;
+      try {
+        const parsed = JSON.parse(frame.slice(6));
+        if (parsed && typeof parsed.type === 'string') {
+          events.push(parsed as ChatStreamEvent);
+        }
+      } catch {
+        // Skip malformed frame
+      }
+    }
+    return events;
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Tool Loop - multi-step function calling for the dashboard route
+ *
+ * Lets the model chain function calls ("find Acme's open tickets and assign the
+ * critical one to Sam"): each model turn may request one or more calls, which
+ * run in parallel and are fed back as function-response parts until the
+ * model answers in text.
+ *
+ * Bounded three ways per chat turn: model calls (`maxSteps`), function calls
+ * (`maxFunctionCalls`) and tokens (`maxTotalTokens`). When a limit is hit the
+ * model gets one last call with function calling disabled and is asked to
+ * answer from what it has, so the total stays within one call of the limits.
+ *
+ * Mutating functions are not run: each call becomes a pending action the user
+ * confirms in the chat (lib/chat/pending-actions.ts), and the model is told
+ * the change is waiting for confirmation.
+ */
+
+import {
+  collectLLMStream,
+  type LLMFunctionCall,
+  type LLMFunctionDeclaration,
+  type LLMMessage,
+  type LLMPart,
+  type LLMProvider,
+} from '@/lib/llm';
+import { executeFunction, hgcFunctions, isMutatingFunction, type ExecutorContext } from './functions';
+import { proposePendingAction } from './pending-actions';
+import type { ChatStreamEmitter } from './sse';
+import { ChatError, type PendingAction } from './types';
+
+export interface ToolLoopLimits {
+  /** Model calls per turn, including the final answer */
+  maxSteps: number;
+  /** Function calls per turn, across all steps */
+  maxFunctionCalls: number;
+  /** Prompt + output tokens per turn, as reported by the provider */
+  maxTotalTokens: number;
+}
+
+export const DEFAULT_TOOL_LOOP_LIMITS: ToolLoopLimits = {
+  maxSteps: 5,
+  maxFunctionCalls: 10,
+  maxTotalTokens: 120_000,
+};
+
+export type ToolLoopStopReason = 'completed' | 'step_limit' | 'call_limit' | 'token_budget';
+
+export interface ToolLoopOptions {
+  /** Starts a streaming request, e.g. `provider.stream` (lib/llm) */
+  stream: LLMProvider['stream'];
+  /** System context and the user's message */
+  prompt: string;
+  temperature: number;
+  context: ExecutorContext;
+  /** Every executed call is appended here; failures record `{ error }` as the result */
+  functionCallsLog: Array<{ name: string; result: unknown }>;
+  /** Mutating calls proposed this turn, waiting for the user to confirm */
+  pendingActions: PendingAction[];
+  emit: ChatStreamEmitter;
+  limits?: Partial<ToolLoopLimits>;
+}
+
+export interface ToolLoopResult {
+  /** The model's final answer; empty if it produced none */
+  text: string;
+  steps: number;
+  totalTokens: number;
+  stopReason: ToolLoopStopReason;
+}
+
+const WRAP_UP_INSTRUCTION =
+  'You have used all available function calls for this request. Do not call any more functions. ' +
+  'Answer the user with the information gathered so far, and say what you could not complete.';
+
+// Function declarations for the model, also sent by the eval harness (lib/chat/eval)
+export const functionDeclarations: LLMFunctionDeclaration[] = hgcFunctions.map(fn => ({
+  name: fn.name,
+  description: fn.description,
+  parameters: fn.parameters,
+}));
+
+export async function runToolLoop(options: ToolLoopOptions): Promise<ToolLoopResult> {
+  const limits = { ...DEFAULT_TOOL_LOOP_LIMITS, ...options.limits };
+  const { context, emit } = options;
+
+  const messages: LLMMessage[] = [{ role: 'user', parts: [{ text: options.prompt }] }];
+  let totalTokens = 0;
+  let callsMade = 0;
+
+  for (let step = 1; ; step++) {
+    const stopReason: ToolLoopStopReason | null =
+      step >= limits.maxSteps ? 'step_limit'
+        : callsMade >= limits.maxFunctionCalls ? 'call_limit'
+          : totalTokens >= limits.maxTotalTokens ? 'token_budget'
+            : null;
+
+    // Only reached after at least one round of calls, so the last message holds the function responses
+    if (stopReason && step > 1) {
+      messages[messages.length - 1].parts.push({ text: WRAP_UP_INSTRUCTION });
+    }
+
+    const stream = await options.stream({
+      messages: [...messages],
+      temperature: options.temperature,
+      functions: functionDeclarations,
+      functionCalling: stopReason ? 'none' : 'auto',
+    });
+    const turn = await collectLLMStream(stream, delta => emit({ type: 'text_delta', delta }));
+    totalTokens += turn.usage?.totalTokens ?? 0;
+
+    if (stopReason || turn.functionCalls.length === 0) {
+      return { text: turn.text, steps: step, totalTokens, stopReason: stopReason ?? 'completed' };
+    }
+
+    // Replay the model turn as-is: Gemini 3 requires its thought signatures back
+    messages.push({ role: 'model', parts: turn.parts });
+
+    // Calls beyond the remaining allowance are answered with an error instead of run
+    const allowance = limits.maxFunctionCalls - callsMade;
+    const firstCallNumber = callsMade + 1;
+    callsMade += Math.min(turn.functionCalls.length, allowance);
+
+    const responses = await Promise.all(
+      turn.functionCalls.map((call, index) =>
+        index < allowance
+          ? executeCall(call, call.id || `call-${firstCallNumber + index}`, context, options, emit)
+          : functionResponsePart(call, { error: 'Function call limit reached for this request' })
+      )
+    );
+    messages.push({ role: 'user', parts: responses });
+  }
+}
+
+async function executeCall(
+  call: LLMFunctionCall,
+  id: string,
+  context: ExecutorContext,
+  { functionCallsLog, pendingActions }: Pick<ToolLoopOptions, 'functionCallsLog' | 'pendingActions'>,
+  emit: ChatStreamEmitter
+): Promise<LLMPart> {
+  const { name, args } = call;
+
+  emit({ type: 'function_call_start', id, name, args });
+
+  try {
+    if (isMutatingFunction(name)) {
+      const action = await proposePendingAction(context, name, args);
+      const result = {
+        status: 'awaiting_confirmation',
+        message: `${action.summary}: waiting for confirmation. Nothing has changed yet.`,
+        changes: action.changes,
+      };
+      pendingActions.push(action);
+      functionCallsLog.push({ name, result });
+      emit({ type: 'function_call_end', id, name, success: true });
+      emit({ type: 'pending_action', action });
+      return functionResponsePart(call, { output: result });
+    }
+
+    const result = await executeFunction(name, context, args);
+    functionCallsLog.push({ name, result });
+    emit({ type: 'function_call_end', id, name, success: true });
+    return functionResponsePart(call, { output: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Function failed';
+    console.error(`[Tool Loop] ${name} failed:`, message);
+    functionCallsLog.push({ name, result: { error: message } });
+    emit({ type: 'function_call_end', id, name, success: false, error: message });
+    // The model sees the error and can retry with different arguments or explain;
+    // permission denials carry their code so it explains them instead of retrying
+    return functionResponsePart(
+      call,
+      error instanceof ChatError ? { error: message, code: error.code } : { error: message }
+    );
+  }
+}
+
+function functionResponsePart(call: LLMFunctionCall, response: Record<string, unknown>): LLMPart {
+  return {
+    functionResponse: {
+      id: call.id,
+      name: call.name,
+      response,
+    },
+  };
+}
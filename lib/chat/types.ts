@@ -49,11 +49,39 @@ export interface RouterContext {
  */
 export interface SuggestedMemory {
   content: string;
-  type: 'decision' | 'preference' | 'task' | 'insight';
+  type: 'decision' | 'preference' | 'task' | 'project' | 'insight';
   importance: 'high' | 'medium' | 'low';
   topic?: string;
 }
 
+/**
+ * One field a pending action will change; `from` is null for new records
+ */
+export interface PendingActionChange {
+  field: string;
+  label: string;
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * Change proposed by a mutating chat function (create_client, update_client,
+ * create_ticket, assign_ticket). Nothing is written until the user confirms
+ * it through POST /api/v1/chat/actions/{id}.
+ */
+export interface PendingAction {
+  id: string;
+  functionName: string;
+  summary: string;
+  /** The record being changed, resolved from the name the model passed */
+  target?: { type: 'client' | 'ticket'; id: string; name: string };
+  changes: PendingActionChange[];
+  status: 'pending' | 'executed' | 'failed' | 'cancelled';
+  expiresAt: string;
+  /** Outcome shown once the action is resolved */
+  message?: string;
+}
+
 /**
  * Chat message
  */
@@ -66,6 +94,7 @@ export interface ChatMessage {
   citations?: Citation[];
   suggestions?: string[];
   suggestedMemory?: SuggestedMemory;
+  pendingActions?: PendingAction[];
   metadata?: MessageMetadata;
   documentContext?: DocumentContext;
 }
@@ -125,6 +154,20 @@ export interface SessionContext {
   recentAlerts?: string[];
 }
 
+/**
+ * What the user has open when they send a message, published by the views.
+ * `route` is the command center path (e.g. '/tickets'); the IDs are the
+ * selected entities and `filters` the active list filters.
+ */
+export interface ChatViewContext {
+  route: string;
+  clientId?: string;
+  ticketId?: string;
+  documentId?: string;
+  workflowId?: string;
+  filters?: Record<string, string>;
+}
+
 /**
  * Document context for "Send to AI" feature.
  * Attached to messages when user sends a document to chat.
@@ -196,6 +239,44 @@ export interface StreamOptions {
   signal?: AbortSignal;
 }
 
+/**
+ * Assistant message returned by POST /api/v1/chat, either as the JSON body or
+ * in the final `metadata` frame of the SSE stream
+ */
+export interface ChatResponseMessage {
+  id: string;
+  role: 'assistant';
+  content: string;
+  timestamp: string;
+  route: RouteType;
+  routeConfidence: number;
+  functionCalls?: Array<{ name: string; result: unknown }>;
+  citations: Citation[];
+  suggestedMemory?: SuggestedMemory;
+  pendingActions?: PendingAction[];
+  /** Set once the agency or user has used most of a monthly AI budget */
+  budgetWarning?: string;
+}
+
+/**
+ * Server-sent event from POST /api/v1/chat with `stream: true`.
+ *
+ * Order: `route` once the query is classified, then any mix of `text_delta`,
+ * `function_call_start`/`function_call_end`, `pending_action` and `citation`
+ * as they happen, then either a final `metadata` frame or `error`. The
+ * `metadata` message content is authoritative: it can differ from the
+ * concatenated deltas once inline citation markers are inserted.
+ */
+export type ChatStreamEvent =
+  | { type: 'route'; route: RouteType; routeConfidence: number; sessionId: string }
+  | { type: 'text_delta'; delta: string }
+  | { type: 'function_call_start'; id: string; name: string; args: Record<string, unknown> }
+  | { type: 'function_call_end'; id: string; name: string; success: boolean; error?: string }
+  | { type: 'pending_action'; action: PendingAction }
+  | { type: 'citation'; citation: Citation }
+  | { type: 'metadata'; message: ChatResponseMessage; sessionId: string; latencyMs: number }
+  | { type: 'error'; error: string };
+
 /**
  * Chat error with actionable guidance
  */
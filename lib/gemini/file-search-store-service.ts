@@ -14,6 +14,8 @@
  */
 
 import { GoogleGenAI } from '@google/genai'
+import { geminiUsage } from '@/lib/llm/providers/gemini'
+import type { LLMUsage } from '@/lib/llm/types'
 import type { RAGResult, RAGCitation } from '../rag/types'
 
 // CRITICAL: Gemini 3 ONLY per project requirements
@@ -23,6 +25,9 @@ const GEMINI_MODEL = 'gemini-3-flash-preview'
 const CIRCUIT_BREAKER_THRESHOLD = 3
 const CIRCUIT_BREAKER_RESET_MS = 60000 // 1 minute
 
+/** Gemini's inline request limit; larger files are not sent for text extraction */
+const MAX_INLINE_BYTES = 20 * 1024 * 1024
+
 /** Max time to wait for upload processing (ms) */
 const UPLOAD_POLL_TIMEOUT_MS = 120000 // 2 minutes
 const UPLOAD_POLL_INTERVAL_MS = 3000
@@ -55,9 +60,12 @@ export interface UploadDocumentResult {
 export interface SearchOptions {
   agencyId: string
   clientId?: string
+  category?: string
   useForTrainingOnly?: boolean
   topK?: number
   temperature?: number
+  /** Called with each chunk of the answer as Gemini streams it */
+  onText?: (delta: string) => void
 }
 
 export interface SearchResultCitation {
@@ -285,6 +293,30 @@ export class FileSearchStoreService {
     }
   }
 
+  /**
+   * Upload a new revision of a document, then delete the previous store
+   * document so its chunks stop matching searches. The previous document is
+   * kept when the upload fails, so search never loses the content entirely.
+   */
+  async replaceDocument(
+    storeName: string,
+    previousDocumentName: string | null,
+    fileBlob: Blob,
+    metadata: Parameters<FileSearchStoreService['uploadDocument']>[2]
+  ): Promise<UploadDocumentResult> {
+    const result = await this.uploadDocument(storeName, fileBlob, metadata)
+    if (result.status === 'failed' || !previousDocumentName || previousDocumentName === result.documentName) {
+      return result
+    }
+
+    try {
+      await this.deleteDocument(previousDocumentName)
+    } catch {
+      // Logged by deleteDocument; stale chunks are preferable to failing the upload
+    }
+    return result
+  }
+
   // ─── Semantic Search ────────────────────────────────────────────────
 
   /**
@@ -314,21 +346,9 @@ export class FileSearchStoreService {
     }
 
     try {
-      // Build metadata filter for agency scoping and training status
-      const filterParts: string[] = []
-      filterParts.push(`agency_id="${options.agencyId}"`)
-
-      if (options.useForTrainingOnly) {
-        filterParts.push('use_for_training="true"')
-      }
-      if (options.clientId) {
-        // Include both client-specific docs AND global docs
-        filterParts.push(`(scope="global" OR client_id="${options.clientId}")`)
-      }
-
-      const metadataFilter = filterParts.join(' AND ')
+      const metadataFilter = this.buildMetadataFilter(options)
 
-      const response = await this.genai.models.generateContent({
+      const stream = await this.genai.models.generateContentStream({
         model: GEMINI_MODEL,
         contents: `Based on the documents in the knowledge base, answer this question: ${query}
 
@@ -349,8 +369,21 @@ When citing information, reference the specific document by name.`,
         },
       })
 
-      const responseText = response.text || ''
-      const citations = this.extractCitations(response)
+      // Grounding metadata arrives with the final chunks, so collect it as we go
+      let responseText = ''
+      const groundingChunks: Array<{ retrievedContext?: { uri?: string; title?: string; text?: string } }> = []
+      let usage: LLMUsage | undefined
+      for await (const chunk of stream) {
+        const delta = chunk.text
+        if (delta) {
+          responseText += delta
+          options.onText?.(delta)
+        }
+        groundingChunks.push(...(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []))
+        usage = geminiUsage(chunk.usageMetadata) ?? usage
+      }
+
+      const citations = this.extractCitations({ candidates: [{ groundingMetadata: { groundingChunks } }] })
 
       this.recordSuccess()
 
@@ -360,6 +393,8 @@ When citing information, reference the specific document by name.`,
         documentsUsed: citations.map(c => c.documentId),
         searchTimeMs: Date.now() - startTime,
         isGrounded: citations.length > 0,
+        model: GEMINI_MODEL,
+        usage,
       }
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Search failed'
@@ -376,6 +411,96 @@ When citing information, reference the specific document by name.`,
     }
   }
 
+  /**
+   * Retrieve the passages most relevant to `query` without writing an answer,
+   * for ranking documents. Throws when the store can't be searched.
+   */
+  async retrievePassages(
+    storeName: string,
+    query: string,
+    options: Omit<SearchOptions, 'onText' | 'temperature'>
+  ): Promise<RAGCitation[]> {
+    const circuitError = this.checkCircuitBreaker()
+    if (circuitError) throw new Error(circuitError)
+
+    try {
+      const response = await this.genai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: `Search the knowledge base for passages relevant to: ${query}
+
+Reply with one short sentence; the retrieved passages are what matters.`,
+        config: {
+          temperature: 0,
+          maxOutputTokens: 128,
+          tools: [
+            {
+              fileSearch: {
+                fileSearchStoreNames: [storeName],
+                topK: options.topK ?? 20,
+                metadataFilter: this.buildMetadataFilter(options),
+              },
+            },
+          ],
+        },
+      })
+
+      this.recordSuccess()
+      return this.extractCitations(response)
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Retrieval failed'
+      this.recordFailure(msg)
+      throw new Error(`Passage retrieval failed: ${msg}`)
+    }
+  }
+
+  /**
+   * Metadata filter for agency scoping, training status, client and category
+   */
+  private buildMetadataFilter(options: Pick<SearchOptions, 'agencyId' | 'clientId' | 'category' | 'useForTrainingOnly'>): string {
+    const filterParts: string[] = []
+    filterParts.push(`agency_id="${options.agencyId}"`)
+
+    if (options.useForTrainingOnly) {
+      filterParts.push('use_for_training="true"')
+    }
+    if (options.clientId) {
+      // Include both client-specific docs AND global docs
+      filterParts.push(`(scope="global" OR client_id="${options.clientId}")`)
+    }
+    if (options.category) {
+      filterParts.push(`category="${options.category}"`)
+    }
+
+    return filterParts.join(' AND ')
+  }
+
+  /**
+   * Transcribe the text of a binary document (PDF, Office file, image) for
+   * full-text search. Returns '' for files too large to send inline.
+   */
+  async extractText(data: Buffer, mimeType: string): Promise<string> {
+    if (data.byteLength > MAX_INLINE_BYTES) return ''
+
+    const response = await this.genai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { data: data.toString('base64'), mimeType } },
+            { text: 'Transcribe all of the text in this document as plain text, in reading order. Output only the text.' },
+          ],
+        },
+      ],
+      config: {
+        temperature: 0,
+        maxOutputTokens: 32768,
+      },
+    })
+
+    return response.text ?? ''
+  }
+
   /**
    * Extract citations from Gemini response grounding metadata
    */
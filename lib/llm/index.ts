@@ -0,0 +1,45 @@
+/**
+ * LLM Module
+ *
+ * Provider-neutral access to text generation, streaming, function calling,
+ * embeddings and structured JSON, with per-agency usage metering and budgets.
+ */
+
+export * from './types';
+export { toMessages, parseJSONText, collectLLMStream } from './utils';
+export {
+  LLM_PROVIDERS,
+  isLLMProviderName,
+  resolveLLMConfig,
+  createLLMProvider,
+  loadAgencyAIConfig,
+  getAgencyLLMProvider,
+} from './provider';
+export {
+  AI_USAGE_FEATURE_LABELS,
+  BUDGET_WARNING_RATIO,
+  usageMonthStart,
+  resolveBudgetLimits,
+  recordAIUsage,
+  getAIBudgetStatus,
+  checkAIBudget,
+  meterProvider,
+  getMeteredLLMProvider,
+  getAIUsageReport,
+  type AIUsageFeature,
+  type AIUsageScope,
+  type AIUsageEntry,
+  type AIBudgetLimits,
+  type AIBudget,
+  type AIBudgetState,
+  type AIBudgetStatus,
+  type AIUsageReport,
+} from './usage';
+export { GeminiProvider, GEMINI_DEFAULT_MODEL, GEMINI_EMBEDDING_MODEL, geminiUsage } from './providers/gemini';
+export {
+  OpenAICompatibleProvider,
+  OPENAI_DEFAULT_BASE_URL,
+  OPENAI_DEFAULT_MODEL,
+  OPENAI_EMBEDDING_MODEL,
+} from './providers/openai-compatible';
+export { MockProvider, MOCK_DEFAULT_MODEL, type MockResponder } from './providers/mock';
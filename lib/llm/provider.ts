@@ -0,0 +1,85 @@
+/**
+ * LLM Provider Selection
+ *
+ * Agencies choose a provider and model in `agency.ai_config`
+ * (`{ provider: 'openai', model: 'gpt-4o' }`). Without one, `LLM_PROVIDER`
+ * picks the deployment default, falling back to Gemini. Setting
+ * `LLM_PROVIDER=mock` runs the app with no API keys at all.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GeminiProvider } from './providers/gemini';
+import { MockProvider } from './providers/mock';
+import { OpenAICompatibleProvider } from './providers/openai-compatible';
+import { LLMError, type LLMConfig, type LLMProvider, type LLMProviderName } from './types';
+
+export const LLM_PROVIDERS: readonly LLMProviderName[] = ['gemini', 'openai', 'mock'];
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+function defaultProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER;
+  return isLLMProviderName(configured) ? configured : 'gemini';
+}
+
+/**
+ * Read the provider selection out of an agency's ai_config, ignoring
+ * unknown providers and non-string models
+ */
+export function resolveLLMConfig(aiConfig: unknown): LLMConfig {
+  const config = aiConfig && typeof aiConfig === 'object' ? (aiConfig as Record<string, unknown>) : {};
+  const provider = isLLMProviderName(config.provider) ? config.provider : defaultProviderName();
+  const model = typeof config.model === 'string' && config.model.trim() ? config.model.trim() : undefined;
+  return { provider, model };
+}
+
+/**
+ * Create a provider. Throws LLMError('NOT_CONFIGURED') when its API key is
+ * missing, so callers can fall back the way they did without a Gemini key.
+ */
+export function createLLMProvider(config: Partial<LLMConfig> = {}): LLMProvider {
+  const provider = config.provider ?? defaultProviderName();
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL,
+        model: config.model,
+      });
+    case 'mock':
+      return new MockProvider({ model: config.model });
+    case 'gemini':
+      return new GeminiProvider({ apiKey: process.env.GOOGLE_AI_API_KEY, model: config.model });
+    default:
+      throw new LLMError(`Unknown LLM provider: ${provider}`, 'NOT_CONFIGURED');
+  }
+}
+
+/**
+ * Load an agency's ai_config. A failed lookup returns null, so callers fall
+ * back to the deployment defaults rather than failing the request.
+ */
+export async function loadAgencyAIConfig(supabase: SupabaseClient, agencyId: string): Promise<unknown> {
+  try {
+    const { data } = await supabase
+      .from('agency')
+      .select('ai_config')
+      .eq('id', agencyId)
+      .single();
+    return data?.ai_config ?? null;
+  } catch (error) {
+    console.warn('[LLM] Failed to load agency ai_config:', error);
+    return null;
+  }
+}
+
+/**
+ * Create the provider an agency has selected. Call sites that bill an agency
+ * use getMeteredLLMProvider (./usage), which also records and budgets usage.
+ */
+export async function getAgencyLLMProvider(supabase: SupabaseClient, agencyId: string): Promise<LLMProvider> {
+  return createLLMProvider(resolveLLMConfig(await loadAgencyAIConfig(supabase, agencyId)));
+}
@@ -0,0 +1,275 @@
+/**
+ * Gemini adapter (default provider)
+ *
+ * Wraps @google/genai. Web search maps to the `googleSearch` tool and its
+ * grounding metadata; model parts keep the original Gemini part in `raw` so
+ * thought signatures survive a function-calling round trip.
+ */
+
+import {
+  FunctionCallingConfigMode,
+  GoogleGenAI,
+  Type,
+  type Content,
+  type FunctionDeclaration,
+  type GenerateContentConfig,
+  type GenerateContentParameters,
+  type GenerateContentResponse,
+  type GroundingMetadata,
+  type Part,
+  type Schema,
+} from '@google/genai';
+import {
+  LLMError,
+  type LLMFunctionDeclaration,
+  type LLMGrounding,
+  type LLMPart,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMStreamEvent,
+  type LLMUsage,
+} from '../types';
+import { parseJSONText, toMessages } from '../utils';
+
+// Gemini 3 per project requirements
+export const GEMINI_DEFAULT_MODEL = 'gemini-3-flash-preview';
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+
+// Looked up per call, so loading this module never reads the SDK enum
+function toGeminiType(type: string): Type | undefined {
+  switch (type) {
+    case 'string': return Type.STRING;
+    case 'number': return Type.NUMBER;
+    case 'integer': return Type.INTEGER;
+    case 'boolean': return Type.BOOLEAN;
+    case 'array': return Type.ARRAY;
+    case 'object': return Type.OBJECT;
+    case 'null': return Type.NULL;
+    default: return undefined;
+  }
+}
+
+// Gemini's Schema takes these as int64 strings
+const SCHEMA_COUNT_KEYS = ['minItems', 'maxItems', 'minLength', 'maxLength', 'minProperties', 'maxProperties'] as const;
+
+/**
+ * Convert a JSON Schema to Gemini's OpenAPI-style Schema. Keywords Gemini has
+ * no field for (additionalProperties, $ref, ...) are dropped; `type: [T, 'null']`
+ * becomes a nullable T.
+ */
+export function toGeminiSchema(jsonSchema: object): Schema {
+  const source = jsonSchema as Record<string, unknown>;
+  const schema: Schema = {};
+
+  const types = (Array.isArray(source.type) ? source.type : [source.type]).filter(
+    (type): type is string => typeof type === 'string'
+  );
+  const nonNull = types.filter(type => type !== 'null');
+  const type = nonNull.length === 1 ? toGeminiType(nonNull[0]) : undefined;
+  if (type) schema.type = type;
+  else if (types.length === 1 && types[0] === 'null') schema.type = Type.NULL;
+  if ((types.includes('null') && nonNull.length > 0) || source.nullable === true) schema.nullable = true;
+
+  if (typeof source.title === 'string') schema.title = source.title;
+  if (typeof source.description === 'string') schema.description = source.description;
+  if (typeof source.format === 'string') schema.format = source.format;
+  if (typeof source.pattern === 'string') schema.pattern = source.pattern;
+  if (typeof source.minimum === 'number') schema.minimum = source.minimum;
+  if (typeof source.maximum === 'number') schema.maximum = source.maximum;
+  for (const key of SCHEMA_COUNT_KEYS) {
+    if (typeof source[key] === 'number') schema[key] = String(source[key]);
+  }
+  if ('default' in source) schema.default = source.default;
+  if (Array.isArray(source.enum)) schema.enum = source.enum.map(String);
+  if (Array.isArray(source.required)) {
+    schema.required = source.required.filter((name): name is string => typeof name === 'string');
+  }
+
+  if (source.items && typeof source.items === 'object' && !Array.isArray(source.items)) {
+    schema.items = toGeminiSchema(source.items);
+  }
+  if (source.properties && typeof source.properties === 'object') {
+    schema.properties = Object.fromEntries(
+      Object.entries(source.properties as Record<string, object>).map(([name, property]) => [
+        name,
+        toGeminiSchema(property),
+      ])
+    );
+  }
+  if (Array.isArray(source.anyOf)) schema.anyOf = source.anyOf.map(toGeminiSchema);
+
+  return schema;
+}
+
+function toGeminiFunctionDeclaration(fn: LLMFunctionDeclaration): FunctionDeclaration {
+  return {
+    name: fn.name,
+    description: fn.description,
+    ...(fn.parameters && { parameters: toGeminiSchema(fn.parameters) }),
+  };
+}
+
+function toGeminiPart(part: LLMPart): Part {
+  if (part.raw) {
+    return part.raw as Part;
+  }
+  if ('functionCall' in part) {
+    return { functionCall: part.functionCall };
+  }
+  if ('functionResponse' in part) {
+    return { functionResponse: part.functionResponse };
+  }
+  return { text: part.text, ...(part.thought && { thought: true }) };
+}
+
+function fromGeminiPart(part: Part): LLMPart {
+  if (part.functionCall) {
+    const { id, name, args } = part.functionCall;
+    return { functionCall: { id, name: name || 'unknown', args: args || {} }, raw: part };
+  }
+  // Thought-signature-only and other non-text parts are kept (as empty text) for replay
+  return { text: part.text || '', thought: part.thought, raw: part };
+}
+
+function toGrounding(metadata: GroundingMetadata | undefined): LLMGrounding | undefined {
+  if (!metadata?.groundingChunks) {
+    return undefined;
+  }
+  return {
+    sources: metadata.groundingChunks.map(chunk => ({ title: chunk.web?.title, url: chunk.web?.uri })),
+    supports: (metadata.groundingSupports || []).map(support => ({
+      startIndex: support.segment?.startIndex,
+      endIndex: support.segment?.endIndex,
+      sourceIndices: support.groundingChunkIndices || [],
+    })),
+  };
+}
+
+/**
+ * Map Gemini usage metadata to LLMUsage. Shared with the call sites that use
+ * Gemini directly (document search, cartridge analysis) so they can be metered.
+ */
+export function geminiUsage(
+  usage: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } | undefined
+): LLMUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.promptTokenCount ?? 0,
+    outputTokens: usage.candidatesTokenCount ?? 0,
+    totalTokens: usage.totalTokenCount ?? 0,
+  };
+}
+
+function toUsage(chunk: GenerateContentResponse): LLMUsage | undefined {
+  return geminiUsage(chunk.usageMetadata);
+}
+
+/**
+ * Accumulates response chunks (one for generate, many for stream)
+ */
+class ResponseBuilder {
+  response: LLMResponse = { text: '', functionCalls: [], parts: [] };
+
+  /** Returns the answer text the chunk added */
+  add(chunk: GenerateContentResponse): string {
+    const candidate = chunk.candidates?.[0];
+    let delta = '';
+    for (const geminiPart of candidate?.content?.parts || []) {
+      const part = fromGeminiPart(geminiPart);
+      this.response.parts.push(part);
+      if ('functionCall' in part) {
+        this.response.functionCalls.push(part.functionCall);
+      } else if ('text' in part && !part.thought) {
+        delta += part.text;
+      }
+    }
+    this.response.text += delta;
+    this.response.grounding = toGrounding(candidate?.groundingMetadata) ?? this.response.grounding;
+    this.response.usage = toUsage(chunk) ?? this.response.usage;
+    return delta;
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  private genai: GoogleGenAI;
+
+  constructor(options: { apiKey?: string; model?: string }) {
+    if (!options.apiKey) {
+      throw new LLMError('GOOGLE_AI_API_KEY is not configured', 'NOT_CONFIGURED', 'gemini');
+    }
+    this.genai = new GoogleGenAI({ apiKey: options.apiKey });
+    this.model = options.model || GEMINI_DEFAULT_MODEL;
+  }
+
+  private toParams(request: LLMRequest): GenerateContentParameters {
+    const config: GenerateContentConfig = {};
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.maxOutputTokens !== undefined) config.maxOutputTokens = request.maxOutputTokens;
+    if (request.system) config.systemInstruction = request.system;
+
+    const tools: NonNullable<GenerateContentConfig['tools']> = [];
+    if (request.functions?.length) {
+      tools.push({ functionDeclarations: request.functions.map(toGeminiFunctionDeclaration) });
+      config.toolConfig = {
+        functionCallingConfig: {
+          mode: request.functionCalling === 'none' ? FunctionCallingConfigMode.NONE : FunctionCallingConfigMode.AUTO,
+        },
+      };
+    }
+    if (request.webSearch) {
+      tools.push({ googleSearch: {} });
+    }
+    if (tools.length) config.tools = tools;
+
+    if (request.responseFormat?.type === 'json') {
+      config.responseMimeType = 'application/json';
+      if (request.responseFormat.schema) config.responseJsonSchema = request.responseFormat.schema;
+    }
+
+    const contents: string | Content[] = typeof request.messages === 'string'
+      ? request.messages
+      : toMessages(request.messages).map(message => ({ role: message.role, parts: message.parts.map(toGeminiPart) }));
+
+    return { model: request.model || this.model, contents, config };
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const builder = new ResponseBuilder();
+    builder.add(await this.genai.models.generateContent(this.toParams(request)));
+    return builder.response;
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncGenerator<LLMStreamEvent>> {
+    const stream = await this.genai.models.generateContentStream(this.toParams(request));
+
+    return (async function* () {
+      const builder = new ResponseBuilder();
+      for await (const chunk of stream) {
+        const delta = builder.add(chunk);
+        if (delta) {
+          yield { type: 'text', delta } as const;
+        }
+      }
+      yield { type: 'done', response: builder.response } as const;
+    })();
+  }
+
+  async embed(texts: string[], options?: { model?: string }): Promise<number[][]> {
+    const result = await this.genai.models.embedContent({
+      model: options?.model || GEMINI_EMBEDDING_MODEL,
+      contents: texts,
+    });
+    return (result.embeddings || []).map(embedding => embedding.values || []);
+  }
+
+  async generateJSON<T = unknown>(request: Omit<LLMRequest, 'responseFormat'> & { schema?: object }): Promise<T> {
+    const { schema, ...rest } = request;
+    const response = await this.generate({ ...rest, responseFormat: { type: 'json', schema } });
+    return parseJSONText<T>(response.text, this.name);
+  }
+}
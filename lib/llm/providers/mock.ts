@@ -0,0 +1,110 @@
+/**
+ * Deterministic mock provider
+ *
+ * Needs no API key or network: the same request always gets the same answer.
+ * Used for local development (`LLM_PROVIDER=mock`) and tests. Pass `respond`
+ * to script answers; without it the provider echoes the last user message.
+ */
+
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+} from '../types';
+import { parseJSONText, toMessages } from '../utils';
+
+export const MOCK_DEFAULT_MODEL = 'mock-1';
+export const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+export type MockResponder = (request: LLMRequest) => Partial<LLMResponse> | string;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function lastUserText(request: LLMRequest): string {
+  const messages = toMessages(request.messages);
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== 'user') continue;
+    const text = messages[i].parts.map(part => ('text' in part ? part.text : '')).join('');
+    if (text) return text;
+  }
+  return '';
+}
+
+/** FNV-1a, so embeddings are stable across runs and platforms */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+  private respond?: MockResponder;
+
+  constructor(options: { model?: string; respond?: MockResponder } = {}) {
+    this.model = options.model || MOCK_DEFAULT_MODEL;
+    this.respond = options.respond;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const scripted = this.respond?.(request);
+    const answer: Partial<LLMResponse> = typeof scripted === 'string'
+      ? { text: scripted }
+      : scripted ?? {
+          text: request.responseFormat?.type === 'json' ? '{}' : `[mock] ${lastUserText(request)}`.trim(),
+        };
+
+    const text = answer.text ?? '';
+    const functionCalls = answer.functionCalls ?? [];
+    const inputTokens = estimateTokens(JSON.stringify(request.messages) + (request.system || ''));
+    const outputTokens = estimateTokens(text);
+
+    return {
+      text,
+      functionCalls,
+      parts: answer.parts ?? [...(text ? [{ text }] : []), ...functionCalls.map(functionCall => ({ functionCall }))],
+      usage: answer.usage ?? { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      grounding: answer.grounding,
+    };
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncGenerator<LLMStreamEvent>> {
+    const response = await this.generate(request);
+
+    return (async function* () {
+      // Word-sized deltas exercise the same incremental path as a real stream
+      for (const delta of response.text.match(/\S+\s*|\s+/g) || []) {
+        yield { type: 'text', delta } as const;
+      }
+      yield { type: 'done', response } as const;
+    })();
+  }
+
+  /**
+   * Hashed bag-of-words vectors: texts sharing words get similar vectors, so
+   * similarity search behaves plausibly without a model
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        vector[hash(word) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map(v => v / norm);
+    });
+  }
+
+  async generateJSON<T = unknown>(request: Omit<LLMRequest, 'responseFormat'> & { schema?: object }): Promise<T> {
+    const { schema, ...rest } = request;
+    const response = await this.generate({ ...rest, responseFormat: { type: 'json', schema } });
+    return parseJSONText<T>(response.text, this.name);
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * OpenAI-compatible adapter
+ *
+ * Talks to any `/chat/completions` + `/embeddings` endpoint (OpenAI, Azure
+ * OpenAI, OpenRouter, vLLM, Ollama...) over fetch. `OPENAI_BASE_URL` picks
+ * the endpoint. Web search is not part of this API, so `webSearch` is
+ * ignored and answers come back without grounding.
+ */
+
+import {
+  LLMError,
+  type LLMFunctionCall,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMStreamEvent,
+  type LLMUsage,
+} from '../types';
+import { parseJSONText, toMessages } from '../utils';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+function toUsage(usage: OpenAIUsage | undefined): LLMUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? 0,
+  };
+}
+
+function parseArguments(args: string | undefined): Record<string, unknown> {
+  if (!args) {
+    return {};
+  }
+  try {
+    return JSON.parse(args) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert neutral messages to chat-completion messages. Tool calls without
+ * an ID get a positional one so the following tool results still pair up.
+ */
+function toOpenAIMessages(system: string | undefined, messages: LLMMessage[]): OpenAIMessage[] {
+  const result: OpenAIMessage[] = system ? [{ role: 'system', content: system }] : [];
+  let pendingIds: string[] = [];
+
+  messages.forEach((message, messageIndex) => {
+    const text = message.parts
+      .map(part => ('text' in part && !part.thought ? part.text : ''))
+      .join('');
+
+    if (message.role === 'model') {
+      const calls = message.parts.flatMap(part => ('functionCall' in part ? [part.functionCall] : []));
+      pendingIds = calls.map((call, callIndex) => call.id || `call_${messageIndex}_${callIndex}`);
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        ...(calls.length > 0 && {
+          tool_calls: calls.map((call, callIndex) => ({
+            id: pendingIds[callIndex],
+            type: 'function' as const,
+            function: { name: call.name, arguments: JSON.stringify(call.args) },
+          })),
+        }),
+      });
+      return;
+    }
+
+    let responseIndex = 0;
+    for (const part of message.parts) {
+      if ('functionResponse' in part) {
+        result.push({
+          role: 'tool',
+          tool_call_id: part.functionResponse.id || pendingIds[responseIndex] || `call_${responseIndex}`,
+          content: JSON.stringify(part.functionResponse.response),
+        });
+        responseIndex++;
+      }
+    }
+    if (text) {
+      result.push({ role: 'user', content: text });
+    }
+  });
+
+  return result;
+}
+
+function buildResponse(text: string, calls: LLMFunctionCall[], usage?: LLMUsage): LLMResponse {
+  return {
+    text,
+    functionCalls: calls,
+    parts: [...(text ? [{ text }] : []), ...calls.map(functionCall => ({ functionCall }))],
+    usage,
+  };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(options: { apiKey?: string; baseUrl?: string; model?: string }) {
+    if (!options.apiKey) {
+      throw new LLMError('OPENAI_API_KEY is not configured', 'NOT_CONFIGURED', 'openai');
+    }
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.model = options.model || OPENAI_DEFAULT_MODEL;
+  }
+
+  private async post(path: string, body: object): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMError(
+        `OpenAI-compatible API error ${response.status}: ${detail.slice(0, 300)}`,
+        'API_ERROR',
+        this.name
+      );
+    }
+    return response;
+  }
+
+  private toBody(request: LLMRequest, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model || this.model,
+      messages: toOpenAIMessages(request.system, toMessages(request.messages)),
+    };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.maxOutputTokens !== undefined) body.max_tokens = request.maxOutputTokens;
+
+    if (request.functions?.length) {
+      body.tools = request.functions.map(fn => ({
+        type: 'function',
+        function: { name: fn.name, description: fn.description, parameters: fn.parameters },
+      }));
+      body.tool_choice = request.functionCalling === 'none' ? 'none' : 'auto';
+    }
+
+    if (request.responseFormat?.type === 'json') {
+      body.response_format = request.responseFormat.schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: request.responseFormat.schema } }
+        : { type: 'json_object' };
+    }
+
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+    return body;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post('/chat/completions', this.toBody(request, false));
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    const calls: LLMFunctionCall[] = (message?.tool_calls || []).map(
+      (call: { id: string; function: { name: string; arguments: string } }) => ({
+        id: call.id,
+        name: call.function.name,
+        args: parseArguments(call.function.arguments),
+      })
+    );
+    return buildResponse(message?.content || '', calls, toUsage(data.usage));
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncGenerator<LLMStreamEvent>> {
+    const response = await this.post('/chat/completions', this.toBody(request, true));
+    if (!response.body) {
+      throw new LLMError('OpenAI-compatible API returned no stream', 'API_ERROR', this.name);
+    }
+    const reader = response.body.getReader();
+
+    return (async function* () {
+      const decoder = new TextDecoder();
+      const toolCalls: Array<{ id?: string; name: string; args: string }> = [];
+      let buffer = '';
+      let text = '';
+      let usage: LLMUsage | undefined;
+
+      // Server-sent events: one `data: {json}` line per chunk, ending with `data: [DONE]`
+      read: while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || !data) continue;
+          if (data === '[DONE]') break read;
+
+          const chunk = JSON.parse(data);
+          usage = toUsage(chunk.usage) ?? usage;
+          const delta = chunk.choices?.[0]?.delta;
+          if (delta?.content) {
+            text += delta.content;
+            yield { type: 'text', delta: delta.content } as const;
+          }
+          for (const call of (delta?.tool_calls || []) as OpenAIToolCallDelta[]) {
+            const index = call.index ?? toolCalls.length;
+            toolCalls[index] ??= { name: '', args: '' };
+            if (call.id) toolCalls[index].id = call.id;
+            if (call.function?.name) toolCalls[index].name += call.function.name;
+            if (call.function?.arguments) toolCalls[index].args += call.function.arguments;
+          }
+        }
+      }
+
+      const calls = toolCalls.filter(Boolean).map(call => ({
+        id: call.id,
+        name: call.name,
+        args: parseArguments(call.args),
+      }));
+      yield { type: 'done', response: buildResponse(text, calls, usage) } as const;
+    })();
+  }
+
+  async embed(texts: string[], options?: { model?: string }): Promise<number[][]> {
+    const response = await this.post('/embeddings', {
+      model: options?.model || OPENAI_EMBEDDING_MODEL,
+      input: texts,
+    });
+    const data = await response.json();
+    return (data.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  async generateJSON<T = unknown>(request: Omit<LLMRequest, 'responseFormat'> & { schema?: object }): Promise<T> {
+    const { schema, ...rest } = request;
+    const response = await this.generate({ ...rest, responseFormat: { type: 'json', schema } });
+    return parseJSONText<T>(response.text, this.name);
+  }
+}
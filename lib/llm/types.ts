@@ -0,0 +1,116 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-neutral shapes for text generation, streaming, function calling,
+ * embeddings and structured JSON output. Adapters (./providers) translate
+ * them to each vendor's API.
+ */
+
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface LLMFunctionCall {
+  /** Set by providers that pair calls with responses by ID */
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * One piece of a message. `raw` keeps the vendor's original part so a model
+ * turn can be replayed exactly (Gemini needs its thought signatures back).
+ */
+export type LLMPart =
+  | { text: string; thought?: boolean; raw?: unknown }
+  | { functionCall: LLMFunctionCall; raw?: unknown }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> }; raw?: unknown };
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+export interface LLMFunctionDeclaration {
+  name: string;
+  description: string;
+  /** JSON Schema object */
+  parameters?: object;
+}
+
+export interface LLMRequest {
+  /** Defaults to the provider's configured model */
+  model?: string;
+  system?: string;
+  /** A plain string is a single user message */
+  messages: string | LLMMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  functions?: LLMFunctionDeclaration[];
+  /** 'none' keeps the declarations but forbids calling them */
+  functionCalling?: 'auto' | 'none';
+  /** Ground the answer with web search where the provider supports it */
+  webSearch?: boolean;
+  /** Ask for a JSON answer, optionally matching a JSON Schema */
+  responseFormat?: { type: 'json'; schema?: object };
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Web sources behind a grounded answer; `supports` map answer text ranges
+ * to indices in `sources`
+ */
+export interface LLMGrounding {
+  sources: Array<{ title?: string; url?: string }>;
+  supports: Array<{ startIndex?: number; endIndex?: number; sourceIndices: number[] }>;
+}
+
+export interface LLMResponse {
+  /** Answer text, excluding thoughts */
+  text: string;
+  /** Function calls requested by the model, in order */
+  functionCalls: LLMFunctionCall[];
+  /** The model turn as produced, for replaying it in a follow-up request */
+  parts: LLMPart[];
+  usage?: LLMUsage;
+  grounding?: LLMGrounding;
+}
+
+export type LLMStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'done'; response: LLMResponse };
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  /** Resolves once the request is accepted; text arrives as events, then one 'done' */
+  stream(request: LLMRequest): Promise<AsyncGenerator<LLMStreamEvent>>;
+  embed(texts: string[], options?: { model?: string }): Promise<number[][]>;
+  /** Generate with `responseFormat: json` and parse the answer */
+  generateJSON<T = unknown>(request: Omit<LLMRequest, 'responseFormat'> & { schema?: object }): Promise<T>;
+}
+
+/**
+ * Provider selection, stored per agency in `agency.ai_config`
+ */
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+}
+
+export type LLMErrorCode = 'NOT_CONFIGURED' | 'API_ERROR' | 'INVALID_JSON' | 'BUDGET_EXCEEDED';
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public code: LLMErrorCode,
+    public provider?: LLMProviderName
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
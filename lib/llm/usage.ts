@@ -0,0 +1,349 @@
+/**
+ * AI Usage Metering and Budgets
+ *
+ * Every model call is written to the `ai_usage` ledger with its token counts,
+ * tagged with the agency, the user (when there is one) and the feature.
+ * Agencies set monthly token budgets in `agency.ai_config`:
+ * - monthly_token_budget: all usage in the agency
+ * - user_monthly_token_budget: each user's own usage
+ *
+ * From BUDGET_WARNING_RATIO of a budget, calls go through with a warning; at
+ * 100% they are refused with LLMError('BUDGET_EXCEEDED'). Budgets reset at the
+ * start of each UTC calendar month.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createLLMProvider, loadAgencyAIConfig, resolveLLMConfig } from './provider';
+import { LLMError, type LLMProvider, type LLMRequest, type LLMResponse, type LLMUsage } from './types';
+import { parseJSONText } from './utils';
+
+export type AIUsageFeature =
+  | 'chat'
+  | 'rag'
+  | 'draft_reply'
+  | 'workflow_draft'
+  | 'memory_summary'
+  | 'memory_embedding'
+  | 'style_analysis'
+  | 'brand_blueprint'
+  | 'instruction_processing'
+  | 'cartridge_preview'
+  | 'seo_enrichment';
+
+export const AI_USAGE_FEATURE_LABELS: Record<AIUsageFeature, string> = {
+  chat: 'Chat Assistant',
+  rag: 'Document RAG',
+  draft_reply: 'Draft Replies',
+  workflow_draft: 'Workflow Drafts',
+  memory_summary: 'Memory Summaries',
+  memory_embedding: 'Memory Search',
+  style_analysis: 'Style Analysis',
+  brand_blueprint: 'Brand Blueprint',
+  instruction_processing: 'Instructions',
+  cartridge_preview: 'Cartridge Previews',
+  seo_enrichment: 'SEO Enrichment',
+};
+
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export interface AIUsageScope {
+  agencyId: string;
+  /** null for calls without a user, e.g. cron-triggered workflows */
+  userId?: string | null;
+  feature: AIUsageFeature;
+}
+
+export interface AIUsageEntry extends AIUsageScope {
+  provider: string;
+  model?: string;
+  /** Defaults to 1 */
+  requests?: number;
+  usage?: LLMUsage;
+}
+
+export interface AIBudgetLimits {
+  agency: number | null;
+  user: number | null;
+}
+
+export interface AIBudget {
+  scope: 'agency' | 'user';
+  limit: number;
+  used: number;
+  percentUsed: number;
+}
+
+export type AIBudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface AIBudgetStatus {
+  state: AIBudgetState;
+  budgets: AIBudget[];
+  /** Set for 'warning' and 'exceeded', ready to show to the user */
+  message?: string;
+}
+
+export interface AIUsageReport {
+  /** First day of the month, UTC */
+  since: string;
+  /** When the budgets reset */
+  resetsAt: string;
+  tokens: number;
+  requests: number;
+  byFeature: Partial<Record<AIUsageFeature, { tokens: number; requests: number }>>;
+  byUser: Array<{ userId: string | null; tokens: number; requests: number }>;
+  daily: Array<{ date: string; tokens: number }>;
+  limits: AIBudgetLimits;
+}
+
+/**
+ * Start of the budget month containing `now` (UTC)
+ */
+export function usageMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function positiveNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function resolveBudgetLimits(aiConfig: unknown): AIBudgetLimits {
+  const config = aiConfig && typeof aiConfig === 'object' ? (aiConfig as Record<string, unknown>) : {};
+  return {
+    agency: positiveNumber(config.monthly_token_budget),
+    user: positiveNumber(config.user_monthly_token_budget),
+  };
+}
+
+/**
+ * Write one ledger row. Never throws: a failed write is logged and the model
+ * call it describes still counts as done.
+ */
+export async function recordAIUsage(supabase: SupabaseClient, entry: AIUsageEntry): Promise<void> {
+  try {
+    const { error } = await supabase.from('ai_usage').insert({
+      agency_id: entry.agencyId,
+      user_id: entry.userId ?? null,
+      feature: entry.feature,
+      provider: entry.provider,
+      model: entry.model ?? null,
+      requests: entry.requests ?? 1,
+      input_tokens: entry.usage?.inputTokens ?? 0,
+      output_tokens: entry.usage?.outputTokens ?? 0,
+      total_tokens: entry.usage?.totalTokens ?? 0,
+    });
+    if (error) {
+      console.warn('[AI Usage] Failed to record usage:', error.message);
+    }
+  } catch (error) {
+    console.warn('[AI Usage] Failed to record usage:', error);
+  }
+}
+
+function budgetMessage(state: AIBudgetState, budget: AIBudget): string {
+  const whose = budget.scope === 'agency' ? "Your agency's" : 'Your';
+  if (state === 'exceeded') {
+    return `${whose} monthly AI budget of ${budget.limit.toLocaleString('en-US')} tokens has been reached. AI features resume next month or when an admin raises the budget.`;
+  }
+  return `${whose} monthly AI budget is ${Math.floor(budget.percentUsed)}% used (${budget.used.toLocaleString('en-US')} of ${budget.limit.toLocaleString('en-US')} tokens).`;
+}
+
+/**
+ * Month-to-date usage against the agency's budgets. A failed lookup is
+ * logged and treated as within budget, so a ledger outage does not take AI
+ * features down with it.
+ */
+export async function getAIBudgetStatus(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string | null | undefined,
+  aiConfig: unknown,
+  now: Date = new Date()
+): Promise<AIBudgetStatus> {
+  const limits = resolveBudgetLimits(aiConfig);
+  if (limits.agency === null && limits.user === null) {
+    return { state: 'ok', budgets: [] };
+  }
+
+  const { data, error } = await supabase.rpc('ai_usage_totals', {
+    p_agency_id: agencyId,
+    p_user_id: userId ?? null,
+    p_since: usageMonthStart(now).toISOString(),
+  });
+  if (error) {
+    console.warn('[AI Usage] Budget check failed:', error.message);
+    return { state: 'ok', budgets: [] };
+  }
+
+  const totals = (Array.isArray(data) ? data[0] : data) as { agency_tokens?: number; user_tokens?: number } | null;
+  const budgets: AIBudget[] = [];
+  if (limits.agency !== null) {
+    budgets.push({ scope: 'agency', limit: limits.agency, used: Number(totals?.agency_tokens ?? 0), percentUsed: 0 });
+  }
+  if (limits.user !== null && userId) {
+    budgets.push({ scope: 'user', limit: limits.user, used: Number(totals?.user_tokens ?? 0), percentUsed: 0 });
+  }
+  for (const budget of budgets) {
+    budget.percentUsed = (budget.used / budget.limit) * 100;
+  }
+
+  const exceeded = budgets.find(b => b.used >= b.limit);
+  if (exceeded) {
+    return { state: 'exceeded', budgets, message: budgetMessage('exceeded', exceeded) };
+  }
+  const warning = budgets
+    .filter(b => b.used >= b.limit * BUDGET_WARNING_RATIO)
+    .sort((a, b) => b.percentUsed - a.percentUsed)[0];
+  if (warning) {
+    return { state: 'warning', budgets, message: budgetMessage('warning', warning) };
+  }
+  return { state: 'ok', budgets };
+}
+
+/**
+ * Load the agency's budgets and refuse the call when one is used up.
+ * For call sites that do not go through an LLMProvider (Gemini File Search,
+ * cartridge analysis, SEO enrichment); provider call sites use
+ * getMeteredLLMProvider.
+ *
+ * @throws LLMError('BUDGET_EXCEEDED')
+ */
+export async function checkAIBudget(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId?: string | null
+): Promise<AIBudgetStatus> {
+  const status = await getAIBudgetStatus(supabase, agencyId, userId, await loadAgencyAIConfig(supabase, agencyId));
+  if (status.state === 'exceeded') {
+    throw new LLMError(status.message || 'Monthly AI budget reached', 'BUDGET_EXCEEDED');
+  }
+  if (status.state === 'warning') {
+    console.warn(`[AI Usage] Agency ${agencyId}: ${status.message}`);
+  }
+  return status;
+}
+
+/**
+ * Wrap a provider so each call is recorded in the ledger under `scope`
+ */
+export function meterProvider(provider: LLMProvider, supabase: SupabaseClient, scope: AIUsageScope): LLMProvider {
+  const record = (usage: LLMUsage | undefined, model?: string) =>
+    recordAIUsage(supabase, { ...scope, provider: provider.name, model: model || provider.model, usage });
+
+  const generate = async (request: LLMRequest): Promise<LLMResponse> => {
+    const response = await provider.generate(request);
+    await record(response.usage, request.model);
+    return response;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate,
+    stream: async (request) => {
+      const stream = await provider.stream(request);
+      return (async function* () {
+        for await (const event of stream) {
+          if (event.type === 'done') {
+            await record(event.response.usage, request.model);
+          }
+          yield event;
+        }
+      })();
+    },
+    embed: async (texts, options) => {
+      const embeddings = await provider.embed(texts, options);
+      // Embedding APIs do not all report tokens; the request still counts
+      await record(undefined, options?.model);
+      return embeddings;
+    },
+    generateJSON: async <T = unknown>(request: Omit<LLMRequest, 'responseFormat'> & { schema?: object }) => {
+      const { schema, ...rest } = request;
+      const response = await generate({ ...rest, responseFormat: { type: 'json', schema } });
+      return parseJSONText<T>(response.text, provider.name);
+    },
+  };
+}
+
+/**
+ * The agency's selected provider, metered under `scope` and checked against
+ * its budgets. `budget.message` carries the warning to show from 80% used.
+ *
+ * @throws LLMError('NOT_CONFIGURED') when the provider's API key is missing
+ * @throws LLMError('BUDGET_EXCEEDED') when a monthly budget is used up
+ */
+export async function getMeteredLLMProvider(
+  supabase: SupabaseClient,
+  scope: AIUsageScope
+): Promise<{ provider: LLMProvider; budget: AIBudgetStatus }> {
+  const aiConfig = await loadAgencyAIConfig(supabase, scope.agencyId);
+  const budget = await getAIBudgetStatus(supabase, scope.agencyId, scope.userId, aiConfig);
+  if (budget.state === 'exceeded') {
+    throw new LLMError(budget.message || 'Monthly AI budget reached', 'BUDGET_EXCEEDED');
+  }
+
+  const provider = createLLMProvider(resolveLLMConfig(aiConfig));
+  return { provider: meterProvider(provider, supabase, scope), budget };
+}
+
+/**
+ * Month-to-date usage for the settings report
+ */
+export async function getAIUsageReport(
+  supabase: SupabaseClient,
+  agencyId: string,
+  aiConfig: unknown,
+  now: Date = new Date()
+): Promise<AIUsageReport> {
+  const since = usageMonthStart(now);
+  const resetsAt = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth() + 1, 1));
+
+  const { data, error } = await supabase.rpc('ai_usage_report', {
+    p_agency_id: agencyId,
+    p_since: since.toISOString(),
+  });
+  if (error) {
+    throw new Error(`Failed to load AI usage: ${error.message}`);
+  }
+
+  const rows = (data || []) as Array<{ day: string; feature: string; user_id: string | null; requests: number; tokens: number }>;
+  const byFeature: AIUsageReport['byFeature'] = {};
+  const byUser = new Map<string | null, { tokens: number; requests: number }>();
+  const byDay = new Map<string, number>();
+  let tokens = 0;
+  let requests = 0;
+
+  for (const row of rows) {
+    const rowTokens = Number(row.tokens);
+    const rowRequests = Number(row.requests);
+    tokens += rowTokens;
+    requests += rowRequests;
+
+    const feature = row.feature as AIUsageFeature;
+    const featureTotals = byFeature[feature] ?? { tokens: 0, requests: 0 };
+    featureTotals.tokens += rowTokens;
+    featureTotals.requests += rowRequests;
+    byFeature[feature] = featureTotals;
+
+    const userTotals = byUser.get(row.user_id) ?? { tokens: 0, requests: 0 };
+    userTotals.tokens += rowTokens;
+    userTotals.requests += rowRequests;
+    byUser.set(row.user_id, userTotals);
+
+    byDay.set(row.day, (byDay.get(row.day) ?? 0) + rowTokens);
+  }
+
+  return {
+    since: since.toISOString(),
+    resetsAt: resetsAt.toISOString(),
+    tokens,
+    requests,
+    byFeature,
+    byUser: [...byUser.entries()]
+      .map(([userId, totals]) => ({ userId, ...totals }))
+      .sort((a, b) => b.tokens - a.tokens),
+    daily: [...byDay.entries()]
+      .map(([date, dayTokens]) => ({ date, tokens: dayTokens }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    limits: resolveBudgetLimits(aiConfig),
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Helpers shared by the LLM adapters and their callers
+ */
+
+import { LLMError, type LLMMessage, type LLMProviderName, type LLMResponse, type LLMStreamEvent } from './types';
+
+/**
+ * Normalize a request's messages to the message list form
+ */
+export function toMessages(messages: string | LLMMessage[]): LLMMessage[] {
+  return typeof messages === 'string' ? [{ role: 'user', parts: [{ text: messages }] }] : messages;
+}
+
+/**
+ * Parse a JSON answer, tolerating the markdown code fences models add
+ */
+export function parseJSONText<T>(text: string, provider?: LLMProviderName): T {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    throw new LLMError(`Model returned invalid JSON: ${trimmed.slice(0, 200)}`, 'INVALID_JSON', provider);
+  }
+}
+
+/**
+ * Read a stream to the end, passing text deltas to `onText` as they arrive
+ */
+export async function collectLLMStream(
+  stream: AsyncGenerator<LLMStreamEvent>,
+  onText?: (delta: string) => void
+): Promise<LLMResponse> {
+  let text = '';
+  for await (const event of stream) {
+    if (event.type === 'text') {
+      text += event.delta;
+      onText?.(event.delta);
+    } else {
+      return event.response;
+    }
+  }
+  // Streams always end with 'done'; this covers an adapter that stops early
+  return { text, functionCalls: [], parts: text ? [{ text }] : [] };
+}
@@ -1,20 +1,17 @@
 /**
  * Conversation Summarizer
  *
- * Uses Gemini to extract key insights from chat sessions.
+ * Uses the agency's LLM provider to extract key insights from chat sessions.
  * Insights are stored as high-quality memories (type: 'insight', importance: 'high').
  *
  * Triggered after a session accumulates enough messages (threshold-based).
  * Runs fire-and-forget so it never blocks the chat response.
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { createLLMProvider, LLMError, type LLMProvider } from '@/lib/llm';
 import { initializeMem0Service } from './mem0-service';
 import type { MemoryType } from './types';
 
-// Gemini 3 per project requirements
-const GEMINI_MODEL = 'gemini-3-flash-preview';
-
 // Only summarize sessions with meaningful depth
 const MIN_MESSAGES_FOR_SUMMARY = 6;
 
@@ -60,44 +57,39 @@ Rules:
 
 /**
  * Summarize a conversation and store insights as memories
+ * Uses `provider` (the agency's, from the chat route) or the default provider
  */
 export async function summarizeConversation(
   messages: ConversationMessage[],
   agencyId: string,
   userId: string,
   sessionId: string,
-  clientId?: string
+  clientId?: string,
+  provider?: LLMProvider
 ): Promise<{ insightsStored: number }> {
-  const apiKey = process.env.GOOGLE_AI_API_KEY;
-  if (!apiKey) {
-    console.warn('[Summarizer] No GOOGLE_AI_API_KEY — skipping');
+  if (messages.length < MIN_MESSAGES_FOR_SUMMARY) {
     return { insightsStored: 0 };
   }
 
-  if (messages.length < MIN_MESSAGES_FOR_SUMMARY) {
+  let llm: LLMProvider;
+  try {
+    llm = provider ?? createLLMProvider();
+  } catch (error) {
+    console.warn(`[Summarizer] ${error instanceof LLMError ? error.message : 'No LLM provider'} — skipping`);
     return { insightsStored: 0 };
   }
 
   try {
-    // Format conversation for Gemini
+    // Format conversation for the model
     const conversationText = messages
       .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.substring(0, 300)}`)
       .join('\n');
 
-    const genai = new GoogleGenAI({ apiKey });
-    const result = await genai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: `${EXTRACTION_PROMPT}\n\n--- CONVERSATION ---\n${conversationText}`,
-      config: { temperature: 0.3 },
+    const insights = await llm.generateJSON<ExtractedInsight[]>({
+      messages: `${EXTRACTION_PROMPT}\n\n--- CONVERSATION ---\n${conversationText}`,
+      temperature: 0.3,
     });
 
-    const text = result.text?.trim();
-    if (!text) return { insightsStored: 0 };
-
-    // Parse JSON response (strip markdown code fences if present)
-    const jsonStr = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '');
-    const insights: ExtractedInsight[] = JSON.parse(jsonStr);
-
     if (!Array.isArray(insights) || insights.length === 0) {
       return { insightsStored: 0 };
     }
@@ -1,7 +1,8 @@
 /**
  * Memory System
  *
- * Cross-session memory using Mem0 integration.
+ * Cross-session memory using Mem0 integration, or a Postgres-backed store
+ * (MEMORY_BACKEND=postgres) for self-hosted and offline deployments.
  */
 
 export {
@@ -10,12 +11,37 @@ export {
   getMem0Service,
   resetMem0Service,
   initializeMem0Service,
+  getMemoryBackend,
+  filterMemories,
 } from './mem0-service';
+export type { Mem0MCPClient, MemoryBackend } from './mem0-service';
+export {
+  createPostgresMem0Client,
+  parseMemoryFilters,
+} from './postgres-memory-client';
+export type { MemoryEmbedder, PostgresMem0ClientOptions } from './postgres-memory-client';
 export {
   MemoryInjector,
   getMemoryInjector,
   resetMemoryInjector,
 } from './memory-injector';
+export {
+  runMemoryMaintenance,
+  planMemoryMaintenance,
+  consolidateMemories,
+  recordMemoryRecalls,
+  isMemoryExpired,
+  getMemoryExpiry,
+  jaccardSimilarity,
+  MEMORY_EXPIRY_ACTIONS,
+  DUPLICATE_SIMILARITY_THRESHOLD,
+  PROMOTION_RECALL_COUNT,
+} from './memory-maintenance';
+export type {
+  MemoryExpiryAction,
+  MemoryMaintenancePlan,
+  MemoryMaintenanceReport,
+} from './memory-maintenance';
 export {
   summarizeConversation,
   shouldSummarize,
@@ -39,4 +65,5 @@ export type {
   MemoryHistoryEntry,
   MemoryEntity,
   MemoryListResponse,
+  MemoryListFilters,
 } from './types';
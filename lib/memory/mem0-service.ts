@@ -9,6 +9,11 @@
  *   - metadata.clientId = clientId (client-level filtering)
  *
  * Full CRUD: add, search, list, get, update, delete, history, entities, configure.
+ *
+ * Backends (MEMORY_BACKEND):
+ *   - mem0 (default): remote Mem0 through diiiploy-gateway
+ *   - postgres: the `memory` tables in Supabase, for self-hosted and offline
+ *     deployments. MEMORY_EMBEDDINGS=true adds embedding similarity to search.
  */
 
 import type {
@@ -22,14 +27,19 @@ import type {
   MemoryListResponse,
   MemoryHistoryEntry,
   MemoryEntity,
+  MemoryListFilters,
 } from './types';
 import { EXPIRATION_DAYS } from './types';
+import { createPostgresMem0Client } from './postgres-memory-client';
+import { createServiceRoleClient } from '@/lib/supabase';
+import { createLLMProvider, meterProvider } from '@/lib/llm';
 
 /**
  * Mem0 MCP interface (matches diiiploy-gateway's 10 MCP tools)
  * CRITICAL: AudienceOS uses DIIIPLOY-GATEWAY, NOT chi-gateway!
+ * Also implemented by the Postgres backend (./postgres-memory-client).
  */
-interface Mem0MCPClient {
+export interface Mem0MCPClient {
   addMemory: (params: {
     content?: string;
     messages?: Array<{ role: string; content: string; name?: string }>;
@@ -39,6 +49,8 @@ interface Mem0MCPClient {
     runId?: string;
     metadata?: Record<string, unknown>;
     expirationDate?: string;
+    /** Creation time in Unix seconds (Mem0's `timestamp`); defaults to now */
+    timestamp?: number;
     categories?: string[];
     infer?: boolean;
   }) => Promise<{ id: string }>;
@@ -52,22 +64,31 @@ interface Mem0MCPClient {
     topK?: number;
     filters?: Record<string, unknown>;
     categories?: string[];
-  }) => Promise<Array<{ id: string; memory: string; score?: number; metadata?: Record<string, unknown> }>>;
+  }) => Promise<Array<{
+    id: string; memory: string; score?: number; metadata?: Record<string, unknown>; created_at?: string;
+  }>>;
 
   getMemory: (params: { memoryId: string }) => Promise<{
     id: string; memory: string; user_id?: string; metadata?: Record<string, unknown>;
-    created_at?: string; updated_at?: string;
+    created_at?: string; updated_at?: string; expiration_date?: string | null;
   }>;
 
   listMemories: (params: {
     userId?: string; appId?: string; agentId?: string; runId?: string;
     page?: number; pageSize?: number;
+    filters?: Record<string, unknown>;
   }) => Promise<{ results: Array<{
     id: string; memory: string; user_id?: string; metadata?: Record<string, unknown>;
-    created_at?: string; updated_at?: string;
+    created_at?: string; updated_at?: string; expiration_date?: string | null;
   }>; count?: number }>;
 
-  updateMemory: (params: { memoryId: string; content: string }) => Promise<{
+  /** Omitted fields are left unchanged; expirationDate null removes the expiry */
+  updateMemory: (params: {
+    memoryId: string;
+    content?: string;
+    metadata?: Record<string, unknown>;
+    expirationDate?: string | null;
+  }) => Promise<{
     id: string; memory: string;
   }>;
 
@@ -90,6 +111,15 @@ interface Mem0MCPClient {
   }) => Promise<Record<string, unknown>>;
 }
 
+export type MemoryBackend = 'mem0' | 'postgres';
+
+/** Mem0 reports history events as ADD / UPDATE / DELETE */
+const HISTORY_EVENTS: Record<string, MemoryHistoryEntry['event']> = {
+  ADD: 'created',
+  UPDATE: 'updated',
+  DELETE: 'deleted',
+};
+
 /**
  * Calculate expiration date based on memory type.
  * Returns YYYY-MM-DD string or undefined (no expiration).
@@ -110,10 +140,12 @@ function buildNativeMetadata(request: {
   clientId?: string;
   userId?: string;
   sessionId?: string;
+  sourceMessageId?: string;
   type?: string;
   topic?: string;
   entities?: string[];
   importance?: string;
+  pinned?: boolean;
 }): Record<string, unknown> {
   const meta: Record<string, unknown> = {};
   if (request.type) meta.type = request.type;
@@ -122,6 +154,8 @@ function buildNativeMetadata(request: {
   if (request.importance) meta.importance = request.importance;
   if (request.entities?.length) meta.entities = request.entities;
   if (request.sessionId) meta.sessionId = request.sessionId;
+  if (request.sourceMessageId) meta.sourceMessageId = request.sourceMessageId;
+  if (request.pinned) meta.pinned = true;
   return meta;
 }
 
@@ -138,13 +172,41 @@ function parseResponseMetadata(
     clientId: (meta.clientId as string) || defaults.clientId,
     userId: defaults.userId,
     sessionId: meta.sessionId as string | undefined,
+    sourceMessageId: meta.sourceMessageId as string | undefined,
     type: (meta.type as MemoryType) || 'conversation',
     topic: meta.topic as string | undefined,
     entities: meta.entities as string[] | undefined,
     importance: (meta.importance as 'low' | 'medium' | 'high') || 'medium',
+    pinned: meta.pinned === true || undefined,
   };
 }
 
+/**
+ * Apply the memory manager's filters (client-side, as a fallback to the backend's)
+ */
+export function filterMemories(memories: Memory[], filters: MemoryListFilters): Memory[] {
+  return memories.filter((m) =>
+    (!filters.types?.length || filters.types.includes(m.metadata.type)) &&
+    (!filters.clientId || m.metadata.clientId === filters.clientId) &&
+    (!filters.importance || (m.metadata.importance || 'medium') === filters.importance) &&
+    (filters.pinned === undefined || !!m.metadata.pinned === filters.pinned)
+  );
+}
+
+/**
+ * The memory manager's filters a backend can match on metadata equality.
+ * Several types, 'medium' importance (the default, often not stored) and
+ * unpinned are left to filterMemories.
+ */
+function toMetadataFilter(filters: MemoryListFilters): Record<string, unknown> | undefined {
+  const metadata: Record<string, unknown> = {};
+  if (filters.clientId) metadata.clientId = filters.clientId;
+  if (filters.types?.length === 1) metadata.type = filters.types[0];
+  if (filters.importance && filters.importance !== 'medium') metadata.importance = filters.importance;
+  if (filters.pinned) metadata.pinned = true;
+  return Object.keys(metadata).length ? metadata : undefined;
+}
+
 /**
  * Mem0Service - Cross-session memory with native entity scoping
  *
@@ -166,7 +228,9 @@ export class Mem0Service {
    */
   async addMemory(request: MemoryAddRequest): Promise<Memory> {
     const metadata = buildNativeMetadata(request);
-    const expirationDate = calculateExpiration(request.type);
+    const expirationDate = request.pinned
+      ? undefined
+      : request.expiresAt?.toISOString().split('T')[0] ?? calculateExpiration(request.type);
 
     // CRITICAL: Do NOT pass sessionId as runId. mem0 scopes run_id memories
     // so they're only visible when listing/searching with that same run_id.
@@ -179,6 +243,7 @@ export class Mem0Service {
       appId: request.agencyId,
       metadata,
       expirationDate,
+      ...(request.createdAt && { timestamp: Math.floor(request.createdAt.getTime() / 1000) }),
       infer: request.infer !== undefined ? request.infer : true,
     });
 
@@ -190,13 +255,16 @@ export class Mem0Service {
         clientId: request.clientId,
         userId: request.userId,
         sessionId: request.sessionId,
+        sourceMessageId: request.sourceMessageId,
         type: request.type,
         topic: request.topic,
         entities: request.entities,
         importance: request.importance || 'medium',
+        pinned: request.pinned,
       },
-      createdAt: new Date(),
+      createdAt: request.createdAt ?? new Date(),
       updatedAt: new Date(),
+      ...(expirationDate && { expiresAt: new Date(expirationDate) }),
     };
   }
 
@@ -246,7 +314,7 @@ export class Mem0Service {
         clientId: request.clientId,
       }),
       score: result.score,
-      createdAt: new Date(),
+      createdAt: result.created_at ? new Date(result.created_at) : new Date(),
       updatedAt: new Date(),
     }));
 
@@ -285,6 +353,7 @@ export class Mem0Service {
         }),
         createdAt: result.created_at ? new Date(result.created_at) : new Date(),
         updatedAt: result.updated_at ? new Date(result.updated_at) : new Date(),
+        ...(result.expiration_date && { expiresAt: new Date(result.expiration_date) }),
       };
     } catch {
       return null;
@@ -292,20 +361,26 @@ export class Mem0Service {
   }
 
   /**
-   * List all memories for a user (paginated, entity-scoped)
+   * List all memories for a user (paginated, entity-scoped).
+   * Filters the backend can match are applied in its query, so `total` counts
+   * matching memories; the rest are applied to the returned page only.
    */
   async listMemories(
     agencyId: string,
     userId: string,
     page: number = 1,
     pageSize: number = 50,
-    clientId?: string
+    filters: MemoryListFilters = {}
   ): Promise<MemoryListResponse> {
+    const metadata = toMetadataFilter(filters);
     const result = await this.mcpClient.listMemories({
       userId,
       appId: agencyId,
       page,
       pageSize,
+      ...(metadata && {
+        filters: { AND: [{ app_id: agencyId }, { user_id: userId }, { metadata }] },
+      }),
     });
 
     const results = result.results || [];
@@ -315,22 +390,21 @@ export class Mem0Service {
       metadata: parseResponseMetadata(r.metadata, {
         agencyId,
         userId,
-        clientId,
+        clientId: filters.clientId,
       }),
       createdAt: r.created_at ? new Date(r.created_at) : new Date(),
       updatedAt: r.updated_at ? new Date(r.updated_at) : new Date(),
+      ...(r.expiration_date && { expiresAt: new Date(r.expiration_date) }),
     }));
 
-    // Client-side filter for clientId if specified
-    if (clientId) {
-      memories = memories.filter((m) => m.metadata.clientId === clientId);
-    }
+    // Client-side fallback for filters the backend could not (or did not) apply
+    memories = filterMemories(memories, filters);
 
     return {
       memories,
       page,
       pageSize,
-      total: result.count || memories.length,
+      total: result.count || results.length,
     };
   }
 
@@ -357,6 +431,35 @@ export class Mem0Service {
     }
   }
 
+  /**
+   * Pin/unpin a memory or change its importance, keeping its content.
+   * Pinning removes the expiry; unpinning restarts the type's ttl from today,
+   * and memory maintenance goes by that stored date.
+   */
+  async updateMemoryAttributes(
+    memory: Memory,
+    changes: { pinned?: boolean; importance?: 'low' | 'medium' | 'high' }
+  ): Promise<Memory | null> {
+    const metadata: MemoryMetadata = { ...memory.metadata, ...changes };
+    let expirationDate: string | null | undefined;
+    let expiresAt = memory.expiresAt;
+    if (changes.pinned !== undefined) {
+      expirationDate = changes.pinned ? null : calculateExpiration(metadata.type) ?? null;
+      expiresAt = expirationDate ? new Date(expirationDate) : undefined;
+    }
+
+    try {
+      await this.mcpClient.updateMemory({
+        memoryId: memory.id,
+        metadata: buildNativeMetadata(metadata),
+        ...(expirationDate !== undefined && { expirationDate }),
+      });
+      return { ...memory, metadata, updatedAt: new Date(), expiresAt };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Delete a single memory
    */
@@ -423,7 +526,7 @@ export class Mem0Service {
         memoryId: r.memory_id,
         oldContent: r.old_memory || '',
         newContent: r.new_memory || '',
-        event: r.event as 'created' | 'updated' | 'deleted',
+        event: HISTORY_EVENTS[r.event?.toUpperCase()] || (r.event as MemoryHistoryEntry['event']),
         timestamp: r.created_at ? new Date(r.created_at) : new Date(),
       }));
     } catch {
@@ -763,6 +866,7 @@ function createDiiiplopyGatewayMem0Client(): Mem0MCPClient {
         memory: r.memory || r.content || '',
         score: r.score,
         metadata: r.metadata,
+        created_at: r.created_at,
       }));
     },
 
@@ -813,12 +917,47 @@ function createDiiiplopyGatewayMem0Client(): Mem0MCPClient {
 }
 
 /**
- * Initialize Mem0Service with diiiploy-gateway (lazy init)
+ * The memory backend selected by MEMORY_BACKEND (defaults to mem0)
+ */
+export function getMemoryBackend(): MemoryBackend {
+  return process.env.MEMORY_BACKEND === 'postgres' ? 'postgres' : 'mem0';
+}
+
+/**
+ * Postgres client for MEMORY_BACKEND=postgres. With MEMORY_EMBEDDINGS=true,
+ * memories and queries are embedded with the deployment's default LLM
+ * provider, metered against the memory's agency.
+ */
+function createPostgresBackendClient(): Mem0MCPClient {
+  const supabase = createServiceRoleClient();
+  if (!supabase) {
+    throw new Error('MEMORY_BACKEND=postgres requires SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  if (process.env.MEMORY_EMBEDDINGS !== 'true') {
+    return createPostgresMem0Client(supabase);
+  }
+
+  const provider = createLLMProvider();
+  return createPostgresMem0Client(supabase, {
+    embed: (texts, appId) => {
+      const embedder = appId
+        ? meterProvider(provider, supabase, { agencyId: appId, feature: 'memory_embedding' })
+        : provider;
+      return embedder.embed(texts);
+    },
+  });
+}
+
+/**
+ * Initialize Mem0Service with the configured backend (lazy init)
  * CRITICAL: AudienceOS uses DIIIPLOY-GATEWAY, NOT chi-gateway!
  */
 export function initializeMem0Service(): Mem0Service {
   if (!mem0ServiceInstance) {
-    const client = createDiiiplopyGatewayMem0Client();
+    const client = getMemoryBackend() === 'postgres'
+      ? createPostgresBackendClient()
+      : createDiiiplopyGatewayMem0Client();
     mem0ServiceInstance = new Mem0Service(client);
   }
   return mem0ServiceInstance;
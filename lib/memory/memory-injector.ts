@@ -12,6 +12,8 @@ import type {
   MemorySearchRequest,
 } from './types';
 import { getMem0Service, initializeMem0Service } from './mem0-service';
+import { isMemoryExpired, jaccardSimilarity, recordMemoryRecalls } from './memory-maintenance';
+import { createServiceRoleClient } from '@/lib/supabase';
 
 /**
  * Memory recall patterns
@@ -138,10 +140,13 @@ export class MemoryInjector {
   /**
    * Inject relevant memories into system prompt
    *
-   * Applies 3 layers of filtering:
+   * Applies 4 layers of filtering:
    *   1. Relevance score (from Mem0 vector search)
-   *   2. Deduplication (removes near-duplicate memories)
-   *   3. Token budgeting (caps total injected text at ~500 tokens)
+   *   2. Expiry (EXPIRATION_DAYS, in case the backend still returns them)
+   *   3. Deduplication (removes near-duplicate memories)
+   *   4. Token budgeting (caps total injected text at ~500 tokens)
+   *
+   * Injected memories are counted as recalls for memory maintenance.
    */
   async injectMemories(
     query: string,
@@ -192,7 +197,11 @@ export class MemoryInjector {
       }
     }
 
-    if (searchResult.memories.length === 0) {
+    // 1. Drop expired memories (stale tasks must not resurface)
+    const now = new Date();
+    let memories = searchResult.memories.filter((m) => !isMemoryExpired(m, now));
+
+    if (memories.length === 0) {
       return {
         contextBlock: '',
         memories: [],
@@ -200,15 +209,20 @@ export class MemoryInjector {
       };
     }
 
-    // 1. Deduplicate near-identical memories
-    let memories = this.deduplicateMemories(searchResult.memories);
+    // 2. Deduplicate near-identical memories
+    memories = this.deduplicateMemories(memories);
 
-    // 2. Weight by importance (high > medium > low) + relevance score
+    // 3. Weight by importance (high > medium > low) + relevance score
     memories = this.rankMemories(memories);
 
-    // 3. Apply token budget — stop adding once budget is reached
+    // 4. Apply token budget — stop adding once budget is reached
     memories = this.applyTokenBudget(memories);
 
+    const supabase = createServiceRoleClient();
+    if (supabase) {
+      void recordMemoryRecalls(supabase, agencyId, userId, memories.map((m) => m.id));
+    }
+
     // Build context block
     const contextBlock = this.buildContextBlock(memories);
     const relevanceExplanation = this.buildRelevanceExplanation(memories);
@@ -228,7 +242,7 @@ export class MemoryInjector {
 
     for (const memory of memories) {
       const isDuplicate = deduplicated.some(
-        (existing) => this.jaccardSimilarity(existing.content, memory.content) >= this.deduplicationThreshold
+        (existing) => jaccardSimilarity(existing.content, memory.content) >= this.deduplicationThreshold
       );
       if (!isDuplicate) {
         deduplicated.push(memory);
@@ -238,20 +252,6 @@ export class MemoryInjector {
     return deduplicated;
   }
 
-  /**
-   * Word-level Jaccard similarity: |A ∩ B| / |A ∪ B|
-   */
-  private jaccardSimilarity(a: string, b: string): number {
-    const wordsA = new Set(a.toLowerCase().split(/\s+/));
-    const wordsB = new Set(b.toLowerCase().split(/\s+/));
-    let intersection = 0;
-    for (const word of wordsA) {
-      if (wordsB.has(word)) intersection++;
-    }
-    const union = wordsA.size + wordsB.size - intersection;
-    return union === 0 ? 0 : intersection / union;
-  }
-
   /**
    * Rank memories by combined importance + relevance score
    */
@@ -0,0 +1,438 @@
+/**
+ * Memory Maintenance
+ *
+ * Upkeep of the memory store, run per agency by the memory-maintenance cron:
+ * 1. Expiry: memories older than their type's EXPIRATION_DAYS are archived
+ *    to memory_archive or deleted, per MEMORY_EXPIRY_ACTIONS
+ * 2. Compaction: near-duplicate memories of the same user, client and type
+ *    are merged into one consolidated memory. Pinned memories never expire
+ *    or merge.
+ * 3. Promotion: memories injected into chat PROMOTION_RECALL_COUNT times or
+ *    more become importance 'high'
+ *
+ * A merge adds one replacement memory and deletes the originals; recall
+ * counts move with them, and the replacement keeps the oldest original's
+ * creation and expiry dates so merging never extends a memory's life.
+ * Promotions change the memory's importance in place.
+ * Every run writes a memory_maintenance_report row per agency.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Mem0Service } from './mem0-service';
+import type { Memory, MemoryAction, MemoryAddRequest, MemoryType } from './types';
+import { EXPIRATION_DAYS } from './types';
+
+export type MemoryExpiryAction = Extract<MemoryAction, 'delete' | 'archive'>;
+
+/** What happens to expired memories of each type with an EXPIRATION_DAYS ttl */
+export const MEMORY_EXPIRY_ACTIONS: Partial<Record<MemoryType, MemoryExpiryAction>> = {
+  conversation: 'archive',
+  project: 'archive',
+  task: 'delete',
+};
+
+/** Word-level Jaccard similarity at which two memories count as duplicates */
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.8;
+
+/** Recalls after which a memory is promoted to importance 'high' */
+export const PROMOTION_RECALL_COUNT = 3;
+
+// Bounds the cron's work per user; the rest is picked up on later runs
+const MAX_MEMORIES_PER_USER = 1000;
+const LIST_PAGE_SIZE = 100;
+const RECALL_LOOKUP_CHUNK = 200;
+
+const IMPORTANCE_RANK: Record<'low' | 'medium' | 'high', number> = { low: 0, medium: 1, high: 2 };
+
+export interface MemoryMaintenancePlan {
+  expired: Array<{ memory: Memory; action: MemoryExpiryAction }>;
+  merges: Array<{ sources: Memory[]; replacement: MemoryAddRequest; recallCount: number }>;
+  promotions: Array<{ memory: Memory; recallCount: number }>;
+}
+
+export interface MemoryMaintenanceReport {
+  agencyId: string;
+  startedAt: string;
+  usersScanned: number;
+  memoriesScanned: number;
+  expiredDeleted: number;
+  expiredArchived: number;
+  duplicatesMerged: number;
+  consolidated: number;
+  promoted: number;
+  errors: string[];
+}
+
+/**
+ * Word-level Jaccard similarity: |A ∩ B| / |A ∪ B|, ignoring case and punctuation
+ */
+export function jaccardSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean));
+  const wordsB = new Set(b.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean));
+  let intersection = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) intersection++;
+  }
+  const union = wordsA.size + wordsB.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+}
+
+/**
+ * When a memory expires, or null for pinned memories and types that never do.
+ * The backend's stored date wins (unpinning restarts it); otherwise the type's
+ * ttl runs from creation.
+ */
+export function getMemoryExpiry(memory: Memory): Date | null {
+  if (memory.metadata.pinned) return null;
+  const ttlDays = EXPIRATION_DAYS[memory.metadata.type];
+  if (!ttlDays) return null;
+  if (memory.expiresAt) return memory.expiresAt;
+  return new Date(memory.createdAt.getTime() + ttlDays * 86400000);
+}
+
+export function isMemoryExpired(memory: Memory, now: Date = new Date()): boolean {
+  const expiry = getMemoryExpiry(memory);
+  return expiry !== null && expiry <= now;
+}
+
+/**
+ * Re-add request carrying a memory's content and metadata unchanged.
+ * infer is off so Mem0 stores the content as-is.
+ */
+function toAddRequest(memory: Memory): MemoryAddRequest {
+  const { metadata } = memory;
+  return {
+    content: memory.content,
+    agencyId: metadata.agencyId,
+    clientId: metadata.clientId,
+    userId: metadata.userId,
+    sessionId: metadata.sessionId,
+    sourceMessageId: metadata.sourceMessageId,
+    type: metadata.type,
+    topic: metadata.topic,
+    entities: metadata.entities,
+    importance: metadata.importance || 'medium',
+    pinned: metadata.pinned,
+    infer: false,
+  };
+}
+
+/**
+ * One memory standing in for a group of near-duplicates: the newest wording,
+ * every entity and the highest importance of the group, dated like the oldest
+ */
+export function consolidateMemories(memories: Memory[]): MemoryAddRequest {
+  const newestFirst = [...memories].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const oldest = newestFirst[newestFirst.length - 1];
+  const entities = [...new Set(newestFirst.flatMap((m) => m.metadata.entities || []))];
+  const importance = newestFirst
+    .map((m) => m.metadata.importance || 'medium')
+    .reduce((max, level) => (IMPORTANCE_RANK[level] > IMPORTANCE_RANK[max] ? level : max));
+
+  return {
+    ...toAddRequest(newestFirst[0]),
+    topic: newestFirst.find((m) => m.metadata.topic)?.metadata.topic,
+    entities: entities.length ? entities : undefined,
+    importance,
+    createdAt: oldest.createdAt,
+    expiresAt: getMemoryExpiry(oldest) ?? undefined,
+  };
+}
+
+/**
+ * Decide what a maintenance run does with one user's memories.
+ * Expired memories are not considered for merging or promotion.
+ */
+export function planMemoryMaintenance(
+  memories: Memory[],
+  recallCounts: Map<string, number>,
+  now: Date = new Date()
+): MemoryMaintenancePlan {
+  const plan: MemoryMaintenancePlan = { expired: [], merges: [], promotions: [] };
+  const live: Memory[] = [];
+
+  for (const memory of memories) {
+    if (isMemoryExpired(memory, now)) {
+      plan.expired.push({ memory, action: MEMORY_EXPIRY_ACTIONS[memory.metadata.type] || 'delete' });
+    } else {
+      live.push(memory);
+    }
+  }
+
+  // Duplicates only merge within one user, client and type; each cluster is
+  // seeded by its newest memory
+  const clusters = new Map<string, Memory[][]>();
+  const newestFirst = [...live].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  for (const memory of newestFirst) {
+    // Pinned memories stay exactly as the user left them
+    if (memory.metadata.pinned) {
+      clusters.set(memory.id, [[memory]]);
+      continue;
+    }
+    const key = [memory.metadata.userId, memory.metadata.clientId || '', memory.metadata.type].join('|');
+    const groups = clusters.get(key) || [];
+    const match = groups.find(
+      (group) => jaccardSimilarity(group[0].content, memory.content) >= DUPLICATE_SIMILARITY_THRESHOLD
+    );
+    if (match) {
+      match.push(memory);
+    } else {
+      groups.push([memory]);
+    }
+    clusters.set(key, groups);
+  }
+
+  for (const group of [...clusters.values()].flat()) {
+    const recallCount = group.reduce((sum, m) => sum + (recallCounts.get(m.id) || 0), 0);
+    const promote = recallCount >= PROMOTION_RECALL_COUNT;
+
+    if (group.length > 1) {
+      const replacement = consolidateMemories(group);
+      if (promote) replacement.importance = 'high';
+      plan.merges.push({ sources: group, replacement, recallCount });
+    } else if (promote && group[0].metadata.importance !== 'high') {
+      plan.promotions.push({ memory: group[0], recallCount });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Count one recall for each memory injected into a chat response.
+ * Recall tracking is best-effort and never fails the chat.
+ */
+export async function recordMemoryRecalls(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  memoryIds: string[]
+): Promise<void> {
+  if (memoryIds.length === 0) return;
+  try {
+    const { error } = await supabase.rpc('record_memory_recalls', {
+      p_agency_id: agencyId,
+      p_user_id: userId,
+      p_memory_ids: memoryIds,
+    });
+    if (error) {
+      console.warn('[Memory] Failed to record recalls:', error.message);
+    }
+  } catch (error) {
+    console.warn('[Memory] Failed to record recalls:', error);
+  }
+}
+
+async function loadRecallCounts(
+  supabase: SupabaseClient,
+  agencyId: string,
+  memoryIds: string[]
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < memoryIds.length; i += RECALL_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('memory_recall')
+      .select('memory_id, recall_count')
+      .eq('agency_id', agencyId)
+      .in('memory_id', memoryIds.slice(i, i + RECALL_LOOKUP_CHUNK));
+
+    if (error) throw new Error(`Failed to load memory recalls: ${error.message}`);
+    for (const row of data || []) {
+      counts.set(row.memory_id, row.recall_count);
+    }
+  }
+  return counts;
+}
+
+/** Hand the originals' recall count on to their replacement */
+async function moveRecalls(
+  supabase: SupabaseClient,
+  agencyId: string,
+  userId: string,
+  fromIds: string[],
+  toId: string,
+  recallCount: number
+): Promise<void> {
+  await supabase.from('memory_recall').delete().eq('agency_id', agencyId).in('memory_id', fromIds);
+  if (recallCount > 0) {
+    await supabase.from('memory_recall').upsert({
+      agency_id: agencyId,
+      memory_id: toId,
+      user_id: userId,
+      recall_count: recallCount,
+      last_recalled_at: new Date().toISOString(),
+    });
+  }
+}
+
+async function listAllMemories(mem0: Mem0Service, agencyId: string, userId: string): Promise<Memory[]> {
+  const memories: Memory[] = [];
+  for (let page = 1; memories.length < MAX_MEMORIES_PER_USER; page++) {
+    const result = await mem0.listMemories(agencyId, userId, page, LIST_PAGE_SIZE);
+    memories.push(...result.memories);
+    if (result.memories.length < LIST_PAGE_SIZE) break;
+  }
+  return memories;
+}
+
+/**
+ * Replace `sources` with one new memory, moving their recalls to it.
+ * The replacement is added first so a failure never loses the content.
+ */
+async function replaceMemories(
+  supabase: SupabaseClient,
+  mem0: Mem0Service,
+  sources: Memory[],
+  replacement: MemoryAddRequest,
+  recallCount: number
+): Promise<void> {
+  const added = await mem0.addMemory(replacement);
+  for (const source of sources) {
+    if (!(await mem0.deleteMemory(source.id))) {
+      throw new Error(`Failed to delete memory ${source.id} after replacing it with ${added.id}`);
+    }
+  }
+  await moveRecalls(
+    supabase,
+    replacement.agencyId,
+    replacement.userId,
+    sources.map((m) => m.id),
+    added.id,
+    recallCount
+  );
+}
+
+async function applyExpiry(
+  supabase: SupabaseClient,
+  mem0: Mem0Service,
+  agencyId: string,
+  userId: string,
+  expired: MemoryMaintenancePlan['expired'],
+  report: MemoryMaintenanceReport
+): Promise<void> {
+  const toArchive = expired.filter((e) => e.action === 'archive').map((e) => e.memory);
+  let archived = toArchive;
+
+  if (toArchive.length) {
+    const { error } = await supabase.from('memory_archive').insert(
+      toArchive.map((memory) => ({
+        agency_id: agencyId,
+        user_id: userId,
+        memory_id: memory.id,
+        content: memory.content,
+        metadata: memory.metadata,
+        memory_created_at: memory.createdAt.toISOString(),
+      }))
+    );
+    // Keep them in the store rather than lose them; the next run retries
+    if (error) {
+      report.errors.push(`User ${userId}: failed to archive expired memories: ${error.message}`);
+      archived = [];
+    }
+  }
+
+  const removable = [...archived, ...expired.filter((e) => e.action === 'delete').map((e) => e.memory)];
+  const removed: string[] = [];
+  for (const memory of removable) {
+    if (await mem0.deleteMemory(memory.id)) {
+      removed.push(memory.id);
+      if (archived.includes(memory)) {
+        report.expiredArchived++;
+      } else {
+        report.expiredDeleted++;
+      }
+    } else {
+      report.errors.push(`User ${userId}: failed to delete expired memory ${memory.id}`);
+    }
+  }
+
+  if (removed.length) {
+    await supabase.from('memory_recall').delete().eq('agency_id', agencyId).in('memory_id', removed);
+  }
+}
+
+async function saveMaintenanceReport(supabase: SupabaseClient, report: MemoryMaintenanceReport): Promise<void> {
+  const { error } = await supabase.from('memory_maintenance_report').insert({
+    agency_id: report.agencyId,
+    started_at: report.startedAt,
+    users_scanned: report.usersScanned,
+    memories_scanned: report.memoriesScanned,
+    expired_deleted: report.expiredDeleted,
+    expired_archived: report.expiredArchived,
+    duplicates_merged: report.duplicatesMerged,
+    consolidated: report.consolidated,
+    promoted: report.promoted,
+    errors: report.errors,
+  });
+  if (error) {
+    console.error('[Memory] Failed to save maintenance report:', { agencyId: report.agencyId, error: error.message });
+  }
+}
+
+/**
+ * Expire, compact and promote every memory in an agency, one user at a time.
+ * A failing user is recorded in the report and skipped.
+ */
+export async function runMemoryMaintenance(
+  supabase: SupabaseClient,
+  mem0: Mem0Service,
+  agencyId: string,
+  now: Date = new Date()
+): Promise<MemoryMaintenanceReport> {
+  const report: MemoryMaintenanceReport = {
+    agencyId,
+    startedAt: now.toISOString(),
+    usersScanned: 0,
+    memoriesScanned: 0,
+    expiredDeleted: 0,
+    expiredArchived: 0,
+    duplicatesMerged: 0,
+    consolidated: 0,
+    promoted: 0,
+    errors: [],
+  };
+
+  const { data: users, error: usersError } = await supabase
+    .from('user')
+    .select('id')
+    .eq('agency_id', agencyId);
+
+  if (usersError) {
+    report.errors.push(`Failed to load users: ${usersError.message}`);
+  }
+
+  for (const user of users || []) {
+    try {
+      const memories = await listAllMemories(mem0, agencyId, user.id);
+      report.usersScanned++;
+      report.memoriesScanned += memories.length;
+      if (memories.length === 0) continue;
+
+      const recallCounts = await loadRecallCounts(supabase, agencyId, memories.map((m) => m.id));
+      const plan = planMemoryMaintenance(memories, recallCounts, now);
+
+      await applyExpiry(supabase, mem0, agencyId, user.id, plan.expired, report);
+
+      for (const merge of plan.merges) {
+        await replaceMemories(supabase, mem0, merge.sources, merge.replacement, merge.recallCount);
+        report.duplicatesMerged += merge.sources.length;
+        report.consolidated++;
+        if (merge.replacement.importance === 'high' && merge.sources.some((m) => m.metadata.importance !== 'high')) {
+          report.promoted++;
+        }
+      }
+
+      for (const promotion of plan.promotions) {
+        if (!(await mem0.updateMemoryAttributes(promotion.memory, { importance: 'high' }))) {
+          throw new Error(`Failed to promote memory ${promotion.memory.id}`);
+        }
+        report.promoted++;
+      }
+    } catch (error) {
+      report.errors.push(`User ${user.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  await saveMaintenanceReport(supabase, report);
+  return report;
+}
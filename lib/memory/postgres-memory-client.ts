@@ -0,0 +1,354 @@
+/**
+ * Postgres Memory Client
+ *
+ * A Mem0MCPClient backed by the `memory` and `memory_history` tables, so
+ * memory keeps working in self-hosted and offline deployments where the Mem0
+ * gateway is unreachable. Selected with MEMORY_BACKEND=postgres.
+ *
+ * Uses the same entity model as Mem0 (app_id / user_id / agent_id / run_id
+ * plus free-form metadata). Differences from Mem0:
+ * - Memories are stored as given: there is no LLM fact extraction, so `infer`
+ *   is ignored and `messages` without `content` are stored as a transcript
+ * - Search matches any query word (full-text), blended with embedding
+ *   similarity when an `embed` function is configured
+ * - configureProject has nothing to configure
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Mem0MCPClient } from './mem0-service';
+
+/** Embeds texts for similarity search; `appId` is the agency to meter against */
+export type MemoryEmbedder = (texts: string[], appId?: string) => Promise<number[][]>;
+
+export interface PostgresMem0ClientOptions {
+  /** Without it, search is lexical only */
+  embed?: MemoryEmbedder;
+}
+
+type EntityScope = {
+  userId?: string;
+  appId?: string;
+  agentId?: string;
+  runId?: string;
+};
+
+type MemoryRow = {
+  id: string;
+  content: string;
+  user_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+  expires_on: string | null;
+};
+
+const MEMORY_COLUMNS = 'id, content, user_id, metadata, created_at, updated_at, expires_on';
+const DEFAULT_TOP_K = 100;
+const DEFAULT_PAGE_SIZE = 50;
+
+const FILTER_ENTITY_KEYS: Record<string, keyof EntityScope> = {
+  user_id: 'userId',
+  app_id: 'appId',
+  agent_id: 'agentId',
+  run_id: 'runId',
+};
+
+/** Today as YYYY-MM-DD, the format of expires_on */
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function isExpired(expiresOn: string | null): boolean {
+  return expiresOn !== null && expiresOn <= today();
+}
+
+function toResult(row: MemoryRow) {
+  return {
+    id: row.id,
+    memory: row.content,
+    user_id: row.user_id ?? undefined,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    expiration_date: row.expires_on,
+  };
+}
+
+/** Fallback content for `messages`-only adds, which Mem0 would distil into facts */
+function toTranscript(messages: Array<{ role: string; content: string }> | undefined): string {
+  return (messages || []).map((m) => `${m.role}: ${m.content}`).join('\n').trim();
+}
+
+/**
+ * Read entity and metadata conditions from Mem0's filter format, either
+ * `{ AND: [{ app_id }, { user_id }, { metadata: { clientId } }] }` or a
+ * single condition object. Other conditions are not supported and are ignored.
+ */
+export function parseMemoryFilters(filters: Record<string, unknown> | undefined): {
+  scope: EntityScope;
+  metadata?: Record<string, unknown>;
+} {
+  const scope: EntityScope = {};
+  let metadata: Record<string, unknown> | undefined;
+  if (!filters) return { scope };
+
+  const conditions = Array.isArray(filters.AND) ? (filters.AND as Array<Record<string, unknown>>) : [filters];
+  for (const condition of conditions) {
+    for (const [key, value] of Object.entries(condition || {})) {
+      if (key in FILTER_ENTITY_KEYS && typeof value === 'string') {
+        scope[FILTER_ENTITY_KEYS[key]] = value;
+      } else if (key === 'metadata' && value && typeof value === 'object') {
+        metadata = { ...metadata, ...(value as Record<string, unknown>) };
+      } else {
+        console.warn(`[Memory] Unsupported search filter ignored: ${key}`);
+      }
+    }
+  }
+
+  return { scope, metadata };
+}
+
+/**
+ * Create a Mem0MCPClient that stores memories in Postgres.
+ * Pass a service role client: calls are scoped by their entity ids, not RLS.
+ */
+export function createPostgresMem0Client(
+  supabase: SupabaseClient,
+  options: PostgresMem0ClientOptions = {}
+): Mem0MCPClient {
+  const { embed } = options;
+
+  // Embedding failures degrade search to lexical rather than failing the call
+  async function embedText(text: string, appId?: string): Promise<number[] | null> {
+    if (!embed) return null;
+    try {
+      const [embedding] = await embed([text], appId);
+      return embedding?.length ? embedding : null;
+    } catch (error) {
+      console.warn('[Memory] Embedding failed, continuing without it:', error);
+      return null;
+    }
+  }
+
+  // History is an audit trail; a failed write must not fail the change itself
+  async function recordHistory(entries: Array<{
+    memory_id: string;
+    app_id: string | null;
+    user_id: string | null;
+    event: 'ADD' | 'UPDATE' | 'DELETE';
+    old_memory?: string;
+    new_memory?: string;
+  }>): Promise<void> {
+    if (entries.length === 0) return;
+    const { error } = await supabase.from('memory_history').insert(entries);
+    if (error) {
+      console.warn('[Memory] Failed to record history:', error.message);
+    }
+  }
+
+  async function findLiveMemory(memoryId: string) {
+    const { data, error } = await supabase
+      .from('memory')
+      .select(`${MEMORY_COLUMNS}, app_id`)
+      .eq('id', memoryId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load memory: ${error.message}`);
+    if (!data || isExpired(data.expires_on)) throw new Error(`Memory not found: ${memoryId}`);
+    return data as MemoryRow & { app_id: string | null };
+  }
+
+  return {
+    addMemory: async (params) => {
+      const content = params.content?.trim() || toTranscript(params.messages);
+      if (!content) throw new Error('Memory content is required');
+
+      const embedding = await embedText(content, params.appId);
+      const { data, error } = await supabase
+        .from('memory')
+        .insert({
+          app_id: params.appId ?? null,
+          user_id: params.userId,
+          agent_id: params.agentId ?? null,
+          run_id: params.runId ?? null,
+          content,
+          metadata: params.metadata ?? {},
+          categories: params.categories ?? [],
+          embedding,
+          expires_on: params.expirationDate ?? null,
+          ...(params.timestamp !== undefined && { created_at: new Date(params.timestamp * 1000).toISOString() }),
+        })
+        .select('id')
+        .single();
+
+      if (error || !data) throw new Error(`Failed to add memory: ${error?.message}`);
+
+      await recordHistory([{
+        memory_id: data.id,
+        app_id: params.appId ?? null,
+        user_id: params.userId,
+        event: 'ADD',
+        new_memory: content,
+      }]);
+      return { id: data.id };
+    },
+
+    searchMemories: async (params) => {
+      const { scope, metadata } = parseMemoryFilters(params.filters);
+      const appId = scope.appId ?? params.appId;
+      const queryEmbedding = await embedText(params.query, appId);
+
+      const { data, error } = await supabase.rpc('search_memories', {
+        p_query: params.query,
+        p_app_id: appId,
+        p_user_id: scope.userId ?? params.userId,
+        p_agent_id: scope.agentId ?? params.agentId,
+        p_run_id: scope.runId ?? params.runId,
+        p_metadata: metadata,
+        p_categories: params.categories?.length ? params.categories : undefined,
+        p_query_embedding: queryEmbedding ?? undefined,
+        p_limit: params.topK ?? DEFAULT_TOP_K,
+      });
+
+      if (error) throw new Error(`Failed to search memories: ${error.message}`);
+      return ((data || []) as Array<MemoryRow & { score: number }>).map((row) => ({
+        id: row.id,
+        memory: row.content,
+        score: row.score,
+        metadata: row.metadata ?? {},
+        created_at: row.created_at,
+      }));
+    },
+
+    getMemory: async ({ memoryId }) => toResult(await findLiveMemory(memoryId)),
+
+    listMemories: async (params) => {
+      const page = Math.max(params.page ?? 1, 1);
+      const pageSize = params.pageSize ?? DEFAULT_PAGE_SIZE;
+      const from = (page - 1) * pageSize;
+
+      let query = supabase
+        .from('memory')
+        .select(MEMORY_COLUMNS, { count: 'exact' })
+        .or(`expires_on.is.null,expires_on.gt.${today()}`);
+      if (params.appId) query = query.eq('app_id', params.appId);
+      if (params.userId) query = query.eq('user_id', params.userId);
+      if (params.agentId) query = query.eq('agent_id', params.agentId);
+      if (params.runId) query = query.eq('run_id', params.runId);
+      const { metadata } = parseMemoryFilters(params.filters);
+      if (metadata) query = query.contains('metadata', metadata);
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw new Error(`Failed to list memories: ${error.message}`);
+      const results = ((data || []) as MemoryRow[]).map(toResult);
+      return { results, count: count ?? results.length };
+    },
+
+    updateMemory: async ({ memoryId, content, metadata, expirationDate }) => {
+      const existing = await findLiveMemory(memoryId);
+      const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (content !== undefined) {
+        update.content = content;
+        if (embed) update.embedding = await embedText(content, existing.app_id ?? undefined);
+      }
+      if (metadata) update.metadata = metadata;
+      if (expirationDate !== undefined) update.expires_on = expirationDate;
+
+      const { error } = await supabase.from('memory').update(update).eq('id', memoryId);
+      if (error) throw new Error(`Failed to update memory: ${error.message}`);
+
+      // History tracks content; metadata-only changes (pin, importance) aren't events
+      if (content !== undefined) {
+        await recordHistory([{
+          memory_id: memoryId,
+          app_id: existing.app_id,
+          user_id: existing.user_id,
+          event: 'UPDATE',
+          old_memory: existing.content,
+          new_memory: content,
+        }]);
+      }
+      return { id: memoryId, memory: content ?? existing.content };
+    },
+
+    deleteMemory: async ({ memoryId }) => {
+      const { data, error } = await supabase
+        .from('memory')
+        .delete()
+        .eq('id', memoryId)
+        .select('id, content, app_id, user_id');
+
+      if (error) throw new Error(`Failed to delete memory: ${error.message}`);
+      if (!data?.length) throw new Error(`Memory not found: ${memoryId}`);
+
+      await recordHistory([{
+        memory_id: memoryId,
+        app_id: data[0].app_id,
+        user_id: data[0].user_id,
+        event: 'DELETE',
+        old_memory: data[0].content,
+      }]);
+      return { success: true, deleted: memoryId };
+    },
+
+    deleteAllMemories: async (params) => {
+      if (!params.userId && !params.appId && !params.agentId && !params.runId) {
+        throw new Error('deleteAllMemories requires userId, appId, agentId or runId');
+      }
+
+      let query = supabase.from('memory').delete();
+      if (params.appId) query = query.eq('app_id', params.appId);
+      if (params.userId) query = query.eq('user_id', params.userId);
+      if (params.agentId) query = query.eq('agent_id', params.agentId);
+      if (params.runId) query = query.eq('run_id', params.runId);
+
+      const { data, error } = await query.select('id, content, app_id, user_id');
+      if (error) throw new Error(`Failed to delete memories: ${error.message}`);
+
+      await recordHistory((data || []).map((row) => ({
+        memory_id: row.id,
+        app_id: row.app_id,
+        user_id: row.user_id,
+        event: 'DELETE' as const,
+        old_memory: row.content,
+      })));
+      return { success: true };
+    },
+
+    getMemoryHistory: async ({ memoryId }) => {
+      const { data, error } = await supabase
+        .from('memory_history')
+        .select('id, memory_id, old_memory, new_memory, event, created_at')
+        .eq('memory_id', memoryId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw new Error(`Failed to load memory history: ${error.message}`);
+      return (data || []).map((row) => ({
+        id: row.id,
+        memory_id: row.memory_id,
+        old_memory: row.old_memory ?? undefined,
+        new_memory: row.new_memory ?? undefined,
+        event: row.event,
+        created_at: row.created_at,
+      }));
+    },
+
+    getEntities: async () => {
+      const { data, error } = await supabase.rpc('memory_entities');
+      if (error) throw new Error(`Failed to list memory entities: ${error.message}`);
+      return ((data || []) as Array<{ type: string; id: string; count: number }>).map((row) => ({
+        type: row.type,
+        id: row.id,
+        count: Number(row.count),
+      }));
+    },
+
+    configureProject: async () => ({
+      success: false,
+      message: 'Project configuration applies to the Mem0 backend only',
+    }),
+  };
+}
@@ -30,6 +30,8 @@ export interface Memory {
   score?: number;
   createdAt: Date;
   updatedAt: Date;
+  /** Stored expiration date, when the backend reports one */
+  expiresAt?: Date;
 }
 
 /**
@@ -40,10 +42,14 @@ export interface MemoryMetadata {
   clientId?: string;
   userId: string;
   sessionId?: string;
+  /** Chat message the memory was learned from, within sessionId */
+  sourceMessageId?: string;
   type: MemoryType;
   topic?: string;
   entities?: string[];
   importance?: 'low' | 'medium' | 'high';
+  /** Pinned by the user: never expires and is never merged away */
+  pinned?: boolean;
 }
 
 /**
@@ -104,13 +110,19 @@ export interface MemoryAddRequest {
   clientId?: string;
   userId: string;
   sessionId?: string;
+  sourceMessageId?: string;
   type: MemoryType;
   topic?: string;
   entities?: string[];
   importance?: 'low' | 'medium' | 'high';
+  pinned?: boolean;
   /** When false, mem0 stores content as-is without AI inference/filtering.
    *  Use false for user-confirmed suggestions where we already extracted content. */
   infer?: boolean;
+  /** Backdates the memory, e.g. a replacement keeping its originals' age */
+  createdAt?: Date;
+  /** Overrides the type's ttl from today */
+  expiresAt?: Date;
 }
 
 /**
@@ -158,6 +170,16 @@ export interface MemoryUpdateRequest {
   metadata?: Partial<MemoryMetadata>;
 }
 
+/**
+ * Filters for the memory manager's list
+ */
+export interface MemoryListFilters {
+  types?: MemoryType[];
+  clientId?: string;
+  importance?: 'low' | 'medium' | 'high';
+  pinned?: boolean;
+}
+
 /**
  * Memory history entry — tracks how a memory evolved over time
  */
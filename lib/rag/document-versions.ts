@@ -0,0 +1,457 @@
+/**
+ * Document Versions
+ *
+ * Uploading a revised file adds a version to the document instead of
+ * replacing it, so its views, downloads, star and client scoping survive.
+ * Each version row in `document_version` keeps its stored file and extracted
+ * text; the document row always describes the current version.
+ *
+ * This enables:
+ * - A version list with the author and note of each upload
+ * - Restoring an older version, recorded as a new version
+ * - Line diffs between versions whose text could be extracted
+ * - Re-indexing on replace: the File Search Store holds only the current
+ *   version, so older text stops matching searches
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { diffLines, type DiffLine } from '@/lib/cartridges/versions';
+import { getFileSearchStoreService } from '@/lib/gemini/file-search-store-service';
+import { getOrCreateAgencyStore } from '@/lib/gemini/store-provisioner';
+import { extractDocumentText } from './text-extraction';
+
+export const DOCUMENT_VERSION_LIST_LIMIT = 50;
+
+/** Larger texts are not diffed: the line diff is quadratic in memory */
+export const MAX_DIFF_LINES = 2000;
+
+const VERSION_COLUMNS =
+  'id, document_id, agency_id, version_number, storage_path, file_name, file_size, mime_type, change_note, created_by, created_at';
+
+/**
+ * Document version from database. extracted_text is only loaded for diffs.
+ */
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  agency_id: string;
+  version_number: number;
+  storage_path: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  extracted_text?: string | null;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+  author?: { first_name: string; last_name: string } | null;
+}
+
+export interface VersionFile {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface UploadVersionOptions {
+  agencyId: string;
+  userId: string;
+  documentId: string;
+  file: VersionFile;
+  changeNote?: string;
+}
+
+export interface RestoreVersionOptions {
+  agencyId: string;
+  userId: string;
+  documentId: string;
+  versionId: string;
+}
+
+export type DocumentVersionDiff =
+  | { available: true; lines: DiffLine[] }
+  | { available: false; reason: 'no_text' | 'too_large' };
+
+type CurrentDocument = {
+  id: string;
+  title: string;
+  category: string;
+  client_id: string | null;
+  current_version: number;
+};
+
+async function getCurrentDocument(
+  supabase: SupabaseClient,
+  agencyId: string,
+  documentId: string
+): Promise<CurrentDocument | null> {
+  const { data, error } = await supabase
+    .from('document')
+    .select('id, title, category, client_id, current_version')
+    .eq('id', documentId)
+    .eq('agency_id', agencyId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load document: ${error.message}`);
+  }
+
+  return (data as CurrentDocument | null) ?? null;
+}
+
+/**
+ * Insert the next version of a document and make it current. Throws on
+ * failure, including a concurrent upload taking the same version number.
+ */
+async function addVersion(
+  supabase: SupabaseClient,
+  document: CurrentDocument,
+  agencyId: string,
+  version: Pick<DocumentVersion, 'storage_path' | 'file_name' | 'file_size' | 'mime_type' | 'change_note' | 'created_by'> & {
+    extracted_text: string | null;
+  }
+): Promise<DocumentVersion> {
+  const { data, error } = await supabase
+    .from('document_version')
+    .insert({
+      ...version,
+      document_id: document.id,
+      agency_id: agencyId,
+      version_number: document.current_version + 1,
+    })
+    .select(VERSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to record document version: ${error?.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('document')
+    .update({
+      storage_path: version.storage_path,
+      file_name: version.file_name,
+      file_size: version.file_size,
+      mime_type: version.mime_type,
+      extracted_text: version.extracted_text,
+      current_version: (data as DocumentVersion).version_number,
+      index_status: 'indexing',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', document.id)
+    .eq('agency_id', agencyId);
+
+  if (updateError) {
+    await supabase.from('document_version').delete().eq('id', (data as DocumentVersion).id);
+    throw new Error(`Failed to update document: ${updateError.message}`);
+  }
+
+  return data as DocumentVersion;
+}
+
+/**
+ * Record the first version of a newly uploaded document. Failures are logged
+ * and return null so history never blocks an upload.
+ */
+export async function recordInitialDocumentVersion(
+  supabase: SupabaseClient,
+  document: { id: string; agency_id: string; storage_path: string; file_name: string; file_size: number; mime_type: string; uploaded_by: string }
+): Promise<DocumentVersion | null> {
+  const { data, error } = await supabase
+    .from('document_version')
+    .insert({
+      document_id: document.id,
+      agency_id: document.agency_id,
+      version_number: 1,
+      storage_path: document.storage_path,
+      file_name: document.file_name,
+      file_size: document.file_size,
+      mime_type: document.mime_type,
+      change_note: 'Initial version',
+      created_by: document.uploaded_by,
+    })
+    .select(VERSION_COLUMNS)
+    .single();
+
+  if (error) {
+    console.warn('[DocumentVersions] Failed to record initial version:', error.message);
+    return null;
+  }
+
+  return data as DocumentVersion;
+}
+
+/**
+ * Versions of a document, newest first, with their authors
+ */
+export async function listDocumentVersions(
+  supabase: SupabaseClient,
+  agencyId: string,
+  documentId: string,
+  limit = DOCUMENT_VERSION_LIST_LIMIT
+): Promise<DocumentVersion[]> {
+  const { data, error } = await supabase
+    .from('document_version')
+    .select(`${VERSION_COLUMNS}, author:user!document_version_created_by_fkey(first_name, last_name)`)
+    .eq('agency_id', agencyId)
+    .eq('document_id', documentId)
+    .order('version_number', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[DocumentVersions] Failed to list versions:', error);
+    throw new Error('Failed to list document versions');
+  }
+
+  return (data || []) as unknown as DocumentVersion[];
+}
+
+/**
+ * A single version of a document, scoped to the agency. Pass withText to
+ * load its extracted text for diffing.
+ */
+export async function getDocumentVersion(
+  supabase: SupabaseClient,
+  agencyId: string,
+  documentId: string,
+  versionId: string,
+  withText = false
+): Promise<DocumentVersion | null> {
+  const { data, error } = await supabase
+    .from('document_version')
+    .select(`${VERSION_COLUMNS}${withText ? ', extracted_text' : ''}, author:user!document_version_created_by_fkey(first_name, last_name)`)
+    .eq('id', versionId)
+    .eq('agency_id', agencyId)
+    .eq('document_id', documentId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data as unknown as DocumentVersion;
+}
+
+/**
+ * The version before `versionNumber`, with its text, or null for the first
+ */
+export async function getPreviousDocumentVersion(
+  supabase: SupabaseClient,
+  agencyId: string,
+  documentId: string,
+  versionNumber: number
+): Promise<DocumentVersion | null> {
+  const { data, error } = await supabase
+    .from('document_version')
+    .select(`${VERSION_COLUMNS}, extracted_text`)
+    .eq('agency_id', agencyId)
+    .eq('document_id', documentId)
+    .lt('version_number', versionNumber)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load previous version: ${error.message}`);
+  }
+
+  return (data as DocumentVersion | null) ?? null;
+}
+
+/**
+ * Line diff between two versions' extracted text. Unavailable when either
+ * has no text (binary formats not yet indexed, or without text at all) or
+ * the text is too long to diff.
+ */
+export function diffDocumentVersions(
+  before: Pick<DocumentVersion, 'extracted_text'> | null,
+  after: Pick<DocumentVersion, 'extracted_text'>
+): DocumentVersionDiff {
+  const from = before ? before.extracted_text : '';
+  const to = after.extracted_text;
+  if (from == null || to == null) {
+    return { available: false, reason: 'no_text' };
+  }
+
+  const lineCount = (text: string) => text.split('\n').length;
+  if (lineCount(from) > MAX_DIFF_LINES || lineCount(to) > MAX_DIFF_LINES) {
+    return { available: false, reason: 'too_large' };
+  }
+
+  return { available: true, lines: diffLines(from, to) };
+}
+
+/**
+ * Store a revised file as the document's new current version. Text formats
+ * are extracted right away; others get their text when re-indexed.
+ * Returns null when the document doesn't exist. Call reindexDocument after.
+ */
+export async function uploadDocumentVersion(
+  supabase: SupabaseClient,
+  options: UploadVersionOptions
+): Promise<DocumentVersion | null> {
+  const { agencyId, userId, documentId, file } = options;
+
+  const document = await getCurrentDocument(supabase, agencyId, documentId);
+  if (!document) {
+    return null;
+  }
+
+  // Same layout as first uploads; every version keeps its own file
+  const storagePath = `${agencyId}/${document.category}/${Date.now()}-${file.fileName}`;
+  const { error: uploadError } = await supabase.storage
+    .from('documents')
+    .upload(storagePath, file.buffer, { contentType: file.mimeType, upsert: false });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload file to storage: ${uploadError.message}`);
+  }
+
+  try {
+    return await addVersion(supabase, document, agencyId, {
+      storage_path: storagePath,
+      file_name: file.fileName,
+      file_size: file.buffer.length,
+      mime_type: file.mimeType,
+      extracted_text: await extractDocumentText(file.buffer, file.mimeType),
+      change_note: options.changeNote?.trim() || null,
+      created_by: userId,
+    });
+  } catch (error) {
+    await supabase.storage.from('documents').remove([storagePath]);
+    throw error;
+  }
+}
+
+/**
+ * Make an older version current again. The restore is recorded as a new
+ * version pointing at the restored file, so history is never rewritten.
+ * Returns null when the document or version doesn't exist. Call
+ * reindexDocument after.
+ */
+export async function restoreDocumentVersion(
+  supabase: SupabaseClient,
+  options: RestoreVersionOptions
+): Promise<{ version: DocumentVersion; restored: DocumentVersion } | null> {
+  const { agencyId, userId, documentId, versionId } = options;
+
+  const [document, restored] = await Promise.all([
+    getCurrentDocument(supabase, agencyId, documentId),
+    getDocumentVersion(supabase, agencyId, documentId, versionId, true),
+  ]);
+  if (!document || !restored) {
+    return null;
+  }
+
+  const version = await addVersion(supabase, document, agencyId, {
+    storage_path: restored.storage_path,
+    file_name: restored.file_name,
+    file_size: restored.file_size,
+    mime_type: restored.mime_type,
+    extracted_text: restored.extracted_text ?? null,
+    change_note: `Restored version ${restored.version_number}`,
+    created_by: userId,
+  });
+
+  return { version, restored };
+}
+
+/**
+ * Index the document's current file in the agency's File Search Store,
+ * replacing the previously indexed version, and fill in its extracted text.
+ * Pass the file when the caller already has it. Never throws: failures are
+ * logged and leave the document marked failed.
+ */
+export async function reindexDocument(
+  supabase: SupabaseClient,
+  agencyId: string,
+  documentId: string,
+  buffer?: Buffer
+): Promise<'indexed' | 'indexing' | 'failed'> {
+  try {
+    const { data: document, error } = await supabase
+      .from('document')
+      .select('id, title, category, client_id, storage_path, mime_type, gemini_document_name, extracted_text, current_version')
+      .eq('id', documentId)
+      .eq('agency_id', agencyId)
+      .single();
+
+    if (error || !document) {
+      throw new Error(`Document not found: ${error?.message ?? documentId}`);
+    }
+
+    let data = buffer;
+    if (!data) {
+      const { data: file, error: downloadError } = await supabase.storage
+        .from('documents')
+        .download(document.storage_path);
+      if (downloadError || !file) {
+        throw new Error(`Failed to download file: ${downloadError?.message}`);
+      }
+      data = Buffer.from(await file.arrayBuffer());
+    }
+
+    const { storeName, storeId } = await getOrCreateAgencyStore(supabase, agencyId);
+    const service = getFileSearchStoreService();
+    const result = await service.replaceDocument(
+      storeName,
+      document.gemini_document_name,
+      new Blob([new Uint8Array(data)], { type: document.mime_type }),
+      {
+        displayName: document.title,
+        mimeType: document.mime_type,
+        agencyId,
+        scope: document.client_id ? 'client' : 'global',
+        clientId: document.client_id || undefined,
+        category: document.category,
+        useForTraining: true,
+      }
+    );
+
+    if (result.status === 'failed') {
+      throw new Error(result.errorMessage || 'File Search Store upload failed');
+    }
+
+    // Text for keyword search and diffs; the version is still indexed without it
+    let extractedText: string | null = document.extracted_text;
+    if (extractedText === null) {
+      try {
+        extractedText = await extractDocumentText(data, document.mime_type, (bytes, mimeType) =>
+          service.extractText(bytes, mimeType)
+        );
+      } catch (extractError) {
+        console.warn(`[DocumentVersions] Failed to extract text from document ${documentId}:`, extractError);
+      }
+    }
+
+    const status = result.status === 'active' ? 'indexed' : 'indexing';
+    await supabase
+      .from('document')
+      .update({
+        gemini_document_name: result.documentName || null,
+        file_search_store_id: storeId,
+        extracted_text: extractedText,
+        index_status: status,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', documentId);
+
+    if (extractedText !== null && document.extracted_text === null) {
+      await supabase
+        .from('document_version')
+        .update({ extracted_text: extractedText })
+        .eq('document_id', documentId)
+        .eq('version_number', document.current_version);
+    }
+
+    return status;
+  } catch (error) {
+    console.error(`[DocumentVersions] Failed to index document ${documentId}:`, error);
+    await supabase
+      .from('document')
+      .update({ index_status: 'failed', updated_at: new Date().toISOString() })
+      .eq('id', documentId);
+    return 'failed';
+  }
+}
@@ -6,6 +6,8 @@
  */
 
 import { GoogleGenAI } from '@google/genai';
+import { geminiUsage } from '@/lib/llm/providers/gemini';
+import type { LLMUsage } from '@/lib/llm/types';
 import type {
   DocumentMetadata,
   IndexResult,
@@ -578,7 +580,7 @@ export class GeminiRAGService {
       }));
 
       // Search with Gemini
-      const result = await this.genai.models.generateContent({
+      const stream = await this.genai.models.generateContentStream({
         model: this.model,
         contents: [
           {
@@ -600,9 +602,22 @@ When citing information, reference the specific document.`,
         },
       });
 
+      // Stream the answer; grounding metadata arrives with the final chunks
+      let responseText = '';
+      const groundingChunks: Array<{ retrievedContext?: { uri?: string; title?: string; text?: string } }> = [];
+      let usage: LLMUsage | undefined;
+      for await (const chunk of stream) {
+        const delta = chunk.text;
+        if (delta) {
+          responseText += delta;
+          request.onText?.(delta);
+        }
+        groundingChunks.push(...(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []));
+        usage = geminiUsage(chunk.usageMetadata) ?? usage;
+      }
+
       // Extract citations from grounding metadata
-      const responseText = result.text || '';
-      const citations = this.extractCitations(result, documents);
+      const citations = this.extractCitations({ candidates: [{ groundingMetadata: { groundingChunks } }] }, documents);
 
       // RELIABILITY: Record success to reset circuit breaker
       this.recordSuccess();
@@ -613,6 +628,8 @@ When citing information, reference the specific document.`,
         documentsUsed: documents.map((d) => d.id),
         searchTimeMs: Date.now() - startTime,
         isGrounded: citations.length > 0,
+        model: this.model,
+        usage,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Search failed';
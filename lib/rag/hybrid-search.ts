@@ -0,0 +1,355 @@
+/**
+ * Hybrid Document Search
+ *
+ * Ranks knowledge base documents for a query by combining Postgres full-text
+ * search over titles and extracted text (search_documents) with the File
+ * Search Store's semantic passage retrieval. The two rankings are merged with
+ * reciprocal rank fusion, so a document near the top of either list ranks
+ * well and one found by both ranks best.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, DocumentCategory } from '@/types/database';
+import type { RAGCitation } from './types';
+
+/** Reciprocal rank fusion constant; dampens the gap between the top ranks */
+export const RRF_K = 60;
+
+const DEFAULT_LIMIT = 50;
+const MAX_PASSAGES_PER_HIT = 3;
+const PASSAGE_LENGTH = 280;
+
+const HIT_COLUMNS = 'id, title, file_name, mime_type, category, client_id, uploaded_by, created_at, gemini_document_name';
+
+export interface DocumentSearchFilters {
+  category?: DocumentCategory;
+  clientId?: string;
+  uploadedBy?: string;
+  /** ISO date; uploads on or after it */
+  from?: string;
+  /** ISO date; uploads before it */
+  to?: string;
+}
+
+export type SearchMatchSource = 'keyword' | 'semantic';
+
+export interface DocumentSearchPassage {
+  /** Excerpt with matched terms wrapped in ** */
+  text: string;
+  source: SearchMatchSource;
+}
+
+export interface DocumentSearchHit {
+  documentId: string;
+  title: string;
+  /** Title with matched terms wrapped in ** */
+  titleHighlight: string;
+  fileName: string;
+  mimeType: string;
+  category: DocumentCategory;
+  clientId: string | null;
+  uploadedBy: string;
+  createdAt: string;
+  /** Fused score; only meaningful relative to other hits of the same search */
+  score: number;
+  matchedBy: SearchMatchSource[];
+  passages: DocumentSearchPassage[];
+}
+
+export interface SearchFacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface DocumentSearchFacets {
+  category: SearchFacetBucket[];
+  clientId: SearchFacetBucket[];
+  uploadedBy: SearchFacetBucket[];
+}
+
+/** A search_documents row */
+export interface KeywordMatch {
+  document_id: string;
+  rank: number;
+  title_highlight: string;
+  snippet: string | null;
+}
+
+/** A semantic passage resolved to the document it came from */
+export interface SemanticMatch {
+  documentId: string;
+  text: string;
+}
+
+export type DocumentSearchRow = Pick<
+  Database['public']['Tables']['document']['Row'],
+  'id' | 'title' | 'file_name' | 'mime_type' | 'category' | 'client_id' | 'uploaded_by' | 'created_at' | 'gemini_document_name'
+>;
+
+/** Retrieves semantic passages for a query, already scoped to the filters it can express */
+export type SemanticRetriever = (query: string) => Promise<RAGCitation[]>;
+
+export interface HybridSearchOptions {
+  agencyId: string;
+  query: string;
+  filters?: DocumentSearchFilters;
+  /** Omit for keyword-only search (e.g. no File Search Store yet) */
+  retrieveSemantic?: SemanticRetriever;
+  limit?: number;
+}
+
+export interface HybridSearchResult {
+  hits: DocumentSearchHit[];
+  facets: DocumentSearchFacets;
+  /** False when semantic retrieval was unavailable or failed */
+  semantic: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Query words worth highlighting, without web-search operators */
+function queryTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .replace(/["()]/g, ' ')
+    .split(/\s+/)
+    .map((term) => term.replace(/^-/, ''))
+    .filter((term) => term.length >= 3 && term !== 'and' && term !== 'not' && term !== 'or');
+  return [...new Set(terms)];
+}
+
+function termPattern(query: string): RegExp | null {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return null;
+  return new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+}
+
+/**
+ * Wrap query terms (and words they prefix) in ** markers, the same
+ * highlighting search_documents returns
+ */
+export function highlightTerms(text: string, query: string): string {
+  const pattern = termPattern(query);
+  return pattern ? text.replace(pattern, '**$&**') : text;
+}
+
+/** Excerpt of `text` around the first query term, highlighted */
+export function highlightPassage(text: string, query: string, maxLength = PASSAGE_LENGTH): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxLength) return highlightTerms(clean, query);
+
+  const match = termPattern(query)?.exec(clean);
+  const start = match ? Math.max(0, Math.min(match.index - Math.floor(maxLength / 4), clean.length - maxLength)) : 0;
+  const excerpt = clean.slice(start, start + maxLength).trim();
+
+  return `${start > 0 ? '…' : ''}${highlightTerms(excerpt, query)}${start + maxLength < clean.length ? '…' : ''}`;
+}
+
+/**
+ * Merge keyword and semantic matches into ranked hits using reciprocal rank
+ * fusion. Matches without a row in `rows` (filtered out or inactive) are
+ * dropped.
+ */
+export function mergeSearchHits(
+  keyword: KeywordMatch[],
+  semantic: SemanticMatch[],
+  rows: Map<string, DocumentSearchRow>,
+  query: string,
+  limit = DEFAULT_LIMIT
+): DocumentSearchHit[] {
+  const hits = new Map<string, DocumentSearchHit>();
+
+  function hitFor(documentId: string): DocumentSearchHit | null {
+    const existing = hits.get(documentId);
+    if (existing) return existing;
+
+    const row = rows.get(documentId);
+    if (!row) return null;
+
+    const hit: DocumentSearchHit = {
+      documentId,
+      title: row.title,
+      titleHighlight: highlightTerms(row.title, query),
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      category: row.category,
+      clientId: row.client_id,
+      uploadedBy: row.uploaded_by,
+      createdAt: row.created_at,
+      score: 0,
+      matchedBy: [],
+      passages: [],
+    };
+    hits.set(documentId, hit);
+    return hit;
+  }
+
+  keyword.forEach((match, index) => {
+    const hit = hitFor(match.document_id);
+    if (!hit) return;
+    hit.score += 1 / (RRF_K + index + 1);
+    hit.matchedBy.push('keyword');
+    hit.titleHighlight = match.title_highlight || hit.titleHighlight;
+    if (match.snippet) hit.passages.push({ text: match.snippet, source: 'keyword' });
+  });
+
+  // A document's semantic rank is where its best passage appears
+  let semanticRank = 0;
+  const seenPassages = new Set<string>();
+  for (const match of semantic) {
+    const hit = hitFor(match.documentId);
+    if (!hit) continue;
+
+    if (!hit.matchedBy.includes('semantic')) {
+      semanticRank++;
+      hit.score += 1 / (RRF_K + semanticRank);
+      hit.matchedBy.push('semantic');
+    }
+
+    const text = match.text.trim();
+    const passageKey = `${match.documentId}:${text}`;
+    if (text && !seenPassages.has(passageKey) && hit.passages.length < MAX_PASSAGES_PER_HIT) {
+      seenPassages.add(passageKey);
+      hit.passages.push({ text: highlightPassage(text, query), source: 'semantic' });
+    }
+  }
+
+  return [...hits.values()]
+    .sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
+
+function countBy(hits: DocumentSearchHit[], key: (hit: DocumentSearchHit) => string | null): SearchFacetBucket[] {
+  const counts = new Map<string, number>();
+  for (const hit of hits) {
+    const value = key(hit);
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/** Hit counts per category, client and uploader */
+export function buildSearchFacets(hits: DocumentSearchHit[]): DocumentSearchFacets {
+  return {
+    category: countBy(hits, (hit) => hit.category),
+    clientId: countBy(hits, (hit) => hit.clientId),
+    uploadedBy: countBy(hits, (hit) => hit.uploadedBy),
+  };
+}
+
+/**
+ * Resolve semantic passages to documents. Passages carry the store document
+ * name when Gemini returns it, and otherwise the display name, which is the
+ * document title at upload.
+ */
+export function resolveSemanticMatches(citations: RAGCitation[], rows: DocumentSearchRow[]): SemanticMatch[] {
+  const byStoreName = new Map<string, string>();
+  const byTitle = new Map<string, string>();
+  for (const row of rows) {
+    if (row.gemini_document_name) byStoreName.set(row.gemini_document_name, row.id);
+    if (!byTitle.has(row.title)) byTitle.set(row.title, row.id);
+  }
+
+  const matches: SemanticMatch[] = [];
+  for (const citation of citations) {
+    const documentId = byStoreName.get(citation.documentId) ?? byTitle.get(citation.documentName);
+    if (documentId) matches.push({ documentId, text: citation.text });
+  }
+  return matches;
+}
+
+/** Active agency documents matching the filters whose `column` is one of `values` */
+async function findDocumentRows(
+  supabase: SupabaseClient<Database>,
+  agencyId: string,
+  filters: DocumentSearchFilters,
+  column: 'id' | 'title' | 'gemini_document_name',
+  values: string[]
+): Promise<DocumentSearchRow[]> {
+  let query = supabase
+    .from('document')
+    .select(HIT_COLUMNS)
+    .eq('agency_id', agencyId)
+    .eq('is_active', true)
+    .in(column, values);
+  if (filters.category) query = query.eq('category', filters.category);
+  if (filters.clientId) query = query.eq('client_id', filters.clientId);
+  if (filters.uploadedBy) query = query.eq('uploaded_by', filters.uploadedBy);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lt('created_at', filters.to);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load documents: ${error.message}`);
+  return (data || []) as DocumentSearchRow[];
+}
+
+/**
+ * Run keyword and semantic search for a query and return fused, filtered
+ * hits with facets. Semantic failures degrade to keyword-only results.
+ */
+export async function hybridDocumentSearch(
+  supabase: SupabaseClient<Database>,
+  options: HybridSearchOptions
+): Promise<HybridSearchResult> {
+  const { agencyId, query, filters = {}, retrieveSemantic, limit = DEFAULT_LIMIT } = options;
+
+  let semanticAvailable = Boolean(retrieveSemantic);
+  const [keywordResult, citations] = await Promise.all([
+    supabase.rpc('search_documents', {
+      p_agency_id: agencyId,
+      p_query: query,
+      p_category: filters.category,
+      p_client_id: filters.clientId,
+      p_uploaded_by: filters.uploadedBy,
+      p_from: filters.from,
+      p_to: filters.to,
+      p_limit: limit,
+    }),
+    retrieveSemantic
+      ? retrieveSemantic(query).catch((error: unknown) => {
+          console.warn('[DocumentSearch] Semantic retrieval failed, using keyword results only:', error);
+          semanticAvailable = false;
+          return [] as RAGCitation[];
+        })
+      : Promise.resolve([] as RAGCitation[]),
+  ]);
+
+  if (keywordResult.error) {
+    throw new Error(`Keyword search failed: ${keywordResult.error.message}`);
+  }
+  const keyword = (keywordResult.data || []) as KeywordMatch[];
+
+  const rows = new Map<string, DocumentSearchRow>();
+  if (keyword.length > 0) {
+    const keywordRows = await findDocumentRows(supabase, agencyId, filters, 'id', keyword.map((match) => match.document_id));
+    for (const row of keywordRows) rows.set(row.id, row);
+  }
+
+  let semantic: SemanticMatch[] = [];
+  if (citations.length > 0) {
+    const titles = [...new Set(citations.map((c) => c.documentName))];
+    const storeNames = [...new Set(citations.map((c) => c.documentId).filter((id) => id.includes('fileSearchStores/')))];
+
+    // Unresolved passages only cost the semantic half, not the search
+    let semanticRows: DocumentSearchRow[] = [];
+    try {
+      const lookups = await Promise.all([
+        findDocumentRows(supabase, agencyId, filters, 'title', titles),
+        storeNames.length > 0 ? findDocumentRows(supabase, agencyId, filters, 'gemini_document_name', storeNames) : [],
+      ]);
+      semanticRows = lookups.flat();
+    } catch (error) {
+      console.warn('[DocumentSearch] Failed to resolve semantic matches:', error);
+    }
+
+    for (const row of semanticRows) rows.set(row.id, row);
+    semantic = resolveSemanticMatches(citations, semanticRows);
+  }
+
+  const hits = mergeSearchHits(keyword, semantic, rows, query, limit);
+  return { hits, facets: buildSearchFacets(hits), semantic: semanticAvailable };
+}
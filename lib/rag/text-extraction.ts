@@ -0,0 +1,60 @@
+/**
+ * Text Extraction
+ *
+ * Pulls the plain text out of an uploaded document for keyword search
+ * (document.extracted_text). Text formats are decoded locally; binary formats
+ * (PDF, Office files, images) are handed to an extractor, normally
+ * FileSearchStoreService.extractText.
+ */
+
+/** Upper bound on stored text, to keep rows and the search index reasonable */
+export const MAX_EXTRACTED_TEXT_CHARS = 500_000;
+
+const LOCAL_TEXT_MIME_TYPES = ['text/plain', 'text/csv', 'text/markdown', 'text/html', 'application/json'];
+
+/** Extracts text from a binary document */
+export type BinaryTextExtractor = (data: Buffer, mimeType: string) => Promise<string>;
+
+/** Collapse runs of blank space so snippets read as prose */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+/**
+ * Extract searchable text from a document's bytes.
+ * Returns null when there is no text or no extractor for the format.
+ */
+export async function extractDocumentText(
+  data: Buffer,
+  mimeType: string,
+  extractBinary?: BinaryTextExtractor
+): Promise<string | null> {
+  let text: string;
+  if (LOCAL_TEXT_MIME_TYPES.includes(mimeType)) {
+    text = data.toString('utf-8');
+    if (mimeType === 'text/html') text = stripHtml(text);
+  } else if (extractBinary) {
+    text = await extractBinary(data, mimeType);
+  } else {
+    return null;
+  }
+
+  const normalized = normalizeWhitespace(text).slice(0, MAX_EXTRACTED_TEXT_CHARS);
+  return normalized || null;
+}
@@ -4,6 +4,8 @@
  * Types for Gemini File Search integration and document management.
  */
 
+import type { LLMUsage } from '@/lib/llm/types';
+
 /**
  * Document status in the system
  */
@@ -197,6 +199,11 @@ export interface RAGResult {
    * Allows consumers to distinguish between "no results" and "API failure"
    */
   error?: boolean;
+  /**
+   * Model that generated the answer, with its token counts, for usage metering
+   */
+  model?: string;
+  usage?: LLMUsage;
 }
 
 /**
@@ -232,6 +239,10 @@ export interface RAGSearchRequest {
    * Enforces Supabase-side use_for_training filtering.
    */
   allowedGeminiFileNames?: string[];
+  /**
+   * Called with each chunk of the answer as Gemini streams it
+   */
+  onText?: (delta: string) => void;
 }
 
 /**
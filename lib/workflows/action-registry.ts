@@ -3,7 +3,21 @@
  * Defines all available action types with metadata and validation schemas
  */
 
-import type { ActionType, ActionTypeMetadata, WorkflowAction } from '@/types/workflow'
+import type {
+  ActionType,
+  ActionTypeMetadata,
+  WorkflowAction,
+  ActionCondition,
+  ConditionGroup,
+  ConditionOperator,
+  BranchStep,
+  WorkflowStep,
+  WebhookMethod,
+} from '@/types/workflow'
+
+export const WEBHOOK_METHODS: WebhookMethod[] = ['POST', 'PUT', 'PATCH', 'GET', 'DELETE']
+export const DEFAULT_WEBHOOK_RETRIES = 3
+export const MAX_WEBHOOK_RETRIES = 5
 
 // ============================================================================
 // ACTION TYPE DEFINITIONS
@@ -303,6 +317,53 @@ export const ACTION_TYPES: Record<ActionType, ActionTypeMetadata> = {
       required: ['channelName'],
     },
   },
+
+  call_webhook: {
+    type: 'call_webhook',
+    name: 'Call Webhook',
+    description: 'Send a signed HTTP request to an external system',
+    icon: 'Webhook',
+    category: 'data',
+    supportsApproval: true,
+    configSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          title: 'URL',
+          description: 'Endpoint to call. Supports {{variables}}.',
+          required: true,
+          examples: ['https://hooks.zapier.com/hooks/catch/123/abc'],
+        },
+        method: {
+          type: 'string',
+          title: 'Method',
+          enum: ['POST', 'PUT', 'PATCH', 'GET', 'DELETE'],
+          default: 'POST',
+        },
+        headers: {
+          type: 'object',
+          title: 'Headers',
+          description: 'Extra request headers. Values support {{variables}}.',
+          additionalProperties: { type: 'string' },
+        },
+        body: {
+          type: 'object',
+          title: 'JSON Body',
+          description: 'Request body; string values support {{variables}}. Defaults to the trigger and client data.',
+        },
+        maxRetries: {
+          type: 'number',
+          title: 'Retries',
+          description: 'Retries for timeouts, 429 and 5xx responses',
+          minimum: 0,
+          maximum: MAX_WEBHOOK_RETRIES,
+          default: DEFAULT_WEBHOOK_RETRIES,
+        },
+      },
+      required: ['url'],
+    },
+  },
 }
 
 // ============================================================================
@@ -339,6 +400,10 @@ export function validateActionConfig(action: WorkflowAction): { valid: boolean;
     }
   }
 
+  if (action.condition) {
+    errors.push(...validateCondition(action.condition))
+  }
+
   // Basic validation based on type
   switch (action.type) {
     case 'create_task':
@@ -395,11 +460,156 @@ export function validateActionConfig(action: WorkflowAction): { valid: boolean;
         errors.push('Create Slack channel action requires a channel name pattern')
       }
       break
+    case 'call_webhook': {
+      const { url, method, headers, body, maxRetries } = action.config
+      if (!url) {
+        errors.push('Call webhook action requires a URL')
+      } else if (!/^(https?:\/\/|\{\{)/i.test(url.trim())) {
+        errors.push('Webhook URL must start with http:// or https://')
+      }
+      if (method && !WEBHOOK_METHODS.includes(method)) {
+        errors.push(`Webhook method must be one of: ${WEBHOOK_METHODS.join(', ')}`)
+      }
+      if (headers && Object.values(headers).some((value) => typeof value !== 'string')) {
+        errors.push('Webhook header values must be strings')
+      }
+      if (body !== undefined && (typeof body !== 'object' || body === null || Array.isArray(body))) {
+        errors.push('Webhook body must be a JSON object')
+      }
+      if (
+        maxRetries !== undefined &&
+        (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > MAX_WEBHOOK_RETRIES)
+      ) {
+        errors.push(`Webhook retries must be between 0 and ${MAX_WEBHOOK_RETRIES}`)
+      }
+      break
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+// ============================================================================
+// CONDITIONS & BRANCHES
+// ============================================================================
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'not_equals', label: 'does not equal', needsValue: true },
+  { value: 'greater_than', label: 'is greater than', needsValue: true },
+  { value: 'less_than', label: 'is less than', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'starts_with', label: 'starts with', needsValue: true },
+  { value: 'exists', label: 'is set', needsValue: false },
+  { value: 'not_exists', label: 'is not set', needsValue: false },
+]
+
+// Suggested fields for the condition editor; any client./trigger./time. path is accepted
+export const CONDITION_FIELDS = [
+  { path: 'client.healthStatus', label: 'Client health (green/yellow/red)' },
+  { path: 'client.stage', label: 'Client stage' },
+  { path: 'client.daysInStage', label: 'Days in stage' },
+  { path: 'client.tags', label: 'Client tags' },
+  { path: 'client.totalSpend', label: 'Client total spend' },
+  { path: 'trigger.priority', label: 'Trigger priority' },
+  { path: 'trigger.category', label: 'Trigger category' },
+  { path: 'time.hour', label: 'Hour of day (0-23)' },
+  { path: 'time.dayOfWeek', label: 'Day of week (0 = Sunday)' },
+]
+
+// Nested groups deeper than this are rejected to keep conditions readable
+export const MAX_CONDITION_DEPTH = 3
+
+const CONDITION_FIELD_PREFIXES = ['client.', 'trigger.', 'metrics.', 'time.']
+
+export function isConditionGroup(
+  condition: ActionCondition | ConditionGroup
+): condition is ConditionGroup {
+  return 'logic' in condition && Array.isArray((condition as ConditionGroup).conditions)
+}
+
+export function isBranchStep(step: WorkflowStep): step is BranchStep {
+  return step.type === 'branch'
+}
+
+export function validateCondition(
+  condition: ActionCondition | ConditionGroup,
+  depth: number = 1
+): string[] {
+  if (isConditionGroup(condition)) {
+    if (depth > MAX_CONDITION_DEPTH) {
+      return [`Condition groups can be nested at most ${MAX_CONDITION_DEPTH} levels deep`]
+    }
+    if (condition.logic !== 'and' && condition.logic !== 'or') {
+      return ['Condition group logic must be "and" or "or"']
+    }
+    if (condition.conditions.length === 0) {
+      return ['Condition group must contain at least one condition']
+    }
+    return condition.conditions.flatMap((c) => validateCondition(c, depth + 1))
+  }
+
+  const errors: string[] = []
+  if (!condition.field || !CONDITION_FIELD_PREFIXES.some((p) => condition.field.startsWith(p))) {
+    errors.push(`Condition field must start with ${CONDITION_FIELD_PREFIXES.join(', ')}`)
+  }
+  const operator = CONDITION_OPERATORS.find((o) => o.value === condition.operator)
+  if (!operator) {
+    errors.push(`Unknown condition operator: ${condition.operator}`)
+  } else if (operator.needsValue && (condition.value === undefined || condition.value === '')) {
+    errors.push(`Condition on ${condition.field} requires a value`)
+  }
+  return errors
+}
+
+/**
+ * Validate a top-level workflow step — a plain action or a branch
+ */
+export function validateWorkflowStep(step: WorkflowStep): { valid: boolean; errors: string[] } {
+  if (!isBranchStep(step)) {
+    return validateActionConfig(step)
+  }
+
+  const errors: string[] = []
+  const validateBranchActions = (actions: WorkflowAction[], label: string) => {
+    for (const action of actions) {
+      if (isBranchStep(action)) {
+        errors.push(`${label}: branches cannot be nested`)
+        continue
+      }
+      errors.push(...validateActionConfig(action).errors.map((e) => `${label}: ${e}`))
+    }
   }
 
+  if (!step.branches || step.branches.length === 0) {
+    errors.push(`Branch "${step.name}" requires at least one condition path`)
+  }
+
+  for (const branch of step.branches ?? []) {
+    const label = `${step.name} → ${branch.name}`
+    errors.push(...validateCondition(branch.condition).map((e) => `${label}: ${e}`))
+    if (branch.actions.length === 0) {
+      errors.push(`${label}: add at least one action`)
+    }
+    validateBranchActions(branch.actions, label)
+  }
+
+  validateBranchActions(step.elseActions ?? [], `${step.name} → Otherwise`)
+
   return { valid: errors.length === 0, errors }
 }
 
+/**
+ * All actions in a workflow, including those inside branches
+ */
+export function flattenWorkflowSteps(steps: WorkflowStep[]): WorkflowAction[] {
+  return steps.flatMap((step) =>
+    isBranchStep(step)
+      ? [...step.branches.flatMap((b) => b.actions), ...(step.elseActions ?? [])]
+      : [step]
+  )
+}
+
 // ============================================================================
 // VARIABLE SUBSTITUTION
 // ============================================================================
@@ -461,6 +671,28 @@ export function substituteVariables(
   return result
 }
 
+/**
+ * Apply substituteVariables to every string in an action config,
+ * including strings nested in arrays and objects
+ */
+export function resolveActionConfig<T>(
+  config: T,
+  context: Parameters<typeof substituteVariables>[1]
+): T {
+  if (typeof config === 'string') {
+    return substituteVariables(config, context) as T
+  }
+  if (Array.isArray(config)) {
+    return config.map((item) => resolveActionConfig(item, context)) as T
+  }
+  if (config && typeof config === 'object') {
+    return Object.fromEntries(
+      Object.entries(config).map(([key, value]) => [key, resolveActionConfig(value, context)])
+    ) as T
+  }
+  return config
+}
+
 // ============================================================================
 // DELAY HELPERS
 // ============================================================================
@@ -0,0 +1,249 @@
+/**
+ * Workflow Analytics
+ * Run metrics computed from `workflow_run`, per workflow and agency-wide
+ *
+ * Success rate only counts finished runs: a run parked on a delay or an
+ * approval is neither a success nor a failure yet. Days are UTC calendar
+ * days, and every day in the range appears in `runsByDay` so charts show
+ * quiet days as zero rather than skipping them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type {
+  WorkflowAnalytics,
+  WorkflowAnalyticsRange,
+  WorkflowAnalyticsSummary,
+  AgencyWorkflowAnalytics,
+} from '@/types/workflow'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+type AnalyticsRun = Pick<
+  Database['public']['Tables']['workflow_run']['Row'],
+  'workflow_id' | 'status' | 'started_at' | 'completed_at' | 'error_message'
+>
+
+export const DEFAULT_ANALYTICS_DAYS = 30
+export const MAX_ANALYTICS_DAYS = 366
+const TOP_FAILURE_REASONS = 5
+const ANALYTICS_COLUMNS = 'workflow_id, status, started_at, completed_at, error_message'
+// PostgREST caps a response at 1000 rows, so runs are read in pages of that size
+const RUN_PAGE_SIZE = 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// DATE RANGE
+// ============================================================================
+
+/**
+ * Parse `start`/`end` query params (ISO dates or timestamps).
+ * Defaults to the last 30 days ending now; a bare end date covers that whole day.
+ */
+export function parseAnalyticsRange(
+  start: string | null | undefined,
+  end: string | null | undefined,
+  now: Date = new Date()
+): { data: WorkflowAnalyticsRange | null; error: string | null } {
+  const parse = (value: string, endOfDay: boolean): Date | null => {
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    const date = new Date(dateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  const endDate = end ? parse(end, true) : now
+  if (!endDate) return { data: null, error: `Invalid end date "${end}"` }
+
+  const startDate = start ? parse(start, false) : new Date(endDate.getTime() - DEFAULT_ANALYTICS_DAYS * DAY_MS)
+  if (!startDate) return { data: null, error: `Invalid start date "${start}"` }
+
+  if (startDate > endDate) {
+    return { data: null, error: 'Start date must be before end date' }
+  }
+  if (endDate.getTime() - startDate.getTime() > MAX_ANALYTICS_DAYS * DAY_MS) {
+    return { data: null, error: `Date range cannot exceed ${MAX_ANALYTICS_DAYS} days` }
+  }
+
+  return { data: { startDate: startDate.toISOString(), endDate: endDate.toISOString() }, error: null }
+}
+
+function daysInRange(range: WorkflowAnalyticsRange): string[] {
+  const days: string[] = []
+  const last = range.endDate.slice(0, 10)
+  let cursor = new Date(`${range.startDate.slice(0, 10)}T00:00:00.000Z`)
+
+  while (cursor.toISOString().slice(0, 10) <= last) {
+    days.push(cursor.toISOString().slice(0, 10))
+    cursor = new Date(cursor.getTime() + DAY_MS)
+  }
+
+  return days
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+function successRate(runs: AnalyticsRun[]): number {
+  const finished = runs.filter((r) => r.status !== 'running')
+  if (finished.length === 0) return 0
+  return (finished.filter((r) => r.status === 'completed').length / finished.length) * 100
+}
+
+export function computeWorkflowAnalytics(
+  runs: AnalyticsRun[],
+  range: WorkflowAnalyticsRange
+): WorkflowAnalytics {
+  const finished = runs.filter((r) => r.completed_at)
+  const totalDuration = finished.reduce(
+    (sum, r) => sum + (new Date(r.completed_at!).getTime() - new Date(r.started_at).getTime()),
+    0
+  )
+
+  const byDay = new Map(daysInRange(range).map((date) => [date, { count: 0, successes: 0 }]))
+  for (const run of runs) {
+    const day = byDay.get(run.started_at.slice(0, 10))
+    if (!day) continue
+    day.count++
+    if (run.status === 'completed') day.successes++
+  }
+
+  const failureReasons = new Map<string, number>()
+  for (const run of runs) {
+    if (run.status !== 'failed') continue
+    const reason = run.error_message || 'Unknown error'
+    failureReasons.set(reason, (failureReasons.get(reason) ?? 0) + 1)
+  }
+
+  return {
+    totalRuns: runs.length,
+    successRate: successRate(runs),
+    averageDurationMs: finished.length > 0 ? totalDuration / finished.length : 0,
+    runsByDay: Array.from(byDay.entries()).map(([date, stats]) => ({ date, ...stats })),
+    topFailureReasons: Array.from(failureReasons.entries())
+      .map(([reason, count]) => ({ reason, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_FAILURE_REASONS),
+  }
+}
+
+/**
+ * Totals across the agency plus one summary per workflow, including workflows
+ * that did not run in the range so unused automations stand out.
+ */
+export function computeAgencyAnalytics(
+  runs: AnalyticsRun[],
+  workflows: { id: string; name: string; is_active: boolean }[],
+  range: WorkflowAnalyticsRange
+): AgencyWorkflowAnalytics {
+  const runsByWorkflow = new Map<string, AnalyticsRun[]>()
+  for (const run of runs) {
+    const list = runsByWorkflow.get(run.workflow_id) ?? []
+    list.push(run)
+    runsByWorkflow.set(run.workflow_id, list)
+  }
+
+  const summaries: WorkflowAnalyticsSummary[] = workflows.map((workflow) => {
+    const workflowRuns = runsByWorkflow.get(workflow.id) ?? []
+    return {
+      workflowId: workflow.id,
+      name: workflow.name,
+      isActive: workflow.is_active,
+      totalRuns: workflowRuns.length,
+      failedRuns: workflowRuns.filter((r) => r.status === 'failed').length,
+      successRate: successRate(workflowRuns),
+      lastRunAt: workflowRuns.reduce<string | null>(
+        (latest, r) => (!latest || r.started_at > latest ? r.started_at : latest),
+        null
+      ),
+    }
+  })
+
+  return {
+    ...computeWorkflowAnalytics(runs, range),
+    workflows: summaries.sort((a, b) => b.totalRuns - a.totalRuns || a.name.localeCompare(b.name)),
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Every run started in the range, read page by page so busy agencies and long
+ * ranges are not cut off at the response row limit.
+ */
+async function fetchAnalyticsRuns(
+  supabase: SupabaseClientType,
+  agencyId: string,
+  range: WorkflowAnalyticsRange,
+  workflowId?: string
+): Promise<{ data: AnalyticsRun[] | null; error: Error | null }> {
+  const runs: AnalyticsRun[] = []
+
+  for (let from = 0; ; from += RUN_PAGE_SIZE) {
+    let query = supabase
+      .from('workflow_run')
+      .select(ANALYTICS_COLUMNS)
+      .eq('agency_id', agencyId)
+      .gte('started_at', range.startDate)
+      .lte('started_at', range.endDate)
+    if (workflowId) query = query.eq('workflow_id', workflowId)
+
+    const { data, error } = await query
+      .order('started_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + RUN_PAGE_SIZE - 1)
+
+    if (error) {
+      return { data: null, error: new Error(error.message) }
+    }
+
+    runs.push(...(data ?? []))
+    if (!data || data.length < RUN_PAGE_SIZE) break
+  }
+
+  return { data: runs, error: null }
+}
+
+export async function getWorkflowAnalytics(
+  supabase: SupabaseClientType,
+  workflowId: string,
+  agencyId: string,
+  range: WorkflowAnalyticsRange = parseAnalyticsRange(null, null).data!
+): Promise<{ data: WorkflowAnalytics | null; error: Error | null }> {
+  const { data: runs, error } = await fetchAnalyticsRuns(supabase, agencyId, range, workflowId)
+
+  if (error) {
+    return { data: null, error }
+  }
+
+  return { data: computeWorkflowAnalytics(runs ?? [], range), error: null }
+}
+
+export async function getAgencyWorkflowAnalytics(
+  supabase: SupabaseClientType,
+  agencyId: string,
+  range: WorkflowAnalyticsRange = parseAnalyticsRange(null, null).data!
+): Promise<{ data: AgencyWorkflowAnalytics | null; error: Error | null }> {
+  const [runsResult, workflowsResult] = await Promise.all([
+    fetchAnalyticsRuns(supabase, agencyId, range),
+    supabase
+      .from('workflow')
+      .select('id, name, is_active')
+      .eq('agency_id', agencyId),
+  ])
+
+  if (runsResult.error) {
+    return { data: null, error: runsResult.error }
+  }
+  if (workflowsResult.error) {
+    return { data: null, error: new Error(workflowsResult.error.message) }
+  }
+
+  return {
+    data: computeAgencyAnalytics(runsResult.data ?? [], workflowsResult.data ?? [], range),
+    error: null,
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Workflow Approval Service
+ * Approve / reject / expire parked approvals and carry their runs forward
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type {
+  ActionResult,
+  ActionType,
+  WorkflowApproval,
+  WorkflowExecutionContext,
+  WorkflowExecutionResult,
+} from '@/types/workflow'
+import { WorkflowEngine } from './execution-engine'
+import {
+  getWorkflowApproval,
+  decideWorkflowApproval,
+  expirePendingApprovals,
+} from './approvals'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+export type ApprovalDecisionFailure = 'not_found' | 'already_decided' | 'expired'
+
+export interface ApprovalDecisionResult {
+  approval: WorkflowApproval | null
+  run?: WorkflowExecutionResult
+  failure?: ApprovalDecisionFailure
+  error: Error | null
+}
+
+function engineFor(supabase: SupabaseClientType, approval: WorkflowApproval) {
+  const context = approval.context as unknown as WorkflowExecutionContext
+  return {
+    context,
+    priorResults: approval.prior_results as unknown as ActionResult[],
+    engine: new WorkflowEngine(supabase, approval.agency_id, context.userId),
+  }
+}
+
+/**
+ * Explain why a decision could not be recorded. Approvals that are past their
+ * expiry but not yet swept by the cron are expired on the spot.
+ */
+async function explainDecisionFailure(
+  supabase: SupabaseClientType,
+  approvalId: string,
+  agencyId: string
+): Promise<ApprovalDecisionResult> {
+  const { data: approval, error } = await getWorkflowApproval(supabase, approvalId, agencyId)
+
+  if (error) return { approval: null, error }
+  if (!approval) return { approval: null, failure: 'not_found', error: null }
+
+  if (approval.status === 'pending' && new Date(approval.expires_at) <= new Date()) {
+    await expireWorkflowApprovals(supabase, { agencyId })
+    return { approval: { ...approval, status: 'expired' }, failure: 'expired', error: null }
+  }
+
+  return {
+    approval,
+    failure: approval.status === 'expired' ? 'expired' : 'already_decided',
+    error: null,
+  }
+}
+
+/**
+ * Approve a pending action and resume its run from that action
+ */
+export async function approveWorkflowAction(
+  supabase: SupabaseClientType,
+  approvalId: string,
+  agencyId: string,
+  userId: string
+): Promise<ApprovalDecisionResult> {
+  const { data: approval, error } = await decideWorkflowApproval(supabase, approvalId, agencyId, {
+    status: 'approved',
+    userId,
+  })
+
+  if (error) return { approval: null, error }
+  if (!approval) return explainDecisionFailure(supabase, approvalId, agencyId)
+
+  const { engine, context, priorResults } = engineFor(supabase, approval)
+  const run = await engine.resumeWorkflowRun({
+    context,
+    actionId: approval.action_id,
+    actionIndex: approval.action_index,
+    priorResults,
+    gate: 'approval',
+    approvedConfig: approval.action_config as Record<string, unknown>,
+  })
+
+  return { approval, run, error: null }
+}
+
+/**
+ * Reject a pending action. The action is recorded as skipped and the run
+ * completes without executing the rest of the chain.
+ */
+export async function rejectWorkflowAction(
+  supabase: SupabaseClientType,
+  approvalId: string,
+  agencyId: string,
+  userId: string,
+  reason?: string
+): Promise<ApprovalDecisionResult> {
+  const { data: approval, error } = await decideWorkflowApproval(supabase, approvalId, agencyId, {
+    status: 'rejected',
+    userId,
+    reason,
+  })
+
+  if (error) return { approval: null, error }
+  if (!approval) return explainDecisionFailure(supabase, approvalId, agencyId)
+
+  const { engine, context, priorResults } = engineFor(supabase, approval)
+  const run = await engine.closeParkedRun(context, priorResults, {
+    actionId: approval.action_id,
+    actionType: approval.action_type as ActionType,
+    status: 'skipped',
+    result: { reason: 'Approval rejected', approvalId: approval.id, rejectionReason: reason },
+    executedAt: new Date().toISOString(),
+  })
+
+  return { approval, run, error: null }
+}
+
+/**
+ * Expire pending approvals past their deadline and fail their runs
+ */
+export async function expireWorkflowApprovals(
+  supabase: SupabaseClientType,
+  options: { agencyId?: string; now?: Date } = {}
+): Promise<{ expired: number; errors: string[] }> {
+  const { data: approvals, error } = await expirePendingApprovals(supabase, options)
+  if (error) return { expired: 0, errors: [error.message] }
+
+  const errors: string[] = []
+
+  for (const approval of approvals) {
+    try {
+      const { engine, context, priorResults } = engineFor(supabase, approval)
+      await engine.closeParkedRun(context, priorResults, {
+        actionId: approval.action_id,
+        actionType: approval.action_type as ActionType,
+        status: 'failed',
+        error: `Approval expired at ${approval.expires_at}`,
+        executedAt: new Date().toISOString(),
+      })
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      errors.push(`Approval ${approval.id}: ${msg}`)
+      console.error('[WorkflowApprovals]', {
+        action: 'expire_approval',
+        approvalId: approval.id,
+        runId: approval.workflow_run_id,
+        error: msg,
+      })
+    }
+  }
+
+  return { expired: approvals.length, errors }
+}
@@ -0,0 +1,184 @@
+/**
+ * Workflow Approvals
+ * Persistence for actions marked `requiresApproval`
+ *
+ * When the engine reaches an action that needs sign-off it records the
+ * resolved action config here and parks the run. Approving resumes the chain
+ * from that action; rejecting or letting the request expire closes the run.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import type {
+  ActionResult,
+  ApprovalStatus,
+  WorkflowAction,
+  WorkflowApproval,
+  WorkflowApprovalWithContext,
+  WorkflowExecutionContext,
+} from '@/types/workflow'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+// Pending approvals expire (and fail their run) after this long
+export const APPROVAL_TTL_HOURS = 72
+
+export async function createWorkflowApproval(
+  supabase: SupabaseClientType,
+  data: {
+    context: WorkflowExecutionContext
+    action: WorkflowAction
+    actionIndex: number
+    actionConfig: Record<string, unknown>
+    priorResults: ActionResult[]
+  }
+): Promise<{ data: WorkflowApproval | null; error: Error | null }> {
+  const expiresAt = new Date(Date.now() + APPROVAL_TTL_HOURS * 60 * 60 * 1000)
+
+  const { data: approval, error } = await supabase
+    .from('workflow_approval')
+    .insert({
+      agency_id: data.context.agencyId,
+      workflow_id: data.context.workflowId,
+      workflow_run_id: data.context.runId,
+      client_id: data.context.clientSnapshot?.id ?? null,
+      action_id: data.action.id,
+      action_index: data.actionIndex,
+      action_type: data.action.type,
+      action_name: data.action.name,
+      action_config: data.actionConfig as unknown as Json,
+      status: 'pending',
+      requested_by: data.context.userId,
+      expires_at: expiresAt.toISOString(),
+      context: data.context as unknown as Json,
+      prior_results: data.priorResults as unknown as Json,
+    })
+    .select()
+    .single()
+
+  return { data: approval, error: error ? new Error(error.message) : null }
+}
+
+export async function getWorkflowApprovals(
+  supabase: SupabaseClientType,
+  agencyId: string,
+  filters?: { status?: ApprovalStatus[]; workflowId?: string; limit?: number }
+): Promise<{ data: WorkflowApprovalWithContext[] | null; error: Error | null; count: number }> {
+  let query = supabase
+    .from('workflow_approval')
+    .select('*, workflow:workflow_id(name), client:client_id(name)', { count: 'exact' })
+    .eq('agency_id', agencyId)
+    .order('requested_at', { ascending: false })
+
+  if (filters?.status?.length) {
+    query = query.in('status', filters.status)
+  }
+
+  if (filters?.workflowId) {
+    query = query.eq('workflow_id', filters.workflowId)
+  }
+
+  query = query.limit(filters?.limit ?? 50)
+
+  const { data, error, count } = await query
+
+  const approvals = data?.map(({ workflow, client, ...approval }) => ({
+    ...approval,
+    workflow_name: workflow?.name,
+    client_name: client?.name,
+  }))
+
+  return {
+    data: approvals ?? null,
+    error: error ? new Error(error.message) : null,
+    count: count ?? 0,
+  }
+}
+
+export async function getWorkflowApproval(
+  supabase: SupabaseClientType,
+  approvalId: string,
+  agencyId: string
+): Promise<{ data: WorkflowApproval | null; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('workflow_approval')
+    .select('*')
+    .eq('id', approvalId)
+    .eq('agency_id', agencyId)
+    .maybeSingle()
+
+  return { data, error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Atomically move a pending, unexpired approval to approved/rejected.
+ * Returns null when the approval was already decided or has expired.
+ */
+export async function decideWorkflowApproval(
+  supabase: SupabaseClientType,
+  approvalId: string,
+  agencyId: string,
+  decision: { status: 'approved' | 'rejected'; userId: string; reason?: string }
+): Promise<{ data: WorkflowApproval | null; error: Error | null }> {
+  const now = new Date().toISOString()
+  const update = decision.status === 'approved'
+    ? { status: 'approved', approved_by: decision.userId, approved_at: now }
+    : {
+        status: 'rejected',
+        rejected_by: decision.userId,
+        rejected_at: now,
+        rejection_reason: decision.reason ?? null,
+      }
+
+  const { data, error } = await supabase
+    .from('workflow_approval')
+    .update(update)
+    .eq('id', approvalId)
+    .eq('agency_id', agencyId)
+    .eq('status', 'pending')
+    .gt('expires_at', now)
+    .select()
+    .maybeSingle()
+
+  return { data, error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Mark pending approvals past their expiry as 'expired' and return them so the
+ * caller can close their runs. Scoped to one agency when `agencyId` is given.
+ */
+export async function expirePendingApprovals(
+  supabase: SupabaseClientType,
+  options: { agencyId?: string; now?: Date } = {}
+): Promise<{ data: WorkflowApproval[]; error: Error | null }> {
+  const now = (options.now ?? new Date()).toISOString()
+
+  let query = supabase
+    .from('workflow_approval')
+    .update({ status: 'expired' })
+    .eq('status', 'pending')
+    .lte('expires_at', now)
+
+  if (options.agencyId) {
+    query = query.eq('agency_id', options.agencyId)
+  }
+
+  const { data, error } = await query.select()
+
+  return { data: data ?? [], error: error ? new Error(error.message) : null }
+}
+
+export async function countPendingApprovals(
+  supabase: SupabaseClientType,
+  workflowId: string,
+  agencyId: string
+): Promise<number> {
+  const { count } = await supabase
+    .from('workflow_approval')
+    .select('id', { count: 'exact', head: true })
+    .eq('workflow_id', workflowId)
+    .eq('agency_id', agencyId)
+    .eq('status', 'pending')
+
+  return count ?? 0
+}
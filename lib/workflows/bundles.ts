@@ -0,0 +1,430 @@
+/**
+ * Workflow Bundles
+ * Versioned JSON documents for moving workflows between agencies
+ *
+ * A bundle carries each workflow's name, description, triggers and actions,
+ * plus the agency-specific values they reference (ticket assignees, Slack
+ * channel IDs, pipeline stages). On import those references are remapped to
+ * the target agency; any that cannot be matched automatically must be mapped
+ * by the importer before anything is created.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type {
+  Workflow,
+  WorkflowAction,
+  WorkflowStep,
+  ActionCondition,
+  ConditionGroup,
+  WorkflowBundle,
+  WorkflowBundleEntry,
+  WorkflowReference,
+  WorkflowReferenceKind,
+  WorkflowReferenceMapping,
+  WorkflowTrigger,
+} from '@/types/workflow'
+import { validateTriggerConfig } from './trigger-registry'
+import { isBranchStep, isConditionGroup, validateWorkflowStep } from './action-registry'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+export const WORKFLOW_BUNDLE_FORMAT = 'audienceos.workflow-bundle'
+export const WORKFLOW_BUNDLE_VERSION = 1
+export const MAX_BUNDLE_WORKFLOWS = 50
+
+// Same limits as POST /api/v1/workflows
+const MAX_TRIGGERS = 2
+const MAX_ACTIONS = 10
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+/**
+ * Copy a workflow with every agency-specific reference passed through `rewrite`.
+ * Returning null removes the reference where that is possible (ticket
+ * assignee, Slack recipient); required values such as a trigger's target stage
+ * become empty and fail validation instead.
+ */
+function rewriteReferences<T extends Pick<WorkflowBundleEntry, 'triggers' | 'actions'>>(
+  entry: T,
+  rewrite: (kind: WorkflowReferenceKind, value: string) => string | null
+): T {
+  const copy: T = JSON.parse(JSON.stringify(entry))
+
+  for (const trigger of copy.triggers) {
+    if (trigger.type !== 'stage_change') continue
+    if (trigger.config.fromStage) {
+      trigger.config.fromStage = rewrite('stage', trigger.config.fromStage) ?? undefined
+    }
+    if (trigger.config.toStage) {
+      trigger.config.toStage = rewrite('stage', trigger.config.toStage) ?? ''
+    }
+  }
+
+  const rewriteCondition = (condition: ActionCondition | ConditionGroup) => {
+    if (isConditionGroup(condition)) {
+      condition.conditions.forEach(rewriteCondition)
+    } else if (condition.field === 'client.stage' && typeof condition.value === 'string' && condition.value) {
+      condition.value = rewrite('stage', condition.value) ?? ''
+    }
+  }
+
+  const rewriteAction = (action: WorkflowAction) => {
+    if (action.condition) rewriteCondition(action.condition)
+
+    switch (action.type) {
+      case 'create_ticket':
+        if (action.config.assigneeId) {
+          const assigneeId = rewrite('user', action.config.assigneeId)
+          if (assigneeId) action.config.assigneeId = assigneeId
+          else delete action.config.assigneeId
+        }
+        break
+      case 'send_notification':
+        if (action.config.channel === 'slack') {
+          action.config.recipients = action.config.recipients
+            .map((channelId) => rewrite('slack_channel', channelId))
+            .filter((channelId): channelId is string => !!channelId)
+        }
+        break
+      case 'update_client':
+        if (action.config.updates.stage) {
+          action.config.updates.stage = rewrite('stage', action.config.updates.stage) ?? undefined
+        }
+        break
+    }
+  }
+
+  for (const step of copy.actions) {
+    if (isBranchStep(step)) {
+      for (const branch of step.branches) {
+        rewriteCondition(branch.condition)
+        branch.actions.forEach(rewriteAction)
+      }
+      step.elseActions?.forEach(rewriteAction)
+    } else {
+      rewriteAction(step)
+    }
+  }
+
+  return copy
+}
+
+/**
+ * Every agency-specific reference in the given workflows, without duplicates
+ */
+export function collectWorkflowReferences(
+  entries: Pick<WorkflowBundleEntry, 'triggers' | 'actions'>[]
+): WorkflowReference[] {
+  const seen = new Map<string, WorkflowReference>()
+
+  for (const entry of entries) {
+    rewriteReferences(entry, (kind, value) => {
+      seen.set(`${kind}:${value}`, { kind, value })
+      return value
+    })
+  }
+
+  return Array.from(seen.values())
+}
+
+/**
+ * Apply a reference mapping. Values with no entry in the mapping are kept.
+ */
+export function remapWorkflowReferences<T extends Pick<WorkflowBundleEntry, 'triggers' | 'actions'>>(
+  entry: T,
+  mapping: WorkflowReferenceMapping
+): T {
+  return rewriteReferences(entry, (kind, value) => {
+    const mapped = mapping[kind]
+    return mapped && value in mapped ? mapped[value] : value
+  })
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Build a bundle from workflows. `labels` names references for the importer,
+ * e.g. assignee user IDs to display names.
+ */
+export function createWorkflowBundle(
+  workflows: (Pick<Workflow, 'name' | 'description' | 'triggers' | 'actions'> | WorkflowBundleEntry)[],
+  sourceAgencyId: string,
+  labels: Record<string, string> = {}
+): WorkflowBundle {
+  const entries: WorkflowBundleEntry[] = workflows.map((workflow) => ({
+    name: workflow.name,
+    description: workflow.description,
+    triggers: workflow.triggers as unknown as WorkflowTrigger[],
+    actions: workflow.actions as unknown as WorkflowStep[],
+  }))
+
+  return {
+    format: WORKFLOW_BUNDLE_FORMAT,
+    version: WORKFLOW_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceAgencyId,
+    workflows: entries,
+    references: collectWorkflowReferences(entries).map((ref) =>
+      labels[ref.value] ? { ...ref, label: labels[ref.value] } : ref
+    ),
+  }
+}
+
+/**
+ * Load workflows for export (all of the agency's when `workflowIds` is
+ * omitted) and bundle them with assignee names as reference labels.
+ */
+export async function exportWorkflowBundle(
+  supabase: SupabaseClientType,
+  agencyId: string,
+  workflowIds?: string[]
+): Promise<{ data: WorkflowBundle | null; error: Error | null }> {
+  let query = supabase
+    .from('workflow')
+    .select('name, description, triggers, actions')
+    .eq('agency_id', agencyId)
+    .order('created_at', { ascending: true })
+
+  if (workflowIds?.length) {
+    query = query.in('id', workflowIds)
+  }
+
+  const { data: workflows, error } = await query
+  if (error) return { data: null, error: new Error(error.message) }
+
+  const userIds = collectWorkflowReferences(
+    (workflows ?? []).map((w) => ({
+      triggers: w.triggers as unknown as WorkflowTrigger[],
+      actions: w.actions as unknown as WorkflowStep[],
+    }))
+  )
+    .filter((ref) => ref.kind === 'user')
+    .map((ref) => ref.value)
+
+  const labels: Record<string, string> = {}
+  if (userIds.length > 0) {
+    const { data: users } = await supabase
+      .from('user')
+      .select('id, first_name, last_name')
+      .eq('agency_id', agencyId)
+      .in('id', userIds)
+
+    for (const user of users ?? []) {
+      labels[user.id] = `${user.first_name} ${user.last_name}`.trim()
+    }
+  }
+
+  return { data: createWorkflowBundle(workflows ?? [], agencyId, labels), error: null }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isWellFormedStep(step: unknown): boolean {
+  if (!isRecord(step) || typeof step.id !== 'string' || typeof step.type !== 'string') return false
+  if (step.type !== 'branch') return isRecord(step.config)
+  return (
+    Array.isArray(step.branches) &&
+    step.branches.every(
+      (b) => isRecord(b) && isRecord(b.condition) && Array.isArray(b.actions) && b.actions.every(isWellFormedStep)
+    ) &&
+    (step.elseActions === undefined || (Array.isArray(step.elseActions) && step.elseActions.every(isWellFormedStep)))
+  )
+}
+
+/**
+ * Validate one workflow's triggers and actions with the trigger and action
+ * registries. Returns error messages; empty when the workflow is valid.
+ */
+export function validateBundleEntry(entry: WorkflowBundleEntry): string[] {
+  const errors: string[] = []
+
+  if (entry.triggers.length === 0) errors.push('At least one trigger is required')
+  if (entry.triggers.length > MAX_TRIGGERS) errors.push(`Maximum ${MAX_TRIGGERS} triggers allowed`)
+  if (entry.actions.length === 0) errors.push('At least one action is required')
+  if (entry.actions.length > MAX_ACTIONS) errors.push(`Maximum ${MAX_ACTIONS} actions allowed`)
+
+  for (const trigger of entry.triggers) {
+    errors.push(...validateTriggerConfig(trigger).errors)
+  }
+  for (const step of entry.actions) {
+    errors.push(...validateWorkflowStep(step).errors)
+  }
+
+  return errors
+}
+
+/**
+ * Check that `input` is a bundle this version can read and that every
+ * workflow in it is valid. Errors are prefixed with the workflow's name.
+ */
+export function parseWorkflowBundle(input: unknown): { data: WorkflowBundle | null; errors: string[] } {
+  if (!isRecord(input) || input.format !== WORKFLOW_BUNDLE_FORMAT) {
+    return { data: null, errors: ['Not a workflow bundle'] }
+  }
+
+  const { version, workflows } = input
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { data: null, errors: ['Bundle version is missing or invalid'] }
+  }
+  if (version > WORKFLOW_BUNDLE_VERSION) {
+    return {
+      data: null,
+      errors: [`Bundle version ${version} is newer than this app supports (${WORKFLOW_BUNDLE_VERSION})`],
+    }
+  }
+
+  if (!Array.isArray(workflows) || workflows.length === 0) {
+    return { data: null, errors: ['Bundle contains no workflows'] }
+  }
+  if (workflows.length > MAX_BUNDLE_WORKFLOWS) {
+    return { data: null, errors: [`A bundle can contain at most ${MAX_BUNDLE_WORKFLOWS} workflows`] }
+  }
+
+  const errors: string[] = []
+  const entries: WorkflowBundleEntry[] = []
+
+  workflows.forEach((workflow: unknown, index) => {
+    const label = isRecord(workflow) && typeof workflow.name === 'string' && workflow.name.trim()
+      ? `Workflow "${workflow.name}"`
+      : `Workflow ${index + 1}`
+
+    if (
+      !isRecord(workflow) ||
+      typeof workflow.name !== 'string' ||
+      !workflow.name.trim() ||
+      workflow.name.length > 200 ||
+      (workflow.description != null && typeof workflow.description !== 'string') ||
+      !Array.isArray(workflow.triggers) ||
+      !workflow.triggers.every((t) => isRecord(t) && typeof t.type === 'string' && isRecord(t.config)) ||
+      !Array.isArray(workflow.actions) ||
+      !workflow.actions.every(isWellFormedStep)
+    ) {
+      errors.push(`${label}: malformed workflow definition`)
+      return
+    }
+
+    const entry: WorkflowBundleEntry = {
+      name: workflow.name.trim(),
+      description: typeof workflow.description === 'string' ? workflow.description : null,
+      triggers: workflow.triggers as WorkflowTrigger[],
+      actions: workflow.actions as WorkflowStep[],
+    }
+
+    errors.push(...validateBundleEntry(entry).map((e) => `${label}: ${e}`))
+    entries.push(entry)
+  })
+
+  if (errors.length > 0) return { data: null, errors }
+
+  // References are recomputed rather than trusted; only the labels are kept
+  const labels = new Map(
+    (Array.isArray(input.references) ? input.references : [])
+      .filter((r): r is WorkflowReference => isRecord(r) && typeof r.value === 'string' && typeof r.label === 'string')
+      .map((r) => [`${r.kind}:${r.value}`, r.label])
+  )
+
+  return {
+    data: {
+      format: WORKFLOW_BUNDLE_FORMAT,
+      version,
+      exportedAt: typeof input.exportedAt === 'string' ? input.exportedAt : new Date().toISOString(),
+      sourceAgencyId: typeof input.sourceAgencyId === 'string' ? input.sourceAgencyId : '',
+      workflows: entries,
+      references: collectWorkflowReferences(entries).map((ref) => {
+        const refLabel = labels.get(`${ref.kind}:${ref.value}`)
+        return refLabel ? { ...ref, label: refLabel } : ref
+      }),
+    },
+    errors: [],
+  }
+}
+
+/**
+ * Work out how each of the bundle's references maps into `agencyId`.
+ *
+ * Explicit mappings win. Otherwise a reference is kept when it already exists
+ * in the target agency: a pipeline stage with the same name, one of its users,
+ * or one of its clients' Slack channels. The bundle's `sourceAgencyId` comes
+ * from the uploaded file, so it is never used to skip these checks. Whatever is
+ * left is returned as `unresolved` and must be mapped before importing. Mapped
+ * assignees must be users of the target agency.
+ */
+export async function resolveBundleReferences(
+  supabase: SupabaseClientType,
+  agencyId: string,
+  bundle: WorkflowBundle,
+  mapping: WorkflowReferenceMapping = {}
+): Promise<{
+  data: { mapping: WorkflowReferenceMapping; unresolved: WorkflowReference[]; invalid: string[] } | null
+  error: Error | null
+}> {
+  const userIds = bundle.references
+    .filter((r) => r.kind === 'user')
+    .map((r) => (r.value in (mapping.user ?? {}) ? mapping.user![r.value] : r.value))
+    .filter((id): id is string => !!id)
+  const channelIds = bundle.references.filter((r) => r.kind === 'slack_channel').map((r) => r.value)
+
+  const [agencyResult, usersResult, channelsResult] = await Promise.all([
+    supabase.from('agency').select('pipeline_stages').eq('id', agencyId).single(),
+    userIds.length > 0
+      ? supabase.from('user').select('id').eq('agency_id', agencyId).in('id', userIds)
+      : Promise.resolve({ data: [] as { id: string }[], error: null }),
+    channelIds.length > 0
+      ? supabase
+          .from('client_slack_channel')
+          .select('slack_channel_id')
+          .eq('agency_id', agencyId)
+          .in('slack_channel_id', channelIds)
+      : Promise.resolve({ data: [] as { slack_channel_id: string }[], error: null }),
+  ])
+
+  const error = agencyResult.error || usersResult.error || channelsResult.error
+  if (error) return { data: null, error: new Error(error.message) }
+
+  const stages = new Set(agencyResult.data?.pipeline_stages ?? [])
+  const agencyUsers = new Set((usersResult.data ?? []).map((u) => u.id))
+  const agencyChannels = new Set((channelsResult.data ?? []).map((c) => c.slack_channel_id))
+  const existing: Record<WorkflowReferenceKind, Set<string>> = {
+    stage: stages,
+    user: agencyUsers,
+    slack_channel: agencyChannels,
+  }
+
+  const resolved: WorkflowReferenceMapping = {}
+  const unresolved: WorkflowReference[] = []
+  const invalid: string[] = []
+
+  for (const ref of bundle.references) {
+    const explicit = mapping[ref.kind]
+    let target: string | null | undefined = explicit && ref.value in explicit ? explicit[ref.value] : undefined
+
+    if (target === undefined) {
+      if (!existing[ref.kind].has(ref.value)) {
+        unresolved.push(ref)
+        continue
+      }
+      target = ref.value
+    } else if (target !== null && ref.kind === 'user' && !agencyUsers.has(target)) {
+      invalid.push(`Assignee "${ref.label ?? ref.value}" is mapped to a user outside this agency`)
+      continue
+    } else if (target !== null && ref.kind === 'stage' && stages.size > 0 && !stages.has(target)) {
+      invalid.push(`Stage "${ref.value}" is mapped to "${target}", which is not in your pipeline`)
+      continue
+    }
+
+    resolved[ref.kind] = { ...resolved[ref.kind], [ref.value]: target }
+  }
+
+  return { data: { mapping: resolved, unresolved, invalid }, error: null }
+}
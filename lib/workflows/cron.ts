@@ -0,0 +1,312 @@
+/**
+ * Cron Expressions
+ * Parser and next-run calculator for scheduled workflow triggers
+ *
+ * Standard five-field syntax (minute hour day-of-month month day-of-week) with
+ * lists, ranges, steps and named months/days (JAN-DEC, SUN-SAT). Day-of-week
+ * accepts 0 or 7 for Sunday. As in Vixie cron, when both day fields are
+ * restricted a day matches if either of them does.
+ *
+ * Run times are computed against wall-clock time in the trigger's timezone, so
+ * "0 9 * * MON-FRI" stays at 9 AM local across DST changes.
+ */
+
+export interface CronSchedule {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: number[]
+  months: number[]
+  daysOfWeek: number[]
+  // False when the field starts with '*'; see the day-matching rule above
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+interface CronField {
+  name: string
+  min: number
+  max: number
+  aliases?: Record<string, number>
+}
+
+const MONTH_ALIASES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+}
+
+const DAY_ALIASES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, aliases: MONTH_ALIASES },
+  { name: 'day of week', min: 0, max: 7, aliases: DAY_ALIASES },
+]
+
+// Long enough to find Feb 29 across a skipped leap year (e.g. 2100)
+const MAX_LOOKAHEAD_DAYS = 366 * 8 + 1
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseValue(token: string, field: CronField): number {
+  const alias = field.aliases?.[token.toLowerCase()]
+  if (alias !== undefined) return alias
+
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid ${field.name} value "${token}"`)
+  }
+
+  const value = parseInt(token, 10)
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} value ${value} is out of range (${field.min}-${field.max})`)
+  }
+  return value
+}
+
+function parseField(expression: string, field: CronField): number[] {
+  const values = new Set<number>()
+
+  for (const item of expression.split(',')) {
+    const [rangePart, stepPart, ...rest] = item.split('/')
+    if (!rangePart || rest.length > 0) {
+      throw new Error(`Invalid ${field.name} field "${expression}"`)
+    }
+
+    let step = 1
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new Error(`Invalid ${field.name} step "${stepPart}"`)
+      }
+      step = parseInt(stepPart, 10)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === '*') {
+      start = field.min
+      end = field.max
+    } else if (rangePart.includes('-')) {
+      const [from, to, ...extra] = rangePart.split('-')
+      if (extra.length > 0) throw new Error(`Invalid ${field.name} range "${rangePart}"`)
+      start = parseValue(from, field)
+      end = parseValue(to, field)
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${rangePart}" (start is after end)`)
+      }
+    } else {
+      start = parseValue(rangePart, field)
+      // "5/15" means every 15 starting at 5
+      end = stepPart !== undefined ? field.max : start
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v)
+  }
+
+  return [...values].sort((a, b) => a - b)
+}
+
+/**
+ * Parse a five-field cron expression. Throws with a readable message when invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields (minute hour day month weekday)')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, CRON_FIELDS[i])
+  )
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    // 7 is an alias for Sunday
+    daysOfWeek: [...new Set(daysOfWeek.map((d) => (d === 7 ? 0 : d)))].sort((a, b) => a - b),
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a schedule for a trigger. Returns an error message, or null when valid.
+ */
+export function validateCronExpression(expression: string, timezone: string = 'UTC'): string | null {
+  let schedule: CronSchedule
+  try {
+    schedule = parseCron(expression)
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression'
+  }
+
+  if (!isValidTimezone(timezone)) {
+    return `Unknown timezone "${timezone}"`
+  }
+
+  if (!getNextCronRun(schedule, timezone, new Date())) {
+    return 'Cron expression never matches a real date'
+  }
+
+  return null
+}
+
+// ============================================================================
+// TIMEZONE HELPERS
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedParts(date: Date, timezone: string) {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formatters.set(timezone, formatter)
+  }
+
+  const parts = formatter.formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((p) => p.type === type)?.value || '0', 10)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+// Offset of `timezone` from UTC at the given instant, in milliseconds
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Convert a wall-clock time in `timezone` to an instant.
+ * Times skipped by a DST jump resolve to the same wall time after the jump
+ * (02:30 becomes 03:30); repeated times resolve to their first occurrence.
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute)
+  const firstOffset = getTimezoneOffset(new Date(wall), timezone)
+  const first = wall - firstOffset
+  const secondOffset = getTimezoneOffset(new Date(first), timezone)
+  if (secondOffset === firstOffset) return new Date(first)
+
+  const second = wall - secondOffset
+  const check = getZonedParts(new Date(second), timezone)
+  if (check.hour === hour && check.minute === minute) return new Date(second)
+
+  // The wall time falls in a DST gap
+  return new Date(Math.max(first, second))
+}
+
+// ============================================================================
+// NEXT RUN CALCULATION
+// ============================================================================
+
+function matchesDay(schedule: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = schedule.daysOfMonth.includes(dayOfMonth)
+  const dowMatch = schedule.daysOfWeek.includes(dayOfWeek)
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch
+  }
+  return domMatch && dowMatch
+}
+
+/**
+ * First time strictly after `after` that the schedule fires, or null if it never does
+ */
+export function getNextCronRun(
+  expression: string | CronSchedule,
+  timezone: string,
+  after: Date
+): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  const start = getZonedParts(after, timezone)
+
+  // Walk calendar days in the trigger's timezone; UTC methods are used purely
+  // for date arithmetic on the local calendar
+  const day = new Date(Date.UTC(start.year, start.month - 1, start.day))
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++, day.setUTCDate(day.getUTCDate() + 1)) {
+    const year = day.getUTCFullYear()
+    const month = day.getUTCMonth() + 1
+    const dayOfMonth = day.getUTCDate()
+
+    if (!schedule.months.includes(month)) continue
+    if (!matchesDay(schedule, dayOfMonth, day.getUTCDay())) continue
+
+    for (const hour of schedule.hours) {
+      // Hours before the starting hour on the first day can't be after `after`
+      // (allow one hour of slack for DST shifts)
+      if (i === 0 && hour < start.hour - 1) continue
+
+      for (const minute of schedule.minutes) {
+        const candidate = zonedTimeToUtc(year, month, dayOfMonth, hour, minute, timezone)
+        if (candidate.getTime() > after.getTime()) return candidate
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * The next `count` run times after `after`, e.g. for previewing a schedule
+ */
+export function getNextCronRuns(
+  expression: string | CronSchedule,
+  timezone: string,
+  count: number,
+  after: Date = new Date()
+): Date[] {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  const runs: Date[] = []
+  let cursor = after
+
+  while (runs.length < count) {
+    const next = getNextCronRun(schedule, timezone, cursor)
+    if (!next) break
+    runs.push(next)
+    cursor = next
+  }
+
+  return runs
+}
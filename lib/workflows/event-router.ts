@@ -3,7 +3,8 @@
  *
  * Dispatches workflow events to matching active workflows.
  * This is the "nervous system" — it connects user actions (stage changes,
- * ticket creation, etc.) to the workflow execution engine.
+ * ticket creation, onboarding submissions, etc.) and system events (alerts,
+ * integration disconnects) to the workflow execution engine.
  *
  * Design:
  * - Fire-and-forget: callers don't wait for workflow execution
@@ -20,6 +21,11 @@ import { WorkflowEngine } from './execution-engine'
 
 type SupabaseClientType = SupabaseClient<Database>
 
+// Workflow-created alerts carry how many workflow hops led to them; past this,
+// alert_created workflows no longer react, so workflows that alert on each
+// other's alerts stop after one round
+const MAX_ALERT_WORKFLOW_DEPTH = 1
+
 export interface WorkflowEvent {
   type: TriggerType
   data: Record<string, unknown>
@@ -170,6 +176,57 @@ function matchesTriggerConfig(workflow: Workflow, event: WorkflowEvent): boolean
         return true
       }
 
+      case 'ticket_status_changed': {
+        const config = trigger.config as { fromStatus?: string; toStatus?: string }
+        const fromStatus = event.data.fromStatus as string | undefined
+        const toStatus = event.data.toStatus as string | undefined
+
+        if (config.toStatus && toStatus && config.toStatus !== toStatus) return false
+        if (config.fromStatus && fromStatus && config.fromStatus !== fromStatus) return false
+
+        return true
+      }
+
+      case 'onboarding_submitted': {
+        const config = trigger.config as { journeyId?: string }
+        const journeyId = event.data.journeyId as string | undefined
+
+        if (config.journeyId && journeyId && config.journeyId !== journeyId) return false
+
+        return true
+      }
+
+      case 'alert_created': {
+        // A workflow never re-triggers itself from an alert it created
+        if (event.data.sourceWorkflowId === workflow.id) return false
+        const depth = event.data.workflowDepth
+        if (typeof depth === 'number' && depth > MAX_ALERT_WORKFLOW_DEPTH) return false
+
+        const config = trigger.config as { types?: string[]; severities?: string[] }
+        const alertType = event.data.alertType as string | undefined
+        const severity = event.data.severity as string | undefined
+
+        if (config.types?.length && alertType) {
+          if (!config.types.includes(alertType)) return false
+        }
+        if (config.severities?.length && severity) {
+          if (!config.severities.includes(severity)) return false
+        }
+
+        return true
+      }
+
+      case 'integration_disconnected': {
+        const config = trigger.config as { providers?: string[] }
+        const provider = event.data.provider as string | undefined
+
+        if (config.providers?.length && provider) {
+          if (!config.providers.includes(provider)) return false
+        }
+
+        return true
+      }
+
       case 'inactivity':
       case 'scheduled':
         // These are handled by the cron scheduler, not event dispatch
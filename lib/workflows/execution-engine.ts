@@ -9,13 +9,31 @@ import { sendEmail } from '@/lib/email/client'
 import type {
   WorkflowTrigger,
   WorkflowAction,
+  WorkflowStep,
+  BranchStep,
+  ActionCondition,
+  ConditionGroup,
   WorkflowExecutionContext,
   ClientSnapshot,
   ActionResult,
   WorkflowExecutionResult,
 } from '@/types/workflow'
-import { substituteVariables } from './action-registry'
-import { createWorkflowRun, completeWorkflowRun, getWorkflow } from './workflow-queries'
+import {
+  resolveActionConfig,
+  isBranchStep,
+  isConditionGroup,
+} from './action-registry'
+import {
+  createWorkflowRun,
+  completeWorkflowRun,
+  updateWorkflowRun,
+  getWorkflow,
+  getWorkflowRun,
+  isRetryableRunStatus,
+} from './workflow-queries'
+import { enqueueScheduledStep } from './scheduled-steps'
+import { createWorkflowApproval } from './approvals'
+import { deliverWebhook, getWebhookSecret } from './webhooks'
 import { createSlackChannelForClient } from '@/lib/integrations/slack-channel-service'
 
 type SupabaseClientType = SupabaseClient<Database>
@@ -36,13 +54,18 @@ export class WorkflowEngine {
   }
 
   /**
-   * Execute a workflow with given trigger data
+   * Execute a workflow with given trigger data.
+   * With `dryRun`, triggers, conditions, branches and variables are evaluated
+   * against the real client, but no run is recorded and no action writes anything.
    */
   async executeWorkflow(
     workflowId: string,
     triggerData: Record<string, unknown>,
-    clientId?: string
+    clientId?: string,
+    options: { dryRun?: boolean } = {}
   ): Promise<WorkflowExecutionResult> {
+    const dryRun = options.dryRun === true
+
     // Get workflow
     const { data: workflow, error: workflowError } = await getWorkflow(
       this.supabase,
@@ -54,25 +77,33 @@ export class WorkflowEngine {
       throw new Error(workflowError?.message || 'Workflow not found')
     }
 
-    if (!workflow.is_active) {
+    // Disabled workflows can still be simulated before they are switched on
+    if (!workflow.is_active && !dryRun) {
       throw new Error('Workflow is disabled')
     }
 
-    // Create run record
-    const { data: run, error: runError } = await createWorkflowRun(this.supabase, this.agencyId, {
-      workflowId,
-      triggerData,
-    })
+    // Create run record (simulations are not recorded)
+    let run: { id: string; started_at: string }
+    if (dryRun) {
+      run = { id: 'dry-run', started_at: new Date().toISOString() }
+    } else {
+      const { data, error: runError } = await createWorkflowRun(this.supabase, this.agencyId, {
+        workflowId,
+        triggerData,
+        clientId,
+      })
 
-    if (runError || !run) {
-      throw new Error(runError?.message || 'Failed to create workflow run')
+      if (runError || !data) {
+        throw new Error(runError?.message || 'Failed to create workflow run')
+      }
+      run = data
     }
 
-    // Get client snapshot if applicable
-    let clientSnapshot: ClientSnapshot | undefined
-    if (clientId) {
-      clientSnapshot = await this.getClientSnapshot(clientId)
-      if (!clientSnapshot) {
+    const finish = async (
+      status: 'failed' | 'skipped',
+      reason: string
+    ): Promise<WorkflowExecutionResult> => {
+      if (!dryRun) {
         await completeWorkflowRun(
           this.supabase,
           run.id,
@@ -80,18 +111,29 @@ export class WorkflowEngine {
           workflowId,
           false,
           [],
-          'Client not found or query failed'
+          reason
         )
-        return {
-          runId: run.id,
-          workflowId,
-          status: 'failed',
-          triggerData,
-          actionResults: [],
-          startedAt: run.started_at,
-          completedAt: new Date().toISOString(),
-          error: 'Client not found or query failed',
-        }
+      }
+
+      return {
+        runId: run.id,
+        workflowId,
+        status,
+        triggerData,
+        actionResults: [],
+        startedAt: run.started_at,
+        completedAt: new Date().toISOString(),
+        error: reason,
+        dryRun: dryRun || undefined,
+      }
+    }
+
+    // Get client snapshot if applicable
+    let clientSnapshot: ClientSnapshot | undefined
+    if (clientId) {
+      clientSnapshot = await this.getClientSnapshot(clientId)
+      if (!clientSnapshot) {
+        return finish('failed', 'Client not found or query failed')
       }
     }
 
@@ -105,6 +147,7 @@ export class WorkflowEngine {
       clientSnapshot,
       variables: {},
     }
+    if (dryRun) context.dryRun = true
 
     try {
       // Validate triggers are still met (for condition-based triggers)
@@ -114,115 +157,373 @@ export class WorkflowEngine {
       )
 
       if (!triggersValid) {
-        await completeWorkflowRun(
-          this.supabase,
-          run.id,
-          this.agencyId,
-          workflowId,
-          false,
-          [],
-          'Trigger conditions no longer met'
-        )
-
-        return {
-          runId: run.id,
-          workflowId,
-          status: 'skipped',
-          triggerData,
-          actionResults: [],
-          startedAt: run.started_at,
-          completedAt: new Date().toISOString(),
-          error: 'Trigger conditions no longer met',
-        }
+        return finish('skipped', 'Trigger conditions no longer met')
       }
 
       // Execute action chain
       const actionResults = await this.executeActionChain(
-        workflow.actions as unknown as WorkflowAction[],
+        workflow.actions as unknown as WorkflowStep[],
         context
       )
 
-      // Determine overall success (skipped actions don't count as failures)
-      const failedCount = actionResults.filter((r) => r.status === 'failed').length
-      const completedCount = actionResults.filter((r) => r.status === 'completed').length
-      const runStatus = failedCount === 0 ? 'completed'
-        : completedCount > 0 ? 'partial_failure'
-        : 'failed'
-      const success = runStatus === 'completed'
+      return this.settleRun(context, run.started_at, actionResults)
+    } catch (error) {
+      return finish('failed', error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
+  /**
+   * Resume a run that was parked on a delayed action or an approval.
+   * The chain continues from `actionIndex` with the execution context captured
+   * when the run was parked; the parked action itself runs immediately.
+   * For approvals, `approvedConfig` is the config the approver signed off on.
+   */
+  async resumeWorkflowRun(step: {
+    context: WorkflowExecutionContext
+    actionId: string
+    actionIndex: number
+    priorResults: ActionResult[]
+    gate?: 'delay' | 'approval'
+    approvedConfig?: Record<string, unknown>
+  }): Promise<WorkflowExecutionResult> {
+    const { context, priorResults, gate = 'delay' } = step
+    const label = gate === 'approval' ? 'Approved action' : 'Delayed action'
+
+    const { data: run, error: runError } = await getWorkflowRun(
+      this.supabase,
+      context.runId,
+      this.agencyId
+    )
+
+    if (runError || !run) {
+      throw new Error(runError?.message || 'Workflow run not found')
+    }
+
+    const { data: workflow } = await getWorkflow(this.supabase, context.workflowId, this.agencyId)
 
-      // Complete the run
+    const abort = async (reason: string): Promise<WorkflowExecutionResult> => {
       await completeWorkflowRun(
         this.supabase,
         run.id,
         this.agencyId,
-        workflowId,
-        success,
-        actionResults,
-        failedCount > 0 ? `${failedCount} action(s) failed` : undefined
+        context.workflowId,
+        false,
+        priorResults,
+        reason
       )
-
       return {
         runId: run.id,
-        workflowId,
-        status: runStatus,
-        triggerData,
-        actionResults,
+        workflowId: context.workflowId,
+        status: 'failed',
+        triggerData: context.triggerData,
+        actionResults: priorResults,
         startedAt: run.started_at,
         completedAt: new Date().toISOString(),
-        error: failedCount > 0 ? `${failedCount} action(s) failed` : undefined,
+        error: reason,
       }
+    }
+
+    if (!workflow) return abort('Workflow no longer exists')
+    if (!workflow.is_active) return abort(`Workflow was disabled before ${label.toLowerCase()} ran`)
+
+    // Re-apply branch decisions already taken so indices line up with the parked chain,
+    // then locate the action by ID in case the workflow was edited while it waited
+    const actions = this.replayBranchDecisions(
+      workflow.actions as unknown as WorkflowStep[],
+      priorResults
+    )
+    const actionIndex = actions[step.actionIndex]?.id === step.actionId
+      ? step.actionIndex
+      : actions.findIndex((a) => a.id === step.actionId)
+
+    if (actionIndex < 0) return abort(`${label} was removed from the workflow`)
+
+    try {
+      const newResults = await this.executeActionChain(actions, context, {
+        resumeFrom: actionIndex,
+        resumeGate: gate,
+        approvedConfig: step.approvedConfig,
+        priorResults,
+      })
+
+      return this.settleRun(context, run.started_at, [...priorResults, ...newResults])
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      return abort(error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
+  /**
+   * Close a parked run without executing anything further, e.g. when its
+   * approval was rejected or expired. `finalResult` records why it stopped.
+   */
+  async closeParkedRun(
+    context: WorkflowExecutionContext,
+    priorResults: ActionResult[],
+    finalResult: ActionResult
+  ): Promise<WorkflowExecutionResult> {
+    const { data: run, error } = await getWorkflowRun(this.supabase, context.runId, this.agencyId)
+
+    if (error || !run) {
+      throw new Error(error?.message || 'Workflow run not found')
+    }
+
+    return this.settleRun(context, run.started_at, [...priorResults, finalResult])
+  }
+
+  /**
+   * Retry a failed or partially failed run from its first failed action.
+   * A new run linked to the original starts with the same trigger data and
+   * client. Results before the failure are carried over and their branch
+   * decisions replayed, and actions that completed after it (continueOnFailure)
+   * are carried over where they come up, so completed actions are not executed
+   * again. The failed action runs without waiting out its delay again, but
+   * approval-gated actions ask for a fresh approval.
+   */
+  async retryWorkflowRun(runId: string): Promise<WorkflowExecutionResult> {
+    const { data: original, error: runError } = await getWorkflowRun(
+      this.supabase,
+      runId,
+      this.agencyId
+    )
+
+    if (runError || !original) {
+      throw new Error(runError?.message || 'Workflow run not found')
+    }
 
+    if (!isRetryableRunStatus(original.status)) {
+      throw new Error('Only failed or partially failed runs can be retried')
+    }
+
+    const previousResults = (original.executed_actions ?? []) as unknown as ActionResult[]
+    const failedAt = previousResults.findIndex((r) => r.status === 'failed')
+    if (failedAt < 0) {
+      throw new Error('Run has no failed action to retry')
+    }
+
+    const { data: workflow, error: workflowError } = await getWorkflow(
+      this.supabase,
+      original.workflow_id,
+      this.agencyId
+    )
+
+    if (workflowError || !workflow) {
+      throw new Error(workflowError?.message || 'Workflow not found')
+    }
+
+    if (!workflow.is_active) {
+      throw new Error('Workflow is disabled')
+    }
+
+    const carriedOver = previousResults
+      .slice(0, failedAt)
+      .map((r): ActionResult => ({ ...r, carriedOver: true }))
+    const actions = this.replayBranchDecisions(
+      workflow.actions as unknown as WorkflowStep[],
+      carriedOver
+    )
+    const actionIndex = actions.findIndex((a) => a.id === previousResults[failedAt].actionId)
+    const completedAfterFailure = new Map(
+      previousResults
+        .slice(failedAt + 1)
+        .filter((r) => r.status === 'completed' && r.actionType !== 'branch')
+        .map((r): [string, ActionResult] => [r.actionId, { ...r, carriedOver: true }])
+    )
+
+    if (actionIndex < 0) {
+      throw new Error('Failed action was removed from the workflow')
+    }
+
+    const triggerData = original.trigger_data as Record<string, unknown>
+    // Runs recorded before client_id existed only have it in event trigger data
+    const clientId = original.client_id
+      ?? (typeof triggerData.clientId === 'string' ? triggerData.clientId : undefined)
+
+    const { data: run, error: createError } = await createWorkflowRun(this.supabase, this.agencyId, {
+      workflowId: original.workflow_id,
+      triggerData,
+      clientId,
+      retryOfRunId: original.id,
+    })
+
+    if (createError || !run) {
+      throw new Error(createError?.message || 'Failed to create workflow run')
+    }
+
+    const fail = async (reason: string): Promise<WorkflowExecutionResult> => {
       await completeWorkflowRun(
         this.supabase,
         run.id,
         this.agencyId,
-        workflowId,
+        original.workflow_id,
         false,
-        [],
-        errorMessage
+        carriedOver,
+        reason
       )
-
       return {
         runId: run.id,
-        workflowId,
+        workflowId: original.workflow_id,
         status: 'failed',
         triggerData,
-        actionResults: [],
+        actionResults: carriedOver,
         startedAt: run.started_at,
         completedAt: new Date().toISOString(),
-        error: errorMessage,
+        error: reason,
+        retryOfRunId: original.id,
       }
     }
+
+    let clientSnapshot: ClientSnapshot | undefined
+    if (clientId) {
+      clientSnapshot = await this.getClientSnapshot(clientId)
+      if (!clientSnapshot) return fail('Client not found or query failed')
+    }
+
+    const context: WorkflowExecutionContext = {
+      workflowId: original.workflow_id,
+      runId: run.id,
+      agencyId: this.agencyId,
+      userId: this.userId,
+      triggerData,
+      clientSnapshot,
+      variables: {},
+    }
+
+    try {
+      const newResults = await this.executeActionChain(actions, context, {
+        resumeFrom: actionIndex,
+        resumeGate: 'delay',
+        priorResults: carriedOver,
+        completedActions: completedAfterFailure,
+      })
+
+      const result = await this.settleRun(context, run.started_at, [...carriedOver, ...newResults])
+      return { ...result, retryOfRunId: original.id }
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
+  /**
+   * Persist the outcome of an action chain.
+   * A chain that stopped on a scheduled (delayed) action or an approval keeps
+   * the run in 'running' until it is resumed. Dry runs never park and are not persisted.
+   */
+  private async settleRun(
+    context: WorkflowExecutionContext,
+    startedAt: string,
+    actionResults: ActionResult[]
+  ): Promise<WorkflowExecutionResult> {
+    const parkedOn = !context.dryRun && actionResults.find(
+      (r) => r.status === 'scheduled' || r.status === 'pending_approval'
+    )
+
+    if (parkedOn) {
+      await updateWorkflowRun(this.supabase, context.runId, this.agencyId, {
+        executedActions: actionResults,
+      })
+
+      return {
+        runId: context.runId,
+        workflowId: context.workflowId,
+        status: parkedOn.status === 'pending_approval' ? 'pending_approval' : 'running',
+        triggerData: context.triggerData,
+        actionResults,
+        startedAt,
+      }
+    }
+
+    // Determine overall success (skipped actions don't count as failures)
+    const failedCount = actionResults.filter((r) => r.status === 'failed').length
+    const completedCount = actionResults.filter((r) => r.status === 'completed').length
+    const runStatus = failedCount === 0 ? 'completed'
+      : completedCount > 0 ? 'partial_failure'
+      : 'failed'
+    const success = runStatus === 'completed'
+
+    // Complete the run
+    if (!context.dryRun) {
+      await completeWorkflowRun(
+        this.supabase,
+        context.runId,
+        this.agencyId,
+        context.workflowId,
+        success,
+        actionResults,
+        failedCount > 0 ? `${failedCount} action(s) failed` : undefined
+      )
+    }
+
+    return {
+      runId: context.runId,
+      workflowId: context.workflowId,
+      status: runStatus,
+      triggerData: context.triggerData,
+      actionResults,
+      startedAt,
+      completedAt: new Date().toISOString(),
+      error: failedCount > 0 ? `${failedCount} action(s) failed` : undefined,
+      dryRun: context.dryRun,
+    }
   }
 
   /**
-   * Execute action chain with conditions and delays
+   * Execute action chain with conditions, branches and delays.
+   * Branch steps splice the chosen path into the chain right after themselves,
+   * so delays and approvals inside a branch park and resume like any other step.
    */
   private async executeActionChain(
-    actions: WorkflowAction[],
-    context: WorkflowExecutionContext
+    steps: WorkflowStep[],
+    context: WorkflowExecutionContext,
+    options: {
+      resumeFrom?: number
+      resumeGate?: 'delay' | 'approval'
+      approvedConfig?: Record<string, unknown>
+      priorResults?: ActionResult[]
+      /** Results of actions a retried run already completed, keyed by action id */
+      completedActions?: Map<string, ActionResult>
+    } = {}
   ): Promise<ActionResult[]> {
     const results: ActionResult[] = []
+    const { resumeFrom, resumeGate, approvedConfig, priorResults = [], completedActions } = options
+    const chain = [...steps]
 
-    for (const action of actions) {
+    for (let index = resumeFrom ?? 0; index < chain.length; index++) {
+      const step = chain[index]
       const startTime = Date.now()
 
-      // Handle delays (in real implementation, this would schedule for later)
-      if (action.delayMinutes && action.delayMinutes > 0) {
-        // For now, we'll skip delayed actions and log them
-        // In production, these would be scheduled via a job queue
+      if (isBranchStep(step)) {
+        const decision = await this.chooseBranch(step, context)
+        chain.splice(index + 1, 0, ...decision.actions)
         results.push({
-          actionId: action.id,
-          actionType: action.type,
-          status: 'pending_approval', // Using this status to indicate scheduled
-          result: { scheduled: true, delayMinutes: action.delayMinutes },
+          actionId: step.id,
+          actionType: 'branch',
+          status: 'completed',
+          result: { branchId: decision.branchId, branchName: decision.branchName },
           executedAt: new Date().toISOString(),
+          durationMs: Date.now() - startTime,
         })
         continue
       }
 
+      const action = step
+      const approved = index === resumeFrom && resumeGate === 'approval'
+
+      const alreadyCompleted = completedActions?.get(action.id)
+      if (alreadyCompleted) {
+        results.push(alreadyCompleted)
+        continue
+      }
+
+      // Delayed actions park the rest of the chain in the step queue.
+      // When resuming, the action at resumeFrom has already waited out its delay.
+      // Dry runs report the delay on the action's result and carry straight on.
+      if (action.delayMinutes && action.delayMinutes > 0 && index !== resumeFrom && !context.dryRun) {
+        results.push(
+          await this.scheduleDelayedAction(action, index, context, [...priorResults, ...results])
+        )
+        break
+      }
+
       // Check conditions
       if (action.condition) {
         const conditionMet = await this.evaluateCondition(action.condition, context)
@@ -238,26 +539,31 @@ export class WorkflowEngine {
         }
       }
 
-      // Check if requires approval
-      if (action.requiresApproval) {
-        // Queue for approval instead of executing
-        // In production, this would create an approval record
-        results.push({
-          actionId: action.id,
-          actionType: action.type,
-          status: 'pending_approval',
-          result: { awaitingApproval: true },
-          executedAt: new Date().toISOString(),
-        })
+      if (context.dryRun) {
+        results.push(this.simulateAction(action, context))
         continue
       }
 
+      // Actions needing sign-off park the rest of the chain until approved
+      if (action.requiresApproval && !approved) {
+        results.push(
+          await this.requestApproval(action, index, context, [...priorResults, ...results])
+        )
+        break
+      }
+
       // Execute the action
+      const resolvedConfig = approved && approvedConfig
+        ? approvedConfig
+        : this.resolveConfig(action, context)
       try {
-        const result = await this.executeAction(action, context)
+        const result = approved && approvedConfig
+          ? await this.executeApprovedAction(action, approvedConfig, context)
+          : await this.executeAction(action, context, resolvedConfig)
         results.push({
           ...result,
           durationMs: Date.now() - startTime,
+          resolvedConfig,
         })
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -268,6 +574,7 @@ export class WorkflowEngine {
           error: errorMessage,
           executedAt: new Date().toISOString(),
           durationMs: Date.now() - startTime,
+          resolvedConfig,
         })
 
         // Stop chain on failure unless configured to continue
@@ -281,12 +588,210 @@ export class WorkflowEngine {
   }
 
   /**
-   * Execute a single action
+   * Pick the first branch whose condition group matches, falling back to the
+   * else path. `branchId` is null when nothing matched and there is no else path.
    */
-  private async executeAction(
+  private async chooseBranch(
+    step: BranchStep,
+    context: WorkflowExecutionContext
+  ): Promise<{ branchId: string | null; branchName: string | null; actions: WorkflowAction[] }> {
+    for (const branch of step.branches) {
+      if (await this.evaluateCondition(branch.condition, context)) {
+        return { branchId: branch.id, branchName: branch.name, actions: branch.actions }
+      }
+    }
+
+    if (step.elseActions?.length) {
+      return { branchId: 'else', branchName: 'Otherwise', actions: step.elseActions }
+    }
+
+    return { branchId: null, branchName: null, actions: [] }
+  }
+
+  /**
+   * Expand branch steps using the decisions recorded in `priorResults`, giving
+   * the same chain layout the run had when it was parked
+   */
+  private replayBranchDecisions(steps: WorkflowStep[], priorResults: ActionResult[]): WorkflowStep[] {
+    const decisions = new Map(
+      priorResults
+        .filter((r) => r.actionType === 'branch')
+        .map((r) => [r.actionId, r.result?.branchId as string | null | undefined])
+    )
+
+    return steps.flatMap((step) => {
+      if (!isBranchStep(step) || !decisions.has(step.id)) return [step]
+
+      const branchId = decisions.get(step.id)
+      const chosen = branchId === 'else'
+        ? step.elseActions ?? []
+        : step.branches.find((b) => b.id === branchId)?.actions ?? []
+
+      return [step, ...chosen]
+    })
+  }
+
+  /**
+   * Persist a delayed action to the step queue and return its 'scheduled' result
+   */
+  private async scheduleDelayedAction(
+    action: WorkflowAction,
+    actionIndex: number,
+    context: WorkflowExecutionContext,
+    priorResults: ActionResult[]
+  ): Promise<ActionResult> {
+    const delayMinutes = action.delayMinutes ?? 0
+    const runAt = new Date(Date.now() + delayMinutes * 60 * 1000)
+
+    const { data: step, error } = await enqueueScheduledStep(this.supabase, {
+      context,
+      actionId: action.id,
+      actionIndex,
+      runAt,
+      priorResults,
+    })
+
+    if (error || !step) {
+      return {
+        actionId: action.id,
+        actionType: action.type,
+        status: 'failed',
+        error: `Failed to schedule delayed action: ${error?.message || 'unknown error'}`,
+        executedAt: new Date().toISOString(),
+      }
+    }
+
+    return {
+      actionId: action.id,
+      actionType: action.type,
+      status: 'scheduled',
+      result: { scheduledStepId: step.id, runAt: step.run_at, delayMinutes },
+      executedAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Record an approval request for an action and return its 'pending_approval' result.
+   * The approver sees the config with variables resolved; for draft_communication
+   * the AI draft is generated up front so the exact message can be reviewed.
+   */
+  private async requestApproval(
+    action: WorkflowAction,
+    actionIndex: number,
+    context: WorkflowExecutionContext,
+    priorResults: ActionResult[]
+  ): Promise<ActionResult> {
+    const actionConfig = this.resolveConfig(action, context)
+
+    if (action.type === 'draft_communication') {
+      const draft = await this.executeDraftCommunication({ ...action, config: actionConfig } as typeof action, context)
+      actionConfig.draft = draft.result?.draft
+      actionConfig.aiGenerated = draft.result?.aiGenerated
+    }
+
+    const { data: approval, error } = await createWorkflowApproval(this.supabase, {
+      context,
+      action,
+      actionIndex,
+      actionConfig,
+      priorResults,
+    })
+
+    if (error || !approval) {
+      return {
+        actionId: action.id,
+        actionType: action.type,
+        status: 'failed',
+        error: `Failed to request approval: ${error?.message || 'unknown error'}`,
+        executedAt: new Date().toISOString(),
+      }
+    }
+
+    return {
+      actionId: action.id,
+      actionType: action.type,
+      status: 'pending_approval',
+      result: { approvalId: approval.id, expiresAt: approval.expires_at },
+      executedAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Execute an action the approver signed off on, with the config resolved at
+   * approval time rather than from the client and trigger data as they are now.
+   * Approved drafts are used verbatim instead of being regenerated.
+   */
+  private async executeApprovedAction(
     action: WorkflowAction,
+    approvedConfig: Record<string, unknown>,
     context: WorkflowExecutionContext
   ): Promise<ActionResult> {
+    if (action.type === 'draft_communication' && typeof approvedConfig.draft === 'string') {
+      const draft = approvedConfig.draft
+      return {
+        actionId: action.id,
+        actionType: 'draft_communication',
+        status: 'completed',
+        result: {
+          platform: action.config.platform,
+          template: action.config.template,
+          tone: action.config.tone,
+          draft,
+          preview: draft.slice(0, 500),
+          aiGenerated: approvedConfig.aiGenerated === true,
+          approved: true,
+        },
+        executedAt: new Date().toISOString(),
+      }
+    }
+
+    return this.executeAction(action, context, approvedConfig)
+  }
+
+  /**
+   * An action's config with client and trigger variables substituted
+   */
+  private resolveConfig(
+    action: WorkflowAction,
+    context: WorkflowExecutionContext
+  ): Record<string, unknown> {
+    return resolveActionConfig(
+      { ...action.config },
+      { client: context.clientSnapshot, trigger: context.triggerData }
+    )
+  }
+
+  /**
+   * Report what an action would do in a dry run without executing it.
+   * Approval-gated actions report 'pending_approval'; the rest of the chain is
+   * still simulated as if they were approved.
+   */
+  private simulateAction(action: WorkflowAction, context: WorkflowExecutionContext): ActionResult {
+    const resolvedConfig = this.resolveConfig(action, context)
+
+    return {
+      actionId: action.id,
+      actionType: action.type,
+      status: action.requiresApproval ? 'pending_approval' : 'completed',
+      result: {
+        dryRun: true,
+        resolvedConfig,
+        ...(action.delayMinutes ? { delayMinutes: action.delayMinutes } : {}),
+      },
+      executedAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Execute a single action with its resolved config. Executors read variables
+   * from the config as given and do not substitute them again.
+   */
+  private async executeAction(
+    step: WorkflowAction,
+    context: WorkflowExecutionContext,
+    resolvedConfig: Record<string, unknown> = this.resolveConfig(step, context)
+  ): Promise<ActionResult> {
+    const action = { ...step, config: resolvedConfig } as WorkflowAction
     switch (action.type) {
       case 'create_task':
         return this.executeCreateTask(action, context)
@@ -302,6 +807,8 @@ export class WorkflowEngine {
         return this.executeCreateAlert(action, context)
       case 'create_slack_channel':
         return this.executeCreateSlackChannel(action, context)
+      case 'call_webhook':
+        return this.executeCallWebhook(action, context)
       default:
         throw new Error(`Unknown action type: ${(action as WorkflowAction).type}`)
     }
@@ -317,17 +824,6 @@ export class WorkflowEngine {
   ): Promise<ActionResult> {
     const { title, description, priority: _priority, dueInDays, assignToTriggeredUser } = action.config
 
-    // Substitute variables
-    const processedTitle = substituteVariables(title, {
-      client: context.clientSnapshot,
-      trigger: context.triggerData,
-    })
-    const processedDescription = description
-      ? substituteVariables(description, {
-          client: context.clientSnapshot,
-          trigger: context.triggerData,
-        })
-      : undefined
 
     // Calculate due date
     let dueDate: string | undefined
@@ -361,8 +857,8 @@ export class WorkflowEngine {
       .insert({
         agency_id: context.agencyId,
         client_id: context.clientSnapshot.id,
-        name: processedTitle,
-        description: processedDescription,
+        name: title,
+        description,
         due_date: dueDate,
         assigned_to: assignedTo,
         sort_order: 0,
@@ -378,7 +874,7 @@ export class WorkflowEngine {
       actionId: action.id,
       actionType: 'create_task',
       status: 'completed',
-      result: { taskId: data.id, title: processedTitle },
+      result: { taskId: data.id, title },
       executedAt: new Date().toISOString(),
     }
   }
@@ -400,15 +896,10 @@ export class WorkflowEngine {
       }
     }
 
-    const processedMessage = substituteVariables(message, {
-      client: context.clientSnapshot,
-      trigger: context.triggerData,
-    })
-
     if (channel === 'slack') {
-      return this.sendSlackNotification(action, processedMessage, recipients)
+      return this.sendSlackNotification(action, message, recipients)
     } else if (channel === 'email') {
-      return this.sendEmailNotification(action, processedMessage, recipients, context)
+      return this.sendEmailNotification(action, message, recipients, context)
     }
 
     // Unknown channel — log and return completed (backwards compat)
@@ -417,7 +908,7 @@ export class WorkflowEngine {
       actionId: action.id,
       actionType: 'send_notification',
       status: 'completed',
-      result: { channel, recipientCount: recipients.length, message: processedMessage },
+      result: { channel, recipientCount: recipients.length, message },
       executedAt: new Date().toISOString(),
     }
   }
@@ -537,28 +1028,22 @@ export class WorkflowEngine {
   ): Promise<ActionResult> {
     const { platform, template, tone, instructions } = action.config
 
-    // Substitute variables in template
-    const processedTemplate = substituteVariables(template, {
-      client: context.clientSnapshot,
-      trigger: context.triggerData,
-    })
-
-    // Try Gemini AI draft, fall back to template string
+    // Try an AI draft with the agency's LLM provider, fall back to template string
     let draftContent: string
     try {
-      draftContent = await this.generateGeminiDraft(
-        processedTemplate,
+      draftContent = await this.generateAIDraft(
+        template,
         tone || 'professional',
         instructions,
         context
       )
     } catch (err) {
       console.warn('[WorkflowEngine]', {
-        action: 'generateGeminiDraft',
-        warning: 'Gemini draft failed, using template fallback',
+        action: 'generateAIDraft',
+        warning: 'AI draft failed, using template fallback',
         error: err instanceof Error ? err.message : String(err),
       })
-      draftContent = processedTemplate
+      draftContent = template
     }
 
     return {
@@ -571,25 +1056,26 @@ export class WorkflowEngine {
         tone,
         draft: draftContent,
         preview: draftContent.slice(0, 500),
-        aiGenerated: draftContent !== processedTemplate,
+        aiGenerated: draftContent !== template,
       },
       executedAt: new Date().toISOString(),
     }
   }
 
-  private async generateGeminiDraft(
+  private async generateAIDraft(
     template: string,
     tone: string,
     instructions: string | undefined,
     context: WorkflowExecutionContext
   ): Promise<string> {
-    const apiKey = process.env.GOOGLE_AI_API_KEY
-    if (!apiKey) {
-      throw new Error('GOOGLE_AI_API_KEY not configured')
-    }
-
-    const { GoogleGenAI } = await import('@google/genai')
-    const genai = new GoogleGenAI({ apiKey })
+    // Throws LLMError when the provider's API key is not configured or the
+    // agency's monthly AI budget is used up; either way the template is sent
+    const { getMeteredLLMProvider } = await import('@/lib/llm')
+    const { provider } = await getMeteredLLMProvider(this.supabase, {
+      agencyId: this.agencyId,
+      userId: this.userId || null,
+      feature: 'workflow_draft',
+    })
 
     const clientContext = context.clientSnapshot
       ? `Client: ${context.clientSnapshot.name}, Stage: ${context.clientSnapshot.stage}, Health: ${context.clientSnapshot.healthStatus}`
@@ -608,18 +1094,15 @@ export class WorkflowEngine {
       .filter(Boolean)
       .join('\n')
 
-    const result = await genai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-        maxOutputTokens: 1024,
-      },
+    const result = await provider.generate({
+      messages: prompt,
+      temperature: 0.7,
+      maxOutputTokens: 1024,
     })
 
-    const text = result.text?.trim()
+    const text = result.text.trim()
     if (!text) {
-      throw new Error('Empty response from Gemini')
+      throw new Error(`Empty response from ${provider.name}`)
     }
 
     return text
@@ -635,17 +1118,7 @@ export class WorkflowEngine {
       throw new Error('Create ticket action requires a client context')
     }
 
-    const processedTitle = substituteVariables(title, {
-      client: context.clientSnapshot,
-      trigger: context.triggerData,
-    })
-
-    const processedDescription = description
-      ? substituteVariables(description, {
-          client: context.clientSnapshot,
-          trigger: context.triggerData,
-        })
-      : `Auto-generated by automation: ${context.workflowId}`
+    const processedDescription = description || `Auto-generated by automation: ${context.workflowId}`
 
     // number is auto-generated by DB but typed as required in generated types
     const { data, error } = await (this.supabase as unknown as import('@supabase/supabase-js').SupabaseClient)
@@ -653,7 +1126,7 @@ export class WorkflowEngine {
       .insert({
         agency_id: context.agencyId,
         client_id: context.clientSnapshot.id,
-        title: processedTitle,
+        title,
         description: processedDescription,
         category,
         priority,
@@ -671,7 +1144,7 @@ export class WorkflowEngine {
       actionId: action.id,
       actionType: 'create_ticket',
       status: 'completed',
-      result: { ticketId: data.id, ticketNumber: data.number, title: processedTitle },
+      result: { ticketId: data.id, ticketNumber: data.number, title },
       executedAt: new Date().toISOString(),
     }
   }
@@ -763,17 +1236,7 @@ export class WorkflowEngine {
   ): Promise<ActionResult> {
     const { title, description, type, severity } = action.config
 
-    const processedTitle = substituteVariables(title, {
-      client: context.clientSnapshot,
-      trigger: context.triggerData,
-    })
-
-    const processedDescription = description
-      ? substituteVariables(description, {
-          client: context.clientSnapshot,
-          trigger: context.triggerData,
-        })
-      : `Auto-generated alert from workflow: ${context.workflowId}`
+    const processedDescription = description || `Auto-generated alert from workflow: ${context.workflowId}`
 
     const { data, error } = await this.supabase
       .from('alert')
@@ -782,7 +1245,7 @@ export class WorkflowEngine {
         client_id: context.clientSnapshot?.id,
         type,
         severity,
-        title: processedTitle,
+        title,
         description: processedDescription,
         confidence: 1.0, // Automated alerts have full confidence
         metadata: {
@@ -799,11 +1262,32 @@ export class WorkflowEngine {
       throw new Error(`Failed to create alert: ${error.message}`)
     }
 
+    // Let alert_created workflows react; loaded lazily as the event router
+    // itself depends on this engine. A run started by a workflow's alert
+    // passes on one more hop of depth
+    const parentDepth = context.triggerData.workflowDepth
+    const { dispatchWorkflowEvent } = await import('./event-router')
+    dispatchWorkflowEvent(this.supabase, this.agencyId, this.userId, {
+      type: 'alert_created',
+      data: {
+        alertId: data.id,
+        alertType: type,
+        severity,
+        title,
+        clientId: context.clientSnapshot?.id,
+        sourceWorkflowId: context.workflowId,
+        workflowDepth: (typeof parentDepth === 'number' ? parentDepth : 0) + 1,
+      },
+      clientId: context.clientSnapshot?.id,
+    }).catch((err) => {
+      console.error('[execution-engine] Workflow dispatch error:', err)
+    })
+
     return {
       actionId: action.id,
       actionType: 'create_alert',
       status: 'completed',
-      result: { alertId: data.id, title: processedTitle, severity },
+      result: { alertId: data.id, title, severity },
       executedAt: new Date().toISOString(),
     }
   }
@@ -816,10 +1300,7 @@ export class WorkflowEngine {
       throw new Error('Create Slack channel action requires a client context')
     }
 
-    const channelName = substituteVariables(action.config.channelName, {
-      client: context.clientSnapshot,
-      trigger: context.triggerData,
-    })
+    const { channelName } = action.config
 
     const result = await createSlackChannelForClient({
       agencyId: context.agencyId,
@@ -849,6 +1330,64 @@ export class WorkflowEngine {
     }
   }
 
+  private async executeCallWebhook(
+    action: WorkflowAction & { type: 'call_webhook' },
+    context: WorkflowExecutionContext
+  ): Promise<ActionResult> {
+    const method = action.config.method || 'POST'
+    const { url, headers } = action.config
+
+    // Without a configured body, send the trigger and client so receivers get context
+    const payload = action.config.body
+      ? action.config.body
+      : {
+          event: 'workflow.action',
+          workflowId: context.workflowId,
+          runId: context.runId,
+          actionId: action.id,
+          trigger: context.triggerData,
+          client: context.clientSnapshot ?? null,
+        }
+
+    const { data: secret, error: secretError } = await getWebhookSecret(this.supabase, this.agencyId)
+    if (!secret) {
+      throw new Error(`Failed to load webhook signing secret: ${secretError?.message}`)
+    }
+
+    const delivery = await deliverWebhook(
+      {
+        url,
+        method,
+        headers,
+        body: method === 'GET' || method === 'DELETE' ? undefined : JSON.stringify(payload),
+        secret,
+      },
+      { maxRetries: action.config.maxRetries }
+    )
+
+    if (!delivery.ok) {
+      throw new Error(
+        `Webhook ${method} ${url} failed after ${delivery.attempts} attempt(s): ${delivery.error}`
+      )
+    }
+
+    return {
+      actionId: action.id,
+      actionType: 'call_webhook',
+      status: 'completed',
+      result: {
+        url,
+        method,
+        status: delivery.status,
+        response: delivery.response,
+        attempts: delivery.attempts,
+        deliveryId: delivery.deliveryId,
+        durationMs: delivery.durationMs,
+      },
+      executedAt: new Date().toISOString(),
+    }
+  }
+
   // ============================================================================
   // HELPERS
   // ============================================================================
@@ -1011,9 +1550,19 @@ export class WorkflowEngine {
   }
 
   private async evaluateCondition(
-    condition: { field: string; operator: string; value?: unknown },
+    condition: ActionCondition | ConditionGroup,
     context: WorkflowExecutionContext
   ): Promise<boolean> {
+    if (isConditionGroup(condition)) {
+      for (const child of condition.conditions) {
+        const met = await this.evaluateCondition(child, context)
+        // Short-circuit: first true wins for "or", first false loses for "and"
+        if (condition.logic === 'or' && met) return true
+        if (condition.logic === 'and' && !met) return false
+      }
+      return condition.logic === 'and'
+    }
+
     const { field, operator, value } = condition
 
     // Get field value from context
@@ -12,6 +12,9 @@ export type {
   WorkflowRunInsert,
   WorkflowRunUpdate,
   WorkflowRunStatus,
+  WorkflowScheduledStep,
+  WorkflowTriggerSchedule,
+  ScheduledStepStatus,
   TriggerType,
   WorkflowTrigger,
   StageChangeTrigger,
@@ -20,6 +23,10 @@ export type {
   NewMessageTrigger,
   TicketCreatedTrigger,
   ScheduledTrigger,
+  TicketStatusChangedTrigger,
+  OnboardingSubmittedTrigger,
+  AlertCreatedTrigger,
+  IntegrationDisconnectedTrigger,
   ActionType,
   WorkflowAction,
   CreateTaskAction,
@@ -28,26 +35,42 @@ export type {
   CreateTicketAction,
   UpdateClientAction,
   CreateAlertAction,
+  CallWebhookAction,
+  WebhookMethod,
   ActionCondition,
   ConditionGroup,
   ConditionOperator,
   ConditionFieldPath,
+  WorkflowBranch,
+  BranchStep,
+  WorkflowStep,
   WorkflowExecutionContext,
   ClientSnapshot,
   ActionResult,
   ActionResultStatus,
   WorkflowExecutionResult,
   WorkflowApproval,
+  WorkflowApprovalWithContext,
   ApprovalStatus,
   WorkflowWithStats,
+  WorkflowRunDetail,
   CreateWorkflowRequest,
   UpdateWorkflowRequest,
   WorkflowRunFilters,
   WorkflowListFilters,
   WorkflowAnalytics,
+  WorkflowAnalyticsRange,
+  WorkflowAnalyticsSummary,
+  AgencyWorkflowAnalytics,
   TriggerTypeMetadata,
   ActionTypeMetadata,
   WorkflowTemplate,
+  WorkflowTemplateCategory,
+  WorkflowReferenceKind,
+  WorkflowReference,
+  WorkflowReferenceMapping,
+  WorkflowBundleEntry,
+  WorkflowBundle,
 } from '@/types/workflow'
 
 // Trigger Registry
@@ -69,10 +92,22 @@ export {
   getActionTypesByCategory,
   getActionMetadata,
   validateActionConfig,
+  CONDITION_OPERATORS,
+  CONDITION_FIELDS,
+  MAX_CONDITION_DEPTH,
+  isConditionGroup,
+  isBranchStep,
+  validateCondition,
+  validateWorkflowStep,
+  flattenWorkflowSteps,
   AVAILABLE_VARIABLES,
   substituteVariables,
+  resolveActionConfig,
   DELAY_PRESETS,
   formatDelay,
+  WEBHOOK_METHODS,
+  DEFAULT_WEBHOOK_RETRIES,
+  MAX_WEBHOOK_RETRIES,
 } from './action-registry'
 
 // Database Queries
@@ -86,13 +121,109 @@ export {
   deleteWorkflow,
   getWorkflowRuns,
   getWorkflowRun,
+  getWorkflowRunRetries,
+  isRetryableRunStatus,
   createWorkflowRun,
   updateWorkflowRun,
   completeWorkflowRun,
-  getWorkflowAnalytics,
   getActiveWorkflowsByTriggerType,
 } from './workflow-queries'
 
+// Import / Export
+export {
+  WORKFLOW_BUNDLE_FORMAT,
+  WORKFLOW_BUNDLE_VERSION,
+  MAX_BUNDLE_WORKFLOWS,
+  collectWorkflowReferences,
+  remapWorkflowReferences,
+  createWorkflowBundle,
+  exportWorkflowBundle,
+  validateBundleEntry,
+  parseWorkflowBundle,
+  resolveBundleReferences,
+} from './bundles'
+
+// Agency Templates
+export {
+  WORKFLOW_TEMPLATE_CATEGORIES,
+  toWorkflowTemplate,
+  getAgencyTemplates,
+  getAgencyTemplate,
+  publishWorkflowTemplate,
+  deleteAgencyTemplate,
+  recordTemplateUse,
+} from './templates'
+
+// Analytics
+export {
+  DEFAULT_ANALYTICS_DAYS,
+  MAX_ANALYTICS_DAYS,
+  parseAnalyticsRange,
+  computeWorkflowAnalytics,
+  computeAgencyAnalytics,
+  getWorkflowAnalytics,
+  getAgencyWorkflowAnalytics,
+} from './analytics'
+
+// Delayed Step Queue
+export {
+  MAX_STEP_ATTEMPTS,
+  enqueueScheduledStep,
+  getDueScheduledSteps,
+  claimScheduledStep,
+  completeScheduledStep,
+  failScheduledStep,
+  cancelScheduledStep,
+  releaseStaleScheduledSteps,
+} from './scheduled-steps'
+
+// Cron Schedules
+export {
+  parseCron,
+  isValidTimezone,
+  validateCronExpression,
+  getNextCronRun,
+  getNextCronRuns,
+} from './cron'
+export type { CronSchedule } from './cron'
+export {
+  CATCH_UP_WINDOW_MS,
+  getTriggerSchedules,
+  saveTriggerSchedule,
+  claimTriggerOccurrences,
+  planTriggerOccurrences,
+} from './trigger-schedules'
+
+// Approvals
+export {
+  APPROVAL_TTL_HOURS,
+  createWorkflowApproval,
+  getWorkflowApprovals,
+  getWorkflowApproval,
+  decideWorkflowApproval,
+  expirePendingApprovals,
+  countPendingApprovals,
+} from './approvals'
+export {
+  approveWorkflowAction,
+  rejectWorkflowAction,
+  expireWorkflowApprovals,
+} from './approval-service'
+export type { ApprovalDecisionFailure, ApprovalDecisionResult } from './approval-service'
+
+// Webhooks
+export {
+  WEBHOOK_TIMEOUT_MS,
+  WEBHOOK_DELIVERY_BUDGET_MS,
+  getWebhookSecret,
+  rotateWebhookSecret,
+  signWebhookPayload,
+  validateWebhookUrl,
+  validateWebhookTarget,
+  deliverWebhook,
+} from './webhooks'
+export type { WebhookRequest, WebhookDelivery } from './webhooks'
+
 // Execution Engine
 export { WorkflowEngine, createWorkflowEngine } from './execution-engine'
 
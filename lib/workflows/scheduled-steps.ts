@@ -0,0 +1,155 @@
+/**
+ * Workflow Scheduled Steps
+ * Durable queue for delayed workflow actions (delayMinutes > 0)
+ *
+ * When the engine reaches a delayed action it parks the remainder of the chain
+ * in `workflow_scheduled_step` together with the original execution context.
+ * The workflow-steps cron claims due rows and resumes the chain from there.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import type {
+  ActionResult,
+  WorkflowExecutionContext,
+  WorkflowScheduledStep,
+} from '@/types/workflow'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+// A claimed step is retried on the next tick this many times before it is failed
+export const MAX_STEP_ATTEMPTS = 3
+
+// Steps stuck in 'processing' longer than this are assumed to be from a crashed tick
+const STALE_PROCESSING_MS = 30 * 60 * 1000
+
+export async function enqueueScheduledStep(
+  supabase: SupabaseClientType,
+  data: {
+    context: WorkflowExecutionContext
+    actionId: string
+    actionIndex: number
+    runAt: Date
+    priorResults: ActionResult[]
+  }
+): Promise<{ data: WorkflowScheduledStep | null; error: Error | null }> {
+  const { data: step, error } = await supabase
+    .from('workflow_scheduled_step')
+    .insert({
+      agency_id: data.context.agencyId,
+      workflow_id: data.context.workflowId,
+      workflow_run_id: data.context.runId,
+      action_id: data.actionId,
+      action_index: data.actionIndex,
+      run_at: data.runAt.toISOString(),
+      status: 'pending',
+      context: data.context as unknown as Json,
+      prior_results: data.priorResults as unknown as Json,
+    })
+    .select()
+    .single()
+
+  return { data: step, error: error ? new Error(error.message) : null }
+}
+
+export async function getDueScheduledSteps(
+  supabase: SupabaseClientType,
+  now: Date = new Date(),
+  limit: number = 50
+): Promise<{ data: WorkflowScheduledStep[] | null; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('workflow_scheduled_step')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('run_at', now.toISOString())
+    .order('run_at', { ascending: true })
+    .limit(limit)
+
+  return { data, error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Atomically move a pending step to 'processing'.
+ * Returns null when another tick already claimed it.
+ */
+export async function claimScheduledStep(
+  supabase: SupabaseClientType,
+  step: WorkflowScheduledStep
+): Promise<WorkflowScheduledStep | null> {
+  const { data } = await supabase
+    .from('workflow_scheduled_step')
+    .update({ status: 'processing', attempts: step.attempts + 1 })
+    .eq('id', step.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle()
+
+  return data
+}
+
+export async function completeScheduledStep(
+  supabase: SupabaseClientType,
+  stepId: string
+): Promise<{ error: Error | null }> {
+  const { error } = await supabase
+    .from('workflow_scheduled_step')
+    .update({ status: 'completed', processed_at: new Date().toISOString(), last_error: null })
+    .eq('id', stepId)
+
+  return { error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Record a failed resume attempt. The step goes back to 'pending' until it
+ * has used up MAX_STEP_ATTEMPTS, after which it is marked 'failed'.
+ */
+export async function failScheduledStep(
+  supabase: SupabaseClientType,
+  step: WorkflowScheduledStep,
+  errorMessage: string
+): Promise<{ exhausted: boolean; error: Error | null }> {
+  const exhausted = step.attempts >= MAX_STEP_ATTEMPTS
+
+  const { error } = await supabase
+    .from('workflow_scheduled_step')
+    .update({
+      status: exhausted ? 'failed' : 'pending',
+      last_error: errorMessage,
+      processed_at: exhausted ? new Date().toISOString() : null,
+    })
+    .eq('id', step.id)
+
+  return { exhausted, error: error ? new Error(error.message) : null }
+}
+
+export async function cancelScheduledStep(
+  supabase: SupabaseClientType,
+  stepId: string,
+  reason: string
+): Promise<{ error: Error | null }> {
+  const { error } = await supabase
+    .from('workflow_scheduled_step')
+    .update({ status: 'cancelled', last_error: reason, processed_at: new Date().toISOString() })
+    .eq('id', stepId)
+
+  return { error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Return steps left in 'processing' by a tick that died mid-run to the queue.
+ */
+export async function releaseStaleScheduledSteps(
+  supabase: SupabaseClientType,
+  now: Date = new Date()
+): Promise<{ count: number; error: Error | null }> {
+  const cutoff = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('workflow_scheduled_step')
+    .update({ status: 'pending' })
+    .eq('status', 'processing')
+    .lt('updated_at', cutoff)
+    .select('id')
+
+  return { count: data?.length ?? 0, error: error ? new Error(error.message) : null }
+}
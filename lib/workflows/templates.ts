@@ -0,0 +1,135 @@
+/**
+ * Agency Workflow Templates
+ * Templates an agency publishes from its own workflows, listed alongside the
+ * built-in seeds in lib/workflows/seed-templates.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import type {
+  Workflow,
+  WorkflowStep,
+  WorkflowTemplate,
+  WorkflowTemplateCategory,
+  WorkflowTemplateRow,
+  WorkflowTrigger,
+} from '@/types/workflow'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+export const WORKFLOW_TEMPLATE_CATEGORIES: WorkflowTemplateCategory[] = [
+  'onboarding',
+  'retention',
+  'support',
+  'monitoring',
+  'custom',
+]
+
+export function toWorkflowTemplate(row: WorkflowTemplateRow): WorkflowTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? '',
+    category: row.category as WorkflowTemplateCategory,
+    triggers: row.triggers as unknown as WorkflowTrigger[],
+    actions: row.actions as unknown as WorkflowStep[],
+    popularity: row.use_count,
+    createdAt: row.created_at,
+  }
+}
+
+export async function getAgencyTemplates(
+  supabase: SupabaseClientType,
+  agencyId: string
+): Promise<{ data: WorkflowTemplate[] | null; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('workflow_template')
+    .select('*')
+    .eq('agency_id', agencyId)
+    .order('use_count', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  return {
+    data: data ? data.map(toWorkflowTemplate) : null,
+    error: error ? new Error(error.message) : null,
+  }
+}
+
+export async function getAgencyTemplate(
+  supabase: SupabaseClientType,
+  templateId: string,
+  agencyId: string
+): Promise<{ data: WorkflowTemplate | null; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('workflow_template')
+    .select('*')
+    .eq('id', templateId)
+    .eq('agency_id', agencyId)
+    .maybeSingle()
+
+  return {
+    data: data ? toWorkflowTemplate(data) : null,
+    error: error ? new Error(error.message) : null,
+  }
+}
+
+/**
+ * Snapshot a workflow's triggers and actions as an agency template
+ */
+export async function publishWorkflowTemplate(
+  supabase: SupabaseClientType,
+  agencyId: string,
+  userId: string,
+  workflow: Workflow,
+  options: { name?: string; description?: string; category?: WorkflowTemplateCategory } = {}
+): Promise<{ data: WorkflowTemplate | null; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('workflow_template')
+    .insert({
+      agency_id: agencyId,
+      name: options.name || workflow.name,
+      description: options.description ?? workflow.description,
+      category: options.category ?? 'custom',
+      triggers: workflow.triggers as Json,
+      actions: workflow.actions as Json,
+      source_workflow_id: workflow.id,
+      created_by: userId,
+    })
+    .select()
+    .single()
+
+  return {
+    data: data ? toWorkflowTemplate(data) : null,
+    error: error ? new Error(error.message) : null,
+  }
+}
+
+export async function deleteAgencyTemplate(
+  supabase: SupabaseClientType,
+  templateId: string,
+  agencyId: string
+): Promise<{ error: Error | null }> {
+  const { error } = await supabase
+    .from('workflow_template')
+    .delete()
+    .eq('id', templateId)
+    .eq('agency_id', agencyId)
+
+  return { error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Count a workflow created from the template. Best-effort: concurrent uses
+ * may undercount, which only affects ordering.
+ */
+export async function recordTemplateUse(
+  supabase: SupabaseClientType,
+  template: WorkflowTemplate,
+  agencyId: string
+): Promise<void> {
+  await supabase
+    .from('workflow_template')
+    .update({ use_count: template.popularity + 1 })
+    .eq('id', template.id)
+    .eq('agency_id', agencyId)
+}
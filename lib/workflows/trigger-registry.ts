@@ -4,6 +4,7 @@
  */
 
 import type { TriggerType, TriggerTypeMetadata, WorkflowTrigger } from '@/types/workflow'
+import { validateCronExpression } from './cron'
 
 // ============================================================================
 // TRIGGER TYPE DEFINITIONS
@@ -190,6 +191,102 @@ export const TRIGGER_TYPES: Record<TriggerType, TriggerTypeMetadata> = {
       required: ['schedule', 'timezone'],
     },
   },
+
+  ticket_status_changed: {
+    type: 'ticket_status_changed',
+    name: 'Ticket Status Changed',
+    description: 'Trigger when a support ticket moves to a new status',
+    icon: 'RefreshCw',
+    category: 'event',
+    configSchema: {
+      type: 'object',
+      properties: {
+        fromStatus: {
+          type: 'string',
+          title: 'From Status',
+          description: 'Previous status (leave empty for any)',
+          enum: ['new', 'in_progress', 'waiting_client', 'resolved'],
+        },
+        toStatus: {
+          type: 'string',
+          title: 'To Status',
+          description: 'New status (leave empty for any)',
+          enum: ['new', 'in_progress', 'waiting_client', 'resolved'],
+        },
+      },
+    },
+  },
+
+  onboarding_submitted: {
+    type: 'onboarding_submitted',
+    name: 'Onboarding Submitted',
+    description: 'Trigger when a client submits their onboarding form',
+    icon: 'ClipboardCheck',
+    category: 'event',
+    configSchema: {
+      type: 'object',
+      properties: {
+        journeyId: {
+          type: 'string',
+          title: 'Journey',
+          description: 'Onboarding journey (leave empty for any)',
+        },
+      },
+    },
+  },
+
+  alert_created: {
+    type: 'alert_created',
+    name: 'Alert Created',
+    description: 'Trigger when a new client alert is raised',
+    icon: 'AlertTriangle',
+    category: 'event',
+    configSchema: {
+      type: 'object',
+      properties: {
+        types: {
+          type: 'array',
+          title: 'Alert Types',
+          description: 'Filter by alert type',
+          items: {
+            type: 'string',
+            enum: ['risk_detected', 'kpi_drop', 'inactivity', 'disconnect'],
+          },
+        },
+        severities: {
+          type: 'array',
+          title: 'Severities',
+          description: 'Filter by alert severity',
+          items: {
+            type: 'string',
+            enum: ['low', 'medium', 'high', 'critical'],
+          },
+        },
+      },
+    },
+  },
+
+  integration_disconnected: {
+    type: 'integration_disconnected',
+    name: 'Integration Disconnected',
+    description: 'Trigger when an integration disconnects or fails its health check',
+    icon: 'Unplug',
+    category: 'event',
+    configSchema: {
+      type: 'object',
+      properties: {
+        providers: {
+          type: 'array',
+          title: 'Providers',
+          description: 'Filter by integration provider',
+          items: {
+            type: 'string',
+            enum: ['slack', 'gmail', 'google_ads', 'meta_ads'],
+          },
+        },
+      },
+    },
+  },
 }
 
 // ============================================================================
@@ -249,6 +346,19 @@ export function validateTriggerConfig(trigger: WorkflowTrigger): { valid: boolea
       if (!trigger.config.timezone) {
         errors.push('Scheduled trigger requires a timezone')
       }
+      if (trigger.config.schedule && trigger.config.timezone) {
+        const cronError = validateCronExpression(trigger.config.schedule, trigger.config.timezone)
+        if (cronError) errors.push(`Invalid schedule: ${cronError}`)
+      }
+      break
+    case 'ticket_status_changed':
+      if (
+        trigger.config.fromStatus &&
+        trigger.config.toStatus &&
+        trigger.config.fromStatus === trigger.config.toStatus
+      ) {
+        errors.push('Ticket status trigger requires different from and to statuses')
+      }
       break
   }
 
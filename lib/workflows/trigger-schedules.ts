@@ -0,0 +1,124 @@
+/**
+ * Workflow Trigger Schedules
+ * Persistent next-run state for scheduled (cron) triggers
+ *
+ * Each scheduled trigger has one `workflow_trigger_schedule` row holding the
+ * next occurrence due and the last one fired. The workflow-scheduler cron
+ * claims due occurrences by advancing next_run_at with a conditional update,
+ * so a late or overlapping tick never fires the same occurrence twice.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { WorkflowTriggerSchedule } from '@/types/workflow'
+import { getNextCronRun, parseCron } from './cron'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+// Occurrences older than this when a tick finally sees them are skipped rather
+// than fired, e.g. after a workflow was paused for a week
+export const CATCH_UP_WINDOW_MS = 60 * 60 * 1000
+
+export async function getTriggerSchedules(
+  supabase: SupabaseClientType,
+  workflowIds: string[]
+): Promise<{ data: WorkflowTriggerSchedule[] | null; error: Error | null }> {
+  if (workflowIds.length === 0) return { data: [], error: null }
+
+  const { data, error } = await supabase
+    .from('workflow_trigger_schedule')
+    .select('*')
+    .in('workflow_id', workflowIds)
+
+  return { data, error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Create or reset the schedule state for a trigger, e.g. after its cron
+ * expression or timezone was edited. last_fired_at is left untouched.
+ */
+export async function saveTriggerSchedule(
+  supabase: SupabaseClientType,
+  data: {
+    agencyId: string
+    workflowId: string
+    triggerId: string
+    schedule: string
+    timezone: string
+    nextRunAt: Date | null
+  }
+): Promise<{ data: WorkflowTriggerSchedule | null; error: Error | null }> {
+  const { data: row, error } = await supabase
+    .from('workflow_trigger_schedule')
+    .upsert(
+      {
+        agency_id: data.agencyId,
+        workflow_id: data.workflowId,
+        trigger_id: data.triggerId,
+        schedule: data.schedule,
+        timezone: data.timezone,
+        next_run_at: data.nextRunAt?.toISOString() ?? null,
+      },
+      { onConflict: 'workflow_id,trigger_id' }
+    )
+    .select()
+    .single()
+
+  return { data: row, error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Atomically advance a trigger past the occurrences being fired.
+ * Returns null when another tick already claimed them.
+ */
+export async function claimTriggerOccurrences(
+  supabase: SupabaseClientType,
+  state: WorkflowTriggerSchedule,
+  update: { lastFiredAt: Date | null; nextRunAt: Date | null }
+): Promise<WorkflowTriggerSchedule | null> {
+  if (!state.next_run_at) return null
+
+  const { data } = await supabase
+    .from('workflow_trigger_schedule')
+    .update({
+      next_run_at: update.nextRunAt?.toISOString() ?? null,
+      last_fired_at: update.lastFiredAt?.toISOString() ?? state.last_fired_at,
+    })
+    .eq('id', state.id)
+    .eq('next_run_at', state.next_run_at)
+    .select()
+    .maybeSingle()
+
+  return data
+}
+
+/**
+ * Work out which occurrences from `nextRunAt` up to `now` should fire.
+ * Occurrences outside CATCH_UP_WINDOW_MS are skipped; `nextRunAt` in the
+ * result is the first occurrence after `now`.
+ */
+export function planTriggerOccurrences(
+  schedule: string,
+  timezone: string,
+  nextRunAt: Date,
+  now: Date
+): { due: Date[]; skipped: boolean; nextRunAt: Date | null } {
+  const parsed = parseCron(schedule)
+  const windowStart = new Date(now.getTime() - CATCH_UP_WINDOW_MS)
+
+  let occurrence: Date | null = nextRunAt
+  let skipped = false
+
+  if (occurrence < windowStart) {
+    skipped = true
+    occurrence = getNextCronRun(parsed, timezone, new Date(windowStart.getTime() - 1))
+  }
+
+  const due: Date[] = []
+  while (occurrence && occurrence <= now) {
+    due.push(occurrence)
+    occurrence = getNextCronRun(parsed, timezone, occurrence)
+  }
+
+  return { due, skipped, nextRunAt: occurrence }
+}
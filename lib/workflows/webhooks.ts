@@ -0,0 +1,370 @@
+/**
+ * Workflow Webhooks
+ * Signed outbound HTTP requests for the call_webhook action
+ *
+ * Every request carries:
+ *   X-Webhook-Delivery   ID shared by all retries of one call, for receiver-side dedup
+ *   X-Webhook-Timestamp  Unix seconds when the attempt was sent
+ *   X-Webhook-Signature  sha256=<hex HMAC-SHA256 of "{timestamp}.{body}" keyed with the agency secret>
+ *
+ * Receivers recompute the signature with their copy of the secret and reject
+ * stale timestamps. Network errors, timeouts, 408, 429 and 5xx responses are
+ * retried with exponential backoff within WEBHOOK_DELIVERY_BUDGET_MS, since
+ * delivery runs inline in the workflow; other responses, including redirects,
+ * are final.
+ *
+ * Hosts must resolve to public addresses. WORKFLOW_WEBHOOK_ALLOWED_HOSTS
+ * (comma-separated) exempts hosts such as localhost for local development.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { WebhookMethod } from '@/types/workflow'
+import { encryptToken, decryptToken, serializeEncryptedToken, deserializeEncryptedToken } from '@/lib/crypto'
+import { DEFAULT_WEBHOOK_RETRIES, MAX_WEBHOOK_RETRIES } from './action-registry'
+
+type SupabaseClientType = SupabaseClient<Database>
+
+export const WEBHOOK_TIMEOUT_MS = 10_000
+/** Longest one delivery may take across all attempts and backoff */
+export const WEBHOOK_DELIVERY_BUDGET_MS = 30_000
+const MAX_BACKOFF_MS = 5_000
+// Responses are stored on the action result, so keep them small
+const MAX_STORED_RESPONSE_LENGTH = 4_000
+
+export interface WebhookRequest {
+  url: string
+  method: WebhookMethod
+  headers?: Record<string, string>
+  body?: string
+  secret: string
+}
+
+export interface WebhookDelivery {
+  ok: boolean
+  deliveryId: string
+  attempts: number
+  status?: number
+  response?: unknown
+  durationMs: number
+  error?: string
+}
+
+// ============================================================================
+// SIGNING SECRET
+// ============================================================================
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`
+}
+
+function encryptSecret(secret: string): string {
+  const encrypted = encryptToken(secret)
+  if (!encrypted) throw new Error('Failed to encrypt webhook secret')
+  return serializeEncryptedToken(encrypted)
+}
+
+function decryptSecret(stored: string): string | null {
+  const encrypted = deserializeEncryptedToken(stored)
+  return encrypted ? decryptToken(encrypted) : null
+}
+
+/**
+ * Get the agency's webhook signing secret, creating one on first use.
+ */
+export async function getWebhookSecret(
+  supabase: SupabaseClientType,
+  agencyId: string
+): Promise<{ data: string | null; error: Error | null }> {
+  const { data: existing, error } = await supabase
+    .from('workflow_webhook_secret')
+    .select('secret')
+    .eq('agency_id', agencyId)
+    .maybeSingle()
+
+  if (error) return { data: null, error: new Error(error.message) }
+
+  if (existing) {
+    const secret = decryptSecret(existing.secret)
+    return secret
+      ? { data: secret, error: null }
+      : { data: null, error: new Error('Stored webhook secret could not be decrypted') }
+  }
+
+  const secret = generateWebhookSecret()
+  const { error: insertError } = await supabase
+    .from('workflow_webhook_secret')
+    .insert({ agency_id: agencyId, secret: encryptSecret(secret) })
+
+  if (insertError) {
+    // Another run created it first; use theirs
+    if (insertError.code === '23505') return getWebhookSecret(supabase, agencyId)
+    return { data: null, error: new Error(insertError.message) }
+  }
+
+  return { data: secret, error: null }
+}
+
+/**
+ * Replace the agency's webhook secret. Receivers must be updated with the new
+ * value; requests signed with the old one stop verifying immediately.
+ */
+export async function rotateWebhookSecret(
+  supabase: SupabaseClientType,
+  agencyId: string
+): Promise<{ data: string | null; error: Error | null }> {
+  const secret = generateWebhookSecret()
+
+  const { error } = await supabase
+    .from('workflow_webhook_secret')
+    .upsert(
+      {
+        agency_id: agencyId,
+        secret: encryptSecret(secret),
+        rotated_at: new Date().toISOString(),
+      },
+      { onConflict: 'agency_id' }
+    )
+
+  return error ? { data: null, error: new Error(error.message) } : { data: secret, error: null }
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const hmac = createHmac('sha256', secret)
+  hmac.update(`${timestamp}.${body}`)
+  return `sha256=${hmac.digest('hex')}`
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+// Loopback, private, shared (CGNAT), link-local (cloud metadata), multicast
+// and reserved ranges. IPv4-mapped IPv6 addresses match the IPv4 entries.
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[|\]$/g, '')
+}
+
+function isAllowListedHost(host: string): boolean {
+  return (process.env.WORKFLOW_WEBHOOK_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .some((allowed) => normalizeHost(allowed.trim()) === host)
+}
+
+/**
+ * Whether an IP address is one a workflow must not reach. Non-IP input is not blocked.
+ */
+export function isBlockedWebhookAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 0) return false
+  return BLOCKED_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Whether a hostname is blocked as written: local names and blocked IP literals.
+ * Names that resolve to blocked addresses are caught by validateWebhookTarget.
+ */
+export function isBlockedWebhookHost(hostname: string): boolean {
+  const host = normalizeHost(hostname)
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return true
+  return isBlockedWebhookAddress(host)
+}
+
+/**
+ * Check a resolved webhook URL without DNS. Returns an error message, or null when it can be called.
+ */
+export function validateWebhookUrl(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return `Invalid webhook URL "${url}"`
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Webhook URL must use http or https'
+  }
+
+  const host = normalizeHost(parsed.hostname)
+  if (!isAllowListedHost(host) && isBlockedWebhookHost(host)) {
+    return `Webhook host "${parsed.hostname}" is not allowed`
+  }
+
+  return null
+}
+
+/**
+ * validateWebhookUrl plus a DNS lookup: every address the host resolves to
+ * must be public. Returns an error message, or null when it can be called.
+ */
+export async function validateWebhookTarget(url: string): Promise<string | null> {
+  const urlError = validateWebhookUrl(url)
+  if (urlError) return urlError
+
+  const { hostname } = new URL(url)
+  const host = normalizeHost(hostname)
+  if (isIP(host) !== 0 || isAllowListedHost(host)) return null
+
+  let addresses: Array<{ address: string }>
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch {
+    return `Could not resolve webhook host "${hostname}"`
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedWebhookAddress(address))) {
+    return `Webhook host "${hostname}" resolves to an address that is not allowed`
+  }
+
+  return null
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+async function readResponse(response: Response): Promise<unknown> {
+  const text = (await response.text().catch(() => '')).slice(0, MAX_STORED_RESPONSE_LENGTH)
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function getBackoffMs(attempt: number, baseDelayMs: number, retryAfter: string | null): number {
+  const backoff = baseDelayMs * 2 ** (attempt - 1)
+  const retryAfterMs = retryAfter && /^\d+$/.test(retryAfter) ? parseInt(retryAfter, 10) * 1000 : 0
+  return Math.min(Math.max(backoff, retryAfterMs), MAX_BACKOFF_MS)
+}
+
+/**
+ * Send a signed webhook, retrying transient failures. Never throws; check `ok`.
+ * The target is re-checked before every attempt, so a host that starts
+ * resolving to a private address between retries is not called.
+ */
+export async function deliverWebhook(
+  request: WebhookRequest,
+  options: { maxRetries?: number; baseDelayMs?: number; timeoutMs?: number; budgetMs?: number } = {}
+): Promise<WebhookDelivery> {
+  const maxRetries = Math.min(Math.max(options.maxRetries ?? DEFAULT_WEBHOOK_RETRIES, 0), MAX_WEBHOOK_RETRIES)
+  const baseDelayMs = options.baseDelayMs ?? 1000
+  const timeoutMs = options.timeoutMs ?? WEBHOOK_TIMEOUT_MS
+  const budgetMs = options.budgetMs ?? WEBHOOK_DELIVERY_BUDGET_MS
+
+  const deliveryId = randomUUID()
+  const startedAt = Date.now()
+  const body = request.body ?? ''
+
+  let attempts = 0
+  let lastStatus: number | undefined
+  let lastResponse: unknown
+  let lastError: string | undefined
+
+  while (attempts <= maxRetries) {
+    const targetError = await validateWebhookTarget(request.url)
+    if (targetError) {
+      lastStatus = undefined
+      lastResponse = undefined
+      lastError = targetError
+      break
+    }
+
+    attempts++
+    const timestamp = Math.floor(Date.now() / 1000)
+    const remainingMs = budgetMs - (Date.now() - startedAt)
+    let retryAfter: string | null = null
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: {
+          ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...request.headers,
+          'User-Agent': 'AudienceOS-Workflows/1.0',
+          'X-Webhook-Delivery': deliveryId,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(request.secret, timestamp, body),
+        },
+        body: request.body,
+        // A redirect could lead to a host the target check never saw
+        redirect: 'manual',
+        signal: AbortSignal.timeout(Math.max(Math.min(timeoutMs, remainingMs), 1)),
+      })
+
+      lastStatus = response.status
+      lastResponse = await readResponse(response)
+
+      if (response.ok) {
+        return {
+          ok: true,
+          deliveryId,
+          attempts,
+          status: response.status,
+          response: lastResponse,
+          durationMs: Date.now() - startedAt,
+        }
+      }
+
+      if (response.status >= 300 && response.status < 400) {
+        lastError = `HTTP ${response.status}: redirects are not followed`
+        break
+      }
+
+      lastError = `HTTP ${response.status}`
+      if (!isRetryableStatus(response.status)) break
+      retryAfter = response.headers.get('retry-after')
+    } catch (error) {
+      lastStatus = undefined
+      lastResponse = undefined
+      lastError = error instanceof Error && error.name === 'TimeoutError'
+        ? `Timed out after ${Math.min(timeoutMs, remainingMs)}ms`
+        : error instanceof Error ? error.message : 'Request failed'
+    }
+
+    if (attempts <= maxRetries) {
+      const backoffMs = getBackoffMs(attempts, baseDelayMs, retryAfter)
+      // Leave no retry that could not get a useful attempt in before the budget runs out
+      if (Date.now() - startedAt + backoffMs >= budgetMs) break
+      await new Promise((resolve) => setTimeout(resolve, backoffMs))
+    }
+  }
+
+  return {
+    ok: false,
+    deliveryId,
+    attempts,
+    status: lastStatus,
+    response: lastResponse,
+    durationMs: Date.now() - startedAt,
+    error: lastError,
+  }
+}
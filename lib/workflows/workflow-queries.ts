@@ -19,9 +19,9 @@ import type {
   WorkflowRunFilters,
   WorkflowListFilters,
   WorkflowTrigger,
-  WorkflowAction,
-  WorkflowAnalytics,
+  WorkflowStep,
 } from '@/types/workflow'
+import { countPendingApprovals } from './approvals'
 
 type SupabaseClientType = SupabaseClient<Database>
 
@@ -101,14 +101,14 @@ export async function getWorkflowWithStats(
   const successRate =
     workflow.run_count > 0 ? (workflow.success_count / workflow.run_count) * 100 : 0
 
-  // TODO: Count pending approvals when approval table is added
+  const pendingApprovals = await countPendingApprovals(supabase, workflowId, agencyId)
 
   return {
     data: {
       ...workflow,
       successRate,
       recentRuns: recentRuns ?? [],
-      pendingApprovals: 0,
+      pendingApprovals,
     },
     error: null,
   }
@@ -122,7 +122,7 @@ export async function createWorkflow(
     name: string
     description?: string
     triggers: WorkflowTrigger[]
-    actions: WorkflowAction[]
+    actions: WorkflowStep[]
     isActive?: boolean
   }
 ): Promise<{ data: Workflow | null; error: Error | null }> {
@@ -155,7 +155,7 @@ export async function updateWorkflow(
     name?: string
     description?: string
     triggers?: WorkflowTrigger[]
-    actions?: WorkflowAction[]
+    actions?: WorkflowStep[]
     isActive?: boolean
   }
 ): Promise<{ data: Workflow | null; error: Error | null }> {
@@ -272,12 +272,40 @@ export async function getWorkflowRun(
   return { data, error: error ? new Error(error.message) : null }
 }
 
+/**
+ * Runs started by retrying `runId`, oldest first
+ */
+export async function getWorkflowRunRetries(
+  supabase: SupabaseClientType,
+  runId: string,
+  agencyId: string
+): Promise<{ data: WorkflowRun[] | null; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('workflow_run')
+    .select('*')
+    .eq('retry_of_run_id', runId)
+    .eq('agency_id', agencyId)
+    .order('started_at', { ascending: true })
+
+  return { data, error: error ? new Error(error.message) : null }
+}
+
+/**
+ * Whether a run stopped on a failed action and can be retried from it.
+ * Partial failures qualify: some actions completed before or after the failure.
+ */
+export function isRetryableRunStatus(status: string): boolean {
+  return status === 'failed' || status === 'partial_failure'
+}
+
 export async function createWorkflowRun(
   supabase: SupabaseClientType,
   agencyId: string,
   data: {
     workflowId: string
     triggerData: Record<string, unknown>
+    clientId?: string
+    retryOfRunId?: string
   }
 ): Promise<{ data: WorkflowRun | null; error: Error | null }> {
   const insert: WorkflowRunInsert = {
@@ -285,6 +313,8 @@ export async function createWorkflowRun(
     workflow_id: data.workflowId,
     trigger_data: data.triggerData as Record<string, string | number | boolean | null>,
     status: 'running',
+    client_id: data.clientId ?? null,
+    retry_of_run_id: data.retryOfRunId ?? null,
   }
 
   const { data: run, error } = await supabase
@@ -375,100 +405,6 @@ export async function completeWorkflowRun(
   return { error: null }
 }
 
-// ============================================================================
-// ANALYTICS
-// ============================================================================
-
-export async function getWorkflowAnalytics(
-  supabase: SupabaseClientType,
-  workflowId: string,
-  agencyId: string,
-  days: number = 30
-): Promise<{ data: WorkflowAnalytics | null; error: Error | null }> {
-  const startDate = new Date()
-  startDate.setDate(startDate.getDate() - days)
-
-  const { data: runs, error } = await supabase
-    .from('workflow_run')
-    .select('*')
-    .eq('workflow_id', workflowId)
-    .eq('agency_id', agencyId)
-    .gte('started_at', startDate.toISOString())
-    .order('started_at', { ascending: true })
-
-  if (error) {
-    return { data: null, error: new Error(error.message) }
-  }
-
-  if (!runs?.length) {
-    return {
-      data: {
-        totalRuns: 0,
-        successRate: 0,
-        averageDurationMs: 0,
-        runsByDay: [],
-        topFailureReasons: [],
-      },
-      error: null,
-    }
-  }
-
-  // Calculate metrics
-  const totalRuns = runs.length
-  const successfulRuns = runs.filter((r) => r.status === 'completed').length
-  const successRate = (successfulRuns / totalRuns) * 100
-
-  // Calculate average duration (only for completed runs)
-  const completedRuns = runs.filter((r) => r.completed_at)
-  const totalDuration = completedRuns.reduce((sum, r) => {
-    const start = new Date(r.started_at).getTime()
-    const end = new Date(r.completed_at!).getTime()
-    return sum + (end - start)
-  }, 0)
-  const averageDurationMs = completedRuns.length > 0 ? totalDuration / completedRuns.length : 0
-
-  // Group by day
-  const runsByDayMap = new Map<string, { count: number; successes: number }>()
-  runs.forEach((run) => {
-    const date = run.started_at.split('T')[0]
-    const current = runsByDayMap.get(date) || { count: 0, successes: 0 }
-    current.count++
-    if (run.status === 'completed') current.successes++
-    runsByDayMap.set(date, current)
-  })
-
-  const runsByDay = Array.from(runsByDayMap.entries()).map(([date, stats]) => ({
-    date,
-    count: stats.count,
-    successes: stats.successes,
-  }))
-
-  // Top failure reasons
-  const failureReasons = new Map<string, number>()
-  runs
-    .filter((r) => r.status === 'failed' && r.error_message)
-    .forEach((r) => {
-      const reason = r.error_message || 'Unknown error'
-      failureReasons.set(reason, (failureReasons.get(reason) || 0) + 1)
-    })
-
-  const topFailureReasons = Array.from(failureReasons.entries())
-    .map(([reason, count]) => ({ reason, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 5)
-
-  return {
-    data: {
-      totalRuns,
-      successRate,
-      averageDurationMs,
-      runsByDay,
-      topFailureReasons,
-    },
-    error: null,
-  }
-}
-
 // ============================================================================
 // ACTIVE WORKFLOWS BY TRIGGER TYPE
 // ============================================================================
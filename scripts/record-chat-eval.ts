@@ -0,0 +1,57 @@
+#!/usr/bin/env npx tsx
+/**
+ * Chat Eval Recorder
+ *
+ * Runs the chat golden set (lib/chat/eval/golden-set.json) against a live
+ * LLM provider (LLM_PROVIDER, Gemini by default), prints the accuracy report
+ * and rewrites lib/chat/eval/recordings.json, which the Vitest eval replays
+ * offline.
+ *
+ * Re-run after editing CLASSIFICATION_PROMPT, FUNCTION_CALLING_GUIDELINES,
+ * a function declaration or the golden set, and commit the recordings.
+ *
+ * Usage: GOOGLE_AI_API_KEY=... npm run eval:chat
+ */
+
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { createLLMProvider, LLMError } from '../lib/llm';
+import {
+  runChatEval,
+  formatEvalReport,
+  recordingModel,
+  type EvalRecordings,
+  type GoldenSet,
+} from '../lib/chat/eval';
+import goldenSet from '../lib/chat/eval/golden-set.json';
+
+async function main() {
+  let provider;
+  try {
+    provider = createLLMProvider();
+  } catch (error) {
+    console.error(error instanceof LLMError ? `${error.message}: it is required to record the chat eval` : error);
+    process.exit(1);
+  }
+
+  const recordings: EvalRecordings = { version: 1, recordedAt: new Date().toISOString(), responses: {} };
+  const model = recordingModel(provider, recordings);
+
+  const report = await runChatEval(goldenSet as GoldenSet, { provider: model.provider, onCase: model.setCase });
+  console.log(formatEvalReport(report));
+
+  const outPath = resolve(__dirname, '../lib/chat/eval/recordings.json');
+  writeFileSync(outPath, `${JSON.stringify(recordings, null, 2)}\n`);
+  console.log(`\nRecorded ${Object.keys(recordings.responses).length} responses to ${outPath}`);
+
+  const { thresholds } = goldenSet as GoldenSet;
+  if (report.routing.accuracy < thresholds.routing || report.functionSelection.accuracy < thresholds.functionSelection) {
+    console.error('\nAccuracy is below the golden set thresholds');
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -5,7 +5,13 @@
 
 import { create } from 'zustand'
 import { fetchWithCsrf } from '@/lib/csrf'
-import type { Workflow, WorkflowRun, WorkflowTrigger, WorkflowAction } from '@/types/workflow'
+import type {
+  Workflow,
+  WorkflowRun,
+  WorkflowTrigger,
+  WorkflowStep,
+  WorkflowApprovalWithContext,
+} from '@/types/workflow'
 
 interface AutomationsState {
   // Workflows
@@ -17,18 +23,23 @@ interface AutomationsState {
   runs: (WorkflowRun & { workflow_name?: string })[]
   runsLoading: boolean
 
+  // Approval inbox (pending approvals only)
+  approvals: WorkflowApprovalWithContext[]
+  approvalsLoading: boolean
+
   // Builder state
   showBuilder: boolean
   editingWorkflow: Workflow | null
   builderName: string
   builderDescription: string
   builderTriggers: WorkflowTrigger[]
-  builderActions: WorkflowAction[]
+  builderActions: WorkflowStep[]
   isSaving: boolean
 
   // Actions - Data fetching
   fetchWorkflows: () => Promise<void>
   fetchRuns: () => Promise<void>
+  fetchApprovals: () => Promise<void>
   setWorkflows: (workflows: Workflow[]) => void
   setLoading: (isLoading: boolean) => void
   setError: (error: string | null) => void
@@ -37,6 +48,10 @@ interface AutomationsState {
   toggleWorkflow: (id: string, isActive: boolean) => Promise<boolean>
   deleteWorkflow: (id: string) => Promise<boolean>
 
+  // Actions - Approvals
+  approveAction: (approvalId: string) => Promise<boolean>
+  rejectAction: (approvalId: string, reason?: string) => Promise<boolean>
+
   // Actions - Builder
   openBuilder: (workflow?: Workflow) => void
   closeBuilder: () => void
@@ -50,10 +65,10 @@ interface AutomationsState {
   updateTrigger: (triggerId: string, config: Record<string, unknown>) => void
 
   // Actions - Actions
-  addAction: (action: WorkflowAction) => void
+  addAction: (action: WorkflowStep) => void
   removeAction: (actionId: string) => void
-  updateAction: (actionId: string, updates: Partial<WorkflowAction>) => void
-  reorderActions: (reorderedActions: WorkflowAction[]) => void
+  updateAction: (actionId: string, updates: Partial<WorkflowStep>) => void
+  reorderActions: (reorderedActions: WorkflowStep[]) => void
 
   // Computed getters
   getActiveCount: () => number
@@ -69,6 +84,8 @@ export const useAutomationsStore = create<AutomationsState>((set, get) => ({
   error: null,
   runs: [],
   runsLoading: false,
+  approvals: [],
+  approvalsLoading: false,
   showBuilder: false,
   editingWorkflow: null,
   builderName: '',
@@ -125,6 +142,21 @@ export const useAutomationsStore = create<AutomationsState>((set, get) => ({
     }
   },
 
+  // Fetch pending approvals
+  fetchApprovals: async () => {
+    set({ approvalsLoading: true })
+
+    try {
+      const res = await fetch('/api/v1/workflows/approvals?status=pending', { credentials: 'include' })
+      if (!res.ok) throw new Error('Failed to fetch approvals')
+      const data = await res.json()
+      set({ approvals: data.approvals || [], approvalsLoading: false })
+    } catch (err) {
+      console.error('Failed to fetch approvals:', err)
+      set({ approvalsLoading: false })
+    }
+  },
+
   setWorkflows: (workflows) => set({ workflows }),
   setLoading: (isLoading) => set({ isLoading }),
   setError: (error) => set({ error }),
@@ -176,6 +208,56 @@ export const useAutomationsStore = create<AutomationsState>((set, get) => ({
     }
   },
 
+  // Approve a pending action — the run resumes server-side
+  approveAction: async (approvalId) => {
+    try {
+      const res = await fetchWithCsrf(`/api/v1/workflows/approvals/${approvalId}/approve`, {
+        method: 'POST',
+      })
+
+      if (!res.ok) {
+        const errBody = await res.json().catch(() => ({}))
+        throw new Error(errBody.error || `Server returned ${res.status}`)
+      }
+
+      set((state) => ({
+        approvals: state.approvals.filter((a) => a.id !== approvalId),
+      }))
+
+      return true
+    } catch (err) {
+      console.error('Failed to approve action:', err)
+      // The approval may have expired or been decided elsewhere — resync the inbox
+      get().fetchApprovals()
+      return false
+    }
+  },
+
+  // Reject a pending action — the run completes without it
+  rejectAction: async (approvalId, reason) => {
+    try {
+      const res = await fetchWithCsrf(`/api/v1/workflows/approvals/${approvalId}/reject`, {
+        method: 'POST',
+        body: JSON.stringify({ reason }),
+      })
+
+      if (!res.ok) {
+        const errBody = await res.json().catch(() => ({}))
+        throw new Error(errBody.error || `Server returned ${res.status}`)
+      }
+
+      set((state) => ({
+        approvals: state.approvals.filter((a) => a.id !== approvalId),
+      }))
+
+      return true
+    } catch (err) {
+      console.error('Failed to reject action:', err)
+      get().fetchApprovals()
+      return false
+    }
+  },
+
   // Open builder (for new or editing)
   openBuilder: (workflow) => {
     if (workflow) {
@@ -185,7 +267,7 @@ export const useAutomationsStore = create<AutomationsState>((set, get) => ({
         builderName: workflow.name,
         builderDescription: workflow.description || '',
         builderTriggers: workflow.triggers as unknown as WorkflowTrigger[],
-        builderActions: workflow.actions as unknown as WorkflowAction[],
+        builderActions: workflow.actions as unknown as WorkflowStep[],
       })
     } else {
       set({
@@ -314,7 +396,7 @@ export const useAutomationsStore = create<AutomationsState>((set, get) => ({
     set((state) => ({
       builderActions: state.builderActions.map((a) =>
         a.id === actionId ? { ...a, ...updates } : a
-      ) as WorkflowAction[],
+      ) as WorkflowStep[],
     }))
   },
 
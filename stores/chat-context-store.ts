@@ -0,0 +1,28 @@
+// stores/chat-context-store.ts
+import { create } from 'zustand'
+import type { ChatViewContext } from '@/lib/chat/types'
+
+type ViewSelection = Pick<ChatViewContext, 'ticketId' | 'documentId' | 'workflowId'>
+
+interface ChatContextStore {
+  // State - what the user has open, sent with every chat message
+  viewContext: ChatViewContext
+
+  // Actions
+  // Set by the command center page whenever the view, client or filters change
+  setPageContext: (page: Pick<ChatViewContext, 'route' | 'clientId' | 'filters'>) => void
+  // Set by each view for its own selection, cleared with undefined on unmount
+  setSelection: (selection: ViewSelection) => void
+}
+
+export const useChatContextStore = create<ChatContextStore>((set) => ({
+  viewContext: { route: '/' },
+
+  setPageContext: ({ route, clientId, filters }) => {
+    set((state) => ({ viewContext: { ...state.viewContext, route, clientId, filters } }))
+  },
+
+  setSelection: (selection) => {
+    set((state) => ({ viewContext: { ...state.viewContext, ...selection } }))
+  },
+}))
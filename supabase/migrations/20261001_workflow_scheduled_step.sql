@@ -0,0 +1,62 @@
+-- Migration: workflow_scheduled_step
+-- Purpose: Durable queue for workflow actions with delayMinutes > 0.
+--   When the engine reaches a delayed action it parks the rest of the chain
+--   here; /api/cron/workflow-steps resumes it once run_at has passed.
+-- Date: 2026-10-01
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS workflow_scheduled_step (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES workflow(id) ON DELETE CASCADE,
+  workflow_run_id UUID NOT NULL REFERENCES workflow_run(id) ON DELETE CASCADE,
+  action_id VARCHAR(100) NOT NULL,
+  action_index INTEGER NOT NULL,
+  run_at TIMESTAMPTZ NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+  -- Serialized WorkflowExecutionContext captured when the step was parked
+  context JSONB NOT NULL,
+  -- ActionResult[] already produced by the run before it was parked
+  prior_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX idx_workflow_scheduled_step_due
+  ON workflow_scheduled_step(run_at) WHERE status = 'pending';
+CREATE INDEX idx_workflow_scheduled_step_run ON workflow_scheduled_step(workflow_run_id);
+CREATE INDEX idx_workflow_scheduled_step_agency ON workflow_scheduled_step(agency_id);
+
+-- ── Updated At Trigger ───────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION update_workflow_scheduled_step_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_workflow_scheduled_step_updated_at
+  BEFORE UPDATE ON workflow_scheduled_step
+  FOR EACH ROW
+  EXECUTE FUNCTION update_workflow_scheduled_step_updated_at();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE workflow_scheduled_step ENABLE ROW LEVEL SECURITY;
+
+-- Agency members can see and manage their own scheduled steps
+CREATE POLICY "workflow_scheduled_step_agency" ON workflow_scheduled_step
+  FOR ALL USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass for the cron worker
+CREATE POLICY "workflow_scheduled_step_service" ON workflow_scheduled_step
+  FOR ALL USING (auth.role() = 'service_role');
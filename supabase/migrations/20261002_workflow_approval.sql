@@ -0,0 +1,70 @@
+-- Migration: workflow_approval
+-- Purpose: Persist approval requests for workflow actions marked requiresApproval.
+--   The engine parks the run on the action; approving resumes the chain from
+--   that step, rejecting or expiry closes the run.
+-- Date: 2026-10-02
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS workflow_approval (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES workflow(id) ON DELETE CASCADE,
+  workflow_run_id UUID NOT NULL REFERENCES workflow_run(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES client(id) ON DELETE SET NULL,
+  action_id VARCHAR(100) NOT NULL,
+  action_index INTEGER NOT NULL,
+  action_type VARCHAR(50) NOT NULL,
+  action_name VARCHAR(200) NOT NULL,
+  -- Action config with {{variables}} resolved (and the AI draft for draft_communication)
+  action_config JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+  requested_by UUID NOT NULL REFERENCES "user"(id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  approved_by UUID REFERENCES "user"(id),
+  approved_at TIMESTAMPTZ,
+  rejected_by UUID REFERENCES "user"(id),
+  rejected_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+  -- Serialized WorkflowExecutionContext + ActionResult[] needed to resume the run
+  context JSONB NOT NULL,
+  prior_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX idx_workflow_approval_agency_status
+  ON workflow_approval(agency_id, status, requested_at DESC);
+CREATE INDEX idx_workflow_approval_workflow ON workflow_approval(workflow_id);
+CREATE INDEX idx_workflow_approval_expiry
+  ON workflow_approval(expires_at) WHERE status = 'pending';
+
+-- ── Updated At Trigger ───────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION update_workflow_approval_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_workflow_approval_updated_at
+  BEFORE UPDATE ON workflow_approval
+  FOR EACH ROW
+  EXECUTE FUNCTION update_workflow_approval_updated_at();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE workflow_approval ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "workflow_approval_agency" ON workflow_approval
+  FOR ALL USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass for the expiry sweep in the workflow-steps cron
+CREATE POLICY "workflow_approval_service" ON workflow_approval
+  FOR ALL USING (auth.role() = 'service_role');
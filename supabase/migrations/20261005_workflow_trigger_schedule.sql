@@ -0,0 +1,58 @@
+-- Migration: workflow_trigger_schedule
+-- Purpose: Per-trigger state for scheduled (cron) workflow triggers.
+--   /api/cron/workflow-scheduler fires each occurrence whose next_run_at has
+--   passed, then advances next_run_at in the same conditional update so an
+--   occurrence fires exactly once even when ticks are late or overlap.
+-- Date: 2026-10-05
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS workflow_trigger_schedule (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES workflow(id) ON DELETE CASCADE,
+  -- ID of the trigger inside workflow.triggers
+  trigger_id VARCHAR(100) NOT NULL,
+  -- Cron expression and timezone next_run_at was computed from; a mismatch
+  -- with the trigger config means the schedule was edited
+  schedule VARCHAR(100) NOT NULL,
+  timezone VARCHAR(64) NOT NULL,
+  -- NULL when the expression never matches a real date
+  next_run_at TIMESTAMPTZ,
+  last_fired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (workflow_id, trigger_id)
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX idx_workflow_trigger_schedule_next_run ON workflow_trigger_schedule(next_run_at);
+CREATE INDEX idx_workflow_trigger_schedule_agency ON workflow_trigger_schedule(agency_id);
+
+-- ── Updated At Trigger ───────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION update_workflow_trigger_schedule_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_workflow_trigger_schedule_updated_at
+  BEFORE UPDATE ON workflow_trigger_schedule
+  FOR EACH ROW
+  EXECUTE FUNCTION update_workflow_trigger_schedule_updated_at();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE workflow_trigger_schedule ENABLE ROW LEVEL SECURITY;
+
+-- Agency members can see their own trigger schedules
+CREATE POLICY "workflow_trigger_schedule_agency" ON workflow_trigger_schedule
+  FOR ALL USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass for the cron worker
+CREATE POLICY "workflow_trigger_schedule_service" ON workflow_trigger_schedule
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,47 @@
+-- Migration: workflow_webhook_secret
+-- Purpose: Per-agency signing secret for the call_webhook workflow action.
+--   Outbound requests carry an HMAC-SHA256 signature over the timestamp and
+--   body so receivers can verify they came from this agency. The secret is
+--   stored encrypted with TOKEN_ENCRYPTION_KEY (lib/crypto.ts) and created on
+--   first use.
+-- Date: 2026-10-12
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS workflow_webhook_secret (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL UNIQUE REFERENCES agency(id) ON DELETE CASCADE,
+  -- Serialized AES-256-GCM payload, never the plaintext secret
+  secret TEXT NOT NULL,
+  rotated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── Updated At Trigger ───────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION update_workflow_webhook_secret_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_workflow_webhook_secret_updated_at
+  BEFORE UPDATE ON workflow_webhook_secret
+  FOR EACH ROW
+  EXECUTE FUNCTION update_workflow_webhook_secret_updated_at();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE workflow_webhook_secret ENABLE ROW LEVEL SECURITY;
+
+-- Agency members can use their own agency's secret
+CREATE POLICY "workflow_webhook_secret_agency" ON workflow_webhook_secret
+  FOR ALL USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass for cron-triggered runs
+CREATE POLICY "workflow_webhook_secret_service" ON workflow_webhook_secret
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,22 @@
+-- Migration: workflow_run retry link
+-- Purpose: Let failed runs be retried from their first failed action.
+--   retry_of_run_id links a retry to the run it was started from, so the run
+--   history can show the original run and its retries together. client_id
+--   records the client a run executed against, which manual runs did not keep
+--   anywhere, so a retry can rebuild the same execution context.
+-- Date: 2026-10-13
+
+-- ── Columns ──────────────────────────────────────────────────────────────────
+ALTER TABLE workflow_run
+  ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES client(id) ON DELETE SET NULL;
+
+ALTER TABLE workflow_run
+  ADD COLUMN IF NOT EXISTS retry_of_run_id UUID REFERENCES workflow_run(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN workflow_run.client_id IS 'Client the run executed against, if any';
+COMMENT ON COLUMN workflow_run.retry_of_run_id IS 'Run this run retried from its first failed action';
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_workflow_run_retry_of
+  ON workflow_run(retry_of_run_id)
+  WHERE retry_of_run_id IS NOT NULL;
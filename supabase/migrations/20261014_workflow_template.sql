@@ -0,0 +1,58 @@
+-- Migration: workflow_template
+-- Purpose: Agency-scoped workflow templates. Admins publish an existing
+--   workflow as a template; GET /api/v1/workflows/templates lists these
+--   alongside the built-in seed templates (lib/workflows/seed-templates.ts).
+--   Triggers and actions are a snapshot taken at publish time, so later edits
+--   to the source workflow do not change the template.
+-- Date: 2026-10-14
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS workflow_template (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL DEFAULT 'custom'
+    CHECK (category IN ('onboarding', 'retention', 'support', 'monitoring', 'custom')),
+  triggers JSONB NOT NULL,
+  actions JSONB NOT NULL,
+  source_workflow_id UUID REFERENCES workflow(id) ON DELETE SET NULL,
+  -- Number of workflows created from this template
+  use_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES "user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_workflow_template_agency
+  ON workflow_template(agency_id, created_at DESC);
+
+-- ── Updated At Trigger ───────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION update_workflow_template_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_workflow_template_updated_at
+  BEFORE UPDATE ON workflow_template
+  FOR EACH ROW
+  EXECUTE FUNCTION update_workflow_template_updated_at();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE workflow_template ENABLE ROW LEVEL SECURITY;
+
+-- Agency members can use their own agency's templates
+CREATE POLICY "workflow_template_agency" ON workflow_template
+  FOR ALL USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass
+CREATE POLICY "workflow_template_service" ON workflow_template
+  FOR ALL USING (auth.role() = 'service_role');
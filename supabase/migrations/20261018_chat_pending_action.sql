@@ -0,0 +1,49 @@
+-- Migration: chat_pending_action
+-- Purpose: Changes proposed by the chat assistant that wait for the user's
+--   confirmation. Mutating chat functions (create_client, update_client,
+--   create_ticket, assign_ticket) no longer write when the model calls them;
+--   they store a proposal here with the resolved arguments and the diff shown
+--   to the user. POST /api/v1/chat/actions/{id} applies or cancels it.
+-- Date: 2026-10-18
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS chat_pending_action (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  -- Only the user who asked for the change can confirm it
+  user_id UUID NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  -- Arguments with names already resolved to IDs, so confirming applies
+  -- exactly the change that was previewed
+  args JSONB NOT NULL,
+  summary TEXT NOT NULL,
+  target JSONB,
+  changes JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'executed', 'failed', 'cancelled')),
+  result JSONB,
+  error TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_chat_pending_action_user
+  ON chat_pending_action(agency_id, user_id, created_at DESC);
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE chat_pending_action ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and resolve their own proposals
+CREATE POLICY "chat_pending_action_owner" ON chat_pending_action
+  FOR ALL USING (
+    user_id = auth.uid()
+    AND agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass
+CREATE POLICY "chat_pending_action_service" ON chat_pending_action
+  FOR ALL USING (auth.role() = 'service_role');
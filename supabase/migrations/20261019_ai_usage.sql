@@ -0,0 +1,84 @@
+-- Migration: ai_usage
+-- Purpose: Ledger of AI model calls per agency and user. Every model call site
+--   (chat, RAG, reply drafting, workflow drafting, memory summaries, cartridge
+--   style/blueprint/instruction analysis) and SEO enrichment writes one row
+--   with its token counts. Monthly budgets in agency.ai_config
+--   (monthly_token_budget, user_monthly_token_budget) are checked against it
+--   before each call: a warning from 80%, a hard stop at 100%.
+-- Date: 2026-10-19
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  -- NULL for calls without a user (cron-triggered workflows)
+  user_id UUID REFERENCES "user"(id) ON DELETE SET NULL,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT,
+  requests INTEGER NOT NULL DEFAULT 1 CHECK (requests >= 0),
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  total_tokens INTEGER NOT NULL DEFAULT 0 CHECK (total_tokens >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_ai_usage_agency_created
+  ON ai_usage(agency_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_agency_user_created
+  ON ai_usage(agency_id, user_id, created_at DESC);
+
+-- ── Aggregates ───────────────────────────────────────────────────────────────
+-- Month-to-date totals for the budget check (runs before every model call)
+CREATE OR REPLACE FUNCTION ai_usage_totals(p_agency_id UUID, p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (agency_tokens BIGINT, user_tokens BIGINT, agency_requests BIGINT)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    COALESCE(SUM(total_tokens), 0)::BIGINT,
+    COALESCE(SUM(total_tokens) FILTER (WHERE user_id = p_user_id), 0)::BIGINT,
+    COALESCE(SUM(requests), 0)::BIGINT
+  FROM ai_usage
+  WHERE agency_id = p_agency_id AND created_at >= p_since;
+$$;
+
+-- Usage grouped by day, feature and user for the settings report
+CREATE OR REPLACE FUNCTION ai_usage_report(p_agency_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (day DATE, feature TEXT, user_id UUID, requests BIGINT, tokens BIGINT)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::DATE,
+    feature,
+    user_id,
+    SUM(requests)::BIGINT,
+    SUM(total_tokens)::BIGINT
+  FROM ai_usage
+  WHERE agency_id = p_agency_id AND created_at >= p_since
+  GROUP BY 1, 2, 3;
+$$;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Agency members can read their agency's usage (budgets are agency-wide)
+CREATE POLICY "ai_usage_agency_read" ON ai_usage
+  FOR SELECT USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Model calls made in a user's session are recorded with that session, as
+-- that user's own usage. Calls without a user go through the service role.
+CREATE POLICY "ai_usage_agency_insert" ON ai_usage
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass
+CREATE POLICY "ai_usage_service" ON ai_usage
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,64 @@
+-- Migration: chat_session_management
+-- Purpose: Session management for chat history. Sessions can be pinned,
+--   archived and branched from an earlier message (the branch copies the
+--   conversation up to that message into a new session). Messages get a
+--   full-text index so users can search their own chat history.
+-- Date: 2026-10-20
+
+-- ── Columns ──────────────────────────────────────────────────────────────────
+ALTER TABLE chat_session
+  ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  -- Set on branches: the session and message the branch was taken from
+  ADD COLUMN IF NOT EXISTS parent_session_id UUID REFERENCES chat_session(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS branched_from_message_id UUID REFERENCES chat_message(id) ON DELETE SET NULL;
+
+ALTER TABLE chat_message
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+-- Session list: pinned first, then most recent, archived sessions filtered out
+CREATE INDEX IF NOT EXISTS idx_chat_session_agency_user_list
+  ON chat_session(agency_id, user_id, is_pinned DESC, last_message_at DESC)
+  WHERE archived_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chat_message_search
+  ON chat_message USING GIN (search_vector);
+
+-- ── Search ───────────────────────────────────────────────────────────────────
+-- Messages in the user's own sessions matching a web-style query
+-- ("refund policy", "onboarding -slack"), best matches first
+CREATE OR REPLACE FUNCTION search_chat_messages(
+  p_agency_id UUID,
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  message_id UUID,
+  session_id UUID,
+  session_title VARCHAR,
+  role chat_role,
+  snippet TEXT,
+  created_at TIMESTAMPTZ,
+  rank REAL
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    m.id,
+    m.session_id,
+    s.title,
+    m.role,
+    ts_headline('english', m.content, q, 'StartSel=**, StopSel=**, MaxWords=30, MinWords=10'),
+    m.created_at,
+    ts_rank(m.search_vector, q)
+  FROM chat_message m
+  JOIN chat_session s ON s.id = m.session_id
+  CROSS JOIN websearch_to_tsquery('english', p_query) q
+  WHERE m.agency_id = p_agency_id
+    AND s.user_id = p_user_id
+    AND m.search_vector @@ q
+  ORDER BY ts_rank(m.search_vector, q) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
@@ -0,0 +1,99 @@
+-- Migration: cartridge_version
+-- Purpose: Version history for the brand, style, voice, preferences and
+--   instruction cartridges. Every save writes a snapshot of the cartridge's
+--   versioned fields with its author, so changes can be diffed, rolled back
+--   and previewed against each other. The newest version of a cartridge is
+--   always its current state; rollbacks are recorded as new versions.
+--   Voice settings live in user.preferences.ai.voice, so voice versions use
+--   the user's id as cartridge_id.
+-- Date: 2026-10-21
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS cartridge_version (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  cartridge_type TEXT NOT NULL
+    CHECK (cartridge_type IN ('brand', 'style', 'voice', 'preferences', 'instruction')),
+  cartridge_id UUID NOT NULL,
+  version_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  change_summary TEXT,
+  -- NULL for versions backfilled below
+  created_by UUID REFERENCES "user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (cartridge_type, cartridge_id, version_number)
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_cartridge_version_agency_cartridge
+  ON cartridge_version(agency_id, cartridge_type, cartridge_id, version_number DESC);
+
+-- ── Backfill ─────────────────────────────────────────────────────────────────
+-- Existing cartridges start with their current state as version 1. The key
+-- lists match VERSIONED_FIELDS in lib/cartridges/versions.ts.
+INSERT INTO cartridge_version (agency_id, cartridge_type, cartridge_id, version_number, snapshot, change_summary)
+SELECT b.agency_id, 'brand', b.id, 1,
+  (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(b))
+    WHERE key = ANY (ARRAY['name', 'company_name', 'company_description', 'company_tagline', 'industry',
+      'target_audience', 'core_values', 'brand_voice', 'brand_personality', 'brand_colors', 'social_links',
+      'core_messaging', 'benson_blueprint'])),
+  'Initial version'
+FROM brand_cartridge b
+ON CONFLICT DO NOTHING;
+
+INSERT INTO cartridge_version (agency_id, cartridge_type, cartridge_id, version_number, snapshot, change_summary)
+SELECT s.agency_id, 'style', s.id, 1,
+  (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(s))
+    WHERE key = ANY (ARRAY['learned_style', 'analysis_status'])),
+  'Initial version'
+FROM style_cartridge s
+ON CONFLICT DO NOTHING;
+
+INSERT INTO cartridge_version (agency_id, cartridge_type, cartridge_id, version_number, snapshot, change_summary)
+SELECT p.agency_id, 'preferences', p.id, 1,
+  (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(p))
+    WHERE key = ANY (ARRAY['platform', 'language', 'tone', 'content_length', 'hashtag_count', 'emoji_usage',
+      'call_to_action', 'personalization_level'])),
+  'Initial version'
+FROM preferences_cartridge p
+ON CONFLICT DO NOTHING;
+
+INSERT INTO cartridge_version (agency_id, cartridge_type, cartridge_id, version_number, snapshot, change_summary)
+SELECT i.agency_id, 'instruction', i.id, 1,
+  (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(i))
+    WHERE key = ANY (ARRAY['name', 'description', 'instructions', 'extracted_knowledge', 'is_active'])),
+  'Initial version'
+FROM instruction_cartridge i
+ON CONFLICT DO NOTHING;
+
+INSERT INTO cartridge_version (agency_id, cartridge_type, cartridge_id, version_number, snapshot, change_summary)
+SELECT u.agency_id, 'voice', u.id, 1, u.preferences -> 'ai' -> 'voice', 'Initial version'
+FROM "user" u
+WHERE jsonb_typeof(u.preferences -> 'ai' -> 'voice') = 'object'
+ON CONFLICT DO NOTHING;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE cartridge_version ENABLE ROW LEVEL SECURITY;
+
+-- Agency members can read their agency's history (cartridges are agency-wide)
+CREATE POLICY "cartridge_version_agency_read" ON cartridge_version
+  FOR SELECT USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Versions are written by the save that creates them, as its author
+CREATE POLICY "cartridge_version_agency_insert" ON cartridge_version
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- History is append-only: no UPDATE or DELETE policies
+
+-- Service role bypass
+CREATE POLICY "cartridge_version_service" ON cartridge_version
+  FOR ALL USING (auth.role() = 'service_role');
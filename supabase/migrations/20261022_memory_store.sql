@@ -0,0 +1,179 @@
+-- Migration: memory_store
+-- Purpose: Postgres-backed memory store, an alternative to the remote Mem0
+--   service for self-hosted and offline deployments (MEMORY_BACKEND=postgres).
+--   Rows use Mem0's entity model: app_id = agency, user_id = person,
+--   agent_id / run_id = optional narrower scopes. Search is lexical
+--   (full-text, any query word) plus optional embedding similarity when
+--   embeddings are configured. Memories past their expiration date are
+--   hidden from every read. History keeps ADD / UPDATE / DELETE events,
+--   including for deleted memories.
+-- Date: 2026-10-22
+
+-- ── Tables ───────────────────────────────────────────────────────────────────
+-- Entity ids are TEXT, as in Mem0, so any caller-defined id works
+CREATE TABLE IF NOT EXISTS memory (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_id TEXT,
+  user_id TEXT,
+  agent_id TEXT,
+  run_id TEXT,
+  content TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  -- Plain arrays rather than pgvector so the store runs on any Postgres
+  embedding DOUBLE PRECISION[],
+  -- Hidden from this date on (Mem0's expiration_date)
+  expires_on DATE,
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- No foreign key to memory: history outlives the memory it describes
+CREATE TABLE IF NOT EXISTS memory_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  memory_id UUID NOT NULL,
+  app_id TEXT,
+  user_id TEXT,
+  event TEXT NOT NULL CHECK (event IN ('ADD', 'UPDATE', 'DELETE')),
+  old_memory TEXT,
+  new_memory TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_memory_app_user
+  ON memory(app_id, user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_memory_run
+  ON memory(run_id) WHERE run_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memory_search
+  ON memory USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_memory_metadata
+  ON memory USING GIN (metadata jsonb_path_ops);
+
+CREATE INDEX IF NOT EXISTS idx_memory_expires_on
+  ON memory(expires_on) WHERE expires_on IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memory_history_memory
+  ON memory_history(memory_id, created_at);
+
+-- ── Search ───────────────────────────────────────────────────────────────────
+-- Cosine similarity of two embeddings; NULL when either is missing or they
+-- come from models with different dimensions
+CREATE OR REPLACE FUNCTION memory_cosine_similarity(a DOUBLE PRECISION[], b DOUBLE PRECISION[])
+RETURNS DOUBLE PRECISION
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN a IS NULL OR b IS NULL OR cardinality(a) <> cardinality(b) THEN NULL
+    ELSE (
+      SELECT SUM(x * y) / NULLIF(SQRT(SUM(x * x)) * SQRT(SUM(y * y)), 0)
+      FROM unnest(a, b) AS t(x, y)
+    )
+  END;
+$$;
+
+-- Unexpired memories in scope, best matches first. A memory matches when it
+-- shares any word with the query or, with p_query_embedding, has an
+-- embedding. Scores are 0-1: lexical rank alone, or blended 30/70 with
+-- similarity when both sides have embeddings.
+CREATE OR REPLACE FUNCTION search_memories(
+  p_query TEXT,
+  p_app_id TEXT DEFAULT NULL,
+  p_user_id TEXT DEFAULT NULL,
+  p_agent_id TEXT DEFAULT NULL,
+  p_run_id TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_query_embedding DOUBLE PRECISION[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  metadata JSONB,
+  user_id TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql STABLE AS $$
+  WITH scored AS (
+    SELECT
+      m.*,
+      -- plainto_tsquery ANDs the words; any shared word should count
+      CASE WHEN m.search_vector @@ q.any_word
+        THEN ts_rank_cd(m.search_vector, q.any_word, 32) ELSE 0 END AS lexical,
+      memory_cosine_similarity(m.embedding, p_query_embedding) AS similarity
+    FROM memory m
+    CROSS JOIN (
+      SELECT replace(plainto_tsquery('english', p_query)::TEXT, '&', '|')::TSQUERY AS any_word
+    ) q
+    WHERE (p_app_id IS NULL OR m.app_id = p_app_id)
+      AND (p_user_id IS NULL OR m.user_id = p_user_id)
+      AND (p_agent_id IS NULL OR m.agent_id = p_agent_id)
+      AND (p_run_id IS NULL OR m.run_id = p_run_id)
+      AND (p_metadata IS NULL OR m.metadata @> p_metadata)
+      AND (p_categories IS NULL OR m.categories && p_categories)
+      AND (m.expires_on IS NULL OR m.expires_on > CURRENT_DATE)
+  )
+  SELECT
+    s.id,
+    s.content,
+    s.metadata,
+    s.user_id,
+    s.created_at,
+    s.updated_at,
+    CASE WHEN s.similarity IS NULL THEN s.lexical
+      ELSE 0.3 * s.lexical + 0.7 * GREATEST(s.similarity, 0) END AS score
+  FROM scored s
+  WHERE s.lexical > 0 OR s.similarity IS NOT NULL
+  ORDER BY score DESC, s.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+-- ── Entities ─────────────────────────────────────────────────────────────────
+-- Users, agents and apps with unexpired memories (Mem0's entities listing)
+CREATE OR REPLACE FUNCTION memory_entities()
+RETURNS TABLE (type TEXT, id TEXT, count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH live AS (
+    SELECT * FROM memory WHERE expires_on IS NULL OR expires_on > CURRENT_DATE
+  )
+  SELECT 'user', user_id, COUNT(*) FROM live WHERE user_id IS NOT NULL GROUP BY user_id
+  UNION ALL
+  SELECT 'agent', agent_id, COUNT(*) FROM live WHERE agent_id IS NOT NULL GROUP BY agent_id
+  UNION ALL
+  SELECT 'app', app_id, COUNT(*) FROM live WHERE app_id IS NOT NULL GROUP BY app_id;
+$$;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE memory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_history ENABLE ROW LEVEL SECURITY;
+
+-- The app reads and writes through the service role, scoping every call by
+-- app_id and user_id as it does with Mem0. Users may read their own memories.
+CREATE POLICY "memory_own_read" ON memory
+  FOR SELECT USING (
+    user_id = auth.uid()::TEXT
+    AND app_id IN (
+      SELECT agency_id::TEXT FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "memory_history_own_read" ON memory_history
+  FOR SELECT USING (
+    user_id = auth.uid()::TEXT
+    AND app_id IN (
+      SELECT agency_id::TEXT FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass
+CREATE POLICY "memory_service" ON memory
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "memory_history_service" ON memory_history
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,100 @@
+-- Migration: memory_maintenance
+-- Purpose: Support for the daily memory-maintenance cron, which enforces
+--   EXPIRATION_DAYS, merges near-duplicate memories and promotes memories
+--   that keep being recalled. Works with either memory backend, so memories
+--   are referenced by their backend id (TEXT) rather than a foreign key.
+--   - memory_recall: how often each memory was injected into chat
+--   - memory_archive: expired memories of types that are archived, not deleted
+--   - memory_maintenance_report: one row per agency per run
+-- Date: 2026-10-23
+
+-- ── Tables ───────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS memory_recall (
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  memory_id TEXT NOT NULL,
+  user_id UUID REFERENCES "user"(id) ON DELETE CASCADE,
+  recall_count INTEGER NOT NULL DEFAULT 0,
+  last_recalled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (agency_id, memory_id)
+);
+
+CREATE TABLE IF NOT EXISTS memory_archive (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES "user"(id) ON DELETE SET NULL,
+  memory_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  memory_created_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS memory_maintenance_report (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  users_scanned INTEGER NOT NULL DEFAULT 0,
+  memories_scanned INTEGER NOT NULL DEFAULT 0,
+  expired_deleted INTEGER NOT NULL DEFAULT 0,
+  expired_archived INTEGER NOT NULL DEFAULT 0,
+  -- Originals merged away, and the consolidated memories that replaced them
+  duplicates_merged INTEGER NOT NULL DEFAULT 0,
+  consolidated INTEGER NOT NULL DEFAULT 0,
+  promoted INTEGER NOT NULL DEFAULT 0,
+  errors TEXT[] NOT NULL DEFAULT '{}'
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_memory_archive_agency_user
+  ON memory_archive(agency_id, user_id, archived_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_memory_maintenance_report_agency
+  ON memory_maintenance_report(agency_id, started_at DESC);
+
+-- ── Recalls ──────────────────────────────────────────────────────────────────
+-- Count one recall for each memory injected into a chat response
+CREATE OR REPLACE FUNCTION record_memory_recalls(
+  p_agency_id UUID,
+  p_user_id UUID,
+  p_memory_ids TEXT[]
+)
+RETURNS VOID
+LANGUAGE sql AS $$
+  INSERT INTO memory_recall (agency_id, memory_id, user_id, recall_count, last_recalled_at)
+  SELECT p_agency_id, memory_id, p_user_id, 1, NOW()
+  FROM unnest(p_memory_ids) AS memory_id
+  ON CONFLICT (agency_id, memory_id) DO UPDATE
+    SET recall_count = memory_recall.recall_count + 1,
+        last_recalled_at = NOW();
+$$;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE memory_recall ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_maintenance_report ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own recalls and archived memories
+CREATE POLICY "memory_recall_own_read" ON memory_recall
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "memory_archive_own_read" ON memory_archive
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Agency members can read their agency's maintenance reports
+CREATE POLICY "memory_maintenance_report_agency_read" ON memory_maintenance_report
+  FOR SELECT USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Written by the chat route and the cron through the service role
+CREATE POLICY "memory_recall_service" ON memory_recall
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "memory_archive_service" ON memory_archive
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "memory_maintenance_report_service" ON memory_maintenance_report
+  FOR ALL USING (auth.role() = 'service_role');
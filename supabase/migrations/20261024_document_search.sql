@@ -0,0 +1,68 @@
+-- Migration: document_search
+-- Purpose: Keyword half of the knowledge base's hybrid search. Documents keep
+--   the text extracted from them at processing time, indexed for full-text
+--   search together with the title. Documents processed before this
+--   migration match on their title until they are reprocessed.
+-- Date: 2026-10-24
+
+-- ── Columns ──────────────────────────────────────────────────────────────────
+ALTER TABLE document
+  ADD COLUMN IF NOT EXISTS extracted_text TEXT,
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(extracted_text, '')), 'B')
+    ) STORED;
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_document_search
+  ON document USING GIN (search_vector);
+
+-- ── Search ───────────────────────────────────────────────────────────────────
+-- Active documents matching a web-style query, best matches first, with the
+-- title and up to two passages highlighted (**match**). Optional filters by
+-- category, client, uploader and upload date (p_from inclusive, p_to exclusive).
+-- Highlighting runs on the ranked page only, as ts_headline is expensive.
+CREATE OR REPLACE FUNCTION search_documents(
+  p_agency_id UUID,
+  p_query TEXT,
+  p_category document_category DEFAULT NULL,
+  p_client_id UUID DEFAULT NULL,
+  p_uploaded_by UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  document_id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    ranked.id,
+    ranked.rank,
+    ts_headline('english', d.title, ranked.q, 'StartSel=**, StopSel=**, HighlightAll=true'),
+    CASE WHEN d.extracted_text IS NULL THEN NULL ELSE
+      ts_headline('english', d.extracted_text, ranked.q,
+        'StartSel=**, StopSel=**, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END
+  FROM (
+    SELECT d.id, q, ts_rank_cd(d.search_vector, q) AS rank, d.updated_at
+    FROM document d
+    CROSS JOIN websearch_to_tsquery('english', p_query) q
+    WHERE d.agency_id = p_agency_id
+      AND d.is_active = true
+      AND d.search_vector @@ q
+      AND (p_category IS NULL OR d.category = p_category)
+      AND (p_client_id IS NULL OR d.client_id = p_client_id)
+      AND (p_uploaded_by IS NULL OR d.uploaded_by = p_uploaded_by)
+      AND (p_from IS NULL OR d.created_at >= p_from)
+      AND (p_to IS NULL OR d.created_at < p_to)
+    ORDER BY rank DESC, d.updated_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  ) ranked
+  JOIN document d ON d.id = ranked.id
+  ORDER BY ranked.rank DESC, ranked.updated_at DESC;
+$$;
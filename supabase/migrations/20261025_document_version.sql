@@ -0,0 +1,76 @@
+-- Migration: document_version
+-- Purpose: Version history for knowledge base documents. Uploading a revised
+--   file adds a version instead of replacing the document, so its views,
+--   downloads, star and client scoping are kept. Each version keeps its own
+--   stored file and extracted text, for restoring and diffing. The document
+--   row always describes its current version (current_version); restores are
+--   recorded as new versions pointing at the restored file.
+-- Date: 2026-10-25
+
+-- ── Columns ──────────────────────────────────────────────────────────────────
+ALTER TABLE document
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+-- ── Table ────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS document_version (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES document(id) ON DELETE CASCADE,
+  agency_id UUID NOT NULL REFERENCES agency(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL,
+  mime_type TEXT NOT NULL,
+  -- Filled in when the version is indexed; NULL for formats without text
+  extracted_text TEXT,
+  change_note TEXT,
+  created_by UUID REFERENCES "user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (document_id, version_number)
+);
+
+-- ── Indexes ──────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_document_version_document
+  ON document_version(document_id, version_number DESC);
+
+-- ── Backfill ─────────────────────────────────────────────────────────────────
+-- Existing documents start with their current file as version 1
+INSERT INTO document_version (
+  document_id, agency_id, version_number, storage_path, file_name, file_size,
+  mime_type, extracted_text, change_note, created_by, created_at
+)
+SELECT d.id, d.agency_id, 1, d.storage_path, d.file_name, d.file_size,
+  d.mime_type, d.extracted_text, 'Initial version', d.uploaded_by, d.created_at
+FROM document d
+ON CONFLICT DO NOTHING;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+ALTER TABLE document_version ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "document_version_agency_read" ON document_version
+  FOR SELECT USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Versions are written by the upload or restore that creates them, as its author
+CREATE POLICY "document_version_agency_insert" ON document_version
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Indexing fills in extracted_text after the version is created
+CREATE POLICY "document_version_agency_update" ON document_version
+  FOR UPDATE USING (
+    agency_id IN (
+      SELECT agency_id FROM "user" WHERE id = auth.uid()
+    )
+  );
+
+-- Service role bypass
+CREATE POLICY "document_version_service" ON document_version
+  FOR ALL USING (auth.role() = 'service_role');
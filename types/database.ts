@@ -122,6 +122,63 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_usage: {
+        Row: {
+          agency_id: string
+          created_at: string
+          feature: string
+          id: string
+          input_tokens: number
+          model: string | null
+          output_tokens: number
+          provider: string
+          requests: number
+          total_tokens: number
+          user_id: string | null
+        }
+        Insert: {
+          agency_id: string
+          created_at?: string
+          feature: string
+          id?: string
+          input_tokens?: number
+          model?: string | null
+          output_tokens?: number
+          provider: string
+          requests?: number
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Update: {
+          agency_id?: string
+          created_at?: string
+          feature?: string
+          id?: string
+          input_tokens?: number
+          model?: string | null
+          output_tokens?: number
+          provider?: string
+          requests?: number
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       airbyte_account_mapping: {
         Row: {
           agency_id: string
@@ -439,6 +496,57 @@ export type Database = {
           },
         ]
       }
+      cartridge_version: {
+        Row: {
+          agency_id: string
+          cartridge_id: string
+          cartridge_type: string
+          change_summary: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          snapshot: Json
+          version_number: number
+        }
+        Insert: {
+          agency_id: string
+          cartridge_id: string
+          cartridge_type: string
+          change_summary?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          snapshot: Json
+          version_number: number
+        }
+        Update: {
+          agency_id?: string
+          cartridge_id?: string
+          cartridge_type?: string
+          change_summary?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          snapshot?: Json
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cartridge_version_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cartridge_version_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cartridges: {
         Row: {
           agency_id: string
@@ -574,6 +682,7 @@ export type Database = {
           id: string
           role: Database["public"]["Enums"]["chat_role"]
           route_used: Database["public"]["Enums"]["chat_route"] | null
+          search_vector: unknown
           session_id: string
           tokens_used: number | null
         }
@@ -616,34 +725,112 @@ export type Database = {
           },
         ]
       }
+      chat_pending_action: {
+        Row: {
+          agency_id: string
+          args: Json
+          changes: Json
+          created_at: string
+          error: string | null
+          expires_at: string
+          function_name: string
+          id: string
+          resolved_at: string | null
+          result: Json | null
+          status: string
+          summary: string
+          target: Json | null
+          user_id: string
+        }
+        Insert: {
+          agency_id: string
+          args: Json
+          changes?: Json
+          created_at?: string
+          error?: string | null
+          expires_at: string
+          function_name: string
+          id?: string
+          resolved_at?: string | null
+          result?: Json | null
+          status?: string
+          summary: string
+          target?: Json | null
+          user_id: string
+        }
+        Update: {
+          agency_id?: string
+          args?: Json
+          changes?: Json
+          created_at?: string
+          error?: string | null
+          expires_at?: string
+          function_name?: string
+          id?: string
+          resolved_at?: string | null
+          result?: Json | null
+          status?: string
+          summary?: string
+          target?: Json | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_pending_action_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_pending_action_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_session: {
         Row: {
           agency_id: string
+          archived_at: string | null
+          branched_from_message_id: string | null
           context: Json | null
           created_at: string
           id: string
           is_active: boolean
+          is_pinned: boolean
           last_message_at: string | null
+          parent_session_id: string | null
           title: string | null
           user_id: string
         }
         Insert: {
           agency_id: string
+          archived_at?: string | null
+          branched_from_message_id?: string | null
           context?: Json | null
           created_at?: string
           id?: string
           is_active?: boolean
+          is_pinned?: boolean
           last_message_at?: string | null
+          parent_session_id?: string | null
           title?: string | null
           user_id: string
         }
         Update: {
           agency_id?: string
+          archived_at?: string | null
+          branched_from_message_id?: string | null
           context?: Json | null
           created_at?: string
           id?: string
           is_active?: boolean
+          is_pinned?: boolean
           last_message_at?: string | null
+          parent_session_id?: string | null
           title?: string | null
           user_id?: string
         }
@@ -655,6 +842,20 @@ export type Database = {
             referencedRelation: "agency"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_session_branched_from_message_id_fkey"
+            columns: ["branched_from_message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_message"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_session_parent_session_id_fkey"
+            columns: ["parent_session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_session"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chat_session_user_id_fkey"
             columns: ["user_id"]
@@ -1086,9 +1287,11 @@ export type Database = {
           category: Database["public"]["Enums"]["document_category"]
           client_id: string | null
           created_at: string
+          current_version: number
           download_count: number
           drive_file_id: string | null
           drive_url: string | null
+          extracted_text: string | null
           file_name: string
           file_search_store_id: string | null
           file_size: number
@@ -1100,6 +1303,7 @@ export type Database = {
           is_starred: boolean
           mime_type: string
           page_count: number | null
+          search_vector: unknown
           storage_path: string
           title: string
           updated_at: string
@@ -1113,9 +1317,11 @@ export type Database = {
           category: Database["public"]["Enums"]["document_category"]
           client_id?: string | null
           created_at?: string
+          current_version?: number
           download_count?: number
           drive_file_id?: string | null
           drive_url?: string | null
+          extracted_text?: string | null
           file_name: string
           file_search_store_id?: string | null
           file_size: number
@@ -1140,9 +1346,11 @@ export type Database = {
           category?: Database["public"]["Enums"]["document_category"]
           client_id?: string | null
           created_at?: string
+          current_version?: number
           download_count?: number
           drive_file_id?: string | null
           drive_url?: string | null
+          extracted_text?: string | null
           file_name?: string
           file_search_store_id?: string | null
           file_size?: number
@@ -1193,6 +1401,73 @@ export type Database = {
           },
         ]
       }
+      document_version: {
+        Row: {
+          agency_id: string
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          document_id: string
+          extracted_text: string | null
+          file_name: string
+          file_size: number
+          id: string
+          mime_type: string
+          storage_path: string
+          version_number: number
+        }
+        Insert: {
+          agency_id: string
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          document_id: string
+          extracted_text?: string | null
+          file_name: string
+          file_size: number
+          id?: string
+          mime_type: string
+          storage_path: string
+          version_number: number
+        }
+        Update: {
+          agency_id?: string
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          document_id?: string
+          extracted_text?: string | null
+          file_name?: string
+          file_size?: number
+          id?: string
+          mime_type?: string
+          storage_path?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_version_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_version_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_version_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "document"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_search_store: {
         Row: {
           agency_id: string
@@ -1543,102 +1818,321 @@ export type Database = {
           },
         ]
       }
-      onboarding_instance: {
+      memory: {
         Row: {
-          agency_id: string
-          ai_analysis: string | null
-          ai_analysis_generated_at: string | null
-          client_id: string
-          completed_at: string | null
+          agent_id: string | null
+          app_id: string | null
+          categories: string[]
+          content: string
           created_at: string
-          current_stage_id: string | null
+          embedding: number[] | null
+          expires_on: string | null
           id: string
-          journey_id: string
-          link_token: string
-          seo_data: Json | null
-          status: Database["public"]["Enums"]["onboarding_status"]
-          triggered_at: string
-          triggered_by: string
+          metadata: Json
+          run_id: string | null
+          search_vector: unknown
           updated_at: string
+          user_id: string | null
         }
         Insert: {
-          agency_id: string
-          ai_analysis?: string | null
-          ai_analysis_generated_at?: string | null
-          client_id: string
-          completed_at?: string | null
+          agent_id?: string | null
+          app_id?: string | null
+          categories?: string[]
+          content: string
           created_at?: string
-          current_stage_id?: string | null
+          embedding?: number[] | null
+          expires_on?: string | null
           id?: string
-          journey_id: string
-          link_token: string
-          seo_data?: Json | null
-          status?: Database["public"]["Enums"]["onboarding_status"]
-          triggered_at?: string
-          triggered_by: string
+          metadata?: Json
+          run_id?: string | null
           updated_at?: string
+          user_id?: string | null
         }
         Update: {
-          agency_id?: string
-          ai_analysis?: string | null
-          ai_analysis_generated_at?: string | null
-          client_id?: string
-          completed_at?: string | null
+          agent_id?: string | null
+          app_id?: string | null
+          categories?: string[]
+          content?: string
           created_at?: string
-          current_stage_id?: string | null
+          embedding?: number[] | null
+          expires_on?: string | null
           id?: string
-          journey_id?: string
-          link_token?: string
-          seo_data?: Json | null
-          status?: Database["public"]["Enums"]["onboarding_status"]
-          triggered_at?: string
-          triggered_by?: string
+          metadata?: Json
+          run_id?: string | null
           updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      memory_archive: {
+        Row: {
+          agency_id: string
+          archived_at: string
+          content: string
+          id: string
+          memory_created_at: string | null
+          memory_id: string
+          metadata: Json
+          user_id: string | null
+        }
+        Insert: {
+          agency_id: string
+          archived_at?: string
+          content: string
+          id?: string
+          memory_created_at?: string | null
+          memory_id: string
+          metadata?: Json
+          user_id?: string | null
+        }
+        Update: {
+          agency_id?: string
+          archived_at?: string
+          content?: string
+          id?: string
+          memory_created_at?: string | null
+          memory_id?: string
+          metadata?: Json
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "onboarding_instance_agency_id_fkey"
+            foreignKeyName: "memory_archive_agency_id_fkey"
             columns: ["agency_id"]
             isOneToOne: false
             referencedRelation: "agency"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "onboarding_instance_client_id_fkey"
-            columns: ["client_id"]
-            isOneToOne: false
-            referencedRelation: "client"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "onboarding_instance_journey_id_fkey"
-            columns: ["journey_id"]
-            isOneToOne: false
-            referencedRelation: "onboarding_journey"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "onboarding_instance_triggered_by_fkey"
-            columns: ["triggered_by"]
+            foreignKeyName: "memory_archive_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "user"
             referencedColumns: ["id"]
           },
         ]
       }
-      onboarding_journey: {
+      memory_history: {
         Row: {
-          agency_id: string
-          ai_analysis_prompt: string | null
+          app_id: string | null
           created_at: string
-          description: string | null
+          event: string
           id: string
-          is_active: boolean
-          is_default: boolean
-          name: string
-          stages: Json
-          updated_at: string
-          welcome_video_url: string | null
+          memory_id: string
+          new_memory: string | null
+          old_memory: string | null
+          user_id: string | null
+        }
+        Insert: {
+          app_id?: string | null
+          created_at?: string
+          event: string
+          id?: string
+          memory_id: string
+          new_memory?: string | null
+          old_memory?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          app_id?: string | null
+          created_at?: string
+          event?: string
+          id?: string
+          memory_id?: string
+          new_memory?: string | null
+          old_memory?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      memory_maintenance_report: {
+        Row: {
+          agency_id: string
+          completed_at: string
+          consolidated: number
+          duplicates_merged: number
+          errors: string[]
+          expired_archived: number
+          expired_deleted: number
+          id: string
+          memories_scanned: number
+          promoted: number
+          started_at: string
+          users_scanned: number
+        }
+        Insert: {
+          agency_id: string
+          completed_at?: string
+          consolidated?: number
+          duplicates_merged?: number
+          errors?: string[]
+          expired_archived?: number
+          expired_deleted?: number
+          id?: string
+          memories_scanned?: number
+          promoted?: number
+          started_at: string
+          users_scanned?: number
+        }
+        Update: {
+          agency_id?: string
+          completed_at?: string
+          consolidated?: number
+          duplicates_merged?: number
+          errors?: string[]
+          expired_archived?: number
+          expired_deleted?: number
+          id?: string
+          memories_scanned?: number
+          promoted?: number
+          started_at?: string
+          users_scanned?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memory_maintenance_report_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      memory_recall: {
+        Row: {
+          agency_id: string
+          last_recalled_at: string
+          memory_id: string
+          recall_count: number
+          user_id: string | null
+        }
+        Insert: {
+          agency_id: string
+          last_recalled_at?: string
+          memory_id: string
+          recall_count?: number
+          user_id?: string | null
+        }
+        Update: {
+          agency_id?: string
+          last_recalled_at?: string
+          memory_id?: string
+          recall_count?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memory_recall_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "memory_recall_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_instance: {
+        Row: {
+          agency_id: string
+          ai_analysis: string | null
+          ai_analysis_generated_at: string | null
+          client_id: string
+          completed_at: string | null
+          created_at: string
+          current_stage_id: string | null
+          id: string
+          journey_id: string
+          link_token: string
+          seo_data: Json | null
+          status: Database["public"]["Enums"]["onboarding_status"]
+          triggered_at: string
+          triggered_by: string
+          updated_at: string
+        }
+        Insert: {
+          agency_id: string
+          ai_analysis?: string | null
+          ai_analysis_generated_at?: string | null
+          client_id: string
+          completed_at?: string | null
+          created_at?: string
+          current_stage_id?: string | null
+          id?: string
+          journey_id: string
+          link_token: string
+          seo_data?: Json | null
+          status?: Database["public"]["Enums"]["onboarding_status"]
+          triggered_at?: string
+          triggered_by: string
+          updated_at?: string
+        }
+        Update: {
+          agency_id?: string
+          ai_analysis?: string | null
+          ai_analysis_generated_at?: string | null
+          client_id?: string
+          completed_at?: string | null
+          created_at?: string
+          current_stage_id?: string | null
+          id?: string
+          journey_id?: string
+          link_token?: string
+          seo_data?: Json | null
+          status?: Database["public"]["Enums"]["onboarding_status"]
+          triggered_at?: string
+          triggered_by?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_instance_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onboarding_instance_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "client"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onboarding_instance_journey_id_fkey"
+            columns: ["journey_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_journey"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onboarding_instance_triggered_by_fkey"
+            columns: ["triggered_by"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_journey: {
+        Row: {
+          agency_id: string
+          ai_analysis_prompt: string | null
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          stages: Json
+          updated_at: string
+          welcome_video_url: string | null
         }
         Insert: {
           agency_id: string
@@ -2685,13 +3179,143 @@ export type Database = {
           },
         ]
       }
+      workflow_approval: {
+        Row: {
+          action_config: Json
+          action_id: string
+          action_index: number
+          action_name: string
+          action_type: string
+          agency_id: string
+          approved_at: string | null
+          approved_by: string | null
+          client_id: string | null
+          context: Json
+          created_at: string
+          expires_at: string
+          id: string
+          prior_results: Json
+          rejected_at: string | null
+          rejected_by: string | null
+          rejection_reason: string | null
+          requested_at: string
+          requested_by: string
+          status: string
+          updated_at: string
+          workflow_id: string
+          workflow_run_id: string
+        }
+        Insert: {
+          action_config: Json
+          action_id: string
+          action_index: number
+          action_name: string
+          action_type: string
+          agency_id: string
+          approved_at?: string | null
+          approved_by?: string | null
+          client_id?: string | null
+          context: Json
+          created_at?: string
+          expires_at: string
+          id?: string
+          prior_results?: Json
+          rejected_at?: string | null
+          rejected_by?: string | null
+          rejection_reason?: string | null
+          requested_at?: string
+          requested_by: string
+          status?: string
+          updated_at?: string
+          workflow_id: string
+          workflow_run_id: string
+        }
+        Update: {
+          action_config?: Json
+          action_id?: string
+          action_index?: number
+          action_name?: string
+          action_type?: string
+          agency_id?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          client_id?: string | null
+          context?: Json
+          created_at?: string
+          expires_at?: string
+          id?: string
+          prior_results?: Json
+          rejected_at?: string | null
+          rejected_by?: string | null
+          rejection_reason?: string | null
+          requested_at?: string
+          requested_by?: string
+          status?: string
+          updated_at?: string
+          workflow_id?: string
+          workflow_run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_approval_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approval_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approval_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "client"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approval_rejected_by_fkey"
+            columns: ["rejected_by"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approval_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approval_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflow"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approval_workflow_run_id_fkey"
+            columns: ["workflow_run_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_run"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_run: {
         Row: {
           agency_id: string
+          client_id: string | null
           completed_at: string | null
           error_message: string | null
           executed_actions: Json | null
           id: string
+          retry_of_run_id: string | null
           started_at: string
           status: Database["public"]["Enums"]["workflow_status"]
           trigger_data: Json
@@ -2699,10 +3323,12 @@ export type Database = {
         }
         Insert: {
           agency_id: string
+          client_id?: string | null
           completed_at?: string | null
           error_message?: string | null
           executed_actions?: Json | null
           id?: string
+          retry_of_run_id?: string | null
           started_at?: string
           status?: Database["public"]["Enums"]["workflow_status"]
           trigger_data: Json
@@ -2710,10 +3336,12 @@ export type Database = {
         }
         Update: {
           agency_id?: string
+          client_id?: string | null
           completed_at?: string | null
           error_message?: string | null
           executed_actions?: Json | null
           id?: string
+          retry_of_run_id?: string | null
           started_at?: string
           status?: Database["public"]["Enums"]["workflow_status"]
           trigger_data?: Json
@@ -2727,6 +3355,20 @@ export type Database = {
             referencedRelation: "agency"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "workflow_run_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "client"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_run_retry_of_run_id_fkey"
+            columns: ["retry_of_run_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_run"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "workflow_run_workflow_id_fkey"
             columns: ["workflow_id"]
@@ -2736,11 +3378,261 @@ export type Database = {
           },
         ]
       }
+      workflow_scheduled_step: {
+        Row: {
+          action_id: string
+          action_index: number
+          agency_id: string
+          attempts: number
+          context: Json
+          created_at: string
+          id: string
+          last_error: string | null
+          prior_results: Json
+          processed_at: string | null
+          run_at: string
+          status: string
+          updated_at: string
+          workflow_id: string
+          workflow_run_id: string
+        }
+        Insert: {
+          action_id: string
+          action_index: number
+          agency_id: string
+          attempts?: number
+          context: Json
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          prior_results?: Json
+          processed_at?: string | null
+          run_at: string
+          status?: string
+          updated_at?: string
+          workflow_id: string
+          workflow_run_id: string
+        }
+        Update: {
+          action_id?: string
+          action_index?: number
+          agency_id?: string
+          attempts?: number
+          context?: Json
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          prior_results?: Json
+          processed_at?: string | null
+          run_at?: string
+          status?: string
+          updated_at?: string
+          workflow_id?: string
+          workflow_run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_scheduled_step_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_scheduled_step_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflow"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_scheduled_step_workflow_run_id_fkey"
+            columns: ["workflow_run_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_run"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_template: {
+        Row: {
+          actions: Json
+          agency_id: string
+          category: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          source_workflow_id: string | null
+          triggers: Json
+          updated_at: string
+          use_count: number
+        }
+        Insert: {
+          actions: Json
+          agency_id: string
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          source_workflow_id?: string | null
+          triggers: Json
+          updated_at?: string
+          use_count?: number
+        }
+        Update: {
+          actions?: Json
+          agency_id?: string
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          source_workflow_id?: string | null
+          triggers?: Json
+          updated_at?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_template_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_template_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_template_source_workflow_id_fkey"
+            columns: ["source_workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflow"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_trigger_schedule: {
+        Row: {
+          agency_id: string
+          created_at: string
+          id: string
+          last_fired_at: string | null
+          next_run_at: string | null
+          schedule: string
+          timezone: string
+          trigger_id: string
+          updated_at: string
+          workflow_id: string
+        }
+        Insert: {
+          agency_id: string
+          created_at?: string
+          id?: string
+          last_fired_at?: string | null
+          next_run_at?: string | null
+          schedule: string
+          timezone: string
+          trigger_id: string
+          updated_at?: string
+          workflow_id: string
+        }
+        Update: {
+          agency_id?: string
+          created_at?: string
+          id?: string
+          last_fired_at?: string | null
+          next_run_at?: string | null
+          schedule?: string
+          timezone?: string
+          trigger_id?: string
+          updated_at?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_trigger_schedule_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_trigger_schedule_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflow"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_webhook_secret: {
+        Row: {
+          agency_id: string
+          created_at: string
+          id: string
+          rotated_at: string | null
+          secret: string
+          updated_at: string
+        }
+        Insert: {
+          agency_id: string
+          created_at?: string
+          id?: string
+          rotated_at?: string | null
+          secret: string
+          updated_at?: string
+        }
+        Update: {
+          agency_id?: string
+          created_at?: string
+          id?: string
+          rotated_at?: string | null
+          secret?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_webhook_secret_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: true
+            referencedRelation: "agency"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      ai_usage_report: {
+        Args: { p_agency_id: string; p_since: string }
+        Returns: {
+          day: string
+          feature: string
+          requests: number
+          tokens: number
+          user_id: string | null
+        }[]
+      }
+      ai_usage_totals: {
+        Args: { p_agency_id: string; p_since: string; p_user_id: string | null }
+        Returns: {
+          agency_requests: number
+          agency_tokens: number
+          user_tokens: number
+        }[]
+      }
       cleanup_expired_invitations: { Args: never; Returns: undefined }
       cleanup_expired_rate_limits: { Args: never; Returns: undefined }
       get_my_agency_id: { Args: never; Returns: string }
@@ -2772,6 +3664,79 @@ export type Database = {
           count: number
         }[]
       }
+      memory_cosine_similarity: {
+        Args: { a: number[]; b: number[] }
+        Returns: number
+      }
+      memory_entities: {
+        Args: never
+        Returns: {
+          count: number
+          id: string
+          type: string
+        }[]
+      }
+      record_memory_recalls: {
+        Args: { p_agency_id: string; p_memory_ids: string[]; p_user_id: string }
+        Returns: undefined
+      }
+      search_chat_messages: {
+        Args: {
+          p_agency_id: string
+          p_limit?: number
+          p_query: string
+          p_user_id: string
+        }
+        Returns: {
+          created_at: string
+          message_id: string
+          rank: number
+          role: Database["public"]["Enums"]["chat_role"]
+          session_id: string
+          session_title: string | null
+          snippet: string
+        }[]
+      }
+      search_documents: {
+        Args: {
+          p_agency_id: string
+          p_category?: Database["public"]["Enums"]["document_category"]
+          p_client_id?: string
+          p_from?: string
+          p_limit?: number
+          p_query: string
+          p_to?: string
+          p_uploaded_by?: string
+        }
+        Returns: {
+          document_id: string
+          rank: number
+          snippet: string | null
+          title_highlight: string
+        }[]
+      }
+      search_memories: {
+        Args: {
+          p_agent_id?: string
+          p_app_id?: string
+          p_categories?: string[]
+          p_limit?: number
+          p_metadata?: Json
+          p_query: string
+          p_query_embedding?: number[]
+          p_run_id?: string
+          p_user_id?: string
+        }
+        Returns: {
+          content: string
+          created_at: string
+          id: string
+          metadata: Json
+          score: number
+          updated_at: string
+          user_id: string | null
+        }[]
+      }
       /** Manually added — not in PostgREST introspection (SECURITY DEFINER function) */
       set_cartridge_default: {
         Args: { p_agency_id: string; p_cartridge_id: string; p_type: string }
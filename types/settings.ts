@@ -125,6 +125,7 @@ export type SettingsSection =
   | 'personal_preferences'
   | 'notifications'
   | 'display_preferences'
+  | 'memory'
   | 'pipeline'
   | 'integrations'
   | 'security'
@@ -149,6 +150,8 @@ export const SETTINGS_PERMISSIONS: SettingsPermission[] = [
   { section: 'notifications', action: 'write', roles: ['owner', 'admin', 'manager', 'member'] },
   { section: 'display_preferences', action: 'read', roles: ['owner', 'admin', 'manager', 'member'] },
   { section: 'display_preferences', action: 'write', roles: ['owner', 'admin', 'manager', 'member'] },
+  { section: 'memory', action: 'read', roles: ['owner', 'admin', 'manager', 'member'] },
+  { section: 'memory', action: 'write', roles: ['owner', 'admin', 'manager', 'member'] },
   { section: 'pipeline', action: 'read', roles: ['owner', 'admin', 'manager', 'member'] },
   { section: 'pipeline', action: 'write', roles: ['owner', 'admin'] },
   { section: 'integrations', action: 'read', roles: ['owner', 'admin', 'manager', 'member'] },
@@ -180,10 +183,18 @@ export interface SettingsValidationResult {
 
 export interface TokenUsageStats {
   current_usage: number
+  /** Agency monthly token budget (ai_config.monthly_token_budget); 0 when none is set */
   limit: number
   usage_by_feature: Record<string, number>
   daily_usage: Array<{ date: string; tokens: number }>
   percent_used: number
+  /** Model calls this month */
+  requests?: number
+  /** Per-user monthly token budget (ai_config.user_monthly_token_budget) */
+  user_limit?: number | null
+  usage_by_user?: Array<{ user_id: string | null; name: string; tokens: number; requests: number }>
+  /** When the monthly budgets reset (ISO) */
+  resets_at?: string
 }
 
 // =============================================================================
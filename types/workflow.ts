@@ -15,6 +15,11 @@ export type WorkflowUpdate = Database['public']['Tables']['workflow']['Update']
 export type WorkflowRun = Database['public']['Tables']['workflow_run']['Row']
 export type WorkflowRunInsert = Database['public']['Tables']['workflow_run']['Insert']
 export type WorkflowRunUpdate = Database['public']['Tables']['workflow_run']['Update']
+export type WorkflowScheduledStep = Database['public']['Tables']['workflow_scheduled_step']['Row']
+export type WorkflowApproval = Database['public']['Tables']['workflow_approval']['Row']
+export type WorkflowTriggerSchedule = Database['public']['Tables']['workflow_trigger_schedule']['Row']
+export type WorkflowWebhookSecret = Database['public']['Tables']['workflow_webhook_secret']['Row']
+export type WorkflowTemplateRow = Database['public']['Tables']['workflow_template']['Row']
 
 // Extended workflow status for approvals
 export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'partial_failure' | 'pending_approval' | 'skipped'
@@ -30,6 +35,10 @@ export type TriggerType =
   | 'new_message'
   | 'ticket_created'
   | 'scheduled'
+  | 'ticket_status_changed'
+  | 'onboarding_submitted'
+  | 'alert_created'
+  | 'integration_disconnected'
 
 export interface BaseTrigger {
   id: string
@@ -88,6 +97,36 @@ export interface ScheduledTrigger extends BaseTrigger {
   }
 }
 
+export interface TicketStatusChangedTrigger extends BaseTrigger {
+  type: 'ticket_status_changed'
+  config: {
+    fromStatus?: 'new' | 'in_progress' | 'waiting_client' | 'resolved' // null = any status
+    toStatus?: 'new' | 'in_progress' | 'waiting_client' | 'resolved'
+  }
+}
+
+export interface OnboardingSubmittedTrigger extends BaseTrigger {
+  type: 'onboarding_submitted'
+  config: {
+    journeyId?: string // null = any journey
+  }
+}
+
+export interface AlertCreatedTrigger extends BaseTrigger {
+  type: 'alert_created'
+  config: {
+    types?: ('risk_detected' | 'kpi_drop' | 'inactivity' | 'disconnect')[]
+    severities?: ('low' | 'medium' | 'high' | 'critical')[]
+  }
+}
+
+export interface IntegrationDisconnectedTrigger extends BaseTrigger {
+  type: 'integration_disconnected'
+  config: {
+    providers?: ('slack' | 'gmail' | 'google_ads' | 'meta_ads')[]
+  }
+}
+
 export type WorkflowTrigger =
   | StageChangeTrigger
   | InactivityTrigger
@@ -95,6 +134,10 @@ export type WorkflowTrigger =
   | NewMessageTrigger
   | TicketCreatedTrigger
   | ScheduledTrigger
+  | TicketStatusChangedTrigger
+  | OnboardingSubmittedTrigger
+  | AlertCreatedTrigger
+  | IntegrationDisconnectedTrigger
 
 // ============================================================================
 // ACTION TYPES
@@ -108,6 +151,7 @@ export type ActionType =
   | 'update_client'
   | 'create_alert'
   | 'create_slack_channel'
+  | 'call_webhook'
 
 export interface BaseAction {
   id: string
@@ -115,7 +159,7 @@ export interface BaseAction {
   name: string
   description?: string
   delayMinutes?: number // 0-1440 (24 hours)
-  condition?: ActionCondition
+  condition?: ActionCondition | ConditionGroup
   continueOnFailure?: boolean
   requiresApproval?: boolean
 }
@@ -192,6 +236,19 @@ export interface CreateSlackChannelAction extends BaseAction {
   }
 }
 
+export type WebhookMethod = 'POST' | 'PUT' | 'PATCH' | 'GET' | 'DELETE'
+
+export interface CallWebhookAction extends BaseAction {
+  type: 'call_webhook'
+  config: {
+    url: string // Supports {{variables}}
+    method?: WebhookMethod // Default: POST
+    headers?: Record<string, string> // Values support {{variables}}
+    body?: Record<string, unknown> // JSON body; string values support {{variables}}
+    maxRetries?: number // 0-5, default 3
+  }
+}
+
 export type WorkflowAction =
   | CreateTaskAction
   | SendNotificationAction
@@ -200,6 +257,7 @@ export type WorkflowAction =
   | UpdateClientAction
   | CreateAlertAction
   | CreateSlackChannelAction
+  | CallWebhookAction
 
 // ============================================================================
 // CONDITIONAL LOGIC
@@ -232,6 +290,34 @@ export interface ConditionGroup {
   conditions: (ActionCondition | ConditionGroup)[]
 }
 
+// ============================================================================
+// BRANCHING
+// ============================================================================
+
+export interface WorkflowBranch {
+  id: string
+  name: string
+  condition: ConditionGroup
+  actions: WorkflowAction[]
+}
+
+/**
+ * If / else-if / else step in the action chain.
+ * Branches are evaluated in order and the first match runs; `elseActions` run
+ * when none match. The chosen actions are followed by the rest of the chain.
+ */
+export interface BranchStep {
+  id: string
+  type: 'branch'
+  name: string
+  description?: string
+  branches: WorkflowBranch[]
+  elseActions?: WorkflowAction[]
+}
+
+// What a workflow's `actions` column holds
+export type WorkflowStep = WorkflowAction | BranchStep
+
 // ============================================================================
 // EXECUTION CONTEXT
 // ============================================================================
@@ -244,6 +330,8 @@ export interface WorkflowExecutionContext {
   triggerData: Record<string, unknown>
   clientSnapshot?: ClientSnapshot
   variables: Record<string, string | number | boolean>
+  // Simulation: evaluate everything but never write records or send messages
+  dryRun?: boolean
 }
 
 export interface ClientSnapshot {
@@ -263,16 +351,20 @@ export interface ClientSnapshot {
 // EXECUTION RESULTS
 // ============================================================================
 
-export type ActionResultStatus = 'completed' | 'failed' | 'skipped' | 'pending_approval' | 'partial_failure'
+export type ActionResultStatus = 'completed' | 'failed' | 'skipped' | 'pending_approval' | 'partial_failure' | 'scheduled'
 
 export interface ActionResult {
   actionId: string
-  actionType: ActionType
+  actionType: ActionType | 'branch'
   status: ActionResultStatus
   result?: Record<string, unknown>
   error?: string
   executedAt: string
   durationMs?: number
+  /** Config after variable substitution, recorded for executed actions */
+  resolvedConfig?: Record<string, unknown>
+  /** Set on results copied from the original run when a run is retried */
+  carriedOver?: boolean
 }
 
 export interface WorkflowExecutionResult {
@@ -284,29 +376,27 @@ export interface WorkflowExecutionResult {
   startedAt: string
   completedAt?: string
   error?: string
+  dryRun?: boolean
+  /** Run this execution retried, when started by retrying a failed run */
+  retryOfRunId?: string
 }
 
+// ============================================================================
+// DELAYED STEPS
+// ============================================================================
+
+export type ScheduledStepStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
 // ============================================================================
 // APPROVAL SYSTEM
 // ============================================================================
 
 export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired'
 
-export interface WorkflowApproval {
-  id: string
-  workflowRunId: string
-  actionType: ActionType
-  actionConfig: Record<string, unknown>
-  clientId?: string
-  status: ApprovalStatus
-  requestedBy: string
-  requestedAt: string
-  expiresAt: string
-  approvedBy?: string
-  approvedAt?: string
-  rejectedBy?: string
-  rejectedAt?: string
-  rejectionReason?: string
+// Approval queue item as returned by GET /api/v1/workflows/approvals
+export interface WorkflowApprovalWithContext extends WorkflowApproval {
+  workflow_name?: string
+  client_name?: string
 }
 
 // ============================================================================
@@ -319,11 +409,16 @@ export interface WorkflowWithStats extends Workflow {
   pendingApprovals: number
 }
 
+export interface WorkflowRunDetail extends WorkflowRun {
+  workflow: Pick<Workflow, 'id' | 'name'> & { actions: WorkflowStep[] }
+  retries: WorkflowRun[]
+}
+
 export interface CreateWorkflowRequest {
   name: string
   description?: string
   triggers: WorkflowTrigger[]
-  actions: WorkflowAction[]
+  actions: WorkflowStep[]
   isActive?: boolean
 }
 
@@ -331,7 +426,7 @@ export interface UpdateWorkflowRequest {
   name?: string
   description?: string
   triggers?: WorkflowTrigger[]
-  actions?: WorkflowAction[]
+  actions?: WorkflowStep[]
   isActive?: boolean
 }
 
@@ -358,6 +453,29 @@ export interface WorkflowAnalytics {
   topFailureReasons: { reason: string; count: number }[]
 }
 
+export interface WorkflowAnalyticsRange {
+  startDate: string
+  endDate: string
+}
+
+export interface WorkflowAnalyticsSummary {
+  workflowId: string
+  name: string
+  isActive: boolean
+  totalRuns: number
+  failedRuns: number
+  successRate: number
+  lastRunAt: string | null
+}
+
+/**
+ * Agency-wide rollup: totals across every workflow plus a per-workflow
+ * breakdown, busiest first
+ */
+export interface AgencyWorkflowAnalytics extends WorkflowAnalytics {
+  workflows: WorkflowAnalyticsSummary[]
+}
+
 // ============================================================================
 // TRIGGER/ACTION TYPE METADATA (for UI)
 // ============================================================================
@@ -385,13 +503,54 @@ export interface ActionTypeMetadata {
 // TEMPLATE TYPES
 // ============================================================================
 
+export type WorkflowTemplateCategory = 'onboarding' | 'retention' | 'support' | 'monitoring' | 'custom'
+
 export interface WorkflowTemplate {
   id: string
   name: string
   description: string
-  category: 'onboarding' | 'retention' | 'support' | 'monitoring' | 'custom'
+  category: WorkflowTemplateCategory
   triggers: WorkflowTrigger[]
-  actions: WorkflowAction[]
+  actions: WorkflowStep[]
   popularity: number
   createdAt: string
 }
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+/**
+ * Values in a workflow that only make sense inside one agency and are
+ * remapped on import: ticket assignees, Slack channel IDs and pipeline stages
+ */
+export type WorkflowReferenceKind = 'user' | 'slack_channel' | 'stage'
+
+export interface WorkflowReference {
+  kind: WorkflowReferenceKind
+  value: string
+  /** Human-readable name from the exporting agency, e.g. the assignee's name */
+  label?: string
+}
+
+/**
+ * Replacement for each reference value, by kind. `null` removes the reference
+ * (unassigns a ticket, drops a Slack recipient).
+ */
+export type WorkflowReferenceMapping = Partial<Record<WorkflowReferenceKind, Record<string, string | null>>>
+
+export interface WorkflowBundleEntry {
+  name: string
+  description: string | null
+  triggers: WorkflowTrigger[]
+  actions: WorkflowStep[]
+}
+
+export interface WorkflowBundle {
+  format: 'audienceos.workflow-bundle'
+  version: number
+  exportedAt: string
+  sourceAgencyId: string
+  workflows: WorkflowBundleEntry[]
+  references: WorkflowReference[]
+}